@@ -0,0 +1,68 @@
+// Local stand-in for the sync backend (see src/utils/syncBackends.ts for the protocol).
+// Usage: npm run sync:server -- [port] [data-file]
+// Set SYNC_TOKEN to require `Authorization: Bearer <token>` on every request.
+
+import http from 'node:http';
+import fs from 'node:fs';
+
+const port = Number(process.argv[2]) || 8787;
+const dataFile = process.argv[3] || 'sync-data.json';
+const token = process.env.SYNC_TOKEN;
+
+let log = [];
+if (fs.existsSync(dataFile)) {
+  log = JSON.parse(fs.readFileSync(dataFile, 'utf8')).records || [];
+}
+
+const persist = () => fs.writeFileSync(dataFile, JSON.stringify({ records: log }));
+
+const send = (res, status, body) => {
+  res.writeHead(status, {
+    'Content-Type': 'application/json',
+    'Access-Control-Allow-Origin': '*',
+    'Access-Control-Allow-Headers': 'Content-Type, Authorization',
+    'Access-Control-Allow-Methods': 'GET, POST, OPTIONS',
+  });
+  res.end(body === undefined ? '' : JSON.stringify(body));
+};
+
+const readBody = (req) =>
+  new Promise((resolve, reject) => {
+    let data = '';
+    req.on('data', (chunk) => { data += chunk; });
+    req.on('end', () => {
+      try { resolve(JSON.parse(data || '{}')); } catch (e) { reject(e); }
+    });
+  });
+
+http
+  .createServer(async (req, res) => {
+    if (req.method === 'OPTIONS') return send(res, 204);
+    if (token && req.headers.authorization !== `Bearer ${token}`) {
+      return send(res, 401, { error: 'unauthorized' });
+    }
+
+    const url = new URL(req.url, `http://${req.headers.host}`);
+    try {
+      if (req.method === 'GET' && url.pathname === '/status') {
+        return send(res, 200, { ok: true, records: log.length });
+      }
+      if (req.method === 'GET' && url.pathname === '/changes') {
+        const since = Math.min(Number(url.searchParams.get('since')) || 0, log.length);
+        return send(res, 200, { records: log.slice(since), cursor: String(log.length) });
+      }
+      if (req.method === 'POST' && url.pathname === '/changes') {
+        const { records } = await readBody(req);
+        if (!Array.isArray(records)) return send(res, 400, { error: 'records must be an array' });
+        log.push(...records);
+        persist();
+        return send(res, 200, { cursor: String(log.length) });
+      }
+      send(res, 404, { error: 'not found' });
+    } catch (error) {
+      send(res, 400, { error: String(error) });
+    }
+  })
+  .listen(port, () => {
+    console.log(`Sync stand-in listening on http://localhost:${port} (data: ${dataFile})`);
+  });
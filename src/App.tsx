@@ -12,6 +12,8 @@ import OnboardingFlow from "@/components/OnboardingFlow";
 import Index from "./pages/Index";
 import Notes from "./pages/Notes";
 import NotesCalendar from "./pages/NotesCalendar";
+import NotesGraph from "./pages/NotesGraph";
+import FinanceDashboard from "./pages/FinanceDashboard";
 import WebClipper from "./pages/WebClipper";
 import Settings from "./pages/Settings";
 import SyncSettingsPage from "./pages/SyncSettingsPage";
@@ -22,6 +24,8 @@ import TodoCalendar from "./pages/todo/TodoCalendar";
 import TodoSettings from "./pages/todo/TodoSettings";
 import CustomToolDetail from "./pages/todo/CustomToolDetail";
 import WeeklyReview from "./pages/todo/WeeklyReview";
+import TaskTimeline from "./pages/todo/TaskTimeline";
+import TimeBlocking from "./pages/todo/TimeBlocking";
 import WidgetsDashboard from "./pages/todo/WidgetsDashboard";
 import TaskHistory from "./pages/todo/TaskHistory";
 import NotFound from "./pages/NotFound";
@@ -50,6 +54,8 @@ const AppRoutes = () => {
         <Routes>
           <Route path="/" element={<Index />} />
           <Route path="/notes" element={<Notes />} />
+          <Route path="/notes/graph" element={<NotesGraph />} />
+          <Route path="/finance" element={<FinanceDashboard />} />
           <Route path="/calendar" element={<NotesCalendar />} />
           <Route path="/clip" element={<WebClipper />} />
           <Route path="/settings" element={<Settings />} />
@@ -63,6 +69,8 @@ const AppRoutes = () => {
           <Route path="/todo/weekly-review" element={<WeeklyReview />} />
           <Route path="/todo/dashboard" element={<WidgetsDashboard />} />
           <Route path="/todo/history" element={<TaskHistory />} />
+          <Route path="/todo/timeline" element={<TaskTimeline />} />
+          <Route path="/todo/time-blocks" element={<TimeBlocking />} />
           <Route path="*" element={<NotFound />} />
         </Routes>
       </NavigationBackProvider>
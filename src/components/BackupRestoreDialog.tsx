@@ -0,0 +1,155 @@
+import { useEffect, useState } from 'react';
+import { useTranslation } from 'react-i18next';
+import { format } from 'date-fns';
+import { Loader2 } from 'lucide-react';
+import {
+  AlertDialog,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { RadioGroup, RadioGroupItem } from '@/components/ui/radio-group';
+import { useToast } from '@/hooks/use-toast';
+import {
+  BackupContents,
+  BackupCounts,
+  BackupIntegrityError,
+  RestoreMode,
+  getBackupCounts,
+  readBackupFile,
+  restoreBackup,
+} from '@/utils/backupArchive';
+
+interface BackupRestoreDialogProps {
+  file: File | null; // The picked backup; the dialog opens once it has been read
+  onClose: () => void;
+}
+
+const COUNT_LABELS: Record<keyof BackupCounts, string> = {
+  notes: 'backup.countNotes',
+  tasks: 'backup.countTasks',
+  folders: 'backup.countFolders',
+  sections: 'backup.countSections',
+  calendarEvents: 'backup.countEvents',
+  versions: 'backup.countVersions',
+  taskChanges: 'backup.countTaskChanges',
+  settings: 'backup.countSettings',
+  media: 'backup.countMedia',
+};
+
+export const BackupRestoreDialog = ({ file, onClose }: BackupRestoreDialogProps) => {
+  const { t } = useTranslation();
+  const { toast } = useToast();
+  const [contents, setContents] = useState<BackupContents | null>(null);
+  const [mode, setMode] = useState<RestoreMode>('merge');
+  const [isRestoring, setIsRestoring] = useState(false);
+
+  useEffect(() => {
+    if (!file) {
+      setContents(null);
+      return;
+    }
+    let cancelled = false;
+    setMode('merge');
+    readBackupFile(file)
+      .then(result => {
+        if (!cancelled) setContents(result);
+      })
+      .catch(error => {
+        if (cancelled) return;
+        console.error('Failed to read backup:', error);
+        toast({
+          title: t('toasts.restoreFailed'),
+          description: error instanceof BackupIntegrityError ? t('backup.damaged') : (error as Error).message,
+          variant: 'destructive',
+        });
+        onClose();
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [file, onClose, t, toast]);
+
+  const handleRestore = async () => {
+    if (!contents) return;
+    setIsRestoring(true);
+    try {
+      await restoreBackup(contents, mode);
+      toast({ title: t('toasts.dataRestored') });
+      onClose();
+    } catch (error) {
+      console.error('Restore error:', error);
+      toast({ title: t('toasts.restoreFailed'), variant: 'destructive' });
+    } finally {
+      setIsRestoring(false);
+    }
+  };
+
+  const counts = contents ? getBackupCounts(contents) : null;
+
+  return (
+    <AlertDialog open={!!contents} onOpenChange={(open) => !open && !isRestoring && onClose()}>
+      <AlertDialogContent>
+        <AlertDialogHeader>
+          <AlertDialogTitle>{t('dialogs.restoreTitle')}</AlertDialogTitle>
+          <AlertDialogDescription>
+            {contents?.createdAt
+              ? t('backup.createdAt', { date: format(contents.createdAt, 'PPp') })
+              : t('backup.contains')}
+          </AlertDialogDescription>
+        </AlertDialogHeader>
+
+        {counts && (
+          <div className="grid grid-cols-2 gap-x-4 gap-y-1 text-sm">
+            {(Object.keys(COUNT_LABELS) as (keyof BackupCounts)[])
+              .filter(key => counts[key] > 0)
+              .map(key => (
+                <div key={key} className="flex justify-between">
+                  <span className="text-muted-foreground">{t(COUNT_LABELS[key])}</span>
+                  <span className="font-medium">{counts[key]}</span>
+                </div>
+              ))}
+          </div>
+        )}
+
+        {!!contents?.missingMedia?.length && (
+          <p className="text-xs text-destructive">{t('backup.missingMedia', { count: contents.missingMedia.length })}</p>
+        )}
+
+        <RadioGroup value={mode} onValueChange={(value) => setMode(value as RestoreMode)} className="space-y-2">
+          <div className="flex items-start gap-3 rounded-lg border p-3">
+            <RadioGroupItem value="merge" id="restore-merge" className="mt-0.5" />
+            <Label htmlFor="restore-merge" className="space-y-1 cursor-pointer">
+              <span className="block font-medium">{t('backup.merge')}</span>
+              <span className="block text-xs text-muted-foreground font-normal">{t('backup.mergeDesc')}</span>
+            </Label>
+          </div>
+          <div className="flex items-start gap-3 rounded-lg border p-3">
+            <RadioGroupItem value="replace" id="restore-replace" className="mt-0.5" />
+            <Label htmlFor="restore-replace" className="space-y-1 cursor-pointer">
+              <span className="block font-medium">{t('backup.replace')}</span>
+              <span className="block text-xs text-muted-foreground font-normal">{t('backup.replaceDesc')}</span>
+            </Label>
+          </div>
+        </RadioGroup>
+
+        <AlertDialogFooter>
+          <AlertDialogCancel disabled={isRestoring}>{t('common.cancel')}</AlertDialogCancel>
+          <Button
+            onClick={handleRestore}
+            disabled={isRestoring}
+            variant={mode === 'replace' ? 'destructive' : 'default'}
+          >
+            {isRestoring && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+            {t('dialogs.continueRestore')}
+          </Button>
+        </AlertDialogFooter>
+      </AlertDialogContent>
+    </AlertDialog>
+  );
+};
@@ -0,0 +1,495 @@
+import { useEffect, useRef, useState } from 'react';
+import { Sheet, SheetContent, SheetHeader, SheetTitle } from '@/components/ui/sheet';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { Checkbox } from '@/components/ui/checkbox';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { AlertTriangle, ArrowLeft, FileUp, Landmark, Save, Trash2 } from 'lucide-react';
+import { toast } from 'sonner';
+import { cn } from '@/lib/utils';
+import { ExpenseEntry } from '@/types/note';
+import { useHardwareBackButton } from '@/hooks/useHardwareBackButton';
+import { parseCsv } from '@/utils/csvParser';
+import {
+  BankProfile,
+  CsvDelimiter,
+  ImportCandidate,
+  STATEMENT_DATE_FORMATS,
+  STATEMENT_FILE_TYPES,
+  StatementDateFormat,
+  StatementFormat,
+  StatementParseResult,
+  buildImportCandidates,
+  deleteBankProfile,
+  detectStatementFormat,
+  getBankProfiles,
+  getHeaderSignature,
+  guessBankProfile,
+  parseCsvStatement,
+  parseOfx,
+  parseQif,
+  saveBankProfile,
+} from '@/utils/bankImport';
+import { getExpenseRules, learnFromCategorization, matchExpenseRule } from '@/utils/expenseRules';
+
+interface BankImportSheetProps {
+  isOpen: boolean;
+  onClose: () => void;
+  existingEntries: ExpenseEntry[];
+  categories: string[];
+  paymentMethods: string[];
+  currencySymbol: string;
+  onImport: (entries: ExpenseEntry[]) => void;
+}
+
+type ImportStep = 'pick' | 'map' | 'review';
+
+interface ReviewRow extends ImportCandidate {
+  selected: boolean;
+}
+
+const DELIMITERS: { value: CsvDelimiter; label: string }[] = [
+  { value: ',', label: 'Comma' },
+  { value: ';', label: 'Semicolon' },
+  { value: '\t', label: 'Tab' },
+];
+
+const NEW_PROFILE = '__new';
+
+export const BankImportSheet = ({
+  isOpen,
+  onClose,
+  existingEntries,
+  categories,
+  paymentMethods,
+  currencySymbol,
+  onImport,
+}: BankImportSheetProps) => {
+  const [step, setStep] = useState<ImportStep>('pick');
+  const [fileName, setFileName] = useState('');
+  const [statementFormat, setStatementFormat] = useState<StatementFormat>('csv');
+  const [text, setText] = useState('');
+  const [profile, setProfile] = useState<BankProfile | null>(null);
+  const [profiles, setProfiles] = useState<BankProfile[]>([]);
+  const [profileName, setProfileName] = useState('');
+  const [qifDateFormat, setQifDateFormat] = useState<StatementDateFormat>('MM/dd/yyyy');
+  const [defaultPaymentMethod, setDefaultPaymentMethod] = useState('Card');
+  const [rows, setRows] = useState<ReviewRow[]>([]);
+  const [errors, setErrors] = useState<string[]>([]);
+  const [creditsSkipped, setCreditsSkipped] = useState(0);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  useHardwareBackButton({
+    onBack: onClose,
+    enabled: isOpen,
+    priority: 'sheet',
+  });
+
+  useEffect(() => {
+    if (!isOpen) return;
+    setStep('pick');
+    setRows([]);
+    setErrors([]);
+    getBankProfiles().then(setProfiles);
+  }, [isOpen]);
+
+  const goToReview = async (result: StatementParseResult) => {
+    const rules = await getExpenseRules();
+    const candidates = buildImportCandidates(result.transactions, existingEntries, rules, defaultPaymentMethod);
+    setRows(candidates.map(candidate => ({ ...candidate, selected: !candidate.duplicate })));
+    setErrors(result.errors);
+    setCreditsSkipped(result.transactions.filter(transaction => transaction.amount >= 0).length);
+    setStep('review');
+  };
+
+  const handleFile = async (file: File) => {
+    const content = await file.text();
+    const detected = detectStatementFormat(file.name, content);
+    setFileName(file.name);
+    setText(content);
+    setStatementFormat(detected);
+
+    if (detected === 'ofx') {
+      await goToReview(parseOfx(content));
+      return;
+    }
+    if (detected === 'csv') {
+      const guess = guessBankProfile(content);
+      const saved = profiles.find(p => p.headerSignature && p.headerSignature === guess.headerSignature);
+      setProfile(saved ?? guess);
+      setProfileName(saved?.name ?? '');
+      if (saved) toast.success(`Using the ${saved.name} profile`);
+    }
+    setStep('map');
+  };
+
+  const csvRows = statementFormat === 'csv' && profile ? parseCsv(text, profile.delimiter) : [];
+  const columnCount = Math.max(0, ...csvRows.slice(0, 5).map(row => row.length));
+  // Columns are named by the header, or by the first line's values when there is none
+  const columns = Array.from({ length: columnCount }, (_, index) => `${index + 1}. ${(csvRows[0]?.[index] ?? '').trim().slice(0, 24)}`);
+  const mappingPreview = statementFormat === 'csv' && profile
+    ? parseCsvStatement(text, profile)
+    : statementFormat === 'qif' ? parseQif(text, qifDateFormat) : null;
+
+  const updateProfile = <K extends keyof BankProfile>(field: K, value: BankProfile[K]) => {
+    setProfile(prev => (prev ? { ...prev, [field]: value } : prev));
+  };
+
+  const handlePickProfile = (id: string) => {
+    if (id === NEW_PROFILE) {
+      setProfile(guessBankProfile(text));
+      setProfileName('');
+      return;
+    }
+    const saved = profiles.find(p => p.id === id);
+    if (saved) {
+      setProfile(saved);
+      setProfileName(saved.name);
+    }
+  };
+
+  const handleSaveProfile = async () => {
+    if (!profile || !profileName.trim()) {
+      toast.error('Give the profile a name, e.g. the bank');
+      return;
+    }
+    const saved = { ...profile, name: profileName.trim(), headerSignature: getHeaderSignature(csvRows) };
+    setProfiles(await saveBankProfile(saved));
+    setProfile(saved);
+    toast.success(`Saved the ${saved.name} profile`);
+  };
+
+  const handleDeleteProfile = async () => {
+    if (!profile) return;
+    setProfiles(await deleteBankProfile(profile.id));
+    setProfile(guessBankProfile(text));
+    setProfileName('');
+    toast.info('Profile deleted');
+  };
+
+  const handleCategoryChange = async (row: ReviewRow, category: string) => {
+    setRows(prev => prev.map(r => (r.entry.id === row.entry.id ? { ...r, entry: { ...r.entry, category } } : r)));
+    const rule = await learnFromCategorization(row.entry.description, category, row.entry.paymentMethod);
+    if (!rule || rule.category !== category) return;
+    // Uncategorized lines from the same merchant follow straight away
+    setRows(prev => prev.map(r =>
+      !r.entry.category && matchExpenseRule(r.entry.description, [rule]) ? { ...r, entry: { ...r.entry, category } } : r
+    ));
+    toast.success(`"${rule.contains}" will be filed under ${category}`);
+  };
+
+  const toggleRow = (id: string) => {
+    setRows(prev => prev.map(r => (r.entry.id === id ? { ...r, selected: !r.selected } : r)));
+  };
+
+  const selectedRows = rows.filter(row => row.selected);
+  const duplicateCount = rows.filter(row => row.duplicate).length;
+
+  const handleImport = () => {
+    onImport(selectedRows.map(row => row.entry));
+    toast.success(`Imported ${selectedRows.length} expense(s)`);
+    onClose();
+  };
+
+  const renderColumnSelect = (field: 'dateColumn' | 'descriptionColumn' | 'amountColumn' | 'debitColumn' | 'creditColumn', label: string) => (
+    <div className="space-y-1">
+      <Label className="text-xs">{label}</Label>
+      <Select value={String(profile?.[field] ?? 0)} onValueChange={(value) => updateProfile(field, Number(value))}>
+        <SelectTrigger className="h-8 text-xs">
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          {columns.map((column, index) => (
+            <SelectItem key={index} value={String(index)} className="text-xs">{column}</SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+    </div>
+  );
+
+  return (
+    <Sheet open={isOpen} onOpenChange={(open) => !open && onClose()}>
+      <SheetContent side="bottom" className="h-[90vh] flex flex-col">
+        <SheetHeader className="pb-2">
+          <SheetTitle className="flex items-center gap-2">
+            {step !== 'pick' && (
+              <button onClick={() => setStep(step === 'review' && statementFormat !== 'ofx' ? 'map' : 'pick')} className="p-1 -ml-1 hover:bg-muted rounded">
+                <ArrowLeft className="h-4 w-4" />
+              </button>
+            )}
+            <Landmark className="h-5 w-5" />
+            Import Bank Statement
+          </SheetTitle>
+          {fileName && step !== 'pick' && (
+            <p className="text-xs text-muted-foreground text-left truncate">{fileName}</p>
+          )}
+        </SheetHeader>
+
+        {step === 'pick' && (
+          <div className="space-y-4">
+            <p className="text-sm text-muted-foreground">
+              Pick a CSV, OFX/QFX or QIF statement from your bank. Money going out is added as expenses; entries this sheet already has are skipped.
+            </p>
+            <div className="space-y-1">
+              <Label className="text-xs">Paid with (unless a rule says otherwise)</Label>
+              <Select value={defaultPaymentMethod} onValueChange={setDefaultPaymentMethod}>
+                <SelectTrigger className="h-9">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {paymentMethods.map(method => (
+                    <SelectItem key={method} value={method}>{method}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <input
+              ref={fileInputRef}
+              type="file"
+              accept={STATEMENT_FILE_TYPES}
+              className="hidden"
+              onChange={(e) => {
+                const file = e.target.files?.[0];
+                if (file) handleFile(file);
+                e.target.value = '';
+              }}
+            />
+            <Button className="w-full" onClick={() => fileInputRef.current?.click()}>
+              <FileUp className="h-4 w-4 mr-2" />
+              Choose Statement File
+            </Button>
+          </div>
+        )}
+
+        {step === 'map' && (
+          <ScrollArea className="flex-1 -mx-6 px-6">
+            <div className="space-y-4 pb-4">
+              {statementFormat === 'csv' && profile && (
+                <>
+                  <div className="space-y-1">
+                    <Label className="text-xs">Bank profile</Label>
+                    <div className="flex gap-2">
+                      <Select value={profiles.some(p => p.id === profile.id) ? profile.id : NEW_PROFILE} onValueChange={handlePickProfile}>
+                        <SelectTrigger className="h-8 text-xs flex-1">
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          <SelectItem value={NEW_PROFILE} className="text-xs">New mapping</SelectItem>
+                          {profiles.map(p => (
+                            <SelectItem key={p.id} value={p.id} className="text-xs">{p.name}</SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                      {profiles.some(p => p.id === profile.id) && (
+                        <Button variant="ghost" size="icon" className="h-8 w-8 text-destructive" onClick={handleDeleteProfile}>
+                          <Trash2 className="h-4 w-4" />
+                        </Button>
+                      )}
+                    </div>
+                  </div>
+
+                  <div className="grid grid-cols-2 gap-3">
+                    <div className="space-y-1">
+                      <Label className="text-xs">Separator</Label>
+                      <Select value={profile.delimiter} onValueChange={(value) => updateProfile('delimiter', value as CsvDelimiter)}>
+                        <SelectTrigger className="h-8 text-xs">
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {DELIMITERS.map(d => (
+                            <SelectItem key={d.label} value={d.value} className="text-xs">{d.label}</SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    </div>
+                    <div className="flex items-center justify-between pt-5">
+                      <Label className="text-xs">First row is a header</Label>
+                      <Switch checked={profile.hasHeader} onCheckedChange={(checked) => updateProfile('hasHeader', checked)} />
+                    </div>
+                    {renderColumnSelect('dateColumn', 'Date column')}
+                    {renderColumnSelect('descriptionColumn', 'Description column')}
+                    <div className="space-y-1">
+                      <Label className="text-xs">Date format</Label>
+                      <Select value={profile.dateFormat} onValueChange={(value) => updateProfile('dateFormat', value as StatementDateFormat)}>
+                        <SelectTrigger className="h-8 text-xs">
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {STATEMENT_DATE_FORMATS.map(f => (
+                            <SelectItem key={f} value={f} className="text-xs">{f.toUpperCase()}</SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    </div>
+                    <div className="space-y-1">
+                      <Label className="text-xs">Decimal separator</Label>
+                      <Select value={profile.decimalSeparator} onValueChange={(value) => updateProfile('decimalSeparator', value as '.' | ',')}>
+                        <SelectTrigger className="h-8 text-xs">
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          <SelectItem value="." className="text-xs">1,234.56</SelectItem>
+                          <SelectItem value="," className="text-xs">1.234,56</SelectItem>
+                        </SelectContent>
+                      </Select>
+                    </div>
+                  </div>
+
+                  <div className="space-y-3 p-3 rounded-lg border">
+                    <div className="flex items-center justify-between">
+                      <Label className="text-xs">Separate debit and credit columns</Label>
+                      <Switch
+                        checked={profile.amountMode === 'split'}
+                        onCheckedChange={(checked) => updateProfile('amountMode', checked ? 'split' : 'signed')}
+                      />
+                    </div>
+                    {profile.amountMode === 'split' ? (
+                      <div className="grid grid-cols-2 gap-3">
+                        {renderColumnSelect('debitColumn', 'Money out')}
+                        {renderColumnSelect('creditColumn', 'Money in')}
+                      </div>
+                    ) : (
+                      <>
+                        {renderColumnSelect('amountColumn', 'Amount column')}
+                        <div className="flex items-center justify-between">
+                          <Label className="text-xs">Payments are positive amounts</Label>
+                          <Switch checked={profile.debitsPositive} onCheckedChange={(checked) => updateProfile('debitsPositive', checked)} />
+                        </div>
+                      </>
+                    )}
+                  </div>
+
+                  <div className="flex gap-2">
+                    <Input
+                      value={profileName}
+                      onChange={(e) => setProfileName(e.target.value)}
+                      placeholder="Profile name, e.g. Chase"
+                      className="h-8 text-xs"
+                    />
+                    <Button variant="outline" size="sm" onClick={handleSaveProfile}>
+                      <Save className="h-4 w-4 mr-1" />
+                      Save
+                    </Button>
+                  </div>
+                </>
+              )}
+
+              {statementFormat === 'qif' && (
+                <div className="space-y-1">
+                  <Label className="text-xs">Date format</Label>
+                  <Select value={qifDateFormat} onValueChange={(value) => setQifDateFormat(value as StatementDateFormat)}>
+                    <SelectTrigger className="h-8 text-xs">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {STATEMENT_DATE_FORMATS.map(f => (
+                        <SelectItem key={f} value={f} className="text-xs">{f.toUpperCase()}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              )}
+
+              {mappingPreview && (
+                <div className="rounded-lg border divide-y text-xs">
+                  {mappingPreview.transactions.slice(0, 4).map((transaction, index) => (
+                    <div key={index} className="flex items-center gap-2 p-2">
+                      <span className="text-muted-foreground w-20 flex-shrink-0">{transaction.date.toLocaleDateString()}</span>
+                      <span className="flex-1 truncate">{transaction.description || '—'}</span>
+                      <span className={cn("font-medium", transaction.amount < 0 ? "text-destructive" : "text-green-600")}>
+                        {transaction.amount.toFixed(2)}
+                      </span>
+                    </div>
+                  ))}
+                  <p className="p-2 text-muted-foreground">
+                    {mappingPreview.transactions.length} transaction(s) read
+                    {mappingPreview.errors.length > 0 && `, ${mappingPreview.errors.length} line(s) not understood`}
+                  </p>
+                </div>
+              )}
+            </div>
+          </ScrollArea>
+        )}
+
+        {step === 'review' && (
+          <>
+            <div className="grid grid-cols-3 gap-2 mb-3">
+              <div className="rounded-lg border bg-card p-2 text-center">
+                <p className="text-lg font-semibold">{selectedRows.length}</p>
+                <p className="text-xs text-muted-foreground">To import</p>
+              </div>
+              <div className="rounded-lg border bg-card p-2 text-center">
+                <p className="text-lg font-semibold">{duplicateCount}</p>
+                <p className="text-xs text-muted-foreground">Already added</p>
+              </div>
+              <div className="rounded-lg border bg-card p-2 text-center">
+                <p className="text-lg font-semibold">{creditsSkipped}</p>
+                <p className="text-xs text-muted-foreground">Money in</p>
+              </div>
+            </div>
+            {errors.length > 0 && (
+              <p className="text-xs text-destructive flex items-center gap-1.5 mb-2" title={errors.join('\n')}>
+                <AlertTriangle className="h-3.5 w-3.5" />
+                {errors.length} line(s) could not be read and were left out
+              </p>
+            )}
+            <ScrollArea className="flex-1 rounded-lg border">
+              <div className="divide-y">
+                {rows.map(row => (
+                  <div key={row.entry.id} className={cn("flex items-center gap-2 p-2", !row.selected && "opacity-60")}>
+                    <Checkbox checked={row.selected} onCheckedChange={() => toggleRow(row.entry.id)} />
+                    <div className="flex-1 min-w-0">
+                      <p className="text-sm truncate">{row.entry.description || '—'}</p>
+                      <p className="text-xs text-muted-foreground">
+                        {row.entry.date} • {row.entry.paymentMethod}
+                        {row.duplicate && <span className="ml-1 text-amber-600">• Already in sheet</span>}
+                      </p>
+                    </div>
+                    <span className="text-sm font-medium">{currencySymbol}{row.entry.amount.toFixed(2)}</span>
+                    <Select value={row.entry.category || undefined} onValueChange={(value) => handleCategoryChange(row, value)}>
+                      <SelectTrigger className={cn("h-8 w-28 text-xs", !row.entry.category && "text-muted-foreground")}>
+                        <SelectValue placeholder="Category" />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {[...new Set([...categories, ...(row.entry.category ? [row.entry.category] : [])])].map(category => (
+                          <SelectItem key={category} value={category} className="text-xs">{category}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                ))}
+                {rows.length === 0 && (
+                  <p className="p-6 text-center text-sm text-muted-foreground">No payments found in this statement</p>
+                )}
+              </div>
+            </ScrollArea>
+          </>
+        )}
+
+        {step !== 'pick' && (
+          <div className="pt-4 flex gap-2">
+            <Button variant="outline" className="flex-1" onClick={onClose}>
+              Cancel
+            </Button>
+            {step === 'map' ? (
+              <Button
+                className="flex-1"
+                disabled={!mappingPreview || mappingPreview.transactions.length === 0}
+                onClick={() => mappingPreview && goToReview(mappingPreview)}
+              >
+                Continue
+              </Button>
+            ) : (
+              <Button className="flex-1" onClick={handleImport} disabled={selectedRows.length === 0}>
+                Import {selectedRows.length}
+              </Button>
+            )}
+          </div>
+        )}
+      </SheetContent>
+    </Sheet>
+  );
+};
@@ -0,0 +1,183 @@
+import { useEffect, useRef, useState } from "react";
+import { useTranslation } from "react-i18next";
+import { saveAs } from "file-saver";
+import { Loader2, RefreshCw, Download, Upload } from "lucide-react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import { useRealtimeSync } from "@/hooks/useRealtimeSync";
+import { syncManager } from "@/utils/syncManager";
+import { LocalFileSyncBackend, SyncBackendConfig } from "@/utils/syncBackends";
+
+const CloudSyncSettings = () => {
+  const { toast } = useToast();
+  const { t } = useTranslation();
+  const { isSyncing, syncEnabled, lastSync } = useRealtimeSync();
+  const [backendType, setBackendType] = useState<SyncBackendConfig['type']>('none');
+  const [serverUrl, setServerUrl] = useState('');
+  const [token, setToken] = useState('');
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  useEffect(() => {
+    syncManager.whenReady().then(() => {
+      const config = syncManager.getBackendConfig();
+      setBackendType(config.type);
+      if (config.type === 'http') {
+        setServerUrl(config.url);
+        setToken(config.token || '');
+      }
+    });
+  }, []);
+
+  const saveBackend = async (type: SyncBackendConfig['type'], url = serverUrl, authToken = token) => {
+    const config: SyncBackendConfig =
+      type === 'http' ? { type, url: url.trim(), token: authToken.trim() || undefined } : { type };
+    await syncManager.setBackendConfig(config);
+  };
+
+  const handleBackendChange = async (type: SyncBackendConfig['type']) => {
+    setBackendType(type);
+    await saveBackend(type);
+  };
+
+  const handleSyncNow = async () => {
+    await saveBackend(backendType);
+    const result = await syncManager.syncAllData();
+    if (result.success) {
+      toast({
+        title: t('sync.syncComplete'),
+        description: t('sync.syncSummary', {
+          pushed: result.pushed ?? 0,
+          pulled: result.pulled ?? 0,
+          conflicts: result.conflicts ?? 0,
+        }),
+      });
+    } else {
+      toast({
+        title: t('sync.syncFailed'),
+        description: result.error,
+        variant: "destructive",
+      });
+    }
+  };
+
+  const handleExportFile = async () => {
+    const blob = await new LocalFileSyncBackend().exportFile();
+    saveAs(blob, `npd-sync-${new Date().toISOString().split('T')[0]}.json`);
+  };
+
+  const handleImportFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    try {
+      const added = await new LocalFileSyncBackend().importFile(await file.text());
+      toast({ title: t('sync.syncFileImported', { count: added }) });
+      if (added > 0) await handleSyncNow();
+    } catch (error) {
+      toast({
+        title: t('sync.syncFailed'),
+        description: error instanceof Error ? error.message : String(error),
+        variant: "destructive",
+      });
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center justify-between gap-3">
+          <div>
+            <CardTitle className="text-lg">{t('sync.cloudSync')}</CardTitle>
+            <CardDescription>{t('sync.cloudSyncDesc')}</CardDescription>
+          </div>
+          <Switch
+            checked={syncEnabled}
+            onCheckedChange={(checked) => syncManager.setSyncEnabled(checked)}
+          />
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="space-y-2">
+          <Label>{t('sync.syncBackend')}</Label>
+          <Select value={backendType} onValueChange={(v) => handleBackendChange(v as SyncBackendConfig['type'])}>
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="none">{t('sync.backendNone')}</SelectItem>
+              <SelectItem value="http">{t('sync.backendHttp')}</SelectItem>
+              <SelectItem value="file">{t('sync.backendFile')}</SelectItem>
+            </SelectContent>
+          </Select>
+        </div>
+
+        {backendType === 'http' && (
+          <div className="space-y-3">
+            <div className="space-y-2">
+              <Label htmlFor="sync-server-url">{t('sync.serverUrl')}</Label>
+              <Input
+                id="sync-server-url"
+                placeholder="http://localhost:8787"
+                value={serverUrl}
+                onChange={(e) => setServerUrl(e.target.value)}
+                onBlur={() => saveBackend('http')}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="sync-server-token">{t('sync.accessToken')}</Label>
+              <Input
+                id="sync-server-token"
+                type="password"
+                value={token}
+                onChange={(e) => setToken(e.target.value)}
+                onBlur={() => saveBackend('http')}
+              />
+            </div>
+          </div>
+        )}
+
+        {backendType === 'file' && (
+          <div className="grid grid-cols-2 gap-2">
+            <Button variant="outline" onClick={handleExportFile} className="gap-2">
+              <Download className="h-4 w-4" />
+              {t('sync.exportSyncFile')}
+            </Button>
+            <Button variant="outline" onClick={() => fileInputRef.current?.click()} className="gap-2">
+              <Upload className="h-4 w-4" />
+              {t('sync.importSyncFile')}
+            </Button>
+            <input
+              ref={fileInputRef}
+              type="file"
+              accept="application/json,.json"
+              className="hidden"
+              onChange={handleImportFile}
+            />
+          </div>
+        )}
+
+        <Button
+          className="w-full gap-2"
+          onClick={handleSyncNow}
+          disabled={isSyncing || backendType === 'none'}
+        >
+          {isSyncing ? <Loader2 className="h-4 w-4 animate-spin" /> : <RefreshCw className="h-4 w-4" />}
+          {t('sync.syncNow')}
+        </Button>
+
+        {lastSync && (
+          <p className="text-xs text-muted-foreground text-center">
+            {t('sync.lastSynced', { time: lastSync.toLocaleString() })}
+          </p>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default CloudSyncSettings;
@@ -13,6 +13,7 @@ import { TodoItem } from '@/types/note';
 import { Haptics, ImpactStyle } from '@capacitor/haptics';
 import { toast } from 'sonner';
 import { loadTasksFromDB, updateTaskInDB } from '@/utils/taskStorage';
+import { ensureCanComplete } from '@/utils/taskDependencies';
 import { getSetting, setSetting } from '@/utils/settingsStorage';
 
 interface DailyPlannerProps {
@@ -117,6 +118,10 @@ export const DailyPlanner = ({ isOpen, onClose }: DailyPlannerProps) => {
   };
 
   const handleCompleteTask = async (taskId: string) => {
+    const allTasks = await loadTasksFromDB();
+    const task = allTasks.find(item => item.id === taskId);
+    if (task && !ensureCanComplete(task, allTasks)) return;
+
     try {
       await Haptics.impact({ style: ImpactStyle.Heavy });
     } catch {}
@@ -0,0 +1,284 @@
+import { useMemo, useState } from 'react';
+import { Sheet, SheetContent, SheetHeader, SheetTitle } from '@/components/ui/sheet';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Switch } from '@/components/ui/switch';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { ArrowRight, ChevronLeft, ChevronRight, History, Mail, RefreshCw, Trash2 } from 'lucide-react';
+import { toast } from 'sonner';
+import { useHardwareBackButton } from '@/hooks/useHardwareBackButton';
+import { cn } from '@/lib/utils';
+import { ExpenseEntry } from '@/types/note';
+import {
+  BudgetPlan, EnvelopeStatus, getBudgetPeriods, getMonthKey, setAssigned, shiftMonthKey, transferId,
+} from '@/utils/budgetPeriods';
+
+interface EnvelopeBudgetSheetProps {
+  isOpen: boolean;
+  onClose: () => void;
+  plan: BudgetPlan;
+  onChange: (plan: BudgetPlan) => void;
+  budgets: Record<string, number>;
+  categories: string[];
+  entries: ExpenseEntry[];
+  incomeEntries: { date: string; amount: number }[];
+  currencySymbol: string;
+}
+
+const STATUS_LABELS: Record<EnvelopeStatus, string> = {
+  onTrack: 'On track',
+  overPace: 'Spending fast',
+  overspent: 'Overspent',
+};
+
+const STATUS_CLASSES: Record<EnvelopeStatus, string> = {
+  onTrack: 'text-green-500',
+  overPace: 'text-amber-500',
+  overspent: 'text-destructive',
+};
+
+export const EnvelopeBudgetSheet = ({
+  isOpen, onClose, plan, onChange, budgets, categories, entries, incomeEntries, currencySymbol,
+}: EnvelopeBudgetSheetProps) => {
+  const currentMonth = getMonthKey(new Date());
+  const [month, setMonth] = useState(currentMonth);
+  const [transferFrom, setTransferFrom] = useState('');
+  const [transferTo, setTransferTo] = useState('');
+  const [transferAmount, setTransferAmount] = useState('');
+
+  useHardwareBackButton({
+    onBack: onClose,
+    enabled: isOpen,
+    priority: 'sheet',
+  });
+
+  const periods = useMemo(
+    () => getBudgetPeriods(plan, budgets, categories, entries, incomeEntries, month > currentMonth ? month : currentMonth),
+    [plan, budgets, categories, entries, incomeEntries, month, currentMonth]
+  );
+  const period = periods.find(p => p.month === month);
+  const history = periods.filter(p => p.month <= currentMonth).reverse();
+  const monthTransfers = plan.transfers.filter(transfer => transfer.month === month);
+
+  const money = (amount: number) =>
+    `${amount < 0 ? '-' : ''}${currencySymbol}${Math.abs(amount).toLocaleString('en-US', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
+
+  const handleTransfer = () => {
+    const amount = parseFloat(transferAmount);
+    if (!transferFrom || !transferTo || transferFrom === transferTo || !amount || amount <= 0) {
+      toast.error('Choose two envelopes and an amount to move');
+      return;
+    }
+    onChange({ ...plan, transfers: [...plan.transfers, { id: transferId(), month, from: transferFrom, to: transferTo, amount }] });
+    setTransferAmount('');
+  };
+
+  return (
+    <Sheet open={isOpen} onOpenChange={(open) => !open && onClose()}>
+      <SheetContent side="right" className="w-[400px] overflow-y-auto">
+        <SheetHeader>
+          <SheetTitle className="flex items-center gap-2">
+            <Mail className="h-5 w-5" />
+            Envelope Budget
+          </SheetTitle>
+          <p className="text-xs text-muted-foreground text-left">
+            Each month every category gets its budget in an envelope, unless you assign another amount for that month.
+          </p>
+        </SheetHeader>
+
+        <div className="mt-4 space-y-4">
+          <div className="p-3 rounded-lg border space-y-3">
+            <div className="flex items-center justify-between gap-3">
+              <div>
+                <p className="text-sm font-medium">Envelope budgeting</p>
+                <p className="text-xs text-muted-foreground">Track spending against each month's envelopes</p>
+              </div>
+              <Switch checked={plan.envelopes} onCheckedChange={(checked) => onChange({ ...plan, envelopes: checked })} />
+            </div>
+            <div className="flex items-center justify-between gap-3">
+              <div>
+                <p className="text-sm font-medium">Zero-based</p>
+                <p className="text-xs text-muted-foreground">Give every unit of income a job</p>
+              </div>
+              <Switch
+                checked={plan.zeroBased}
+                disabled={!plan.envelopes}
+                onCheckedChange={(checked) => onChange({ ...plan, zeroBased: checked })}
+              />
+            </div>
+          </div>
+
+          {plan.envelopes && period && (
+            <>
+              <div className="flex items-center justify-between">
+                <Button variant="ghost" size="icon" className="h-8 w-8" onClick={() => setMonth(shiftMonthKey(month, -1))}>
+                  <ChevronLeft className="h-4 w-4" />
+                </Button>
+                <button className="text-sm font-semibold" onClick={() => setMonth(currentMonth)}>
+                  {period.label}
+                </button>
+                <Button variant="ghost" size="icon" className="h-8 w-8" onClick={() => setMonth(shiftMonthKey(month, 1))}>
+                  <ChevronRight className="h-4 w-4" />
+                </Button>
+              </div>
+
+              {plan.zeroBased && (
+                <div className={cn(
+                  'p-3 rounded-lg border space-y-1 text-sm',
+                  period.toAssign < -0.005 ? 'bg-destructive/5 border-destructive/20'
+                    : period.toAssign > 0.005 ? 'bg-amber-500/5 border-amber-500/20' : 'bg-green-500/5 border-green-500/20'
+                )}>
+                  <div className="flex justify-between"><span className="text-muted-foreground">Income this month</span><span>{money(period.income)}</span></div>
+                  <div className="flex justify-between"><span className="text-muted-foreground">Carried from last month</span><span>{money(period.carriedToAssign)}</span></div>
+                  <div className="flex justify-between"><span className="text-muted-foreground">Assigned</span><span>{money(-period.assigned)}</span></div>
+                  <div className="flex justify-between font-semibold pt-1 border-t">
+                    <span>{period.toAssign < -0.005 ? 'Over-assigned' : 'Left to assign'}</span>
+                    <span>{money(Math.abs(period.toAssign))}</span>
+                  </div>
+                </div>
+              )}
+
+              <div className="space-y-2">
+                {period.envelopes.map(envelope => (
+                  <div key={envelope.category} className="p-3 rounded-lg border space-y-2">
+                    <div className="flex items-center gap-2">
+                      <span className="text-sm font-medium flex-1 truncate">{envelope.category}</span>
+                      <Button
+                        variant={plan.rollover[envelope.category] ? 'default' : 'ghost'}
+                        size="icon"
+                        className="h-7 w-7"
+                        title={plan.rollover[envelope.category] ? 'Rolls over to next month' : 'Starts fresh every month'}
+                        onClick={() => onChange({ ...plan, rollover: { ...plan.rollover, [envelope.category]: !plan.rollover[envelope.category] } })}
+                      >
+                        <RefreshCw className="h-3.5 w-3.5" />
+                      </Button>
+                      <div className="relative w-24">
+                        <span className="absolute left-2 top-1/2 -translate-y-1/2 text-muted-foreground text-xs">{currencySymbol}</span>
+                        <Input
+                          type="number"
+                          min="0"
+                          value={envelope.assigned || ''}
+                          onChange={(e) => onChange(setAssigned(plan, month, envelope.category, parseFloat(e.target.value) || 0))}
+                          placeholder="0"
+                          className="h-7 text-xs pl-5"
+                        />
+                      </div>
+                    </div>
+                    <div className="h-1.5 rounded-full bg-muted overflow-hidden">
+                      <div
+                        className={cn(
+                          'h-full rounded-full transition-all',
+                          envelope.status === 'overspent' ? 'bg-destructive' : envelope.status === 'overPace' ? 'bg-amber-500' : 'bg-green-500'
+                        )}
+                        style={{ width: `${envelope.funds > 0 ? Math.min((envelope.spent / envelope.funds) * 100, 100) : envelope.spent > 0 ? 100 : 0}%` }}
+                      />
+                    </div>
+                    <div className="flex items-center justify-between text-xs text-muted-foreground">
+                      <span>
+                        {envelope.carryIn !== 0 && `${money(envelope.carryIn)} carried · `}
+                        {envelope.transferred !== 0 && `${envelope.transferred > 0 ? '+' : ''}${money(envelope.transferred)} moved · `}
+                        {money(envelope.spent)} spent
+                      </span>
+                      <span className={cn('font-medium', envelope.available < 0 ? 'text-destructive' : 'text-foreground')}>
+                        {money(envelope.available)} left
+                      </span>
+                    </div>
+                    {month === currentMonth && envelope.funds > 0 && (
+                      <p className={cn('text-xs', STATUS_CLASSES[envelope.status])}>
+                        {STATUS_LABELS[envelope.status]}
+                        {envelope.status === 'overPace' && ` (${money(envelope.paceLimit)} by today at an even pace)`}
+                      </p>
+                    )}
+                  </div>
+                ))}
+              </div>
+
+              {/* Move money between envelopes */}
+              <div className="p-3 rounded-lg border space-y-2">
+                <p className="text-sm font-medium">Move Money</p>
+                <div className="flex items-center gap-2">
+                  <Select value={transferFrom} onValueChange={setTransferFrom}>
+                    <SelectTrigger className="h-8 text-xs flex-1">
+                      <SelectValue placeholder="From" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {categories.map(category => (
+                        <SelectItem key={category} value={category} className="text-xs">{category}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <ArrowRight className="h-4 w-4 text-muted-foreground shrink-0" />
+                  <Select value={transferTo} onValueChange={setTransferTo}>
+                    <SelectTrigger className="h-8 text-xs flex-1">
+                      <SelectValue placeholder="To" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {categories.map(category => (
+                        <SelectItem key={category} value={category} className="text-xs">{category}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div className="flex items-center gap-2">
+                  <Input
+                    type="number"
+                    min="0"
+                    value={transferAmount}
+                    onChange={(e) => setTransferAmount(e.target.value)}
+                    placeholder="Amount"
+                    className="h-8 text-xs"
+                  />
+                  <Button size="sm" className="h-8" onClick={handleTransfer}>Move</Button>
+                </div>
+                {monthTransfers.map(transfer => (
+                  <div key={transfer.id} className="flex items-center gap-2 text-xs">
+                    <span className="flex-1 truncate">{transfer.from} → {transfer.to}</span>
+                    <span className="font-medium">{money(transfer.amount)}</span>
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      className="h-6 w-6 text-destructive"
+                      onClick={() => onChange({ ...plan, transfers: plan.transfers.filter(t => t.id !== transfer.id) })}
+                    >
+                      <Trash2 className="h-3 w-3" />
+                    </Button>
+                  </div>
+                ))}
+              </div>
+
+              {/* Budget period history */}
+              <div className="p-3 rounded-lg border">
+                <p className="text-sm font-medium mb-2 flex items-center gap-2">
+                  <History className="h-4 w-4" />
+                  Budget History
+                </p>
+                <div className="space-y-1">
+                  <div className="grid grid-cols-4 gap-1 text-xs text-muted-foreground pb-1 border-b">
+                    <span>Month</span>
+                    <span className="text-right">Assigned</span>
+                    <span className="text-right">Spent</span>
+                    <span className="text-right">{plan.zeroBased ? 'To assign' : 'Income'}</span>
+                  </div>
+                  {history.map(row => (
+                    <button
+                      key={row.month}
+                      className={cn('grid grid-cols-4 gap-1 text-xs w-full py-1 rounded hover:bg-muted/50', row.month === month && 'font-semibold')}
+                      onClick={() => setMonth(row.month)}
+                    >
+                      <span className="text-left truncate">{row.label}</span>
+                      <span className="text-right">{money(row.assigned)}</span>
+                      <span className="text-right">{money(row.spent)}</span>
+                      <span className={cn('text-right', plan.zeroBased && row.toAssign < -0.005 && 'text-destructive')}>
+                        {money(plan.zeroBased ? row.toAssign : row.income)}
+                      </span>
+                    </button>
+                  ))}
+                </div>
+              </div>
+            </>
+          )}
+        </div>
+      </SheetContent>
+    </Sheet>
+  );
+};
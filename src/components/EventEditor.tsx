@@ -15,6 +15,7 @@ import { cn } from '@/lib/utils';
 import { toast } from 'sonner';
 import { useHardwareBackButton } from '@/hooks/useHardwareBackButton';
 import { ScrollArea } from '@/components/ui/scroll-area';
+import { getRepeatLabel } from '@/utils/recurringTasks';
 
 interface EventEditorProps {
   event?: CalendarEvent | null;
@@ -144,6 +145,9 @@ export const EventEditor = ({ event, isOpen, onClose, onSave, defaultDate }: Eve
     }
   }, [event, defaultDate, isOpen]);
 
+  // A full rule (e.g. from an imported calendar) is kept until the repeat option is changed
+  const keptRecurrence = event?.recurrence && repeat === event.repeat ? event.recurrence : undefined;
+
   const handleSave = () => {
     if (!title.trim()) {
       toast.error(t('events.enterTitle'));
@@ -173,6 +177,7 @@ export const EventEditor = ({ event, isOpen, onClose, onSave, defaultDate }: Eve
       endDate: finalEndDate,
       timezone,
       repeat,
+      recurrence: keptRecurrence,
       reminder,
     });
 
@@ -307,6 +312,11 @@ export const EventEditor = ({ event, isOpen, onClose, onSave, defaultDate }: Eve
                 <SelectItem value="yearly">{t('events.repeatYearly')}</SelectItem>
               </SelectContent>
             </Select>
+            {keptRecurrence && (
+              <p className="text-xs text-muted-foreground">
+                {getRepeatLabel(undefined, undefined, undefined, keptRecurrence)}
+              </p>
+            )}
           </div>
 
           {/* Reminder */}
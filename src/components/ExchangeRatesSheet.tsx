@@ -0,0 +1,141 @@
+import { useRef, useState } from 'react';
+import { format } from 'date-fns';
+import { Sheet, SheetContent, SheetHeader, SheetTitle } from '@/components/ui/sheet';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { ArrowLeftRight, FileUp, Plus, Trash2 } from 'lucide-react';
+import { toast } from 'sonner';
+import { useHardwareBackButton } from '@/hooks/useHardwareBackButton';
+import { CURRENCIES, ExchangeRate, mergeExchangeRates, parseExchangeRatesCsv, rateId } from '@/utils/exchangeRates';
+
+interface ExchangeRatesSheetProps {
+  isOpen: boolean;
+  onClose: () => void;
+  rates: ExchangeRate[];
+  reportingCurrency: string;
+  onChange: (rates: ExchangeRate[]) => void;
+}
+
+export const ExchangeRatesSheet = ({ isOpen, onClose, rates, reportingCurrency, onChange }: ExchangeRatesSheetProps) => {
+  const [date, setDate] = useState(format(new Date(), 'yyyy-MM-dd'));
+  const [base, setBase] = useState<string>(reportingCurrency === 'EUR' ? 'USD' : 'EUR');
+  const [rate, setRate] = useState('');
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  useHardwareBackButton({
+    onBack: onClose,
+    enabled: isOpen,
+    priority: 'sheet',
+  });
+
+  const handleAdd = () => {
+    const value = parseFloat(rate);
+    if (!date || !value || value <= 0 || base === reportingCurrency) {
+      toast.error('Enter a date and a rate for another currency');
+      return;
+    }
+    onChange(mergeExchangeRates(rates, [{ id: rateId(), date, base, quote: reportingCurrency, rate: value }]));
+    setRate('');
+  };
+
+  const handleImport = async (file: File) => {
+    const { rates: imported, errors } = parseExchangeRatesCsv(await file.text(), reportingCurrency);
+    if (imported.length === 0) {
+      toast.error('No rates found. Use columns like Date, Currency, Rate');
+      return;
+    }
+    onChange(mergeExchangeRates(rates, imported));
+    toast.success(`Imported ${imported.length} rate(s)`, {
+      description: errors.length > 0 ? `${errors.length} line(s) could not be read` : undefined,
+    });
+  };
+
+  return (
+    <Sheet open={isOpen} onOpenChange={(open) => !open && onClose()}>
+      <SheetContent side="right" className="w-96 overflow-y-auto">
+        <SheetHeader>
+          <SheetTitle className="flex items-center gap-2">
+            <ArrowLeftRight className="h-5 w-5" />
+            Exchange Rates
+          </SheetTitle>
+          <p className="text-xs text-muted-foreground text-left">
+            Amounts in other currencies are converted to {reportingCurrency} with the latest rate on or before their date.
+          </p>
+        </SheetHeader>
+
+        <div className="mt-4 space-y-4">
+          <div className="p-3 rounded-lg border space-y-2">
+            <div className="grid grid-cols-2 gap-2">
+              <Input type="date" value={date} onChange={(e) => setDate(e.target.value)} className="h-8 text-xs" />
+              <Select value={base} onValueChange={setBase}>
+                <SelectTrigger className="h-8 text-xs">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {CURRENCIES.filter(c => c.code !== reportingCurrency).map(c => (
+                    <SelectItem key={c.code} value={c.code} className="text-xs">{c.symbol} {c.code}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="flex items-center gap-2">
+              <span className="text-xs text-muted-foreground whitespace-nowrap">1 {base} =</span>
+              <Input
+                type="number"
+                value={rate}
+                onChange={(e) => setRate(e.target.value)}
+                placeholder="0.00"
+                min="0"
+                step="0.0001"
+                className="h-8 text-xs"
+              />
+              <span className="text-xs text-muted-foreground">{reportingCurrency}</span>
+              <Button size="sm" className="h-8" onClick={handleAdd}>
+                <Plus className="h-4 w-4" />
+              </Button>
+            </div>
+          </div>
+
+          <input
+            ref={fileInputRef}
+            type="file"
+            accept=".csv"
+            className="hidden"
+            onChange={(e) => {
+              const file = e.target.files?.[0];
+              if (file) handleImport(file);
+              e.target.value = '';
+            }}
+          />
+          <Button variant="outline" className="w-full" onClick={() => fileInputRef.current?.click()}>
+            <FileUp className="h-4 w-4 mr-2" />
+            Import Rates from CSV
+          </Button>
+
+          <div className="space-y-1">
+            {rates.map(r => (
+              <div key={r.id} className="flex items-center gap-2 py-1.5 border-b border-border/50 text-sm">
+                <span className="text-xs text-muted-foreground w-20">{r.date}</span>
+                <span className="flex-1">1 {r.base} = {r.rate.toFixed(4)} {r.quote}</span>
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  className="h-7 w-7 text-destructive"
+                  onClick={() => onChange(rates.filter(other => other.id !== r.id))}
+                >
+                  <Trash2 className="h-3.5 w-3.5" />
+                </Button>
+              </div>
+            ))}
+            {rates.length === 0 && (
+              <p className="text-sm text-muted-foreground text-center py-4">
+                No rates yet. Add the rates you paid at, or import a CSV with Date, Currency and Rate columns.
+              </p>
+            )}
+          </div>
+        </div>
+      </SheetContent>
+    </Sheet>
+  );
+};
@@ -0,0 +1,113 @@
+import { useEffect, useState } from 'react';
+import { Sheet, SheetContent, SheetHeader, SheetTitle } from '@/components/ui/sheet';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Plus, Sparkles, Trash2, Wand2 } from 'lucide-react';
+import { useHardwareBackButton } from '@/hooks/useHardwareBackButton';
+import { ExpenseRule, createExpenseRule, getExpenseRules, saveExpenseRules } from '@/utils/expenseRules';
+
+interface ExpenseRulesSheetProps {
+  isOpen: boolean;
+  onClose: () => void;
+  categories: string[];
+  paymentMethods: string[];
+}
+
+const ANY_METHOD = '__any';
+
+export const ExpenseRulesSheet = ({ isOpen, onClose, categories, paymentMethods }: ExpenseRulesSheetProps) => {
+  const [rules, setRules] = useState<ExpenseRule[]>([]);
+
+  useHardwareBackButton({
+    onBack: onClose,
+    enabled: isOpen,
+    priority: 'sheet',
+  });
+
+  useEffect(() => {
+    if (isOpen) getExpenseRules().then(setRules);
+  }, [isOpen]);
+
+  const updateRules = (next: ExpenseRule[]) => {
+    setRules(next);
+    saveExpenseRules(next);
+  };
+
+  // Editing a learned rule makes it the user's own
+  const updateRule = (id: string, updates: Partial<ExpenseRule>) => {
+    updateRules(rules.map(rule => (rule.id === id ? { ...rule, ...updates, learned: false } : rule)));
+  };
+
+  return (
+    <Sheet open={isOpen} onOpenChange={(open) => !open && onClose()}>
+      <SheetContent side="right" className="w-96 overflow-y-auto">
+        <SheetHeader>
+          <SheetTitle className="flex items-center gap-2">
+            <Wand2 className="h-5 w-5" />
+            Categorization Rules
+          </SheetTitle>
+          <p className="text-xs text-muted-foreground text-left">
+            Imported expenses whose description contains the text get the category and payment method. Rules marked with a sparkle were learned from your changes.
+          </p>
+        </SheetHeader>
+
+        <div className="mt-4 space-y-3">
+          {rules.map(rule => (
+            <div key={rule.id} className="p-3 rounded-lg border space-y-2">
+              <div className="flex items-center gap-2">
+                {rule.learned && <Sparkles className="h-4 w-4 text-amber-500 flex-shrink-0" />}
+                <Input
+                  value={rule.contains}
+                  onChange={(e) => updateRule(rule.id, { contains: e.target.value })}
+                  placeholder="Description contains…"
+                  className="h-8 text-sm"
+                />
+                <Button variant="ghost" size="icon" className="h-8 w-8 text-destructive flex-shrink-0" onClick={() => updateRules(rules.filter(r => r.id !== rule.id))}>
+                  <Trash2 className="h-4 w-4" />
+                </Button>
+              </div>
+              <div className="grid grid-cols-2 gap-2">
+                <Select value={rule.category || undefined} onValueChange={(value) => updateRule(rule.id, { category: value })}>
+                  <SelectTrigger className="h-8 text-xs">
+                    <SelectValue placeholder="Category" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {[...new Set([...categories, ...(rule.category ? [rule.category] : [])])].map(category => (
+                      <SelectItem key={category} value={category} className="text-xs">{category}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <Select
+                  value={rule.paymentMethod || ANY_METHOD}
+                  onValueChange={(value) => updateRule(rule.id, { paymentMethod: value === ANY_METHOD ? undefined : value })}
+                >
+                  <SelectTrigger className="h-8 text-xs">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={ANY_METHOD} className="text-xs">Any payment</SelectItem>
+                    {[...new Set([...paymentMethods, ...(rule.paymentMethod ? [rule.paymentMethod] : [])])].map(method => (
+                      <SelectItem key={method} value={method} className="text-xs">{method}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+          ))}
+
+          {rules.length === 0 && (
+            <p className="text-sm text-muted-foreground text-center py-4">
+              No rules yet. Add one, or change the category of an imported expense and a rule is learned.
+            </p>
+          )}
+
+          <Button variant="outline" className="w-full" onClick={() => updateRules([...rules, createExpenseRule('', categories[0] ?? '')])}>
+            <Plus className="h-4 w-4 mr-2" />
+            Add Rule
+          </Button>
+        </div>
+      </SheetContent>
+    </Sheet>
+  );
+};
@@ -3,8 +3,22 @@ import { useNavigate } from 'react-router-dom';
 import { ExpenseEntry } from '@/types/note';
 import { Input } from '@/components/ui/input';
 import { Button } from '@/components/ui/button';
-import { Trash2, Plus, Settings, TrendingUp, Download, RefreshCw, CalendarClock, Menu, ArrowLeft, CalendarIcon, PieChart, Filter, X, BarChart3, Bell, FileDown, ArrowUpRight, ArrowDownRight, Minus, Wallet, DollarSign, Users, Split, Check, Receipt, Camera, Image } from 'lucide-react';
+import { Trash2, Plus, Settings, TrendingUp, Download, RefreshCw, CalendarClock, Menu, ArrowLeft, CalendarIcon, PieChart, Filter, X, BarChart3, Bell, FileDown, ArrowUpRight, ArrowDownRight, Minus, Wallet, DollarSign, Users, Split, Check, Receipt, Camera, Image, Landmark, Wand2, ArrowLeftRight, FileText, Share2, History, Mail } from 'lucide-react';
 import { saveReceipt, getReceipt, deleteReceipt, compressImage } from '@/utils/receiptStorage';
+import { learnFromCategorization } from '@/utils/expenseRules';
+import {
+  CURRENCIES, ExchangeRate, applyExchangeRate, findExchangeRate, findMissingRates,
+  getCurrencySymbol, getSplitFx, hasExchangeRate, parseEntryDate, rebaseToCurrency,
+} from '@/utils/exchangeRates';
+import {
+  SPLIT_MODE_LABELS, SettlementTransfer, SplitMode, SplitSettlement, ToReporting, buildSplitStatement,
+  computeSplitAmounts, computeSplitBalances, exportStatementPdf, getUnassignedAmount, getUnconvertedSplits, settlementId, simplifyDebts,
+} from '@/utils/splitSettlement';
+import { BudgetPlan, convertBudgetPlan, createBudgetPlan, getBudgetPeriods, getEnvelopeFunds, getMonthKey } from '@/utils/budgetPeriods';
+import { BankImportSheet } from './BankImportSheet';
+import { ExpenseRulesSheet } from './ExpenseRulesSheet';
+import { ExchangeRatesSheet } from './ExchangeRatesSheet';
+import { EnvelopeBudgetSheet } from './EnvelopeBudgetSheet';
 
 import { useHardwareBackButton } from '@/hooks/useHardwareBackButton';
 import { cn } from '@/lib/utils';
@@ -57,21 +71,6 @@ import {
   DropdownMenuTrigger,
 } from '@/components/ui/dropdown-menu';
 
-// Currency options
-const CURRENCIES = [
-  { code: 'USD', symbol: '$', name: 'US Dollar' },
-  { code: 'EUR', symbol: '€', name: 'Euro' },
-  { code: 'GBP', symbol: '£', name: 'British Pound' },
-  { code: 'INR', symbol: '₹', name: 'Indian Rupee' },
-  { code: 'PKR', symbol: 'Rs', name: 'Pakistani Rupee' },
-  { code: 'AED', symbol: 'د.إ', name: 'UAE Dirham' },
-  { code: 'SAR', symbol: '﷼', name: 'Saudi Riyal' },
-  { code: 'JPY', symbol: '¥', name: 'Japanese Yen' },
-  { code: 'CNY', symbol: '¥', name: 'Chinese Yuan' },
-  { code: 'CAD', symbol: 'C$', name: 'Canadian Dollar' },
-  { code: 'AUD', symbol: 'A$', name: 'Australian Dollar' },
-] as const;
-
 // Pie chart colors - vibrant distinct colors for each category
 const CHART_COLORS = [
   '#3b82f6', // Blue
@@ -130,6 +129,8 @@ interface IncomeEntry {
   source: string;
   amount: number;
   notes: string;
+  originalCurrency?: string;
+  originalAmount?: number;
 }
 
 interface SplitParticipant {
@@ -145,12 +146,15 @@ interface SplitExpense {
   totalAmount: number;
   paidBy: string; // participant id
   date: string;
-  splits: { participantId: string; amount: number; settled: boolean }[];
+  currency?: string; // Amounts are in this currency; the reporting currency when unset
+  splitMode?: SplitMode; // How shares are worked out; equal when unset
+  splits: { participantId: string; amount: number; settled: boolean; settledOn?: string; weight?: number }[];
 }
 
 interface ExpenseData {
   entries: ExpenseEntry[];
-  budgets: BudgetLimits;
+  budgets: BudgetLimits; // Monthly limits, and the default envelope amounts
+  budgetPlan?: BudgetPlan;
   recurringExpenses: RecurringExpense[];
   lastRecurringCheck?: string;
   customCategories?: string[];
@@ -160,7 +164,9 @@ interface ExpenseData {
   incomeEntries?: IncomeEntry[];
   splitParticipants?: SplitParticipant[];
   splitExpenses?: SplitExpense[];
+  splitSettlements?: SplitSettlement[];
   budgetNotificationsEnabled?: boolean;
+  exchangeRates?: ExchangeRate[];
 }
 
 const INCOME_SOURCES = ['Salary', 'Freelance', 'Business', 'Investments', 'Rental', 'Other'] as const;
@@ -264,6 +270,8 @@ export const ExpenseTrackerEditor = ({
   const navigate = useNavigate();
   const [entries, setEntries] = useState<ExpenseEntry[]>([]);
   const [budgets, setBudgets] = useState<BudgetLimits>(DEFAULT_BUDGETS);
+  const [budgetPlan, setBudgetPlan] = useState<BudgetPlan>(createBudgetPlan);
+  const [showEnvelopes, setShowEnvelopes] = useState(false);
   const [recurringExpenses, setRecurringExpenses] = useState<RecurringExpense[]>(DEFAULT_RECURRING);
   const [lastRecurringCheck, setLastRecurringCheck] = useState<string>('');
   const [initialized, setInitialized] = useState(false);
@@ -279,9 +287,14 @@ export const ExpenseTrackerEditor = ({
   const [incomeEntries, setIncomeEntries] = useState<IncomeEntry[]>([]);
   const [splitParticipants, setSplitParticipants] = useState<SplitParticipant[]>([]);
   const [splitExpenses, setSplitExpenses] = useState<SplitExpense[]>([]);
+  const [splitSettlements, setSplitSettlements] = useState<SplitSettlement[]>([]);
   const [receiptCache, setReceiptCache] = useState<{ [entryId: string]: string }>({});
   const [receiptViewEntry, setReceiptViewEntry] = useState<ExpenseEntry | null>(null);
   const [budgetNotificationsEnabled, setBudgetNotificationsEnabled] = useState(true);
+  const [showBankImport, setShowBankImport] = useState(false);
+  const [showExpenseRules, setShowExpenseRules] = useState(false);
+  const [exchangeRates, setExchangeRates] = useState<ExchangeRate[]>([]);
+  const [showExchangeRates, setShowExchangeRates] = useState(false);
   const [filters, setFilters] = useState<FilterState>({
     dateFrom: undefined,
     dateTo: undefined,
@@ -290,17 +303,15 @@ export const ExpenseTrackerEditor = ({
   });
 
   // Get current currency symbol
-  const currencySymbol = useMemo(() => {
-    return CURRENCIES.find(c => c.code === currency)?.symbol || '$';
-  }, [currency]);
+  const currencySymbol = useMemo(() => getCurrencySymbol(currency), [currency]);
 
   // Force save all data
   const saveAllData = useCallback(() => {
     if (entries.length > 0 && initialized) {
-      const data: ExpenseData = { entries, budgets, recurringExpenses, lastRecurringCheck, customCategories, customPaymentMethods, currency, spendingGoals, incomeEntries, splitParticipants, splitExpenses, budgetNotificationsEnabled };
+      const data: ExpenseData = { entries, budgets, budgetPlan, recurringExpenses, lastRecurringCheck, customCategories, customPaymentMethods, currency, spendingGoals, incomeEntries, splitParticipants, splitExpenses, splitSettlements, budgetNotificationsEnabled, exchangeRates };
       onChange(JSON.stringify(data));
     }
-  }, [entries, budgets, recurringExpenses, lastRecurringCheck, customCategories, customPaymentMethods, currency, spendingGoals, incomeEntries, splitParticipants, splitExpenses, budgetNotificationsEnabled, onChange, initialized]);
+  }, [entries, budgets, budgetPlan, recurringExpenses, lastRecurringCheck, customCategories, customPaymentMethods, currency, spendingGoals, incomeEntries, splitParticipants, splitExpenses, splitSettlements, budgetNotificationsEnabled, exchangeRates, onChange, initialized]);
 
   // Handle back/exit
   const handleBack = useCallback(() => {
@@ -333,6 +344,7 @@ export const ExpenseTrackerEditor = ({
         } else if (parsed.entries && Array.isArray(parsed.entries)) {
           setEntries(parsed.entries);
           setBudgets(parsed.budgets || DEFAULT_BUDGETS);
+          setBudgetPlan(parsed.budgetPlan || createBudgetPlan());
           setRecurringExpenses(parsed.recurringExpenses || DEFAULT_RECURRING);
           setLastRecurringCheck(parsed.lastRecurringCheck || '');
           setCustomCategories(parsed.customCategories || []);
@@ -342,7 +354,9 @@ export const ExpenseTrackerEditor = ({
           setIncomeEntries(parsed.incomeEntries || []);
           setSplitParticipants(parsed.splitParticipants || []);
           setSplitExpenses(parsed.splitExpenses || []);
+          setSplitSettlements(parsed.splitSettlements || []);
           setBudgetNotificationsEnabled(parsed.budgetNotificationsEnabled !== false);
+          setExchangeRates(parsed.exchangeRates || []);
         }
         setInitialized(true);
         return;
@@ -407,10 +421,10 @@ export const ExpenseTrackerEditor = ({
   // Auto-save
   useEffect(() => {
     if (entries.length > 0 && initialized) {
-      const data: ExpenseData = { entries, budgets, recurringExpenses, lastRecurringCheck, customCategories, customPaymentMethods, currency, spendingGoals, incomeEntries, splitParticipants, splitExpenses, budgetNotificationsEnabled };
+      const data: ExpenseData = { entries, budgets, budgetPlan, recurringExpenses, lastRecurringCheck, customCategories, customPaymentMethods, currency, spendingGoals, incomeEntries, splitParticipants, splitExpenses, splitSettlements, budgetNotificationsEnabled, exchangeRates };
       onChange(JSON.stringify(data));
     }
-  }, [entries, budgets, recurringExpenses, lastRecurringCheck, customCategories, customPaymentMethods, currency, spendingGoals, incomeEntries, splitParticipants, splitExpenses, budgetNotificationsEnabled, onChange, initialized]);
+  }, [entries, budgets, budgetPlan, recurringExpenses, lastRecurringCheck, customCategories, customPaymentMethods, currency, spendingGoals, incomeEntries, splitParticipants, splitExpenses, splitSettlements, budgetNotificationsEnabled, exchangeRates, onChange, initialized]);
 
   // Add new row when last row is filled
   useEffect(() => {
@@ -464,13 +478,21 @@ export const ExpenseTrackerEditor = ({
     return spending;
   }, [entries, allCategories]);
 
+  // What each category may spend this month: its envelope in envelope mode, otherwise its budget
+  const monthBudgets = useMemo<BudgetLimits>(() => {
+    if (!budgetPlan.envelopes) return budgets;
+    const currentMonth = getMonthKey(new Date());
+    const periods = getBudgetPeriods(budgetPlan, budgets, allCategories, entries, incomeEntries, currentMonth);
+    return getEnvelopeFunds(periods[periods.length - 1]);
+  }, [budgetPlan, budgets, allCategories, entries, incomeEntries]);
+
   // Budget alerts (including custom categories)
   useEffect(() => {
     if (!initialized) return;
     
     allCategories.forEach(category => {
       const spent = categorySpending[category] || 0;
-      const budget = budgets[category] || 0;
+      const budget = monthBudgets[category] || 0;
       if (budget > 0) {
         const percentage = (spent / budget) * 100;
         if (percentage >= 100) {
@@ -484,7 +506,7 @@ export const ExpenseTrackerEditor = ({
         }
       }
     });
-  }, [categorySpending, budgets, initialized, allCategories]);
+  }, [categorySpending, monthBudgets, initialized, allCategories]);
 
 
 
@@ -738,10 +760,84 @@ export const ExpenseTrackerEditor = ({
   }, []);
 
   const updateEntry = useCallback((id: string, field: keyof ExpenseEntry, value: any) => {
-    setEntries(prev => prev.map(entry => 
-      entry.id === id ? { ...entry, [field]: value } : entry
-    ));
-  }, []);
+    setEntries(prev => prev.map(entry => {
+      if (entry.id !== id) return entry;
+      const updated = { ...entry, [field]: value };
+      // A new date or original amount changes the converted amount
+      return field === 'date' || field === 'originalAmount' ? applyExchangeRate(updated, currency, exchangeRates) : updated;
+    }));
+  }, [currency, exchangeRates]);
+
+  const updateEntryCurrency = useCallback((entry: ExpenseEntry, code: string) => {
+    const original = entry.originalCurrency ? entry.originalAmount ?? entry.amount : entry.amount;
+    const updated = applyExchangeRate({ ...entry, originalCurrency: code, originalAmount: original }, currency, exchangeRates);
+    setEntries(prev => prev.map(e => (e.id === entry.id ? updated : e)));
+    if (!hasExchangeRate(updated, currency, exchangeRates)) {
+      toast.warning(`No ${code} to ${currency} rate yet`, { description: 'Add one in Exchange Rates to convert this amount' });
+    }
+  }, [currency, exchangeRates]);
+
+  // New or changed rates convert every foreign amount again
+  const updateExchangeRates = useCallback((rates: ExchangeRate[]) => {
+    setExchangeRates(rates);
+    setEntries(prev => prev.map(e => applyExchangeRate(e, currency, rates)));
+    setIncomeEntries(prev => prev.map(i => applyExchangeRate(i, currency, rates)));
+  }, [currency]);
+
+  /**
+   * Switch the reporting currency. Entries and income are converted at the
+   * rate of their own date; budgets, goals and recurring bills at today's.
+   * Nothing changes until the table has every rate the switch needs.
+   */
+  const changeReportingCurrency = useCallback((code: string) => {
+    if (code === currency) return;
+    const missing = findMissingRates([...entries, ...incomeEntries], currency, code, exchangeRates);
+    const rate = findExchangeRate(exchangeRates, currency, code);
+    if (rate === undefined && !missing.includes(currency)) missing.push(currency);
+    if (rate === undefined || missing.length > 0) {
+      toast.error(`Add exchange rates to ${code} first`, { description: `Missing: ${missing.join(', ')}` });
+      setShowExchangeRates(true);
+      return;
+    }
+    const convert = (value: number) => Math.round(value * rate * 100) / 100;
+    setEntries(prev => rebaseToCurrency(prev, currency, code, exchangeRates));
+    setIncomeEntries(prev => rebaseToCurrency(prev, currency, code, exchangeRates));
+    setBudgets(prev => Object.fromEntries(Object.entries(prev).map(([category, amount]) => [category, convert(amount)])));
+    setSpendingGoals(prev => prev.map(g => ({ ...g, targetAmount: convert(g.targetAmount), currentAmount: convert(g.currentAmount) })));
+    setRecurringExpenses(prev => prev.map(r => ({ ...r, amount: convert(r.amount) })));
+    setBudgetPlan(prev => convertBudgetPlan(prev, convert));
+    // Split expenses keep their own currency
+    setSplitExpenses(prev => prev.map(exp => ({ ...exp, currency: exp.currency || currency })));
+    setCurrency(code);
+    toast.success(`Reporting in ${code}`);
+  }, [currency, entries, incomeEntries, exchangeRates]);
+
+  // Giving an imported expense another category or payment method teaches the rules
+  const recategorizeEntry = useCallback((entry: ExpenseEntry, field: 'category' | 'paymentMethod', value: string) => {
+    updateEntry(entry.id, field, value);
+    if (!entry.imported || !entry.description || entry[field] === value) return;
+    const updated = { ...entry, [field]: value };
+    if (!updated.category) return;
+    learnFromCategorization(updated.description, updated.category, updated.paymentMethod).then(rule => {
+      if (rule && rule.category === updated.category) {
+        toast.success(`"${rule.contains}" will be filed under ${rule.category}`);
+      }
+    });
+  }, [updateEntry]);
+
+  // Imported expenses go after the filled rows, before the blank ones
+  const importEntries = useCallback((imported: ExpenseEntry[]) => {
+    const newCategories = [...new Set(imported.map(e => e.category))]
+      .filter(c => c && !CATEGORIES.includes(c as typeof CATEGORIES[number]) && !customCategories.includes(c));
+    const newMethods = [...new Set(imported.map(e => e.paymentMethod))]
+      .filter(m => m && !PAYMENT_METHODS.includes(m as typeof PAYMENT_METHODS[number]) && !customPaymentMethods.includes(m));
+    if (newCategories.length > 0) setCustomCategories(prev => [...prev, ...newCategories]);
+    if (newMethods.length > 0) setCustomPaymentMethods(prev => [...prev, ...newMethods]);
+    setEntries(prev => {
+      const isBlank = (e: ExpenseEntry) => !e.date && !e.amount && !e.description && !e.category;
+      return [...prev.filter(e => !isBlank(e)), ...imported, ...prev.filter(isBlank)];
+    });
+  }, [customCategories, customPaymentMethods]);
 
   const deleteEntry = useCallback((id: string) => {
     setEntries(prev => {
@@ -812,8 +908,14 @@ export const ExpenseTrackerEditor = ({
   }, []);
 
   const updateIncomeEntry = useCallback((id: string, field: keyof IncomeEntry, value: any) => {
-    setIncomeEntries(prev => prev.map(i => i.id === id ? { ...i, [field]: value } : i));
-  }, []);
+    setIncomeEntries(prev => prev.map(i => {
+      if (i.id !== id) return i;
+      // Income is typed in the reporting currency
+      if (field === 'amount') return { ...i, amount: value, originalCurrency: undefined, originalAmount: undefined };
+      const updated = { ...i, [field]: value };
+      return field === 'date' ? applyExchangeRate(updated, currency, exchangeRates) : updated;
+    }));
+  }, [currency, exchangeRates]);
 
   const deleteIncomeEntry = useCallback((id: string) => {
     setIncomeEntries(prev => prev.filter(i => i.id !== id));
@@ -841,6 +943,7 @@ export const ExpenseTrackerEditor = ({
       splits: exp.splits.filter(s => s.participantId !== id),
       paidBy: exp.paidBy === id ? '' : exp.paidBy,
     })));
+    setSplitSettlements(prev => prev.filter(s => s.from !== id && s.to !== id));
   }, []);
 
   const addSplitExpense = useCallback(() => {
@@ -855,29 +958,52 @@ export const ExpenseTrackerEditor = ({
       totalAmount: 0,
       paidBy: splitParticipants[0]?.id || '',
       date: format(new Date(), 'dd/MM/yyyy'),
+      currency,
       splits: splitParticipants.map(p => ({ participantId: p.id, amount: equalSplit, settled: false })),
     };
     setSplitExpenses(prev => [...prev, newSplitExpense]);
-  }, [splitParticipants]);
+  }, [splitParticipants, currency]);
 
   const updateSplitExpense = useCallback((id: string, field: keyof SplitExpense, value: any) => {
     setSplitExpenses(prev => prev.map(exp => {
       if (exp.id !== id) return exp;
       const updated = { ...exp, [field]: value };
-      // Auto-calculate equal splits when total amount changes
+      // Work the shares out again when the total changes
       if (field === 'totalAmount' && updated.splits.length > 0) {
-        const equalAmount = Number(value) / updated.splits.length;
-        updated.splits = updated.splits.map(s => ({ ...s, amount: equalAmount }));
+        updated.splits = computeSplitAmounts(Number(value), updated.splitMode || 'equal', updated.splits);
       }
       return updated;
     }));
   }, []);
 
+  // Switching mode starts from an even split: one share or an equal percentage each
+  const updateSplitMode = useCallback((expenseId: string, mode: SplitMode) => {
+    setSplitExpenses(prev => prev.map(exp => {
+      if (exp.id !== expenseId) return exp;
+      const evenPercent = exp.splits.length > 0 ? Math.round((100 / exp.splits.length) * 100) / 100 : 0;
+      const splits = exp.splits.map(s => ({
+        ...s,
+        weight: mode === 'shares' ? 1 : mode === 'percent' ? evenPercent : undefined,
+      }));
+      return { ...exp, splitMode: mode, splits: computeSplitAmounts(exp.totalAmount, mode, splits) };
+    }));
+  }, []);
+
+  const updateSplitWeight = useCallback((expenseId: string, participantId: string, weight: number) => {
+    setSplitExpenses(prev => prev.map(exp => {
+      if (exp.id !== expenseId) return exp;
+      const splits = exp.splits.map(s => s.participantId === participantId ? { ...s, weight } : s);
+      return { ...exp, splits: computeSplitAmounts(exp.totalAmount, exp.splitMode || 'equal', splits) };
+    }));
+  }, []);
+
+  // Typing an amount makes every share exact
   const updateSplitAmount = useCallback((expenseId: string, participantId: string, amount: number) => {
     setSplitExpenses(prev => prev.map(exp => {
       if (exp.id !== expenseId) return exp;
       return {
         ...exp,
+        splitMode: 'exact',
         splits: exp.splits.map(s => s.participantId === participantId ? { ...s, amount } : s),
       };
     }));
@@ -888,7 +1014,9 @@ export const ExpenseTrackerEditor = ({
       if (exp.id !== expenseId) return exp;
       return {
         ...exp,
-        splits: exp.splits.map(s => s.participantId === participantId ? { ...s, settled: !s.settled } : s),
+        splits: exp.splits.map(s => s.participantId === participantId
+          ? { ...s, settled: !s.settled, settledOn: s.settled ? undefined : format(new Date(), 'dd/MM/yyyy') }
+          : s),
       };
     }));
   }, []);
@@ -897,55 +1025,100 @@ export const ExpenseTrackerEditor = ({
     setSplitExpenses(prev => prev.filter(exp => exp.id !== id));
   }, []);
 
+  // Foreign split expenses and settlements count at the rate of their own day
+  const splitToReporting = useCallback<ToReporting>((amount, amountCurrency, date) => {
+    const rate = findExchangeRate(exchangeRates, amountCurrency || currency, currency, parseEntryDate(date));
+    return rate === undefined ? undefined : amount * rate;
+  }, [exchangeRates, currency]);
+
+  // Split expenses and settlements without a rate, left out of the balances
+  const unconvertedSplits = useMemo(
+    () => getUnconvertedSplits(splitExpenses, splitSettlements, splitToReporting),
+    [splitExpenses, splitSettlements, splitToReporting]
+  );
+  const unconvertedCount = unconvertedSplits.expenseIds.length + unconvertedSplits.settlementIds.length;
+
   // Calculate balances for each participant
-  const splitBalances = useMemo(() => {
-    const balances: { [participantId: string]: number } = {};
-    splitParticipants.forEach(p => { balances[p.id] = 0; });
+  const splitBalances = useMemo(
+    () => computeSplitBalances(splitParticipants.map(p => p.id), splitExpenses, splitSettlements, splitToReporting),
+    [splitParticipants, splitExpenses, splitSettlements, splitToReporting]
+  );
 
+  // Exchange gains and losses on foreign split expenses, for whoever is owed
+  const splitFx = useMemo(() => {
+    const byExpense: { [expenseId: string]: { realized: number; unrealized: number; missingRate: boolean } } = {};
     splitExpenses.forEach(exp => {
-      if (!exp.paidBy || exp.totalAmount <= 0) return;
-      
-      // The payer paid the full amount
-      balances[exp.paidBy] = (balances[exp.paidBy] || 0) + exp.totalAmount;
-      
-      // Each participant owes their split
-      exp.splits.forEach(split => {
-        if (!split.settled) {
-          balances[split.participantId] = (balances[split.participantId] || 0) - split.amount;
+      const expenseCurrency = exp.currency || currency;
+      if (expenseCurrency === currency) return;
+      const total = { realized: 0, unrealized: 0, missingRate: false };
+      exp.splits.filter(split => split.participantId !== exp.paidBy && split.amount > 0).forEach(split => {
+        const fx = getSplitFx(split.amount, expenseCurrency, currency, exp.date, split.settled ? split.settledOn ?? exp.date : undefined, exchangeRates);
+        if (!fx) {
+          total.missingRate = true;
+          return;
         }
+        total.realized += fx.realized;
+        total.unrealized += fx.unrealized;
       });
+      byExpense[exp.id] = total;
     });
+    const totals = Object.values(byExpense).reduce(
+      (sum, fx) => ({ realized: sum.realized + fx.realized, unrealized: sum.unrealized + fx.unrealized }),
+      { realized: 0, unrealized: 0 }
+    );
+    return { byExpense, ...totals };
+  }, [splitExpenses, exchangeRates, currency]);
+
+  const formatSignedAmount = (value: number) => `${value < 0 ? '−' : '+'}${currencySymbol}${Math.abs(value).toFixed(2)}`;
+
+  // The fewest transfers that settle everyone up
+  const settlementSuggestions = useMemo(() => simplifyDebts(splitBalances), [splitBalances]);
+
+  const recordSettlement = useCallback((transfer: SettlementTransfer) => {
+    setSplitSettlements(prev => [
+      ...prev,
+      { id: settlementId(), ...transfer, currency, date: format(new Date(), 'dd/MM/yyyy') },
+    ]);
+    toast.success('Settlement recorded');
+  }, [currency]);
 
-    return balances;
-  }, [splitParticipants, splitExpenses]);
+  const deleteSettlement = useCallback((id: string) => {
+    setSplitSettlements(prev => prev.filter(s => s.id !== id));
+  }, []);
 
-  // Generate settlement suggestions
-  const settlementSuggestions = useMemo(() => {
-    const suggestions: { from: string; to: string; amount: number }[] = [];
-    const balancesCopy = { ...splitBalances };
-    
-    const debtors = Object.entries(balancesCopy).filter(([_, bal]) => bal < -0.01).sort((a, b) => a[1] - b[1]);
-    const creditors = Object.entries(balancesCopy).filter(([_, bal]) => bal > 0.01).sort((a, b) => b[1] - a[1]);
+  const getParticipantName = useCallback((id: string) =>
+    splitParticipants.find(p => p.id === id)?.name || 'Unknown',
+  [splitParticipants]);
+
+  const getSplitStatement = (participantId: string) => buildSplitStatement({
+    participantId,
+    names: Object.fromEntries(splitParticipants.map(p => [p.id, p.name])),
+    expenses: splitExpenses,
+    settlements: splitSettlements,
+    transfers: settlementSuggestions,
+    currency,
+    title,
+    toReporting: splitToReporting,
+  });
 
-    let i = 0, j = 0;
-    while (i < debtors.length && j < creditors.length) {
-      const [debtorId, debtorBalance] = debtors[i];
-      const [creditorId, creditorBalance] = creditors[j];
-      
-      const amount = Math.min(Math.abs(debtorBalance), creditorBalance);
-      if (amount > 0.01) {
-        suggestions.push({ from: debtorId, to: creditorId, amount });
-      }
-      
-      debtors[i] = [debtorId, debtorBalance + amount];
-      creditors[j] = [creditorId, creditorBalance - amount];
-      
-      if (Math.abs(debtors[i][1]) < 0.01) i++;
-      if (creditors[j][1] < 0.01) j++;
+  const shareSplitStatement = (participantId: string) => {
+    const statement = getSplitStatement(participantId);
+    if (navigator.share) {
+      navigator.share({ title: `Statement for ${getParticipantName(participantId)}`, text: statement }).catch(() => {});
+    } else {
+      navigator.clipboard.writeText(statement);
+      toast.success('Statement copied to clipboard');
     }
+  };
 
-    return suggestions;
-  }, [splitBalances]);
+  const downloadSplitStatement = async (participantId: string) => {
+    try {
+      await exportStatementPdf(getSplitStatement(participantId), `statement_${getParticipantName(participantId)}_${format(new Date(), 'yyyy-MM-dd')}.pdf`);
+    } catch (error) {
+      console.error('Failed to export statement:', error);
+      toast.error('Could not export the statement');
+    }
+  };
 
   // Load receipts for entries that have them
   useEffect(() => {
@@ -1037,14 +1210,16 @@ export const ExpenseTrackerEditor = ({
       return;
     }
 
-    const headers = ['Date', 'Category', 'Description', 'Amount', 'Payment Method', 'Notes'];
+    const headers = ['Date', 'Category', 'Description', `Amount (${currency})`, 'Payment Method', 'Notes', 'Original Amount', 'Original Currency'];
     const rows = filledEntries.map(e => [
       e.date,
       e.category,
       `"${e.description.replace(/"/g, '""')}"`,
       e.amount.toString(),
       e.paymentMethod,
-      `"${e.notes.replace(/"/g, '""')}"`
+      `"${e.notes.replace(/"/g, '""')}"`,
+      e.originalCurrency ? String(e.originalAmount ?? '') : '',
+      e.originalCurrency ?? '',
     ]);
 
     const csvContent = [headers.join(','), ...rows.map(r => r.join(','))].join('\n');
@@ -1056,7 +1231,7 @@ export const ExpenseTrackerEditor = ({
     link.click();
     URL.revokeObjectURL(url);
     toast.success('Exported to CSV');
-  }, [entries, title]);
+  }, [entries, title, currency]);
 
   const exportToExcel = useCallback(() => {
     const filledEntries = entries.filter(e => e.date && e.amount > 0);
@@ -1104,7 +1279,7 @@ export const ExpenseTrackerEditor = ({
   }, [entries, title]);
 
   // Only sum budgets for categories that have a budget set (> 0)
-  const totalBudget = Object.entries(budgets)
+  const totalBudget = Object.entries(monthBudgets)
     .filter(([_, value]) => value > 0)
     .reduce((sum, [_, value]) => sum + value, 0);
   const totalSpent = Object.values(categorySpending).reduce((a, b) => a + b, 0);
@@ -1188,7 +1363,7 @@ export const ExpenseTrackerEditor = ({
 
     reportContent += `Category,Budget,Spent,Remaining,Usage %\n`;
     allCategories.forEach(cat => {
-      const budget = budgets[cat] || 0;
+      const budget = monthBudgets[cat] || 0;
       const spent = categorySpending[cat] || 0;
       const remaining = budget - spent;
       const usage = budget > 0 ? ((spent / budget) * 100).toFixed(1) : '0';
@@ -1221,7 +1396,7 @@ export const ExpenseTrackerEditor = ({
     link.click();
     URL.revokeObjectURL(url);
     toast.success('Full report exported');
-  }, [currency, currencySymbol, totalBudget, totalSpent, allCategories, budgets, categorySpending, spendingGoals, spendingTrendsData, trendViewMode]);
+  }, [currency, currencySymbol, totalBudget, totalSpent, allCategories, monthBudgets, categorySpending, spendingGoals, spendingTrendsData, trendViewMode]);
 
   const filledEntriesCount = entries.filter(e => e.date && e.category && e.amount > 0).length;
   const enabledRecurringCount = recurringExpenses.filter(r => r.enabled).length;
@@ -1257,7 +1432,7 @@ export const ExpenseTrackerEditor = ({
               <div className="p-3 rounded-lg border">
                 <div className="flex items-center justify-between mb-3">
                   <span className="text-sm font-medium">Currency</span>
-                  <Select value={currency} onValueChange={setCurrency}>
+                  <Select value={currency} onValueChange={changeReportingCurrency}>
                     <SelectTrigger className="w-32 h-8 text-sm">
                       <SelectValue />
                     </SelectTrigger>
@@ -1270,6 +1445,13 @@ export const ExpenseTrackerEditor = ({
                     </SelectContent>
                   </Select>
                 </div>
+                <Button variant="outline" size="sm" className="w-full justify-start gap-2 mb-3" onClick={() => setShowExchangeRates(true)}>
+                  <ArrowLeftRight className="h-4 w-4" />
+                  Exchange Rates
+                  {exchangeRates.length > 0 && (
+                    <span className="ml-auto text-xs text-muted-foreground">{exchangeRates.length}</span>
+                  )}
+                </Button>
                 
                 {/* Budget Notifications Toggle */}
                 <div className="flex items-center justify-between pt-3 border-t">
@@ -1542,6 +1724,23 @@ export const ExpenseTrackerEditor = ({
                               {(splitBalances[participant.id] || 0) > 0.01 ? '+' : ''}
                               {currencySymbol}{(splitBalances[participant.id] || 0).toFixed(2)}
                             </div>
+                            <DropdownMenu>
+                              <DropdownMenuTrigger asChild>
+                                <Button variant="ghost" size="icon" className="h-6 w-6 shrink-0" title="Statement">
+                                  <FileText className="h-3 w-3" />
+                                </Button>
+                              </DropdownMenuTrigger>
+                              <DropdownMenuContent align="end">
+                                <DropdownMenuItem onClick={() => shareSplitStatement(participant.id)}>
+                                  <Share2 className="h-4 w-4 mr-2" />
+                                  Share Statement
+                                </DropdownMenuItem>
+                                <DropdownMenuItem onClick={() => downloadSplitStatement(participant.id)}>
+                                  <FileDown className="h-4 w-4 mr-2" />
+                                  Statement as PDF
+                                </DropdownMenuItem>
+                              </DropdownMenuContent>
+                            </DropdownMenu>
                             <Button
                               variant="ghost"
                               size="icon"
@@ -1556,6 +1755,14 @@ export const ExpenseTrackerEditor = ({
                     )}
                   </div>
 
+                  {/* Amounts the balances cannot include yet */}
+                  {unconvertedCount > 0 && (
+                    <p className="text-xs text-amber-600 dark:text-amber-400 p-3 rounded-lg border border-amber-500/30 bg-amber-500/5 mb-6">
+                      {unconvertedCount === 1 ? '1 split amount is' : `${unconvertedCount} split amounts are`} left out of the balances:
+                      add exchange rates to {currency} for their dates.
+                    </p>
+                  )}
+
                   {/* Settlement Suggestions */}
                   {settlementSuggestions.length > 0 && (
                     <div className="p-3 rounded-lg bg-primary/5 border border-primary/20 mb-6">
@@ -1564,26 +1771,85 @@ export const ExpenseTrackerEditor = ({
                         Settlement Summary
                       </p>
                       <div className="space-y-2">
-                        {settlementSuggestions.map((s, idx) => {
-                          const fromName = splitParticipants.find(p => p.id === s.from)?.name || 'Unknown';
-                          const toName = splitParticipants.find(p => p.id === s.to)?.name || 'Unknown';
-                          return (
-                            <div key={idx} className="flex items-center justify-between text-sm">
-                              <span className="text-muted-foreground">
-                                <span className="font-medium text-foreground">{fromName}</span>
-                                {' → '}
-                                <span className="font-medium text-foreground">{toName}</span>
-                              </span>
-                              <span className="font-bold text-primary">
-                                {currencySymbol}{s.amount.toFixed(2)}
-                              </span>
-                            </div>
-                          );
-                        })}
+                        {settlementSuggestions.map((s) => (
+                          <div key={`${s.from}-${s.to}`} className="flex items-center gap-2 text-sm">
+                            <span className="text-muted-foreground flex-1">
+                              <span className="font-medium text-foreground">{getParticipantName(s.from)}</span>
+                              {' → '}
+                              <span className="font-medium text-foreground">{getParticipantName(s.to)}</span>
+                            </span>
+                            <span className="font-bold text-primary">
+                              {currencySymbol}{s.amount.toFixed(2)}
+                            </span>
+                            <Button
+                              variant="outline"
+                              size="sm"
+                              className="h-6 w-6 p-0"
+                              onClick={() => recordSettlement(s)}
+                              title="Record as paid"
+                            >
+                              <Check className="h-3 w-3" />
+                            </Button>
+                          </div>
+                        ))}
                       </div>
                     </div>
                   )}
 
+                  {/* Settlement History */}
+                  {splitSettlements.length > 0 && (
+                    <div className="p-3 rounded-lg border mb-6">
+                      <p className="text-sm font-medium mb-2 flex items-center gap-2">
+                        <History className="h-4 w-4" />
+                        Settlement History
+                      </p>
+                      <div className="space-y-1">
+                        {[...splitSettlements].reverse().map((settlement) => (
+                          <div key={settlement.id} className="flex items-center gap-2 text-sm">
+                            <span className="text-xs text-muted-foreground w-20">{settlement.date}</span>
+                            <span className="flex-1 truncate">
+                              {getParticipantName(settlement.from)} → {getParticipantName(settlement.to)}
+                            </span>
+                            <span className={cn("font-medium", unconvertedSplits.settlementIds.includes(settlement.id) && "text-destructive")}>
+                              {getCurrencySymbol(settlement.currency)}{settlement.amount.toFixed(2)}
+                            </span>
+                            <Button
+                              variant="ghost"
+                              size="icon"
+                              className="h-6 w-6 text-destructive shrink-0"
+                              onClick={() => deleteSettlement(settlement.id)}
+                            >
+                              <Trash2 className="h-3 w-3" />
+                            </Button>
+                          </div>
+                        ))}
+                      </div>
+                    </div>
+                  )}
+
+                  {/* Exchange Gains and Losses */}
+                  {Object.keys(splitFx.byExpense).length > 0 && (
+                    <div className="p-3 rounded-lg border mb-6 space-y-1">
+                      <p className="text-sm font-medium flex items-center gap-2">
+                        <ArrowLeftRight className="h-4 w-4" />
+                        FX Gains / Losses
+                      </p>
+                      <div className="flex items-center justify-between text-sm">
+                        <span className="text-muted-foreground">Realized on settled shares</span>
+                        <span className={cn("font-medium", splitFx.realized < 0 ? "text-destructive" : "text-green-600")}>
+                          {formatSignedAmount(splitFx.realized)}
+                        </span>
+                      </div>
+                      <div className="flex items-center justify-between text-sm">
+                        <span className="text-muted-foreground">Unrealized at latest rates</span>
+                        <span className={cn("font-medium", splitFx.unrealized < 0 ? "text-destructive" : "text-green-600")}>
+                          {formatSignedAmount(splitFx.unrealized)}
+                        </span>
+                      </div>
+                      <p className="text-xs text-muted-foreground">For whoever paid, in {currency}, against the rate on the day of each expense</p>
+                    </div>
+                  )}
+
                   {/* Split Expenses List */}
                   <div className="space-y-3">
                     <div className="flex items-center justify-between">
@@ -1627,10 +1893,25 @@ export const ExpenseTrackerEditor = ({
                         
                         <div className="grid grid-cols-2 gap-2">
                           <div className="space-y-1">
-                            <label className="text-xs text-muted-foreground">Total Amount</label>
+                            <div className="flex items-center justify-between">
+                              <label className="text-xs text-muted-foreground">Total Amount</label>
+                              <Select
+                                value={expense.currency || currency}
+                                onValueChange={(v) => updateSplitExpense(expense.id, 'currency', v)}
+                              >
+                                <SelectTrigger className="h-5 w-auto border-0 px-1 text-xs gap-1">
+                                  <SelectValue />
+                                </SelectTrigger>
+                                <SelectContent>
+                                  {CURRENCIES.map(c => (
+                                    <SelectItem key={c.code} value={c.code} className="text-xs">{c.code}</SelectItem>
+                                  ))}
+                                </SelectContent>
+                              </Select>
+                            </div>
                             <div className="relative">
                               <span className="absolute left-2 top-1/2 -translate-y-1/2 text-muted-foreground text-xs">
-                                {currencySymbol}
+                                {getCurrencySymbol(expense.currency || currency)}
                               </span>
                               <Input
                                 type="number"
@@ -1661,7 +1942,22 @@ export const ExpenseTrackerEditor = ({
 
                         {/* Individual Splits */}
                         <div className="space-y-2">
-                          <p className="text-xs text-muted-foreground font-medium">Split Amounts</p>
+                          <div className="flex items-center justify-between">
+                            <p className="text-xs text-muted-foreground font-medium">Split Amounts</p>
+                            <Select
+                              value={expense.splitMode || 'equal'}
+                              onValueChange={(v) => updateSplitMode(expense.id, v as SplitMode)}
+                            >
+                              <SelectTrigger className="h-6 w-24 text-xs">
+                                <SelectValue />
+                              </SelectTrigger>
+                              <SelectContent>
+                                {(Object.keys(SPLIT_MODE_LABELS) as SplitMode[]).map(mode => (
+                                  <SelectItem key={mode} value={mode} className="text-xs">{SPLIT_MODE_LABELS[mode]}</SelectItem>
+                                ))}
+                              </SelectContent>
+                            </Select>
+                          </div>
                           {expense.splits.map((split) => {
                             const participant = splitParticipants.find(p => p.id === split.participantId);
                             if (!participant) return null;
@@ -1675,17 +1971,38 @@ export const ExpenseTrackerEditor = ({
                                   {participant.name || 'Unnamed'}
                                   {isPayer && ' (paid)'}
                                 </span>
-                                <div className="relative w-20">
-                                  <span className="absolute left-1.5 top-1/2 -translate-y-1/2 text-muted-foreground text-xs">
-                                    {currencySymbol}
-                                  </span>
-                                  <Input
-                                    type="number"
-                                    value={split.amount || ''}
-                                    onChange={(e) => updateSplitAmount(expense.id, split.participantId, parseFloat(e.target.value) || 0)}
-                                    className="h-7 text-xs pl-4 pr-1"
-                                  />
-                                </div>
+                                {(expense.splitMode === 'shares' || expense.splitMode === 'percent') && (
+                                  <>
+                                    <div className="relative w-16">
+                                      <Input
+                                        type="number"
+                                        min="0"
+                                        value={split.weight ?? ''}
+                                        onChange={(e) => updateSplitWeight(expense.id, split.participantId, parseFloat(e.target.value) || 0)}
+                                        className="h-7 text-xs pl-1.5 pr-4"
+                                      />
+                                      <span className="absolute right-1.5 top-1/2 -translate-y-1/2 text-muted-foreground text-xs">
+                                        {expense.splitMode === 'percent' ? '%' : '×'}
+                                      </span>
+                                    </div>
+                                    <span className="w-16 text-right text-xs text-muted-foreground">
+                                      {getCurrencySymbol(expense.currency || currency)}{split.amount.toFixed(2)}
+                                    </span>
+                                  </>
+                                )}
+                                {expense.splitMode !== 'shares' && expense.splitMode !== 'percent' && (
+                                  <div className="relative w-20">
+                                    <span className="absolute left-1.5 top-1/2 -translate-y-1/2 text-muted-foreground text-xs">
+                                      {getCurrencySymbol(expense.currency || currency)}
+                                    </span>
+                                    <Input
+                                      type="number"
+                                      value={split.amount || ''}
+                                      onChange={(e) => updateSplitAmount(expense.id, split.participantId, parseFloat(e.target.value) || 0)}
+                                      className="h-7 text-xs pl-4 pr-1"
+                                    />
+                                  </div>
+                                )}
                                 <Button
                                   variant={split.settled ? "default" : "outline"}
                                   size="sm"
@@ -1703,6 +2020,29 @@ export const ExpenseTrackerEditor = ({
                             );
                           })}
                         </div>
+
+                        {expense.totalAmount > 0 && Math.abs(getUnassignedAmount(expense)) >= 0.01 && (
+                          <p className="text-xs text-amber-600">
+                            {getUnassignedAmount(expense) > 0
+                              ? `${getCurrencySymbol(expense.currency || currency)}${getUnassignedAmount(expense).toFixed(2)} not assigned to anyone`
+                              : `Shares are ${getCurrencySymbol(expense.currency || currency)}${(-getUnassignedAmount(expense)).toFixed(2)} over the total`}
+                          </p>
+                        )}
+
+                        {/* Exchange gain or loss on this expense */}
+                        {splitFx.byExpense[expense.id] && (
+                          <p className="text-xs text-muted-foreground">
+                            {splitFx.byExpense[expense.id].missingRate ? (
+                              <span className="text-destructive">No {expense.currency} to {currency} rate for {expense.date}, left out of balances</span>
+                            ) : (
+                              <>
+                                FX {formatSignedAmount(splitFx.byExpense[expense.id].realized)} realized
+                                {' • '}
+                                {formatSignedAmount(splitFx.byExpense[expense.id].unrealized)} unrealized
+                              </>
+                            )}
+                          </p>
+                        )}
                       </div>
                     ))}
 
@@ -2129,7 +2469,7 @@ export const ExpenseTrackerEditor = ({
               <div className="p-3 rounded-lg border">
                 <div className="flex items-center gap-2 mb-3">
                   <TrendingUp className="h-4 w-4 text-primary" />
-                  <span className="text-sm font-medium">Monthly Budget</span>
+                  <span className="text-sm font-medium">{budgetPlan.envelopes ? 'Envelopes' : 'Monthly Budget'}</span>
                   <span className="text-xs text-muted-foreground">
                     ({currencySymbol}{totalSpent.toLocaleString('en-US')} / {currencySymbol}{totalBudget.toLocaleString('en-US')})
                   </span>
@@ -2137,7 +2477,7 @@ export const ExpenseTrackerEditor = ({
                 <div className="space-y-2">
                   {allCategories.map((category, index) => {
                     const spent = categorySpending[category] || 0;
-                    const budget = budgets[category] || 0;
+                    const budget = monthBudgets[category] || 0;
                     const percentage = budget > 0 ? Math.min((spent / budget) * 100, 100) : 0;
                     const isOverBudget = spent > budget && budget > 0;
                     const categoryColor = getCategoryColor(category, index);
@@ -2219,6 +2559,10 @@ export const ExpenseTrackerEditor = ({
                     </div>
                   </SheetContent>
                 </Sheet>
+                <Button variant="outline" size="sm" className="w-full mt-2" onClick={() => setShowEnvelopes(true)}>
+                  <Mail className="h-4 w-4 mr-2" />
+                  Envelopes & Rollover
+                </Button>
               </div>
 
 
@@ -2346,6 +2690,19 @@ export const ExpenseTrackerEditor = ({
                 </SheetContent>
               </Sheet>
 
+              {/* Import Options in Menu */}
+              <div className="space-y-2">
+                <p className="text-sm font-medium">Import</p>
+                <Button variant="outline" className="w-full justify-start gap-2" onClick={() => setShowBankImport(true)}>
+                  <Landmark className="h-4 w-4" />
+                  Import Bank Statement
+                </Button>
+                <Button variant="outline" className="w-full justify-start gap-2" onClick={() => setShowExpenseRules(true)}>
+                  <Wand2 className="h-4 w-4" />
+                  Categorization Rules
+                </Button>
+              </div>
+
               {/* Export Options in Menu */}
               <div className="space-y-2">
                 <p className="text-sm font-medium">Export</p>
@@ -2375,13 +2732,14 @@ export const ExpenseTrackerEditor = ({
 
       {/* Table Container - Compact layout for maximum visibility */}
       <div className="flex-1 overflow-auto">
-        <div className="min-w-[750px]">
+        <div className="min-w-[800px]">
         <Table className="border-collapse text-xs">
           <TableHeader className="sticky top-0 bg-muted z-10">
             <TableRow className="border-b">
               <TableHead className="w-[85px] text-center font-medium border-r bg-muted py-1 px-1">Date</TableHead>
               <TableHead className="w-[80px] text-center font-medium border-r bg-muted py-1 px-1">Category</TableHead>
               <TableHead className="w-[70px] text-center font-medium border-r bg-muted py-1 px-1">Amount</TableHead>
+              <TableHead className="w-[52px] text-center font-medium border-r bg-muted py-1 px-1">Cur.</TableHead>
               <TableHead className="w-[80px] text-center font-medium border-r bg-muted py-1 px-1">Payment</TableHead>
               <TableHead className="w-[36px] text-center font-medium border-r bg-muted py-1 px-0">
                 <Receipt className="h-3 w-3 mx-auto" />
@@ -2417,7 +2775,7 @@ export const ExpenseTrackerEditor = ({
                           setCustomCategoryEntries(prev => new Set(prev).add(entry.id));
                           updateEntry(entry.id, 'category', '');
                         } else {
-                          updateEntry(entry.id, 'category', value);
+                          recategorizeEntry(entry, 'category', value);
                         }
                       }}
                     >
@@ -2473,14 +2831,33 @@ export const ExpenseTrackerEditor = ({
                 <TableCell className="p-0 border-r">
                   <Input
                     type="number"
-                    value={entry.amount || ''}
-                    onChange={(e) => updateEntry(entry.id, 'amount', parseFloat(e.target.value) || 0)}
+                    value={(entry.originalCurrency ? entry.originalAmount : entry.amount) || ''}
+                    onChange={(e) => updateEntry(entry.id, entry.originalCurrency ? 'originalAmount' : 'amount', parseFloat(e.target.value) || 0)}
                     placeholder="0"
                     min="0"
                     step="0.01"
+                    title={entry.originalCurrency ? `≈ ${currencySymbol}${entry.amount.toFixed(2)}` : undefined}
                     className="border-0 rounded-none h-7 text-xs text-right focus-visible:ring-1 focus-visible:ring-inset px-1"
                   />
                 </TableCell>
+                {/* Currency */}
+                <TableCell className="p-0 border-r">
+                  <Select value={entry.originalCurrency || currency} onValueChange={(value) => updateEntryCurrency(entry, value)}>
+                    <SelectTrigger
+                      className={cn(
+                        "border-0 rounded-none h-7 text-xs focus:ring-1 focus:ring-inset px-1",
+                        entry.originalCurrency && (hasExchangeRate(entry, currency, exchangeRates) ? "text-primary" : "text-destructive")
+                      )}
+                    >
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent className="bg-popover z-50">
+                      {CURRENCIES.map(c => (
+                        <SelectItem key={c.code} value={c.code} className="text-xs">{c.code}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </TableCell>
                 {/* Payment */}
                 <TableCell className="p-0 border-r">
                   {!customPaymentEntries.has(entry.id) && ([...PAYMENT_METHODS, ...customPaymentMethods].includes(entry.paymentMethod as any) || !entry.paymentMethod) ? (
@@ -2491,7 +2868,7 @@ export const ExpenseTrackerEditor = ({
                           setCustomPaymentEntries(prev => new Set(prev).add(entry.id));
                           updateEntry(entry.id, 'paymentMethod', '');
                         } else {
-                          updateEntry(entry.id, 'paymentMethod', value);
+                          recategorizeEntry(entry, 'paymentMethod', value);
                         }
                       }}
                     >
@@ -2691,6 +3068,40 @@ export const ExpenseTrackerEditor = ({
           </SheetContent>
         </Sheet>
       )}
+
+      <BankImportSheet
+        isOpen={showBankImport}
+        onClose={() => setShowBankImport(false)}
+        existingEntries={entries}
+        categories={allCategories}
+        paymentMethods={[...PAYMENT_METHODS, ...customPaymentMethods]}
+        currencySymbol={currencySymbol}
+        onImport={importEntries}
+      />
+      <EnvelopeBudgetSheet
+        isOpen={showEnvelopes}
+        onClose={() => setShowEnvelopes(false)}
+        plan={budgetPlan}
+        onChange={setBudgetPlan}
+        budgets={budgets}
+        categories={allCategories}
+        entries={entries}
+        incomeEntries={incomeEntries}
+        currencySymbol={currencySymbol}
+      />
+      <ExchangeRatesSheet
+        isOpen={showExchangeRates}
+        onClose={() => setShowExchangeRates(false)}
+        rates={exchangeRates}
+        reportingCurrency={currency}
+        onChange={updateExchangeRates}
+      />
+      <ExpenseRulesSheet
+        isOpen={showExpenseRules}
+        onClose={() => setShowExpenseRules(false)}
+        categories={allCategories}
+        paymentMethods={[...PAYMENT_METHODS, ...customPaymentMethods]}
+      />
     </div>
   );
 };
@@ -12,6 +12,7 @@ import { TodoItem } from '@/types/note';
 import { Haptics, ImpactStyle } from '@capacitor/haptics';
 import { toast } from 'sonner';
 import { loadTasksFromDB, updateTaskInDB } from '@/utils/taskStorage';
+import { ensureCanComplete } from '@/utils/taskDependencies';
 
 interface FocusModeProps {
   isOpen: boolean;
@@ -19,6 +20,7 @@ interface FocusModeProps {
 }
 
 export const FocusMode = ({ isOpen, onClose }: FocusModeProps) => {
+  const { t } = useTranslation();
   const [tasks, setTasks] = useState<TodoItem[]>([]);
   const [currentIndex, setCurrentIndex] = useState(0);
   const [completedInSession, setCompletedInSession] = useState(0);
@@ -44,6 +46,7 @@ export const FocusMode = ({ isOpen, onClose }: FocusModeProps) => {
 
   const handleComplete = async () => {
     if (!currentTask || isCompleting) return;
+    if (!ensureCanComplete(currentTask, await loadTasksFromDB())) return;
     setIsCompleting(true);
     
     try {
@@ -0,0 +1,107 @@
+import { useState } from 'react';
+import { useTranslation } from 'react-i18next';
+import { Sheet, SheetContent, SheetHeader, SheetTitle } from '@/components/ui/sheet';
+import { Button } from '@/components/ui/button';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { AlertTriangle, Download, Loader2 } from 'lucide-react';
+import { useHardwareBackButton } from '@/hooks/useHardwareBackButton';
+import { ImportCounts, ImportPreview, getImportCounts } from '@/utils/externalImport';
+
+interface ImportPreviewSheetProps {
+  isOpen: boolean;
+  onClose: () => void;
+  serviceName: string;
+  preview: ImportPreview | null;
+  onConfirm: (preview: ImportPreview) => Promise<void>;
+}
+
+const COUNT_LABELS: Record<keyof ImportCounts, string> = {
+  tasks: 'sync.importCountTasks',
+  subtasks: 'sync.importCountSubtasks',
+  sections: 'sync.importCountSections',
+  folders: 'sync.importCountFolders',
+  notes: 'sync.importCountNotes',
+  attachments: 'sync.importCountAttachments',
+};
+
+export const ImportPreviewSheet = ({
+  isOpen,
+  onClose,
+  serviceName,
+  preview,
+  onConfirm,
+}: ImportPreviewSheetProps) => {
+  const { t } = useTranslation();
+  const [isImporting, setIsImporting] = useState(false);
+
+  useHardwareBackButton({
+    onBack: onClose,
+    enabled: isOpen,
+    priority: 'sheet',
+  });
+
+  if (!preview) return null;
+
+  const counts = getImportCounts(preview);
+  const isEmpty = counts.tasks === 0 && counts.notes === 0;
+
+  const handleImport = async () => {
+    setIsImporting(true);
+    try {
+      await onConfirm(preview);
+    } finally {
+      setIsImporting(false);
+    }
+  };
+
+  return (
+    <Sheet open={isOpen} onOpenChange={(open) => !open && !isImporting && onClose()}>
+      <SheetContent side="bottom" className="max-h-[80vh] flex flex-col">
+        <SheetHeader className="pb-2">
+          <SheetTitle className="flex items-center gap-2">
+            <Download className="h-5 w-5" />
+            {t('sync.importPreviewTitle', { service: serviceName })}
+          </SheetTitle>
+          <p className="text-sm text-muted-foreground text-left">
+            {isEmpty ? t('sync.importPreviewEmpty') : t('sync.importPreviewDesc')}
+          </p>
+        </SheetHeader>
+
+        <div className="grid grid-cols-3 gap-2">
+          {(Object.keys(COUNT_LABELS) as (keyof ImportCounts)[]).map(key => (
+            <div key={key} className="rounded-lg border bg-card p-3 text-center">
+              <p className="text-xl font-semibold">{counts[key]}</p>
+              <p className="text-xs text-muted-foreground">{t(COUNT_LABELS[key])}</p>
+            </div>
+          ))}
+        </div>
+
+        {preview.errors.length > 0 && (
+          <div className="mt-4 flex-1 min-h-0 flex flex-col">
+            <p className="text-sm font-medium mb-2 flex items-center gap-1.5 text-destructive">
+              <AlertTriangle className="h-4 w-4" />
+              {t('sync.importSkipped', { count: preview.errors.length })}
+            </p>
+            <ScrollArea className="flex-1 max-h-48 rounded-lg border">
+              <ul className="p-3 space-y-1 text-xs text-muted-foreground">
+                {preview.errors.map((error, index) => (
+                  <li key={index} className="break-words">{error}</li>
+                ))}
+              </ul>
+            </ScrollArea>
+          </div>
+        )}
+
+        <div className="pt-4 flex gap-2">
+          <Button variant="outline" className="flex-1" onClick={onClose} disabled={isImporting}>
+            {t('common.cancel')}
+          </Button>
+          <Button className="flex-1" onClick={handleImport} disabled={isEmpty || isImporting}>
+            {isImporting && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+            {t('sync.importConfirm')}
+          </Button>
+        </div>
+      </SheetContent>
+    </Sheet>
+  );
+};
@@ -2,6 +2,7 @@ import React, { useState, useRef } from 'react';
 import { Note } from '@/types/note';
 import { format } from 'date-fns';
 import { cn } from '@/lib/utils';
+import { isEncrypted } from '@/utils/noteEncryption';
 import { Trash2, Archive } from 'lucide-react';
 
 interface MasonryNotesGridProps {
@@ -71,7 +72,7 @@ const SwipeableNoteCard: React.FC<SwipeableNoteCardProps> = ({
   const currentXRef = useRef(0);
 
   const bgColor = getNoteColor(note);
-  const plainContent = getPlainText(note.content);
+  const plainContent = isEncrypted(note.content) ? 'Encrypted note' : getPlainText(note.content);
 
   const handleTouchStart = (e: React.TouchEvent) => {
     if (isSelectionMode) return;
@@ -6,6 +6,7 @@ import { Trash2, Edit, Mic, FileText, Pen, Pin, FileCode, GitBranch, AlignLeft,
 import { cn } from '@/lib/utils';
 import { Haptics, ImpactStyle } from '@capacitor/haptics';
 import { getNoteProtection, NoteProtection } from '@/utils/noteProtection';
+import { isEncrypted } from '@/utils/noteEncryption';
 import { getSetting } from '@/utils/settingsStorage';
 import { logActivity } from '@/utils/activityLogger';
 import {
@@ -300,7 +301,9 @@ export const NoteCard = ({ note, onEdit, onDelete, onArchive, onTogglePin, onTog
           </div>
 
           {/* Show metaDescription if available, otherwise show content preview */}
-          {(note.metaDescription || note.content) && (
+          {isEncrypted(note.content) ? (
+            <p className="text-sm text-black/50 italic mb-3">Encrypted note</p>
+          ) : (note.metaDescription || note.content) && (
             <p className="text-sm text-black/70 mb-3 line-clamp-2">
               {note.metaDescription || note.content.replace(/<[^>]*>/g, '').replace(/&nbsp;/g, ' ').trim()}
             </p>
@@ -16,6 +16,7 @@ import { MindMapEditor } from './MindMapEditor';
 import { TemplateSelector } from './TemplateSelector';
 import { ExpenseTrackerEditor } from './ExpenseTrackerEditor';
 import { NoteVersionHistorySheet } from './NoteVersionHistorySheet';
+import { SyncConflictSheet } from './SyncConflictSheet';
 import { NoteLinkingSheet } from './NoteLinkingSheet';
 import { NoteTableOfContents, injectHeadingIds } from './NoteTableOfContents';
 import { InputSheetPage } from './InputSheetPage';
@@ -23,7 +24,7 @@ import { useHardwareBackButton } from '@/hooks/useHardwareBackButton';
 import { sanitizeForDisplay } from '@/lib/sanitize';
 
 import { ErrorBoundary } from './ErrorBoundary';
-import { ArrowLeft, Folder as FolderIcon, Plus, CalendarIcon, History, FileDown, Link2, ChevronDown, FileText, BookOpen, BarChart3, MoreVertical, Mic, Share2, Search, Image, Table, Minus, SeparatorHorizontal, MessageSquare, FileSymlink, FileType } from 'lucide-react';
+import { ArrowLeft, Folder as FolderIcon, Plus, CalendarIcon, History, FileDown, Link2, ChevronDown, FileText, BookOpen, BarChart3, MoreVertical, Mic, Share2, Search, Image, Table, Minus, SeparatorHorizontal, MessageSquare, FileSymlink, FileType, GitMerge, X } from 'lucide-react';
 import { exportNoteToPdf, getPageBreakCount } from '@/utils/exportToPdf';
 import { toast } from 'sonner';
 import { cn } from '@/lib/utils';
@@ -33,8 +34,10 @@ import { Switch } from '@/components/ui/switch';
 import { format } from 'date-fns';
 import { scheduleNoteReminder, updateNoteReminder, cancelNoteReminder } from '@/utils/noteNotifications';
 import { saveNoteVersion } from '@/utils/noteVersionHistory';
+import { getSyncConflict, removeSyncConflict, SyncConflictRecord } from '@/utils/syncConflicts';
 import { exportNoteToMarkdown } from '@/utils/markdownExport';
-import { insertNoteLink, findBacklinks } from '@/utils/noteLinking';
+import { UnlinkedMention, findUnlinkedMentions, hasLinkableContent, linkMentions, noteLinkHtml, relinkRenamedNote, resolveNoteLinks } from '@/utils/noteLinking';
+import { getBacklinkIds } from '@/utils/noteLinkIndex';
 import { calculateNoteStats, formatReadingTime } from '@/utils/noteStats';
 import { Collapsible, CollapsibleContent, CollapsibleTrigger } from '@/components/ui/collapsible';
 import {
@@ -53,6 +56,10 @@ interface NoteEditorProps {
   defaultType?: NoteType;
   defaultFolderId?: string;
   allNotes?: Note[];
+  /** Called with other notes the editor changed, such as notes whose links it updated after a rename */
+  onNoteUpdated?: (note: Note) => void;
+  /** Open another note in place of this one, from a backlink or a note link */
+  onOpenNote?: (note: Note) => void;
   /** Route to navigate back to when editor closes. If not provided, stays on current route. */
   returnTo?: string;
 }
@@ -69,7 +76,7 @@ const STICKY_COLOR_VALUES = {
   orange: 'hsl(var(--sticky-orange))',
 };
 
-export const NoteEditor = ({ note, isOpen, onClose, onSave, defaultType = 'regular', defaultFolderId, allNotes = [], returnTo }: NoteEditorProps) => {
+export const NoteEditor = ({ note, isOpen, onClose, onSave, defaultType = 'regular', defaultFolderId, allNotes = [], onNoteUpdated, onOpenNote, returnTo }: NoteEditorProps) => {
   const { t } = useTranslation();
   const navigate = useNavigate();
   const draftIdRef = useRef<string | null>(null);
@@ -140,8 +147,14 @@ export const NoteEditor = ({ note, isOpen, onClose, onSave, defaultType = 'regul
   const [newFolderName, setNewFolderName] = useState('');
   const [newFolderColor, setNewFolderColor] = useState('#3B82F6');
   const [isVersionHistoryOpen, setIsVersionHistoryOpen] = useState(false);
+  const [syncConflict, setSyncConflict] = useState<SyncConflictRecord | null>(null);
+  const [isSyncConflictOpen, setIsSyncConflictOpen] = useState(false);
   const [isNoteLinkingOpen, setIsNoteLinkingOpen] = useState(false);
+  const [isVoiceClipOpen, setIsVoiceClipOpen] = useState(false);
   const [isBacklinksOpen, setIsBacklinksOpen] = useState(true);
+  const [backlinks, setBacklinks] = useState<Note[]>([]);
+  const [unlinkedMentions, setUnlinkedMentions] = useState<UnlinkedMention[]>([]);
+  const [isMentionsOpen, setIsMentionsOpen] = useState(false);
   const [isReadingMode, setIsReadingMode] = useState(false);
   const [showStats, setShowStats] = useState(false);
   const [isFindReplaceOpen, setIsFindReplaceOpen] = useState(false);
@@ -157,8 +170,27 @@ export const NoteEditor = ({ note, isOpen, onClose, onSave, defaultType = 'regul
   // Calculate stats
   const noteStats = calculateNoteStats(content, title);
   
-  // Calculate backlinks
-  const backlinks = note ? findBacklinks(note, allNotes) : [];
+  // Backlinks come from the link index; unlinked mentions are looked for in the other notes
+  const allNotesRef = useRef(allNotes);
+  allNotesRef.current = allNotes;
+  const linkedNoteId = note?.id;
+  const linkedNoteTitle = note?.title;
+  useEffect(() => {
+    setBacklinks([]);
+    setUnlinkedMentions([]);
+    if (!isOpen || !linkedNoteId) return;
+    let cancelled = false;
+    getBacklinkIds(linkedNoteId)
+      .then(ids => {
+        if (cancelled) return;
+        setBacklinks(allNotesRef.current.filter(n => ids.includes(n.id) && !n.isDeleted));
+        setUnlinkedMentions(findUnlinkedMentions({ id: linkedNoteId, title: linkedNoteTitle || '' }, allNotesRef.current));
+      })
+      .catch(error => console.warn('Failed to load backlinks', error));
+    return () => {
+      cancelled = true;
+    };
+  }, [isOpen, linkedNoteId, linkedNoteTitle]);
 
   useEffect(() => {
     const loadFolders = async () => {
@@ -275,6 +307,21 @@ export const NoteEditor = ({ note, isOpen, onClose, onSave, defaultType = 'regul
     }
   }, []);
 
+  // Point the links in other notes at the new title after a rename
+  const relinkBacklinks = useCallback(async (renamed: Note) => {
+    try {
+      const { loadNotesFromDB, saveNoteToDBSingle } = await import('@/utils/noteStorage');
+      const ids = await getBacklinkIds(renamed.id);
+      const linking = (await loadNotesFromDB()).filter(n => ids.includes(n.id));
+      for (const relinked of relinkRenamedNote(renamed, linking)) {
+        await saveNoteToDBSingle(relinked);
+        onNoteUpdated?.(relinked);
+      }
+    } catch (e) {
+      console.warn('Failed to update links to renamed note', e);
+    }
+  }, [onNoteUpdated]);
+
   const buildCurrentNote = useCallback((): Note => {
     // Combine date and time
     const [hours, minutes] = createdTime.split(':').map(Number);
@@ -375,13 +422,21 @@ export const NoteEditor = ({ note, isOpen, onClose, onSave, defaultType = 'regul
         savedNote.reminderTime = undefined;
       }
 
+      // Typed [[Title]] references become links to those notes
+      const resolved = hasLinkableContent(savedNote) ? resolveNoteLinks(savedNote.content, allNotesRef.current) : savedNote.content;
+      if (resolved !== savedNote.content) {
+        savedNote.content = resolved;
+        setContent(resolved);
+      }
+
       // Save version history (only on "full" save)
       saveNoteVersion(savedNote, note ? 'edit' : 'create');
     }
 
     onSave(savedNote);
     persistNoteToIndexedDB(savedNote);
-  }, [buildCurrentNote, note, onSave, persistNoteToIndexedDB]);
+    if (full && note && note.title !== savedNote.title) void relinkBacklinks(savedNote);
+  }, [buildCurrentNote, note, onSave, persistNoteToIndexedDB, relinkBacklinks]);
 
   const handleSave = useCallback(async () => {
     await commitNote({ full: true });
@@ -481,10 +536,51 @@ export const NoteEditor = ({ note, isOpen, onClose, onSave, defaultType = 'regul
     toast.success(t('toast.versionRestored'));
   };
 
-  const handleInsertNoteLink = (noteTitle: string) => {
-    const linkText = insertNoteLink(noteTitle);
-    setContent(prev => prev + linkText);
-    toast.success(t('toast.linkInserted', { title: noteTitle }));
+  // Load any unresolved sync conflict for this note
+  useEffect(() => {
+    if (!note?.id) {
+      setSyncConflict(null);
+      return;
+    }
+    const loadConflict = () => getSyncConflict('notes', note.id).then(setSyncConflict);
+    loadConflict();
+    window.addEventListener('syncConflictsUpdated', loadConflict);
+    return () => window.removeEventListener('syncConflictsUpdated', loadConflict);
+  }, [note?.id]);
+
+  const handleResolveSyncConflict = async (values: Record<string, unknown>) => {
+    if (typeof values.title === 'string') setTitle(values.title);
+    if (typeof values.content === 'string') setContent(values.content);
+    if (typeof values.codeContent === 'string') setCodeContent(values.codeContent);
+    if (note) await removeSyncConflict('notes', note.id);
+    toast.success(t('toast.syncConflictResolved'));
+  };
+
+  const handleInsertNoteLink = (linkedNote: Note) => {
+    setContent(prev => prev + noteLinkHtml(linkedNote));
+    toast.success(t('toast.linkInserted', { title: linkedNote.title }));
+  };
+
+  const handleOpenLinkedNote = async (linkedNote: Note) => {
+    await commitNote({ full: true });
+    onOpenNote?.(linkedNote);
+  };
+
+  const handleOpenNoteLink = (noteId: string) => {
+    const linkedNote = allNotes.find(n => n.id === noteId && !n.isDeleted);
+    if (linkedNote) void handleOpenLinkedNote(linkedNote);
+    else toast.error(t('noteLinks.missing'));
+  };
+
+  // Turn the plain-text mentions of this note in another note into links
+  const handleLinkMention = async (mention: UnlinkedMention) => {
+    if (!note) return;
+    const updated: Note = { ...mention.note, content: linkMentions(mention.note.content, note), updatedAt: new Date() };
+    await persistNoteToIndexedDB(updated);
+    onNoteUpdated?.(updated);
+    setUnlinkedMentions(prev => prev.filter(m => m.note.id !== updated.id));
+    setBacklinks(prev => (prev.some(n => n.id === updated.id) ? prev : [...prev, updated]));
+    toast.success(t('noteLinks.mentionsLinked', { title: updated.title || t('notes.untitled') }));
   };
 
   const handleExportMarkdown = () => {
@@ -975,12 +1071,30 @@ export const NoteEditor = ({ note, isOpen, onClose, onSave, defaultType = 'regul
                     {t('editor.versionHistory')}
                   </DropdownMenuItem>
                 )}
+                {syncConflict && (
+                  <DropdownMenuItem onClick={() => setIsSyncConflictOpen(true)}>
+                    <GitMerge className="h-4 w-4 mr-2" />
+                    {t('editor.resolveSyncConflict')}
+                  </DropdownMenuItem>
+                )}
               </DropdownMenuContent>
             </DropdownMenu>
           </div>
         </div>
       )}
 
+      {/* Unresolved sync conflict banner */}
+      {syncConflict && (
+        <button
+          type="button"
+          onClick={() => setIsSyncConflictOpen(true)}
+          className="w-full px-4 py-2 flex items-center gap-2 text-xs font-medium bg-amber-50 dark:bg-amber-950/50 text-amber-700 dark:text-amber-300 border-b border-amber-200 dark:border-amber-800"
+        >
+          <GitMerge className="h-4 w-4" />
+          {t('editor.syncConflictBanner')}
+        </button>
+      )}
+
       {/* Word Count Stats Bar with Page Indicator - only shows when enabled */}
       {showStats && (
         <div className="px-4 py-2 border-b bg-muted/50 flex items-center justify-between text-xs text-muted-foreground" style={{ borderColor: 'rgba(0,0,0,0.1)' }}>
@@ -1017,6 +1131,33 @@ export const NoteEditor = ({ note, isOpen, onClose, onSave, defaultType = 'regul
         </div>
       )}
 
+      {/* Voice clip recorder opened from the slash menu */}
+      {isVoiceClipOpen && (
+        <div className="flex items-center gap-2 px-4 py-2 border-b">
+          <VoiceRecorder
+            recordings={voiceRecordings}
+            onRecordingAdd={(recording) => {
+              handleRecordingAdd(recording);
+              setIsVoiceClipOpen(false);
+            }}
+            onRecordingDelete={handleRecordingDelete}
+            onInsertAtCursor={handleInsertAudioAtCursor}
+            compact={true}
+            autoStart={true}
+          />
+          <Button
+            type="button"
+            variant="ghost"
+            size="icon"
+            className="h-7 w-7 shrink-0"
+            onClick={() => setIsVoiceClipOpen(false)}
+            title={t('common.cancel')}
+          >
+            <X className="h-4 w-4" />
+          </Button>
+        </div>
+      )}
+
       {/* Full Page Content Editor */}
       <div className="flex-1 min-h-0 overflow-hidden">
         <ErrorBoundary>
@@ -1099,6 +1240,8 @@ export const NoteEditor = ({ note, isOpen, onClose, onSave, defaultType = 'regul
               lineHeight={lineHeight}
               onLineHeightChange={setLineHeight}
               onInsertNoteLink={() => setIsNoteLinkingOpen(true)}
+              onRecordVoice={() => setIsVoiceClipOpen(true)}
+              onOpenNoteLink={onOpenNote ? handleOpenNoteLink : undefined}
               externalEditorRef={editorRef}
             />
           )}
@@ -1112,7 +1255,7 @@ export const NoteEditor = ({ note, isOpen, onClose, onSave, defaultType = 'regul
             <CollapsibleTrigger className="flex items-center justify-between w-full px-4 py-2 hover:bg-accent/50 transition-colors">
               <span className="text-sm font-medium text-muted-foreground flex items-center gap-2">
                 <Link2 className="h-4 w-4" />
-                {backlinks.length} backlink{backlinks.length !== 1 ? 's' : ''}
+                {t('noteLinks.backlinks', { count: backlinks.length })}
               </span>
               <ChevronDown className={cn("h-4 w-4 text-muted-foreground transition-transform", isBacklinksOpen && "rotate-180")} />
             </CollapsibleTrigger>
@@ -1121,16 +1264,12 @@ export const NoteEditor = ({ note, isOpen, onClose, onSave, defaultType = 'regul
                 {backlinks.map((linkedNote) => (
                   <button
                     key={linkedNote.id}
-                    onClick={() => {
-                      handleSave();
-                      onClose();
-                      // Trigger opening the linked note via navigation or callback
-                      toast.info(`Navigate to "${linkedNote.title}" to view`);
-                    }}
-                    className="flex items-center gap-2 w-full px-2 py-1.5 text-sm text-left rounded-md hover:bg-accent transition-colors"
+                    onClick={() => handleOpenLinkedNote(linkedNote)}
+                    disabled={!onOpenNote}
+                    className="flex items-center gap-2 w-full px-2 py-1.5 text-sm text-left rounded-md hover:bg-accent transition-colors disabled:hover:bg-transparent"
                   >
                     <FileText className="h-4 w-4 text-primary" />
-                    <span className="truncate">{linkedNote.title || 'Untitled'}</span>
+                    <span className="truncate">{linkedNote.title || t('notes.untitled')}</span>
                   </button>
                 ))}
               </div>
@@ -1139,6 +1278,37 @@ export const NoteEditor = ({ note, isOpen, onClose, onSave, defaultType = 'regul
         </div>
       )}
 
+      {/* Unlinked Mentions Section */}
+      {note && unlinkedMentions.length > 0 && (
+        <div className="border-t bg-background/95 backdrop-blur-sm">
+          <Collapsible open={isMentionsOpen} onOpenChange={setIsMentionsOpen}>
+            <CollapsibleTrigger className="flex items-center justify-between w-full px-4 py-2 hover:bg-accent/50 transition-colors">
+              <span className="text-sm font-medium text-muted-foreground flex items-center gap-2">
+                <FileSymlink className="h-4 w-4" />
+                {t('noteLinks.unlinkedMentions', { count: unlinkedMentions.length })}
+              </span>
+              <ChevronDown className={cn("h-4 w-4 text-muted-foreground transition-transform", isMentionsOpen && "rotate-180")} />
+            </CollapsibleTrigger>
+            <CollapsibleContent>
+              <div className="px-4 pb-3 space-y-1 max-h-40 overflow-y-auto">
+                {unlinkedMentions.map((mention) => (
+                  <div key={mention.note.id} className="flex items-start gap-2 px-2 py-1.5 rounded-md hover:bg-accent/50">
+                    <FileText className="h-4 w-4 text-muted-foreground shrink-0 mt-0.5" />
+                    <div className="flex-1 min-w-0">
+                      <p className="text-sm truncate">{mention.note.title || t('notes.untitled')}</p>
+                      <p className="text-xs text-muted-foreground line-clamp-2">{mention.snippet}</p>
+                    </div>
+                    <Button variant="ghost" size="sm" className="h-7 shrink-0" onClick={() => handleLinkMention(mention)}>
+                      {t('noteLinks.link')}
+                    </Button>
+                  </div>
+                ))}
+              </div>
+            </CollapsibleContent>
+          </Collapsible>
+        </div>
+      )}
+
       {/* Template Selector */}
       <TemplateSelector
         isOpen={showTemplateSelector}
@@ -1192,6 +1362,19 @@ export const NoteEditor = ({ note, isOpen, onClose, onSave, defaultType = 'regul
           onClose={() => setIsVersionHistoryOpen(false)}
           noteId={note.id}
           onRestore={handleRestoreVersion}
+          currentContent={content}
+          currentTitle={title}
+        />
+      )}
+
+      {/* Sync Conflict Resolution Sheet */}
+      {syncConflict && (
+        <SyncConflictSheet
+          isOpen={isSyncConflictOpen}
+          onClose={() => setIsSyncConflictOpen(false)}
+          conflict={syncConflict}
+          current={{ title, content, codeContent }}
+          onResolve={handleResolveSyncConflict}
         />
       )}
 
@@ -12,7 +12,7 @@ interface NoteLinkingSheetProps {
   onClose: () => void;
   notes: Note[];
   currentNoteId?: string;
-  onSelectNote: (noteTitle: string) => void;
+  onSelectNote: (note: Note) => void;
 }
 
 export const NoteLinkingSheet = ({
@@ -33,7 +33,7 @@ export const NoteLinkingSheet = ({
 
   const filteredNotes = useMemo(() => {
     return notes
-      .filter(note => note.id !== currentNoteId)
+      .filter(note => note.id !== currentNoteId && !note.isDeleted)
       .filter(note => 
         note.title.toLowerCase().includes(searchQuery.toLowerCase()) ||
         note.content.replace(/<[^>]*>/g, '').toLowerCase().includes(searchQuery.toLowerCase())
@@ -42,7 +42,7 @@ export const NoteLinkingSheet = ({
   }, [notes, currentNoteId, searchQuery]);
 
   const handleSelect = (note: Note) => {
-    onSelectNote(note.title);
+    onSelectNote(note);
     setSearchQuery('');
     onClose();
   };
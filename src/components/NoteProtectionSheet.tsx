@@ -20,7 +20,8 @@ interface NoteProtectionSheetProps {
   isOpen: boolean;
   onClose: () => void;
   noteId: string;
-  onProtectionChanged?: () => void;
+  // Receives the new password when one was set, so the note can be encrypted with it
+  onProtectionChanged?: (password?: string) => void;
 }
 
 export const NoteProtectionSheet = ({
@@ -81,13 +82,13 @@ export const NoteProtectionSheet = ({
     );
 
     toast.success('Note protection updated');
-    onProtectionChanged?.();
+    onProtectionChanged?.(usePassword ? password : undefined);
     onClose();
   };
 
   const handleRemoveProtection = async () => {
     await triggerHaptic('heavy');
-    removeNoteProtection(noteId);
+    await removeNoteProtection(noteId);
     toast.success('Note protection removed');
     onProtectionChanged?.();
     onClose();
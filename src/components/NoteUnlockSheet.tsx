@@ -19,6 +19,12 @@ interface NoteUnlockSheetProps {
   onClose: () => void;
   noteId: string;
   onUnlocked: () => void;
+  // Checks the password in place of the stored hash, e.g. by decrypting the note
+  onPasswordSubmit?: (password: string) => Promise<boolean>;
+  // Encrypted content can only be opened with the password, never biometrics
+  requirePassword?: boolean;
+  title?: string;
+  description?: string;
 }
 
 export const NoteUnlockSheet = ({
@@ -26,12 +32,18 @@ export const NoteUnlockSheet = ({
   onClose,
   noteId,
   onUnlocked,
+  onPasswordSubmit,
+  requirePassword = false,
+  title = 'Protected Note',
+  description = 'This note is protected. Please authenticate to access.',
 }: NoteUnlockSheetProps) => {
   const [password, setPassword] = useState('');
   const [showPassword, setShowPassword] = useState(false);
   const [biometricStatus, setBiometricStatus] = useState<BiometricStatus>({ isAvailable: false, biometryType: 'none' });
   const [protection, setProtection] = useState({ hasPassword: false, useBiometric: false });
   const [isAuthenticating, setIsAuthenticating] = useState(false);
+  const showBiometric = protection.useBiometric && biometricStatus.isAvailable && !requirePassword;
+  const showPasswordOption = protection.hasPassword || requirePassword;
 
   useHardwareBackButton({
     onBack: onClose,
@@ -75,8 +87,12 @@ export const NoteUnlockSheet = ({
       return;
     }
 
-    const success = verifyNotePassword(noteId, password);
-    
+    setIsAuthenticating(true);
+    const success = onPasswordSubmit
+      ? await onPasswordSubmit(password)
+      : await verifyNotePassword(noteId, password);
+    setIsAuthenticating(false);
+
     if (success) {
       await triggerHaptic('heavy');
       toast.success('Unlocked successfully');
@@ -107,16 +123,16 @@ export const NoteUnlockSheet = ({
         <SheetHeader className="mb-6">
           <SheetTitle className="flex items-center gap-2">
             <Lock className="h-5 w-5 text-primary" />
-            Protected Note
+            {title}
           </SheetTitle>
           <p className="text-sm text-muted-foreground mt-2">
-            This note is protected. Please authenticate to access.
+            {description}
           </p>
         </SheetHeader>
 
         <div className="space-y-4">
           {/* Biometric Option */}
-          {protection.useBiometric && biometricStatus.isAvailable && (
+          {showBiometric && (
             <Button
               onClick={handleBiometricAuth}
               className="w-full h-14"
@@ -128,9 +144,9 @@ export const NoteUnlockSheet = ({
           )}
 
           {/* Password Option */}
-          {protection.hasPassword && (
+          {showPasswordOption && (
             <div className="space-y-3">
-              {protection.useBiometric && biometricStatus.isAvailable && (
+              {showBiometric && (
                 <div className="flex items-center gap-4 py-2">
                   <div className="flex-1 h-px bg-border" />
                   <span className="text-xs text-muted-foreground">OR</span>
@@ -156,7 +172,7 @@ export const NoteUnlockSheet = ({
                 </button>
               </div>
 
-              <Button onClick={handlePasswordAuth} variant="outline" className="w-full">
+              <Button onClick={handlePasswordAuth} variant="outline" className="w-full" disabled={isAuthenticating}>
                 <KeyRound className="h-4 w-4 mr-2" />
                 Unlock with Password
               </Button>
@@ -1,9 +1,14 @@
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useMemo } from 'react';
+import { useTranslation } from 'react-i18next';
 import { Sheet, SheetContent, SheetHeader, SheetTitle } from '@/components/ui/sheet';
 import { Button } from '@/components/ui/button';
+import { Checkbox } from '@/components/ui/checkbox';
 import { ScrollArea } from '@/components/ui/scroll-area';
-import { getNoteVersions, NoteVersion, formatVersionTimestamp, restoreNoteVersion } from '@/utils/noteVersionHistory';
-import { History, RotateCcw, FileEdit, Plus } from 'lucide-react';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { getNoteVersions, NoteVersion, formatVersionTimestamp, openNoteVersions, restoreNoteVersion } from '@/utils/noteVersionHistory';
+import { isNoteUnlocked } from '@/utils/noteEncryption';
+import { DiffChunk, diffChunks, mergeChunks } from '@/utils/textDiff';
+import { History, RotateCcw, FileEdit, Plus, RefreshCw, GitCompare, ArrowLeft, Lock } from 'lucide-react';
 import { cn } from '@/lib/utils';
 import { useHardwareBackButton } from '@/hooks/useHardwareBackButton';
 
@@ -12,14 +17,40 @@ interface NoteVersionHistorySheetProps {
   onClose: () => void;
   noteId: string;
   onRestore: (content: string, title: string) => void;
+  // The note as it is in the editor, offered as one side of a comparison
+  currentContent?: string;
+  currentTitle?: string;
 }
 
+// Stands for the note in the editor in the compare selects
+const CURRENT = 'current';
+// Unchanged text longer than this is shortened to its ends
+const CONTEXT_LENGTH = 160;
+
+// Plain text of a piece of note HTML, with block ends kept as line breaks
+const displayText = (html: string): string => {
+  const text = html
+    .replace(/<br\s*\/?>|<\/(p|div|li|h[1-6]|blockquote|pre|tr)>/gi, '\n')
+    .replace(/<[^>]*>/g, '');
+  return new DOMParser().parseFromString(text, 'text/html').documentElement.textContent || '';
+};
+
+const shortenContext = (text: string, first: boolean, last: boolean): string => {
+  if (text.length <= CONTEXT_LENGTH) return text;
+  const half = CONTEXT_LENGTH / 2;
+  if (first) return `…${text.slice(-half)}`;
+  if (last) return `${text.slice(0, half)}…`;
+  return `${text.slice(0, half)}\n…\n${text.slice(-half)}`;
+};
+
 const ChangeTypeIcon = ({ type }: { type: NoteVersion['changeType'] }) => {
   switch (type) {
     case 'create':
       return <Plus className="h-3 w-3 text-green-500" />;
     case 'restore':
       return <RotateCcw className="h-3 w-3 text-blue-500" />;
+    case 'sync':
+      return <RefreshCw className="h-3 w-3 text-purple-500" />;
     default:
       return <FileEdit className="h-3 w-3 text-muted-foreground" />;
   }
@@ -30,48 +61,208 @@ export const NoteVersionHistorySheet = ({
   onClose,
   noteId,
   onRestore,
+  currentContent,
+  currentTitle,
 }: NoteVersionHistorySheetProps) => {
+  const { t } = useTranslation();
   const [versions, setVersions] = useState<NoteVersion[]>([]);
+  // Protected versions that could not be decrypted with the note's session key
+  const [unreadable, setUnreadable] = useState(0);
+  const [compare, setCompare] = useState<{ from: string; to: string } | null>(null);
+  const [selectedChunks, setSelectedChunks] = useState<Set<number>>(new Set());
+  const hasCurrent = currentContent !== undefined;
 
   // Hardware back button support - use 'sheet' priority to close sheet before navigation
   useHardwareBackButton({
-    onBack: onClose,
+    onBack: () => (compare ? setCompare(null) : onClose()),
     enabled: isOpen,
     priority: 'sheet',
   });
 
-  // Load versions from IndexedDB
+  // Load versions from IndexedDB, decrypting those of protected notes
   useEffect(() => {
     if (isOpen && noteId) {
-      getNoteVersions(noteId).then(setVersions);
+      getNoteVersions(noteId)
+        .then(openNoteVersions)
+        .then(opened => {
+          setVersions(opened.versions);
+          setUnreadable(opened.unreadable);
+        });
     }
+    if (!isOpen) setCompare(null);
   }, [isOpen, noteId]);
 
+  const sideOf = (id: string): { content: string; title: string } | null => {
+    if (id === CURRENT) return hasCurrent ? { content: currentContent, title: currentTitle ?? '' } : null;
+    return versions.find(version => version.id === id) ?? null;
+  };
+  const from = compare ? sideOf(compare.from) : null;
+  const to = compare ? sideOf(compare.to) : null;
+
+  const fromContent = from?.content;
+  const toContent = to?.content;
+  const chunks = useMemo<DiffChunk[]>(
+    () => (fromContent !== undefined && toContent !== undefined ? diffChunks(fromContent, toContent) : []),
+    [fromContent, toContent]
+  );
+  const changeCount = chunks.filter(chunk => chunk.type === 'change').length;
+  const canRestoreChunks = compare?.to === CURRENT;
+
   const handleRestore = (version: NoteVersion) => {
     const restored = restoreNoteVersion(version);
     onRestore(restored.content || '', restored.title || '');
     onClose();
   };
 
+  const openCompare = (version: NoteVersion, index: number) => {
+    const newer = hasCurrent ? CURRENT : versions[index - 1]?.id;
+    setSelectedChunks(new Set());
+    setCompare(newer ? { from: version.id, to: newer } : { from: versions[index + 1]?.id ?? version.id, to: version.id });
+  };
+
+  const updateCompare = (side: 'from' | 'to', id: string) => {
+    setSelectedChunks(new Set());
+    setCompare(previous => (previous ? { ...previous, [side]: id } : previous));
+  };
+
+  const toggleChunk = (index: number) => {
+    setSelectedChunks(previous => {
+      const next = new Set(previous);
+      if (next.has(index)) next.delete(index);
+      else next.add(index);
+      return next;
+    });
+  };
+
+  // Undo the ticked changes in the current note, keeping everything else
+  const handleRestoreSelected = () => {
+    if (!to) return;
+    onRestore(mergeChunks(chunks, selectedChunks), to.title);
+    onClose();
+  };
+
+  const sideOptions = (
+    <SelectContent>
+      {hasCurrent && <SelectItem value={CURRENT}>{t('versionHistory.current')}</SelectItem>}
+      {versions.map(version => (
+        <SelectItem key={version.id} value={version.id}>
+          {formatVersionTimestamp(version.timestamp)} · {t(`versionHistory.changeTypes.${version.changeType}`)}
+        </SelectItem>
+      ))}
+    </SelectContent>
+  );
+
+  const renderCompare = () => (
+    <div className="space-y-3 pr-4">
+      <div className="grid grid-cols-2 gap-2">
+        {(['from', 'to'] as const).map(side => (
+          <div key={side} className="space-y-1">
+            <span className="text-xs text-muted-foreground">{t(`versionHistory.${side}`)}</span>
+            <Select value={compare?.[side]} onValueChange={id => updateCompare(side, id)}>
+              <SelectTrigger className="h-9">
+                <SelectValue />
+              </SelectTrigger>
+              {sideOptions}
+            </Select>
+          </div>
+        ))}
+      </div>
+
+      {from && to && from.title !== to.title && (
+        <p className="text-sm">
+          {t('versionHistory.titleChanged', {
+            from: from.title || t('versionHistory.untitled'),
+            to: to.title || t('versionHistory.untitled'),
+          })}
+        </p>
+      )}
+
+      {changeCount === 0 ? (
+        <p className="text-center py-8 text-sm text-muted-foreground">{t('versionHistory.noChanges')}</p>
+      ) : (
+        <>
+          <p className="text-xs text-muted-foreground">
+            {canRestoreChunks ? t('versionHistory.selectHint') : t('versionHistory.compareWithCurrent')}
+          </p>
+          <div className="rounded-lg border bg-card p-3 text-sm whitespace-pre-wrap break-words space-y-1">
+            {chunks.map((chunk, index) => {
+              if (chunk.type === 'equal') {
+                return (
+                  <span key={index} className="text-muted-foreground">
+                    {shortenContext(displayText(chunk.text), index === 0, index === chunks.length - 1)}
+                  </span>
+                );
+              }
+              const deleted = displayText(chunk.deleted);
+              const inserted = displayText(chunk.inserted);
+              return (
+                <div key={index} className="flex items-start gap-2 rounded-md bg-muted/50 p-2">
+                  {canRestoreChunks && (
+                    <Checkbox
+                      checked={selectedChunks.has(index)}
+                      onCheckedChange={() => toggleChunk(index)}
+                      className="mt-0.5"
+                    />
+                  )}
+                  <div className="flex-1 min-w-0">
+                    {deleted.trim() || inserted.trim() ? (
+                      <>
+                        {deleted && <del className="bg-destructive/15 text-destructive">{deleted}</del>}
+                        {inserted && <ins className="bg-green-500/15 text-green-700 dark:text-green-400 no-underline">{inserted}</ins>}
+                      </>
+                    ) : (
+                      <span className="text-xs italic text-muted-foreground">{t('versionHistory.formattingChanged')}</span>
+                    )}
+                  </div>
+                </div>
+              );
+            })}
+          </div>
+          {canRestoreChunks && (
+            <Button className="w-full" disabled={selectedChunks.size === 0} onClick={handleRestoreSelected}>
+              <RotateCcw className="h-4 w-4 mr-2" />
+              {t('versionHistory.restoreSelected', { count: selectedChunks.size })}
+            </Button>
+          )}
+        </>
+      )}
+    </div>
+  );
+
   return (
     <Sheet open={isOpen} onOpenChange={(open) => !open && onClose()}>
       <SheetContent side="bottom" className="h-[70vh]">
         <SheetHeader className="pb-4">
           <SheetTitle className="flex items-center gap-2">
-            <History className="h-5 w-5" />
-            Version History
+            {compare ? (
+              <Button variant="ghost" size="icon" className="h-8 w-8" onClick={() => setCompare(null)} aria-label={t('versionHistory.back')}>
+                <ArrowLeft className="h-5 w-5" />
+              </Button>
+            ) : (
+              <History className="h-5 w-5" />
+            )}
+            {t('versionHistory.title')}
           </SheetTitle>
         </SheetHeader>
 
         <ScrollArea className="h-[calc(100%-4rem)]">
-          {versions.length === 0 ? (
+          {compare ? renderCompare() : unreadable > 0 && !isNoteUnlocked(noteId) ? (
+            <div className="text-center py-12 text-muted-foreground">
+              <Lock className="h-12 w-12 mx-auto mb-4 opacity-50" />
+              <p>{t('versionHistory.locked')}</p>
+              <p className="text-sm mt-1">{t('versionHistory.lockedHint')}</p>
+            </div>
+          ) : versions.length === 0 ? (
             <div className="text-center py-12 text-muted-foreground">
               <History className="h-12 w-12 mx-auto mb-4 opacity-50" />
-              <p>No version history yet</p>
-              <p className="text-sm mt-1">Changes will be saved automatically</p>
+              <p>{t('versionHistory.empty')}</p>
+              <p className="text-sm mt-1">{t('versionHistory.emptyHint')}</p>
             </div>
           ) : (
             <div className="space-y-2 pr-4">
+              {unreadable > 0 && (
+                <p className="text-xs text-muted-foreground">{t('versionHistory.unreadable', { count: unreadable })}</p>
+              )}
               {versions.map((version, index) => (
                 <div
                   key={version.id}
@@ -84,20 +275,20 @@ export const NoteVersionHistorySheet = ({
                     <div className="flex-1 min-w-0">
                       <div className="flex items-center gap-2 mb-1">
                         <ChangeTypeIcon type={version.changeType} />
-                        <span className="text-sm font-medium capitalize">
-                          {version.changeType}
+                        <span className="text-sm font-medium">
+                          {t(`versionHistory.changeTypes.${version.changeType}`)}
                         </span>
                         <span className="text-xs text-muted-foreground">
                           {formatVersionTimestamp(version.timestamp)}
                         </span>
                         {index === 0 && (
                           <span className="text-xs bg-primary/10 text-primary px-2 py-0.5 rounded">
-                            Current
+                            {t('versionHistory.latest')}
                           </span>
                         )}
                       </div>
                       <p className="text-sm font-medium truncate">
-                        {version.title || 'Untitled'}
+                        {version.title || t('versionHistory.untitled')}
                       </p>
                       <p className="text-xs text-muted-foreground line-clamp-2 mt-1">
                         {version.content
@@ -107,17 +298,24 @@ export const NoteVersionHistorySheet = ({
                         {version.content.length > 150 ? '...' : ''}
                       </p>
                     </div>
-                    {index !== 0 && (
-                      <Button
-                        size="sm"
-                        variant="outline"
-                        onClick={() => handleRestore(version)}
-                        className="shrink-0"
-                      >
-                        <RotateCcw className="h-3 w-3 mr-1" />
-                        Restore
-                      </Button>
-                    )}
+                    <div className="flex flex-col gap-1 shrink-0">
+                      {(versions.length > 1 || hasCurrent) && (
+                        <Button size="sm" variant="ghost" onClick={() => openCompare(version, index)}>
+                          <GitCompare className="h-3 w-3 mr-1" />
+                          {t('versionHistory.compare')}
+                        </Button>
+                      )}
+                      {index !== 0 && (
+                        <Button
+                          size="sm"
+                          variant="outline"
+                          onClick={() => handleRestore(version)}
+                        >
+                          <RotateCcw className="h-3 w-3 mr-1" />
+                          {t('versionHistory.restore')}
+                        </Button>
+                      )}
+                    </div>
                   </div>
                 </div>
               ))}
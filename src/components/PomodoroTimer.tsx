@@ -14,7 +14,8 @@ import { cn } from '@/lib/utils';
 import { Haptics, ImpactStyle } from '@capacitor/haptics';
 import { toast } from 'sonner';
 import { TodoItem } from '@/types/note';
-import { loadTasksFromDB } from '@/utils/taskStorage';
+import { loadTasksFromDB, updateTaskInDB } from '@/utils/taskStorage';
+import { addTimeEntry, getTaskTimeTotals, getTimeEntries, TimeEntry, TIME_ENTRIES_EVENT } from '@/utils/timeEntries';
 import { getSetting, setSetting } from '@/utils/settingsStorage';
 
 type SessionType = 'work' | 'shortBreak' | 'longBreak';
@@ -89,7 +90,8 @@ export const PomodoroTimer = ({ isOpen, onClose }: PomodoroTimerProps) => {
   const [showTaskPicker, setShowTaskPicker] = useState(false);
   const [linkedTask, setLinkedTask] = useState<{ id: string; text: string } | null>(null);
   const [availableTasks, setAvailableTasks] = useState<TodoItem[]>([]);
-  const [taskTimeTracking, setTaskTimeTracking] = useState<TaskTimeTracking[]>([]);
+  const [allTasks, setAllTasks] = useState<TodoItem[]>([]);
+  const [timeEntries, setTimeEntries] = useState<TimeEntry[]>([]);
   const [showGoalSetter, setShowGoalSetter] = useState(false);
   const [selectedTaskForGoal, setSelectedTaskForGoal] = useState<string | null>(null);
   const [goalInputMinutes, setGoalInputMinutes] = useState<number>(60);
@@ -106,9 +108,6 @@ export const PomodoroTimer = ({ isOpen, onClose }: PomodoroTimerProps) => {
       setSettings(savedSettings);
       setTimeRemaining(savedSettings.workDuration * 60);
       
-      const savedTracking = await getSetting<TaskTimeTracking[]>('pomodoroTaskTracking', []);
-      setTaskTimeTracking(savedTracking);
-      
       const savedSessions = await getSetting<PomodoroSession[]>('pomodoroSessions', []);
       const today = new Date().toDateString();
       setTodaySessions(savedSessions.filter((s: PomodoroSession) => 
@@ -124,6 +123,7 @@ export const PomodoroTimer = ({ isOpen, onClose }: PomodoroTimerProps) => {
   useEffect(() => {
     const loadTasks = async () => {
       const tasks = await loadTasksFromDB();
+      setAllTasks(tasks);
       setAvailableTasks(tasks.filter(t => !t.completed));
     };
     loadTasks();
@@ -133,6 +133,14 @@ export const PomodoroTimer = ({ isOpen, onClose }: PomodoroTimerProps) => {
     return () => window.removeEventListener('tasksUpdated', handleUpdate);
   }, []);
 
+  // Load tracked time, which the task stopwatch also adds to
+  useEffect(() => {
+    const loadEntries = () => getTimeEntries().then(setTimeEntries);
+    loadEntries();
+    window.addEventListener(TIME_ENTRIES_EVENT, loadEntries);
+    return () => window.removeEventListener(TIME_ENTRIES_EVENT, loadEntries);
+  }, []);
+
   // Save settings
   useEffect(() => {
     if (isSettingsLoaded) {
@@ -147,13 +155,6 @@ export const PomodoroTimer = ({ isOpen, onClose }: PomodoroTimerProps) => {
     }
   }, [todaySessions, isSettingsLoaded]);
 
-  // Save task time tracking
-  useEffect(() => {
-    if (isSettingsLoaded) {
-      setSetting('pomodoroTaskTracking', taskTimeTracking);
-    }
-  }, [taskTimeTracking, isSettingsLoaded]);
-
   // Timer logic
   useEffect(() => {
     if (isRunning && timeRemaining > 0) {
@@ -179,61 +180,37 @@ export const PomodoroTimer = ({ isOpen, onClose }: PomodoroTimerProps) => {
     };
   }, [isRunning]);
 
-  const updateTaskTimeTracking = (taskId: string, taskText: string, duration: number) => {
-    setTaskTimeTracking(prev => {
-      const existing = prev.find(t => t.taskId === taskId);
-      let newTracking: TaskTimeTracking[];
-      
-      if (existing) {
-        const newTotalMinutes = existing.totalMinutes + duration;
-        const goalMinutes = existing.goalMinutes;
-        
-        // Check for milestone notifications
-        if (goalMinutes) {
-          const oldProgress = (existing.totalMinutes / goalMinutes) * 100;
-          const newProgress = (newTotalMinutes / goalMinutes) * 100;
-          
-          // 80% milestone
-          if (oldProgress < 80 && newProgress >= 80 && newProgress < 100) {
-            toast.success(`🎯 Almost there! ${taskText} is 80% complete!`, {
-              duration: 5000,
-              description: `${formatDuration(newTotalMinutes)} of ${formatDuration(goalMinutes)} goal reached`
-            });
-            try { Haptics.impact({ style: ImpactStyle.Heavy }); } catch {}
-          }
-          
-          // 100% milestone
-          if (oldProgress < 100 && newProgress >= 100) {
-            toast.success(`🎉 Goal Complete! ${taskText}`, {
-              duration: 8000,
-              description: `You've reached your ${formatDuration(goalMinutes)} goal! Congratulations!`
-            });
-            try { Haptics.impact({ style: ImpactStyle.Heavy }); } catch {}
-          }
-        }
-        
-        newTracking = prev.map(t => 
-          t.taskId === taskId 
-            ? { 
-                ...t, 
-                totalMinutes: newTotalMinutes,
-                sessionsCount: t.sessionsCount + 1,
-                lastSession: new Date()
-              }
-            : t
-        );
-      } else {
-        newTracking = [...prev, {
-          taskId,
-          taskText,
-          totalMinutes: duration,
-          sessionsCount: 1,
-          lastSession: new Date()
-        }];
+  const updateTaskTimeTracking = async (taskId: string, taskText: string, start: Date, duration: number) => {
+    const [entries, tasks] = await Promise.all([getTimeEntries(), loadTasksFromDB()]);
+    const previousMinutes = (getTaskTimeTotals(entries).get(taskId)?.seconds ?? 0) / 60;
+    const newTotalMinutes = Math.round(previousMinutes + duration);
+    const goalMinutes = tasks.find(t => t.id === taskId)?.estimatedMinutes;
+
+    // Check for milestone notifications
+    if (goalMinutes) {
+      const oldProgress = (previousMinutes / goalMinutes) * 100;
+      const newProgress = (newTotalMinutes / goalMinutes) * 100;
+
+      // 80% milestone
+      if (oldProgress < 80 && newProgress >= 80 && newProgress < 100) {
+        toast.success(`🎯 Almost there! ${taskText} is 80% complete!`, {
+          duration: 5000,
+          description: `${formatDuration(newTotalMinutes)} of ${formatDuration(goalMinutes)} goal reached`
+        });
+        try { Haptics.impact({ style: ImpactStyle.Heavy }); } catch {}
       }
-      
-      return newTracking;
-    });
+
+      // 100% milestone
+      if (oldProgress < 100 && newProgress >= 100) {
+        toast.success(`🎉 Goal Complete! ${taskText}`, {
+          duration: 8000,
+          description: `You've reached your ${formatDuration(goalMinutes)} goal! Congratulations!`
+        });
+        try { Haptics.impact({ style: ImpactStyle.Heavy }); } catch {}
+      }
+    }
+
+    await addTimeEntry({ taskId, taskText, start, end: new Date(), seconds: duration * 60, source: 'pomodoro' });
   };
 
   const handleSessionComplete = async () => {
@@ -267,7 +244,7 @@ export const PomodoroTimer = ({ isOpen, onClose }: PomodoroTimerProps) => {
 
       // Update task time tracking if linked
       if (linkedTask && sessionType === 'work') {
-        updateTaskTimeTracking(linkedTask.id, linkedTask.text, getDuration(sessionType));
+        updateTaskTimeTracking(linkedTask.id, linkedTask.text, sessionStartRef.current, getDuration(sessionType));
       }
     }
 
@@ -354,19 +331,18 @@ export const PomodoroTimer = ({ isOpen, onClose }: PomodoroTimerProps) => {
     toast.info('Task unlinked');
   };
 
-  const handleSetGoal = (taskId: string, goalMinutes: number) => {
-    setTaskTimeTracking(prev => prev.map(t =>
-      t.taskId === taskId ? { ...t, goalMinutes } : t
-    ));
+  // A time goal is the task's estimate, so it shows up in estimate vs. actual reports
+  const handleSetGoal = async (taskId: string, goalMinutes: number) => {
+    await updateTaskInDB(taskId, { estimatedMinutes: goalMinutes });
+    window.dispatchEvent(new Event('tasksUpdated'));
     setShowGoalSetter(false);
     setSelectedTaskForGoal(null);
     toast.success(`Goal set: ${formatDuration(goalMinutes)}`);
   };
 
-  const handleRemoveGoal = (taskId: string) => {
-    setTaskTimeTracking(prev => prev.map(t =>
-      t.taskId === taskId ? { ...t, goalMinutes: undefined } : t
-    ));
+  const handleRemoveGoal = async (taskId: string) => {
+    await updateTaskInDB(taskId, { estimatedMinutes: undefined });
+    window.dispatchEvent(new Event('tasksUpdated'));
     toast.info('Goal removed');
   };
 
@@ -381,6 +357,21 @@ export const PomodoroTimer = ({ isOpen, onClose }: PomodoroTimerProps) => {
     return Math.min((tracking.totalMinutes / tracking.goalMinutes) * 100, 100);
   };
 
+  const tasksById = new Map(allTasks.map(task => [task.id, task]));
+  const taskTimeTracking: TaskTimeTracking[] = [...getTaskTimeTotals(timeEntries)].map(([taskId, total]) => {
+    const taskEntries = timeEntries.filter(entry => entry.taskId === taskId);
+    const lastEntry = taskEntries.reduce((last, entry) => (entry.end > last.end ? entry : last));
+    const task = tasksById.get(taskId);
+    return {
+      taskId,
+      taskText: task?.text ?? lastEntry.taskText,
+      totalMinutes: Math.round(total.seconds / 60),
+      sessionsCount: total.entries,
+      lastSession: lastEntry.end,
+      goalMinutes: task?.estimatedMinutes,
+    };
+  });
+
   const progress = ((getDuration(sessionType) * 60 - timeRemaining) / (getDuration(sessionType) * 60)) * 100;
 
   const todayWorkSessions = todaySessions.filter(s => s.type === 'work' && s.completed).length;
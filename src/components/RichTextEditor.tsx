@@ -32,7 +32,61 @@ import { cn } from '@/lib/utils';
 import { sanitizeHtml } from '@/lib/sanitize';
 import { TableEditor, generateTableHTML, TableContextMenu, TableStyle } from './TableEditor';
 import { WordToolbar } from './WordToolbar';
+import { SlashCommandMenu } from './SlashCommandMenu';
+import { TaskEmbedPicker } from './TaskEmbedPicker';
+import { useToolbarOrder } from './ToolbarOrderManager';
 import { getSetting, setSetting } from '@/utils/settingsStorage';
+import {
+  DocPosition,
+  DocumentDom,
+  DomPoint,
+  SerializedDocument,
+  formattingAt,
+  parseHtml,
+  readDocumentDom,
+  rereadDocumentDom,
+  reserializeDocument,
+  serializeDocumentParts,
+} from '@/utils/noteDocument';
+import {
+  Command,
+  EditHistory,
+  EditorState,
+  chainCommands,
+  changeListDepth,
+  clearMarks,
+  createHistory,
+  cursorAt,
+  deleteText,
+  insertBlocks,
+  insertText,
+  recordEdit,
+  redoEdit,
+  replacePresent,
+  setAlign,
+  setBlockType,
+  setMark,
+  toggleBlockType,
+  toggleList,
+  toggleMark,
+  transformText,
+  undoEdit,
+} from '@/utils/noteTransactions';
+import {
+  SLASH_COMMANDS_UPDATED_EVENT,
+  SlashCommand,
+  SlashCommandContext,
+  SlashCommandPreferences,
+  findSlashQuery,
+  getSlashCommandPreferences,
+  getSlashCommands,
+  rankSlashCommands,
+  recordSlashCommandUse,
+  toggleSlashCommandFavorite,
+} from '@/utils/slashCommands';
+import { TASK_EMBED_CLASS, refreshTaskEmbeds, setEmbeddedTaskCompleted, taskEmbedCheckTarget } from '@/utils/taskEmbeds';
+import { loadTodoItems } from '@/utils/todoItemsStorage';
+import { TodoItem } from '@/types/note';
 
 // Favorites storage helpers
 const FAVORITES_KEY = 'note-font-favorites';
@@ -43,6 +97,24 @@ const saveFavorites = (favorites: string[]) => {
   setSetting(FAVORITES_KEY, favorites);
 };
 
+interface SlashMenuState {
+  from: DocPosition;
+  query: string;
+  anchor: { left: number; top: number; bottom: number };
+}
+
+// Add the top-level elements of `root` that `records` changed to `tops`; null once a change reaches `root` itself
+const addChangedTops = (root: Node, records: MutationRecord[], tops: Set<Node> | null): Set<Node> | null => {
+  if (!tops) return null;
+  for (const record of records) {
+    let node: Node | null = record.target;
+    while (node && node.parentNode !== root) node = node.parentNode;
+    if (!node) return null;
+    tops.add(node);
+  }
+  return tops;
+};
+
 interface RichTextEditorProps {
   content: string;
   onChange: (content: string) => void;
@@ -67,6 +139,9 @@ interface RichTextEditorProps {
   lineHeight?: string;
   onLineHeightChange?: (lineHeight: string) => void;
   onInsertNoteLink?: () => void;
+  onRecordVoice?: () => void;
+  // Called with the id of the note a note link points to when it is clicked
+  onOpenNoteLink?: (noteId: string) => void;
   externalEditorRef?: React.RefObject<HTMLDivElement>;
 }
 
@@ -348,6 +423,8 @@ export const RichTextEditor = ({
   lineHeight = LINE_HEIGHTS[1].value,
   onLineHeightChange,
   onInsertNoteLink,
+  onRecordVoice,
+  onOpenNoteLink,
   externalEditorRef,
 }: RichTextEditorProps) => {
   const { t } = useTranslation();
@@ -358,13 +435,34 @@ export const RichTextEditor = ({
   const fileInputRef = useRef<HTMLInputElement>(null);
   const attachmentInputRef = useRef<HTMLInputElement>(null);
   const savedRangeRef = useRef<Range | null>(null);
-  const [history, setHistory] = useState<string[]>([content]);
-  const [historyIndex, setHistoryIndex] = useState(0);
+  // Last selection inside the editor, kept while toolbar popovers have focus
+  const lastRangeRef = useRef<Range | null>(null);
+  const [history, setHistory] = useState<EditHistory>(() =>
+    createHistory({ doc: parseHtml(content), selection: cursorAt(0, 0) })
+  );
   const [fontPickerOpen, setFontPickerOpen] = useState(false);
   const [fontSizePickerOpen, setFontSizePickerOpen] = useState(false);
   const [favoriteFonts, setFavoriteFonts] = useState<string[]>([]);
   const [zoom, setZoom] = useState(100);
   const [textDirection, setTextDirection] = useState<'ltr' | 'rtl'>('ltr');
+
+  // "/" command menu: where the slash is, what was typed after it, and the caret it opened at
+  const [slashMenu, setSlashMenu] = useState<SlashMenuState | null>(null);
+  const slashMenuRef = useRef<SlashMenuState | null>(null);
+  const [slashIndex, setSlashIndex] = useState(0);
+  const [slashCommands, setSlashCommands] = useState<SlashCommand[]>(getSlashCommands);
+  const [slashPreferences, setSlashPreferences] = useState<SlashCommandPreferences>({ favorites: [], recent: [] });
+  const { order: toolbarOrder } = useToolbarOrder();
+  // Task picker opened by the "/" menu, and the command waiting for its answer
+  const [taskPickerOpen, setTaskPickerOpen] = useState(false);
+  const taskPickResolveRef = useRef<((task: TodoItem | null) => void) | null>(null);
+
+  useEffect(() => {
+    getSlashCommandPreferences().then(setSlashPreferences);
+    const handleCommandsUpdated = () => setSlashCommands(getSlashCommands());
+    window.addEventListener(SLASH_COMMANDS_UPDATED_EVENT, handleCommandsUpdated);
+    return () => window.removeEventListener(SLASH_COMMANDS_UPDATED_EVENT, handleCommandsUpdated);
+  }, []);
   
   // Table context menu state
   const [tableContextMenu, setTableContextMenu] = useState<{
@@ -389,25 +487,24 @@ export const RichTextEditor = ({
 
   // Update active states based on current selection
   const updateActiveStates = useCallback(() => {
-    try {
-      const isBold = document.queryCommandState('bold');
-      const isItalic = document.queryCommandState('italic');
-      const isUnderline = document.queryCommandState('underline');
-      const isStrikethrough = document.queryCommandState('strikeThrough');
-      const isSubscript = document.queryCommandState('subscript');
-      const isSuperscript = document.queryCommandState('superscript');
-      const isBulletList = document.queryCommandState('insertUnorderedList');
-      const isNumberedList = document.queryCommandState('insertOrderedList');
-      
-      let alignment: 'left' | 'center' | 'right' | 'justify' = 'left';
-      if (document.queryCommandState('justifyCenter')) alignment = 'center';
-      else if (document.queryCommandState('justifyRight')) alignment = 'right';
-      else if (document.queryCommandState('justifyFull')) alignment = 'justify';
-      
-      setActiveStates({ isBold, isItalic, isUnderline, isStrikethrough, isSubscript, isSuperscript, alignment, isBulletList, isNumberedList });
-    } catch (e) {
-      // queryCommandState may fail in some contexts
-    }
+    const root = editorRef.current;
+    const selection = window.getSelection();
+    if (!root || !selection || selection.rangeCount === 0 || !selection.anchorNode) return;
+    if (!root.contains(selection.anchorNode)) return;
+    lastRangeRef.current = selection.getRangeAt(0).cloneRange();
+
+    const { marks, list, align } = formattingAt(root, selection.anchorNode);
+    setActiveStates({
+      isBold: marks.includes('bold'),
+      isItalic: marks.includes('italic'),
+      isUnderline: marks.includes('underline'),
+      isStrikethrough: marks.includes('strike'),
+      isSubscript: marks.includes('subscript'),
+      isSuperscript: marks.includes('superscript'),
+      alignment: align,
+      isBulletList: list === 'bullet',
+      isNumberedList: list === 'ordered',
+    });
   }, []);
 
   // Listen to selection changes to update formatting states
@@ -416,6 +513,8 @@ export const RichTextEditor = ({
       if (editorRef.current?.contains(document.activeElement) || 
           document.activeElement === editorRef.current) {
         updateActiveStates();
+        // Moving the cursor away from the "/" closes its menu
+        if (slashMenuRef.current) refreshSlashMenuRef.current?.();
       }
     };
     
@@ -439,103 +538,284 @@ export const RichTextEditor = ({
   // Track if the last change came from user input to avoid unnecessary innerHTML updates
   const isUserInputRef = useRef(false);
 
-  const execCommand = useCallback((command: string, value?: string) => {
+  // The ends of the selection in the editor, or of the last one while focus is elsewhere
+  const selectionPoints = (root: HTMLElement): DomPoint[] => {
+    const selection = window.getSelection();
+    let range = selection && selection.rangeCount > 0 ? selection.getRangeAt(0) : null;
+    if (!range || !root.contains(range.commonAncestorContainer)) range = lastRangeRef.current;
+    return range && root.contains(range.commonAncestorContainer)
+      ? [
+          { node: range.startContainer, offset: range.startOffset },
+          { node: range.endContainer, offset: range.endOffset },
+        ]
+      : [];
+  };
+
+  const toEditorState = ({ doc, positions }: DocumentDom): EditorState => {
+    const [anchor = { block: 0, offset: 0 }, head = anchor] = positions;
+    return { doc, selection: { anchor, head } };
+  };
+
+  // Read the document and selection currently shown in the editor
+  const readEditorState = (): EditorState | null => {
+    const root = editorRef.current;
+    if (!root) return null;
+    return toEditorState(readDocumentDom(root, selectionPoints(root)));
+  };
+
+  // The last read of the editor that was saved, with its HTML, and the top-level elements changed since
+  const lastReadRef = useRef<{ dom: DocumentDom; serialized: SerializedDocument } | null>(null);
+  const changedTopsRef = useRef<Set<Node> | null>(null);
+  const observerRef = useRef<MutationObserver | null>(null);
+
+  useEffect(() => {
+    const root = editorRef.current;
+    if (!root) return;
+    const observer = new MutationObserver(records => {
+      changedTopsRef.current = addChangedTops(root, records, changedTopsRef.current);
+    });
+    observer.observe(root, { childList: true, subtree: true, characterData: true, attributes: true });
+    observerRef.current = observer;
+    return () => observer.disconnect();
+  }, [editorRef]);
+
+  // Forget the edits seen so far; the next read starts from what the editor shows now
+  const takeChangedTops = (): Node[] | null => {
+    const root = editorRef.current;
+    const records = observerRef.current?.takeRecords() ?? [];
+    const tops = root ? addChangedTops(root, records, changedTopsRef.current) : null;
+    changedTopsRef.current = new Set();
+    return tops && Array.from(tops);
+  };
+
+  /**
+   * Read the editor for saving. Only the top-level elements changed since
+   * the last saved read are read and serialized again, so typing in a long
+   * note does not re-render all of it on every keystroke.
+   */
+  const readEditorForSave = (): { state: EditorState; html: string } | null => {
+    const root = editorRef.current;
+    if (!root) return null;
+    const points = selectionPoints(root);
+    const last = lastReadRef.current;
+    const changed = takeChangedTops();
+    const dom = (last && changed && rereadDocumentDom(root, last.dom, changed, points)) || readDocumentDom(root, points);
+    const serialized = last && dom.changed
+      ? reserializeDocument(last.serialized, dom.doc, dom.changed)
+      : serializeDocumentParts(dom.doc);
+    lastReadRef.current = { dom, serialized };
+    return { state: toEditorState(dom), html: serialized.html };
+  };
+
+  // Show a state in the editor, restore its selection and save its HTML
+  const renderEditorState = (state: EditorState) => {
+    const root = editorRef.current;
+    if (!root) return;
+    const serialized = serializeDocumentParts(state.doc);
+    const html = serialized.html;
+    root.innerHTML = sanitizeHtml(html);
+    lastContentRef.current = root.innerHTML;
+
+    const shown = readDocumentDom(root);
+    const { locate } = shown;
+    takeChangedTops();
+    lastReadRef.current = { dom: shown, serialized };
+    const anchor = locate(state.selection.anchor);
+    const head = locate(state.selection.head);
+    const selection = window.getSelection();
+    root.focus();
+    if (selection) {
+      try {
+        selection.setBaseAndExtent(anchor.node, anchor.offset, head.node, head.offset);
+        lastRangeRef.current = selection.rangeCount > 0 ? selection.getRangeAt(0).cloneRange() : null;
+      } catch (error) {
+        // The position no longer exists in the DOM; leave the cursor where the browser put it
+      }
+    }
+
+    if (html !== content) {
+      isUserInputRef.current = true;
+      onChange(html);
+    }
+    setTimeout(() => {
+      reattachImageListeners();
+      reattachTableListeners();
+      refreshEmbeddedTasks();
+    }, 0);
+  };
+
+  // Run a document command on the editor as one undoable edit
+  const applyCommand = (command: Command) => {
     try {
-      editorRef.current?.focus();
-      document.execCommand(command, false, value);
-      editorRef.current?.focus();
+      const state = readEditorState();
+      if (!state) return;
+      const next = command(state);
+      if (next === state) return;
+      renderEditorState(next);
+      setHistory(prev => recordEdit(replacePresent(prev, state), next, 'command'));
     } catch (error) {
-      console.error('Error executing command:', command, error);
+      console.error('Error applying edit:', error);
     }
-  }, []);
+  };
+
+  const showSlashMenu = (menu: SlashMenuState | null) => {
+    slashMenuRef.current = menu;
+    setSlashMenu(menu);
+  };
 
-  const handleBold = () => execCommand('bold');
-  const handleItalic = () => execCommand('italic');
-  const handleUnderline = () => execCommand('underline');
-  const handleStrikethrough = () => execCommand('strikeThrough');
-  const handleSubscript = () => execCommand('subscript');
-  const handleSuperscript = () => execCommand('superscript');
-  const handleClearFormatting = () => execCommand('removeFormat');
-  const handleCodeBlock = () => {
+  // Screen position of the cursor; collapsed ranges at the start of a line can report an empty rectangle
+  const caretRect = (): SlashMenuState['anchor'] => {
     const selection = window.getSelection();
-    if (!selection || selection.rangeCount === 0) return;
-    const range = selection.getRangeAt(0);
-    const selectedText = range.toString();
-    if (selectedText) {
-      const code = document.createElement('code');
-      code.style.backgroundColor = 'hsl(var(--muted))';
-      code.style.padding = '2px 6px';
-      code.style.borderRadius = '4px';
-      code.style.fontFamily = 'monospace';
-      code.textContent = selectedText;
-      range.deleteContents();
-      range.insertNode(code);
+    const range = selection && selection.rangeCount > 0 ? selection.getRangeAt(0) : null;
+    let rect = range?.getBoundingClientRect();
+    if (range && (!rect || (rect.top === 0 && rect.bottom === 0))) {
+      const node = range.startContainer;
+      rect = (node instanceof Element ? node : node.parentElement)?.getBoundingClientRect();
     }
+    return { left: rect?.left ?? 0, top: rect?.top ?? 0, bottom: rect?.bottom ?? 0 };
   };
-  const handleHorizontalRule = () => execCommand('insertHorizontalRule');
-  const handleBlockquote = () => {
-    const selection = window.getSelection();
-    if (!selection || selection.rangeCount === 0) return;
-    const range = selection.getRangeAt(0);
-    const selectedText = range.toString() || 'Quote text here...';
-    const blockquote = document.createElement('blockquote');
-    blockquote.style.borderLeft = '4px solid hsl(var(--primary))';
-    blockquote.style.paddingLeft = '16px';
-    blockquote.style.marginLeft = '0';
-    blockquote.style.marginTop = '8px';
-    blockquote.style.marginBottom = '8px';
-    blockquote.style.fontStyle = 'italic';
-    blockquote.style.color = 'hsl(var(--muted-foreground))';
-    blockquote.textContent = selectedText;
-    range.deleteContents();
-    range.insertNode(blockquote);
+
+  // Open, narrow or close the "/" menu for the text before the cursor
+  const updateSlashMenu = (state: EditorState, canOpen: boolean) => {
+    const open = slashMenuRef.current;
+    const match = (open && findSlashQuery(state, open.from)) || (canOpen ? findSlashQuery(state) : null);
+    if (!match) {
+      if (open) showSlashMenu(null);
+    } else if (open && match.from === open.from) {
+      if (match.query !== open.query) {
+        showSlashMenu({ ...open, query: match.query });
+        setSlashIndex(0);
+      }
+    } else {
+      showSlashMenu({ ...match, anchor: caretRect() });
+      setSlashIndex(0);
+    }
   };
-  const handleBulletList = () => execCommand('insertUnorderedList');
-  const handleNumberedList = () => execCommand('insertOrderedList');
 
-  const handleFontSize = (size: string) => {
-    // Use fontSize command - convert to 1-7 scale or use CSS
-    const selection = window.getSelection();
-    if (!selection || selection.rangeCount === 0) return;
-    
-    const range = selection.getRangeAt(0);
-    if (range.collapsed) {
-      // No selection - apply to future text
-      execCommand('fontSize', '3'); // Placeholder, we'll wrap in span
+  const refreshSlashMenuRef = useRef<() => void>();
+  refreshSlashMenuRef.current = () => {
+    const state = readEditorState();
+    if (state) updateSlashMenu(state, false);
+  };
+
+  // Show embedded tasks as they are now; the note saves the new snapshot with its next edit
+  const refreshEmbeddedTasks = useCallback(async () => {
+    const root = editorRef.current;
+    if (!root?.querySelector(`.${TASK_EMBED_CLASS}`)) return;
+    if (refreshTaskEmbeds(root, await loadTodoItems())) lastContentRef.current = root.innerHTML;
+  }, [editorRef]);
+
+  const pickTask = () => new Promise<TodoItem | null>(resolve => {
+    taskPickResolveRef.current = resolve;
+    setTaskPickerOpen(true);
+  });
+
+  const closeTaskPicker = (task: TodoItem | null) => {
+    setTaskPickerOpen(false);
+    taskPickResolveRef.current?.(task);
+    taskPickResolveRef.current = null;
+  };
+
+  // Checking an embedded task completes the real one
+  const handleEditorClick = (e: React.MouseEvent) => {
+    const noteLink = e.target instanceof Element ? e.target.closest('a.note-link') : null;
+    const noteId = noteLink?.getAttribute('data-note-id');
+    if (noteId && onOpenNoteLink) {
+      e.preventDefault();
+      onOpenNoteLink(noteId);
       return;
     }
-    
-    // Wrap selection in span with font-size
-    const span = document.createElement('span');
-    span.style.fontSize = `${size}px`;
-    
-    try {
-      const contents = range.extractContents();
-      span.appendChild(contents);
-      range.insertNode(span);
-      
-      // Restore selection
-      selection.removeAllRanges();
-      const newRange = document.createRange();
-      newRange.selectNodeContents(span);
-      selection.addRange(newRange);
-      
-      // Trigger change
-      if (editorRef.current) {
-        const event = new Event('input', { bubbles: true });
-        editorRef.current.dispatchEvent(event);
-      }
-    } catch (e) {
-      console.error('Error applying font size:', e);
-    }
+    const check = taskEmbedCheckTarget(e.target);
+    if (!check) return;
+    e.preventDefault();
+    setEmbeddedTaskCompleted(check.taskId, !check.completed);
+  };
+
+  // What slash commands can use besides document edits, as far as this editor allows them
+  const slashActions: Omit<SlashCommandContext, 'apply'> = {
+    uploadImage: allowImages ? () => fileInputRef.current?.click() : undefined,
+    attachFile: () => attachmentInputRef.current?.click(),
+    insertTable: showTable ? (rows, cols) => handleInsertTable(rows, cols, 'default') : undefined,
+    insertNoteLink: onInsertNoteLink,
+    recordVoice: onRecordVoice,
+    pickTask,
+  };
+
+  const slashItems = slashMenu
+    ? rankSlashCommands(
+        slashCommands.filter(command => !command.isAvailable || command.isAvailable({ ...slashActions, apply: applyCommand })),
+        slashMenu.query,
+        { order: toolbarOrder, preferences: slashPreferences, label: command => t(command.title) }
+      )
+    : [];
+
+  // Remove the typed "/query" and run the command; its document edits join the same undo step
+  const runSlashCommand = (command: SlashCommand) => {
+    const menu = slashMenuRef.current;
+    const state = readEditorState();
+    showSlashMenu(null);
+    if (!menu || !state) return;
+
+    const removeQuery = deleteText(menu.from, state.selection.head);
+    let removed = false;
+    const removeTyped = () => {
+      if (removed) return;
+      removed = true;
+      applyCommand(removeQuery);
+    };
+    const afterRemoving = <A extends unknown[]>(action?: (...args: A) => void) =>
+      action && ((...args: A) => {
+        removeTyped();
+        action(...args);
+      });
+
+    command.run({
+      apply: edit => {
+        if (removed) {
+          applyCommand(edit);
+        } else {
+          removed = true;
+          applyCommand(chainCommands(removeQuery, edit));
+        }
+      },
+      uploadImage: afterRemoving(slashActions.uploadImage),
+      attachFile: afterRemoving(slashActions.attachFile),
+      insertTable: afterRemoving(slashActions.insertTable),
+      insertNoteLink: afterRemoving(slashActions.insertNoteLink),
+      recordVoice: afterRemoving(slashActions.recordVoice),
+      pickTask: slashActions.pickTask,
+    });
+    removeTyped();
+    recordSlashCommandUse(command.id).then(recent => setSlashPreferences(prev => ({ ...prev, recent })));
+  };
+
+  const handleToggleSlashFavorite = (id: string) => {
+    toggleSlashCommandFavorite(id).then(favorites => setSlashPreferences(prev => ({ ...prev, favorites })));
+  };
+
+  const handleBold = () => applyCommand(toggleMark('bold'));
+  const handleItalic = () => applyCommand(toggleMark('italic'));
+  const handleUnderline = () => applyCommand(toggleMark('underline'));
+  const handleStrikethrough = () => applyCommand(toggleMark('strike'));
+  const handleSubscript = () => applyCommand(toggleMark('subscript'));
+  const handleSuperscript = () => applyCommand(toggleMark('superscript'));
+  const handleClearFormatting = () => applyCommand(clearMarks);
+  const handleCodeBlock = () => applyCommand(toggleMark('code'));
+  const handleHorizontalRule = () => applyCommand(insertBlocks([{ type: 'rule', content: [] }]));
+  const handleBlockquote = () => applyCommand(toggleBlockType({ type: 'blockquote' }));
+  const handleBulletList = () => applyCommand(toggleList('bullet'));
+  const handleNumberedList = () => applyCommand(toggleList('ordered'));
+
+  const handleFontSize = (size: string) => {
+    applyCommand(setMark('fontSize', `${size}px`));
   };
 
   const handleTextColor = (color: string) => {
-    execCommand('foreColor', color);
+    applyCommand(setMark('color', color));
   };
 
   const handleHighlight = (color: string) => {
-    execCommand('hiliteColor', color);
+    applyCommand(setMark('highlight', color === 'transparent' ? null : color));
   };
 
   const handleLink = () => {
@@ -554,7 +834,7 @@ export const RichTextEditor = ({
         toast.error('Please select text first');
         return;
       }
-      execCommand('createLink', linkUrl);
+      applyCommand(setMark('link', linkUrl));
       setLinkUrl('');
       setShowLinkInput(false);
       toast.success('Link inserted');
@@ -934,42 +1214,52 @@ export const RichTextEditor = ({
   // Debounced onChange for large content
   const debouncedOnChangeRef = useRef<NodeJS.Timeout | null>(null);
   const lastContentRef = useRef<string>('');
-  
-  const handleInput = () => {
-    try {
-      if (editorRef.current) {
+  const contentRef = useRef(content);
+  contentRef.current = content;
+
+  // Save what the user typed as a document and add it to the undo history
+  const recordInput = (pasted: boolean) => {
+    const read = readEditorForSave();
+    if (!read) return;
+    const { state, html } = read;
+    updateSlashMenu(state, !pasted);
+    if (pasted) {
+      // Pasted or dropped markup is replaced by its canonical form straight away
+      renderEditorState(state);
+    } else {
+      if (html !== contentRef.current) {
         // Mark that this change came from user input
         isUserInputRef.current = true;
+        onChange(html);
+      }
+    }
+    // Not during composition, to avoid flooding the history
+    if (!isComposingRef.current) {
+      setHistory(prev => recordEdit(prev, state, 'typing'));
+    }
+  };
+
+  const handleInput = (event?: React.FormEvent<HTMLDivElement>) => {
+    try {
+      if (editorRef.current) {
         const newContent = editorRef.current.innerHTML;
         
         // Skip if content hasn't changed (prevents unnecessary updates)
         if (newContent === lastContentRef.current) return;
         lastContentRef.current = newContent;
+
+        const inputType = (event?.nativeEvent as InputEvent | undefined)?.inputType;
+        const pasted = inputType === 'insertFromPaste' || inputType === 'insertFromDrop';
         
-        // For large content (>50KB), debounce the onChange call
-        const isLargeContent = newContent.length > 50000;
-        
-        if (isLargeContent) {
+        // For large content (>50KB), debounce reading the document
+        if (newContent.length > 50000 && !pasted) {
           // Debounce for large content to prevent UI freeze
           if (debouncedOnChangeRef.current) {
             clearTimeout(debouncedOnChangeRef.current);
           }
-          debouncedOnChangeRef.current = setTimeout(() => {
-            onChange(newContent);
-          }, 300);
+          debouncedOnChangeRef.current = setTimeout(() => recordInput(false), 300);
         } else {
-          // Immediate update for small content
-          onChange(newContent);
-        }
-
-        // Add to history (but not during composition to avoid flooding)
-        // Also limit history size for large content
-        if (!isComposingRef.current) {
-          const maxHistorySize = isLargeContent ? 10 : 50;
-          const newHistory = history.slice(Math.max(0, history.length - maxHistorySize), historyIndex + 1);
-          newHistory.push(newContent);
-          setHistory(newHistory);
-          setHistoryIndex(newHistory.length - 1);
+          recordInput(pasted);
         }
       }
     } catch (error) {
@@ -977,25 +1267,51 @@ export const RichTextEditor = ({
     }
   };
 
-  // Handle keydown for auto-capitalization
-  const handleKeyDown = useCallback((e: React.KeyboardEvent) => {
-    // Auto-capitalize after sentence-ending punctuation followed by space
-    if (e.key === ' ' && editorRef.current) {
-      const selection = window.getSelection();
-      if (selection && selection.rangeCount > 0) {
-        const range = selection.getRangeAt(0);
-        const textNode = range.startContainer;
-        if (textNode.nodeType === Node.TEXT_NODE) {
-          const text = textNode.textContent || '';
-          const cursorPos = range.startOffset;
-          // Check if previous char is sentence-ending punctuation
-          if (cursorPos > 0 && /[.!?]/.test(text[cursorPos - 1])) {
-            // The next character typed should be capitalized - handled by browser autocapitalize
-          }
-        }
+  // Arrow keys, Enter/Tab and Escape while the "/" menu is open; true when the key was used
+  const handleSlashMenuKey = (e: React.KeyboardEvent): boolean => {
+    if (e.key === 'Escape') {
+      e.preventDefault();
+      showSlashMenu(null);
+      return true;
+    }
+    if (slashItems.length === 0) return false;
+    if (e.key === 'ArrowDown' || e.key === 'ArrowUp') {
+      e.preventDefault();
+      const step = e.key === 'ArrowDown' ? 1 : -1;
+      setSlashIndex(index => (index + step + slashItems.length) % slashItems.length);
+      return true;
+    }
+    if (e.key === 'Enter' || e.key === 'Tab') {
+      e.preventDefault();
+      runSlashCommand(slashItems[Math.min(slashIndex, slashItems.length - 1)].command);
+      return true;
+    }
+    return false;
+  };
+
+  // Formatting shortcuts, list indenting, and undo/redo through the document history
+  const handleKeyDown = (e: React.KeyboardEvent) => {
+    const modifier = e.ctrlKey || e.metaKey;
+    const key = e.key.toLowerCase();
+    if (slashMenu && handleSlashMenuKey(e)) return;
+    if (modifier && key === 'z') {
+      e.preventDefault();
+      if (e.shiftKey) handleRedo();
+      else handleUndo();
+    } else if (modifier && key === 'y') {
+      e.preventDefault();
+      handleRedo();
+    } else if (modifier && (key === 'b' || key === 'i' || key === 'u')) {
+      e.preventDefault();
+      applyCommand(toggleMark(key === 'b' ? 'bold' : key === 'i' ? 'italic' : 'underline'));
+    } else if (e.key === 'Tab' && editorRef.current) {
+      const node = window.getSelection()?.anchorNode;
+      if (node && formattingAt(editorRef.current, node).list) {
+        e.preventDefault();
+        applyCommand(changeListDepth(e.shiftKey ? -1 : 1));
       }
     }
-  }, []);
+  };
 
   // Handle composition events for Android/IME input
   const handleCompositionStart = () => {
@@ -1009,27 +1325,17 @@ export const RichTextEditor = ({
   };
 
   const handleUndo = () => {
-    if (historyIndex > 0) {
-      const newIndex = historyIndex - 1;
-      setHistoryIndex(newIndex);
-      const previousContent = history[newIndex];
-      if (editorRef.current) {
-        editorRef.current.innerHTML = sanitizeHtml(previousContent);
-        onChange(previousContent);
-      }
-    }
+    const previous = undoEdit(history);
+    if (!previous) return;
+    setHistory(previous);
+    renderEditorState(previous.present);
   };
 
   const handleRedo = () => {
-    if (historyIndex < history.length - 1) {
-      const newIndex = historyIndex + 1;
-      setHistoryIndex(newIndex);
-      const nextContent = history[newIndex];
-      if (editorRef.current) {
-        editorRef.current.innerHTML = sanitizeHtml(nextContent);
-        onChange(nextContent);
-      }
-    }
+    const next = redoEdit(history);
+    if (!next) return;
+    setHistory(next);
+    renderEditorState(next.present);
   };
 
   const handleTextCase = (caseType: 'upper' | 'lower') => {
@@ -1045,40 +1351,21 @@ export const RichTextEditor = ({
       return;
     }
 
-    const convertedText = caseType === 'upper'
-      ? selectedText.toUpperCase()
-      : selectedText.toLowerCase();
-
-    document.execCommand('insertText', false, convertedText);
+    applyCommand(transformText(text => (caseType === 'upper' ? text.toUpperCase() : text.toLowerCase())));
     toast.success(`Text converted to ${caseType === 'upper' ? 'uppercase' : 'lowercase'}`);
   };
 
   const handleAlignment = (alignment: 'left' | 'center' | 'right' | 'justify') => {
-    const commands = {
-      left: 'justifyLeft',
-      center: 'justifyCenter',
-      right: 'justifyRight',
-      justify: 'justifyFull',
-    };
-    execCommand(commands[alignment]);
+    applyCommand(setAlign(alignment));
   };
 
   const handleInsertTable = (rows: number, cols: number, style?: TableStyle) => {
     if (editorRef.current) {
-      editorRef.current.focus();
-      
-      // Create resizable table wrapper
+      // Create resizable table wrapper; a paragraph for the cursor follows it
       const tableHTML = generateTableHTML(rows, cols, style);
-      const wrapperHTML = `<div class="resizable-table-wrapper" data-table-width="100" contenteditable="false" style="width: 100%; margin: 16px 0; position: relative;">${tableHTML}</div><p><br></p>`;
-      
-      document.execCommand('insertHTML', false, wrapperHTML);
-      
-      // Re-attach table resize listeners
-      setTimeout(() => {
-        reattachTableListeners();
-      }, 50);
-      
-      handleInput();
+      const wrapperHTML = `<div class="resizable-table-wrapper" data-table-width="100" contenteditable="false" style="width: 100%; margin: 16px 0; position: relative;">${tableHTML}</div>`;
+
+      applyCommand(insertBlocks([{ type: 'embed', html: wrapperHTML, content: [] }]));
       toast.success('Table inserted - click to resize');
     }
   };
@@ -1460,14 +1747,23 @@ export const RichTextEditor = ({
       const isFocused = document.activeElement === editorRef.current;
       if (!isFocused) {
         editorRef.current.innerHTML = sanitizeHtml(content);
+        // A different note (or a restored version) starts a fresh undo history
+        setHistory(createHistory({ doc: readDocumentDom(editorRef.current).doc, selection: cursorAt(0, 0) }));
         // Re-attach image and table listeners after content is loaded
         setTimeout(() => {
           reattachImageListeners();
           reattachTableListeners();
+          refreshEmbeddedTasks();
         }, 0);
       }
     }
-  }, [content, reattachImageListeners, reattachTableListeners]);
+  }, [content, reattachImageListeners, reattachTableListeners, refreshEmbeddedTasks]);
+
+  // Tasks changed elsewhere (the task list, a sync) show up in their embeds
+  useEffect(() => {
+    window.addEventListener('tasksUpdated', refreshEmbeddedTasks);
+    return () => window.removeEventListener('tasksUpdated', refreshEmbeddedTasks);
+  }, [refreshEmbeddedTasks]);
 
   // Initial mount - reattach image and table listeners
   useEffect(() => {
@@ -1475,6 +1771,7 @@ export const RichTextEditor = ({
       setTimeout(() => {
         reattachImageListeners();
         reattachTableListeners();
+        refreshEmbeddedTasks();
       }, 100);
     }
   }, []);
@@ -1541,9 +1838,9 @@ export const RichTextEditor = ({
 
   const handleHeading = (level: 1 | 2 | 3 | 'p') => {
     if (level === 'p') {
-      execCommand('formatBlock', 'p');
+      applyCommand(setBlockType({ type: 'paragraph' }));
     } else {
-      execCommand('formatBlock', `h${level}`);
+      applyCommand(toggleBlockType({ type: 'heading', level }));
     }
   };
 
@@ -1563,12 +1860,38 @@ export const RichTextEditor = ({
     setShowLinkInput(true);
   };
 
+  // Undo and formatting asked for by the platform (context menus, keyboard bars) use the document too
+  const beforeInputRef = useRef<(e: InputEvent) => void>();
+  beforeInputRef.current = (e: InputEvent) => {
+    const actions: Record<string, () => void> = {
+      historyUndo: handleUndo,
+      historyRedo: handleRedo,
+      formatBold: handleBold,
+      formatItalic: handleItalic,
+      formatUnderline: handleUnderline,
+      formatStrikeThrough: handleStrikethrough,
+    };
+    const action = actions[e.inputType];
+    if (action) {
+      e.preventDefault();
+      action();
+    }
+  };
+
+  useEffect(() => {
+    const editor = editorRef.current;
+    if (!editor) return;
+    const handleBeforeInput = (e: InputEvent) => beforeInputRef.current?.(e);
+    editor.addEventListener('beforeinput', handleBeforeInput);
+    return () => editor.removeEventListener('beforeinput', handleBeforeInput);
+  }, []);
+
   const toolbar = (
     <WordToolbar
       onUndo={handleUndo}
       onRedo={handleRedo}
-      canUndo={historyIndex > 0}
-      canRedo={historyIndex < history.length - 1}
+      canUndo={history.past.length > 0}
+      canRedo={history.future.length > 0}
       onBold={handleBold}
       onItalic={handleItalic}
       onUnderline={handleUnderline}
@@ -1585,10 +1908,7 @@ export const RichTextEditor = ({
       onNumberedList={handleNumberedList}
       onImageUpload={() => fileInputRef.current?.click()}
       onTableInsert={(rows: number, cols: number, style?: string) => {
-        const tableHTML = generateTableHTML(rows, cols, (style as TableStyle) || 'default');
-        document.execCommand('insertHTML', false, tableHTML);
-        handleInput();
-        toast.success(`${rows}×${cols} ${style || 'default'} table inserted`);
+        handleInsertTable(rows, cols, (style as TableStyle) || 'default');
       }}
       onAlignLeft={() => handleAlignment('left')}
       onAlignCenter={() => handleAlignment('center')}
@@ -1610,10 +1930,7 @@ export const RichTextEditor = ({
       onTextDirection={handleTextDirection}
       textDirection={textDirection}
       onAttachment={() => attachmentInputRef.current?.click()}
-      onEmojiInsert={(emoji) => {
-        document.execCommand('insertText', false, emoji);
-        handleInput();
-      }}
+      onEmojiInsert={(emoji) => applyCommand(insertText(emoji))}
       isBold={activeStates.isBold}
       isItalic={activeStates.isItalic}
       isUnderline={activeStates.isUnderline}
@@ -1642,6 +1959,57 @@ export const RichTextEditor = ({
             list-style: decimal;
             padding-left: 2rem;
           }
+          .rich-text-editor ul[data-type="checklist"] {
+            list-style: none;
+            padding-left: 0.5rem;
+          }
+          .rich-text-editor blockquote {
+            border-left: 4px solid hsl(var(--primary));
+            padding-left: 16px;
+            margin: 8px 0;
+            font-style: italic;
+            color: hsl(var(--muted-foreground));
+          }
+          .rich-text-editor code {
+            background-color: hsl(var(--muted));
+            padding: 2px 6px;
+            border-radius: 4px;
+            font-family: monospace;
+          }
+          .rich-text-editor pre {
+            background-color: hsl(var(--muted));
+            padding: 12px;
+            border-radius: 8px;
+            overflow-x: auto;
+            white-space: pre-wrap;
+          }
+          .rich-text-editor pre code {
+            padding: 0;
+            background: none;
+          }
+          .rich-text-editor .task-embed {
+            display: flex;
+            align-items: center;
+            flex-wrap: wrap;
+            gap: 6px;
+            padding: 6px 10px;
+            margin: 4px 0;
+            border: 1px solid hsl(var(--border));
+            border-radius: 8px;
+            background-color: hsl(var(--muted) / 0.4);
+            user-select: none;
+          }
+          .rich-text-editor .task-embed-check {
+            cursor: pointer;
+            font-size: 1.15em;
+          }
+          .rich-text-editor .task-embed-meta {
+            display: flex;
+            gap: 8px;
+            margin-left: auto;
+            font-size: 0.8em;
+            color: hsl(var(--muted-foreground));
+          }
           /* Solid black separator/horizontal rule */
           .rich-text-editor hr {
             border: none;
@@ -1758,6 +2126,8 @@ export const RichTextEditor = ({
         onCompositionStart={handleCompositionStart}
         onCompositionEnd={handleCompositionEnd}
         onKeyDown={handleKeyDown}
+        onBlur={() => showSlashMenu(null)}
+        onClick={handleEditorClick}
         data-gramm="false"
         data-gramm_editor="false"
         data-enable-grammarly="false"
@@ -1788,6 +2158,24 @@ export const RichTextEditor = ({
         suppressContentEditableWarning
       />
 
+      {slashMenu && (
+        <SlashCommandMenu
+          items={slashItems}
+          activeIndex={Math.min(slashIndex, Math.max(0, slashItems.length - 1))}
+          anchor={slashMenu.anchor}
+          favorites={slashPreferences.favorites}
+          onSelect={runSlashCommand}
+          onActiveIndexChange={setSlashIndex}
+          onToggleFavorite={handleToggleSlashFavorite}
+        />
+      )}
+
+      <TaskEmbedPicker
+        isOpen={taskPickerOpen}
+        onClose={() => closeTaskPicker(null)}
+        onSelectTask={closeTaskPicker}
+      />
+
       {toolbarPosition === 'bottom' && (
         <div
           className="fixed bottom-0 left-0 right-0 z-50 bg-background border-t safe-area-bottom"
@@ -0,0 +1,106 @@
+import { useEffect, useRef } from 'react';
+import { useTranslation } from 'react-i18next';
+import { Star } from 'lucide-react';
+import { cn } from '@/lib/utils';
+import { RankedSlashCommand, SlashCommand } from '@/utils/slashCommands';
+
+const MENU_WIDTH = 260;
+const MENU_MAX_HEIGHT = 320;
+
+interface SlashCommandMenuProps {
+  items: RankedSlashCommand[];
+  activeIndex: number;
+  // Caret rectangle the menu opens under (or above, near the bottom of the screen)
+  anchor: { left: number; top: number; bottom: number };
+  favorites: string[];
+  onSelect: (command: SlashCommand) => void;
+  onActiveIndexChange: (index: number) => void;
+  onToggleFavorite: (id: string) => void;
+}
+
+export const SlashCommandMenu = ({
+  items,
+  activeIndex,
+  anchor,
+  favorites,
+  onSelect,
+  onActiveIndexChange,
+  onToggleFavorite,
+}: SlashCommandMenuProps) => {
+  const { t } = useTranslation();
+  const listRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    listRef.current?.querySelector(`[data-index="${activeIndex}"]`)?.scrollIntoView({ block: 'nearest' });
+  }, [activeIndex]);
+
+  const above = anchor.bottom + MENU_MAX_HEIGHT > window.innerHeight && anchor.top > MENU_MAX_HEIGHT;
+  const sectionTitles: Record<RankedSlashCommand['section'], string> = {
+    favorites: t('slashCommands.favorites'),
+    recent: t('slashCommands.recent'),
+    all: t('slashCommands.blocks'),
+    results: t('slashCommands.results'),
+  };
+
+  return (
+    <div
+      ref={listRef}
+      role="listbox"
+      className="fixed z-[100] bg-popover border rounded-lg shadow-lg py-1 overflow-y-auto"
+      style={{
+        left: Math.max(8, Math.min(anchor.left, window.innerWidth - MENU_WIDTH - 8)),
+        top: above ? anchor.top - 4 : anchor.bottom + 4,
+        transform: above ? 'translateY(-100%)' : undefined,
+        width: MENU_WIDTH,
+        maxHeight: MENU_MAX_HEIGHT,
+      }}
+      // Keep the cursor in the editor while the menu is used
+      onMouseDown={(e) => e.preventDefault()}
+    >
+      {items.length === 0 && (
+        <div className="px-3 py-2 text-sm text-muted-foreground">{t('slashCommands.noResults')}</div>
+      )}
+      {items.map(({ command, section }, index) => {
+        const Icon = command.icon;
+        const isFavorite = favorites.includes(command.id);
+        return (
+          <div key={command.id}>
+            {(index === 0 || items[index - 1].section !== section) && (
+              <div className={cn(
+                "px-3 py-1.5 text-xs font-medium text-muted-foreground",
+                index > 0 && "border-t mt-1"
+              )}>
+                {sectionTitles[section]}
+              </div>
+            )}
+            <div
+              role="option"
+              aria-selected={index === activeIndex}
+              data-index={index}
+              className={cn(
+                "w-full px-3 py-2 text-sm text-left flex items-center gap-2 cursor-pointer",
+                index === activeIndex && "bg-accent"
+              )}
+              onMouseEnter={() => onActiveIndexChange(index)}
+              onClick={() => onSelect(command)}
+            >
+              <Icon className="h-4 w-4 text-muted-foreground" />
+              <span className="flex-1 truncate">{t(command.title)}</span>
+              <button
+                type="button"
+                className="p-0.5 rounded hover:bg-muted"
+                aria-label={isFavorite ? t('slashCommands.removeFavorite') : t('slashCommands.addFavorite')}
+                onClick={(e) => {
+                  e.stopPropagation();
+                  onToggleFavorite(command.id);
+                }}
+              >
+                <Star className={cn("h-3.5 w-3.5", isFavorite ? "fill-yellow-500 text-yellow-500" : "text-muted-foreground/50")} />
+              </button>
+            </div>
+          </div>
+        );
+      })}
+    </div>
+  );
+};
@@ -0,0 +1,162 @@
+import { useState, useEffect, useMemo } from 'react';
+import { Sheet, SheetContent, SheetHeader, SheetTitle } from '@/components/ui/sheet';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Trash2 } from 'lucide-react';
+import { useHardwareBackButton } from '@/hooks/useHardwareBackButton';
+import { useTranslation } from 'react-i18next';
+import { TodoItem } from '@/types/note';
+import { TaskQueryContext, TaskQueryError, compileTaskQuery } from '@/utils/taskQuery';
+import { CustomSmartList, deleteCustomSmartList, saveCustomSmartList } from '@/utils/customSmartLists';
+
+interface SmartListEditorSheetProps {
+  isOpen: boolean;
+  onClose: () => void;
+  // The list to edit, or null to create a new one
+  list: CustomSmartList | null;
+  items: TodoItem[];
+  context?: TaskQueryContext;
+  onSaved?: (list: CustomSmartList) => void;
+  onDeleted?: (id: string) => void;
+}
+
+const QUERY_EXAMPLES = [
+  'priority:high due:<7d',
+  'tag:work -status:completed',
+  'folder:"Client A" has:location',
+  'is:overdue OR (due:today priority:>=medium)',
+];
+
+export const SmartListEditorSheet = ({
+  isOpen,
+  onClose,
+  list,
+  items,
+  context,
+  onSaved,
+  onDeleted,
+}: SmartListEditorSheetProps) => {
+  const { t } = useTranslation();
+  const [name, setName] = useState('');
+  const [query, setQuery] = useState('');
+
+  useHardwareBackButton({
+    onBack: onClose,
+    enabled: isOpen,
+    priority: 'sheet',
+  });
+
+  useEffect(() => {
+    if (!isOpen) return;
+    setName(list?.name || '');
+    setQuery(list?.query || '');
+  }, [isOpen, list]);
+
+  const preview = useMemo(() => {
+    if (!query.trim()) return { error: null, count: null };
+    try {
+      const predicate = compileTaskQuery(query, { ...context, items });
+      return { error: null, count: items.filter(predicate).length };
+    } catch (error) {
+      if (error instanceof TaskQueryError) return { error: error.message, count: null };
+      throw error;
+    }
+  }, [query, items, context]);
+
+  const canSave = !!name.trim() && !!query.trim() && !preview.error;
+
+  const handleSave = async () => {
+    if (!canSave) return;
+    const saved: CustomSmartList = {
+      id: list?.id || Date.now().toString(),
+      name: name.trim(),
+      query: query.trim(),
+      createdAt: list?.createdAt || new Date().toISOString(),
+    };
+    await saveCustomSmartList(saved);
+    onSaved?.(saved);
+    onClose();
+  };
+
+  const handleDelete = async () => {
+    if (!list) return;
+    await deleteCustomSmartList(list.id);
+    onDeleted?.(list.id);
+    onClose();
+  };
+
+  return (
+    <Sheet open={isOpen} onOpenChange={(open) => !open && onClose()}>
+      <SheetContent side="bottom" className="rounded-t-[20px] max-h-[90vh] overflow-y-auto">
+        <SheetHeader className="mb-4">
+          <SheetTitle>{list ? t('smartLists.editSmartList') : t('smartLists.newSmartList')}</SheetTitle>
+        </SheetHeader>
+
+        <div className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="smart-list-name">{t('smartLists.name')}</Label>
+            <Input
+              id="smart-list-name"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              placeholder={t('smartLists.namePlaceholder')}
+            />
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="smart-list-query">{t('smartLists.query')}</Label>
+            <Textarea
+              id="smart-list-query"
+              value={query}
+              onChange={(e) => setQuery(e.target.value)}
+              placeholder="priority:high due:<7d tag:work"
+              className="font-mono text-sm min-h-[80px]"
+              autoCapitalize="off"
+              autoCorrect="off"
+              spellCheck={false}
+            />
+            {preview.error ? (
+              <p className="text-xs text-destructive">{preview.error}</p>
+            ) : preview.count !== null ? (
+              <p className="text-xs text-muted-foreground">
+                {t('smartLists.matchingCount', { count: preview.count })}
+              </p>
+            ) : null}
+          </div>
+
+          <div className="rounded-lg bg-muted/50 p-3 space-y-2 text-xs text-muted-foreground">
+            <p>{t('smartLists.queryHelp')}</p>
+            <div className="flex flex-wrap gap-1.5">
+              {QUERY_EXAMPLES.map(example => (
+                <button
+                  key={example}
+                  type="button"
+                  onClick={() => setQuery(example)}
+                  className="rounded bg-background px-2 py-1 font-mono text-foreground border"
+                >
+                  {example}
+                </button>
+              ))}
+            </div>
+          </div>
+
+          <div className="flex gap-2 pt-4">
+            {list && (
+              <Button variant="outline" size="icon" onClick={handleDelete} className="text-destructive">
+                <Trash2 className="h-4 w-4" />
+              </Button>
+            )}
+            <Button variant="outline" onClick={onClose} className="flex-1">
+              {t('common.cancel')}
+            </Button>
+            <Button onClick={handleSave} className="flex-1" disabled={!canSave}>
+              {t('common.save')}
+            </Button>
+          </div>
+        </div>
+      </SheetContent>
+    </Sheet>
+  );
+};
@@ -19,10 +19,18 @@ import {
   Clock, 
   CheckCircle2,
   Calendar,
-  MapPin
+  MapPin,
+  ListFilter,
+  Pencil,
+  Plus
 } from 'lucide-react';
 import { isToday, isTomorrow, isThisWeek, isBefore, startOfDay, endOfWeek, isAfter, addDays } from 'date-fns';
 import { cn } from '@/lib/utils';
+import { TaskQueryContext, compileTaskQuery } from '@/utils/taskQuery';
+import { CustomSmartList, customSmartListId } from '@/utils/customSmartLists';
+import { useCustomSmartLists } from '@/hooks/useCustomSmartLists';
+import { useTrackedTaskIds } from '@/hooks/useTaskTimeTotals';
+import { SmartListEditorSheet } from '@/components/SmartListEditorSheet';
 
 export type SmartListType = 
   | 'all' 
@@ -33,12 +41,18 @@ export type SmartListType =
   | 'due-tomorrow'
   | 'due-this-week'
   | 'recently-completed'
-  | 'location-reminders';
+  | 'location-reminders'
+  | `custom:${string}`;
+
+const CUSTOM_PREFIX = 'custom:';
 
 interface SmartListsDropdownProps {
   items: TodoItem[];
   currentList: SmartListType;
   onSelectList: (list: SmartListType) => void;
+  // Used to resolve folder: and section: names in custom list queries
+  folders?: { id: string; name: string }[];
+  sections?: { id: string; name: string }[];
 }
 
 export interface SmartListConfig {
@@ -50,11 +64,21 @@ export interface SmartListConfig {
   color?: string;
 }
 
-export const useSmartLists = (items: TodoItem[]) => {
+// Predicate for a saved query; a query that no longer parses matches nothing
+const compileCustomList = (list: CustomSmartList, context: TaskQueryContext): ((item: TodoItem) => boolean) => {
+  try {
+    return compileTaskQuery(list.query, context);
+  } catch {
+    return () => false;
+  }
+};
+
+export const useSmartLists = (items: TodoItem[], context?: TaskQueryContext) => {
   const { t } = useTranslation();
   const today = startOfDay(new Date());
+  const customLists = useCustomSmartLists();
 
-  const smartLists: SmartListConfig[] = useMemo(() => [
+  const builtInLists: SmartListConfig[] = useMemo(() => [
     {
       id: 'all',
       label: t('smartLists.allTasks'),
@@ -143,169 +167,135 @@ export const useSmartLists = (items: TodoItem[]) => {
     },
   ], [today, t]);
 
+  const smartLists: SmartListConfig[] = useMemo(() => [
+    ...builtInLists,
+    ...customLists.map(list => {
+      const predicate = compileCustomList(list, { ...context, items });
+      return {
+        id: customSmartListId(list),
+        label: list.name,
+        labelKey: '',
+        icon: <ListFilter className="h-4 w-4 text-primary" />,
+        filter: (listItems: TodoItem[]) => listItems.filter(predicate),
+      };
+    }),
+  ], [builtInLists, customLists, context, items]);
+
   const getCounts = useMemo(() => {
-    const counts: Record<SmartListType, number> = {} as any;
+    const counts: Partial<Record<SmartListType, number>> = {};
     smartLists.forEach(list => {
       counts[list.id] = list.filter(items).length;
     });
     return counts;
   }, [items, smartLists]);
 
-  return { smartLists, getCounts };
+  return { smartLists, getCounts, customLists };
 };
 
-export const SmartListsDropdown = ({ items, currentList, onSelectList }: SmartListsDropdownProps) => {
+export const SmartListsDropdown = ({ items, currentList, onSelectList, folders, sections }: SmartListsDropdownProps) => {
   const { t } = useTranslation();
-  const today = startOfDay(new Date());
+  const trackedTaskIds = useTrackedTaskIds();
+  const context = useMemo(() => ({ folders, sections, trackedTaskIds }), [folders, sections, trackedTaskIds]);
+  const { smartLists, getCounts, customLists } = useSmartLists(items, context);
+  const [editorOpen, setEditorOpen] = useState(false);
+  const [editingList, setEditingList] = useState<CustomSmartList | null>(null);
 
-  const smartLists: SmartListConfig[] = useMemo(() => [
-    {
-      id: 'all',
-      label: t('smartLists.allTasks'),
-      labelKey: 'smartLists.allTasks',
-      icon: <Sparkles className="h-4 w-4" />,
-      filter: (items) => items,
-    },
-    {
-      id: 'overdue',
-      label: t('smartLists.overdue'),
-      labelKey: 'smartLists.overdue',
-      icon: <AlertCircle className="h-4 w-4 text-red-500" />,
-      filter: (items) => items.filter(item => 
-        !item.completed && item.dueDate && isBefore(new Date(item.dueDate), today)
-      ),
-      color: 'text-red-500',
-    },
-    {
-      id: 'due-today',
-      label: t('smartLists.dueToday'),
-      labelKey: 'smartLists.dueToday',
-      icon: <Clock className="h-4 w-4 text-amber-500" />,
-      filter: (items) => items.filter(item => 
-        !item.completed && item.dueDate && isToday(new Date(item.dueDate))
-      ),
-      color: 'text-amber-500',
-    },
-    {
-      id: 'due-tomorrow',
-      label: t('smartLists.dueTomorrow'),
-      labelKey: 'smartLists.dueTomorrow',
-      icon: <Calendar className="h-4 w-4 text-blue-500" />,
-      filter: (items) => items.filter(item => 
-        !item.completed && item.dueDate && isTomorrow(new Date(item.dueDate))
-      ),
-      color: 'text-blue-500',
-    },
-    {
-      id: 'due-this-week',
-      label: t('smartLists.dueThisWeek'),
-      labelKey: 'smartLists.dueThisWeek',
-      icon: <Calendar className="h-4 w-4 text-purple-500" />,
-      filter: (items) => items.filter(item => 
-        !item.completed && item.dueDate && isThisWeek(new Date(item.dueDate)) && !isToday(new Date(item.dueDate))
-      ),
-      color: 'text-purple-500',
-    },
-    {
-      id: 'no-date',
-      label: t('smartLists.noDueDate'),
-      labelKey: 'smartLists.noDueDate',
-      icon: <CalendarX className="h-4 w-4 text-gray-500" />,
-      filter: (items) => items.filter(item => !item.completed && !item.dueDate),
-      color: 'text-gray-500',
-    },
-    {
-      id: 'high-priority-week',
-      label: t('smartLists.highPriorityWeek'),
-      labelKey: 'smartLists.highPriorityWeek',
-      icon: <Flame className="h-4 w-4 text-orange-500" />,
-      filter: (items) => items.filter(item => 
-        !item.completed && 
-        item.priority === 'high' && 
-        (!item.dueDate || isThisWeek(new Date(item.dueDate)) || isBefore(new Date(item.dueDate), today))
-      ),
-      color: 'text-orange-500',
-    },
-    {
-      id: 'recently-completed',
-      label: t('smartLists.recentlyCompleted'),
-      labelKey: 'smartLists.recentlyCompleted',
-      icon: <CheckCircle2 className="h-4 w-4 text-green-500" />,
-      filter: (items) => items.filter(item => item.completed).slice(0, 20),
-      color: 'text-green-500',
-    },
-    {
-      id: 'location-reminders',
-      label: t('smartLists.locationReminders'),
-      labelKey: 'smartLists.locationReminders',
-      icon: <MapPin className="h-4 w-4 text-emerald-500" />,
-      filter: (items) => items.filter(item => 
-        !item.completed && 
-        item.locationReminder?.enabled
-      ),
-      color: 'text-emerald-500',
-    },
-  ], [today, t]);
-
-  const getCounts = useMemo(() => {
-    const counts: Record<SmartListType, number> = {} as any;
-    smartLists.forEach(list => {
-      counts[list.id] = list.filter(items).length;
-    });
-    return counts;
-  }, [items, smartLists]);
+  const openEditor = (list: CustomSmartList | null) => {
+    setEditingList(list);
+    setEditorOpen(true);
+  };
 
   const currentListConfig = smartLists.find(l => l.id === currentList) || smartLists[0];
 
   return (
-    <DropdownMenu>
-      <DropdownMenuTrigger asChild>
-        <Button variant="outline" size="sm" className="gap-2">
-          {currentListConfig.icon}
-          <span className="hidden sm:inline">{currentListConfig.label}</span>
-          {currentList !== 'all' && getCounts[currentList] > 0 && (
-            <Badge variant="secondary" className="ml-1 h-5 px-1.5 text-xs">
-              {getCounts[currentList]}
-            </Badge>
-          )}
-        </Button>
-      </DropdownMenuTrigger>
-      <DropdownMenuContent align="start" className="w-56">
-        {smartLists.map((list, index) => (
-          <div key={list.id}>
-            {index === 1 && <DropdownMenuSeparator />}
-            {index === 5 && <DropdownMenuSeparator />}
-            {index === 7 && <DropdownMenuSeparator />}
-            <DropdownMenuItem
-              onClick={() => onSelectList(list.id)}
-              className={cn(
-                "cursor-pointer flex items-center justify-between",
-                currentList === list.id && "bg-accent"
-              )}
-            >
-              <div className="flex items-center gap-2">
-                {list.icon}
-                <span className={list.color}>{list.label}</span>
-              </div>
-              {getCounts[list.id] > 0 && (
-                <Badge 
-                  variant={list.id === 'overdue' && getCounts[list.id] > 0 ? "destructive" : "secondary"} 
-                  className="h-5 px-1.5 text-xs"
-                >
-                  {getCounts[list.id]}
-                </Badge>
-              )}
-            </DropdownMenuItem>
-          </div>
-        ))}
-      </DropdownMenuContent>
-    </DropdownMenu>
+    <>
+      <DropdownMenu>
+        <DropdownMenuTrigger asChild>
+          <Button variant="outline" size="sm" className="gap-2">
+            {currentListConfig.icon}
+            <span className="hidden sm:inline">{currentListConfig.label}</span>
+            {currentList !== 'all' && (getCounts[currentList] || 0) > 0 && (
+              <Badge variant="secondary" className="ml-1 h-5 px-1.5 text-xs">
+                {getCounts[currentList]}
+              </Badge>
+            )}
+          </Button>
+        </DropdownMenuTrigger>
+        <DropdownMenuContent align="start" className="w-56">
+          {smartLists.map((list, index) => (
+            <div key={list.id}>
+              {index === 1 && <DropdownMenuSeparator />}
+              {index === 5 && <DropdownMenuSeparator />}
+              {index === 7 && <DropdownMenuSeparator />}
+              {index === 9 && <DropdownMenuSeparator />}
+              <DropdownMenuItem
+                onClick={() => onSelectList(list.id)}
+                className={cn(
+                  "cursor-pointer flex items-center justify-between",
+                  currentList === list.id && "bg-accent"
+                )}
+              >
+                <div className="flex items-center gap-2 min-w-0">
+                  {list.icon}
+                  <span className={cn("truncate", list.color)}>{list.label}</span>
+                </div>
+                <div className="flex items-center gap-1">
+                  {(getCounts[list.id] || 0) > 0 && (
+                    <Badge 
+                      variant={list.id === 'overdue' ? "destructive" : "secondary"} 
+                      className="h-5 px-1.5 text-xs"
+                    >
+                      {getCounts[list.id]}
+                    </Badge>
+                  )}
+                  {list.id.startsWith(CUSTOM_PREFIX) && (
+                    <button
+                      type="button"
+                      onClick={(e) => {
+                        e.stopPropagation();
+                        openEditor(customLists.find(c => customSmartListId(c) === list.id) || null);
+                      }}
+                      className="p-1 rounded hover:bg-muted"
+                    >
+                      <Pencil className="h-3 w-3 text-muted-foreground" />
+                    </button>
+                  )}
+                </div>
+              </DropdownMenuItem>
+            </div>
+          ))}
+          <DropdownMenuSeparator />
+          <DropdownMenuItem onClick={() => openEditor(null)} className="cursor-pointer">
+            <Plus className="h-4 w-4 mr-2" />
+            {t('smartLists.newSmartList')}
+          </DropdownMenuItem>
+        </DropdownMenuContent>
+      </DropdownMenu>
+      <SmartListEditorSheet
+        isOpen={editorOpen}
+        onClose={() => setEditorOpen(false)}
+        list={editingList}
+        items={items}
+        context={context}
+        onSaved={(list) => onSelectList(customSmartListId(list))}
+        onDeleted={(id) => { if (currentList === `custom:${id}`) onSelectList('all'); }}
+      />
+    </>
   );
 };
 
 // Export filter function for use in parent components
-export const getSmartListFilter = (listType: SmartListType): ((item: TodoItem) => boolean) => {
+export const getSmartListFilter = (
+  listType: SmartListType,
+  customLists: CustomSmartList[] = [],
+  context: TaskQueryContext = {}
+): ((item: TodoItem) => boolean) => {
   const today = startOfDay(new Date());
+
+  if (listType.startsWith(CUSTOM_PREFIX)) {
+    const list = customLists.find(l => customSmartListId(l) === listType);
+    return list ? compileCustomList(list, context) : () => true;
+  }
   
   switch (listType) {
     case 'overdue':
@@ -1,5 +1,5 @@
 import { useState, useEffect, useCallback, useRef } from 'react';
-import { TodoItem, Priority, ColoredTag, LocationReminder, Folder } from '@/types/note';
+import { TodoItem, Priority, ColoredTag, LocationReminder, Folder, RepeatSettings } from '@/types/note';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Textarea } from '@/components/ui/textarea';
@@ -37,7 +37,8 @@ import { format } from 'date-fns';
 import { LocationReminderSheet } from './LocationReminderSheet';
 import { LocationMapPreview } from './LocationMapPreview';
 import { TaskInputSheet } from './TaskInputSheet';
-import { TaskDateTimePage, RepeatSettings } from './TaskDateTimePage';
+import { TaskDateTimePage } from './TaskDateTimePage';
+import { repeatSettingsToRecurrence, repeatSettingsToRepeatType } from '@/utils/recurringTasks';
 import { TaskTimeTracker } from './TaskTimeTracker';
 import { DragDropContext, Droppable, Draggable, DropResult } from '@hello-pangea/dnd';
 
@@ -237,10 +238,10 @@ export const SubtaskDetailSheet = ({
     onUpdate(parentId, subtask.id, {
       dueDate: data.selectedDate,
       reminderTime,
-      repeatType: data.repeatSettings?.frequency === 'daily' ? 'daily' 
-        : data.repeatSettings?.frequency === 'weekly' ? 'weekly'
-        : data.repeatSettings?.frequency === 'monthly' ? 'monthly'
-        : 'none' as const,
+      repeatType: data.repeatSettings ? repeatSettingsToRepeatType(data.repeatSettings) : 'none',
+      recurrence: data.repeatSettings
+        ? repeatSettingsToRecurrence(data.repeatSettings, reminderTime || data.selectedDate || new Date())
+        : undefined,
     });
 
     setShowDateTimePage(false);
@@ -405,6 +406,8 @@ export const SubtaskDetailSheet = ({
             <TaskTimeTracker
               timeTracking={subtask.timeTracking}
               onUpdate={(tracking) => onUpdate(parentId, subtask.id, { timeTracking: tracking })}
+              taskId={subtask.id}
+              taskText={subtask.text}
             />
           </div>
 
@@ -0,0 +1,142 @@
+import { useState, useEffect } from 'react';
+import { useTranslation } from 'react-i18next';
+import { Sheet, SheetContent, SheetHeader, SheetTitle } from '@/components/ui/sheet';
+import { Button } from '@/components/ui/button';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { GitMerge, Smartphone, Cloud, Check } from 'lucide-react';
+import { cn } from '@/lib/utils';
+import { useHardwareBackButton } from '@/hooks/useHardwareBackButton';
+import { ConflictChoice, SyncConflictRecord, localConflictValue, resolveConflictValues } from '@/utils/syncConflicts';
+
+interface SyncConflictSheetProps {
+  isOpen: boolean;
+  onClose: () => void;
+  conflict: SyncConflictRecord;
+  // The entity's values now, shown and kept as this device's side
+  current: Record<string, unknown>;
+  onResolve: (values: Record<string, unknown>) => void;
+}
+
+const toPlainText = (value: unknown): string => {
+  if (value === undefined || value === null) return '';
+  return String(value)
+    .replace(/<br\s*\/?>/gi, '\n')
+    .replace(/<\/(p|div|li|h[1-6])>/gi, '\n')
+    .replace(/<[^>]*>/g, '')
+    .replace(/&nbsp;/g, ' ')
+    .trim();
+};
+
+const ConflictSide = ({
+  label,
+  icon: Icon,
+  value,
+  selected,
+  onSelect,
+}: {
+  label: string;
+  icon: typeof Smartphone;
+  value: unknown;
+  selected: boolean;
+  onSelect: () => void;
+}) => {
+  const { t } = useTranslation();
+  return (
+    <button
+      type="button"
+      onClick={onSelect}
+      className={cn(
+        "flex-1 min-w-0 text-left p-3 rounded-lg border bg-card transition-colors hover:bg-accent/50",
+        selected && "border-primary ring-1 ring-primary"
+      )}
+    >
+      <div className="flex items-center gap-1.5 mb-2 text-xs font-medium text-muted-foreground">
+        <Icon className="h-3 w-3" />
+        {label}
+        {selected && <Check className="h-3 w-3 ml-auto text-primary" />}
+      </div>
+      <p className="text-sm whitespace-pre-wrap break-words line-clamp-[12]">
+        {toPlainText(value) || <span className="italic text-muted-foreground">{t('syncConflict.empty')}</span>}
+      </p>
+    </button>
+  );
+};
+
+export const SyncConflictSheet = ({
+  isOpen,
+  onClose,
+  conflict,
+  current,
+  onResolve,
+}: SyncConflictSheetProps) => {
+  const { t } = useTranslation();
+  const [choices, setChoices] = useState<Record<string, ConflictChoice>>({});
+
+  useHardwareBackButton({
+    onBack: onClose,
+    enabled: isOpen,
+    priority: 'sheet',
+  });
+
+  useEffect(() => {
+    if (isOpen) {
+      setChoices(Object.fromEntries(conflict.fields.map(f => [f, 'local' as ConflictChoice])));
+    }
+  }, [isOpen, conflict]);
+
+  const handleResolve = () => {
+    onResolve(resolveConflictValues(conflict, choices, current));
+    onClose();
+  };
+
+  return (
+    <Sheet open={isOpen} onOpenChange={(open) => !open && onClose()}>
+      <SheetContent side="bottom" className="h-[80vh] flex flex-col">
+        <SheetHeader className="pb-2">
+          <SheetTitle className="flex items-center gap-2">
+            <GitMerge className="h-5 w-5" />
+            {t('syncConflict.title')}
+          </SheetTitle>
+          <p className="text-sm text-muted-foreground text-left">
+            {t('syncConflict.description')}
+          </p>
+        </SheetHeader>
+
+        <ScrollArea className="flex-1">
+          <div className="space-y-4 pr-4">
+            {conflict.fields.map(field => (
+              <div key={field}>
+                <p className="text-sm font-medium mb-2">{t(`syncConflict.fields.${field}`, { defaultValue: field })}</p>
+                <div className="flex gap-2">
+                  <ConflictSide
+                    label={t('syncConflict.thisDevice')}
+                    icon={Smartphone}
+                    value={localConflictValue(conflict, current, field)}
+                    selected={choices[field] !== 'remote'}
+                    onSelect={() => setChoices(prev => ({ ...prev, [field]: 'local' }))}
+                  />
+                  <ConflictSide
+                    label={t('syncConflict.otherDevice')}
+                    icon={Cloud}
+                    value={conflict.remote[field]}
+                    selected={choices[field] === 'remote'}
+                    onSelect={() => setChoices(prev => ({ ...prev, [field]: 'remote' }))}
+                  />
+                </div>
+              </div>
+            ))}
+          </div>
+        </ScrollArea>
+
+        <div className="pt-4 flex gap-2">
+          <Button variant="outline" className="flex-1" onClick={onClose}>
+            {t('syncConflict.later')}
+          </Button>
+          <Button className="flex-1" onClick={handleResolve}>
+            {t('syncConflict.keepSelected')}
+          </Button>
+        </div>
+      </SheetContent>
+    </Sheet>
+  );
+};
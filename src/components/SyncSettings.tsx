@@ -1,6 +1,6 @@
-import { useState, useEffect } from "react";
+import { useState, useEffect, useRef } from "react";
 import { useTranslation } from "react-i18next";
-import { Loader2, Calendar, RefreshCw } from "lucide-react";
+import { Loader2, Calendar, RefreshCw, FileText } from "lucide-react";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { useToast } from "@/hooks/use-toast";
@@ -11,6 +11,15 @@ import {
   AccordionTrigger,
 } from "@/components/ui/accordion";
 import { useSyncBridge } from "@/hooks/useSyncBridge";
+import CloudSyncSettings from "@/components/CloudSyncSettings";
+import { ImportPreviewSheet } from "@/components/ImportPreviewSheet";
+import {
+  IMPORT_FILE_TYPES,
+  ImportPreview,
+  ImportSource,
+  commitImport,
+  parseImportFile,
+} from "@/utils/externalImport";
 
 // Import logos
 import logoGoogleCalendar from "@/assets/logo-google-calendar.png";
@@ -44,10 +53,21 @@ interface SyncSettingsState {
   };
 }
 
+const IMPORT_SERVICE_NAMES: Record<ImportSource, string> = {
+  todoist: "Todoist",
+  ticktick: "TickTick",
+  notion: "Notion",
+  evernote: "Evernote",
+  markdown: "Markdown",
+};
+
 const SyncSettings = () => {
   const { toast } = useToast();
   const { t } = useTranslation();
   const [isLoading, setIsLoading] = useState<Record<string, boolean>>({});
+  const importInputRef = useRef<HTMLInputElement>(null);
+  const [importSource, setImportSource] = useState<ImportSource>("todoist");
+  const [importPreview, setImportPreview] = useState<ImportPreview | null>(null);
   
   const {
     isLoading: bridgeLoading,
@@ -127,6 +147,52 @@ const SyncSettings = () => {
     setIsLoading(prev => ({ ...prev, [service]: false }));
   };
 
+  const handleImportClick = (source: ImportSource) => {
+    setImportSource(source);
+    if (importInputRef.current) {
+      importInputRef.current.accept = IMPORT_FILE_TYPES[source];
+      importInputRef.current.click();
+    }
+  };
+
+  const handleImportFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = "";
+    if (!file) return;
+
+    const service = IMPORT_SERVICE_NAMES[importSource];
+    setIsLoading(prev => ({ ...prev, [service]: true }));
+    try {
+      setImportPreview(await parseImportFile(importSource, file));
+    } catch (error) {
+      console.error("Import failed:", error);
+      toast({
+        title: t('sync.importFileFailed', { service }),
+        description: error instanceof Error ? error.message : undefined,
+        variant: "destructive",
+      });
+    }
+    setIsLoading(prev => ({ ...prev, [service]: false }));
+  };
+
+  const handleConfirmImport = async (preview: ImportPreview) => {
+    try {
+      const counts = await commitImport(preview);
+      toast({
+        title: t('sync.importComplete'),
+        description: t('sync.importSummary', { tasks: counts.tasks + counts.subtasks, notes: counts.notes }),
+      });
+      setImportPreview(null);
+    } catch (error) {
+      console.error("Import failed:", error);
+      toast({
+        title: t('errors.generic'),
+        description: t('sync.importFileFailed', { service: IMPORT_SERVICE_NAMES[preview.source] }),
+        variant: "destructive",
+      });
+    }
+  };
+
   if (bridgeLoading) {
     return (
       <div className="flex items-center justify-center p-8">
@@ -146,6 +212,8 @@ const SyncSettings = () => {
         </div>
       )}
 
+      <CloudSyncSettings />
+
       {/* Google Calendar Section */}
       <Card>
         <CardHeader>
@@ -291,7 +359,7 @@ const SyncSettings = () => {
                 <Button 
                   variant="outline" 
                   className={connectButtonStyles}
-                  onClick={() => handleConnect("TickTick")}
+                  onClick={() => handleImportClick("ticktick")}
                   disabled={isLoading["TickTick"]}
                 >
                   {isLoading["TickTick"] ? (
@@ -316,7 +384,7 @@ const SyncSettings = () => {
                 <Button 
                   variant="outline" 
                   className={connectButtonStyles}
-                  onClick={() => handleConnect("Todoist")}
+                  onClick={() => handleImportClick("todoist")}
                   disabled={isLoading["Todoist"]}
                 >
                   {isLoading["Todoist"] ? (
@@ -329,8 +397,33 @@ const SyncSettings = () => {
               </AccordionContent>
             </AccordionItem>
 
+            {/* Notion */}
+            <AccordionItem value="notion-import" className="border-b">
+              <AccordionTrigger className="hover:no-underline py-4">
+                <div className="flex items-center gap-3">
+                  <img src={logoNotion} alt="Notion" className="w-8 h-8 rounded-lg" />
+                  <span className="font-medium">Notion</span>
+                </div>
+              </AccordionTrigger>
+              <AccordionContent className="pt-2 pb-4">
+                <Button 
+                  variant="outline" 
+                  className={connectButtonStyles}
+                  onClick={() => handleImportClick("notion")}
+                  disabled={isLoading["Notion"]}
+                >
+                  {isLoading["Notion"] ? (
+                    <Loader2 className="h-5 w-5 animate-spin" />
+                  ) : (
+                    <img src={logoNotion} alt="Notion" className="h-5 w-5 rounded" />
+                  )}
+                  {t('sync.importFrom', { service: 'Notion' })}
+                </Button>
+              </AccordionContent>
+            </AccordionItem>
+
             {/* Evernote */}
-            <AccordionItem value="evernote" className="border-b-0">
+            <AccordionItem value="evernote">
               <AccordionTrigger className="hover:no-underline py-4">
                 <div className="flex items-center gap-3">
                   <img src={logoEvernote} alt="Evernote" className="w-8 h-8 rounded-lg" />
@@ -341,7 +434,7 @@ const SyncSettings = () => {
                 <Button 
                   variant="outline" 
                   className={connectButtonStyles}
-                  onClick={() => handleConnect("Evernote")}
+                  onClick={() => handleImportClick("evernote")}
                   disabled={isLoading["Evernote"]}
                 >
                   {isLoading["Evernote"] ? (
@@ -353,9 +446,50 @@ const SyncSettings = () => {
                 </Button>
               </AccordionContent>
             </AccordionItem>
+
+            {/* Markdown files, e.g. an Obsidian vault */}
+            <AccordionItem value="markdown" className="border-b-0">
+              <AccordionTrigger className="hover:no-underline py-4">
+                <div className="flex items-center gap-3">
+                  <div className="w-8 h-8 rounded-lg bg-muted flex items-center justify-center">
+                    <FileText className="h-5 w-5 text-muted-foreground" />
+                  </div>
+                  <span className="font-medium">Markdown</span>
+                </div>
+              </AccordionTrigger>
+              <AccordionContent className="pt-2 pb-4">
+                <Button 
+                  variant="outline" 
+                  className={connectButtonStyles}
+                  onClick={() => handleImportClick("markdown")}
+                  disabled={isLoading["Markdown"]}
+                >
+                  {isLoading["Markdown"] ? (
+                    <Loader2 className="h-5 w-5 animate-spin" />
+                  ) : (
+                    <FileText className="h-5 w-5" />
+                  )}
+                  {t('sync.importFrom', { service: 'Markdown' })}
+                </Button>
+              </AccordionContent>
+            </AccordionItem>
           </Accordion>
+          <input
+            ref={importInputRef}
+            type="file"
+            className="hidden"
+            onChange={handleImportFile}
+          />
         </CardContent>
       </Card>
+
+      <ImportPreviewSheet
+        isOpen={!!importPreview}
+        onClose={() => setImportPreview(null)}
+        serviceName={IMPORT_SERVICE_NAMES[importPreview?.source ?? importSource]}
+        preview={importPreview}
+        onConfirm={handleConfirmImport}
+      />
     </div>
   );
 };
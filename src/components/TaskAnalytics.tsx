@@ -3,10 +3,17 @@ import { Button } from '@/components/ui/button';
 import { ScrollArea } from '@/components/ui/scroll-area';
 import { 
   X, BarChart3, TrendingUp, CheckCircle2, Clock, 
-  Calendar, Target, Flame, Award
+  Calendar, Target, Flame, Award, Timer, Download
 } from 'lucide-react';
+import { endOfMonth, startOfMonth, subMonths } from 'date-fns';
 import { cn } from '@/lib/utils';
-import { TodoItem } from '@/types/note';
+import { Folder, TodoItem } from '@/types/note';
+import { getSetting } from '@/utils/settingsStorage';
+import { formatMinutes } from '@/utils/timeBlocking';
+import {
+  EstimateDimension, NO_GROUP, TimeEntry,
+  buildTimesheetCsv, downloadTimesheet, getEstimateReport, getTimeEntries
+} from '@/utils/timeEntries';
 
 interface TaskAnalyticsProps {
   isOpen: boolean;
@@ -19,6 +26,11 @@ interface DailyStats {
   created: number;
 }
 
+type TimesheetRange = 'thisMonth' | 'lastMonth' | 'all';
+
+const DIMENSION_LABELS: Record<EstimateDimension, string> = { tag: 'Tag', folder: 'Folder', priority: 'Priority' };
+const RANGE_LABELS: Record<TimesheetRange, string> = { thisMonth: 'This month', lastMonth: 'Last month', all: 'All time' };
+
 interface WeeklyStats {
   weekStart: string;
   completed: number;
@@ -35,6 +47,10 @@ export const TaskAnalytics = ({ isOpen, onClose }: TaskAnalyticsProps) => {
   const [lastWeekCompleted, setLastWeekCompleted] = useState(0);
   const [mostProductiveDay, setMostProductiveDay] = useState<string>('');
   const [avgTasksPerDay, setAvgTasksPerDay] = useState(0);
+  const [timeEntries, setTimeEntries] = useState<TimeEntry[]>([]);
+  const [folders, setFolders] = useState<Folder[]>([]);
+  const [estimateDimension, setEstimateDimension] = useState<EstimateDimension>('tag');
+  const [timesheetRange, setTimesheetRange] = useState<TimesheetRange>('thisMonth');
 
   useEffect(() => {
     const loadTasks = async () => {
@@ -43,6 +59,8 @@ export const TaskAnalytics = ({ isOpen, onClose }: TaskAnalyticsProps) => {
       setTasks(allTasks);
       setCompletedTasks(allTasks.filter(t => t.completed));
       calculateStats(allTasks);
+      setTimeEntries(await getTimeEntries());
+      setFolders(await getSetting<Folder[]>('todoFolders', []));
     };
     if (isOpen) {
       loadTasks();
@@ -136,6 +154,24 @@ export const TaskAnalytics = ({ isOpen, onClose }: TaskAnalyticsProps) => {
     ? Math.round(((thisWeekCompleted - lastWeekCompleted) / lastWeekCompleted) * 100) 
     : thisWeekCompleted > 0 ? 100 : 0;
 
+  const estimateRows = getEstimateReport(tasks, timeEntries, estimateDimension, folders);
+
+  const getRowLabel = (key: string, label?: string) => {
+    if (label) return label;
+    if (key === NO_GROUP) return estimateDimension === 'tag' ? 'No tag' : 'No folder';
+    return key === 'none' ? 'No priority' : key.charAt(0).toUpperCase() + key.slice(1);
+  };
+
+  const handleExportTimesheet = () => {
+    const now = new Date();
+    const range = timesheetRange === 'thisMonth'
+      ? { from: startOfMonth(now), to: endOfMonth(now) }
+      : timesheetRange === 'lastMonth'
+        ? { from: startOfMonth(subMonths(now, 1)), to: endOfMonth(subMonths(now, 1)) }
+        : {};
+    downloadTimesheet(buildTimesheetCsv(timeEntries, tasks, folders, range));
+  };
+
   if (!isOpen) return null;
 
   return (
@@ -256,6 +292,80 @@ export const TaskAnalytics = ({ isOpen, onClose }: TaskAnalyticsProps) => {
             </div>
           </div>
 
+          {/* Estimate vs Actual */}
+          <div className="bg-card border rounded-xl p-4 space-y-4">
+            <div className="flex items-center gap-2">
+              <Timer className="h-4 w-4 text-primary" />
+              <h3 className="font-medium text-sm flex-1">Estimate vs Actual</h3>
+            </div>
+            <div className="flex gap-1 bg-muted rounded-lg p-1">
+              {(Object.keys(DIMENSION_LABELS) as EstimateDimension[]).map(dimension => (
+                <button
+                  key={dimension}
+                  onClick={() => setEstimateDimension(dimension)}
+                  className={cn(
+                    "flex-1 text-xs py-1.5 rounded-md transition-colors",
+                    estimateDimension === dimension ? "bg-background shadow-sm font-medium" : "text-muted-foreground"
+                  )}
+                >
+                  {DIMENSION_LABELS[dimension]}
+                </button>
+              ))}
+            </div>
+
+            {estimateRows.length > 0 ? (
+              <div className="space-y-3">
+                {estimateRows.map(row => {
+                  const variance = Math.round(((row.actualMinutes - row.estimatedMinutes) / row.estimatedMinutes) * 100);
+                  return (
+                    <div key={row.key} className="space-y-1">
+                      <div className="flex items-center justify-between text-sm">
+                        <span className="font-medium truncate">{getRowLabel(row.key, row.label)}</span>
+                        <span className={cn("text-xs font-medium", variance > 0 ? "text-red-500" : "text-green-500")}>
+                          {variance > 0 ? '+' : ''}{variance}%
+                        </span>
+                      </div>
+                      <div className="h-1.5 bg-muted rounded-full overflow-hidden">
+                        <div
+                          className={cn("h-full rounded-full", variance > 0 ? "bg-red-500" : "bg-green-500")}
+                          style={{ width: `${Math.min((row.actualMinutes / row.estimatedMinutes) * 100, 100)}%` }}
+                        />
+                      </div>
+                      <p className="text-xs text-muted-foreground">
+                        {formatMinutes(Math.round(row.actualMinutes))} tracked of {formatMinutes(row.estimatedMinutes)} estimated • {row.tasks} task{row.tasks !== 1 ? 's' : ''}
+                      </p>
+                    </div>
+                  );
+                })}
+              </div>
+            ) : (
+              <p className="text-sm text-muted-foreground text-center py-4">
+                Give tasks an estimate and track time on them to compare
+              </p>
+            )}
+
+            <div className="flex items-center gap-2 pt-3 border-t border-border/50">
+              <div className="flex gap-1 bg-muted rounded-lg p-1 flex-1">
+                {(Object.keys(RANGE_LABELS) as TimesheetRange[]).map(range => (
+                  <button
+                    key={range}
+                    onClick={() => setTimesheetRange(range)}
+                    className={cn(
+                      "flex-1 text-xs py-1.5 rounded-md transition-colors",
+                      timesheetRange === range ? "bg-background shadow-sm font-medium" : "text-muted-foreground"
+                    )}
+                  >
+                    {RANGE_LABELS[range]}
+                  </button>
+                ))}
+              </div>
+              <Button size="sm" variant="outline" onClick={handleExportTimesheet} disabled={timeEntries.length === 0}>
+                <Download className="h-4 w-4 mr-1" />
+                Timesheet
+              </Button>
+            </div>
+          </div>
+
           {/* Motivational Message */}
           <div className="bg-gradient-to-r from-primary/10 to-primary/5 border border-primary/20 rounded-xl p-4 text-center">
             {currentStreak >= 7 ? (
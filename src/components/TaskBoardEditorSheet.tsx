@@ -0,0 +1,245 @@
+import { useState, useEffect, useMemo } from 'react';
+import { Sheet, SheetContent, SheetHeader, SheetTitle } from '@/components/ui/sheet';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Trash2 } from 'lucide-react';
+import { useHardwareBackButton } from '@/hooks/useHardwareBackButton';
+import { useTranslation } from 'react-i18next';
+import { Folder, TaskSection, TodoItem } from '@/types/note';
+import {
+  BOARD_FIELDS,
+  BoardField,
+  TaskBoard,
+  deleteTaskBoard,
+  getBoardGroups,
+  saveTaskBoard,
+} from '@/utils/taskBoards';
+
+interface TaskBoardEditorSheetProps {
+  isOpen: boolean;
+  onClose: () => void;
+  // The board to edit, or null to create a new one
+  board: TaskBoard | null;
+  canDelete: boolean;
+  items: TodoItem[];
+  sections: TaskSection[];
+  folders: Folder[];
+  onSaved?: (board: TaskBoard) => void;
+  onDeleted?: (id: string) => void;
+}
+
+const NO_SWIMLANES = 'none';
+
+export const TaskBoardEditorSheet = ({
+  isOpen,
+  onClose,
+  board,
+  canDelete,
+  items,
+  sections,
+  folders,
+  onSaved,
+  onDeleted,
+}: TaskBoardEditorSheetProps) => {
+  const { t } = useTranslation();
+  const [name, setName] = useState('');
+  const [columnField, setColumnField] = useState<BoardField>('status');
+  const [swimlaneField, setSwimlaneField] = useState<BoardField | null>(null);
+  const [customName, setCustomName] = useState('');
+  const [customOptions, setCustomOptions] = useState('');
+  const [wipLimits, setWipLimits] = useState<Record<string, number>>({});
+  const [collapseDone, setCollapseDone] = useState(true);
+
+  useHardwareBackButton({
+    onBack: onClose,
+    enabled: isOpen,
+    priority: 'sheet',
+  });
+
+  useEffect(() => {
+    if (!isOpen) return;
+    setName(board?.name || '');
+    setColumnField(board?.columnField || 'status');
+    setSwimlaneField(board?.swimlaneField ?? null);
+    setCustomName(board?.customField?.name || '');
+    setCustomOptions(board?.customField?.options.join(', ') || '');
+    setWipLimits(board?.wipLimits || {});
+    setCollapseDone(board?.collapseDone ?? true);
+  }, [isOpen, board]);
+
+  const usesCustomField = columnField === 'custom' || swimlaneField === 'custom';
+  const customField = useMemo(() => ({
+    name: customName.trim(),
+    options: [...new Set(customOptions.split(',').map(option => option.trim()).filter(Boolean))],
+  }), [customName, customOptions]);
+
+  const columns = useMemo(
+    () => getBoardGroups(columnField, { tasks: items, sections, folders, customField }).filter(group => group.droppable),
+    [columnField, items, sections, folders, customField]
+  );
+
+  const canSave = !!name.trim() && (!usesCustomField || (!!customField.name && customField.options.length > 0));
+
+  const handleColumnFieldChange = (field: BoardField) => {
+    setColumnField(field);
+    setWipLimits({});
+    if (swimlaneField === field) setSwimlaneField(null);
+  };
+
+  const handleWipLimitChange = (key: string, value: string) => {
+    const limit = parseInt(value, 10);
+    setWipLimits(prev => {
+      const next = { ...prev };
+      if (limit > 0) next[key] = limit;
+      else delete next[key];
+      return next;
+    });
+  };
+
+  const handleSave = async () => {
+    if (!canSave) return;
+    const saved: TaskBoard = {
+      id: board?.id || Date.now().toString(),
+      name: name.trim(),
+      columnField,
+      swimlaneField,
+      customField: usesCustomField ? customField : undefined,
+      wipLimits: Object.fromEntries(Object.entries(wipLimits).filter(([key]) => columns.some(column => column.key === key))),
+      collapseDone,
+      createdAt: board?.createdAt || new Date().toISOString(),
+    };
+    await saveTaskBoard(saved);
+    onSaved?.(saved);
+    onClose();
+  };
+
+  const handleDelete = async () => {
+    if (!board) return;
+    await deleteTaskBoard(board.id);
+    onDeleted?.(board.id);
+    onClose();
+  };
+
+  return (
+    <Sheet open={isOpen} onOpenChange={(open) => !open && onClose()}>
+      <SheetContent side="bottom" className="rounded-t-[20px] max-h-[90vh] overflow-y-auto">
+        <SheetHeader className="mb-4">
+          <SheetTitle>{board ? t('taskBoards.editBoard') : t('taskBoards.newBoard')}</SheetTitle>
+        </SheetHeader>
+
+        <div className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="task-board-name">{t('taskBoards.name')}</Label>
+            <Input
+              id="task-board-name"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              placeholder={t('taskBoards.namePlaceholder')}
+            />
+          </div>
+
+          <div className="grid grid-cols-2 gap-3">
+            <div className="space-y-2">
+              <Label>{t('taskBoards.columns')}</Label>
+              <Select value={columnField} onValueChange={(value) => handleColumnFieldChange(value as BoardField)}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {BOARD_FIELDS.map(field => (
+                    <SelectItem key={field} value={field}>{t(`taskBoards.fields.${field}`)}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label>{t('taskBoards.swimlanes')}</Label>
+              <Select
+                value={swimlaneField ?? NO_SWIMLANES}
+                onValueChange={(value) => setSwimlaneField(value === NO_SWIMLANES ? null : value as BoardField)}
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={NO_SWIMLANES}>{t('taskBoards.noSwimlanes')}</SelectItem>
+                  {BOARD_FIELDS.filter(field => field !== columnField).map(field => (
+                    <SelectItem key={field} value={field}>{t(`taskBoards.fields.${field}`)}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+
+          {usesCustomField && (
+            <div className="rounded-lg bg-muted/50 p-3 space-y-3">
+              <div className="space-y-2">
+                <Label htmlFor="task-board-field-name">{t('taskBoards.customFieldName')}</Label>
+                <Input
+                  id="task-board-field-name"
+                  value={customName}
+                  onChange={(e) => setCustomName(e.target.value)}
+                  placeholder={t('taskBoards.customFieldNamePlaceholder')}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="task-board-field-options">{t('taskBoards.customFieldOptions')}</Label>
+                <Input
+                  id="task-board-field-options"
+                  value={customOptions}
+                  onChange={(e) => setCustomOptions(e.target.value)}
+                  placeholder={t('taskBoards.customFieldOptionsPlaceholder')}
+                />
+              </div>
+            </div>
+          )}
+
+          {columns.length > 0 && (
+            <div className="space-y-2">
+              <Label>{t('taskBoards.wipLimits')}</Label>
+              <p className="text-xs text-muted-foreground">{t('taskBoards.wipLimitsHelp')}</p>
+              <div className="space-y-1.5">
+                {columns.map(column => (
+                  <div key={column.key} className="flex items-center gap-2">
+                    <span className="flex-1 truncate text-sm">{column.label ?? t(column.labelKey as string)}</span>
+                    <Input
+                      type="number"
+                      min={0}
+                      inputMode="numeric"
+                      className="h-8 w-20"
+                      value={wipLimits[column.key] ?? ''}
+                      onChange={(e) => handleWipLimitChange(column.key, e.target.value)}
+                      placeholder="–"
+                    />
+                  </div>
+                ))}
+              </div>
+            </div>
+          )}
+
+          <div className="flex items-center justify-between">
+            <Label htmlFor="task-board-collapse-done">{t('taskBoards.collapseDone')}</Label>
+            <Switch id="task-board-collapse-done" checked={collapseDone} onCheckedChange={setCollapseDone} />
+          </div>
+
+          <div className="flex gap-2 pt-4">
+            {board && canDelete && (
+              <Button variant="outline" size="icon" onClick={handleDelete} className="text-destructive">
+                <Trash2 className="h-4 w-4" />
+              </Button>
+            )}
+            <Button variant="outline" onClick={onClose} className="flex-1">
+              {t('common.cancel')}
+            </Button>
+            <Button onClick={handleSave} className="flex-1" disabled={!canSave}>
+              {t('common.save')}
+            </Button>
+          </div>
+        </div>
+      </SheetContent>
+    </Sheet>
+  );
+};
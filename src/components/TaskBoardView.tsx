@@ -0,0 +1,322 @@
+import { ReactNode, useCallback, useEffect, useMemo, useState } from 'react';
+import { useTranslation } from 'react-i18next';
+import { DragDropContext, Droppable, Draggable, DropResult } from '@hello-pangea/dnd';
+import { Haptics, ImpactStyle } from '@capacitor/haptics';
+import { toast } from 'sonner';
+import { AlertTriangle, CheckCircle2, ChevronDown, ChevronRight, Plus, Settings2 } from 'lucide-react';
+import { Folder, TaskSection, TodoItem } from '@/types/note';
+import { cn } from '@/lib/utils';
+import { Button } from '@/components/ui/button';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { TaskBoardEditorSheet } from '@/components/TaskBoardEditorSheet';
+import { applyTaskOrder, updateSectionOrder } from '@/utils/taskOrderStorage';
+import {
+  BoardContext,
+  BoardGroup,
+  DONE_COLUMN,
+  TASK_BOARDS_EVENT,
+  TaskBoard,
+  WipState,
+  getActiveBoardId,
+  getBoardGroups,
+  getGroupKeys,
+  getMoveUpdates,
+  getTaskBoards,
+  getWipState,
+  isPresetBoard,
+  setActiveBoardId,
+} from '@/utils/taskBoards';
+
+interface TaskBoardViewProps {
+  items: TodoItem[];
+  sections: TaskSection[];
+  folders: Folder[];
+  renderTaskItem: (item: TodoItem) => ReactNode;
+  onUpdateTask: (id: string, updates: Partial<TodoItem>) => void;
+  // Extra controls for a column header, such as the section menu on section columns
+  renderColumnActions?: (board: TaskBoard, column: BoardGroup) => ReactNode;
+}
+
+interface BoardCell {
+  id: string;
+  orderKey: string;
+  lane: string | null;
+  column: string;
+  droppable: boolean;
+  tasks: TodoItem[];
+}
+
+const WIP_STYLES: Record<WipState, string> = {
+  none: 'text-muted-foreground bg-muted',
+  under: 'text-muted-foreground bg-muted',
+  at: 'text-amber-700 bg-amber-500/15',
+  over: 'text-destructive bg-destructive/15',
+};
+
+export const TaskBoardView = ({ items, sections, folders, renderTaskItem, onUpdateTask, renderColumnActions }: TaskBoardViewProps) => {
+  const { t } = useTranslation();
+  const [boards, setBoards] = useState<TaskBoard[]>([]);
+  const [activeId, setActiveId] = useState<string | null>(null);
+  const [editor, setEditor] = useState<{ board: TaskBoard | null } | null>(null);
+  const [doneCollapsed, setDoneCollapsed] = useState(true);
+  const [collapsedLanes, setCollapsedLanes] = useState<Set<string>>(new Set());
+  // Bumped after a drop so cells pick up the saved order
+  const [, setOrderVersion] = useState(0);
+
+  const loadBoards = useCallback(async () => {
+    const [saved, active] = await Promise.all([getTaskBoards(), getActiveBoardId()]);
+    setBoards(saved);
+    setActiveId(current => current ?? active);
+  }, []);
+
+  useEffect(() => {
+    loadBoards();
+    window.addEventListener(TASK_BOARDS_EVENT, loadBoards);
+    return () => window.removeEventListener(TASK_BOARDS_EVENT, loadBoards);
+  }, [loadBoards]);
+
+  const board = boards.find(b => b.id === activeId) ?? boards[0];
+
+  // Each board opens with its done column the way it is configured
+  const boardId = board?.id;
+  const collapseDone = board?.collapseDone;
+  useEffect(() => {
+    if (collapseDone !== undefined) setDoneCollapsed(collapseDone);
+  }, [boardId, collapseDone]);
+
+  const context: BoardContext = useMemo(
+    () => ({ tasks: items, sections, folders, customField: board?.customField }),
+    [items, sections, folders, board?.customField]
+  );
+
+  if (!board) return null;
+
+  const columns: BoardGroup[] = [
+    ...getBoardGroups(board.columnField, context),
+    { key: DONE_COLUMN, labelKey: 'taskBoards.done', color: '#10b981', droppable: true },
+  ];
+  const lanes: (BoardGroup | null)[] = board.swimlaneField ? getBoardGroups(board.swimlaneField, context) : [null];
+  const now = new Date();
+  const keysOf = new Map(items.map(item => [item.id, {
+    column: item.completed ? [DONE_COLUMN] : getGroupKeys(item, board.columnField, context, now),
+    lane: board.swimlaneField ? getGroupKeys(item, board.swimlaneField, context, now) : [],
+  }]));
+
+  const cells: BoardCell[][] = lanes.map((lane, laneIndex) => columns.map((column, columnIndex) => {
+    const orderKey = `board-${board.id}-${lane?.key ?? ''}-${column.key}`;
+    const tasks = items.filter(item => {
+      const keys = keysOf.get(item.id);
+      return !!keys && keys.column.includes(column.key) && (!lane || keys.lane.includes(lane.key));
+    });
+    return {
+      id: `cell-${laneIndex}-${columnIndex}`,
+      orderKey,
+      lane: lane?.key ?? null,
+      column: column.key,
+      droppable: column.droppable && (lane?.droppable ?? true),
+      tasks: applyTaskOrder(tasks, orderKey),
+    };
+  }));
+
+  // WIP counts are per column, across all swimlanes
+  const columnCounts = new Map(columns.map(column => [
+    column.key,
+    items.filter(item => keysOf.get(item.id)?.column.includes(column.key)).length,
+  ]));
+
+  const cellById = new Map(cells.flat().map(cell => [cell.id, cell]));
+  const labelOf = (group: BoardGroup) => group.label ?? t(group.labelKey as string);
+
+  const handleSelectBoard = (id: string) => {
+    setActiveId(id);
+    setActiveBoardId(id);
+  };
+
+  const toggleLane = (key: string) => {
+    setCollapsedLanes(prev => {
+      const next = new Set(prev);
+      if (next.has(key)) next.delete(key);
+      else next.add(key);
+      return next;
+    });
+  };
+
+  const handleDragEnd = (result: DropResult) => {
+    if (!result.destination) return;
+    const { source, destination } = result;
+    if (source.droppableId === destination.droppableId && source.index === destination.index) return;
+    const from = cellById.get(source.droppableId);
+    const to = cellById.get(destination.droppableId);
+    const task = from?.tasks[source.index];
+    if (!from || !to || !task) return;
+
+    const targetIds = to.tasks.map(item => item.id).filter(id => id !== task.id);
+    targetIds.splice(destination.index, 0, task.id);
+    updateSectionOrder(to.orderKey, targetIds);
+    if (from !== to) updateSectionOrder(from.orderKey, from.tasks.map(item => item.id).filter(id => id !== task.id));
+    setOrderVersion(v => v + 1);
+
+    if (from === to) return;
+    const updates = getMoveUpdates(task, board, from, to, context);
+    if (Object.keys(updates).length > 0) onUpdateTask(task.id, updates);
+    Haptics.impact({ style: ImpactStyle.Medium }).catch(() => {});
+
+    const limit = board.wipLimits[to.column];
+    if (from.column !== to.column && getWipState((columnCounts.get(to.column) ?? 0) + 1, limit) === 'over') {
+      const column = columns.find(c => c.key === to.column);
+      toast.warning(t('taskBoards.wipExceeded', { column: column ? labelOf(column) : '', limit }));
+    }
+  };
+
+  const renderColumnHeader = (column: BoardGroup) => {
+    const count = columnCounts.get(column.key) ?? 0;
+    const limit = board.wipLimits[column.key];
+    const wip = getWipState(count, limit);
+    const isDone = column.key === DONE_COLUMN;
+    return (
+      <button
+        onClick={() => isDone && setDoneCollapsed(collapsed => !collapsed)}
+        className={cn(
+          'w-full flex items-center gap-2 px-3 py-3 border-b border-border/30',
+          isDone && 'hover:bg-muted/20 transition-colors'
+        )}
+        style={{ borderLeft: `4px solid ${column.color ?? '#6b7280'}` }}
+      >
+        {isDone && <CheckCircle2 className="h-3.5 w-3.5 text-green-500" />}
+        <span className="text-sm font-semibold flex-1 text-left truncate">{labelOf(column)}</span>
+        {wip === 'over' && <AlertTriangle className="h-3.5 w-3.5 text-destructive" aria-label={t('taskBoards.overLimit')} />}
+        <span className={cn('text-xs px-2 py-0.5 rounded-full', WIP_STYLES[wip])}>
+          {limit ? `${count}/${limit}` : count}
+        </span>
+        {!isDone && renderColumnActions?.(board, column)}
+        {isDone && (doneCollapsed ? <ChevronRight className="h-4 w-4 text-muted-foreground" /> : <ChevronDown className="h-4 w-4 text-muted-foreground" />)}
+      </button>
+    );
+  };
+
+  const renderCell = (cell: BoardCell) => {
+    const wip = getWipState(columnCounts.get(cell.column) ?? 0, board.wipLimits[cell.column]);
+    const collapsed = cell.column === DONE_COLUMN && doneCollapsed;
+    return (
+      <Droppable droppableId={cell.id} isDropDisabled={!cell.droppable}>
+        {(provided, snapshot) => (
+          <div
+            ref={provided.innerRef}
+            {...provided.droppableProps}
+            className={cn(
+              'overflow-y-auto p-2 space-y-2',
+              collapsed ? 'min-h-[60px] max-h-[60px]' : 'min-h-[120px] max-h-[400px]',
+              wip === 'over' && 'bg-destructive/5',
+              snapshot.isDraggingOver && 'bg-primary/5'
+            )}
+          >
+            {collapsed ? (
+              <div className="py-3 text-center text-xs text-muted-foreground">
+                {t('taskBoards.doneCollapsed', { count: cell.tasks.length })}
+              </div>
+            ) : cell.tasks.length === 0 ? (
+              <div className="py-8 text-center text-sm text-muted-foreground">
+                {cell.droppable ? t('sections.dropTasksHere') : t('taskBoards.noTasks')}
+              </div>
+            ) : (
+              cell.tasks.map((item, index) => (
+                <Draggable key={item.id} draggableId={`${cell.id}-${item.id}`} index={index}>
+                  {(provided, snapshot) => (
+                    <div
+                      ref={provided.innerRef}
+                      {...provided.draggableProps}
+                      {...provided.dragHandleProps}
+                      className={cn(
+                        'bg-card rounded-lg border border-border/50 shadow-sm',
+                        item.completed && 'opacity-70',
+                        snapshot.isDragging && 'shadow-lg ring-2 ring-primary'
+                      )}
+                    >
+                      {renderTaskItem(item)}
+                    </div>
+                  )}
+                </Draggable>
+              ))
+            )}
+            {provided.placeholder}
+          </div>
+        )}
+      </Droppable>
+    );
+  };
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center gap-2">
+        <Select value={board.id} onValueChange={handleSelectBoard}>
+          <SelectTrigger className="h-9 flex-1">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {boards.map(b => (
+              <SelectItem key={b.id} value={b.id}>{b.name}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <Button variant="outline" size="icon" className="h-9 w-9" onClick={() => setEditor({ board })} aria-label={t('taskBoards.editBoard')}>
+          <Settings2 className="h-4 w-4" />
+        </Button>
+        <Button variant="outline" size="icon" className="h-9 w-9" onClick={() => setEditor({ board: null })} aria-label={t('taskBoards.newBoard')}>
+          <Plus className="h-4 w-4" />
+        </Button>
+      </div>
+
+      <DragDropContext onDragEnd={handleDragEnd}>
+        <div className="overflow-x-auto pb-4 -mx-4 px-4">
+          <div className="space-y-3" style={{ minWidth: 'max-content' }}>
+            <div className="flex gap-4">
+              {columns.map(column => (
+                <div key={column.key} className="flex-shrink-0 w-72 bg-muted/30 rounded-xl border border-border/30 overflow-hidden">
+                  {renderColumnHeader(column)}
+                  {lanes.length === 1 && !lanes[0] && renderCell(cells[0][columns.indexOf(column)])}
+                </div>
+              ))}
+            </div>
+
+            {lanes.map((lane, laneIndex) => lane && (
+              <div key={lane.key} className="space-y-2">
+                <button
+                  onClick={() => toggleLane(lane.key)}
+                  className="flex items-center gap-2 text-sm font-semibold"
+                  style={{ color: lane.color }}
+                >
+                  {collapsedLanes.has(lane.key) ? <ChevronRight className="h-4 w-4" /> : <ChevronDown className="h-4 w-4" />}
+                  {labelOf(lane)}
+                  <span className="text-xs font-normal text-muted-foreground">
+                    {new Set(cells[laneIndex].flatMap(cell => cell.tasks.map(task => task.id))).size}
+                  </span>
+                </button>
+                {!collapsedLanes.has(lane.key) && (
+                  <div className="flex gap-4">
+                    {cells[laneIndex].map(cell => (
+                      <div key={cell.id} className="flex-shrink-0 w-72 bg-muted/30 rounded-xl border border-border/30 overflow-hidden">
+                        {renderCell(cell)}
+                      </div>
+                    ))}
+                  </div>
+                )}
+              </div>
+            ))}
+          </div>
+        </div>
+      </DragDropContext>
+
+      <TaskBoardEditorSheet
+        isOpen={!!editor}
+        onClose={() => setEditor(null)}
+        board={editor?.board ?? null}
+        canDelete={!isPresetBoard(board.id)}
+        items={items}
+        sections={sections}
+        folders={folders}
+        onSaved={(saved) => handleSelectBoard(saved.id)}
+        onDeleted={(id) => id === board.id && setActiveId(null)}
+      />
+    </div>
+  );
+};
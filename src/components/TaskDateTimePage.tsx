@@ -12,19 +12,8 @@ import {
   SelectValue,
 } from '@/components/ui/select';
 import { ClockTimePicker } from '@/components/ClockTimePicker';
-
-export type RepeatFrequency = 'hour' | 'daily' | 'weekly' | 'monthly' | 'yearly';
-export type RepeatEndsType = 'never' | 'on_date' | 'after_occurrences';
-
-export interface RepeatSettings {
-  frequency: RepeatFrequency;
-  interval: number;
-  endsType: RepeatEndsType;
-  endsOnDate?: Date;
-  endsAfterOccurrences?: number;
-  weeklyDays?: number[]; // 0-6 for Sun-Sat
-  monthlyDay?: number; // 1-30
-}
+import { getUpcomingOccurrences, repeatSettingsToRecurrence } from '@/utils/recurringTasks';
+import { RepeatSettings, RepeatFrequency, RepeatEndsType } from '@/types/note';
 
 interface TaskDateTimePageProps {
   isOpen: boolean;
@@ -133,17 +122,27 @@ export const TaskDateTimePage = ({
   const handlePrevMonth = () => setCurrentMonthOffset(prev => prev - 1);
   const handleNextMonth = () => setCurrentMonthOffset(prev => prev + 1);
 
-  const handleSave = () => {
-    const repeatSettings: RepeatSettings | undefined = repeatFrequency ? {
-      frequency: repeatFrequency,
-      interval: parseInt(repeatInterval) || 1,
-      endsType: repeatEndsType,
-      endsOnDate: repeatEndsType === 'on_date' ? repeatEndsDate : undefined,
-      endsAfterOccurrences: repeatEndsType === 'after_occurrences' ? parseInt(repeatEndsOccurrences) : undefined,
-      weeklyDays: repeatFrequency === 'weekly' ? weeklyDays : undefined,
-      monthlyDay: repeatFrequency === 'monthly' ? parseInt(monthlyDay) : undefined,
-    } : undefined;
+  const repeatSettings: RepeatSettings | undefined = repeatFrequency ? {
+    frequency: repeatFrequency,
+    interval: parseInt(repeatInterval) || 1,
+    endsType: repeatEndsType,
+    endsOnDate: repeatEndsType === 'on_date' ? repeatEndsDate : undefined,
+    endsAfterOccurrences: repeatEndsType === 'after_occurrences' ? parseInt(repeatEndsOccurrences) : undefined,
+    weeklyDays: repeatFrequency === 'weekly' ? weeklyDays : undefined,
+    monthlyDay: repeatFrequency === 'monthly' ? parseInt(monthlyDay) : undefined,
+  } : undefined;
+
+  // Next few occurrences of the repeat, starting from the picked date and time
+  const repeatPreview = ((): Date[] => {
+    if (!repeatSettings) return [];
+    let hour = parseInt(selectedHour) % 12;
+    if (selectedPeriod === 'PM') hour += 12;
+    const start = new Date(selectedDate || today);
+    start.setHours(hour, parseInt(selectedMinute) || 0, 0, 0);
+    return getUpcomingOccurrences(repeatSettingsToRecurrence(repeatSettings, start), new Date(start.getTime() - 1), 5);
+  })();
 
+  const handleSave = () => {
     onSave({
       selectedDate,
       selectedTime: {
@@ -529,6 +528,16 @@ export const TaskDateTimePage = ({
                     </div>
                   )}
                 </div>
+
+                {/* Upcoming occurrences */}
+                {repeatPreview.length > 0 && (
+                  <div className="space-y-1">
+                    <span className="text-sm">Next occurrences</span>
+                    <p className="text-xs text-muted-foreground">
+                      {repeatPreview.map(d => format(d, repeatFrequency === 'hour' ? 'EEE, MMM d h:mm a' : 'EEE, MMM d')).join(' · ')}
+                    </p>
+                  </div>
+                )}
               </div>
             )}
           </div>
@@ -1,4 +1,4 @@
-import { useState } from 'react';
+import { useState, useMemo } from 'react';
 import { Sheet, SheetContent, SheetHeader, SheetTitle } from '@/components/ui/sheet';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
@@ -8,6 +8,7 @@ import { TodoItem } from '@/types/note';
 import { Link, Search, X, AlertTriangle, CheckCircle2 } from 'lucide-react';
 import { cn } from '@/lib/utils';
 import { useHardwareBackButton } from '@/hooks/useHardwareBackButton';
+import { getBlockingTasks, getDependentIds } from '@/utils/taskDependencies';
 
 interface TaskDependencySheetProps {
   isOpen: boolean;
@@ -36,11 +37,14 @@ export const TaskDependencySheet = ({
     priority: 'sheet',
   });
 
+  // Tasks that already wait on this one, directly or not; picking one would make a cycle
+  const dependentIds = useMemo(() => getDependentIds(task.id, allTasks), [task.id, allTasks]);
+
   // Filter out current task and subtasks, also filter by search
   const availableTasks = allTasks.filter(t => {
     if (t.id === task.id) return false;
     // Prevent circular dependencies
-    if (t.dependsOn?.includes(task.id)) return false;
+    if (dependentIds.has(t.id)) return false;
     if (searchQuery) {
       return t.text.toLowerCase().includes(searchQuery.toLowerCase());
     }
@@ -181,14 +185,7 @@ export const TaskDependencySheet = ({
 
 // Helper function to check if task can be completed
 export const canCompleteTask = (task: TodoItem, allTasks: TodoItem[]): { canComplete: boolean; blockedBy: TodoItem[] } => {
-  if (!task.dependsOn || task.dependsOn.length === 0) {
-    return { canComplete: true, blockedBy: [] };
-  }
-  
-  const blockedBy = allTasks.filter(t => 
-    task.dependsOn?.includes(t.id) && !t.completed
-  );
-  
+  const blockedBy = getBlockingTasks(task, allTasks);
   return {
     canComplete: blockedBy.length === 0,
     blockedBy,
@@ -1,6 +1,6 @@
 import { useState, useRef, useEffect, useCallback } from 'react';
 import { useTranslation } from 'react-i18next';
-import { TodoItem, Priority, Folder, Note, RepeatType, ColoredTag, TimeTracking, TaskStatus } from '@/types/note';
+import { TodoItem, Priority, Folder, Note, RepeatType, ColoredTag, TimeTracking, TaskStatus, RepeatSettings } from '@/types/note';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Checkbox } from '@/components/ui/checkbox';
@@ -32,7 +32,9 @@ import {
   Link,
   Clock,
   GripVertical,
-  Circle
+  Circle,
+  GitMerge,
+  History
 } from 'lucide-react';
 import { DragDropContext, Droppable, Draggable, DropResult } from '@hello-pangea/dnd';
 import { LocationMapPreview } from './LocationMapPreview';
@@ -41,14 +43,21 @@ import { format } from 'date-fns';
 import { toast } from 'sonner';
 import { WaveformProgressBar } from './WaveformProgressBar';
 import { Play, Pause } from 'lucide-react';
-import { TaskDateTimePage, RepeatSettings } from './TaskDateTimePage';
+import { TaskDateTimePage } from './TaskDateTimePage';
 import { TaskTimeTracker } from './TaskTimeTracker';
 import { TaskDependencySheet, canCompleteTask } from './TaskDependencySheet';
+import { ensureCanComplete } from '@/utils/taskDependencies';
 import { notificationManager } from '@/utils/notifications';
 import { ResolvedTaskImage } from './ResolvedTaskImage';
 import { resolveTaskMediaUrl } from '@/utils/todoItemsStorage';
+import { recurrenceToRepeatSettings, repeatSettingsToRecurrence, repeatSettingsToRepeatType } from '@/utils/recurringTasks';
 import { TaskInputSheet } from './TaskInputSheet';
 import { SubtaskDetailSheet } from './SubtaskDetailSheet';
+import { SyncConflictSheet } from './SyncConflictSheet';
+import { TaskHistorySheet } from './TaskHistorySheet';
+import { getSyncConflict, removeSyncConflict, SyncConflictRecord } from '@/utils/syncConflicts';
+import { ESTIMATE_OPTIONS, formatMinutes } from '@/utils/timeBlocking';
+import { getTimeEntries, TIME_ENTRIES_EVENT } from '@/utils/timeEntries';
 
 interface TaskDetailPageProps {
   isOpen: boolean;
@@ -107,10 +116,15 @@ export const TaskDetailPage = ({
   // Subtask detail sheet state
   const [selectedSubtask, setSelectedSubtask] = useState<TodoItem | null>(null);
   const [showSubtaskDetailSheet, setShowSubtaskDetailSheet] = useState(false);
+  const [syncConflict, setSyncConflict] = useState<SyncConflictRecord | null>(null);
+  const [showSyncConflictSheet, setShowSyncConflictSheet] = useState(false);
+  const [showHistorySheet, setShowHistorySheet] = useState(false);
+  const [trackedSeconds, setTrackedSeconds] = useState(0);
 
   useEffect(() => {
     if (task) {
       setTitle(task.text);
+      if (task.recurrence) setRepeatSettings(recurrenceToRepeatSettings(task.recurrence));
       // Resolve audio URL
       if (task.voiceRecording?.audioUrl) {
         resolveTaskMediaUrl(task.voiceRecording.audioUrl).then(url => {
@@ -122,6 +136,18 @@ export const TaskDetailPage = ({
     }
   }, [task]);
 
+  // Stopwatch and Pomodoro time together, for comparing with the estimate
+  const taskId = task?.id;
+  useEffect(() => {
+    if (!taskId) return;
+    const loadTracked = () => getTimeEntries().then(entries => {
+      setTrackedSeconds(entries.filter(entry => entry.taskId === taskId).reduce((sum, entry) => sum + entry.seconds, 0));
+    });
+    loadTracked();
+    window.addEventListener(TIME_ENTRIES_EVENT, loadTracked);
+    return () => window.removeEventListener(TIME_ENTRIES_EVENT, loadTracked);
+  }, [taskId]);
+
   useEffect(() => {
     if (showSubtaskInput && subtaskInputRef.current) {
       subtaskInputRef.current.focus();
@@ -139,10 +165,31 @@ export const TaskDetailPage = ({
     priority: 'sheet',
   });
 
+  // Load any unresolved sync conflict for this task
+  useEffect(() => {
+    if (!isOpen || !task?.id) return;
+    const loadConflict = () => getSyncConflict('tasks', task.id).then(setSyncConflict);
+    loadConflict();
+    window.addEventListener('syncConflictsUpdated', loadConflict);
+    return () => window.removeEventListener('syncConflictsUpdated', loadConflict);
+  }, [isOpen, task?.id]);
+
   if (!isOpen || !task) return null;
 
   const currentFolder = folders.find(f => f.id === task.folderId);
 
+  const handleResolveSyncConflict = async (values: Record<string, unknown>) => {
+    const updates: Partial<TodoItem> = {};
+    if (typeof values.text === 'string') {
+      updates.text = values.text;
+      setTitle(values.text);
+    }
+    if (typeof values.description === 'string') updates.description = values.description;
+    onUpdate({ ...task, ...updates });
+    await removeSyncConflict('tasks', task.id);
+    toast.success(t('toast.syncConflictResolved'));
+  };
+
   const handleTitleBlur = () => {
     if (title.trim() !== task.text) {
       onUpdate({ ...task, text: title.trim() });
@@ -150,6 +197,7 @@ export const TaskDetailPage = ({
   };
 
   const handleMarkAsDone = async () => {
+    if (!ensureCanComplete(task, allTasks)) return;
     try { await Haptics.impact({ style: ImpactStyle.Heavy }); } catch {}
     onUpdate({ ...task, completed: !task.completed });
     toast.success(task.completed ? t('taskDetail.markAsIncomplete') : t('taskDetail.markAsDone'));
@@ -309,11 +357,21 @@ export const TaskDetailPage = ({
       reminderTime.setHours(hours, data.selectedTime.minute, 0, 0);
     }
 
+    // Rules the page cannot show (e.g. "last business day") are kept unless a new repeat is picked
+    const keepsRecurrence = !data.repeatSettings && !!task.recurrence && !recurrenceToRepeatSettings(task.recurrence);
+    let recurrence = keepsRecurrence ? task.recurrence : undefined;
+    if (data.repeatSettings) {
+      recurrence = repeatSettingsToRecurrence(data.repeatSettings, reminderTime || data.selectedDate || new Date());
+      // An unchanged rule keeps its series start so COUNT keeps counting from the first occurrence
+      if (task.recurrence?.rrule === recurrence.rrule) recurrence = task.recurrence;
+    }
+
     const updatedTask: TodoItem = {
       ...task,
       dueDate: data.selectedDate,
       reminderTime,
-      repeatType: data.repeatSettings?.frequency as any || 'none',
+      repeatType: data.repeatSettings ? repeatSettingsToRepeatType(data.repeatSettings) : keepsRecurrence ? task.repeatType : 'none',
+      recurrence,
     };
 
     onUpdate(updatedTask);
@@ -561,6 +619,9 @@ export const TaskDetailPage = ({
               <DropdownMenuItem onClick={handlePin} className="cursor-pointer">
                 <Pin className="h-4 w-4 mr-2" />{t('taskDetail.pinTask')}
               </DropdownMenuItem>
+              <DropdownMenuItem onClick={() => setShowHistorySheet(true)} className="cursor-pointer">
+                <History className="h-4 w-4 mr-2" />{t('taskDetail.history')}
+              </DropdownMenuItem>
               <DropdownMenuSeparator />
               <DropdownMenuItem onClick={handleDelete} className="cursor-pointer text-destructive">
                 <Trash2 className="h-4 w-4 mr-2" />{t('taskDetail.deleteTask')}
@@ -570,6 +631,18 @@ export const TaskDetailPage = ({
         </div>
       </header>
 
+      {/* Unresolved sync conflict banner */}
+      {syncConflict && (
+        <button
+          type="button"
+          onClick={() => setShowSyncConflictSheet(true)}
+          className="w-full px-4 py-2 flex items-center gap-2 text-xs font-medium bg-amber-50 dark:bg-amber-950/50 text-amber-700 dark:text-amber-300 border-b border-amber-200 dark:border-amber-800"
+        >
+          <GitMerge className="h-4 w-4" />
+          {t('editor.syncConflictBanner')}
+        </button>
+      )}
+
       {/* Content */}
       <div className="flex-1 overflow-y-auto px-4 py-4 space-y-6">
         {/* Task Title */}
@@ -847,7 +920,30 @@ export const TaskDetailPage = ({
           <TaskTimeTracker
             timeTracking={task.timeTracking}
             onUpdate={(tracking) => onUpdate({ ...task, timeTracking: tracking })}
+            taskId={task.id}
+            taskText={task.text}
           />
+          <div className="flex items-center gap-3">
+            <span className="text-sm text-muted-foreground flex-1">
+              {task.estimatedMinutes
+                ? t('taskDetail.trackedOfEstimate', { tracked: formatMinutes(Math.round(trackedSeconds / 60)), estimate: formatMinutes(task.estimatedMinutes) })
+                : t('taskDetail.estimate')}
+            </span>
+            <Select
+              value={task.estimatedMinutes ? String(task.estimatedMinutes) : 'none'}
+              onValueChange={(value) => onUpdate({ ...task, estimatedMinutes: value === 'none' ? undefined : Number(value) })}
+            >
+              <SelectTrigger className="w-32">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="none">{t('taskDetail.noEstimate')}</SelectItem>
+                {[...new Set([...ESTIMATE_OPTIONS, ...(task.estimatedMinutes ? [task.estimatedMinutes] : [])])].sort((a, b) => a - b).map(minutes => (
+                  <SelectItem key={minutes} value={String(minutes)}>{formatMinutes(minutes)}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
         </div>
 
         {/* Dependencies */}
@@ -1071,6 +1167,24 @@ export const TaskDetailPage = ({
         onCreateFolder={() => {}}
       />
 
+      {/* Sync Conflict Resolution Sheet */}
+      {syncConflict && (
+        <SyncConflictSheet
+          isOpen={showSyncConflictSheet}
+          onClose={() => setShowSyncConflictSheet(false)}
+          conflict={syncConflict}
+          current={{ text: title, description: task.description }}
+          onResolve={handleResolveSyncConflict}
+        />
+      )}
+
+      <TaskHistorySheet
+        isOpen={showHistorySheet}
+        onClose={() => setShowHistorySheet(false)}
+        taskId={task.id}
+        folders={folders}
+      />
+
       {/* Subtask Detail Sheet */}
       <SubtaskDetailSheet
         isOpen={showSubtaskDetailSheet}
@@ -0,0 +1,127 @@
+import { useState, useMemo, useEffect } from 'react';
+import { useTranslation } from 'react-i18next';
+import { format } from 'date-fns';
+import { Sheet, SheetContent, SheetHeader, SheetTitle } from '@/components/ui/sheet';
+import { Input } from '@/components/ui/input';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { TodoItem } from '@/types/note';
+import { ListTodo, Plus, Search, CheckCircle2, Circle } from 'lucide-react';
+import { cn } from '@/lib/utils';
+import { useHardwareBackButton } from '@/hooks/useHardwareBackButton';
+import { loadTodoItems } from '@/utils/todoItemsStorage';
+import { createEmbeddedTask } from '@/utils/taskEmbeds';
+
+interface TaskEmbedPickerProps {
+  isOpen: boolean;
+  onClose: () => void;
+  onSelectTask: (task: TodoItem) => void;
+}
+
+export const TaskEmbedPicker = ({ isOpen, onClose, onSelectTask }: TaskEmbedPickerProps) => {
+  const { t } = useTranslation();
+  const [searchQuery, setSearchQuery] = useState('');
+  const [tasks, setTasks] = useState<TodoItem[]>([]);
+
+  useHardwareBackButton({
+    onBack: onClose,
+    enabled: isOpen,
+    priority: 'sheet',
+  });
+
+  useEffect(() => {
+    if (!isOpen) return;
+    loadTodoItems().then(setTasks);
+  }, [isOpen]);
+
+  // Open tasks first, then recently completed ones
+  const filteredTasks = useMemo(() => {
+    const query = searchQuery.trim().toLowerCase();
+    return tasks
+      .filter(task => !query || task.text.toLowerCase().includes(query))
+      .sort((a, b) => Number(a.completed) - Number(b.completed))
+      .slice(0, 50);
+  }, [tasks, searchQuery]);
+
+  const handleSelect = (task: TodoItem) => {
+    onSelectTask(task);
+    setSearchQuery('');
+  };
+
+  const handleCreate = async () => {
+    const text = searchQuery.trim();
+    if (!text) return;
+    handleSelect(await createEmbeddedTask(text));
+  };
+
+  return (
+    <Sheet open={isOpen} onOpenChange={(open) => !open && onClose()}>
+      <SheetContent side="bottom" className="h-[60vh]">
+        <SheetHeader className="pb-4">
+          <SheetTitle className="flex items-center gap-2">
+            <ListTodo className="h-5 w-5" />
+            {t('taskEmbeds.title')}
+          </SheetTitle>
+        </SheetHeader>
+
+        <div className="relative mb-4">
+          <Search className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-muted-foreground" />
+          <Input
+            placeholder={t('taskEmbeds.searchPlaceholder')}
+            value={searchQuery}
+            onChange={(e) => setSearchQuery(e.target.value)}
+            onKeyDown={(e) => e.key === 'Enter' && filteredTasks.length === 0 && handleCreate()}
+            className="pl-9"
+            autoFocus
+          />
+        </div>
+
+        <ScrollArea className="h-[calc(100%-6rem)]">
+          <div className="space-y-2 pr-4">
+            {searchQuery.trim() && (
+              <button
+                onClick={handleCreate}
+                className="w-full text-left p-3 rounded-lg border border-dashed bg-card transition-colors hover:bg-accent/50 hover:border-primary/50 flex items-center gap-3"
+              >
+                <Plus className="h-5 w-5 text-primary shrink-0" />
+                <span className="font-medium truncate">{t('taskEmbeds.createTask', { text: searchQuery.trim() })}</span>
+              </button>
+            )}
+            {filteredTasks.length === 0 && !searchQuery.trim() ? (
+              <div className="text-center py-12 text-muted-foreground">
+                <ListTodo className="h-12 w-12 mx-auto mb-4 opacity-50" />
+                <p>{t('taskEmbeds.noTasks')}</p>
+              </div>
+            ) : (
+              filteredTasks.map((task) => (
+                <button
+                  key={task.id}
+                  onClick={() => handleSelect(task)}
+                  className={cn(
+                    "w-full text-left p-3 rounded-lg border bg-card transition-colors",
+                    "hover:bg-accent/50 hover:border-primary/50"
+                  )}
+                >
+                  <div className="flex items-start gap-3">
+                    {task.completed ? (
+                      <CheckCircle2 className="h-5 w-5 text-primary shrink-0 mt-0.5" />
+                    ) : (
+                      <Circle className="h-5 w-5 text-muted-foreground shrink-0 mt-0.5" />
+                    )}
+                    <div className="flex-1 min-w-0">
+                      <p className={cn("font-medium truncate", task.completed && "line-through text-muted-foreground")}>
+                        {task.text}
+                      </p>
+                      {task.dueDate && (
+                        <p className="text-xs text-muted-foreground mt-1">{format(task.dueDate, 'MMM d, yyyy')}</p>
+                      )}
+                    </div>
+                  </div>
+                </button>
+              ))
+            )}
+          </div>
+        </ScrollArea>
+      </SheetContent>
+    </Sheet>
+  );
+};
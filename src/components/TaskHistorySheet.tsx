@@ -0,0 +1,119 @@
+import { useState, useEffect } from 'react';
+import { useTranslation } from 'react-i18next';
+import { TFunction } from 'i18next';
+import { format } from 'date-fns';
+import { Folder, TaskSection, TodoItem } from '@/types/note';
+import { Sheet, SheetContent, SheetHeader, SheetTitle } from '@/components/ui/sheet';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { History, ArrowRight } from 'lucide-react';
+import { useHardwareBackButton } from '@/hooks/useHardwareBackButton';
+import { getSetting } from '@/utils/settingsStorage';
+import { getTaskChanges, TaskChange, TASK_HISTORY_EVENT } from '@/utils/taskHistory';
+
+interface TaskHistorySheetProps {
+  isOpen: boolean;
+  onClose: () => void;
+  taskId: string;
+  folders: Folder[];
+}
+
+const MAX_TEXT_LENGTH = 80;
+
+// A stored field value as something short to read
+const formatValue = (
+  field: keyof TodoItem,
+  value: unknown,
+  names: Map<string, string>,
+  t: TFunction
+): string => {
+  if (value === undefined || value === null || value === '' || (Array.isArray(value) && value.length === 0)) {
+    return t('taskChanges.none');
+  }
+  if (value instanceof Date) return format(value, 'PP p');
+  if (typeof value === 'boolean') return value ? t('taskChanges.yes') : t('taskChanges.no');
+  if ((field === 'folderId' || field === 'sectionId') && typeof value === 'string') return names.get(value) ?? value;
+  if (field === 'subtasks' && Array.isArray(value)) return t('taskChanges.subtaskCount', { count: value.length });
+  if (field === 'coloredTags' && Array.isArray(value)) return value.map((tag: { name: string }) => tag.name).join(', ');
+  if (Array.isArray(value) && value.every(item => typeof item === 'string' || typeof item === 'number')) return value.join(', ');
+  if (typeof value === 'string' || typeof value === 'number') {
+    const text = String(value);
+    return text.length > MAX_TEXT_LENGTH ? `${text.slice(0, MAX_TEXT_LENGTH)}…` : text;
+  }
+  return t('taskChanges.changed');
+};
+
+export const TaskHistorySheet = ({ isOpen, onClose, taskId, folders }: TaskHistorySheetProps) => {
+  const { t } = useTranslation();
+  const [changes, setChanges] = useState<TaskChange[]>([]);
+  const [sections, setSections] = useState<TaskSection[]>([]);
+
+  useHardwareBackButton({
+    onBack: onClose,
+    enabled: isOpen,
+    priority: 'sheet',
+  });
+
+  useEffect(() => {
+    if (!isOpen) return;
+    const load = () => getTaskChanges(taskId).then(setChanges);
+    load();
+    getSetting<TaskSection[]>('todoSections', []).then(setSections);
+    window.addEventListener(TASK_HISTORY_EVENT, load);
+    return () => window.removeEventListener(TASK_HISTORY_EVENT, load);
+  }, [isOpen, taskId]);
+
+  const names = new Map<string, string>([
+    ...folders.map((folder): [string, string] => [folder.id, folder.name]),
+    ...sections.map((section): [string, string] => [section.id, section.name]),
+  ]);
+
+  return (
+    <Sheet open={isOpen} onOpenChange={(open) => !open && onClose()}>
+      <SheetContent side="bottom" className="h-[70vh]">
+        <SheetHeader className="pb-4">
+          <SheetTitle className="flex items-center gap-2">
+            <History className="h-5 w-5" />
+            {t('taskChanges.title')}
+          </SheetTitle>
+        </SheetHeader>
+
+        <ScrollArea className="h-[calc(100%-4rem)]">
+          {changes.length === 0 ? (
+            <div className="text-center py-12 text-muted-foreground">
+              <History className="h-12 w-12 mx-auto mb-4 opacity-50" />
+              <p>{t('taskChanges.empty')}</p>
+            </div>
+          ) : (
+            <div className="space-y-2 pr-4">
+              {changes.map(change => (
+                <div key={change.id} className="p-3 rounded-lg border bg-card">
+                  <div className="flex items-center gap-2 mb-1">
+                    <span className="text-sm font-medium">{t(`taskChanges.actions.${change.type}`)}</span>
+                    <span className="text-xs text-muted-foreground">{format(change.timestamp, 'PP p')}</span>
+                    {change.source !== 'user' && (
+                      <span className="text-xs bg-muted text-muted-foreground px-2 py-0.5 rounded">
+                        {t(`taskChanges.sources.${change.source}`)}
+                      </span>
+                    )}
+                  </div>
+                  <div className="space-y-0.5">
+                    {change.fields.map(field => (
+                      <div key={field} className="flex flex-wrap items-center gap-1 text-xs">
+                        <span className="text-muted-foreground">{t(`taskChanges.fields.${field}`, { defaultValue: field })}:</span>
+                        <span className="line-through text-muted-foreground">
+                          {formatValue(field, change.before?.[field], names, t)}
+                        </span>
+                        <ArrowRight className="h-3 w-3 text-muted-foreground" />
+                        <span>{formatValue(field, change.after?.[field], names, t)}</span>
+                      </div>
+                    ))}
+                  </div>
+                </div>
+              ))}
+            </div>
+          )}
+        </ScrollArea>
+      </SheetContent>
+    </Sheet>
+  );
+};
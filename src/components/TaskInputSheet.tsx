@@ -1,6 +1,6 @@
 import { useState, useEffect, useRef, useMemo, useCallback } from 'react';
 import { useTranslation } from 'react-i18next';
-import { TodoItem, Priority, RepeatType, Folder, ColoredTag, VoiceRecording, LocationReminder } from '@/types/note';
+import { TodoItem, Priority, RepeatType, Folder, ColoredTag, VoiceRecording, LocationReminder, RepeatSettings } from '@/types/note';
 import { Input } from '@/components/ui/input';
 import { Button } from '@/components/ui/button';
 import { Calendar } from '@/components/ui/calendar';
@@ -46,8 +46,9 @@ import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover
 import { format } from 'date-fns';
 import { Separator } from '@/components/ui/separator';
 import { Dialog, DialogContent, DialogHeader, DialogTitle } from '@/components/ui/dialog';
-import { TaskDateTimePage, RepeatSettings } from './TaskDateTimePage';
+import { TaskDateTimePage } from './TaskDateTimePage';
 import { parseNaturalLanguageTask, hasNaturalLanguagePatterns } from '@/utils/naturalLanguageParser';
+import { repeatSettingsToRecurrence, repeatSettingsToRepeatType } from '@/utils/recurringTasks';
 
 interface TaskSection {
   id: string;
@@ -302,6 +303,14 @@ export const TaskInputSheet = ({ isOpen, onClose, onAddTask, folders, selectedFo
       mainTask.dueDate = deadline;
     }
 
+    // Keep end conditions and rules the simple repeat fields cannot hold; the series starts at the due date
+    const recurrence = repeatSettings
+      ? repeatSettingsToRecurrence(repeatSettings, mainTask.dueDate)
+      : parsed?.recurrence;
+    if (recurrence) {
+      mainTask.recurrence = { ...recurrence, dtstart: recurrence.dtstart || mainTask.dueDate || new Date() };
+    }
+
     onAddTask(mainTask);
     setTaskText('');
     setVoiceRecording(undefined);
@@ -570,19 +579,9 @@ export const TaskInputSheet = ({ isOpen, onClose, onAddTask, folders, selectedFo
     if (data.repeatSettings) {
       setRepeatSettings(data.repeatSettings);
       // Map to legacy repeatType for compatibility
-      switch (data.repeatSettings.frequency) {
-        case 'daily':
-          setRepeatType('daily');
-          break;
-        case 'weekly':
-          setRepeatType('weekly');
-          setRepeatDays(data.repeatSettings.weeklyDays || []);
-          break;
-        case 'monthly':
-          setRepeatType('monthly');
-          break;
-        default:
-          setRepeatType('none');
+      setRepeatType(repeatSettingsToRepeatType(data.repeatSettings));
+      if (data.repeatSettings.frequency === 'weekly') {
+        setRepeatDays(data.repeatSettings.weeklyDays || []);
       }
     } else {
       setRepeatSettings(undefined);
@@ -358,7 +358,7 @@ export const TaskItem = ({
               {item.repeatType && item.repeatType !== 'none' && (
                 <span className="inline-flex items-center gap-1 text-[10px] px-1.5 py-0.5 rounded-full bg-purple-500/20 text-purple-600">
                   <Repeat className="h-2.5 w-2.5" />
-                  {getRepeatLabel(item.repeatType, item.repeatDays, item.advancedRepeat)}
+                  {getRepeatLabel(item.repeatType, item.repeatDays, item.advancedRepeat, item.recurrence)}
                 </span>
               )}
               {hasDependencies && (
@@ -1,51 +1,46 @@
-import { useState, useEffect, useRef } from 'react';
+import { useState, useEffect } from 'react';
 import { Button } from '@/components/ui/button';
 import { Play, Pause, RotateCcw, Clock } from 'lucide-react';
 import { TimeTracking } from '@/types/note';
 import { cn } from '@/lib/utils';
+import { useTaskTimeTotals } from '@/hooks/useTaskTimeTotals';
+import { addTimeEntry, removeTaskTimeEntries } from '@/utils/timeEntries';
 
 interface TaskTimeTrackerProps {
+  taskId: string;
+  taskText?: string;
+  // Only whether the stopwatch runs is kept on the task; finished sessions become time entries
   timeTracking?: TimeTracking;
   onUpdate: (tracking: TimeTracking) => void;
   compact?: boolean;
 }
 
-export const TaskTimeTracker = ({ timeTracking, onUpdate, compact = false }: TaskTimeTrackerProps) => {
-  const [displayTime, setDisplayTime] = useState(timeTracking?.totalSeconds || 0);
-  const [isRunning, setIsRunning] = useState(timeTracking?.isRunning || false);
-  const intervalRef = useRef<NodeJS.Timeout | null>(null);
-  const startTimeRef = useRef<Date | null>(null);
+export const TaskTimeTracker = ({ taskId, taskText = '', timeTracking, onUpdate, compact = false }: TaskTimeTrackerProps) => {
+  const trackedSeconds = useTaskTimeTotals().get(taskId)?.seconds ?? 0;
+  const [startedAt, setStartedAt] = useState<Date | null>(null);
+  const [elapsed, setElapsed] = useState(0);
+  const [countedSeconds, setCountedSeconds] = useState(trackedSeconds);
 
-  useEffect(() => {
-    if (timeTracking) {
-      setDisplayTime(timeTracking.totalSeconds || 0);
-      setIsRunning(timeTracking.isRunning || false);
-      
-      // If timer was running, calculate elapsed time since last started
-      if (timeTracking.isRunning && timeTracking.lastStarted) {
-        const lastStarted = new Date(timeTracking.lastStarted);
-        const elapsed = Math.floor((Date.now() - lastStarted.getTime()) / 1000);
-        setDisplayTime((timeTracking.totalSeconds || 0) + elapsed);
-        startTimeRef.current = lastStarted;
-      }
-    }
-  }, [timeTracking]);
+  // A stopped session keeps showing until its entry is counted in the total
+  if (countedSeconds !== trackedSeconds) {
+    setCountedSeconds(trackedSeconds);
+    if (!startedAt) setElapsed(0);
+  }
+  const isRunning = !!startedAt;
+  const displayTime = trackedSeconds + elapsed;
 
+  // Pick up a stopwatch left running, e.g. before the app was closed
   useEffect(() => {
-    if (isRunning) {
-      intervalRef.current = setInterval(() => {
-        setDisplayTime(prev => prev + 1);
-      }, 1000);
-    } else if (intervalRef.current) {
-      clearInterval(intervalRef.current);
-    }
+    setStartedAt(timeTracking?.isRunning && timeTracking.lastStarted ? new Date(timeTracking.lastStarted) : null);
+  }, [timeTracking?.isRunning, timeTracking?.lastStarted]);
 
-    return () => {
-      if (intervalRef.current) {
-        clearInterval(intervalRef.current);
-      }
-    };
-  }, [isRunning]);
+  useEffect(() => {
+    if (!startedAt) return;
+    const tick = () => setElapsed(Math.max(0, Math.floor((Date.now() - startedAt.getTime()) / 1000)));
+    tick();
+    const interval = setInterval(tick, 1000);
+    return () => clearInterval(interval);
+  }, [startedAt]);
 
   const formatTime = (totalSeconds: number) => {
     const hours = Math.floor(totalSeconds / 3600);
@@ -60,52 +55,25 @@ export const TaskTimeTracker = ({ timeTracking, onUpdate, compact = false }: Tas
 
   const handleStart = () => {
     const now = new Date();
-    startTimeRef.current = now;
-    setIsRunning(true);
-    
-    onUpdate({
-      totalSeconds: displayTime,
-      isRunning: true,
-      lastStarted: now,
-      sessions: timeTracking?.sessions || [],
-    });
+    setStartedAt(now);
+    onUpdate({ isRunning: true, lastStarted: now });
   };
 
   const handlePause = () => {
-    setIsRunning(false);
-    
-    const sessions = [...(timeTracking?.sessions || [])];
-    if (startTimeRef.current) {
+    if (startedAt) {
       const end = new Date();
-      const duration = Math.floor((end.getTime() - startTimeRef.current.getTime()) / 1000);
-      sessions.push({
-        start: startTimeRef.current,
-        end,
-        duration,
-      });
+      const duration = Math.floor((end.getTime() - startedAt.getTime()) / 1000);
+      addTimeEntry({ taskId, taskText, start: startedAt, end, seconds: duration, source: 'timer' });
     }
-    
-    onUpdate({
-      totalSeconds: displayTime,
-      isRunning: false,
-      lastStarted: undefined,
-      sessions,
-    });
-    
-    startTimeRef.current = null;
+    setStartedAt(null);
+    onUpdate({ isRunning: false });
   };
 
   const handleReset = () => {
-    setDisplayTime(0);
-    setIsRunning(false);
-    startTimeRef.current = null;
-    
-    onUpdate({
-      totalSeconds: 0,
-      isRunning: false,
-      lastStarted: undefined,
-      sessions: [],
-    });
+    setStartedAt(null);
+    setElapsed(0);
+    removeTaskTimeEntries(taskId, 'timer');
+    onUpdate({ isRunning: false });
   };
 
   if (compact) {
@@ -1,4 +1,4 @@
-import { Home, CalendarDays, Calendar, Settings, LayoutDashboard, History, BookOpen } from 'lucide-react';
+import { Home, CalendarDays, Calendar, Settings, LayoutDashboard, History, BookOpen, GanttChart, CalendarClock } from 'lucide-react';
 import { Link, useLocation } from 'react-router-dom';
 import { cn } from '@/lib/utils';
 import { triggerHaptic } from '@/utils/haptics';
@@ -23,6 +23,8 @@ export const TodoBottomNavigation = () => {
   const moreItems = [
     { icon: BookOpen, label: t('nav.weeklyReview'), path: '/todo/weekly-review' },
     { icon: History, label: t('nav.taskHistory'), path: '/todo/history' },
+    { icon: GanttChart, label: t('nav.timeline'), path: '/todo/timeline' },
+    { icon: CalendarClock, label: t('nav.timeBlocking'), path: '/todo/time-blocks' },
     { icon: Settings, label: t('nav.settings'), path: '/todo/settings' },
   ];
 
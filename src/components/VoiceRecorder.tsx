@@ -1,4 +1,4 @@
-import { useState, useRef } from 'react';
+import { useState, useRef, useEffect } from 'react';
 import { useTranslation } from 'react-i18next';
 import { Button } from '@/components/ui/button';
 import { Mic, Square } from 'lucide-react';
@@ -11,6 +11,8 @@ interface VoiceRecorderProps {
   onRecordingDelete: (id: string) => void;
   onInsertAtCursor?: (audioBase64: string, recordingId: string) => void;
   compact?: boolean;
+  // Start recording as soon as the recorder is shown
+  autoStart?: boolean;
 }
 
 export const VoiceRecorder = ({
@@ -19,6 +21,7 @@ export const VoiceRecorder = ({
   onRecordingDelete,
   onInsertAtCursor,
   compact = false,
+  autoStart = false,
 }: VoiceRecorderProps) => {
   const { t } = useTranslation();
   const [isRecording, setIsRecording] = useState(false);
@@ -26,6 +29,7 @@ export const VoiceRecorder = ({
   const mediaRecorderRef = useRef<MediaRecorder | null>(null);
   const chunksRef = useRef<Blob[]>([]);
   const timerRef = useRef<NodeJS.Timeout | null>(null);
+  const autoStartedRef = useRef(false);
 
   const startRecording = async () => {
     try {
@@ -78,6 +82,23 @@ export const VoiceRecorder = ({
     }
   };
 
+  // Runs after every render, but starts at most once
+  useEffect(() => {
+    if (!autoStart || autoStartedRef.current) return;
+    autoStartedRef.current = true;
+    startRecording();
+  });
+
+  // A recording still running when the recorder goes away is dropped and the microphone released
+  useEffect(() => () => {
+    const recorder = mediaRecorderRef.current;
+    if (timerRef.current) clearInterval(timerRef.current);
+    if (!recorder || recorder.state === 'inactive') return;
+    recorder.onstop = null;
+    recorder.stop();
+    recorder.stream.getTracks().forEach(track => track.stop());
+  }, []);
+
   const stopRecording = () => {
     if (mediaRecorderRef.current && isRecording) {
       mediaRecorderRef.current.stop();
@@ -0,0 +1,27 @@
+import { useEffect, useState } from 'react';
+import { CustomSmartList, getCustomSmartLists } from '@/utils/customSmartLists';
+
+/**
+ * Saved custom smart lists, kept current when any page adds, edits or
+ * deletes one.
+ */
+export const useCustomSmartLists = () => {
+  const [lists, setLists] = useState<CustomSmartList[]>([]);
+
+  useEffect(() => {
+    let cancelled = false;
+    const load = () => {
+      getCustomSmartLists().then(saved => {
+        if (!cancelled) setLists(saved);
+      });
+    };
+    load();
+    window.addEventListener('customSmartListsUpdated', load);
+    return () => {
+      cancelled = true;
+      window.removeEventListener('customSmartListsUpdated', load);
+    };
+  }, []);
+
+  return lists;
+};
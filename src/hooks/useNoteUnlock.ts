@@ -0,0 +1,86 @@
+import { useRef, useState } from 'react';
+import { Note } from '@/types/note';
+import { saveNoteToDBSingle } from '@/utils/noteStorage';
+import { getNoteProtection, verifyNotePassword } from '@/utils/noteProtection';
+import {
+  isEncrypted,
+  isNoteUnlocked,
+  openNote,
+  removeLegacyEncryptionKey,
+  unlockNote,
+} from '@/utils/noteEncryption';
+
+export const isNoteEncrypted = (note: Note) => isEncrypted(note.content) || isEncrypted(note.codeContent);
+
+interface UnlockRequest {
+  note: Note;
+  onOpened: (note: Note) => void;
+}
+
+/**
+ * The unlock step in front of protected notes. `openProtectedNote` hands the
+ * note to `onOpened` decrypted, after the unlock sheet when the note is
+ * locked; render `NoteUnlockSheet` with `unlockSheet` while it is set.
+ * `onUpgraded` receives notes re-encrypted in the current format on unlock,
+ * already saved, so the page can update its list.
+ */
+export const useNoteUnlock = (onUpgraded?: (note: Note) => void) => {
+  const [request, setRequest] = useState<UnlockRequest | null>(null);
+  const unlockedNoteRef = useRef<Note | null>(null);
+
+  // Protected notes go through the unlock sheet unless already unlocked this session
+  const needsUnlock = async (note: Note) => {
+    if (isNoteUnlocked(note.id)) return false;
+    if (isNoteEncrypted(note)) return true;
+    const protection = await getNoteProtection(note.id);
+    return protection.hasPassword || protection.useBiometric;
+  };
+
+  const openProtectedNote = async (note: Note, onOpened: (note: Note) => void) => {
+    if (await needsUnlock(note)) {
+      unlockedNoteRef.current = null;
+      setRequest({ note, onOpened });
+      return;
+    }
+    onOpened(await openNote(note));
+  };
+
+  // Decrypt with the password; older XOR or plain-text content is upgraded to AES-GCM on the way
+  const handlePasswordSubmit = async (password: string): Promise<boolean> => {
+    if (!request) return false;
+    const { note } = request;
+    // Only the current format proves the password by decrypting
+    if (!isNoteEncrypted(note) && !(await verifyNotePassword(note.id, password))) return false;
+    try {
+      const { note: opened, upgraded } = await unlockNote(note, password);
+      if (upgraded) {
+        await saveNoteToDBSingle(upgraded);
+        await removeLegacyEncryptionKey(note.id);
+        onUpgraded?.(upgraded);
+      }
+      unlockedNoteRef.current = opened;
+      return true;
+    } catch (error) {
+      console.warn('Failed to unlock note', error);
+      return false;
+    }
+  };
+
+  const handleUnlocked = () => {
+    if (!request) return;
+    const note = unlockedNoteRef.current || request.note;
+    unlockedNoteRef.current = null;
+    request.onOpened(note);
+  };
+
+  const unlockSheet = request && {
+    isOpen: true,
+    onClose: () => setRequest(null),
+    noteId: request.note.id,
+    onUnlocked: handleUnlocked,
+    onPasswordSubmit: handlePasswordSubmit,
+    requirePassword: isNoteEncrypted(request.note),
+  };
+
+  return { openProtectedNote, unlockSheet };
+};
@@ -1,14 +1,32 @@
 import { useEffect, useState } from 'react';
 import { syncManager } from '@/utils/syncManager';
 
+// Background sync runs at most this often when screens mount or the device reconnects
+const AUTO_SYNC_MAX_AGE_MS = 5 * 60 * 1000;
+
 export const useRealtimeSync = () => {
   const [isOnline, setIsOnline] = useState(navigator.onLine);
-  const [isSyncing, setIsSyncing] = useState(false);
-  const [hasError, setHasError] = useState(false);
+  const [isSyncing, setIsSyncing] = useState(syncManager.isSyncing());
+  const [hasError, setHasError] = useState(syncManager.getLastResult()?.success === false);
+  const [syncEnabled, setSyncEnabled] = useState(syncManager.isSyncEnabled());
+  const [lastSync, setLastSync] = useState<Date | null>(syncManager.getLastSyncTime());
+
+  useEffect(() => {
+    const handleChange = () => {
+      setIsSyncing(syncManager.isSyncing());
+      setSyncEnabled(syncManager.isSyncEnabled());
+      setLastSync(syncManager.getLastSyncTime());
+      setHasError(syncManager.getLastResult()?.success === false);
+    };
+    const unsubscribe = syncManager.subscribe(handleChange);
+    handleChange();
+    return unsubscribe;
+  }, []);
 
   useEffect(() => {
     const handleOnline = () => {
       setIsOnline(true);
+      syncManager.syncIfStale(0).catch(console.error);
     };
 
     const handleOffline = () => {
@@ -18,6 +36,10 @@ export const useRealtimeSync = () => {
     window.addEventListener('online', handleOnline);
     window.addEventListener('offline', handleOffline);
 
+    if (navigator.onLine) {
+      syncManager.syncIfStale(AUTO_SYNC_MAX_AGE_MS).catch(console.error);
+    }
+
     return () => {
       window.removeEventListener('online', handleOnline);
       window.removeEventListener('offline', handleOffline);
@@ -25,23 +47,15 @@ export const useRealtimeSync = () => {
   }, []);
 
   const manualSync = async () => {
-    setIsSyncing(true);
-    setHasError(false);
-
-    const result = await syncManager.syncAllData();
-
-    if (!result.success) {
-      setHasError(true);
-    }
-
-    setIsSyncing(false);
+    await syncManager.syncAllData();
   };
 
   return {
     isOnline,
     isSyncing,
     hasError,
+    syncEnabled,
     manualSync,
-    lastSync: syncManager.getLastSyncTime(),
+    lastSync,
   };
 };
@@ -0,0 +1,43 @@
+import { useEffect, useState } from 'react';
+import { searchIndex, tokenize, SearchDocKind, SearchHit } from '@/utils/searchIndex';
+
+const SEARCH_DEBOUNCE_MS = 150;
+
+/**
+ * Ranked hits from the full-text index for a search box. Returns null while
+ * the query has no indexable words or the first search is still running, so
+ * callers can fall back to a plain substring match. Pass the searched data as
+ * `refreshKey` to re-run the search when it changes. Every hit is returned,
+ * since callers filter their lists down to them.
+ */
+export const useSearchIndex = (query: string, kinds?: SearchDocKind[], refreshKey?: unknown) => {
+  const [hits, setHits] = useState<SearchHit[] | null>(null);
+  const kindsKey = kinds?.join(',') ?? '';
+
+  useEffect(() => {
+    if (tokenize(query).length === 0) {
+      setHits(null);
+      return;
+    }
+
+    let cancelled = false;
+    const timer = setTimeout(() => {
+      const searchKinds = kindsKey ? (kindsKey.split(',') as SearchDocKind[]) : undefined;
+      searchIndex(query, { kinds: searchKinds, limit: Infinity })
+        .then(results => {
+          if (!cancelled) setHits(results);
+        })
+        .catch(e => {
+          console.error('Search failed:', e);
+          if (!cancelled) setHits(null);
+        });
+    }, SEARCH_DEBOUNCE_MS);
+
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [query, kindsKey, refreshKey]);
+
+  return hits;
+};
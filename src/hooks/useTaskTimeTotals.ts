@@ -0,0 +1,35 @@
+import { useEffect, useMemo, useState } from 'react';
+import { TIME_ENTRIES_EVENT, TaskTimeTotal, getTaskTimeTotals, getTimeEntries } from '@/utils/timeEntries';
+
+/**
+ * Time tracked per task id, kept current as the stopwatch or the Pomodoro
+ * timer add entries.
+ */
+export const useTaskTimeTotals = () => {
+  const [totals, setTotals] = useState<Map<string, TaskTimeTotal>>(() => new Map());
+
+  useEffect(() => {
+    let cancelled = false;
+    const load = () => {
+      getTimeEntries()
+        .then(entries => {
+          if (!cancelled) setTotals(getTaskTimeTotals(entries));
+        })
+        .catch(e => console.error('Failed to load time entries:', e));
+    };
+    load();
+    window.addEventListener(TIME_ENTRIES_EVENT, load);
+    return () => {
+      cancelled = true;
+      window.removeEventListener(TIME_ENTRIES_EVENT, load);
+    };
+  }, []);
+
+  return totals;
+};
+
+// Ids of the tasks with any time tracked, e.g. for has:time in task queries
+export const useTrackedTaskIds = () => {
+  const totals = useTaskTimeTotals();
+  return useMemo(() => new Set(totals.keys()), [totals]);
+};
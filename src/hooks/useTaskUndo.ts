@@ -0,0 +1,69 @@
+import { useCallback, useEffect, useState } from 'react';
+import { useTranslation } from 'react-i18next';
+import { toast } from 'sonner';
+import {
+  TASK_HISTORY_EVENT,
+  describeTaskChanges,
+  getTaskUndoState,
+  redoTaskChange,
+  undoTaskChange,
+} from '@/utils/taskHistory';
+
+const isTextTarget = (target: EventTarget | null): boolean =>
+  target instanceof HTMLElement &&
+  (target.isContentEditable || ['INPUT', 'TEXTAREA', 'SELECT'].includes(target.tagName));
+
+/**
+ * The task undo/redo stack for a page: what the next undo and redo would do,
+ * actions that run them with a toast, and Ctrl/Cmd+Z, Ctrl/Cmd+Shift+Z and
+ * Ctrl+Y outside of text fields.
+ */
+export const useTaskUndo = () => {
+  const { t } = useTranslation();
+  const [state, setState] = useState(getTaskUndoState);
+
+  useEffect(() => {
+    const handleChange = () => setState(getTaskUndoState());
+    window.addEventListener(TASK_HISTORY_EVENT, handleChange);
+    return () => window.removeEventListener(TASK_HISTORY_EVENT, handleChange);
+  }, []);
+
+  const describe = useCallback(
+    (type: string, count: number) => t('taskChanges.stepLabel', { action: t(`taskChanges.actions.${type}`), count }),
+    [t]
+  );
+
+  const undo = useCallback(async () => {
+    const step = await undoTaskChange();
+    if (!step) return;
+    const { type, count } = describeTaskChanges(step);
+    toast.success(t('taskChanges.undone', { step: describe(type, count) }), {
+      action: { label: t('taskChanges.redo'), onClick: () => void redoTaskChange() },
+    });
+  }, [t, describe]);
+
+  const redo = useCallback(async () => {
+    const step = await redoTaskChange();
+    if (!step) return;
+    const { type, count } = describeTaskChanges(step);
+    toast.success(t('taskChanges.redone', { step: describe(type, count) }));
+  }, [t, describe]);
+
+  useEffect(() => {
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (!(event.ctrlKey || event.metaKey) || isTextTarget(event.target)) return;
+      const key = event.key.toLowerCase();
+      if (key === 'z' && !event.shiftKey) {
+        event.preventDefault();
+        void undo();
+      } else if ((key === 'z' && event.shiftKey) || key === 'y') {
+        event.preventDefault();
+        void redo();
+      }
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [undo, redo]);
+
+  return { state, describe, undo, redo };
+};
@@ -74,3 +74,10 @@ export const stripHtml = (html: string): string => {
     RETURN_TRUSTED_TYPE: false,
   }) as string;
 };
+
+/**
+ * Escape text for use in HTML built from strings, as element content or
+ * a double-quoted attribute value
+ */
+export const escapeHtml = (text: string): string =>
+  text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
@@ -0,0 +1,395 @@
+import { useEffect, useMemo, useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { endOfMonth, format, parse, startOfMonth, startOfYear, subMonths } from 'date-fns';
+import { ArrowDownRight, ArrowLeft, ArrowUpRight, BarChart3, FileDown, PieChart, Receipt, Target, Wallet } from 'lucide-react';
+import { Bar, BarChart, CartesianGrid, Cell, Legend, Pie, PieChart as RechartsPie, ResponsiveContainer, Tooltip, XAxis, YAxis } from 'recharts';
+import { toast } from 'sonner';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Progress } from '@/components/ui/progress';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { cn } from '@/lib/utils';
+import { Folder } from '@/types/note';
+import { loadNotesFromDB } from '@/utils/noteStorage';
+import { getSetting } from '@/utils/settingsStorage';
+import { CURRENCIES } from '@/utils/exchangeRates';
+import {
+  FinanceFilters, FinanceSheet, buildFinanceReport, exportFinanceReportPdf, filterFinanceSheets, formatMoney, getFinanceSheets, getMainCurrency
+} from '@/utils/financeReport';
+
+type DateRange = 'thisMonth' | 'last3' | 'last12' | 'thisYear' | 'all' | 'custom';
+
+const ALL = 'all';
+const RANGE_LABELS: Record<DateRange, string> = {
+  thisMonth: 'This month',
+  last3: 'Last 3 months',
+  last12: 'Last 12 months',
+  thisYear: 'This year',
+  all: 'All time',
+  custom: 'Custom range',
+};
+const CHART_COLORS = ['#3b82f6', '#ef4444', '#22c55e', '#f59e0b', '#8b5cf6', '#ec4899', '#06b6d4', '#84cc16', '#f97316', '#6366f1'];
+const TOOLTIP_STYLE = { background: 'hsl(var(--popover))', border: '1px solid hsl(var(--border))', borderRadius: '8px', fontSize: '12px' };
+const AXIS_TICK = { fontSize: 11, fill: 'hsl(var(--muted-foreground))' };
+
+const getRangeDates = (range: DateRange, customFrom: string, customTo: string): { from?: Date; to?: Date } => {
+  const now = new Date();
+  switch (range) {
+    case 'thisMonth': return { from: startOfMonth(now), to: endOfMonth(now) };
+    case 'last3': return { from: startOfMonth(subMonths(now, 2)), to: endOfMonth(now) };
+    case 'last12': return { from: startOfMonth(subMonths(now, 11)), to: endOfMonth(now) };
+    case 'thisYear': return { from: startOfYear(now), to: endOfMonth(now) };
+    case 'custom': return {
+      from: customFrom ? parse(customFrom, 'yyyy-MM-dd', now) : undefined,
+      to: customTo ? parse(customTo, 'yyyy-MM-dd', now) : undefined,
+    };
+    default: return {};
+  }
+};
+
+const FinanceDashboard = () => {
+  const navigate = useNavigate();
+  const [sheets, setSheets] = useState<FinanceSheet[] | null>(null);
+  const [folders, setFolders] = useState<Folder[]>([]);
+  const [noteFilter, setNoteFilter] = useState(ALL);
+  const [folderFilter, setFolderFilter] = useState(ALL);
+  const [range, setRange] = useState<DateRange>('last12');
+  const [customFrom, setCustomFrom] = useState('');
+  const [customTo, setCustomTo] = useState('');
+  const [currency, setCurrency] = useState<string | null>(null);
+  const [isExporting, setIsExporting] = useState(false);
+
+  useEffect(() => {
+    loadNotesFromDB()
+      .then(notes => setSheets(getFinanceSheets(notes)))
+      .catch(error => {
+        console.error('Failed to load expense sheets:', error);
+        setSheets([]);
+      });
+    getSetting<Folder[]>('folders', []).then(setFolders);
+  }, []);
+
+  // Only folders that hold an expense sheet are worth offering
+  const expenseFolders = useMemo(
+    () => folders.filter(folder => sheets?.some(sheet => sheet.folderId === folder.id)),
+    [folders, sheets]
+  );
+
+  const filters = useMemo<FinanceFilters>(() => ({
+    noteId: noteFilter === ALL ? undefined : noteFilter,
+    folderId: folderFilter === ALL ? undefined : folderFilter,
+    ...getRangeDates(range, customFrom, customTo),
+  }), [noteFilter, folderFilter, range, customFrom, customTo]);
+
+  const selectedSheets = useMemo(() => filterFinanceSheets(sheets ?? [], filters), [sheets, filters]);
+  const reportCurrency = currency ?? getMainCurrency(sheets ?? []);
+  const report = useMemo(
+    () => buildFinanceReport(selectedSheets, filters, reportCurrency),
+    [selectedSheets, filters, reportCurrency]
+  );
+  const money = (amount: number) => formatMoney(amount, report.currency);
+
+  const rangeDescription = () => {
+    const scope = filters.noteId
+      ? sheets?.find(sheet => sheet.noteId === filters.noteId)?.title || 'Untitled sheet'
+      : filters.folderId
+        ? `Folder: ${folders.find(folder => folder.id === filters.folderId)?.name ?? ''}`
+        : 'All expense sheets';
+    const dates = range === 'custom'
+      ? `${filters.from ? format(filters.from, 'dd MMM yyyy') : 'Start'} to ${filters.to ? format(filters.to, 'dd MMM yyyy') : 'today'}`
+      : RANGE_LABELS[range];
+    return `${scope}, ${dates}`;
+  };
+
+  const handleExportPdf = async () => {
+    setIsExporting(true);
+    try {
+      await exportFinanceReportPdf(report, rangeDescription());
+      toast.success('Finance report exported');
+    } catch (error) {
+      console.error('Failed to export finance report:', error);
+      toast.error('Could not export the report');
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  const hasData = report.income > 0 || report.expenses > 0;
+
+  return (
+    <div className="min-h-screen flex flex-col bg-background">
+      <header className="border-b sticky top-0 bg-card z-10">
+        <div className="container mx-auto px-2 xs:px-3 sm:px-4 py-2 xs:py-3 sm:py-4 space-y-2">
+          <div className="flex items-center gap-2">
+            <Button variant="ghost" size="icon" onClick={() => navigate(-1)} className="h-8 w-8">
+              <ArrowLeft className="h-5 w-5" />
+            </Button>
+            <h1 className="text-base xs:text-lg sm:text-xl font-bold flex-1">Finance Dashboard</h1>
+            <Button variant="outline" size="sm" onClick={handleExportPdf} disabled={!hasData || isExporting} className="h-8">
+              <FileDown className="h-4 w-4 mr-1" />
+              PDF
+            </Button>
+          </div>
+          <div className="grid grid-cols-2 gap-2">
+            <Select value={noteFilter} onValueChange={setNoteFilter}>
+              <SelectTrigger className="h-9">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={ALL}>All sheets</SelectItem>
+                {(sheets ?? []).map(sheet => (
+                  <SelectItem key={sheet.noteId} value={sheet.noteId}>{sheet.title || 'Untitled sheet'}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Select value={folderFilter} onValueChange={setFolderFilter}>
+              <SelectTrigger className="h-9">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={ALL}>All folders</SelectItem>
+                {expenseFolders.map(folder => (
+                  <SelectItem key={folder.id} value={folder.id}>{folder.name}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Select value={range} onValueChange={(value) => setRange(value as DateRange)}>
+              <SelectTrigger className="h-9">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {(Object.keys(RANGE_LABELS) as DateRange[]).map(key => (
+                  <SelectItem key={key} value={key}>{RANGE_LABELS[key]}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Select value={reportCurrency} onValueChange={setCurrency}>
+              <SelectTrigger className="h-9">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {CURRENCIES.map(c => (
+                  <SelectItem key={c.code} value={c.code}>{c.symbol} {c.code}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          {range === 'custom' && (
+            <div className="grid grid-cols-2 gap-2">
+              <Input type="date" value={customFrom} onChange={(e) => setCustomFrom(e.target.value)} className="h-9" />
+              <Input type="date" value={customTo} onChange={(e) => setCustomTo(e.target.value)} className="h-9" />
+            </div>
+          )}
+        </div>
+      </header>
+
+      <main className="container mx-auto px-2 xs:px-3 sm:px-4 py-4 space-y-4">
+        {report.missingRates.length > 0 && (
+          <p className="text-xs text-amber-600 dark:text-amber-400 p-3 rounded-lg border border-amber-500/30 bg-amber-500/5">
+            Amounts in {report.missingRates.join(', ')} are left out: add an exchange rate to {report.currency} in one of the expense sheets.
+          </p>
+        )}
+
+        {sheets && !hasData && (
+          <div className="flex flex-col items-center justify-center py-16 text-muted-foreground">
+            <Receipt className="h-12 w-12 mb-4 opacity-50" />
+            <p>{sheets.length === 0 ? 'No expense sheets yet' : 'Nothing recorded for these filters'}</p>
+          </div>
+        )}
+
+        {hasData && (
+          <>
+            {/* Cash flow summary */}
+            <div className="p-4 rounded-lg border bg-gradient-to-br from-muted/30 to-muted/10">
+              <div className="flex items-center gap-2 mb-4">
+                <Wallet className="h-4 w-4 text-primary" />
+                <p className="text-base font-semibold">Cash Flow</p>
+                <span className="text-xs text-muted-foreground ml-auto">
+                  {report.sheets} sheet{report.sheets === 1 ? '' : 's'}
+                </span>
+              </div>
+              <div className="grid grid-cols-2 gap-3 mb-3">
+                <div className="p-3 rounded-lg bg-green-500/10 border border-green-500/20">
+                  <div className="flex items-center gap-1 mb-1">
+                    <ArrowDownRight className="h-3 w-3 text-green-500" />
+                    <span className="text-xs text-muted-foreground">Income</span>
+                  </div>
+                  <span className="text-lg font-bold text-green-500">{money(report.income)}</span>
+                </div>
+                <div className="p-3 rounded-lg bg-destructive/10 border border-destructive/20">
+                  <div className="flex items-center gap-1 mb-1">
+                    <ArrowUpRight className="h-3 w-3 text-destructive" />
+                    <span className="text-xs text-muted-foreground">Expenses</span>
+                  </div>
+                  <span className="text-lg font-bold text-destructive">{money(report.expenses)}</span>
+                </div>
+              </div>
+              <div className="flex items-center justify-between text-sm">
+                <span className="text-muted-foreground">Net Savings</span>
+                <span className={cn('font-bold', report.net >= 0 ? 'text-green-500' : 'text-destructive')}>
+                  {report.net >= 0 ? '+' : ''}{money(report.net)}
+                </span>
+              </div>
+              <div className="flex items-center justify-between text-sm pt-1">
+                <span className="text-muted-foreground">Savings Rate</span>
+                {report.savingsRate === undefined ? (
+                  <span className="text-xs text-muted-foreground">No income recorded</span>
+                ) : (
+                  <span className={cn(
+                    'font-medium',
+                    report.savingsRate < 0 ? 'text-destructive' : report.savingsRate < 20 ? 'text-amber-500' : 'text-green-500'
+                  )}>
+                    {report.savingsRate.toFixed(1)}%
+                  </span>
+                )}
+              </div>
+            </div>
+
+            {/* Month over month */}
+            <div className="p-4 rounded-lg border">
+              <div className="flex items-center gap-2 mb-4">
+                <BarChart3 className="h-4 w-4 text-primary" />
+                <p className="text-base font-semibold">Income vs. Expenses by Month</p>
+              </div>
+              <div className="h-56">
+                <ResponsiveContainer width="100%" height="100%">
+                  <BarChart data={report.months}>
+                    <CartesianGrid strokeDasharray="3 3" stroke="hsl(var(--border))" />
+                    <XAxis dataKey="label" tick={AXIS_TICK} axisLine={{ stroke: 'hsl(var(--border))' }} />
+                    <YAxis
+                      tick={AXIS_TICK}
+                      axisLine={{ stroke: 'hsl(var(--border))' }}
+                      tickFormatter={(value: number) => value >= 1000 ? `${(value / 1000).toFixed(0)}K` : `${value}`}
+                    />
+                    <Tooltip formatter={(value: number) => money(value)} contentStyle={TOOLTIP_STYLE} />
+                    <Legend wrapperStyle={{ fontSize: '12px' }} />
+                    <Bar dataKey="income" name="Income" fill="#22c55e" radius={[4, 4, 0, 0]} />
+                    <Bar dataKey="expenses" name="Expenses" fill="#ef4444" radius={[4, 4, 0, 0]} />
+                  </BarChart>
+                </ResponsiveContainer>
+              </div>
+              <Table className="mt-3 text-xs">
+                <TableHeader>
+                  <TableRow>
+                    <TableHead className="h-8 px-2">Month</TableHead>
+                    <TableHead className="h-8 px-2 text-right">Net</TableHead>
+                    <TableHead className="h-8 px-2 text-right">Spending vs. prior</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {[...report.months].reverse().map(month => (
+                    <TableRow key={month.month}>
+                      <TableCell className="py-1.5 px-2">{month.label}</TableCell>
+                      <TableCell className={cn('py-1.5 px-2 text-right', month.net < 0 && 'text-destructive')}>{money(month.net)}</TableCell>
+                      <TableCell className={cn(
+                        'py-1.5 px-2 text-right',
+                        month.expenseChange !== undefined && (month.expenseChange > 0 ? 'text-destructive' : 'text-green-500')
+                      )}>
+                        {month.expenseChange === undefined ? '—' : `${month.expenseChange > 0 ? '+' : ''}${month.expenseChange.toFixed(1)}%`}
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </div>
+
+            {/* Category breakdown */}
+            <div className="p-4 rounded-lg border">
+              <div className="flex items-center gap-2 mb-4">
+                <PieChart className="h-4 w-4 text-primary" />
+                <p className="text-base font-semibold">Spending by Category</p>
+              </div>
+              {report.categories.length > 0 && (
+                <div className="h-48">
+                  <ResponsiveContainer width="100%" height="100%">
+                    <RechartsPie>
+                      <Pie
+                        data={report.categories}
+                        cx="50%"
+                        cy="50%"
+                        innerRadius={50}
+                        outerRadius={75}
+                        paddingAngle={2}
+                        dataKey="amount"
+                        nameKey="category"
+                        stroke="none"
+                      >
+                        {report.categories.map((category, index) => (
+                          <Cell key={category.category} fill={CHART_COLORS[index % CHART_COLORS.length]} />
+                        ))}
+                      </Pie>
+                      <Tooltip formatter={(value: number) => money(value)} contentStyle={TOOLTIP_STYLE} />
+                    </RechartsPie>
+                  </ResponsiveContainer>
+                </div>
+              )}
+              <div className="space-y-1.5 mt-2">
+                {report.categories.map((category, index) => (
+                  <div key={category.category} className="flex items-center gap-2 text-sm">
+                    <span className="h-2.5 w-2.5 rounded-full flex-shrink-0" style={{ backgroundColor: CHART_COLORS[index % CHART_COLORS.length] }} />
+                    <span className="flex-1 truncate">{category.category}</span>
+                    <span className="text-xs text-muted-foreground">{category.share.toFixed(1)}%</span>
+                    <span className="font-medium w-28 text-right">{money(category.amount)}</span>
+                  </div>
+                ))}
+                {report.categories.length === 0 && (
+                  <p className="text-sm text-muted-foreground text-center py-2">No expenses in this range</p>
+                )}
+              </div>
+            </div>
+
+            {/* Budget vs actual */}
+            <div className="p-4 rounded-lg border">
+              <div className="flex items-center gap-2 mb-1">
+                <Target className="h-4 w-4 text-primary" />
+                <p className="text-base font-semibold">Budget vs. Actual</p>
+              </div>
+              <p className="text-xs text-muted-foreground mb-3">
+                Monthly budgets of the selected sheets over {report.budgetMonths} month{report.budgetMonths === 1 ? '' : 's'}
+              </p>
+              <Table className="text-xs">
+                <TableHeader>
+                  <TableRow>
+                    <TableHead className="h-8 px-2">Category</TableHead>
+                    <TableHead className="h-8 px-2 text-right">Budget</TableHead>
+                    <TableHead className="h-8 px-2 text-right">Actual</TableHead>
+                    <TableHead className="h-8 px-2 text-right">Remaining</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {report.budgets.map(row => {
+                    const used = row.budget > 0 ? (row.actual / row.budget) * 100 : 0;
+                    return (
+                      <TableRow key={row.category}>
+                        <TableCell className="py-1.5 px-2">
+                          <div>{row.category}</div>
+                          {row.budget > 0 && (
+                            <Progress
+                              value={Math.min(used, 100)}
+                              className={cn(
+                                'h-1.5 mt-1',
+                                used > 100 ? '[&>div]:bg-destructive' : used > 80 ? '[&>div]:bg-amber-500' : '[&>div]:bg-green-500'
+                              )}
+                            />
+                          )}
+                        </TableCell>
+                        <TableCell className="py-1.5 px-2 text-right">{row.budget > 0 ? money(row.budget) : '—'}</TableCell>
+                        <TableCell className="py-1.5 px-2 text-right">{money(row.actual)}</TableCell>
+                        <TableCell className={cn('py-1.5 px-2 text-right', row.budget > 0 && row.remaining < 0 && 'text-destructive')}>
+                          {row.budget > 0 ? money(row.remaining) : '—'}
+                        </TableCell>
+                      </TableRow>
+                    );
+                  })}
+                </TableBody>
+              </Table>
+            </div>
+          </>
+        )}
+      </main>
+    </div>
+  );
+};
+
+export default FinanceDashboard;
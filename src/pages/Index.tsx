@@ -1,25 +1,28 @@
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useRef } from 'react';
 import { useTranslation } from 'react-i18next';
 import { cn } from '@/lib/utils';
 import { Note, NoteType, Folder } from '@/types/note';
 import { NoteCard } from '@/components/NoteCard';
 import { NoteEditor } from '@/components/NoteEditor';
+import { NoteProtectionSheet } from '@/components/NoteProtectionSheet';
+import { NoteUnlockSheet } from '@/components/NoteUnlockSheet';
 import { BottomNavigation } from '@/components/BottomNavigation';
 import { PersonalizedTips } from '@/components/PersonalizedTips';
 import { FolderManager } from '@/components/FolderManager';
 import { SyncBadge } from '@/components/SyncStatusIndicator';
 import { MasonryNotesGrid } from '@/components/MasonryNotesGrid';
 import { useRealtimeSync } from '@/hooks/useRealtimeSync';
-import { syncManager } from '@/utils/syncManager';
+import { useSearchIndex } from '@/hooks/useSearchIndex';
+import { useNoteUnlock } from '@/hooks/useNoteUnlock';
 import { useDarkMode } from '@/hooks/useDarkMode';
 import { Input } from '@/components/ui/input';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
-import { Search, Plus, StickyNote, FileText, FileEdit, Pen, ListTodo, Bell, Clock, Repeat, FileCode, GitBranch, Sun, Moon, Receipt, Star, ArrowUpDown, MoreVertical, FolderPlus, CheckSquare, Trash2, Archive, X, RotateCcw } from 'lucide-react';
+import { Search, Plus, StickyNote, FileText, FileEdit, Pen, ListTodo, Bell, Clock, Repeat, FileCode, GitBranch, Sun, Moon, Receipt, Star, ArrowUpDown, MoreVertical, FolderPlus, CheckSquare, Trash2, Archive, X, RotateCcw, Network, Wallet } from 'lucide-react';
 import { getAllUpcomingReminders } from '@/utils/noteNotifications';
 import { format, isToday, isTomorrow, differenceInDays } from 'date-fns';
-import { useNavigate } from 'react-router-dom';
+import { useLocation, useNavigate } from 'react-router-dom';
 import appLogo from '@/assets/app-logo.png';
 import {
   DropdownMenu,
@@ -33,6 +36,8 @@ import { triggerHaptic } from '@/utils/haptics';
 import { loadNotesFromDB, saveNoteToDBSingle, deleteNoteFromDB, migrateNotesToIndexedDB, saveNotesToDB } from '@/utils/noteStorage';
 import { getSetting, setSetting } from '@/utils/settingsStorage';
 import { logActivity } from '@/utils/activityLogger';
+import { lockNote, openNote, encryptNote, hideNote } from '@/utils/noteEncryption';
+import { getHiddenNotesSettings, verifyHiddenNotesPassword } from '@/utils/noteProtection';
 
 const Index = () => {
   const { t } = useTranslation();
@@ -46,6 +51,12 @@ const Index = () => {
   const [isEditorOpen, setIsEditorOpen] = useState(false);
   const [defaultType, setDefaultType] = useState<NoteType>('regular');
   const [draggedNoteId, setDraggedNoteId] = useState<string | null>(null);
+  const searchHits = useSearchIndex(searchQuery, undefined, notes);
+  const [protectNoteId, setProtectNoteId] = useState<string | null>(null);
+  const [hideNoteIds, setHideNoteIds] = useState<string[] | null>(null);
+  const { openProtectedNote, unlockSheet } = useNoteUnlock(upgraded =>
+    setNotes(prev => prev.map(n => n.id === upgraded.id ? upgraded : n))
+  );
   const [upcomingReminders, setUpcomingReminders] = useState<any[]>([]);
   const [showFavoritesOnly, setShowFavoritesOnly] = useState(false);
   const [sortBy, setSortBy] = useState<'date' | 'title' | 'type'>('date');
@@ -54,8 +65,7 @@ const Index = () => {
   const [selectedNoteIds, setSelectedNoteIds] = useState<string[]>([]);
   const [viewMode, setViewMode] = useState<'notes' | 'trash' | 'archive'>('notes');
   const [isGridView, setIsGridView] = useState(false);
-  const { isOnline, isSyncing, hasError, lastSync } = useRealtimeSync();
-  const syncEnabled = syncManager.isSyncEnabled();
+  const { isOnline, isSyncing, hasError, lastSync, syncEnabled } = useRealtimeSync();
 
   // Load all preferences from IndexedDB
   useEffect(() => {
@@ -139,6 +149,10 @@ const Index = () => {
       }
     };
     loadNotes();
+
+    // Reload when notes change outside this page (e.g. pulled in by sync)
+    window.addEventListener('notesUpdated', loadNotes);
+    return () => window.removeEventListener('notesUpdated', loadNotes);
   }, []);
 
   useEffect(() => {
@@ -348,10 +362,25 @@ const Index = () => {
     setIsEditorOpen(true);
   };
 
-  const handleEditNote = (note: Note) => {
-    setSelectedNote(note);
+  const handleEditNote = (note: Note) => openProtectedNote(note, opened => {
+    setSelectedNote(opened);
     setIsEditorOpen(true);
-  };
+  });
+
+  // Open a note picked in the graph view, once per navigation
+  const location = useLocation();
+  const openedNoteKeyRef = useRef<string | null>(null);
+  const handleEditNoteRef = useRef(handleEditNote);
+  handleEditNoteRef.current = handleEditNote;
+  useEffect(() => {
+    const openNoteId = (location.state as { openNoteId?: string } | null)?.openNoteId;
+    if (!openNoteId || openedNoteKeyRef.current === location.key) return;
+    const note = notes.find(n => n.id === openNoteId);
+    if (note) {
+      openedNoteKeyRef.current = location.key;
+      void handleEditNoteRef.current(note);
+    }
+  }, [notes, location]);
 
   const handleCreateFolder = (name: string, color: string) => {
     const newFolder: Folder = {
@@ -383,18 +412,65 @@ const Index = () => {
     setDraggedNoteId(null);
   };
 
-  const handleHideNote = (noteId: string) => {
-    setNotes(prev => prev.map(n => n.id === noteId ? { ...n, isHidden: true } : n));
+  // With a hidden-notes password set, hidden notes are sealed under it; without one they are only hidden
+  const hideNotes = async (noteIds: string[], password?: string) => {
+    const hidden = await Promise.all(notes
+      .filter(n => noteIds.includes(n.id))
+      .map(n => password ? hideNote(n, password) : { ...n, isHidden: true }));
+    await Promise.all(hidden.map(saveNoteToDBSingle));
+    setNotes(prev => prev.map(n => hidden.find(h => h.id === n.id) || n));
   };
 
   const handleBulkHideNotes = (noteIds: string[]) => {
-    setNotes(prev => prev.map(n => noteIds.includes(n.id) ? { ...n, isHidden: true } : n));
+    if (getHiddenNotesSettings().hasPassword) {
+      setHideNoteIds(noteIds);
+    } else {
+      void hideNotes(noteIds);
+    }
+  };
+
+  const handleHideNote = (noteId: string) => handleBulkHideNotes([noteId]);
+
+  const handleHidePassword = async (password: string): Promise<boolean> => {
+    if (!hideNoteIds || !(await verifyHiddenNotesPassword(password))) return false;
+    await hideNotes(hideNoteIds, password);
+    return true;
+  };
+
+  const handleProtectNote = async (noteId: string) => {
+    const note = notes.find(n => n.id === noteId);
+    if (!note) return;
+    await openProtectedNote(note, () => setProtectNoteId(noteId));
+  };
+
+  // A new password re-encrypts the note; biometric-only or no protection leaves it in plain text
+  const handleProtectionChanged = async (password?: string) => {
+    const note = notes.find(n => n.id === protectNoteId);
+    if (!note) return;
+    const opened = await openNote(note);
+    lockNote(note.id);
+    const updated = password ? await encryptNote(opened, password) : opened;
+    await saveNoteToDBSingle(updated);
+    setNotes(prev => prev.map(n => n.id === note.id ? updated : n));
   };
 
-  const handleProtectNote = (noteId: string) => {
-    // Protection is handled via NoteProtectionSheet - this just triggers the dialog
-    // For now, we'll store a flag that the note needs protection UI
-    console.log('Protect note:', noteId);
+  // Best index score per note; expense entries count towards the note they live in
+  const noteSearchScores = searchHits && new Map<string, number>();
+  searchHits?.forEach(hit => {
+    if (hit.kind !== 'note' && hit.kind !== 'expense') return;
+    const noteId = hit.kind === 'expense' ? hit.parentId! : hit.id;
+    noteSearchScores!.set(noteId, Math.max(noteSearchScores!.get(noteId) || 0, hit.score));
+  });
+  const taskSearchHits = searchHits?.filter(hit => hit.kind === 'task' || hit.kind === 'subtask') || [];
+
+  const matchesSearch = (note: Note) => {
+    if (!searchQuery.trim()) return true;
+    if (noteSearchScores) return noteSearchScores.has(note.id);
+    // Plain substring match until the index has answered
+    const query = searchQuery.toLowerCase();
+    return note.title.toLowerCase().includes(query) ||
+      note.content.toLowerCase().includes(query) ||
+      !!note.metaDescription?.toLowerCase().includes(query);
   };
 
   let allFilteredNotes = notes.filter(
@@ -402,9 +478,7 @@ const Index = () => {
       !note.isDeleted && 
       !note.isArchived &&
       !note.isHidden && // Hide hidden notes from main view
-      (note.title.toLowerCase().includes(searchQuery.toLowerCase()) ||
-      note.content.toLowerCase().includes(searchQuery.toLowerCase()) ||
-      (note.metaDescription && note.metaDescription.toLowerCase().includes(searchQuery.toLowerCase())))
+      matchesSearch(note)
   );
 
   // Filter by folder
@@ -467,6 +541,11 @@ const Index = () => {
     if (a.isPinned && b.isPinned) {
       return (a.pinnedOrder || 0) - (b.pinnedOrder || 0);
     }
+
+    // Search results by relevance
+    if (noteSearchScores) {
+      return (noteSearchScores.get(b.id) || 0) - (noteSearchScores.get(a.id) || 0);
+    }
     
     // Then sort by selected option
     switch (sortBy) {
@@ -513,6 +592,30 @@ const Index = () => {
               >
                 {isDarkMode ? <Sun className="h-4 w-4 xs:h-4 xs:w-4 sm:h-5 sm:w-5" /> : <Moon className="h-4 w-4 xs:h-4 xs:w-4 sm:h-5 sm:w-5" />}
               </Button>
+              <Button
+                size="icon"
+                variant="ghost"
+                onClick={async () => {
+                  await triggerHaptic('light');
+                  navigate('/notes/graph');
+                }}
+                className="h-7 w-7 xs:h-8 xs:w-8 sm:h-9 sm:w-9 hover:bg-transparent active:bg-transparent touch-target"
+                title={t('notesGraph.title')}
+              >
+                <Network className="h-4 w-4 xs:h-5 xs:w-5 sm:h-6 sm:w-6" />
+              </Button>
+              <Button
+                size="icon"
+                variant="ghost"
+                onClick={async () => {
+                  await triggerHaptic('light');
+                  navigate('/finance');
+                }}
+                className="h-7 w-7 xs:h-8 xs:w-8 sm:h-9 sm:w-9 hover:bg-transparent active:bg-transparent touch-target"
+                title="Finance dashboard"
+              >
+                <Wallet className="h-4 w-4 xs:h-5 xs:w-5 sm:h-6 sm:w-6" />
+              </Button>
               <Button
                 size="icon"
                 variant="ghost"
@@ -878,6 +981,7 @@ const Index = () => {
                           isSelected={selectedNoteIds.includes(note.id)}
                           onToggleSelection={handleToggleNoteSelection}
                           onDuplicate={handleDuplicateNote}
+                          onProtect={handleProtectNote}
                         />
                       ))}
                     </div>
@@ -914,12 +1018,39 @@ const Index = () => {
                         isSelected={selectedNoteIds.includes(note.id)}
                         onToggleSelection={handleToggleNoteSelection}
                         onDuplicate={handleDuplicateNote}
+                        onProtect={handleProtectNote}
                       />
                     ))}
                   </div>
                 )}
               </>
             )}
+
+            {/* Matching tasks from the search index */}
+            {taskSearchHits.length > 0 && (
+              <div className="mt-6">
+                <h2 className="text-lg font-semibold flex items-center gap-2 mb-3">
+                  <ListTodo className="h-5 w-5" />
+                  {t('notes.matchingTasks')}
+                </h2>
+                <div className="space-y-2">
+                  {taskSearchHits.map(hit => (
+                    <Card
+                      key={hit.key}
+                      className="cursor-pointer hover:bg-accent/50 transition-colors"
+                      onClick={() => navigate('/todo/today', { state: { openTaskId: hit.parentId || hit.id } })}
+                    >
+                      <CardContent className="p-3">
+                        <p className="text-sm font-medium line-clamp-1">{hit.title}</p>
+                        {hit.snippet && (
+                          <p className="text-xs text-muted-foreground line-clamp-2 mt-1">{hit.snippet}</p>
+                        )}
+                      </CardContent>
+                    </Card>
+                  ))}
+                </div>
+              </div>
+            )}
           </>
         )}
       </main>
@@ -934,9 +1065,36 @@ const Index = () => {
         onSave={handleSaveNote}
         defaultType={defaultType}
         defaultFolderId={selectedFolderId || undefined}
+        allNotes={notes}
+        onNoteUpdated={handleSaveNote}
+        onOpenNote={handleEditNote}
         returnTo="/"
       />
 
+      {protectNoteId && (
+        <NoteProtectionSheet
+          isOpen={!!protectNoteId}
+          onClose={() => setProtectNoteId(null)}
+          noteId={protectNoteId}
+          onProtectionChanged={handleProtectionChanged}
+        />
+      )}
+
+      {unlockSheet && <NoteUnlockSheet {...unlockSheet} />}
+
+      {hideNoteIds && (
+        <NoteUnlockSheet
+          isOpen={!!hideNoteIds}
+          onClose={() => setHideNoteIds(null)}
+          noteId={hideNoteIds[0]}
+          onUnlocked={() => setHideNoteIds(null)}
+          onPasswordSubmit={handleHidePassword}
+          requirePassword
+          title={t('notes.hideNotesTitle')}
+          description={t('notes.hideNotesDesc')}
+        />
+      )}
+
       {/* Floating Add Note Button - Hide when editor is open */}
       {!isEditorOpen && (
         <DropdownMenu>
@@ -2,6 +2,7 @@ import { useState, useEffect, useCallback } from 'react';
 import { BottomNavigation } from '@/components/BottomNavigation';
 import { Note } from '@/types/note';
 import { NoteEditor } from '@/components/NoteEditor';
+import { NoteUnlockSheet } from '@/components/NoteUnlockSheet';
 import { Layers, Settings, Pin, Download, ListTodo, FileText, Archive, ArchiveRestore, Trash2, RotateCcw, Sun, Moon, Search, X } from 'lucide-react';
 import { loadNotesFromDB, debouncedSaveNotes, migrateNotesToIndexedDB, saveNoteToDBSingle, saveNotesToDB, deleteNoteFromDB } from '@/utils/noteStorage';
 import { Button } from '@/components/ui/button';
@@ -13,6 +14,8 @@ import { useNavigate } from 'react-router-dom';
 import appLogo from '@/assets/app-logo.png';
 import { Tabs, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import { useDarkMode } from '@/hooks/useDarkMode';
+import { useSearchIndex } from '@/hooks/useSearchIndex';
+import { useNoteUnlock } from '@/hooks/useNoteUnlock';
 import { useTranslation } from 'react-i18next';
 import {
   DropdownMenu,
@@ -64,6 +67,10 @@ const Notes = () => {
   const [isEditorOpen, setIsEditorOpen] = useState(false);
   const [viewMode, setViewMode] = useState<'active' | 'archived' | 'trash'>('active');
   const [searchQuery, setSearchQuery] = useState('');
+  const searchHits = useSearchIndex(searchQuery, ['note', 'expense'], notes);
+  const { openProtectedNote, unlockSheet } = useNoteUnlock(upgraded =>
+    setNotes(prev => prev.map(n => n.id === upgraded.id ? upgraded : n))
+  );
 
   // Load notes from IndexedDB
   useEffect(() => {
@@ -98,10 +105,10 @@ const Notes = () => {
     });
   }, []);
 
-  const handleEditNote = (note: Note) => {
-    setSelectedNote(note);
+  const handleEditNote = (note: Note) => openProtectedNote(note, opened => {
+    setSelectedNote(opened);
     setIsEditorOpen(true);
-  };
+  });
 
   const handleTogglePin = (noteId: string, e: React.MouseEvent) => {
     e.stopPropagation();
@@ -245,6 +252,13 @@ const Notes = () => {
     debouncedSaveNotes(updatedNotes);
   };
 
+  // Best index score per note; expense entries count towards the note they live in
+  const noteSearchScores = searchHits && new Map<string, number>();
+  searchHits?.forEach(hit => {
+    const noteId = hit.kind === 'expense' ? hit.parentId! : hit.id;
+    noteSearchScores!.set(noteId, Math.max(noteSearchScores!.get(noteId) || 0, hit.score));
+  });
+
   // Filter notes based on view mode and search query
   const filteredNotes = notes.filter(note => {
     // View mode filter
@@ -257,6 +271,8 @@ const Notes = () => {
     
     // Search filter
     if (searchQuery.trim()) {
+      if (noteSearchScores) return noteSearchScores.has(note.id);
+      // Plain substring match until the index has answered
       const search = searchQuery.toLowerCase();
       const titleMatch = note.title.toLowerCase().includes(search);
       const contentMatch = note.content.replace(/<[^>]*>/g, '').toLowerCase().includes(search);
@@ -272,6 +288,9 @@ const Notes = () => {
     if (a.isPinned && b.isPinned) {
       return (a.pinnedOrder || 0) - (b.pinnedOrder || 0);
     }
+    if (noteSearchScores) {
+      return (noteSearchScores.get(b.id) || 0) - (noteSearchScores.get(a.id) || 0);
+    }
     return new Date(b.updatedAt).getTime() - new Date(a.updatedAt).getTime();
   });
 
@@ -588,9 +607,13 @@ const Notes = () => {
         }}
         onSave={handleSaveNote}
         allNotes={notes}
+        onNoteUpdated={handleSaveNote}
+        onOpenNote={handleEditNote}
         returnTo="/notes"
       />
 
+      {unlockSheet && <NoteUnlockSheet {...unlockSheet} />}
+
       <BottomNavigation />
     </div>
   );
@@ -4,6 +4,7 @@ import { NotesCalendarView } from '@/components/NotesCalendarView';
 import { Calendar as CalendarIcon, Plus, StickyNote, FileText, FileEdit, Pen, Filter, FileCode, GitBranch, Sun, Moon } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { NoteEditor } from '@/components/NoteEditor';
+import { NoteUnlockSheet } from '@/components/NoteUnlockSheet';
 import { Note, Folder, NoteType } from '@/types/note';
 import { BottomNavigation } from '@/components/BottomNavigation';
 import { format, isSameDay } from 'date-fns';
@@ -12,6 +13,7 @@ import { DropdownMenu, DropdownMenuContent, DropdownMenuItem, DropdownMenuTrigge
 import { cn } from '@/lib/utils';
 import appLogo from '@/assets/app-logo.png';
 import { useDarkMode } from '@/hooks/useDarkMode';
+import { useNoteUnlock } from '@/hooks/useNoteUnlock';
 import { loadNotesFromDB, saveNotesToDB, saveNoteToDBSingle, deleteNoteFromDB } from '@/utils/noteStorage';
 
 const NotesCalendar = () => {
@@ -27,6 +29,9 @@ const NotesCalendar = () => {
     'sticky', 'lined', 'regular', 'sketch', 'code', 'mindmap'
   ]);
   const [folders, setFolders] = useState<Folder[]>([]);
+  const { openProtectedNote, unlockSheet } = useNoteUnlock(upgraded =>
+    setNotes(prev => prev.map(n => n.id === upgraded.id ? upgraded : n))
+  );
   
   useEffect(() => {
     const loadFolders = async () => {
@@ -92,10 +97,10 @@ const NotesCalendar = () => {
     window.dispatchEvent(new Event('notesUpdated'));
   };
 
-  const handleEditNote = (note: Note) => {
-    setEditingNote(note);
+  const handleEditNote = (note: Note) => openProtectedNote(note, opened => {
+    setEditingNote(opened);
     setIsEditorOpen(true);
-  };
+  });
 
   const handleCreateNote = (type: NoteType) => {
     setDefaultType(type);
@@ -254,6 +259,8 @@ const NotesCalendar = () => {
         returnTo="/calendar"
       />
 
+      {unlockSheet && <NoteUnlockSheet {...unlockSheet} />}
+
       <BottomNavigation />
     </div>
   );
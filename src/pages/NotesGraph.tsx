@@ -0,0 +1,445 @@
+import { useEffect, useMemo, useRef, useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { useTranslation } from 'react-i18next';
+import { ArrowLeft, Network, RotateCcw } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Folder, NoteType } from '@/types/note';
+import { getSetting } from '@/utils/settingsStorage';
+import { NoteGraphNode, NoteLinkGraph, getNoteLinkGraph } from '@/utils/noteLinkIndex';
+import { ALPHA_MIN, LayoutNode, placeNodes, stepLayout } from '@/utils/forceLayout';
+
+const ALL = 'all';
+const NOTE_TYPES: NoteType[] = ['regular', 'lined', 'sticky', 'code', 'sketch', 'mindmap', 'expense'];
+const TYPE_LABEL_KEYS: Record<NoteType, string> = {
+  regular: 'notes.noteTypes.regular',
+  lined: 'notes.noteTypes.lined',
+  sticky: 'notes.noteTypes.sticky',
+  code: 'notes.noteTypes.code',
+  sketch: 'notes.noteTypes.sketch',
+  mindmap: 'notes.noteTypes.mindMap',
+  expense: 'notes.noteTypes.expense',
+};
+const TYPE_COLORS: Record<NoteType, string> = {
+  regular: '#3B82F6',
+  lined: '#6366F1',
+  sticky: '#F59E0B',
+  code: '#10B981',
+  sketch: '#EC4899',
+  mindmap: '#8B5CF6',
+  expense: '#EF4444',
+};
+
+const MIN_SCALE = 0.2;
+const MAX_SCALE = 4;
+// Pointer travel (in pixels) below which a press counts as a tap
+const TAP_SLOP = 5;
+const LABEL_SCALE = 0.8;
+const LABEL_DEGREE = 3;
+
+// Screen position of a layout point is (point * scale + offset)
+interface View {
+  x: number;
+  y: number;
+  scale: number;
+}
+
+interface Gesture {
+  nodeId: string | null;
+  startX: number;
+  startY: number;
+  lastX: number;
+  lastY: number;
+  moved: boolean;
+}
+
+const nodeRadius = (node: NoteGraphNode) => 5 + 2 * Math.sqrt(node.degree);
+
+const toScreen = (view: View, x: number, y: number) => ({ x: x * view.scale + view.x, y: y * view.scale + view.y });
+
+const toLayout = (view: View, x: number, y: number) => ({ x: (x - view.x) / view.scale, y: (y - view.y) / view.scale });
+
+// Zoom by `factor`, keeping the layout point under (screenX, screenY) where it is
+const zoomView = (view: View, screenX: number, screenY: number, factor: number): View => {
+  const scale = Math.min(MAX_SCALE, Math.max(MIN_SCALE, view.scale * factor));
+  const point = toLayout(view, screenX, screenY);
+  return { scale, x: screenX - point.x * scale, y: screenY - point.y * scale };
+};
+
+const NotesGraph = () => {
+  const navigate = useNavigate();
+  const { t } = useTranslation();
+  const [graph, setGraph] = useState<NoteLinkGraph | null>(null);
+  const [folders, setFolders] = useState<Folder[]>([]);
+  const [folderFilter, setFolderFilter] = useState(ALL);
+  const [typeFilter, setTypeFilter] = useState(ALL);
+
+  const containerRef = useRef<HTMLDivElement>(null);
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const layoutRef = useRef<Map<string, LayoutNode>>(new Map());
+  const alphaRef = useRef(1);
+  const viewRef = useRef<View>({ x: 0, y: 0, scale: 1 });
+  const sizeRef = useRef({ width: 0, height: 0 });
+  const dirtyRef = useRef(true);
+  const hoverRef = useRef<string | null>(null);
+  const pointersRef = useRef(new Map<number, { x: number; y: number }>());
+  const gestureRef = useRef<Gesture | null>(null);
+
+  useEffect(() => {
+    getNoteLinkGraph()
+      .then(setGraph)
+      .catch(error => {
+        console.error('Failed to load notes graph:', error);
+        setGraph({ nodes: [], edges: [] });
+      });
+    getSetting<Folder[]>('folders', []).then(setFolders);
+  }, []);
+
+  const visible = useMemo(() => {
+    if (!graph) return { nodes: [], edges: [] };
+    const nodes = graph.nodes.filter(node =>
+      !node.hidden &&
+      !node.archived &&
+      (folderFilter === ALL || node.folderId === folderFilter) &&
+      (typeFilter === ALL || node.type === typeFilter)
+    );
+    const ids = new Set(nodes.map(node => node.id));
+    return { nodes, edges: graph.edges.filter(edge => ids.has(edge.source) && ids.has(edge.target)) };
+  }, [graph, folderFilter, typeFilter]);
+
+  const visibleRef = useRef(visible);
+  visibleRef.current = visible;
+
+  // Start the layout again whenever the set of notes shown changes
+  useEffect(() => {
+    layoutRef.current = placeNodes(visible.nodes.map(node => node.id), layoutRef.current);
+    alphaRef.current = 1;
+    dirtyRef.current = true;
+  }, [visible]);
+
+  const nodeAt = (screenX: number, screenY: number): string | null => {
+    const point = toLayout(viewRef.current, screenX, screenY);
+    const slop = 6 / viewRef.current.scale;
+    let found: string | null = null;
+    visibleRef.current.nodes.forEach(node => {
+      const position = layoutRef.current.get(node.id);
+      if (!position) return;
+      const radius = nodeRadius(node) + slop;
+      if ((position.x - point.x) ** 2 + (position.y - point.y) ** 2 <= radius * radius) found = node.id;
+    });
+    return found;
+  };
+
+  // Fit every visible note on screen
+  const resetView = () => {
+    const positions = visibleRef.current.nodes
+      .map(node => layoutRef.current.get(node.id))
+      .filter((position): position is LayoutNode => !!position);
+    const { width, height } = sizeRef.current;
+    if (positions.length === 0 || width === 0) {
+      viewRef.current = { x: width / 2, y: height / 2, scale: 1 };
+    } else {
+      const xs = positions.map(position => position.x);
+      const ys = positions.map(position => position.y);
+      const [minX, maxX, minY, maxY] = [Math.min(...xs), Math.max(...xs), Math.min(...ys), Math.max(...ys)];
+      const scale = Math.min(MAX_SCALE, Math.max(MIN_SCALE, Math.min(width / (maxX - minX + 80), height / (maxY - minY + 80))));
+      viewRef.current = { scale, x: width / 2 - ((minX + maxX) / 2) * scale, y: height / 2 - ((minY + maxY) / 2) * scale };
+    }
+    dirtyRef.current = true;
+  };
+
+  // Keep the canvas the size of its container, at the screen's pixel density
+  useEffect(() => {
+    const container = containerRef.current;
+    const canvas = canvasRef.current;
+    if (!container || !canvas) return;
+    const observer = new ResizeObserver(() => {
+      const { width, height } = container.getBoundingClientRect();
+      const previous = sizeRef.current;
+      const ratio = window.devicePixelRatio || 1;
+      canvas.width = width * ratio;
+      canvas.height = height * ratio;
+      canvas.style.width = `${width}px`;
+      canvas.style.height = `${height}px`;
+      // Keep the middle of the graph in the middle
+      viewRef.current = {
+        ...viewRef.current,
+        x: viewRef.current.x + (width - previous.width) / 2,
+        y: viewRef.current.y + (height - previous.height) / 2,
+      };
+      sizeRef.current = { width, height };
+      dirtyRef.current = true;
+    });
+    observer.observe(container);
+    return () => observer.disconnect();
+  }, []);
+
+  // Run the layout and redraw when something changed, once per frame
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    const context = canvas?.getContext('2d');
+    if (!canvas || !context) return;
+
+    const draw = () => {
+      const styles = getComputedStyle(document.documentElement);
+      const foreground = `hsl(${styles.getPropertyValue('--foreground').trim()})`;
+      const muted = `hsl(${styles.getPropertyValue('--muted-foreground').trim()})`;
+      const background = `hsl(${styles.getPropertyValue('--background').trim()})`;
+      const ratio = window.devicePixelRatio || 1;
+      const { nodes, edges } = visibleRef.current;
+      const layout = layoutRef.current;
+      const scale = viewRef.current.scale;
+
+      // The hovered note and its neighbours stay bright, the rest fade
+      const hovered = hoverRef.current;
+      const focus = hovered ? new Set([hovered]) : null;
+      if (hovered && focus) {
+        edges.forEach(edge => {
+          if (edge.source === hovered) focus.add(edge.target);
+          if (edge.target === hovered) focus.add(edge.source);
+        });
+      }
+
+      context.setTransform(ratio, 0, 0, ratio, 0, 0);
+      context.clearRect(0, 0, sizeRef.current.width, sizeRef.current.height);
+
+      context.lineWidth = 1;
+      edges.forEach(edge => {
+        const source = layout.get(edge.source);
+        const target = layout.get(edge.target);
+        if (!source || !target) return;
+        const from = toScreen(viewRef.current, source.x, source.y);
+        const to = toScreen(viewRef.current, target.x, target.y);
+        context.globalAlpha = focus && !(edge.source === hovered || edge.target === hovered) ? 0.1 : 0.5;
+        context.strokeStyle = muted;
+        context.beginPath();
+        context.moveTo(from.x, from.y);
+        context.lineTo(to.x, to.y);
+        context.stroke();
+      });
+
+      context.font = '12px system-ui, sans-serif';
+      context.textAlign = 'center';
+      context.textBaseline = 'top';
+      nodes.forEach(node => {
+        const position = layout.get(node.id);
+        if (!position) return;
+        const { x, y } = toScreen(viewRef.current, position.x, position.y);
+        const radius = nodeRadius(node) * Math.sqrt(scale);
+        context.globalAlpha = focus && !focus.has(node.id) ? 0.2 : 1;
+        context.fillStyle = TYPE_COLORS[node.type] || muted;
+        context.strokeStyle = background;
+        context.lineWidth = 1.5;
+        context.beginPath();
+        context.arc(x, y, radius, 0, Math.PI * 2);
+        context.fill();
+        context.stroke();
+
+        const labelled = focus ? focus.has(node.id) : scale >= LABEL_SCALE || node.degree >= LABEL_DEGREE;
+        if (labelled) {
+          context.fillStyle = foreground;
+          context.fillText(node.title || t('notes.untitled'), x, y + radius + 3);
+        }
+      });
+      context.globalAlpha = 1;
+    };
+
+    let frame = 0;
+    const tick = () => {
+      if (alphaRef.current > ALPHA_MIN) {
+        alphaRef.current = stepLayout(layoutRef.current, visibleRef.current.edges, alphaRef.current);
+        dirtyRef.current = true;
+      }
+      if (dirtyRef.current) {
+        dirtyRef.current = false;
+        draw();
+      }
+      frame = requestAnimationFrame(tick);
+    };
+    frame = requestAnimationFrame(tick);
+    return () => cancelAnimationFrame(frame);
+  }, [t]);
+
+  // Wheel zoom needs a non-passive listener to keep the page from scrolling
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    if (!canvas) return;
+    const onWheel = (e: WheelEvent) => {
+      e.preventDefault();
+      const rect = canvas.getBoundingClientRect();
+      viewRef.current = zoomView(viewRef.current, e.clientX - rect.left, e.clientY - rect.top, Math.exp(-e.deltaY / 300));
+      dirtyRef.current = true;
+    };
+    canvas.addEventListener('wheel', onWheel, { passive: false });
+    return () => canvas.removeEventListener('wheel', onWheel);
+  }, []);
+
+  const pointerPosition = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    const rect = e.currentTarget.getBoundingClientRect();
+    return { x: e.clientX - rect.left, y: e.clientY - rect.top };
+  };
+
+  const handlePointerDown = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    e.currentTarget.setPointerCapture(e.pointerId);
+    const point = pointerPosition(e);
+    pointersRef.current.set(e.pointerId, point);
+    if (pointersRef.current.size > 1) {
+      // A second finger turns the gesture into a pinch
+      gestureRef.current = null;
+      return;
+    }
+    const nodeId = nodeAt(point.x, point.y);
+    const node = nodeId ? layoutRef.current.get(nodeId) : undefined;
+    if (node) node.pinned = true;
+    gestureRef.current = { nodeId, startX: point.x, startY: point.y, lastX: point.x, lastY: point.y, moved: false };
+  };
+
+  const handlePointerMove = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    const point = pointerPosition(e);
+    const pointers = pointersRef.current;
+    const previous = pointers.get(e.pointerId);
+
+    if (previous && pointers.size === 2) {
+      const other = [...pointers.entries()].find(([id]) => id !== e.pointerId)?.[1];
+      if (other) {
+        const before = Math.hypot(previous.x - other.x, previous.y - other.y);
+        const after = Math.hypot(point.x - other.x, point.y - other.y);
+        if (before > 0) {
+          viewRef.current = zoomView(viewRef.current, (point.x + other.x) / 2, (point.y + other.y) / 2, after / before);
+          dirtyRef.current = true;
+        }
+      }
+      pointers.set(e.pointerId, point);
+      return;
+    }
+    if (previous) pointers.set(e.pointerId, point);
+
+    const gesture = gestureRef.current;
+    if (!gesture) {
+      const hovered = nodeAt(point.x, point.y);
+      if (hovered !== hoverRef.current) {
+        hoverRef.current = hovered;
+        e.currentTarget.style.cursor = hovered ? 'pointer' : 'grab';
+        dirtyRef.current = true;
+      }
+      return;
+    }
+
+    if (Math.hypot(point.x - gesture.startX, point.y - gesture.startY) > TAP_SLOP) gesture.moved = true;
+    if (gesture.nodeId) {
+      const node = layoutRef.current.get(gesture.nodeId);
+      if (node) {
+        const position = toLayout(viewRef.current, point.x, point.y);
+        node.x = position.x;
+        node.y = position.y;
+        alphaRef.current = Math.max(alphaRef.current, 0.3);
+      }
+    } else {
+      viewRef.current = {
+        ...viewRef.current,
+        x: viewRef.current.x + point.x - gesture.lastX,
+        y: viewRef.current.y + point.y - gesture.lastY,
+      };
+    }
+    gesture.lastX = point.x;
+    gesture.lastY = point.y;
+    dirtyRef.current = true;
+  };
+
+  const handlePointerUp = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    pointersRef.current.delete(e.pointerId);
+    const gesture = gestureRef.current;
+    gestureRef.current = null;
+    if (!gesture?.nodeId) return;
+    const node = layoutRef.current.get(gesture.nodeId);
+    if (node) node.pinned = false;
+    if (!gesture.moved && e.type === 'pointerup') {
+      navigate('/', { state: { openNoteId: gesture.nodeId } });
+    }
+  };
+
+  const linkCount = visible.edges.length;
+
+  return (
+    <div className="h-screen flex flex-col bg-background">
+      <header className="border-b sticky top-0 bg-card z-10">
+        <div className="container mx-auto px-2 xs:px-3 sm:px-4 py-2 xs:py-3 sm:py-4 space-y-2">
+          <div className="flex items-center gap-2">
+            <Button
+              variant="ghost"
+              size="icon"
+              onClick={() => navigate(-1)}
+              className="h-8 w-8"
+            >
+              <ArrowLeft className="h-5 w-5" />
+            </Button>
+            <h1 className="text-base xs:text-lg sm:text-xl font-bold flex-1">{t('notesGraph.title')}</h1>
+            <Button variant="ghost" size="icon" onClick={resetView} className="h-8 w-8" title={t('notesGraph.resetView')}>
+              <RotateCcw className="h-4 w-4" />
+            </Button>
+          </div>
+          <div className="flex gap-2">
+            <Select value={folderFilter} onValueChange={setFolderFilter}>
+              <SelectTrigger className="h-9 flex-1">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={ALL}>{t('notesGraph.allFolders')}</SelectItem>
+                {folders.map(folder => (
+                  <SelectItem key={folder.id} value={folder.id}>{folder.name}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Select value={typeFilter} onValueChange={setTypeFilter}>
+              <SelectTrigger className="h-9 flex-1">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={ALL}>{t('notesGraph.allTypes')}</SelectItem>
+                {NOTE_TYPES.map(type => (
+                  <SelectItem key={type} value={type}>
+                    <span className="flex items-center gap-2">
+                      <span className="h-2.5 w-2.5 rounded-full" style={{ backgroundColor: TYPE_COLORS[type] }} />
+                      {t(TYPE_LABEL_KEYS[type])}
+                    </span>
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        </div>
+      </header>
+
+      <main ref={containerRef} className="relative flex-1 min-h-0 overflow-hidden">
+        <canvas
+          ref={canvasRef}
+          className="absolute inset-0 touch-none"
+          style={{ cursor: 'grab' }}
+          onPointerDown={handlePointerDown}
+          onPointerMove={handlePointerMove}
+          onPointerUp={handlePointerUp}
+          onPointerCancel={handlePointerUp}
+          onPointerLeave={() => {
+            if (!hoverRef.current) return;
+            hoverRef.current = null;
+            dirtyRef.current = true;
+          }}
+        />
+        {graph && visible.nodes.length === 0 && (
+          <div className="absolute inset-0 flex flex-col items-center justify-center text-muted-foreground pointer-events-none">
+            <Network className="h-12 w-12 mb-4 opacity-50" />
+            <p>{t('notesGraph.empty')}</p>
+          </div>
+        )}
+        {visible.nodes.length > 0 && (
+          <div className="absolute bottom-3 left-3 right-3 text-xs text-muted-foreground pointer-events-none">
+            <p>{t('notesGraph.stats', { notes: visible.nodes.length, links: linkCount })}</p>
+            <p>{t('notesGraph.hint')}</p>
+          </div>
+        )}
+      </main>
+    </div>
+  );
+};
+
+export default NotesGraph;
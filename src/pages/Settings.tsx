@@ -1,17 +1,17 @@
 import { BottomNavigation } from '@/components/BottomNavigation';
 import { ChevronRight, Settings as SettingsIcon, Crown, CreditCard, Palette, Check, Clock, Vibrate, ExternalLink, Globe } from 'lucide-react';
 import { useToast } from '@/hooks/use-toast';
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useCallback } from 'react';
 import { useNavigate } from 'react-router-dom';
 import appLogo from '@/assets/app-logo.png';
 import { useRevenueCat } from '@/contexts/RevenueCatContext';
 import { Capacitor } from '@capacitor/core';
 import { useDarkMode, themes, ThemeId } from '@/hooks/useDarkMode';
 import { differenceInDays, differenceInHours, differenceInMinutes, addDays } from 'date-fns';
-import { Note } from '@/types/note';
+import { Folder, Note } from '@/types/note';
 import { useTranslation } from 'react-i18next';
 import { languages } from '@/i18n';
-import { loadNotesFromDB, saveNotesToDB } from '@/utils/noteStorage';
+import { loadNotesFromDB } from '@/utils/noteStorage';
 import { getSetting, setSetting, getAllSettings, clearAllSettings } from '@/utils/settingsStorage';
 import {
   AlertDialog,
@@ -31,6 +31,9 @@ import {
 } from "@/components/ui/dialog";
 import { ScrollArea } from '@/components/ui/scroll-area';
 import { cn } from '@/lib/utils';
+import { BackupRestoreDialog } from '@/components/BackupRestoreDialog';
+import { downloadBackupArchive } from '@/utils/backupArchive';
+import { exportAllNotesToMarkdown } from '@/utils/markdownExport';
 
 const Settings = () => {
   const { toast } = useToast();
@@ -39,7 +42,7 @@ const Settings = () => {
   const { isPro, customerInfo, presentPaywall, presentCustomerCenter, restorePurchases, isInitialized } = useRevenueCat();
   const { currentTheme, setTheme } = useDarkMode();
   const [showDeleteDialog, setShowDeleteDialog] = useState(false);
-  const [showRestoreDialog, setShowRestoreDialog] = useState(false);
+  const [restoreFile, setRestoreFile] = useState<File | null>(null);
   const [showTermsDialog, setShowTermsDialog] = useState(false);
   const [showPrivacyDialog, setShowPrivacyDialog] = useState(false);
   const [showHelpDialog, setShowHelpDialog] = useState(false);
@@ -135,15 +138,7 @@ const Settings = () => {
 
   const handleBackupData = async () => {
     try {
-      const notesData = await loadNotesFromDB();
-      const folders = await getSetting<any[]>('folders', []);
-      const backup = { notes: JSON.stringify(notesData), folders: JSON.stringify(folders), timestamp: new Date().toISOString() };
-      const blob = new Blob([JSON.stringify(backup)], { type: 'application/json' });
-      const url = URL.createObjectURL(blob);
-      const a = document.createElement('a');
-      a.href = url;
-      a.download = `npd-backup-${Date.now()}.json`;
-      a.click();
+      await downloadBackupArchive();
       toast({ title: t('toasts.dataBackedUp') });
     } catch (error) {
       console.error('Backup error:', error);
@@ -152,50 +147,18 @@ const Settings = () => {
   };
 
   const handleRestoreData = () => {
-    setShowRestoreDialog(true);
-  };
-
-  const confirmRestoreData = () => {
     const input = document.createElement('input');
     input.type = 'file';
-    input.accept = 'application/json';
-    input.onchange = async (e) => {
+    input.accept = '.zip,application/zip,application/json';
+    input.onchange = (e) => {
       const file = (e.target as HTMLInputElement).files?.[0];
-      if (file) {
-        const reader = new FileReader();
-        reader.onload = async (event) => {
-          try {
-            const backup = JSON.parse(event.target?.result as string);
-            if (backup.notes) {
-              const notesData = JSON.parse(backup.notes);
-              const hydratedNotes = notesData.map((n: any) => ({
-                ...n,
-                createdAt: new Date(n.createdAt),
-                updatedAt: new Date(n.updatedAt),
-                voiceRecordings: n.voiceRecordings?.map((r: any) => ({
-                  ...r,
-                  timestamp: new Date(r.timestamp),
-                })) || [],
-              }));
-              await saveNotesToDB(hydratedNotes);
-            }
-              if (backup.folders) {
-                const foldersData = JSON.parse(backup.folders);
-                await setSetting('folders', foldersData);
-              }
-              toast({ title: t('toasts.dataRestored') });
-              setTimeout(() => window.location.reload(), 1000);
-            } catch (error) {
-              toast({ title: t('toasts.restoreFailed'), variant: "destructive" });
-            }
-          };
-          reader.readAsText(file);
-      }
+      if (file) setRestoreFile(file);
     };
     input.click();
-    setShowRestoreDialog(false);
   };
 
+  const closeRestoreDialog = useCallback(() => setRestoreFile(null), []);
+
   const handleDownloadData = async () => {
     try {
       const notesData = await loadNotesFromDB();
@@ -218,6 +181,21 @@ const Settings = () => {
     }
   };
 
+  const handleExportMarkdown = async () => {
+    try {
+      const notes = await loadNotesFromDB();
+      const folders = await getSetting<Folder[]>('folders', []);
+      const { exported, skipped } = await exportAllNotesToMarkdown(notes, folders);
+      toast({
+        title: t('toasts.markdownExported', { count: exported }),
+        description: skipped > 0 ? t('toasts.markdownSkipped', { count: skipped }) : undefined,
+      });
+    } catch (error) {
+      console.error('Markdown export error:', error);
+      toast({ title: t('toasts.downloadFailed'), variant: "destructive" });
+    }
+  };
+
   const handleDeleteData = () => {
     setShowDeleteDialog(true);
   };
@@ -266,6 +244,7 @@ const Settings = () => {
     { label: t('settings.backupData'), onClick: handleBackupData },
     { label: t('settings.restoreData'), onClick: handleRestoreData },
     { label: t('settings.downloadData'), onClick: handleDownloadData },
+    { label: t('settings.exportMarkdown'), onClick: handleExportMarkdown },
     { label: t('settings.deleteData'), onClick: handleDeleteData },
   ];
 
@@ -427,29 +406,7 @@ const Settings = () => {
       </AlertDialog>
 
       {/* Restore Confirmation Dialog */}
-      <AlertDialog open={showRestoreDialog} onOpenChange={setShowRestoreDialog}>
-        <AlertDialogContent>
-          <AlertDialogHeader>
-            <AlertDialogTitle>{t('dialogs.restoreTitle')}</AlertDialogTitle>
-            <AlertDialogDescription className="space-y-2">
-              <p className="font-semibold text-orange-600">⚠️ {t('dialogs.restoreNotice')}</p>
-              <p>{t('dialogs.restoreDesc')}</p>
-              <ul className="list-disc list-inside space-y-1 text-sm">
-                <li>{t('dialogs.restoreReplace')}</li>
-                <li>{t('dialogs.restoreOverwrite')}</li>
-                <li>{t('dialogs.restoreReload')}</li>
-              </ul>
-              <p className="font-medium mt-2">{t('dialogs.restoreBackup')}</p>
-            </AlertDialogDescription>
-          </AlertDialogHeader>
-          <AlertDialogFooter>
-            <AlertDialogCancel>{t('common.cancel')}</AlertDialogCancel>
-            <AlertDialogAction onClick={confirmRestoreData}>
-              {t('dialogs.continueRestore')}
-            </AlertDialogAction>
-          </AlertDialogFooter>
-        </AlertDialogContent>
-      </AlertDialog>
+      <BackupRestoreDialog file={restoreFile} onClose={closeRestoreDialog} />
 
       {/* Terms of Service Dialog */}
       <Dialog open={showTermsDialog} onOpenChange={setShowTermsDialog}>
@@ -23,11 +23,6 @@ const SyncSettingsPage = () => {
             </Button>
             <h1 className="text-base xs:text-lg sm:text-xl font-bold">{t('sync.integrationsImport')}</h1>
           </div>
-          <div className="mt-3 bg-amber-50 dark:bg-amber-950/50 border border-amber-200 dark:border-amber-800 rounded-lg p-3">
-            <p className="text-sm text-amber-700 dark:text-amber-300 font-medium text-center">
-              {t('sync.syncComingSoon')}
-            </p>
-          </div>
         </div>
       </header>
       
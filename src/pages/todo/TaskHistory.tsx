@@ -127,7 +127,7 @@ const TaskHistory = () => {
     items
       .filter(t => t.repeatType && t.repeatType !== 'none')
       .forEach(task => {
-        const label = getRepeatLabel(task.repeatType, task.repeatDays, task.advancedRepeat);
+        const label = getRepeatLabel(task.repeatType, task.repeatDays, task.advancedRepeat, task.recurrence);
         if (!patterns[label]) {
           patterns[label] = { count: 0, tasks: [] };
         }
@@ -247,7 +247,7 @@ const TaskHistory = () => {
                                 {task.repeatType && task.repeatType !== 'none' && (
                                   <Badge variant="outline" className="text-[10px] px-1.5">
                                     <Repeat className="h-2.5 w-2.5 mr-1" />
-                                    {getRepeatLabel(task.repeatType, task.repeatDays, task.advancedRepeat)}
+                                    {getRepeatLabel(task.repeatType, task.repeatDays, task.advancedRepeat, task.recurrence)}
                                   </Badge>
                                 )}
                               </div>
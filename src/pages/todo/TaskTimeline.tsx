@@ -0,0 +1,283 @@
+import { useCallback, useEffect, useMemo, useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { useTranslation } from 'react-i18next';
+import { addDays, format, isSameDay, startOfDay } from 'date-fns';
+import { AlertTriangle, CircleDot, GanttChart, Lock, RefreshCw, Unlink } from 'lucide-react';
+import { TodoLayout } from './TodoLayout';
+import { Button } from '@/components/ui/button';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Folder, TaskSection, TodoItem } from '@/types/note';
+import { cn } from '@/lib/utils';
+import { getSetting } from '@/utils/settingsStorage';
+import { loadTodoItems, saveTodoItems } from '@/utils/todoItemsStorage';
+import { analyzeDependencies, removeMissingDependencies, scheduleTasks } from '@/utils/taskDependencies';
+
+const ALL = 'all';
+const DAY_WIDTH = 40;
+const ROW_HEIGHT = 36;
+const BAR_HEIGHT = 20;
+const NAME_WIDTH = 140;
+
+const TaskTimeline = () => {
+  const { t } = useTranslation();
+  const navigate = useNavigate();
+  const [items, setItems] = useState<TodoItem[]>([]);
+  const [folders, setFolders] = useState<Folder[]>([]);
+  const [sections, setSections] = useState<TaskSection[]>([]);
+  const [folderFilter, setFolderFilter] = useState(ALL);
+  const [sectionFilter, setSectionFilter] = useState(ALL);
+
+  const loadItems = useCallback(async () => {
+    setItems(await loadTodoItems());
+  }, []);
+
+  useEffect(() => {
+    loadItems();
+    getSetting<Folder[]>('todoFolders', []).then(setFolders);
+    getSetting<TaskSection[]>('todoSections', []).then(setSections);
+    window.addEventListener('tasksUpdated', loadItems);
+    return () => window.removeEventListener('tasksUpdated', loadItems);
+  }, [loadItems]);
+
+  const report = useMemo(() => analyzeDependencies(items), [items]);
+  const byId = useMemo(() => new Map(items.map(item => [item.id, item])), [items]);
+  const titleOf = (id: string) => byId.get(id)?.text ?? id;
+
+  const schedule = useMemo(() => {
+    const shown = items.filter(item =>
+      (folderFilter === ALL || item.folderId === folderFilter) &&
+      (sectionFilter === ALL || item.sectionId === sectionFilter)
+    );
+    return scheduleTasks(shown);
+  }, [items, folderFilter, sectionFilter]);
+
+  const rows = useMemo(
+    () => [...schedule.tasks].sort((a, b) => a.startDay - b.startDay || a.endDay - b.endDay),
+    [schedule]
+  );
+  const rowOf = new Map(rows.map((row, index) => [row.task.id, index]));
+  const criticalCount = rows.filter(row => row.critical).length;
+
+  // Show at least a week, and far enough to include every due date on screen
+  const lastDueDay = rows.reduce((latest, row) => {
+    if (!row.task.dueDate) return latest;
+    const day = Math.round((startOfDay(new Date(row.task.dueDate)).getTime() - schedule.start.getTime()) / 86400000);
+    return Math.max(latest, day + 1);
+  }, 0);
+  const dayCount = Math.max(schedule.days, lastDueDay, 7);
+  const days = Array.from({ length: dayCount }, (_, index) => addDays(schedule.start, index));
+  const today = new Date();
+
+  const hasIssues = report.cycles.length > 0 || report.missing.length > 0 || report.dueConflicts.length > 0;
+
+  const handleRemoveMissing = async () => {
+    const cleaned = removeMissingDependencies(items);
+    setItems(cleaned);
+    await saveTodoItems(cleaned);
+    window.dispatchEvent(new Event('tasksUpdated'));
+  };
+
+  const openTask = (taskId: string) => navigate('/todo/today', { state: { openTaskId: taskId } });
+
+  return (
+    <TodoLayout title={t('taskTimeline.title')}>
+      <div className="container mx-auto px-3 sm:px-4 py-4 space-y-4">
+        <div className="flex gap-2">
+          <Select value={folderFilter} onValueChange={setFolderFilter}>
+            <SelectTrigger className="h-9 flex-1">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={ALL}>{t('taskTimeline.allFolders')}</SelectItem>
+              {folders.map(folder => (
+                <SelectItem key={folder.id} value={folder.id}>{folder.name}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Select value={sectionFilter} onValueChange={setSectionFilter}>
+            <SelectTrigger className="h-9 flex-1">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={ALL}>{t('taskTimeline.allSections')}</SelectItem>
+              {sections.map(section => (
+                <SelectItem key={section.id} value={section.id}>{section.name}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+
+        {hasIssues && (
+          <div className="rounded-lg border border-amber-500/40 bg-amber-500/5 p-3 space-y-2 text-sm">
+            <div className="flex items-center gap-2 font-medium text-amber-600">
+              <AlertTriangle className="h-4 w-4" />
+              {t('taskTimeline.issues')}
+            </div>
+            {report.cycles.map(cycle => (
+              <div key={cycle.join()} className="flex items-start gap-2">
+                <RefreshCw className="h-4 w-4 mt-0.5 shrink-0 text-destructive" />
+                <span>{t('taskTimeline.cycle', { tasks: [...cycle, cycle[0]].map(titleOf).join(' → ') })}</span>
+              </div>
+            ))}
+            {report.dueConflicts.map(conflict => (
+              <div key={`${conflict.taskId}-${conflict.prerequisiteId}`} className="flex items-start gap-2">
+                <AlertTriangle className="h-4 w-4 mt-0.5 shrink-0 text-amber-500" />
+                <span>{t('taskTimeline.dueBeforePrerequisite', { task: titleOf(conflict.taskId), prerequisite: titleOf(conflict.prerequisiteId) })}</span>
+              </div>
+            ))}
+            {report.missing.length > 0 && (
+              <div className="flex items-center gap-2">
+                <Unlink className="h-4 w-4 shrink-0 text-muted-foreground" />
+                <span className="flex-1">
+                  {t('taskTimeline.missing', { count: report.missing.length, tasks: report.missing.map(entry => titleOf(entry.taskId)).join(', ') })}
+                </span>
+                <Button size="sm" variant="outline" onClick={handleRemoveMissing}>
+                  {t('taskTimeline.removeMissing')}
+                </Button>
+              </div>
+            )}
+          </div>
+        )}
+
+        {rows.length === 0 ? (
+          <div className="text-center py-12 text-muted-foreground">
+            <GanttChart className="h-12 w-12 mx-auto mb-4 opacity-50" />
+            <p>{t('taskTimeline.empty')}</p>
+          </div>
+        ) : (
+          <>
+            <p className="text-xs text-muted-foreground">
+              {t('taskTimeline.summary', {
+                tasks: rows.length,
+                end: format(addDays(schedule.start, Math.max(schedule.days - 1, 0)), 'PP'),
+                critical: criticalCount,
+              })}
+            </p>
+            <div className="flex rounded-lg border overflow-hidden">
+              <div className="shrink-0 border-r bg-background" style={{ width: NAME_WIDTH }}>
+                <div className="h-10 border-b" />
+                {rows.map(row => {
+                  const state = report.states.get(row.task.id);
+                  return (
+                    <button
+                      key={row.task.id}
+                      onClick={() => openTask(row.task.id)}
+                      className="flex w-full items-center gap-1.5 px-2 text-left text-xs hover:bg-muted/50"
+                      style={{ height: ROW_HEIGHT }}
+                    >
+                      {state === 'blocked' ? (
+                        <Lock className="h-3 w-3 shrink-0 text-amber-500" aria-label={t('taskTimeline.blocked')} />
+                      ) : (
+                        <CircleDot className="h-3 w-3 shrink-0 text-green-500" aria-label={t('taskTimeline.ready')} />
+                      )}
+                      <span className={cn('truncate', row.critical && 'font-semibold')}>{row.task.text}</span>
+                    </button>
+                  );
+                })}
+              </div>
+
+              <div className="overflow-x-auto">
+                <div className="relative" style={{ width: dayCount * DAY_WIDTH }}>
+                  <div className="flex h-10 border-b">
+                    {days.map(day => (
+                      <div
+                        key={day.getTime()}
+                        className={cn(
+                          'shrink-0 border-r text-center text-[10px] leading-tight pt-1 text-muted-foreground',
+                          isSameDay(day, today) && 'bg-primary/10 text-primary font-medium'
+                        )}
+                        style={{ width: DAY_WIDTH }}
+                      >
+                        <div>{format(day, 'EEE')}</div>
+                        <div>{format(day, 'd MMM')}</div>
+                      </div>
+                    ))}
+                  </div>
+
+                  <div className="relative" style={{ height: rows.length * ROW_HEIGHT }}>
+                    {days.map((day, index) => (
+                      <div
+                        key={day.getTime()}
+                        className="absolute top-0 bottom-0 border-r border-border/50"
+                        style={{ left: (index + 1) * DAY_WIDTH }}
+                      />
+                    ))}
+
+                    <svg className="absolute inset-0 pointer-events-none" width={dayCount * DAY_WIDTH} height={rows.length * ROW_HEIGHT}>
+                      {schedule.links.map(link => {
+                        const from = rows[rowOf.get(link.from) as number];
+                        const to = rows[rowOf.get(link.to) as number];
+                        const x1 = from.endDay * DAY_WIDTH - 2;
+                        const y1 = (rowOf.get(link.from) as number) * ROW_HEIGHT + ROW_HEIGHT / 2;
+                        const x2 = to.startDay * DAY_WIDTH + 2;
+                        const y2 = (rowOf.get(link.to) as number) * ROW_HEIGHT + ROW_HEIGHT / 2;
+                        const bend = Math.max(x1 + 6, x2 - 6);
+                        return (
+                          <path
+                            key={`${link.from}-${link.to}`}
+                            d={`M ${x1} ${y1} H ${bend} V ${y2} H ${x2}`}
+                            fill="none"
+                            strokeWidth={link.critical ? 2 : 1}
+                            className={link.critical ? 'stroke-destructive' : 'stroke-muted-foreground/60'}
+                          />
+                        );
+                      })}
+                    </svg>
+
+                    {rows.map((row, index) => {
+                      const dueDay = row.task.dueDate
+                        ? Math.round((startOfDay(new Date(row.task.dueDate)).getTime() - schedule.start.getTime()) / 86400000)
+                        : null;
+                      return (
+                        <div key={row.task.id}>
+                          <button
+                            onClick={() => openTask(row.task.id)}
+                            title={row.critical ? t('taskTimeline.criticalTask') : t('taskTimeline.slack', { count: row.slack })}
+                            className={cn(
+                              'absolute rounded-md text-[10px] text-white px-1 truncate text-left',
+                              row.critical ? 'bg-destructive' : 'bg-primary/70',
+                              row.late && 'ring-2 ring-amber-500'
+                            )}
+                            style={{
+                              left: row.startDay * DAY_WIDTH + 2,
+                              width: Math.max((row.endDay - row.startDay) * DAY_WIDTH - 4, 4),
+                              top: index * ROW_HEIGHT + (ROW_HEIGHT - BAR_HEIGHT) / 2,
+                              height: BAR_HEIGHT,
+                            }}
+                          >
+                            {row.task.text}
+                          </button>
+                          {dueDay !== null && dueDay >= 0 && (
+                            <div
+                              className={cn('absolute w-0.5', row.late ? 'bg-amber-500' : 'bg-foreground/40')}
+                              style={{ left: (dueDay + 1) * DAY_WIDTH - 1, top: index * ROW_HEIGHT + 4, height: ROW_HEIGHT - 8 }}
+                              title={t('taskTimeline.due', { date: format(new Date(row.task.dueDate as Date), 'PP') })}
+                            />
+                          )}
+                        </div>
+                      );
+                    })}
+                  </div>
+                </div>
+              </div>
+            </div>
+
+            <div className="flex flex-wrap gap-3 text-xs text-muted-foreground">
+              <span className="flex items-center gap-1"><span className="h-2 w-4 rounded bg-destructive" />{t('taskTimeline.legendCritical')}</span>
+              <span className="flex items-center gap-1"><span className="h-2 w-4 rounded bg-primary/70" />{t('taskTimeline.legendSlack')}</span>
+              <span className="flex items-center gap-1"><span className="h-2 w-4 rounded ring-2 ring-amber-500" />{t('taskTimeline.legendLate')}</span>
+            </div>
+          </>
+        )}
+
+        {schedule.unscheduled.length > 0 && (
+          <p className="text-xs text-muted-foreground">
+            {t('taskTimeline.unscheduled', { tasks: schedule.unscheduled.map(task => task.text).join(', ') })}
+          </p>
+        )}
+      </div>
+    </TodoLayout>
+  );
+};
+
+export default TaskTimeline;
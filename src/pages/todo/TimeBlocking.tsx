@@ -0,0 +1,442 @@
+import { useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { useTranslation } from 'react-i18next';
+import { toast } from 'sonner';
+import {
+  addDays,
+  addMinutes,
+  differenceInMinutes,
+  eachDayOfInterval,
+  endOfDay,
+  endOfWeek,
+  format,
+  isSameDay,
+  isToday,
+  setHours,
+  startOfDay,
+  startOfWeek,
+} from 'date-fns';
+import { AlertTriangle, CalendarClock, ChevronLeft, ChevronRight, GripHorizontal, Sparkles, X } from 'lucide-react';
+import { TodoLayout } from './TodoLayout';
+import { Button } from '@/components/ui/button';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { CalendarEvent, Priority, TodoItem } from '@/types/note';
+import { cn } from '@/lib/utils';
+import { getSetting, setSetting } from '@/utils/settingsStorage';
+import { loadTodoItems, saveTodoItems } from '@/utils/todoItemsStorage';
+import {
+  BusyPeriod,
+  DEFAULT_WORKING_HOURS,
+  ESTIMATE_OPTIONS,
+  formatMinutes,
+  SLOT_MINUTES,
+  WorkingHours,
+  findConflicts,
+  getEventPeriods,
+  getTaskMinutes,
+  getTaskPeriods,
+  isTimeBlocked,
+  planDay,
+  snapToSlot,
+} from '@/utils/timeBlocking';
+
+type ViewMode = 'day' | 'week';
+
+interface DragState {
+  taskId: string;
+  mode: 'move' | 'resize';
+  originX: number;
+  originY: number;
+  start: Date;
+  end: Date;
+  // Where the block would land if dropped now
+  previewStart: Date;
+  previewEnd: Date;
+  moved: boolean;
+}
+
+const GRID_START_HOUR = 6;
+const GRID_END_HOUR = 24;
+const HOUR_HEIGHT = 48;
+const MINUTE_HEIGHT = HOUR_HEIGHT / 60;
+const HOURS = Array.from({ length: GRID_END_HOUR - GRID_START_HOUR }, (_, index) => GRID_START_HOUR + index);
+const WORKING_HOURS_KEY = 'timeBlockingHours';
+
+const PRIORITY_COLORS: Record<Priority, string> = {
+  high: 'bg-red-500',
+  medium: 'bg-orange-500',
+  low: 'bg-green-500',
+  none: 'bg-primary',
+};
+
+const TimeBlocking = () => {
+  const { t } = useTranslation();
+  const navigate = useNavigate();
+  const [items, setItems] = useState<TodoItem[]>([]);
+  const [events, setEvents] = useState<CalendarEvent[]>([]);
+  const [view, setView] = useState<ViewMode>('day');
+  const [anchor, setAnchor] = useState(() => startOfDay(new Date()));
+  const [hours, setHoursState] = useState<WorkingHours>(DEFAULT_WORKING_HOURS);
+  // Task picked from the tray on touch screens, placed with the next tap on the grid
+  const [placingId, setPlacingId] = useState<string | null>(null);
+  const [drag, setDrag] = useState<DragState | null>(null);
+  const gridRef = useRef<HTMLDivElement>(null);
+
+  const load = useCallback(async () => {
+    setItems(await loadTodoItems());
+    const savedEvents = await getSetting<CalendarEvent[]>('calendarEvents', []);
+    setEvents(savedEvents.map(event => ({
+      ...event,
+      startDate: new Date(event.startDate),
+      endDate: new Date(event.endDate),
+      createdAt: new Date(event.createdAt),
+      updatedAt: new Date(event.updatedAt),
+    })));
+  }, []);
+
+  useEffect(() => {
+    load();
+    getSetting<WorkingHours>(WORKING_HOURS_KEY, DEFAULT_WORKING_HOURS).then(setHoursState);
+    window.addEventListener('tasksUpdated', load);
+    return () => window.removeEventListener('tasksUpdated', load);
+  }, [load]);
+
+  const days = useMemo(
+    () => view === 'day'
+      ? [anchor]
+      : eachDayOfInterval({ start: startOfWeek(anchor, { weekStartsOn: 1 }), end: endOfWeek(anchor, { weekStartsOn: 1 }) }),
+    [view, anchor]
+  );
+  const rangeStart = days[0];
+  const rangeEnd = useMemo(() => endOfDay(days[days.length - 1]), [days]);
+
+  const eventPeriods = useMemo(() => getEventPeriods(events, rangeStart, rangeEnd), [events, rangeStart, rangeEnd]);
+  const taskPeriods = useMemo(() => getTaskPeriods(items, rangeStart, rangeEnd), [items, rangeStart, rangeEnd]);
+  const unscheduled = items.filter(item => !item.completed && !isTimeBlocked(item));
+  const itemById = new Map(items.map(item => [item.id, item]));
+
+  const saveItems = async (next: TodoItem[]) => {
+    setItems(next);
+    await saveTodoItems(next);
+    window.dispatchEvent(new Event('tasksUpdated'));
+  };
+
+  const updateTask = (taskId: string, updates: Partial<TodoItem>) =>
+    saveItems(items.map(item => item.id === taskId ? { ...item, ...updates, modifiedAt: new Date() } : item));
+
+  const scheduleTask = (taskId: string, start: Date, end?: Date) => {
+    const task = itemById.get(taskId);
+    if (!task) return;
+    const blockEnd = end ?? addMinutes(start, getTaskMinutes(task));
+    updateTask(taskId, { scheduledStart: start, scheduledEnd: blockEnd });
+    const conflicts = findConflicts({ start, end: blockEnd }, [...getEventPeriods(events, startOfDay(start), endOfDay(blockEnd)), ...taskPeriods], taskId);
+    if (conflicts.length > 0) {
+      toast.warning(t('timeBlocking.conflict', { titles: conflicts.map(period => period.title).join(', ') }));
+    }
+  };
+
+  const handlePlanDay = () => {
+    const day = view === 'day' ? anchor : startOfDay(new Date());
+    const busy = [...getEventPeriods(events, day, endOfDay(day)), ...getTaskPeriods(items, day, endOfDay(day))];
+    const { blocks, unplaced } = planDay(items, day, busy, { hours, now: isToday(day) ? new Date() : undefined });
+    if (blocks.length === 0) {
+      toast.info(t('timeBlocking.nothingPlanned'));
+      return;
+    }
+    const planned = new Map(blocks.map(block => [block.taskId, block]));
+    saveItems(items.map(item => {
+      const block = planned.get(item.id);
+      return block ? { ...item, scheduledStart: block.start, scheduledEnd: block.end, modifiedAt: new Date() } : item;
+    }));
+    toast.success(t('timeBlocking.planned', { count: blocks.length }), {
+      description: unplaced.length > 0 ? t('timeBlocking.unplaced', { count: unplaced.length }) : undefined,
+    });
+  };
+
+  const handleHoursChange = (key: keyof WorkingHours, value: string) => {
+    const next = { ...hours, [key]: Number(value) };
+    if (next.start >= next.end) return;
+    setHoursState(next);
+    setSetting(WORKING_HOURS_KEY, next);
+  };
+
+  // The slot under a point of a day column
+  const timeAt = (day: Date, clientY: number, column: HTMLElement) => {
+    const offset = (clientY - column.getBoundingClientRect().top) / MINUTE_HEIGHT;
+    return snapToSlot(addMinutes(setHours(startOfDay(day), GRID_START_HOUR), Math.max(0, offset)));
+  };
+
+  const handleColumnDrop = (e: React.DragEvent<HTMLDivElement>, day: Date) => {
+    e.preventDefault();
+    const taskId = e.dataTransfer.getData('text/plain');
+    if (taskId) scheduleTask(taskId, timeAt(day, e.clientY, e.currentTarget));
+  };
+
+  const handleColumnClick = (e: React.MouseEvent<HTMLDivElement>, day: Date) => {
+    if (!placingId) return;
+    scheduleTask(placingId, timeAt(day, e.clientY, e.currentTarget));
+    setPlacingId(null);
+  };
+
+  const handleBlockPointerDown = (e: React.PointerEvent<HTMLElement>, task: TodoItem, mode: DragState['mode']) => {
+    e.stopPropagation();
+    e.currentTarget.setPointerCapture(e.pointerId);
+    const start = new Date(task.scheduledStart as Date);
+    const end = new Date(task.scheduledEnd as Date);
+    setDrag({ taskId: task.id, mode, originX: e.clientX, originY: e.clientY, start, end, previewStart: start, previewEnd: end, moved: false });
+  };
+
+  const handleBlockPointerMove = (e: React.PointerEvent<HTMLElement>) => {
+    if (!drag) return;
+    const minutes = Math.round((e.clientY - drag.originY) / MINUTE_HEIGHT / SLOT_MINUTES) * SLOT_MINUTES;
+    const columnWidth = (gridRef.current?.clientWidth ?? 0) / days.length;
+    const dayShift = view === 'week' && columnWidth > 0 ? Math.round((e.clientX - drag.originX) / columnWidth) : 0;
+    if (drag.mode === 'resize') {
+      const previewEnd = addMinutes(drag.end, minutes);
+      if (differenceInMinutes(previewEnd, drag.start) < SLOT_MINUTES) return;
+      setDrag({ ...drag, previewEnd, moved: drag.moved || minutes !== 0 });
+      return;
+    }
+    const previewStart = addMinutes(addDays(drag.start, dayShift), minutes);
+    setDrag({
+      ...drag,
+      previewStart,
+      previewEnd: addMinutes(previewStart, differenceInMinutes(drag.end, drag.start)),
+      moved: drag.moved || minutes !== 0 || dayShift !== 0,
+    });
+  };
+
+  const handleBlockPointerUp = () => {
+    if (!drag) return;
+    setDrag(null);
+    if (drag.moved) scheduleTask(drag.taskId, drag.previewStart, drag.previewEnd);
+    else if (drag.mode === 'move') navigate('/todo/today', { state: { openTaskId: drag.taskId } });
+  };
+
+  const blockStyle = (start: Date, end: Date) => {
+    const gridStart = setHours(startOfDay(start), GRID_START_HOUR);
+    const top = Math.max(0, differenceInMinutes(start, gridStart)) * MINUTE_HEIGHT;
+    const bottom = Math.min(differenceInMinutes(end, gridStart), (GRID_END_HOUR - GRID_START_HOUR) * 60) * MINUTE_HEIGHT;
+    return { top, height: Math.max(bottom - top, SLOT_MINUTES * MINUTE_HEIGHT) };
+  };
+
+  const allBusy: BusyPeriod[] = [...eventPeriods, ...taskPeriods];
+  const now = new Date();
+  const title = view === 'day'
+    ? format(anchor, 'EEEE, MMM d')
+    : `${format(days[0], 'MMM d')} – ${format(days[days.length - 1], 'MMM d')}`;
+
+  return (
+    <TodoLayout title={t('timeBlocking.title')}>
+      <div className="container mx-auto px-3 sm:px-4 py-4 space-y-4">
+        <div className="flex flex-wrap items-center gap-2">
+          <div className="flex rounded-lg border p-0.5">
+            {(['day', 'week'] as ViewMode[]).map(mode => (
+              <Button key={mode} size="sm" variant={view === mode ? 'secondary' : 'ghost'} className="h-7" onClick={() => setView(mode)}>
+                {t(`timeBlocking.${mode}`)}
+              </Button>
+            ))}
+          </div>
+          <Button variant="ghost" size="icon" className="h-8 w-8" onClick={() => setAnchor(addDays(anchor, view === 'day' ? -1 : -7))}>
+            <ChevronLeft className="h-4 w-4" />
+          </Button>
+          <Button variant="outline" size="sm" className="h-8" onClick={() => setAnchor(startOfDay(new Date()))}>
+            {t('timeBlocking.today')}
+          </Button>
+          <Button variant="ghost" size="icon" className="h-8 w-8" onClick={() => setAnchor(addDays(anchor, view === 'day' ? 1 : 7))}>
+            <ChevronRight className="h-4 w-4" />
+          </Button>
+          <span className="text-sm font-medium flex-1">{title}</span>
+          <Button size="sm" className="h-8 gap-1" onClick={handlePlanDay}>
+            <Sparkles className="h-4 w-4" />
+            {t('timeBlocking.planMyDay')}
+          </Button>
+        </div>
+
+        <div className="rounded-lg border p-3 space-y-2">
+          <div className="flex flex-wrap items-center gap-2 text-sm">
+            <span className="font-medium flex-1">{t('timeBlocking.unscheduled', { count: unscheduled.length })}</span>
+            <span className="text-xs text-muted-foreground">{t('timeBlocking.workingHours')}</span>
+            {(['start', 'end'] as (keyof WorkingHours)[]).map(key => (
+              <Select key={key} value={String(hours[key])} onValueChange={(value) => handleHoursChange(key, value)}>
+                <SelectTrigger className="h-7 w-20 text-xs">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {Array.from({ length: 25 }, (_, hour) => hour).map(hour => (
+                    <SelectItem key={hour} value={String(hour)}>{`${hour}:00`}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            ))}
+          </div>
+          {unscheduled.length === 0 ? (
+            <p className="text-xs text-muted-foreground">{t('timeBlocking.allScheduled')}</p>
+          ) : (
+            <div className="flex gap-2 overflow-x-auto pb-1">
+              {unscheduled.map(task => (
+                <div
+                  key={task.id}
+                  draggable
+                  onDragStart={(e) => e.dataTransfer.setData('text/plain', task.id)}
+                  onClick={() => setPlacingId(placingId === task.id ? null : task.id)}
+                  className={cn(
+                    'flex-shrink-0 w-44 rounded-md border bg-card p-2 space-y-1.5 cursor-grab',
+                    placingId === task.id && 'ring-2 ring-primary'
+                  )}
+                >
+                  <div className="flex items-center gap-1.5">
+                    <span className={cn('h-2 w-2 rounded-full shrink-0', PRIORITY_COLORS[task.priority ?? 'none'])} />
+                    <span className="text-xs font-medium truncate">{task.text}</span>
+                  </div>
+                  <div onClick={(e) => e.stopPropagation()}>
+                    <Select
+                      value={String(getTaskMinutes(task))}
+                      onValueChange={(value) => updateTask(task.id, { estimatedMinutes: Number(value) })}
+                    >
+                      <SelectTrigger className="h-6 text-[11px]">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {[...new Set([...ESTIMATE_OPTIONS, getTaskMinutes(task)])].sort((a, b) => a - b).map(minutes => (
+                          <SelectItem key={minutes} value={String(minutes)}>{formatMinutes(minutes)}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                </div>
+              ))}
+            </div>
+          )}
+          {placingId && <p className="text-xs text-primary">{t('timeBlocking.tapToPlace')}</p>}
+        </div>
+
+        <div className="overflow-x-auto rounded-lg border">
+          <div style={{ minWidth: view === 'week' ? 720 : undefined }}>
+            <div className="flex border-b">
+              <div className="w-12 shrink-0" />
+              {days.map(day => (
+                <div
+                  key={day.getTime()}
+                  className={cn('flex-1 py-1.5 text-center text-xs', isToday(day) ? 'text-primary font-semibold' : 'text-muted-foreground')}
+                >
+                  {format(day, 'EEE d')}
+                </div>
+              ))}
+            </div>
+
+            <div className="flex">
+              <div className="w-12 shrink-0">
+                {HOURS.map(hour => (
+                  <div key={hour} className="text-[10px] text-muted-foreground text-right pr-1.5 -mt-1.5" style={{ height: HOUR_HEIGHT }}>
+                    {`${hour}:00`}
+                  </div>
+                ))}
+              </div>
+
+              <div ref={gridRef} className="flex flex-1">
+                {days.map(day => {
+                  const dayEvents = eventPeriods.filter(period => isSameDay(period.start, day) || (period.start < day && period.end > day));
+                  const dayTasks = items.filter(item => !item.completed && isTimeBlocked(item) && isSameDay(new Date(item.scheduledStart as Date), day));
+                  const ghost = drag?.moved && isSameDay(drag.previewStart, day) ? drag : null;
+                  return (
+                    <div
+                      key={day.getTime()}
+                      className={cn('relative flex-1 border-l', placingId && 'cursor-copy')}
+                      style={{ height: HOURS.length * HOUR_HEIGHT }}
+                      onDragOver={(e) => e.preventDefault()}
+                      onDrop={(e) => handleColumnDrop(e, day)}
+                      onClick={(e) => handleColumnClick(e, day)}
+                    >
+                      {HOURS.map(hour => (
+                        <div
+                          key={hour}
+                          className={cn('border-b border-border/40', (hour < hours.start || hour >= hours.end) && 'bg-muted/30')}
+                          style={{ height: HOUR_HEIGHT }}
+                        />
+                      ))}
+
+                      {dayEvents.map(period => {
+                        const start = period.start < day ? setHours(day, GRID_START_HOUR) : period.start;
+                        return (
+                          <div
+                            key={period.id}
+                            className="absolute inset-x-0.5 rounded bg-muted border border-border text-[10px] text-muted-foreground px-1 overflow-hidden pointer-events-none"
+                            style={blockStyle(start, period.end)}
+                          >
+                            <CalendarClock className="inline h-3 w-3 mr-0.5" />
+                            {period.title}
+                          </div>
+                        );
+                      })}
+
+                      {dayTasks.map(task => {
+                        const start = new Date(task.scheduledStart as Date);
+                        const end = new Date(task.scheduledEnd as Date);
+                        const conflicted = findConflicts({ start, end }, allBusy, task.id).length > 0;
+                        return (
+                          <div
+                            key={task.id}
+                            onPointerDown={(e) => handleBlockPointerDown(e, task, 'move')}
+                            onPointerMove={handleBlockPointerMove}
+                            onPointerUp={handleBlockPointerUp}
+                            onClick={(e) => e.stopPropagation()}
+                            className={cn(
+                              'absolute left-4 right-0.5 rounded-md px-1.5 py-0.5 text-[11px] text-white overflow-hidden touch-none select-none cursor-move',
+                              PRIORITY_COLORS[task.priority ?? 'none'],
+                              conflicted && 'ring-2 ring-destructive',
+                              drag?.taskId === task.id && drag.moved && 'opacity-40'
+                            )}
+                            style={blockStyle(start, drag?.taskId === task.id && drag.mode === 'resize' ? drag.previewEnd : end)}
+                          >
+                            <div className="flex items-start gap-1">
+                              {conflicted && <AlertTriangle className="h-3 w-3 shrink-0 mt-0.5" aria-label={t('timeBlocking.overlaps')} />}
+                              <span className="font-medium truncate flex-1">{task.text}</span>
+                              <button
+                                onPointerDown={(e) => e.stopPropagation()}
+                                onClick={() => updateTask(task.id, { scheduledStart: undefined, scheduledEnd: undefined })}
+                                aria-label={t('timeBlocking.unschedule')}
+                              >
+                                <X className="h-3 w-3" />
+                              </button>
+                            </div>
+                            <div className="opacity-80">{`${format(start, 'HH:mm')}–${format(end, 'HH:mm')}`}</div>
+                            <div
+                              onPointerDown={(e) => handleBlockPointerDown(e, task, 'resize')}
+                              className="absolute inset-x-0 bottom-0 h-2 flex justify-center cursor-ns-resize"
+                              aria-label={t('timeBlocking.resize')}
+                            >
+                              <GripHorizontal className="h-2 w-3 opacity-70" />
+                            </div>
+                          </div>
+                        );
+                      })}
+
+                      {ghost && ghost.mode === 'move' && (
+                        <div
+                          className="absolute left-4 right-0.5 rounded-md border-2 border-dashed border-primary bg-primary/10 text-[11px] px-1.5 pointer-events-none"
+                          style={blockStyle(ghost.previewStart, ghost.previewEnd)}
+                        >
+                          {`${format(ghost.previewStart, 'HH:mm')}–${format(ghost.previewEnd, 'HH:mm')}`}
+                        </div>
+                      )}
+
+                      {isSameDay(day, now) && now.getHours() >= GRID_START_HOUR && (
+                        <div
+                          className="absolute inset-x-0 h-0.5 bg-destructive pointer-events-none"
+                          style={{ top: differenceInMinutes(now, setHours(startOfDay(now), GRID_START_HOUR)) * MINUTE_HEIGHT }}
+                        />
+                      )}
+                    </div>
+                  );
+                })}
+              </div>
+            </div>
+          </div>
+        </div>
+      </div>
+    </TodoLayout>
+  );
+};
+
+export default TimeBlocking;
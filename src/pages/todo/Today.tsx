@@ -1,9 +1,10 @@
 import { useState, useEffect, useMemo, useRef, useCallback } from 'react';
 import { useTranslation } from 'react-i18next';
-import { TodoItem, Folder, Priority, Note, TaskSection, TaskStatus } from '@/types/note';
+import { useLocation } from 'react-router-dom';
+import { TodoItem, Folder, Priority, Note, TaskSection } from '@/types/note';
 import { WaveformProgressBar } from '@/components/WaveformProgressBar';
-import { Play, Pause, Repeat, Check, Trash2 as TrashIcon, Edit, Plus as PlusIcon, ArrowUpCircle, ArrowDownCircle, Move, History, TrendingUp, Flag, MapPin, ChevronsUpDown, Circle, Loader2, Clock as ClockIcon } from 'lucide-react';
-import { Plus, FolderIcon, ChevronRight, ChevronDown, MoreVertical, Eye, EyeOff, Filter, Copy, MousePointer2, FolderPlus, Settings, LayoutList, LayoutGrid, Trash2, ListPlus, Tag, ArrowDownAZ, ArrowUpDown, Sun, Columns3, GitBranch, X, Search, ListChecks } from 'lucide-react';
+import { Play, Pause, Repeat, Check, Trash2 as TrashIcon, Edit, Plus as PlusIcon, ArrowUpCircle, ArrowDownCircle, Move, History, TrendingUp, Flag, MapPin, ChevronsUpDown } from 'lucide-react';
+import { Plus, FolderIcon, ChevronRight, ChevronDown, MoreVertical, Eye, EyeOff, Filter, Copy, MousePointer2, FolderPlus, Settings, LayoutList, LayoutGrid, Trash2, ListPlus, Tag, ArrowDownAZ, ArrowUpDown, Sun, Columns3, GitBranch, X, Search, ListChecks, Kanban } from 'lucide-react';
 import { LocationRemindersMap } from '@/components/LocationRemindersMap';
 import { TaskWidgets } from '@/components/TaskWidgets';
 import { cn } from '@/lib/utils';
@@ -28,13 +29,19 @@ import { BulkRepeatSheet } from '@/components/BulkRepeatSheet';
 import { BulkSectionMoveSheet } from '@/components/BulkSectionMoveSheet';
 import { BulkStatusSheet } from '@/components/BulkStatusSheet';
 import { UnifiedDragDropList } from '@/components/UnifiedDragDropList';
+import { TaskBoardView } from '@/components/TaskBoardView';
+import { BoardGroup, SECTIONS_BOARD_ID, STATUS_BOARD_ID, TaskBoard, setActiveBoardId } from '@/utils/taskBoards';
 import { DragDropContext, Droppable, Draggable, DropResult } from '@hello-pangea/dnd';
 import { SubtaskDetailSheet } from '@/components/SubtaskDetailSheet';
 import { SmartListType, getSmartListFilter, useSmartLists } from '@/components/SmartListsDropdown';
+import { SmartListEditorSheet } from '@/components/SmartListEditorSheet';
+import { CustomSmartList, customSmartListId } from '@/utils/customSmartLists';
 import { Haptics, ImpactStyle } from '@capacitor/haptics';
 import { notificationManager } from '@/utils/notifications';
 import { createNextRecurringTask } from '@/utils/recurringTasks';
 import { cleanupCompletedTasks } from '@/utils/taskCleanup';
+import { TASKS_REVERTED_EVENT } from '@/utils/taskHistory';
+import { ensureCanComplete, splitCompletable } from '@/utils/taskDependencies';
 import { startGeofenceWatching, hasLocationReminders } from '@/utils/geofencing';
 import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
 import { Collapsible, CollapsibleContent, CollapsibleTrigger } from "@/components/ui/collapsible";
@@ -51,12 +58,13 @@ import { updateSectionOrder, applyTaskOrder, removeTaskFromOrders } from '@/util
 import { getSetting, setSetting } from '@/utils/settingsStorage';
 import { ResolvedTaskImage } from '@/components/ResolvedTaskImage';
 import { useResolvedTaskMedia } from '@/hooks/useResolvedTaskMedia';
+import { useTrackedTaskIds } from '@/hooks/useTaskTimeTotals';
 import { ResolvedImageDialog } from '@/components/ResolvedImageDialog';
 import { playCompletionSound } from '@/utils/taskSounds';
 import { HideDetailsOptions } from '@/components/TaskOptionsSheet';
 import { logActivity } from '@/utils/activityLogger';
 
-type ViewMode = 'flat' | 'kanban' | 'kanban-status' | 'timeline' | 'progress' | 'priority' | 'history';
+type ViewMode = 'flat' | 'board' | 'timeline' | 'progress' | 'priority' | 'history';
 type SortBy = 'date' | 'priority' | 'name' | 'created';
 
 const defaultSections: TaskSection[] = [
@@ -94,6 +102,8 @@ const Today = () => {
   const [tagFilter, setTagFilter] = useState<string[]>([]);
   const [smartList, setSmartList] = useState<SmartListType>('all');
   const [viewMode, setViewMode] = useState<ViewMode>('flat');
+  // Bumped to reopen the board view on a board picked from the menu
+  const [boardVersion, setBoardVersion] = useState(0);
   const [sortBy, setSortBy] = useState<SortBy>('date');
   const [hideDetailsOptions, setHideDetailsOptions] = useState<HideDetailsOptions>({ hideDateTime: false, hideStatus: false, hideSubtasks: false });
   const [dropdownView, setDropdownView] = useState<'main' | 'smartLists' | 'sortBy' | 'groupBy'>('main');
@@ -101,7 +111,10 @@ const Today = () => {
   const [groupByOption, setGroupByOption] = useState<'none' | 'section' | 'priority' | 'date'>('none');
   const [subtaskSwipeState, setSubtaskSwipeState] = useState<{ id: string; parentId: string; x: number; isSwiping: boolean } | null>(null);
   const subtaskTouchStartRef = useRef<{ x: number; y: number }>({ x: 0, y: 0 });
-  const smartListData = useSmartLists(items);
+  const trackedTaskIds = useTrackedTaskIds();
+  const smartListQueryContext = useMemo(() => ({ folders, sections, trackedTaskIds }), [folders, sections, trackedTaskIds]);
+  const smartListData = useSmartLists(items, smartListQueryContext);
+  const [smartListEditor, setSmartListEditor] = useState<{ list: CustomSmartList | null } | null>(null);
   const [viewModeSearch, setViewModeSearch] = useState(''); // Search within view modes
   const [isLocationMapOpen, setIsLocationMapOpen] = useState(false);
   const [isBulkDateSheetOpen, setIsBulkDateSheetOpen] = useState(false);
@@ -170,8 +183,14 @@ const Today = () => {
       const savedTagFilter = await getSetting<string[]>('todoTagFilter', []);
       setTagFilter(savedTagFilter);
       
-      const savedViewMode = await getSetting<ViewMode>('todoViewMode', 'flat');
-      setViewMode(savedViewMode);
+      // The section and status boards used to be view modes of their own
+      const savedViewMode = await getSetting<ViewMode | 'kanban' | 'kanban-status'>('todoViewMode', 'flat');
+      if (savedViewMode === 'kanban' || savedViewMode === 'kanban-status') {
+        await setActiveBoardId(savedViewMode === 'kanban' ? SECTIONS_BOARD_ID : STATUS_BOARD_ID);
+        setViewMode('board');
+      } else {
+        setViewMode(savedViewMode);
+      }
       
       const savedHideDetails = await getSetting<HideDetailsOptions>('todoHideDetailsOptions', { hideDateTime: false, hideStatus: false, hideSubtasks: false });
       setHideDetailsOptions(savedHideDetails);
@@ -201,8 +220,44 @@ const Today = () => {
       setGroupByOption(savedGroupByOption);
     };
     loadSettings();
+
+    // Pick up tasks and folders pulled in by a background sync
+    const handleSyncApplied = async (event: Event) => {
+      const { collections } = (event as CustomEvent<{ collections: string[] }>).detail;
+      if (collections.includes('tasks')) {
+        setItems(await loadTodoItems());
+      }
+      if (collections.includes('todoFolders')) {
+        const savedFolders = await getSetting<Folder[] | null>('todoFolders', null);
+        if (savedFolders) {
+          setFolders(savedFolders.map((f: Folder) => ({ ...f, createdAt: new Date(f.createdAt) })));
+        }
+      }
+    };
+    window.addEventListener('syncApplied', handleSyncApplied);
+
+    // An undo or redo rewrote the stored tasks
+    const handleTasksReverted = async () => setItems(await loadTodoItems());
+    window.addEventListener(TASKS_REVERTED_EVENT, handleTasksReverted);
+    return () => {
+      window.removeEventListener('syncApplied', handleSyncApplied);
+      window.removeEventListener(TASKS_REVERTED_EVENT, handleTasksReverted);
+    };
   }, []);
 
+  // Open a task picked from the notes search, once per navigation
+  const location = useLocation();
+  const openedTaskKeyRef = useRef<string | null>(null);
+  useEffect(() => {
+    const openTaskId = (location.state as { openTaskId?: string } | null)?.openTaskId;
+    if (!openTaskId || openedTaskKeyRef.current === location.key) return;
+    const task = items.find(i => i.id === openTaskId);
+    if (task) {
+      openedTaskKeyRef.current = location.key;
+      setSelectedTask(task);
+    }
+  }, [items, location]);
+
   useEffect(() => { 
     saveTodoItems(items).then(({ persisted }) => {
       if (!persisted) {
@@ -432,9 +487,18 @@ const Today = () => {
     setIsInputOpen(true);
   };
 
+  const openBoard = async (boardId: string) => {
+    await setActiveBoardId(boardId);
+    setBoardVersion(v => v + 1);
+    setViewMode('board');
+  };
+
   const updateItem = async (itemId: string, updates: Partial<TodoItem>) => {
     const currentItem = items.find(i => i.id === itemId);
     const now = new Date();
+
+    // A task can't be completed while it waits on open tasks
+    if (updates.completed === true && currentItem && !ensureCanComplete(currentItem, items)) return;
     
     // Add modifiedAt timestamp
     const updatesWithTimestamp: Partial<TodoItem> = {
@@ -635,14 +699,17 @@ const Today = () => {
         setIsSelectionMode(false);
         toast.success(`Deleted ${selectedItems.length} task(s)`);
         break;
-      case 'complete':
+      case 'complete': {
+        const { completable, blocked } = splitCompletable(selectedTaskIds, items);
         // Play sound for each completed task
-        playCompletionSound();
-        setItems(items.map(i => selectedTaskIds.has(i.id) ? { ...i, completed: true } : i));
+        if (completable.size > 0) playCompletionSound();
+        setItems(items.map(i => completable.has(i.id) ? { ...i, completed: true } : i));
         setSelectedTaskIds(new Set());
         setIsSelectionMode(false);
-        toast.success(`Completed ${selectedItems.length} task(s)`);
+        toast.success(`Completed ${completable.size} task(s)`);
+        if (blocked.size > 0) toast.warning(t('dependencies.skippedBlocked', { count: blocked.size }));
         break;
+      }
       case 'pin':
         toast.success(`Pinned ${selectedItems.length} task(s)`);
         setSelectedTaskIds(new Set());
@@ -731,12 +798,13 @@ const Today = () => {
   };
 
   const processedItems = useMemo(() => {
+    const smartListFilter = smartList !== 'all'
+      ? getSmartListFilter(smartList, smartListData.customLists, { ...smartListQueryContext, items })
+      : null;
+
     let filtered = items.filter(item => {
       // Smart list filter (takes precedence)
-      if (smartList !== 'all') {
-        const smartListFilter = getSmartListFilter(smartList);
-        if (!smartListFilter(item)) return false;
-      }
+      if (smartListFilter && !smartListFilter(item)) return false;
 
       // Folder filter
       const folderMatch = selectedFolderId ? item.folderId === selectedFolderId : true;
@@ -810,7 +878,7 @@ const Today = () => {
     });
 
     return filtered;
-  }, [items, selectedFolderId, priorityFilter, statusFilter, dateFilter, tagFilter, smartList, sortBy]);
+  }, [items, selectedFolderId, priorityFilter, statusFilter, dateFilter, tagFilter, smartList, smartListData.customLists, smartListQueryContext, sortBy]);
 
   // Apply view mode search filter
   const searchFilteredItems = useMemo(() => {
@@ -1358,11 +1426,44 @@ const Today = () => {
 
   const sortedSections = [...sections].sort((a, b) => a.order - b.order);
 
+  // Section columns on a board keep the section menu
+  const renderBoardColumnActions = (board: TaskBoard, column: BoardGroup) => {
+    const section = board.columnField === 'section' ? sections.find(s => s.id === column.key) : undefined;
+    if (!section) return null;
+    return (
+      <DropdownMenu>
+        <DropdownMenuTrigger asChild onClick={(e) => e.stopPropagation()}>
+          <div className="p-1 hover:bg-muted/50 rounded transition-colors">
+            <MoreVertical className="h-4 w-4 text-muted-foreground" />
+          </div>
+        </DropdownMenuTrigger>
+        <DropdownMenuContent align="end" className="w-48 bg-popover border shadow-lg z-50">
+          <DropdownMenuItem onClick={() => handleEditSection(section)} className="cursor-pointer">
+            <Edit className="h-4 w-4 mr-2" />{t('sections.editSection')}
+          </DropdownMenuItem>
+          <DropdownMenuItem onClick={() => handleAddTaskToSection(section.id)} className="cursor-pointer">
+            <PlusIcon className="h-4 w-4 mr-2" />{t('sections.addTask')}
+          </DropdownMenuItem>
+          <DropdownMenuSeparator />
+          <DropdownMenuItem onClick={() => handleDuplicateSection(section.id)} className="cursor-pointer">
+            <Copy className="h-4 w-4 mr-2" />{t('common.duplicate')}
+          </DropdownMenuItem>
+          <DropdownMenuItem
+            onClick={() => handleDeleteSection(section.id)}
+            className="cursor-pointer text-destructive focus:text-destructive"
+            disabled={sections.length <= 1}
+          >
+            <Trash2 className="h-4 w-4 mr-2" />{t('common.delete')}
+          </DropdownMenuItem>
+        </DropdownMenuContent>
+      </DropdownMenu>
+    );
+  };
+
   // Get view mode icon for visual indicator
   const getViewModeIcon = () => {
     switch (viewMode) {
-      case 'kanban': return <Columns3 className="h-3.5 w-3.5" />;
-      case 'kanban-status': return <ListChecks className="h-3.5 w-3.5" />;
+      case 'board': return <Kanban className="h-3.5 w-3.5" />;
       case 'timeline': return <GitBranch className="h-3.5 w-3.5" />;
       case 'progress': return <TrendingUp className="h-3.5 w-3.5" />;
       case 'priority': return <Flag className="h-3.5 w-3.5" />;
@@ -1655,12 +1756,15 @@ const Today = () => {
                           <DropdownMenuItem onClick={() => setViewMode('flat')} className={cn("cursor-pointer", viewMode === 'flat' && "bg-accent")}>
                             <LayoutList className="h-4 w-4 mr-2" />{t('menu.flatLayout')}
                           </DropdownMenuItem>
-                          <DropdownMenuItem onClick={() => setViewMode('kanban')} className={cn("cursor-pointer", viewMode === 'kanban' && "bg-accent")}>
+                          <DropdownMenuItem onClick={() => openBoard(SECTIONS_BOARD_ID)} className="cursor-pointer">
                             <Columns3 className="h-4 w-4 mr-2" />{t('menu.kanbanBoard')}
                           </DropdownMenuItem>
-                          <DropdownMenuItem onClick={() => setViewMode('kanban-status')} className={cn("cursor-pointer", viewMode === 'kanban-status' && "bg-accent")}>
+                          <DropdownMenuItem onClick={() => openBoard(STATUS_BOARD_ID)} className="cursor-pointer">
                             <ListChecks className="h-4 w-4 mr-2" />{t('menu.statusBoard')}
                           </DropdownMenuItem>
+                          <DropdownMenuItem onClick={() => setViewMode('board')} className={cn("cursor-pointer", viewMode === 'board' && "bg-accent")}>
+                            <Kanban className="h-4 w-4 mr-2" />{t('menu.customBoard')}
+                          </DropdownMenuItem>
                           <DropdownMenuItem onClick={() => setViewMode('timeline')} className={cn("cursor-pointer", viewMode === 'timeline' && "bg-accent")}>
                             <GitBranch className="h-4 w-4 mr-2" />{t('menu.timelineBoard')}
                           </DropdownMenuItem>
@@ -1694,8 +1798,8 @@ const Today = () => {
                               className={cn("cursor-pointer", smartList === list.id && "bg-accent")}
                             >
                               {list.icon}
-                              <span className={cn("ml-2", list.color)}>{list.label}</span>
-                              {smartListData.getCounts[list.id] > 0 && (
+                              <span className={cn("ml-2 truncate", list.color)}>{list.label}</span>
+                              {(smartListData.getCounts[list.id] || 0) > 0 && (
                                 <Badge 
                                   variant={list.id === 'overdue' ? "destructive" : "secondary"}
                                   className="ml-auto"
@@ -1703,8 +1807,26 @@ const Today = () => {
                                   {smartListData.getCounts[list.id]}
                                 </Badge>
                               )}
+                              {list.id.startsWith('custom:') && (
+                                <button
+                                  type="button"
+                                  onClick={(e) => {
+                                    e.stopPropagation();
+                                    const custom = smartListData.customLists.find(c => customSmartListId(c) === list.id);
+                                    if (custom) setSmartListEditor({ list: custom });
+                                  }}
+                                  className={cn("p-1 rounded hover:bg-muted", !smartListData.getCounts[list.id] && "ml-auto")}
+                                >
+                                  <Edit className="h-3 w-3 text-muted-foreground" />
+                                </button>
+                              )}
                             </DropdownMenuItem>
                           ))}
+                          <DropdownMenuSeparator />
+                          <DropdownMenuItem onClick={() => setSmartListEditor({ list: null })} className="cursor-pointer">
+                            <Plus className="h-4 w-4 mr-2" />
+                            {t('smartLists.newSmartList')}
+                          </DropdownMenuItem>
                         </>
                       )}
                     </div>
@@ -1796,7 +1918,7 @@ const Today = () => {
             </div>
           )}
           {/* Collapse All / Expand All Button - only for special view modes */}
-          {['timeline', 'progress', 'priority', 'history', 'kanban'].includes(viewMode) && (
+          {['timeline', 'progress', 'priority', 'history'].includes(viewMode) && (
             <div className="mb-4 flex justify-end">
               <Button
                 variant="outline"
@@ -1808,10 +1930,7 @@ const Today = () => {
                   } else {
                     // Collapse all - add all possible section IDs
                     const allSectionIds = new Set<string>();
-                    if (viewMode === 'kanban') {
-                      sortedSections.forEach(s => allSectionIds.add(`kanban-${s.id}`));
-                      allSectionIds.add('kanban-completed');
-                    } else if (viewMode === 'timeline') {
+                    if (viewMode === 'timeline') {
                       ['timeline-overdue', 'timeline-today', 'timeline-tomorrow', 'timeline-thisweek', 'timeline-later', 'timeline-nodate'].forEach(id => allSectionIds.add(id));
                     } else if (viewMode === 'progress') {
                       ['progress-notstarted', 'progress-inprogress', 'progress-almostdone'].forEach(id => allSectionIds.add(id));
@@ -1844,373 +1963,17 @@ const Today = () => {
           {/* Tasks by Sections */}
           {processedItems.length === 0 ? (
             <div className="text-center py-20"><p className="text-muted-foreground">{t('emptyStates.noTasks')}</p></div>
-          ) : viewMode === 'kanban' ? (
-            /* Kanban Mode - Horizontal Sections with Drag & Drop */
-            <DragDropContext onDragEnd={(result: DropResult) => {
-              if (!result.destination) return;
-              const { source, destination, draggableId } = result;
-              
-              const taskId = draggableId;
-              const sourceSectionId = source.droppableId;
-              const destSectionId = destination.droppableId;
-              const sourceIndex = source.index;
-              const destIndex = destination.index;
-              
-              // If dropped in same position, do nothing
-              if (sourceSectionId === destSectionId && sourceIndex === destIndex) return;
-              
-              setItems(prevItems => {
-                const taskToMove = prevItems.find(item => item.id === taskId);
-                if (!taskToMove) return prevItems;
-                
-                // Get uncompleted items for reordering
-                const uncompletedList = prevItems.filter(item => !item.completed);
-                const completedList = prevItems.filter(item => item.completed);
-                
-                // Get source section tasks
-                const sourceTasks = uncompletedList.filter(item => 
-                  item.sectionId === sourceSectionId || (!item.sectionId && sourceSectionId === sections[0]?.id)
-                );
-                
-                // Get destination section tasks (excluding the moved task)
-                const destTasks = uncompletedList.filter(item => 
-                  item.id !== taskId &&
-                  (item.sectionId === destSectionId || (!item.sectionId && destSectionId === sections[0]?.id))
-                );
-                
-                // Remove task from source and insert at destination index
-                const updatedTask = { ...taskToMove, sectionId: destSectionId };
-                destTasks.splice(destIndex, 0, updatedTask);
-                
-                // Persist the new order for destination section
-                updateSectionOrder(`kanban-${destSectionId}`, destTasks.map(t => t.id));
-                
-                // If moving between sections, also update source section order
-                if (sourceSectionId !== destSectionId) {
-                  const remainingSourceTasks = sourceTasks.filter(t => t.id !== taskId);
-                  updateSectionOrder(`kanban-${sourceSectionId}`, remainingSourceTasks.map(t => t.id));
-                }
-                
-                // Build new items array preserving order
-                const otherTasks = uncompletedList.filter(item => 
-                  item.id !== taskId &&
-                  item.sectionId !== destSectionId && 
-                  (item.sectionId || destSectionId !== sections[0]?.id)
-                );
-                
-                return [...otherTasks, ...destTasks, ...completedList];
-              });
-              
-              // Force re-render to apply the new order immediately
-              setOrderVersion(v => v + 1);
-              
-              Haptics.impact({ style: ImpactStyle.Medium }).catch(() => {});
-              toast.success('Task moved');
-            }}>
-              <div className="overflow-x-auto pb-4 -mx-4 px-4">
-                <div className="flex gap-4" style={{ minWidth: 'max-content' }}>
-                  {sortedSections.map((section) => {
-                    const rawSectionTasks = uncompletedItems.filter(
-                      item => item.sectionId === section.id || (!item.sectionId && section.id === sections[0]?.id)
-                    );
-                    // Apply persisted order
-                    const sectionTasks = applyTaskOrder(rawSectionTasks, `kanban-${section.id}`);
-                    const kanbanSectionId = `kanban-${section.id}`;
-                    const isCollapsed = collapsedViewSections.has(kanbanSectionId);
-                    
-                    return (
-                      <div 
-                        key={section.id} 
-                        className="flex-shrink-0 w-72 bg-muted/30 rounded-xl border border-border/30 overflow-hidden"
-                      >
-                        {/* Kanban Column Header with Collapse */}
-                        <button 
-                          onClick={() => toggleViewSectionCollapse(kanbanSectionId)}
-                          className="w-full flex items-center gap-2 px-3 py-3 border-b border-border/30 hover:bg-muted/20 transition-colors"
-                          style={{ borderLeft: `4px solid ${section.color}` }}
-                        >
-                          <Columns3 className="h-3.5 w-3.5" style={{ color: section.color }} />
-                          <span className="text-sm font-semibold flex-1 text-left">{section.name}</span>
-                          <span className="text-xs text-muted-foreground bg-muted px-2 py-0.5 rounded-full">
-                            {sectionTasks.length}
-                          </span>
-                          {isCollapsed ? (
-                            <ChevronRight className="h-4 w-4 text-muted-foreground" />
-                          ) : (
-                            <ChevronDown className="h-4 w-4 text-muted-foreground" />
-                          )}
-                          <DropdownMenu>
-                            <DropdownMenuTrigger asChild onClick={(e) => e.stopPropagation()}>
-                              <div className="p-1 hover:bg-muted/50 rounded transition-colors">
-                                <MoreVertical className="h-4 w-4 text-muted-foreground" />
-                              </div>
-                            </DropdownMenuTrigger>
-                            <DropdownMenuContent align="end" className="w-48 bg-popover border shadow-lg z-50">
-                              <DropdownMenuItem onClick={() => handleEditSection(section)} className="cursor-pointer">
-                                <Edit className="h-4 w-4 mr-2" />{t('sections.editSection')}
-                              </DropdownMenuItem>
-                              <DropdownMenuItem onClick={() => handleAddTaskToSection(section.id)} className="cursor-pointer">
-                                <PlusIcon className="h-4 w-4 mr-2" />{t('sections.addTask')}
-                              </DropdownMenuItem>
-                              <DropdownMenuSeparator />
-                              <DropdownMenuItem onClick={() => handleDuplicateSection(section.id)} className="cursor-pointer">
-                                <Copy className="h-4 w-4 mr-2" />{t('common.duplicate')}
-                              </DropdownMenuItem>
-                              <DropdownMenuItem 
-                                onClick={() => handleDeleteSection(section.id)} 
-                                className="cursor-pointer text-destructive focus:text-destructive"
-                                disabled={sections.length <= 1}
-                              >
-                                <Trash2 className="h-4 w-4 mr-2" />{t('common.delete')}
-                              </DropdownMenuItem>
-                            </DropdownMenuContent>
-                          </DropdownMenu>
-                        </button>
-                        
-                        {/* Kanban Column Tasks with Drag & Drop */}
-                        {!isCollapsed && (
-                          <>
-                            <Droppable droppableId={section.id}>
-                              {(provided, snapshot) => (
-                                <div
-                                  ref={provided.innerRef}
-                                  {...provided.droppableProps}
-                                  className={cn("min-h-[300px] max-h-[400px] overflow-y-auto p-2 space-y-2", snapshot.isDraggingOver && "bg-primary/5")}
-                                >
-                                  {sectionTasks.length === 0 ? (
-                                    <div className="py-8 text-center text-sm text-muted-foreground">
-                                      {t('sections.dropTasksHere')}
-                                    </div>
-                                  ) : (
-                                    sectionTasks.map((item, index) => (
-                                      <Draggable key={item.id} draggableId={item.id} index={index}>
-                                        {(provided, snapshot) => (
-                                          <div
-                                            ref={provided.innerRef}
-                                            {...provided.draggableProps}
-                                            {...provided.dragHandleProps}
-                                            className={cn("bg-card rounded-lg border border-border/50 shadow-sm", snapshot.isDragging && "shadow-lg ring-2 ring-primary")}
-                                          >
-                                            {renderTaskItem(item)}
-                                          </div>
-                                        )}
-                                      </Draggable>
-                                    ))
-                                  )}
-                                  {provided.placeholder}
-                                </div>
-                              )}
-                            </Droppable>
-                            
-                            {/* Add Task Button */}
-                            <div className="p-2 border-t border-border/30">
-                              <Button 
-                                variant="ghost" 
-                                size="sm" 
-                                className="w-full justify-start text-muted-foreground"
-                                onClick={() => handleAddTaskToSection(section.id)}
-                              >
-                                <PlusIcon className="h-4 w-4 mr-2" />
-                                {t('sections.addTask')}
-                              </Button>
-                            </div>
-                          </>
-                        )}
-                      </div>
-                    );
-                  })}
-                  
-                  {/* Completed Column for Kanban */}
-                  {showCompleted && completedItems.length > 0 && (
-                    <div className="flex-shrink-0 w-72 bg-muted/30 rounded-xl border border-border/30 overflow-hidden">
-                      <button 
-                        onClick={() => toggleViewSectionCollapse('kanban-completed')}
-                        className="w-full flex items-center gap-2 px-3 py-3 border-b border-border/30 hover:bg-muted/20 transition-colors"
-                        style={{ borderLeft: `4px solid #10b981` }}
-                      >
-                        <CheckCircle2 className="h-3.5 w-3.5 text-green-500" />
-                        <span className="text-sm font-semibold flex-1 text-left text-muted-foreground uppercase tracking-wide">Completed</span>
-                        <span className="text-xs text-muted-foreground bg-muted px-2 py-0.5 rounded-full">
-                          {completedItems.length}
-                        </span>
-                        {collapsedViewSections.has('kanban-completed') ? (
-                          <ChevronRight className="h-4 w-4 text-muted-foreground" />
-                        ) : (
-                          <ChevronDown className="h-4 w-4 text-muted-foreground" />
-                        )}
-                      </button>
-                      {!collapsedViewSections.has('kanban-completed') && (
-                        <div className="min-h-[100px] max-h-[400px] overflow-y-auto p-2 space-y-2">
-                          {completedItems.map((item) => (
-                            <div key={item.id} className="bg-card rounded-lg border border-border/50 shadow-sm opacity-70">
-                              {renderTaskItem(item)}
-                            </div>
-                          ))}
-                        </div>
-                      )}
-                    </div>
-                  )}
-                  
-                  {/* Add Section Column */}
-                  <div className="flex-shrink-0 w-72">
-                    <Button 
-                      variant="outline" 
-                      className="w-full h-12 border-dashed"
-                      onClick={() => handleAddSection('below')}
-                    >
-                      <PlusIcon className="h-4 w-4 mr-2" />
-                      Add Section
-                    </Button>
-                  </div>
-                </div>
-              </div>
-            </DragDropContext>
-          ) : viewMode === 'kanban-status' ? (
-            /* Status Kanban Board - Tasks grouped by status with drag-drop */
-            <DragDropContext onDragEnd={(result) => {
-              if (!result.destination) return;
-              const { source, destination, draggableId } = result;
-              const taskId = draggableId;
-              const sourceStatus = source.droppableId.replace('status-', '') as TaskStatus;
-              const destStatus = destination.droppableId.replace('status-', '') as TaskStatus;
-              const destIndex = destination.index;
-              
-              // If dropped in same position, do nothing
-              if (source.droppableId === destination.droppableId && source.index === destination.index) return;
-              
-              // Update task status when moving between columns
-              if (sourceStatus !== destStatus) {
-                updateItem(taskId, { 
-                  status: destStatus,
-                  // Auto-complete when moved to completed column
-                  completed: destStatus === 'completed',
-                  completedAt: destStatus === 'completed' ? new Date() : undefined
-                });
-                Haptics.impact({ style: ImpactStyle.Medium }).catch(() => {});
-                toast.success(`Task status updated to ${destStatus.replace('_', ' ')}`);
-              }
-              
-              // Persist new order
-              const destGroupId = destination.droppableId;
-              const destTasks = items.filter(item => {
-                const itemStatus = item.status || 'not_started';
-                return destGroupId === `status-${itemStatus}` || 
-                       (destGroupId === 'status-completed' && item.completed);
-              });
-              const reorderedIds = destTasks.map(t => t.id).filter(id => id !== taskId);
-              reorderedIds.splice(destIndex, 0, taskId);
-              updateSectionOrder(destGroupId, reorderedIds);
-              setOrderVersion(v => v + 1);
-            }}>
-              <div className="overflow-x-auto pb-4 -mx-4 px-4">
-                <div className="flex gap-4" style={{ minWidth: 'max-content' }}>
-                  {(() => {
-                    const statusGroups: { id: TaskStatus; label: string; color: string; icon: React.ReactNode; tasks: TodoItem[] }[] = [
-                      { 
-                        id: 'not_started', 
-                        label: 'Not Started', 
-                        color: '#6b7280', 
-                        icon: <Circle className="h-3.5 w-3.5" />,
-                        tasks: uncompletedItems.filter(item => !item.status || item.status === 'not_started')
-                      },
-                      { 
-                        id: 'in_progress', 
-                        label: 'In Progress', 
-                        color: '#3b82f6', 
-                        icon: <Loader2 className="h-3.5 w-3.5" />,
-                        tasks: uncompletedItems.filter(item => item.status === 'in_progress')
-                      },
-                      { 
-                        id: 'almost_done', 
-                        label: 'Almost Done', 
-                        color: '#f59e0b', 
-                        icon: <ClockIcon className="h-3.5 w-3.5" />,
-                        tasks: uncompletedItems.filter(item => item.status === 'almost_done')
-                      },
-                      { 
-                        id: 'completed', 
-                        label: 'Completed', 
-                        color: '#10b981', 
-                        icon: <CheckCircle2 className="h-3.5 w-3.5" />,
-                        tasks: completedItems
-                      },
-                    ];
-                    
-                    return statusGroups.map((group) => {
-                      const statusSectionId = `status-${group.id}`;
-                      const isCollapsed = collapsedViewSections.has(statusSectionId);
-                      const orderedTasks = applyTaskOrder(group.tasks, statusSectionId);
-                      
-                      return (
-                        <div 
-                          key={group.id} 
-                          className="flex-shrink-0 w-72 bg-muted/30 rounded-xl border border-border/30 overflow-hidden"
-                        >
-                          <button 
-                            onClick={() => toggleViewSectionCollapse(statusSectionId)}
-                            className="w-full flex items-center gap-2 px-3 py-3 border-b border-border/30 hover:bg-muted/20 transition-colors"
-                            style={{ borderLeft: `4px solid ${group.color}` }}
-                          >
-                            <span style={{ color: group.color }}>{group.icon}</span>
-                            <span className="text-sm font-semibold flex-1 text-left">{group.label}</span>
-                            <span className="text-xs text-muted-foreground bg-muted px-2 py-0.5 rounded-full">
-                              {group.tasks.length}
-                            </span>
-                            {isCollapsed ? (
-                              <ChevronRight className="h-4 w-4 text-muted-foreground" />
-                            ) : (
-                              <ChevronDown className="h-4 w-4 text-muted-foreground" />
-                            )}
-                          </button>
-                          
-                          {!isCollapsed && (
-                            <Droppable droppableId={statusSectionId}>
-                              {(provided, snapshot) => (
-                                <div
-                                  ref={provided.innerRef}
-                                  {...provided.droppableProps}
-                                  className={cn(
-                                    "min-h-[200px] max-h-[400px] overflow-y-auto p-2 space-y-2",
-                                    snapshot.isDraggingOver && "bg-primary/5"
-                                  )}
-                                >
-                                  {orderedTasks.length === 0 ? (
-                                    <div className="py-8 text-center text-sm text-muted-foreground">
-                                      Drop tasks here
-                                    </div>
-                                  ) : (
-                                    orderedTasks.map((item, index) => (
-                                      <Draggable key={item.id} draggableId={item.id} index={index}>
-                                        {(provided, snapshot) => (
-                                          <div
-                                            ref={provided.innerRef}
-                                            {...provided.draggableProps}
-                                            {...provided.dragHandleProps}
-                                            className={cn(
-                                              "bg-card rounded-lg border border-border/50 shadow-sm overflow-hidden",
-                                              snapshot.isDragging && "shadow-lg ring-2 ring-primary",
-                                              group.id === 'completed' && "opacity-70"
-                                            )}
-                                          >
-                                            {renderTaskItem(item)}
-                                            {renderSubtasksInline(item)}
-                                          </div>
-                                        )}
-                                      </Draggable>
-                                    ))
-                                  )}
-                                  {provided.placeholder}
-                                </div>
-                              )}
-                            </Droppable>
-                          )}
-                        </div>
-                      );
-                    });
-                  })()}
-                </div>
-              </div>
-            </DragDropContext>
+          ) : viewMode === 'board' ? (
+            /* Configurable Board - columns and swimlanes from any field */
+            <TaskBoardView
+              key={boardVersion}
+              items={searchFilteredItems}
+              sections={sections}
+              folders={folders}
+              renderTaskItem={renderTaskItem}
+              onUpdateTask={updateItem}
+              renderColumnActions={renderBoardColumnActions}
+            />
           ) : viewMode === 'timeline' ? (
             /* Timeline Board - Tasks grouped by date with drag-drop */
             <DragDropContext onDragEnd={(result) => {
@@ -2764,6 +2527,15 @@ const Today = () => {
       <SelectActionsSheet isOpen={isSelectActionsOpen} onClose={() => setIsSelectActionsOpen(false)} selectedCount={selectedTaskIds.size} onAction={handleSelectAction} totalCount={uncompletedItems.length} />
       <PrioritySelectSheet isOpen={isPrioritySheetOpen} onClose={() => setIsPrioritySheetOpen(false)} onSelect={handleSetPriority} />
       <BatchTaskSheet isOpen={isBatchTaskOpen} onClose={() => setIsBatchTaskOpen(false)} onAddTasks={handleBatchAddTasks} sections={sections} folders={folders} />
+      <SmartListEditorSheet
+        isOpen={!!smartListEditor}
+        onClose={() => setSmartListEditor(null)}
+        list={smartListEditor?.list || null}
+        items={items}
+        context={smartListQueryContext}
+        onSaved={(list) => setSmartList(customSmartListId(list))}
+        onDeleted={(id) => { if (smartList === `custom:${id}`) setSmartList('all'); }}
+      />
       <SectionEditSheet 
         isOpen={isSectionEditOpen} 
         onClose={() => { setIsSectionEditOpen(false); setEditingSection(null); }} 
@@ -2863,7 +2635,9 @@ const Today = () => {
         onStatusChange={(status) => {
           const isCompleting = status === 'completed';
           const now = new Date();
-          setItems(items.map(i => selectedTaskIds.has(i.id) ? { 
+          // Tasks still waiting on open tasks keep their status
+          const { blocked } = isCompleting ? splitCompletable(selectedTaskIds, items) : { blocked: new Set<string>() };
+          setItems(items.map(i => selectedTaskIds.has(i.id) && !blocked.has(i.id) ? { 
             ...i, 
             status,
             completed: isCompleting ? true : i.completed,
@@ -2874,6 +2648,7 @@ const Today = () => {
           setIsSelectionMode(false);
           if (isCompleting) {
             playCompletionSound();
+            if (blocked.size > 0) toast.warning(t('dependencies.skippedBlocked', { count: blocked.size }));
           }
           toast.success(`Updated status for ${selectedTaskIds.size} task(s)`);
         }}
@@ -12,11 +12,14 @@ import { SelectActionsSheet, SelectAction } from '@/components/SelectActionsShee
 import { MoveToFolderSheet } from '@/components/MoveToFolderSheet';
 import { PrioritySelectSheet } from '@/components/PrioritySelectSheet';
 import { SmartListsDropdown, SmartListType, getSmartListFilter } from '@/components/SmartListsDropdown';
+import { useCustomSmartLists } from '@/hooks/useCustomSmartLists';
+import { useTrackedTaskIds } from '@/hooks/useTaskTimeTotals';
 import { LocationRemindersMap } from '@/components/LocationRemindersMap';
 import { TaskWidgets } from '@/components/TaskWidgets';
 import { DragDropContext, Droppable, Draggable, DropResult } from '@hello-pangea/dnd';
-import { isSameDay, format, addDays, addWeeks, addMonths } from 'date-fns';
-import { createNextRecurringTask } from '@/utils/recurringTasks';
+import { isSameDay, format, addDays, startOfDay } from 'date-fns';
+import { createNextRecurringTask, getEventOccurrences } from '@/utils/recurringTasks';
+import { ensureCanComplete, getBlockingTasks } from '@/utils/taskDependencies';
 import { playCompletionSound } from '@/utils/taskSounds';
 import { cleanupCompletedTasks } from '@/utils/taskCleanup';
 import { ScrollArea } from '@/components/ui/scroll-area';
@@ -60,6 +63,8 @@ const TodoCalendar = () => {
   const [priorityFilter, setPriorityFilter] = useState<PriorityFilter>('all');
   const [tagFilter, setTagFilter] = useState<string[]>([]);
   const [smartList, setSmartList] = useState<SmartListType>('all');
+  const customSmartLists = useCustomSmartLists();
+  const trackedTaskIds = useTrackedTaskIds();
 
   // Sheets
   const [isSelectActionsOpen, setIsSelectActionsOpen] = useState(false);
@@ -122,6 +127,11 @@ const TodoCalendar = () => {
     };
   }, [loadTasks]);
 
+  const isRecurringEventOnDate = (event: CalendarEvent, targetDate: Date): boolean => {
+    const dayStart = startOfDay(targetDate);
+    return getEventOccurrences(event, dayStart, new Date(addDays(dayStart, 1).getTime() - 1), 1).length > 0;
+  };
+
   // Events for selected date (including recurring)
   const eventsForSelectedDate = useMemo(() => {
     if (!date) return [];
@@ -129,7 +139,7 @@ const TodoCalendar = () => {
     return events.filter(event => {
       const eventStart = new Date(event.startDate);
       if (isSameDay(eventStart, date)) return true;
-      if (event.repeat !== 'never') {
+      if (event.repeat !== 'never' || event.recurrence) {
         return isRecurringEventOnDate(event, date);
       }
       return false;
@@ -137,21 +147,6 @@ const TodoCalendar = () => {
   }, [date, events]);
 
 
-  const isRecurringEventOnDate = (event: CalendarEvent, targetDate: Date): boolean => {
-    const eventStart = new Date(event.startDate);
-    if (targetDate < eventStart) return false;
-    
-    const daysDiff = Math.floor((targetDate.getTime() - eventStart.getTime()) / (1000 * 60 * 60 * 24));
-    
-    switch (event.repeat) {
-      case 'daily': return true;
-      case 'weekly': return daysDiff % 7 === 0;
-      case 'monthly': return eventStart.getDate() === targetDate.getDate();
-      case 'yearly': return eventStart.getDate() === targetDate.getDate() && eventStart.getMonth() === targetDate.getMonth();
-      default: return false;
-    }
-  };
-
   const getRecurringEventDates = useMemo(() => {
     const dates: Date[] = [];
     const today = new Date();
@@ -162,20 +157,8 @@ const TodoCalendar = () => {
       const eventStart = new Date(event.startDate);
       dates.push(eventStart);
       
-      if (event.repeat !== 'never') {
-        let currentDate = new Date(eventStart);
-        while (currentDate <= futureLimit) {
-          switch (event.repeat) {
-            case 'daily': currentDate = addDays(currentDate, 1); break;
-            case 'weekly': currentDate = addWeeks(currentDate, 1); break;
-            case 'monthly': currentDate = addMonths(currentDate, 1); break;
-            case 'yearly': currentDate = addMonths(currentDate, 12); break;
-            default: currentDate = futureLimit;
-          }
-          if (currentDate <= futureLimit) {
-            dates.push(new Date(currentDate));
-          }
-        }
+      if (event.repeat !== 'never' || event.recurrence) {
+        getEventOccurrences(event, new Date(eventStart.getTime() + 1), futureLimit).forEach(d => dates.push(d));
       }
     });
 
@@ -205,12 +188,18 @@ const TodoCalendar = () => {
     const selectedTasks = items.filter(t => selectedTaskIds.has(t.id));
     
     switch (action) {
-      case 'complete':
-        for (const task of selectedTasks) {
+      case 'complete': {
+        // Tasks still waiting on open tasks are left as they are
+        const ready = selectedTasks.filter(task => getBlockingTasks(task, items).length === 0);
+        for (const task of ready) {
           await handleUpdateTask(task.id, { completed: true });
         }
-        toast.success(`Completed ${selectedTasks.length} task(s)`);
+        toast.success(`Completed ${ready.length} task(s)`);
+        if (ready.length < selectedTasks.length) {
+          toast.warning(t('dependencies.skippedBlocked', { count: selectedTasks.length - ready.length }));
+        }
         break;
+      }
       case 'delete':
         for (const task of selectedTasks) {
           await handleDeleteTask(task.id);
@@ -325,23 +314,7 @@ const TodoCalendar = () => {
       const futureLimit = new Date(now);
       futureLimit.setMonth(futureLimit.getMonth() + 1);
 
-      const occurrences: Date[] = [];
-      let currentDate = new Date(event.startDate);
-      
-      if (event.repeat === 'never') {
-        if (currentDate > now) occurrences.push(currentDate);
-      } else {
-        while (currentDate <= futureLimit) {
-          if (currentDate > now) occurrences.push(new Date(currentDate));
-          switch (event.repeat) {
-            case 'daily': currentDate = addDays(currentDate, 1); break;
-            case 'weekly': currentDate = addWeeks(currentDate, 1); break;
-            case 'monthly': currentDate = addMonths(currentDate, 1); break;
-            case 'yearly': currentDate = addMonths(currentDate, 12); break;
-            default: currentDate = futureLimit;
-          }
-        }
-      }
+      const occurrences = getEventOccurrences(event, new Date(now.getTime() + 1), futureLimit, 10);
 
       for (let i = 0; i < Math.min(occurrences.length, 10); i++) {
         const occurrence = occurrences[i];
@@ -390,6 +363,9 @@ const TodoCalendar = () => {
 
   const handleUpdateTask = async (itemId: string, updates: Partial<TodoItem>) => {
     const currentItem = items.find(t => t.id === itemId);
+
+    // A task can't be completed while it waits on open tasks
+    if (updates.completed === true && currentItem && !ensureCanComplete(currentItem, items)) return;
     
     // Play completion sound when completing a task
     if (updates.completed === true && currentItem && !currentItem.completed) {
@@ -469,7 +445,7 @@ const TodoCalendar = () => {
 
     // Apply smart list filter
     if (smartList !== 'all') {
-      filtered = filtered.filter(getSmartListFilter(smartList));
+      filtered = filtered.filter(getSmartListFilter(smartList, customSmartLists, { folders, items, trackedTaskIds }));
     }
 
     // Apply priority filter
@@ -485,7 +461,7 @@ const TodoCalendar = () => {
     }
 
     return filtered;
-  }, [date, items, filterType, smartList, priorityFilter, tagFilter]);
+  }, [date, items, filterType, smartList, customSmartLists, trackedTaskIds, folders, priorityFilter, tagFilter]);
 
   // Check if there are tasks with location reminders
   const hasLocationTasks = useMemo(() => {
@@ -546,6 +522,7 @@ const TodoCalendar = () => {
                 items={items}
                 currentList={smartList} 
                 onSelectList={setSmartList} 
+                folders={folders}
               />
               <Button variant="outline" size="sm" onClick={() => setIsFilterSheetOpen(true)} className="relative">
                 <Filter className="h-4 w-4" />
@@ -2,12 +2,13 @@ import { ReactNode } from 'react';
 import { useNavigate } from 'react-router-dom';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
-import { FileText, Search, Sun, Moon, X } from 'lucide-react';
+import { FileText, Search, Sun, Moon, X, Undo2, Redo2 } from 'lucide-react';
 import { TodoBottomNavigation } from '@/components/TodoBottomNavigation';
 import { SyncBadge } from '@/components/SyncStatusIndicator';
 import { useRealtimeSync } from '@/hooks/useRealtimeSync';
-import { syncManager } from '@/utils/syncManager';
 import { useDarkMode } from '@/hooks/useDarkMode';
+import { useTaskUndo } from '@/hooks/useTaskUndo';
+import { useTranslation } from 'react-i18next';
 import appLogo from '@/assets/app-logo.png';
 import { triggerHaptic } from '@/utils/haptics';
 
@@ -21,8 +22,9 @@ interface TodoLayoutProps {
 export const TodoLayout = ({ children, title, searchValue, onSearchChange }: TodoLayoutProps) => {
   const navigate = useNavigate();
   const { isDarkMode, toggleDarkMode } = useDarkMode();
-  const { isOnline, isSyncing, hasError, lastSync } = useRealtimeSync();
-  const syncEnabled = syncManager.isSyncEnabled();
+  const { isOnline, isSyncing, hasError, lastSync, syncEnabled } = useRealtimeSync();
+  const { t } = useTranslation();
+  const { state: undoState, describe, undo, redo } = useTaskUndo();
 
   return (
     <div className="min-h-screen bg-background animate-fade-in">
@@ -48,6 +50,30 @@ export const TodoLayout = ({ children, title, searchValue, onSearchChange }: Tod
                   hasError={hasError}
                 />
               )}
+              {(undoState.undo || undoState.redo) && (
+                <>
+                  <Button
+                    size="icon"
+                    variant="ghost"
+                    onClick={undo}
+                    disabled={!undoState.undo}
+                    className="h-8 w-8 sm:h-9 sm:w-9 hover:bg-transparent active:bg-transparent"
+                    title={undoState.undo ? t('taskChanges.undoStep', { step: describe(undoState.undo.type, undoState.undo.count) }) : t('taskChanges.undo')}
+                  >
+                    <Undo2 className="h-4 w-4 sm:h-5 sm:w-5" />
+                  </Button>
+                  <Button
+                    size="icon"
+                    variant="ghost"
+                    onClick={redo}
+                    disabled={!undoState.redo}
+                    className="h-8 w-8 sm:h-9 sm:w-9 hover:bg-transparent active:bg-transparent"
+                    title={undoState.redo ? t('taskChanges.redoStep', { step: describe(undoState.redo.type, undoState.redo.count) }) : t('taskChanges.redo')}
+                  >
+                    <Redo2 className="h-4 w-4 sm:h-5 sm:w-5" />
+                  </Button>
+                </>
+              )}
               <Button
                 size="icon"
                 variant="ghost"
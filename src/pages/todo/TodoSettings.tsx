@@ -1,7 +1,7 @@
 import { ChevronRight, Settings as SettingsIcon, Grid3X3, Timer, Clock, BarChart3, Focus, CalendarDays, CalendarRange, Plus, Eye, EyeOff, Trash2, Edit2, Target, Zap, Brain, Sparkles, Palette, Check, ExternalLink, Bell } from 'lucide-react';
 import { useDarkMode, themes } from '@/hooks/useDarkMode';
 import { useToast } from '@/hooks/use-toast';
-import { useState, useEffect, lazy, Suspense } from 'react';
+import { useState, useEffect, useCallback, lazy, Suspense } from 'react';
 import { useNavigate } from 'react-router-dom';
 import { useTranslation } from 'react-i18next';
 import { Button } from '@/components/ui/button';
@@ -14,6 +14,10 @@ import { TodoLayout } from './TodoLayout';
 import { loadTasksFromDB, saveTasksToDB } from '@/utils/taskStorage';
 import { getSetting, setSetting, getAllSettings } from '@/utils/settingsStorage';
 import { ErrorBoundary } from '@/components/ErrorBoundary';
+import { CalendarEvent } from '@/types/note';
+import { exportICalendar, importICalendar } from '@/utils/icalendar';
+import { BackupRestoreDialog } from '@/components/BackupRestoreDialog';
+import { downloadBackupArchive } from '@/utils/backupArchive';
 import {
   AlertDialog,
   AlertDialogAction,
@@ -78,7 +82,7 @@ const TodoSettings = () => {
   const navigate = useNavigate();
   const { currentTheme, setTheme } = useDarkMode();
   const [showDeleteDialog, setShowDeleteDialog] = useState(false);
-  const [showRestoreDialog, setShowRestoreDialog] = useState(false);
+  const [restoreFile, setRestoreFile] = useState<File | null>(null);
   const [showTermsDialog, setShowTermsDialog] = useState(false);
   const [showPrivacyDialog, setShowPrivacyDialog] = useState(false);
   const [showHelpDialog, setShowHelpDialog] = useState(false);
@@ -245,58 +249,28 @@ const TodoSettings = () => {
 
 
   const handleBackupData = async () => {
-    const tasks = await loadTasksFromDB();
-    const folders = await getSetting('todoFolders', []);
-    const backup = { 
-      todoItems: JSON.stringify(tasks), 
-      todoFolders: JSON.stringify(folders), 
-      timestamp: new Date().toISOString() 
-    };
-    const blob = new Blob([JSON.stringify(backup)], { type: 'application/json' });
-    const url = URL.createObjectURL(blob);
-    const a = document.createElement('a');
-    a.href = url;
-    a.download = `npd-todo-backup-${Date.now()}.json`;
-    a.click();
-    toast({ title: t('settings.dataBackedUp') });
+    try {
+      await downloadBackupArchive();
+      toast({ title: t('settings.dataBackedUp') });
+    } catch (error) {
+      console.error('Backup error:', error);
+      toast({ title: t('toasts.backupFailed'), variant: "destructive" });
+    }
   };
 
   const handleRestoreData = () => {
-    setShowRestoreDialog(true);
-  };
-
-  const confirmRestoreData = () => {
     const input = document.createElement('input');
     input.type = 'file';
-    input.accept = 'application/json';
-    input.onchange = async (e) => {
+    input.accept = '.zip,application/zip,application/json';
+    input.onchange = (e) => {
       const file = (e.target as HTMLInputElement).files?.[0];
-      if (file) {
-        const reader = new FileReader();
-        reader.onload = async (event) => {
-          try {
-            const backup = JSON.parse(event.target?.result as string);
-            if (backup.todoItems) {
-              const tasks = JSON.parse(backup.todoItems);
-              await saveTasksToDB(tasks);
-            }
-            if (backup.todoFolders) {
-              const folders = JSON.parse(backup.todoFolders);
-              await setSetting('todoFolders', folders);
-            }
-            toast({ title: t('settings.dataRestored') });
-            setTimeout(() => window.location.reload(), 1000);
-          } catch (error) {
-            toast({ title: t('settings.restoreFailed'), variant: "destructive" });
-          }
-        };
-        reader.readAsText(file);
-      }
+      if (file) setRestoreFile(file);
     };
     input.click();
-    setShowRestoreDialog(false);
   };
 
+  const closeRestoreDialog = useCallback(() => setRestoreFile(null), []);
+
   const handleDownloadData = async () => {
     const tasks = await loadTasksFromDB();
     const folders = await getSetting('todoFolders', []);
@@ -314,6 +288,41 @@ const TodoSettings = () => {
     toast({ title: t('settings.dataDownloaded') });
   };
 
+  const handleExportCalendar = async () => {
+    const tasks = await loadTasksFromDB();
+    const events = await getSetting<CalendarEvent[]>('calendarEvents', []);
+    const blob = new Blob([exportICalendar(tasks, events)], { type: 'text/calendar' });
+    const url = URL.createObjectURL(blob);
+    const a = document.createElement('a');
+    a.href = url;
+    a.download = `npd-calendar-${Date.now()}.ics`;
+    a.click();
+    toast({ title: t('settings.calendarExported') });
+  };
+
+  const handleImportCalendar = () => {
+    const input = document.createElement('input');
+    input.type = 'file';
+    input.accept = '.ics,text/calendar';
+    input.onchange = async (e) => {
+      const file = (e.target as HTMLInputElement).files?.[0];
+      if (!file) return;
+      try {
+        const result = await importICalendar(await file.text());
+        toast({
+          title: t('settings.calendarImported', { tasks: result.tasks, events: result.events }),
+          description: result.duplicates > 0
+            ? t('settings.calendarImportDuplicates', { count: result.duplicates })
+            : undefined,
+        });
+      } catch (error) {
+        console.error('Calendar import failed:', error);
+        toast({ title: t('settings.calendarImportFailed'), variant: "destructive" });
+      }
+    };
+    input.click();
+  };
+
   const handleDeleteData = () => {
     setShowDeleteDialog(true);
   };
@@ -344,6 +353,8 @@ const TodoSettings = () => {
     { label: t('settings.backupData'), onClick: handleBackupData },
     { label: t('settings.restoreData'), onClick: handleRestoreData },
     { label: t('settings.downloadData'), onClick: handleDownloadData },
+    { label: t('settings.exportCalendar'), onClick: handleExportCalendar },
+    { label: t('settings.importCalendar'), onClick: handleImportCalendar },
     { label: t('settings.deleteData'), onClick: handleDeleteData },
   ];
 
@@ -868,29 +879,7 @@ const TodoSettings = () => {
         </DialogContent>
       </Dialog>
 
-      <AlertDialog open={showRestoreDialog} onOpenChange={setShowRestoreDialog}>
-        <AlertDialogContent>
-          <AlertDialogHeader>
-            <AlertDialogTitle>{t('dialogs.restoreTitle')}</AlertDialogTitle>
-            <AlertDialogDescription className="space-y-2">
-              <p className="font-semibold text-orange-600">⚠️ {t('dialogs.restoreNotice')}</p>
-              <p>{t('dialogs.restoreDesc')}</p>
-              <ul className="list-disc list-inside space-y-1 text-sm">
-                <li>{t('dialogs.restoreTodoReplace')}</li>
-                <li>{t('dialogs.restoreOverwrite')}</li>
-                <li>{t('dialogs.restoreReload')}</li>
-              </ul>
-              <p className="font-medium mt-2">{t('dialogs.restoreBackup')}</p>
-            </AlertDialogDescription>
-          </AlertDialogHeader>
-          <AlertDialogFooter>
-            <AlertDialogCancel>{t('common.cancel')}</AlertDialogCancel>
-            <AlertDialogAction onClick={confirmRestoreData}>
-              {t('dialogs.continueRestore')}
-            </AlertDialogAction>
-          </AlertDialogFooter>
-        </AlertDialogContent>
-      </AlertDialog>
+      <BackupRestoreDialog file={restoreFile} onClose={closeRestoreDialog} />
 
       {/* Terms of Service Dialog */}
       <Dialog open={showTermsDialog} onOpenChange={setShowTermsDialog}>
@@ -14,12 +14,15 @@ import { MoveToFolderSheet } from '@/components/MoveToFolderSheet';
 import { PrioritySelectSheet } from '@/components/PrioritySelectSheet';
 import { TaskItem } from '@/components/TaskItem';
 import { SmartListsDropdown, SmartListType, getSmartListFilter } from '@/components/SmartListsDropdown';
+import { useCustomSmartLists } from '@/hooks/useCustomSmartLists';
+import { useTrackedTaskIds } from '@/hooks/useTaskTimeTotals';
 import { LocationRemindersMap } from '@/components/LocationRemindersMap';
 import { Haptics, ImpactStyle } from '@capacitor/haptics';
 import { Tabs, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import { DragDropContext, Droppable, Draggable, DropResult } from '@hello-pangea/dnd';
 import { notificationManager } from '@/utils/notifications';
 import { createNextRecurringTask } from '@/utils/recurringTasks';
+import { ensureCanComplete, getBlockingTasks } from '@/utils/taskDependencies';
 import { cleanupCompletedTasks } from '@/utils/taskCleanup';
 import { getCategoryById } from '@/utils/categories';
 import { TodoLayout } from './TodoLayout';
@@ -34,6 +37,7 @@ const Upcoming = () => {
   const [items, setItems] = useState<TodoItem[]>([]);
   const [allItems, setAllItems] = useState<TodoItem[]>([]);
   const [folders, setFolders] = useState<Folder[]>([]);
+  const [sections, setSections] = useState<TaskSection[]>([]);
   const [isInputOpen, setIsInputOpen] = useState(false);
   const [groupBy, setGroupBy] = useState<'week' | 'month'>('week');
   const [sortOrder, setSortOrder] = useState<'asc' | 'desc'>('asc');
@@ -51,6 +55,8 @@ const Upcoming = () => {
   const [statusFilter, setStatusFilter] = useState<StatusFilter>('all');
   const [tagFilter, setTagFilter] = useState<string[]>([]);
   const [smartList, setSmartList] = useState<SmartListType>('all');
+  const customSmartLists = useCustomSmartLists();
+  const trackedTaskIds = useTrackedTaskIds();
   
   // Sheets
   const [isSelectActionsOpen, setIsSelectActionsOpen] = useState(false);
@@ -87,6 +93,8 @@ const Upcoming = () => {
       if (savedFolders) {
         setFolders(savedFolders.map((f: Folder) => ({ ...f, createdAt: new Date(f.createdAt) })));
       }
+      // Sections are only needed for smart lists that match on them
+      setSections(await getSetting<TaskSection[]>('todoSections', []));
     };
     loadAll();
     
@@ -132,6 +140,9 @@ const Upcoming = () => {
 
   const updateItem = async (itemId: string, updates: Partial<TodoItem>) => {
     const currentItem = allItems.find(i => i.id === itemId);
+
+    // A task can't be completed while it waits on open tasks
+    if (updates.completed === true && currentItem && !ensureCanComplete(currentItem, allItems)) return;
     
     // Play completion sound when completing a task
     if (updates.completed === true && currentItem && !currentItem.completed) {
@@ -224,14 +235,20 @@ const Upcoming = () => {
         setIsSelectionMode(false);
         toast.success(`Deleted ${selectedItems.length} task(s)`);
         break;
-      case 'complete':
-        for (const item of selectedItems) {
+      case 'complete': {
+        // Tasks still waiting on open tasks are left as they are
+        const ready = selectedItems.filter(item => getBlockingTasks(item, allItems).length === 0);
+        for (const item of ready) {
           await updateItem(item.id, { completed: true });
         }
         setSelectedTaskIds(new Set());
         setIsSelectionMode(false);
-        toast.success(`Completed ${selectedItems.length} task(s)`);
+        toast.success(`Completed ${ready.length} task(s)`);
+        if (ready.length < selectedItems.length) {
+          toast.warning(t('dependencies.skippedBlocked', { count: selectedItems.length - ready.length }));
+        }
         break;
+      }
       case 'duplicate':
         for (const item of selectedItems) {
           await duplicateTask(item);
@@ -293,7 +310,7 @@ const Upcoming = () => {
     
     // Smart list filter
     if (smartList !== 'all') {
-      const smartFilter = getSmartListFilter(smartList);
+      const smartFilter = getSmartListFilter(smartList, customSmartLists, { folders, sections, items, trackedTaskIds });
       filtered = filtered.filter(smartFilter);
     }
     
@@ -322,7 +339,7 @@ const Upcoming = () => {
     }
     
     return filtered;
-  }, [items, smartList, priorityFilter, statusFilter, selectedFolderId, showCompleted]);
+  }, [items, smartList, customSmartLists, trackedTaskIds, folders, sections, priorityFilter, statusFilter, selectedFolderId, showCompleted]);
 
   const groupedTasks = useMemo(() => {
     const sorted = [...filteredItems].sort((a, b) => {
@@ -376,6 +393,7 @@ const Upcoming = () => {
                 currentList={smartList}
                 onSelectList={setSmartList}
                 items={items}
+                folders={folders}
               />
               
               {smartList === 'location-reminders' && (
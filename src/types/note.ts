@@ -14,7 +14,9 @@ export interface CalendarEvent {
   endDate: Date;
   timezone: string;
   repeat: EventRepeatType;
+  recurrence?: RecurrenceRuleSpec;
   reminder: EventReminderType;
+  icalUid?: string; // UID from an imported .ics file, kept for re-export and duplicate checks
   createdAt: Date;
   updatedAt: Date;
 }
@@ -28,12 +30,30 @@ export interface ExpenseEntry {
   paymentMethod: string; // Predefined or custom payment method
   notes: string;
   receiptId?: string; // Reference to receipt image in IndexedDB
+  imported?: boolean; // Read from a bank statement
+  // Paid in another currency; `amount` is then the converted value in the sheet's currency
+  originalCurrency?: string;
+  originalAmount?: number;
 }
 
 export type Priority = 'high' | 'medium' | 'low' | 'none';
 export type RepeatType = 'none' | 'hourly' | 'daily' | 'weekly' | 'weekdays' | 'weekends' | 'monthly' | 'yearly' | 'custom';
 export type TaskStatus = 'not_started' | 'in_progress' | 'almost_done' | 'completed';
 
+// Repeat options as picked in the task date/time sheet
+export type RepeatFrequency = 'hour' | 'daily' | 'weekly' | 'monthly' | 'yearly';
+export type RepeatEndsType = 'never' | 'on_date' | 'after_occurrences';
+
+export interface RepeatSettings {
+  frequency: RepeatFrequency;
+  interval: number;
+  endsType: RepeatEndsType;
+  endsOnDate?: Date;
+  endsAfterOccurrences?: number;
+  weeklyDays?: number[]; // 0-6 for Sun-Sat
+  monthlyDay?: number; // 1-30
+}
+
 
 export interface AdvancedRepeatPattern {
   frequency: RepeatType;
@@ -44,10 +64,22 @@ export interface AdvancedRepeatPattern {
   monthlyDay?: number; // 0-6 for weekday, or 1-31 for date
 }
 
+// RFC 5545 recurrence (see utils/rrule.ts); takes precedence over the simpler repeat fields
+export interface RecurrenceRuleSpec {
+  rrule: string; // RRULE value without the prefix, e.g. "FREQ=MONTHLY;BYDAY=MO,TU,WE,TH,FR;BYSETPOS=-1"
+  dtstart?: Date; // First occurrence of the series; anchors COUNT and INTERVAL
+  exdates?: Date[]; // Skipped occurrences
+}
+
+// Per-device change counters used by sync to order concurrent edits
+export type RevisionVector = Record<string, number>;
+
+// Whether a task's stopwatch runs; the time it tracked is kept as time entries (utils/timeEntries)
 export interface TimeTracking {
-  totalSeconds: number;
   isRunning: boolean;
   lastStarted?: Date;
+  // Kept on tasks by earlier versions, and copied into the time entries once
+  totalSeconds?: number;
   sessions?: { start: Date; end: Date; duration: number }[];
 }
 
@@ -94,11 +126,15 @@ export interface TodoItem {
   status?: TaskStatus; // Task status (not started, in progress, almost done, completed)
   dueDate?: Date;
   reminderTime?: Date;
+  estimatedMinutes?: number; // How long the task is expected to take
+  scheduledStart?: Date; // Time block on the calendar
+  scheduledEnd?: Date;
   multiReminder?: MultiReminder; // Support for multiple reminders throughout the day
   locationReminder?: LocationReminder; // Location-based reminder
   repeatType?: RepeatType;
   repeatDays?: number[];
   advancedRepeat?: AdvancedRepeatPattern;
+  recurrence?: RecurrenceRuleSpec;
   tags?: string[];
   coloredTags?: ColoredTag[];
   folderId?: string;
@@ -109,10 +145,13 @@ export interface TodoItem {
   subtasks?: TodoItem[];
   categoryId?: string;
   googleCalendarEventId?: string;
+  icalUid?: string; // UID from an imported .ics file
   notificationIds?: number[];
   voiceRecording?: VoiceRecording;
   dependsOn?: string[]; // IDs of tasks that must be completed first
+  customFields?: Record<string, string>; // Values of board custom fields, by field name
   timeTracking?: TimeTracking;
+  revision?: RevisionVector;
   // Timestamp fields
   createdAt?: Date;
   modifiedAt?: Date;
@@ -200,6 +239,8 @@ export interface Note {
   isProtected?: boolean;
   // Meta description for note
   metaDescription?: string;
+  tags?: string[];
+  revision?: RevisionVector;
   createdAt: Date;
   updatedAt: Date;
 }
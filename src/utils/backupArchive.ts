@@ -0,0 +1,489 @@
+/**
+ * Backup Archive - full-account backup and restore
+ *
+ * A backup is a zip with a manifest.json listing every file and its SHA-256
+ * checksum. It holds notes, tasks, all settings (folders, sections, task
+ * order, calendar events, version history and the activity log get their own
+ * files), the task history journal and every piece of media in IndexedDB. Restore verifies the
+ * checksums first, then either merges with or replaces what is on the device.
+ * The JSON backups written by older versions are still accepted.
+ */
+
+import { Note, TodoItem } from '@/types/note';
+import { hydrateNote, loadNotesFromDB, saveNotesToDB } from './noteStorage';
+import { hydrateItem, loadTasksFromDB, saveTasksToDB } from './taskStorage';
+import { clearAllSettings, getAllSettings, setSetting } from './settingsStorage';
+import { getAllTaskMedia, saveTaskMedia } from './taskMediaStorage';
+import { getAllReceipts, saveReceipt } from './receiptStorage';
+import { getAllLargeMediaMetadata, retrieveLargeMedia, storeLargeMedia } from './unlimitedStorage';
+import { initializeTaskOrder } from './taskOrderStorage';
+import { initializeActivityLogger } from './activityLogger';
+import { bytesToDataUrl, dataUrlToBytes } from './dataUrl';
+import { NOTE_LINK_INDEX_KEY } from './noteLinkIndex';
+import { NOTE_VERSIONS_SETTING, NoteVersion, exportNoteVersions, importNoteVersions } from './noteVersionHistory';
+import { TaskChange, exportTaskChanges, importTaskChanges } from './taskHistory';
+import { ZipEntry, isZipData, readZip, textZipEntry, writeZip, zipEntryText } from './zipArchive';
+
+export const BACKUP_FORMAT = 'npd-backup';
+// 1: the JSON files from Settings/TodoSettings, 2: zip archive with manifest
+export const BACKUP_VERSION = 2;
+
+export type RestoreMode = 'merge' | 'replace';
+
+type MediaStore = 'task-image' | 'task-audio' | 'receipt' | 'large';
+
+interface BackupFileInfo {
+  path: string;
+  size: number;
+  sha256: string;
+}
+
+interface BackupMediaInfo {
+  path: string;
+  store: MediaStore;
+  id: string;
+  mimeType?: string;
+  base64: boolean; // false when the file holds the data URL as text
+  largeType?: 'image' | 'audio' | 'note' | 'file';
+}
+
+export interface BackupCounts {
+  notes: number;
+  tasks: number;
+  folders: number;
+  sections: number;
+  calendarEvents: number;
+  versions: number;
+  taskChanges: number;
+  settings: number;
+  media: number;
+}
+
+export interface BackupManifest {
+  format: typeof BACKUP_FORMAT;
+  version: number;
+  createdAt: string;
+  counts: BackupCounts;
+  files: BackupFileInfo[];
+  media: BackupMediaInfo[];
+}
+
+interface BackupMedia {
+  store: MediaStore;
+  id: string;
+  data: string; // Data URL (or receipt image data) as stored
+  mimeType?: string;
+  largeType?: 'image' | 'audio' | 'note' | 'file';
+}
+
+// Everything a backup holds, whichever format it came from
+export interface BackupContents {
+  createdAt?: Date;
+  version: number;
+  notes?: Note[];
+  tasks?: TodoItem[];
+  taskChanges?: TaskChange[];
+  settings: Record<string, unknown>;
+  media: BackupMedia[];
+  // Media the manifest lists but the archive does not hold; skipped on restore
+  missingMedia?: string[];
+}
+
+export class BackupFormatError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'BackupFormatError';
+  }
+}
+
+export class BackupIntegrityError extends Error {
+  constructor(public readonly paths: string[]) {
+    super(`Backup is damaged: ${paths.join(', ')} failed the checksum`);
+    this.name = 'BackupIntegrityError';
+  }
+}
+
+// Settings written to their own file rather than settings.json
+const SETTINGS_FILES: Record<string, string> = {
+  folders: 'folders.json',
+  todoFolders: 'task-folders.json',
+  todoSections: 'sections.json',
+  taskCustomOrder: 'task-order.json',
+  calendarEvents: 'calendar-events.json',
+  [NOTE_VERSIONS_SETTING]: 'version-history.json',
+  userActivityLog: 'activity-log.json',
+};
+
+// Sync state belongs to this device; restoring it elsewhere would break sync.
+// The note link index is rebuilt from the restored notes instead.
+const isDeviceSetting = (key: string) => key.startsWith('nota-sync-') || key === NOTE_LINK_INDEX_KEY;
+
+const MIME_EXTENSIONS: Record<string, string> = {
+  'image/png': 'png',
+  'image/jpeg': 'jpg',
+  'image/gif': 'gif',
+  'image/webp': 'webp',
+  'image/svg+xml': 'svg',
+  'audio/mpeg': 'mp3',
+  'audio/mp4': 'm4a',
+  'audio/wav': 'wav',
+  'audio/ogg': 'ogg',
+  'audio/webm': 'webm',
+};
+
+const utf8 = new TextEncoder();
+
+const sha256 = async (data: Uint8Array): Promise<string> => {
+  const digest = await crypto.subtle.digest('SHA-256', data);
+  return Array.from(new Uint8Array(digest), b => b.toString(16).padStart(2, '0')).join('');
+};
+
+const countArray = (value: unknown): number => (Array.isArray(value) ? value.length : 0);
+
+const countTasks = (tasks: TodoItem[]): number =>
+  tasks.reduce((sum, task) => sum + 1 + countTasks(task.subtasks || []), 0);
+
+// ============ Media encoding ============
+
+// Base64 data URLs are stored as the file itself; anything else as text
+const encodeMedia = (media: BackupMedia, index: number): { info: BackupMediaInfo; data: Uint8Array } => {
+  const file = /^data:[^,]*;base64,/.test(media.data) ? dataUrlToBytes(media.data) : null;
+  const mimeType = media.mimeType || file?.mime || undefined;
+  const base = `media/${media.store}/${index}`;
+  if (file) {
+    const extension = MIME_EXTENSIONS[file.mime] || 'bin';
+    return {
+      info: { path: `${base}.${extension}`, store: media.store, id: media.id, mimeType: file.mime || mimeType, base64: true, largeType: media.largeType },
+      data: file.data,
+    };
+  }
+  return {
+    info: { path: `${base}.txt`, store: media.store, id: media.id, mimeType, base64: false, largeType: media.largeType },
+    data: utf8.encode(media.data),
+  };
+};
+
+const decodeMedia = (info: BackupMediaInfo, data: Uint8Array): BackupMedia => {
+  const value = info.base64
+    ? bytesToDataUrl(data, info.mimeType || 'application/octet-stream')
+    : new TextDecoder().decode(data);
+  return { store: info.store, id: info.id, data: value, mimeType: info.mimeType, largeType: info.largeType };
+};
+
+// Journal entries read back from JSON, with dates restored in the fields each entry recorded
+const hydrateTaskChange = (raw: TaskChange): TaskChange => {
+  const values = (recorded: Partial<TodoItem> | null) => {
+    if (!recorded) return null;
+    const hydrated = hydrateItem(recorded);
+    return Object.fromEntries(Object.keys(recorded).map(key => [key, hydrated[key as keyof TodoItem]])) as Partial<TodoItem>;
+  };
+  return { ...raw, timestamp: new Date(raw.timestamp), before: values(raw.before), after: values(raw.after) };
+};
+
+const collectMedia = async (): Promise<BackupMedia[]> => {
+  const media: BackupMedia[] = [];
+  (await getAllTaskMedia('image')).forEach(m => media.push({ store: 'task-image', id: m.id, data: m.dataUrl }));
+  (await getAllTaskMedia('audio')).forEach(m => media.push({ store: 'task-audio', id: m.id, data: m.dataUrl }));
+  (await getAllReceipts()).forEach(r => media.push({ store: 'receipt', id: r.id, data: r.imageData }));
+  for (const meta of await getAllLargeMediaMetadata()) {
+    const data = await retrieveLargeMedia(meta.id);
+    if (data) media.push({ store: 'large', id: meta.id, data, mimeType: meta.mimeType, largeType: meta.type });
+  }
+  return media;
+};
+
+// ============ Creating a backup ============
+
+export const createBackupArchive = async (): Promise<{ data: Uint8Array; manifest: BackupManifest }> => {
+  const [notes, tasks, storedSettings, versions, taskChanges, media] = await Promise.all([
+    loadNotesFromDB(),
+    loadTasksFromDB(),
+    getAllSettings(),
+    exportNoteVersions(),
+    exportTaskChanges(),
+    collectMedia(),
+  ]);
+  // Version history has its own store but is backed up with the settings, as full copies
+  const allSettings: typeof storedSettings = { ...storedSettings, [NOTE_VERSIONS_SETTING]: versions };
+
+  const files: ZipEntry[] = [
+    textZipEntry('notes.json', JSON.stringify(notes)),
+    textZipEntry('tasks.json', JSON.stringify(tasks)),
+    textZipEntry('task-history.json', JSON.stringify(taskChanges)),
+  ];
+  const settings: Record<string, unknown> = {};
+  Object.entries(allSettings).forEach(([key, value]) => {
+    if (isDeviceSetting(key)) return;
+    if (SETTINGS_FILES[key]) files.push(textZipEntry(SETTINGS_FILES[key], JSON.stringify(value)));
+    else settings[key] = value;
+  });
+  files.push(textZipEntry('settings.json', JSON.stringify(settings)));
+
+  const mediaInfo: BackupMediaInfo[] = [];
+  media.forEach((item, index) => {
+    const { info, data } = encodeMedia(item, index);
+    mediaInfo.push(info);
+    files.push({ name: info.path, data });
+  });
+
+  const manifest: BackupManifest = {
+    format: BACKUP_FORMAT,
+    version: BACKUP_VERSION,
+    createdAt: new Date().toISOString(),
+    counts: {
+      notes: notes.length,
+      tasks: countTasks(tasks),
+      folders: countArray(allSettings.folders) + countArray(allSettings.todoFolders),
+      sections: countArray(allSettings.todoSections),
+      calendarEvents: countArray(allSettings.calendarEvents),
+      versions: versions.length,
+      taskChanges: taskChanges.length,
+      settings: Object.keys(settings).length,
+      media: media.length,
+    },
+    files: await Promise.all(files.map(async file => ({
+      path: file.name,
+      size: file.data.length,
+      sha256: await sha256(file.data),
+    }))),
+    media: mediaInfo,
+  };
+
+  const data = await writeZip([textZipEntry('manifest.json', JSON.stringify(manifest, null, 2)), ...files]);
+  return { data, manifest };
+};
+
+// Create a backup and save it through the browser's download
+export const downloadBackupArchive = async (): Promise<BackupManifest> => {
+  const { data, manifest } = await createBackupArchive();
+  const url = URL.createObjectURL(new Blob([data], { type: 'application/zip' }));
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = `npd-backup-${Date.now()}.zip`;
+  a.click();
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+  return manifest;
+};
+
+// ============ Reading a backup ============
+
+const parseJson = (text: string, path: string): unknown => {
+  try {
+    return JSON.parse(text);
+  } catch {
+    throw new BackupFormatError(`${path} is not valid JSON`);
+  }
+};
+
+const readArchive = async (data: Uint8Array): Promise<BackupContents> => {
+  const entries = new Map((await readZip(data)).map(entry => [entry.name, entry]));
+  const manifestEntry = entries.get('manifest.json');
+  if (!manifestEntry) throw new BackupFormatError('The archive has no manifest.json');
+  const manifest = parseJson(zipEntryText(manifestEntry), 'manifest.json') as BackupManifest;
+  if (manifest.format !== BACKUP_FORMAT) throw new BackupFormatError('Not a backup archive');
+  if (manifest.version > BACKUP_VERSION) {
+    throw new BackupFormatError('This backup was made by a newer version of the app');
+  }
+
+  // Check every file before anything is restored
+  const damaged: string[] = [];
+  for (const file of manifest.files) {
+    const entry = entries.get(file.path);
+    if (!entry || entry.data.length !== file.size || await sha256(entry.data) !== file.sha256) {
+      damaged.push(file.path);
+    }
+  }
+  if (damaged.length > 0) throw new BackupIntegrityError(damaged);
+
+  const readJson = (path: string): unknown => {
+    const entry = entries.get(path);
+    return entry ? parseJson(zipEntryText(entry), path) : undefined;
+  };
+
+  const settings = { ...(readJson('settings.json') as Record<string, unknown> | undefined) };
+  Object.entries(SETTINGS_FILES).forEach(([key, path]) => {
+    const value = readJson(path);
+    if (value !== undefined) settings[key] = value;
+  });
+
+  const notes = readJson('notes.json');
+  const tasks = readJson('tasks.json');
+  const taskChanges = readJson('task-history.json');
+  const media: BackupMedia[] = [];
+  const missingMedia: string[] = [];
+  manifest.media.forEach(info => {
+    const entry = entries.get(info.path);
+    if (entry) media.push(decodeMedia(info, entry.data));
+    else missingMedia.push(info.path);
+  });
+  return {
+    version: manifest.version,
+    createdAt: new Date(manifest.createdAt),
+    notes: Array.isArray(notes) ? notes.map(hydrateNote) : undefined,
+    tasks: Array.isArray(tasks) ? tasks.map(hydrateItem) : undefined,
+    taskChanges: Array.isArray(taskChanges) ? taskChanges.map(hydrateTaskChange) : undefined,
+    settings,
+    media,
+    missingMedia,
+  };
+};
+
+// Old backups nest their arrays as JSON strings
+const legacyArray = (value: unknown): unknown[] | undefined => {
+  const parsed = typeof value === 'string' ? JSON.parse(value) : value;
+  return Array.isArray(parsed) ? parsed : undefined;
+};
+
+/**
+ * Version 1: `{ notes, folders, timestamp }` from Settings and
+ * `{ todoItems, todoFolders, timestamp }` from TodoSettings.
+ */
+const readLegacyBackup = (text: string): BackupContents => {
+  const backup = parseJson(text, 'backup') as Record<string, unknown> | null;
+  if (!backup || typeof backup !== 'object' || !('notes' in backup || 'todoItems' in backup)) {
+    throw new BackupFormatError('Not a backup file');
+  }
+  try {
+    const notes = legacyArray(backup.notes);
+    const tasks = legacyArray(backup.todoItems);
+    const settings: Record<string, unknown> = {};
+    const folders = legacyArray(backup.folders);
+    const todoFolders = legacyArray(backup.todoFolders);
+    if (folders) settings.folders = folders;
+    if (todoFolders) settings.todoFolders = todoFolders;
+    return {
+      version: 1,
+      createdAt: typeof backup.timestamp === 'string' ? new Date(backup.timestamp) : undefined,
+      notes: notes?.map(hydrateNote),
+      tasks: tasks?.map(hydrateItem),
+      settings,
+      media: [],
+    };
+  } catch {
+    throw new BackupFormatError('The backup file is damaged');
+  }
+};
+
+// Read any backup format into one shape, checking it before anything is written
+export const readBackupFile = async (file: Blob): Promise<BackupContents> => {
+  const data = new Uint8Array(await file.arrayBuffer());
+  if (isZipData(data)) return readArchive(data);
+  return readLegacyBackup(new TextDecoder().decode(data));
+};
+
+export const getBackupCounts = (contents: BackupContents): BackupCounts => ({
+  notes: contents.notes?.length ?? 0,
+  tasks: countTasks(contents.tasks ?? []),
+  folders: countArray(contents.settings.folders) + countArray(contents.settings.todoFolders),
+  sections: countArray(contents.settings.todoSections),
+  calendarEvents: countArray(contents.settings.calendarEvents),
+  versions: countArray(contents.settings[NOTE_VERSIONS_SETTING]),
+  taskChanges: contents.taskChanges?.length ?? 0,
+  settings: Object.keys(contents.settings).filter(key => !SETTINGS_FILES[key]).length,
+  media: contents.media.length,
+});
+
+// ============ Restoring ============
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  !!value && typeof value === 'object' && !Array.isArray(value);
+
+const hasIds = (value: unknown): value is { id: string }[] =>
+  Array.isArray(value) && value.every(item => isRecord(item) && typeof item.id === 'string');
+
+/**
+ * Merge a backed-up setting into the current value. Lists of items with ids
+ * gain the missing items, maps gain the missing keys, and anything else keeps
+ * the device's value.
+ */
+const mergeSetting = (current: unknown, backup: unknown): unknown => {
+  if (current === undefined) return backup;
+  if (hasIds(current) && hasIds(backup)) {
+    const ids = new Set(current.map(item => item.id));
+    return [...current, ...backup.filter(item => !ids.has(item.id))];
+  }
+  if (isRecord(current) && isRecord(backup)) return { ...backup, ...current };
+  return current;
+};
+
+const mergeById = <T extends { id: string }>(current: T[], backup: T[], isNewer: (a: T, b: T) => boolean): T[] => {
+  const byId = new Map(current.map(item => [item.id, item]));
+  backup.forEach(item => {
+    const existing = byId.get(item.id);
+    if (!existing || isNewer(item, existing)) byId.set(item.id, item);
+  });
+  return Array.from(byId.values());
+};
+
+const taskTime = (task: TodoItem) => (task.modifiedAt ?? task.createdAt)?.getTime() ?? 0;
+
+const restoreMedia = async (media: BackupMedia) => {
+  switch (media.store) {
+    case 'task-image':
+      return saveTaskMedia('image', media.id, media.data);
+    case 'task-audio':
+      return saveTaskMedia('audio', media.id, media.data);
+    case 'receipt':
+      return saveReceipt(media.id, media.data);
+    case 'large':
+      await storeLargeMedia(media.id, media.data, media.largeType === 'note' ? 'file' : media.largeType, media.mimeType);
+  }
+};
+
+/**
+ * Write a backup to the device. Merge keeps everything already here and adds
+ * what is missing (the newer copy wins for notes and tasks on both sides);
+ * replace makes the device match the backup. Media is always added, never
+ * removed.
+ */
+export const restoreBackup = async (contents: BackupContents, mode: RestoreMode): Promise<BackupCounts> => {
+  for (const media of contents.media) {
+    await restoreMedia(media);
+  }
+
+  if (mode === 'replace') {
+    // Old JSON backups only hold folders, so the other settings stay
+    if (contents.version >= 2) {
+      const current = await getAllSettings();
+      await clearAllSettings();
+      // Keep this device's sync state so the restored data syncs as a change
+      for (const [key, value] of Object.entries(current)) {
+        if (isDeviceSetting(key)) await setSetting(key, value);
+      }
+    }
+    for (const [key, value] of Object.entries(contents.settings)) {
+      if (key !== NOTE_VERSIONS_SETTING) await setSetting(key, value);
+    }
+    if (contents.notes) await saveNotesToDB(contents.notes);
+    if (contents.tasks) await saveTasksToDB(contents.tasks);
+  } else {
+    const current = await getAllSettings();
+    for (const [key, value] of Object.entries(contents.settings)) {
+      if (isDeviceSetting(key) || key === NOTE_VERSIONS_SETTING) continue;
+      const merged = mergeSetting(current[key], value);
+      if (merged !== current[key]) await setSetting(key, merged);
+    }
+    if (contents.notes) {
+      const notes = await loadNotesFromDB();
+      await saveNotesToDB(mergeById(notes, contents.notes, (a, b) => a.updatedAt.getTime() > b.updatedAt.getTime()));
+    }
+    if (contents.tasks) {
+      const tasks = await loadTasksFromDB();
+      await saveTasksToDB(mergeById(tasks, contents.tasks, (a, b) => taskTime(a) > taskTime(b)));
+    }
+  }
+
+  const versions = contents.settings[NOTE_VERSIONS_SETTING];
+  if (Array.isArray(versions)) await importNoteVersions(versions as NoteVersion[], mode === 'replace');
+  if (contents.taskChanges) await importTaskChanges(contents.taskChanges, mode === 'replace');
+
+  // Refresh the in-memory caches and tell open pages to reload their data
+  await initializeTaskOrder();
+  await initializeActivityLogger();
+  window.dispatchEvent(new Event('foldersUpdated'));
+  window.dispatchEvent(new Event('notesUpdated'));
+  window.dispatchEvent(new Event('tasksUpdated'));
+  window.dispatchEvent(new Event('customSmartListsUpdated'));
+
+  return getBackupCounts(contents);
+};
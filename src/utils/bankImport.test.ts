@@ -0,0 +1,31 @@
+import { describe, expect, it } from 'vitest';
+import { parseAmount } from './bankImport';
+
+describe('parseAmount', () => {
+  it('reads plain and signed amounts', () => {
+    expect(parseAmount('12.50')).toBe(12.5);
+    expect(parseAmount('-12.50')).toBe(-12.5);
+    expect(parseAmount('12.50-')).toBe(-12.5);
+    expect(parseAmount('(12.50)')).toBe(-12.5);
+  });
+
+  it('drops currency symbols and thousands separators', () => {
+    expect(parseAmount('$1,234.56')).toBe(1234.56);
+    expect(parseAmount('€1.234,56', ',')).toBe(1234.56);
+  });
+
+  it('reads CR and DR markers with or without a space', () => {
+    expect(parseAmount('12.50 DR')).toBe(-12.5);
+    expect(parseAmount('12.50DR')).toBe(-12.5);
+    expect(parseAmount('12.50dr')).toBe(-12.5);
+    expect(parseAmount('12.50 CR')).toBe(12.5);
+    expect(parseAmount('12.50CR')).toBe(12.5);
+    expect(parseAmount(' 12.50DR ')).toBe(-12.5);
+  });
+
+  it('returns undefined when there is no amount', () => {
+    expect(parseAmount('')).toBeUndefined();
+    expect(parseAmount('  ')).toBeUndefined();
+    expect(parseAmount('DR')).toBeUndefined();
+  });
+});
@@ -0,0 +1,340 @@
+/**
+ * Bank Import - reading bank statements into expense entries
+ *
+ * CSV statements differ from bank to bank, so they are read through a
+ * column mapping (a BankProfile) that can be saved and picked again for the
+ * next statement. OFX/QFX and QIF have fixed layouts. Parsers return every
+ * transaction; only money going out becomes an expense entry, and entries
+ * the sheet already has are flagged as duplicates.
+ */
+
+import { format } from 'date-fns';
+import { ExpenseEntry } from '@/types/note';
+import { parseCsv } from './csvParser';
+import { ExpenseRule, matchExpenseRule } from './expenseRules';
+import { getSetting, setSetting } from './settingsStorage';
+
+export type StatementFormat = 'csv' | 'ofx' | 'qif';
+export type StatementDateFormat = 'dd/MM/yyyy' | 'MM/dd/yyyy' | 'yyyy-MM-dd' | 'dd.MM.yyyy';
+export type CsvDelimiter = ',' | ';' | '\t';
+
+export interface BankProfile {
+  id: string;
+  name: string;
+  delimiter: CsvDelimiter;
+  hasHeader: boolean;
+  // Lower-cased header row, to pick the profile again for the same bank
+  headerSignature?: string;
+  dateColumn: number;
+  descriptionColumn: number;
+  // Either one signed amount column, or separate debit and credit columns
+  amountMode: 'signed' | 'split';
+  amountColumn: number;
+  debitColumn: number;
+  creditColumn: number;
+  // Some banks list money going out as positive amounts
+  debitsPositive: boolean;
+  dateFormat: StatementDateFormat;
+  decimalSeparator: '.' | ',';
+}
+
+export interface StatementTransaction {
+  date: Date;
+  description: string;
+  // Negative for money going out
+  amount: number;
+}
+
+export interface StatementParseResult {
+  transactions: StatementTransaction[];
+  errors: string[]; // Lines that were left out; the rest still imports
+}
+
+export interface ImportCandidate {
+  entry: ExpenseEntry;
+  duplicate: boolean;
+}
+
+export const STATEMENT_FILE_TYPES = '.csv,.ofx,.qfx,.qif';
+export const STATEMENT_DATE_FORMATS: StatementDateFormat[] = ['dd/MM/yyyy', 'MM/dd/yyyy', 'yyyy-MM-dd', 'dd.MM.yyyy'];
+
+const PROFILES_KEY = 'bankImportProfiles';
+
+// ============ Reading values ============
+
+export const detectStatementFormat = (fileName: string, text: string): StatementFormat => {
+  const extension = fileName.split('.').pop()?.toLowerCase();
+  if (extension === 'ofx' || extension === 'qfx' || /<OFX>/i.test(text)) return 'ofx';
+  if (extension === 'qif' || /^!Type:/im.test(text)) return 'qif';
+  return 'csv';
+};
+
+// The delimiter that splits the first line into the most fields
+export const detectDelimiter = (text: string): CsvDelimiter => {
+  const firstLine = text.split(/\r?\n/, 1)[0] ?? '';
+  const candidates: CsvDelimiter[] = [',', ';', '\t'];
+  return candidates.reduce((best, delimiter) =>
+    firstLine.split(delimiter).length > firstLine.split(best).length ? delimiter : best
+  );
+};
+
+/**
+ * Read an amount as banks write it: currency symbols, thousands
+ * separators, a trailing minus, "(12.50)" or a CR/DR marker.
+ */
+export const parseAmount = (value: string, decimalSeparator: '.' | ',' = '.'): number | undefined => {
+  let text = value.trim();
+  if (!text) return undefined;
+  // The marker may follow the digits directly, as in "12.50DR"
+  let negative = /^\(.*\)$/.test(text) || /-$/.test(text) || /DR$/i.test(text);
+  if (/CR$/i.test(text)) negative = false;
+  text = text.replace(/(CR|DR)$/i, '');
+  if (text.includes('-')) negative = true;
+  const thousands = decimalSeparator === '.' ? /,/g : /\./g;
+  const digits = text.replace(thousands, '').replace(decimalSeparator, '.').replace(/[^\d.]/g, '');
+  if (!digits) return undefined;
+  const amount = Number(digits);
+  if (isNaN(amount)) return undefined;
+  return negative ? -amount : amount;
+};
+
+export const parseStatementDate = (value: string, dateFormat: StatementDateFormat): Date | undefined => {
+  const parts = value.trim().split(/[/.\-' ]+/).map(part => parseInt(part, 10));
+  if (parts.length < 3 || parts.some(isNaN)) return undefined;
+  const [day, month, year] =
+    dateFormat === 'MM/dd/yyyy' ? [parts[1], parts[0], parts[2]]
+      : dateFormat === 'yyyy-MM-dd' ? [parts[2], parts[1], parts[0]]
+        : [parts[0], parts[1], parts[2]];
+  const fullYear = year < 100 ? 2000 + year : year;
+  const date = new Date(fullYear, month - 1, day);
+  // Rejects dates like 31/02 that roll over into the next month
+  return date.getDate() === day && date.getMonth() === month - 1 ? date : undefined;
+};
+
+// ============ CSV ============
+
+const HEADER_PATTERNS = {
+  date: /date|posted|booking/i,
+  description: /description|details|narrative|payee|merchant|memo|reference|particulars/i,
+  amount: /amount|value/i,
+  debit: /debit|withdrawal|paid out|money out|out$/i,
+  credit: /credit|deposit|paid in|money in|in$/i,
+};
+
+export const createBankProfile = (name = ''): BankProfile => ({
+  id: `bank-${Date.now()}-${Math.random().toString(36).substring(2, 9)}`,
+  name,
+  delimiter: ',',
+  hasHeader: true,
+  dateColumn: 0,
+  descriptionColumn: 1,
+  amountMode: 'signed',
+  amountColumn: 2,
+  debitColumn: 2,
+  creditColumn: 3,
+  debitsPositive: false,
+  dateFormat: 'dd/MM/yyyy',
+  decimalSeparator: '.',
+});
+
+export const getHeaderSignature = (rows: string[][]): string =>
+  (rows[0] ?? []).map(cell => cell.trim().toLowerCase()).join('|');
+
+/**
+ * A first guess at the mapping for a statement, from its header names and
+ * the way its dates and amounts are written.
+ */
+export const guessBankProfile = (text: string): BankProfile => {
+  const delimiter = detectDelimiter(text);
+  const rows = parseCsv(text, delimiter);
+  const header = rows[0] ?? [];
+  const profile: BankProfile = { ...createBankProfile(), delimiter, headerSignature: getHeaderSignature(rows) };
+  const find = (pattern: RegExp) => header.findIndex(cell => pattern.test(cell.trim()));
+
+  profile.hasHeader = find(HEADER_PATTERNS.date) >= 0;
+  if (profile.hasHeader) {
+    profile.dateColumn = find(HEADER_PATTERNS.date);
+    const description = find(HEADER_PATTERNS.description);
+    if (description >= 0) profile.descriptionColumn = description;
+    const debit = find(HEADER_PATTERNS.debit);
+    const credit = find(HEADER_PATTERNS.credit);
+    const amount = find(HEADER_PATTERNS.amount);
+    if (debit >= 0 && credit >= 0 && debit !== credit) {
+      profile.amountMode = 'split';
+      profile.debitColumn = debit;
+      profile.creditColumn = credit;
+    } else if (amount >= 0) {
+      profile.amountColumn = amount;
+    }
+  }
+
+  const sample = rows[profile.hasHeader ? 1 : 0] ?? [];
+  const sampleDate = sample[profile.dateColumn]?.trim() ?? '';
+  if (/^\d{4}-/.test(sampleDate)) profile.dateFormat = 'yyyy-MM-dd';
+  else if (/^\d{1,2}\.\d{1,2}\./.test(sampleDate)) profile.dateFormat = 'dd.MM.yyyy';
+  else if (/^\d{1,2}\/(1[3-9]|2\d|3[01])\//.test(sampleDate)) profile.dateFormat = 'MM/dd/yyyy';
+  // "1.234,56" and "12,50" style amounts
+  const sampleAmount = sample[profile.amountMode === 'signed' ? profile.amountColumn : profile.debitColumn] ?? '';
+  if (/,\d{2}$/.test(sampleAmount.trim())) profile.decimalSeparator = ',';
+  return profile;
+};
+
+export const parseCsvStatement = (text: string, profile: BankProfile): StatementParseResult => {
+  const rows = parseCsv(text, profile.delimiter);
+  const result: StatementParseResult = { transactions: [], errors: [] };
+
+  rows.slice(profile.hasHeader ? 1 : 0).forEach((row, index) => {
+    const line = index + (profile.hasHeader ? 2 : 1);
+    const date = parseStatementDate(row[profile.dateColumn] ?? '', profile.dateFormat);
+    let amount: number | undefined;
+    if (profile.amountMode === 'signed') {
+      const signed = parseAmount(row[profile.amountColumn] ?? '', profile.decimalSeparator);
+      amount = signed === undefined ? undefined : profile.debitsPositive ? -signed : signed;
+    } else {
+      const debit = parseAmount(row[profile.debitColumn] ?? '', profile.decimalSeparator);
+      const credit = parseAmount(row[profile.creditColumn] ?? '', profile.decimalSeparator);
+      amount = debit ? -Math.abs(debit) : credit !== undefined ? Math.abs(credit) : undefined;
+    }
+
+    if (!date) {
+      result.errors.push(`Line ${line}: unreadable date "${row[profile.dateColumn] ?? ''}"`);
+    } else if (amount === undefined) {
+      result.errors.push(`Line ${line}: no amount`);
+    } else {
+      result.transactions.push({ date, description: (row[profile.descriptionColumn] ?? '').trim(), amount });
+    }
+  });
+  return result;
+};
+
+// ============ OFX / QIF ============
+
+// OFX 1.x is SGML, so closing tags are optional; read each field up to the next tag
+const ofxField = (block: string, tag: string): string | undefined =>
+  new RegExp(`<${tag}>([^<\\r\\n]*)`, 'i').exec(block)?.[1]?.trim();
+
+export const parseOfx = (text: string): StatementParseResult => {
+  const result: StatementParseResult = { transactions: [], errors: [] };
+  const blocks = text.split(/<STMTTRN>/i).slice(1);
+  if (blocks.length === 0) result.errors.push('No transactions found in the file');
+
+  blocks.forEach((block, index) => {
+    const posted = ofxField(block, 'DTPOSTED') ?? '';
+    const match = /^(\d{4})(\d{2})(\d{2})/.exec(posted);
+    const amount = parseAmount(ofxField(block, 'TRNAMT') ?? '');
+    if (!match || amount === undefined) {
+      result.errors.push(`Transaction ${index + 1}: missing date or amount`);
+      return;
+    }
+    const name = ofxField(block, 'NAME');
+    const memo = ofxField(block, 'MEMO');
+    result.transactions.push({
+      date: new Date(Number(match[1]), Number(match[2]) - 1, Number(match[3])),
+      description: [name, memo && memo !== name ? memo : undefined].filter(Boolean).join(' - '),
+      amount,
+    });
+  });
+  return result;
+};
+
+/**
+ * QIF records are lines starting with a field letter (D date, T amount,
+ * P payee, M memo) and end with "^". Dates are often written like 1/31'24.
+ */
+export const parseQif = (text: string, dateFormat: StatementDateFormat = 'MM/dd/yyyy'): StatementParseResult => {
+  const result: StatementParseResult = { transactions: [], errors: [] };
+  let record: Record<string, string> = {};
+  let count = 0;
+
+  const finish = () => {
+    if (Object.keys(record).length === 0) return;
+    count++;
+    const date = parseStatementDate(record.D ?? '', dateFormat);
+    const amount = parseAmount(record.T ?? record.U ?? '');
+    if (!date || amount === undefined) {
+      result.errors.push(`Transaction ${count}: missing date or amount`);
+    } else {
+      result.transactions.push({ date, description: (record.P || record.M || '').trim(), amount });
+    }
+    record = {};
+  };
+
+  text.split(/\r?\n/).forEach(rawLine => {
+    const line = rawLine.trim();
+    if (!line || line.startsWith('!')) return;
+    if (line === '^') {
+      finish();
+      return;
+    }
+    const field = line[0];
+    // Split lines (S, E, $) repeat per split; the first value is kept
+    if (!(field in record)) record[field] = line.slice(1);
+  });
+  finish();
+  return result;
+};
+
+// ============ Into expense entries ============
+
+const normalizeDescription = (description: string) => description.toLowerCase().replace(/\s+/g, ' ').trim();
+
+const duplicateKey = (entry: Pick<ExpenseEntry, 'date' | 'amount' | 'description'>) =>
+  `${entry.date}|${entry.amount.toFixed(2)}|${normalizeDescription(entry.description)}`;
+
+/**
+ * Expense entries for the money going out, categorized by the rules. An
+ * entry counts as a duplicate when the sheet already has one with the same
+ * date, amount and description; two identical coffees on one statement
+ * are only flagged as far as the sheet has matching entries.
+ */
+export const buildImportCandidates = (
+  transactions: StatementTransaction[],
+  existing: ExpenseEntry[],
+  rules: ExpenseRule[],
+  defaultPaymentMethod: string
+): ImportCandidate[] => {
+  const remaining = new Map<string, number>();
+  existing.filter(entry => entry.date && entry.amount > 0).forEach(entry => {
+    const key = duplicateKey(entry);
+    remaining.set(key, (remaining.get(key) ?? 0) + 1);
+  });
+
+  return transactions
+    .filter(transaction => transaction.amount < 0)
+    .map(transaction => {
+      const rule = matchExpenseRule(transaction.description, rules);
+      const entry: ExpenseEntry = {
+        id: Date.now().toString() + Math.random().toString(36).substring(2, 11),
+        date: format(transaction.date, 'dd/MM/yyyy'),
+        category: rule?.category ?? '',
+        description: transaction.description,
+        amount: Math.round(Math.abs(transaction.amount) * 100) / 100,
+        paymentMethod: rule?.paymentMethod || defaultPaymentMethod,
+        notes: '',
+        imported: true,
+      };
+      const key = duplicateKey(entry);
+      const matches = remaining.get(key) ?? 0;
+      if (matches > 0) remaining.set(key, matches - 1);
+      return { entry, duplicate: matches > 0 };
+    });
+};
+
+// ============ Saved profiles ============
+
+export const getBankProfiles = (): Promise<BankProfile[]> => getSetting<BankProfile[]>(PROFILES_KEY, []);
+
+export const saveBankProfile = async (profile: BankProfile): Promise<BankProfile[]> => {
+  const profiles = await getBankProfiles();
+  const next = profiles.some(p => p.id === profile.id)
+    ? profiles.map(p => (p.id === profile.id ? profile : p))
+    : [...profiles, profile];
+  await setSetting(PROFILES_KEY, next);
+  return next;
+};
+
+export const deleteBankProfile = async (id: string): Promise<BankProfile[]> => {
+  const next = (await getBankProfiles()).filter(profile => profile.id !== id);
+  await setSetting(PROFILES_KEY, next);
+  return next;
+};
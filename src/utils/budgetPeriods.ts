@@ -0,0 +1,225 @@
+/**
+ * Budget Periods - monthly envelope budgeting for expense sheets
+ *
+ * The sheet's flat monthly budgets are the default amount put in each
+ * category's envelope every month; any month can assign a different amount
+ * and move money between envelopes. Envelopes with rollover carry what is
+ * left (or overspent) into the next month. In zero-based mode every unit
+ * of the month's income is meant to be assigned: what is not, and what is
+ * left in envelopes without rollover, goes back to be assigned next month.
+ */
+
+import { format, getDaysInMonth } from 'date-fns';
+
+export interface BudgetPeriod {
+  month: string; // yyyy-MM
+  // Categories assigned something other than their default budget
+  assigned: Record<string, number>;
+}
+
+export interface EnvelopeTransfer {
+  id: string;
+  month: string; // yyyy-MM
+  from: string;
+  to: string;
+  amount: number;
+}
+
+export interface BudgetPlan {
+  envelopes: boolean;
+  zeroBased: boolean;
+  rollover: Record<string, boolean>;
+  periods: BudgetPeriod[];
+  transfers: EnvelopeTransfer[];
+}
+
+export type EnvelopeStatus = 'onTrack' | 'overPace' | 'overspent';
+
+export interface EnvelopeMonth {
+  category: string;
+  carryIn: number;
+  assigned: number;
+  transferred: number;
+  // Money in the envelope this month: carry-over, assignment and transfers
+  funds: number;
+  spent: number;
+  available: number;
+  // What could have been spent so far at an even pace through the month
+  paceLimit: number;
+  status: EnvelopeStatus;
+}
+
+export interface BudgetPeriodSummary {
+  month: string;
+  label: string;
+  income: number;
+  // Unassigned income and returned envelope money from the month before
+  carriedToAssign: number;
+  assigned: number;
+  spent: number;
+  // Left to assign (zero-based mode); negative when more was assigned than there is
+  toAssign: number;
+  envelopes: EnvelopeMonth[];
+}
+
+// Anything dated with an amount, as kept by expense and income entries
+interface DatedAmount {
+  date: string; // dd/MM/yyyy
+  amount: number;
+  category?: string;
+}
+
+const round2 = (value: number) => Math.round(value * 100) / 100;
+
+export const createBudgetPlan = (): BudgetPlan => ({
+  envelopes: false,
+  zeroBased: false,
+  rollover: {},
+  periods: [],
+  transfers: [],
+});
+
+export const transferId = () => `envelope-${Date.now()}-${Math.random().toString(36).substring(2, 9)}`;
+
+export const getMonthKey = (date: Date): string => format(date, 'yyyy-MM');
+
+export const shiftMonthKey = (month: string, delta: number): string => {
+  const [year, monthIndex] = month.split('-').map(Number);
+  return getMonthKey(new Date(year, monthIndex - 1 + delta, 1));
+};
+
+export const formatMonthKey = (month: string): string => {
+  const [year, monthIndex] = month.split('-').map(Number);
+  return format(new Date(year, monthIndex - 1, 1), 'MMMM yyyy');
+};
+
+// yyyy-MM of a dd/MM/yyyy date, or undefined when it cannot be read
+const entryMonth = (date: string): string | undefined => {
+  const parts = date?.split('/');
+  if (!parts || parts.length !== 3) return undefined;
+  const month = parseInt(parts[1], 10);
+  const year = parseInt(parts[2], 10);
+  if (!month || !year || month > 12) return undefined;
+  return `${year}-${String(month).padStart(2, '0')}`;
+};
+
+const sumByMonth = (items: DatedAmount[], byCategory: boolean): Map<string, Record<string, number>> => {
+  const totals = new Map<string, Record<string, number>>();
+  items.forEach(item => {
+    const month = entryMonth(item.date);
+    if (!month || !(item.amount > 0)) return;
+    const key = byCategory ? item.category || '' : '';
+    if (byCategory && !key) return;
+    const row = totals.get(month) ?? {};
+    row[key] = (row[key] ?? 0) + item.amount;
+    totals.set(month, row);
+  });
+  return totals;
+};
+
+export const getAssigned = (plan: BudgetPlan, budgets: Record<string, number>, month: string, category: string): number =>
+  plan.periods.find(period => period.month === month)?.assigned[category] ?? budgets[category] ?? 0;
+
+export const setAssigned = (plan: BudgetPlan, month: string, category: string, amount: number): BudgetPlan => {
+  const existing = plan.periods.find(period => period.month === month);
+  const period = { month, assigned: { ...existing?.assigned, [category]: amount } };
+  return {
+    ...plan,
+    periods: [...plan.periods.filter(p => p.month !== month), period].sort((a, b) => a.month.localeCompare(b.month)),
+  };
+};
+
+/**
+ * Every budget period from the first month with a spend, income,
+ * assignment or transfer up to `untilMonth`, oldest first. `today` sets
+ * how far through the current month the pace check is.
+ */
+export const getBudgetPeriods = (
+  plan: BudgetPlan,
+  budgets: Record<string, number>,
+  categories: string[],
+  entries: DatedAmount[],
+  income: DatedAmount[],
+  untilMonth: string,
+  today: Date = new Date()
+): BudgetPeriodSummary[] => {
+  const spending = sumByMonth(entries, true);
+  const earnings = sumByMonth(income, false);
+  const firstMonth = [
+    ...spending.keys(),
+    ...earnings.keys(),
+    ...plan.periods.map(period => period.month),
+    ...plan.transfers.map(transfer => transfer.month),
+  ].sort()[0] ?? untilMonth;
+  const currentMonth = getMonthKey(today);
+  const summaries: BudgetPeriodSummary[] = [];
+  let carry: Record<string, number> = {};
+  let carriedToAssign = 0;
+
+  for (let month = firstMonth < untilMonth ? firstMonth : untilMonth; month <= untilMonth; month = shiftMonthKey(month, 1)) {
+    const spent = spending.get(month) ?? {};
+    const monthIncome = earnings.get(month)?.[''] ?? 0;
+    const transfers = plan.transfers.filter(transfer => transfer.month === month);
+    // Share of the month gone by; past months are over, future ones not begun
+    const elapsed = month < currentMonth ? 1 : month > currentMonth ? 0 : today.getDate() / getDaysInMonth(today);
+
+    const envelopes = categories.map(category => {
+      const carryIn = plan.rollover[category] ? carry[category] ?? 0 : 0;
+      const assigned = getAssigned(plan, budgets, month, category);
+      const transferred = transfers.reduce(
+        (total, transfer) => total + (transfer.to === category ? transfer.amount : 0) - (transfer.from === category ? transfer.amount : 0),
+        0
+      );
+      const funds = carryIn + assigned + transferred;
+      const categorySpent = spent[category] ?? 0;
+      const paceLimit = Math.max(0, funds) * elapsed;
+      const status: EnvelopeStatus = categorySpent > funds + 0.005 ? 'overspent'
+        : categorySpent > paceLimit + 0.005 ? 'overPace' : 'onTrack';
+      return {
+        category,
+        carryIn: round2(carryIn),
+        assigned: round2(assigned),
+        transferred: round2(transferred),
+        funds: round2(funds),
+        spent: round2(categorySpent),
+        available: round2(funds - categorySpent),
+        paceLimit: round2(paceLimit),
+        status,
+      };
+    });
+
+    const assigned = envelopes.reduce((total, envelope) => total + envelope.assigned, 0);
+    const toAssign = carriedToAssign + monthIncome - assigned;
+    summaries.push({
+      month,
+      label: formatMonthKey(month),
+      income: round2(monthIncome),
+      carriedToAssign: round2(carriedToAssign),
+      assigned: round2(assigned),
+      spent: round2(envelopes.reduce((total, envelope) => total + envelope.spent, 0)),
+      toAssign: round2(toAssign),
+      envelopes,
+    });
+
+    carry = Object.fromEntries(envelopes.map(envelope => [envelope.category, envelope.available]));
+    const returned = envelopes
+      .filter(envelope => !plan.rollover[envelope.category])
+      .reduce((total, envelope) => total + envelope.available, 0);
+    carriedToAssign = toAssign + (plan.zeroBased ? returned : 0);
+  }
+  return summaries;
+};
+
+// Money each envelope holds this month, to measure spending against instead of the flat budgets
+export const getEnvelopeFunds = (period: BudgetPeriodSummary | undefined): Record<string, number> =>
+  Object.fromEntries((period?.envelopes ?? []).map(envelope => [envelope.category, envelope.funds]));
+
+// Assignments and transfers in another currency, e.g. when the sheet's reporting currency changes
+export const convertBudgetPlan = (plan: BudgetPlan, convert: (amount: number) => number): BudgetPlan => ({
+  ...plan,
+  periods: plan.periods.map(period => ({
+    ...period,
+    assigned: Object.fromEntries(Object.entries(period.assigned).map(([category, amount]) => [category, convert(amount)])),
+  })),
+  transfers: plan.transfers.map(transfer => ({ ...transfer, amount: convert(transfer.amount) })),
+});
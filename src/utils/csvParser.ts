@@ -0,0 +1,67 @@
+/**
+ * CSV Parser - RFC 4180 style CSV reading for import files
+ *
+ * Handles quoted fields with embedded commas, quotes and line breaks, a
+ * leading byte order mark, and CRLF or LF line endings.
+ */
+
+// Split CSV text into rows of fields
+export const parseCsv = (text: string, delimiter = ','): string[][] => {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let inQuotes = false;
+  const input = text.charCodeAt(0) === 0xfeff ? text.slice(1) : text;
+
+  for (let i = 0; i < input.length; i++) {
+    const c = input[i];
+    if (inQuotes) {
+      if (c === '"') {
+        if (input[i + 1] === '"') {
+          field += '"';
+          i++;
+        } else {
+          inQuotes = false;
+        }
+      } else {
+        field += c;
+      }
+    } else if (c === '"') {
+      inQuotes = true;
+    } else if (c === delimiter) {
+      row.push(field);
+      field = '';
+    } else if (c === '\n' || c === '\r') {
+      if (c === '\r' && input[i + 1] === '\n') i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += c;
+    }
+  }
+
+  if (field || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+  return rows.filter(r => r.some(f => f.trim() !== ''));
+};
+
+/**
+ * Read CSV rows as objects keyed by the header row. `headerRow` is the index
+ * of the header, for files with preamble lines (e.g. TickTick).
+ */
+export const parseCsvRecords = (text: string, headerRow = 0): Record<string, string>[] => {
+  const rows = parseCsv(text);
+  const header = rows[headerRow]?.map(h => h.trim());
+  if (!header) return [];
+  return rows.slice(headerRow + 1).map(row => {
+    const record: Record<string, string> = {};
+    header.forEach((name, i) => {
+      record[name] = (row[i] ?? '').trim();
+    });
+    return record;
+  });
+};
@@ -0,0 +1,40 @@
+/**
+ * Custom Smart Lists - named task queries saved by the user
+ *
+ * Each list is a query in the task query language (see taskQuery.ts) shown
+ * next to the built-in smart lists.
+ */
+
+import { getSetting, setSetting } from '@/utils/settingsStorage';
+
+export interface CustomSmartList {
+  id: string;
+  name: string;
+  query: string;
+  createdAt: string;
+}
+
+const STORAGE_KEY = 'customSmartLists';
+
+// Smart list id used next to the built-in ones, e.g. in the 'todoSmartList' setting
+export const customSmartListId = (list: CustomSmartList): `custom:${string}` => `custom:${list.id}`;
+
+export const getCustomSmartLists = async (): Promise<CustomSmartList[]> => {
+  return getSetting<CustomSmartList[]>(STORAGE_KEY, []);
+};
+
+// Insert a new list or replace the one with the same id
+export const saveCustomSmartList = async (list: CustomSmartList): Promise<void> => {
+  const lists = await getCustomSmartLists();
+  const index = lists.findIndex(l => l.id === list.id);
+  if (index >= 0) lists[index] = list;
+  else lists.push(list);
+  await setSetting(STORAGE_KEY, lists);
+  window.dispatchEvent(new Event('customSmartListsUpdated'));
+};
+
+export const deleteCustomSmartList = async (id: string): Promise<void> => {
+  const lists = await getCustomSmartLists();
+  await setSetting(STORAGE_KEY, lists.filter(l => l.id !== id));
+  window.dispatchEvent(new Event('customSmartListsUpdated'));
+};
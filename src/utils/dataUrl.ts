@@ -0,0 +1,26 @@
+/**
+ * Data URLs - converting between bytes and data: URLs
+ *
+ * Images, audio and attachments are kept as data URLs in storage; imports,
+ * exports and backups turn them into files and back.
+ */
+
+export const bytesToDataUrl = (data: Uint8Array, mime: string): string => {
+  let binary = '';
+  const chunk = 0x8000;
+  for (let i = 0; i < data.length; i += chunk) {
+    binary += String.fromCharCode(...data.subarray(i, i + chunk));
+  }
+  return `data:${mime};base64,${btoa(binary)}`;
+};
+
+// Bytes and MIME type of a data URL, base64 or percent-encoded; null for anything else
+export const dataUrlToBytes = (dataUrl: string): { mime: string; data: Uint8Array } | null => {
+  const match = /^data:([^;,]*)((?:;[^;,]*)*),(.*)$/s.exec(dataUrl);
+  if (!match) return null;
+  if (!match[2].split(';').includes('base64')) return { mime: match[1], data: new TextEncoder().encode(decodeURIComponent(match[3])) };
+  const binary = atob(match[3]);
+  const data = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) data[i] = binary.charCodeAt(i);
+  return { mime: match[1], data };
+};
@@ -0,0 +1,144 @@
+/**
+ * Evernote Import - reads .enex notebook exports
+ *
+ * Each <note> becomes a note in a folder named after the notebook file. The
+ * ENML body is turned into plain HTML (checkboxes become ☐/☑, encrypted
+ * blocks are dropped) and image and audio resources are saved as
+ * attachments. Evernote tasks (<task> elements) become tasks.
+ */
+
+import { Note, TodoItem, VoiceRecording } from '@/types/note';
+import { sanitizeHtml } from '@/lib/sanitize';
+import { parseICalDate } from './rrule';
+import { makeTaskMediaRef } from './taskMediaStorage';
+import {
+  ImportFile,
+  ImportFileError,
+  ImportPreview,
+  createImportPreview,
+  getOrAddFolder,
+  importFileBaseName,
+  importFileText,
+  importId,
+  mediaKindForMime,
+} from './externalImport';
+
+const childText = (parent: Element, tag: string): string =>
+  parent.getElementsByTagName(tag)[0]?.textContent?.trim() || '';
+
+// ENEX timestamps look like 20240131T090000Z
+const readDate = (value: string): Date | undefined => {
+  if (!value) return undefined;
+  try {
+    return parseICalDate(value);
+  } catch {
+    return undefined;
+  }
+};
+
+// Turn ENML into HTML the editor understands
+const enmlToHtml = (enml: string): { html: string; encrypted: boolean } => {
+  const body = /<en-note[^>]*>([\s\S]*)<\/en-note>/i.exec(enml)?.[1] ?? enml;
+  let encrypted = false;
+  const html = body
+    .replace(/<en-todo\b[^>]*checked="true"[^>]*\/?>(<\/en-todo>)?/gi, '☑ ')
+    .replace(/<en-todo\b[^>]*\/?>(<\/en-todo>)?/gi, '☐ ')
+    .replace(/<en-media\b[^>]*\/?>(<\/en-media>)?/gi, '')
+    .replace(/<en-crypt\b[^>]*>[\s\S]*?<\/en-crypt>/gi, () => {
+      encrypted = true;
+      return '';
+    });
+  return { html: sanitizeHtml(html), encrypted };
+};
+
+const parseTask = (element: Element, noteTitle: string, tags: string[], folderId: string): TodoItem | null => {
+  const text = childText(element, 'title');
+  if (!text) return null;
+  const completed = childText(element, 'taskStatus') === 'completed';
+  const reminder = element.getElementsByTagName('reminder')[0];
+  return {
+    id: importId('evernote'),
+    text,
+    completed,
+    priority: childText(element, 'taskFlag') === 'true' ? 'high' : undefined,
+    dueDate: readDate(childText(element, 'dueDate')),
+    reminderTime: reminder ? readDate(childText(reminder, 'reminderDate')) : undefined,
+    description: noteTitle ? `From note: ${noteTitle}` : undefined,
+    tags: tags.length ? tags : undefined,
+    folderId,
+    createdAt: readDate(childText(element, 'created')) ?? new Date(),
+    completedAt: completed ? readDate(childText(element, 'statusUpdated')) ?? new Date() : undefined,
+  };
+};
+
+const parseNotebook = (file: ImportFile, preview: ImportPreview) => {
+  const doc = new DOMParser().parseFromString(importFileText(file), 'application/xml');
+  const root = doc.documentElement;
+  if (!root || root.nodeName !== 'en-export') {
+    preview.errors.push(`${file.name}: not an Evernote export`);
+    return;
+  }
+
+  const notebook = importFileBaseName(file.name);
+  const noteFolder = getOrAddFolder(preview.noteFolders, notebook);
+  const notes = Array.from(root.getElementsByTagName('note'));
+
+  notes.forEach((element, index) => {
+    const title = childText(element, 'title') || `Untitled ${index + 1}`;
+    const { html, encrypted } = enmlToHtml(element.getElementsByTagName('content')[0]?.textContent || '');
+    if (encrypted) preview.errors.push(`${title}: encrypted text was left out`);
+    const created = readDate(childText(element, 'created')) ?? new Date();
+    const noteId = importId('evernote');
+    const images: string[] = [];
+    const recordings: VoiceRecording[] = [];
+
+    Array.from(element.getElementsByTagName('resource')).forEach((resource, i) => {
+      const mime = childText(resource, 'mime');
+      const kind = mediaKindForMime(mime);
+      const data = childText(resource, 'data').replace(/\s+/g, '');
+      if (!kind || !data) {
+        const name = childText(resource, 'file-name') || mime || 'attachment';
+        preview.errors.push(`${title}: attachment "${name}" is not an image or audio file and was left out`);
+        return;
+      }
+      const id = `${noteId}-${i}`;
+      preview.media.push({ kind, id, dataUrl: `data:${mime};base64,${data}` });
+      if (kind === 'image') {
+        images.push(makeTaskMediaRef('image', id));
+      } else {
+        recordings.push({ id, audioUrl: makeTaskMediaRef('audio', id), duration: 0, timestamp: created });
+      }
+    });
+
+    const note: Note = {
+      id: noteId,
+      type: 'regular',
+      title,
+      content: html,
+      images: images.length ? images : undefined,
+      voiceRecordings: recordings,
+      folderId: noteFolder.id,
+      createdAt: created,
+      updatedAt: readDate(childText(element, 'updated')) ?? created,
+    };
+    preview.notes.push(note);
+
+    const tags = Array.from(element.getElementsByTagName('tag')).map(tag => tag.textContent?.trim() || '').filter(Boolean);
+    const tasks = Array.from(element.getElementsByTagName('task'));
+    if (tasks.length > 0) {
+      const taskFolder = getOrAddFolder(preview.taskFolders, notebook);
+      tasks.forEach(task => {
+        const item = parseTask(task, title, tags, taskFolder.id);
+        if (item) preview.tasks.push(item);
+      });
+    }
+  });
+};
+
+export const parseEvernoteExport = (files: ImportFile[]): ImportPreview => {
+  const preview = createImportPreview('evernote');
+  const notebooks = files.filter(file => file.name.toLowerCase().endsWith('.enex'));
+  if (notebooks.length === 0) throw new ImportFileError('No Evernote .enex files found');
+  notebooks.forEach(file => parseNotebook(file, preview));
+  return preview;
+};
@@ -0,0 +1,201 @@
+/**
+ * Exchange Rates - a user-kept rate table for multi-currency expense sheets
+ *
+ * No live rate service is used: rates are typed in or imported from a CSV
+ * of historical rates and stored with the sheet. An amount paid in another
+ * currency keeps its original value, and its `amount` is the value in the
+ * sheet's reporting currency at the rate for its date - the latest rate on
+ * or before that day, or the earliest one after it when there is none.
+ */
+
+import { format, isValid, parse } from 'date-fns';
+import { parseCsvRecords } from './csvParser';
+import { parseAmount, parseStatementDate } from './bankImport';
+
+export interface ExchangeRate {
+  id: string;
+  date: string; // yyyy-MM-dd
+  base: string;
+  quote: string;
+  rate: number; // 1 base = rate quote
+}
+
+// Anything with an amount in the reporting currency that may have been paid in another one
+export interface CurrencyAmount {
+  date: string; // dd/MM/yyyy
+  amount: number;
+  originalCurrency?: string;
+  originalAmount?: number;
+}
+
+export interface FxResult {
+  // Reporting value of the share when the expense was made
+  booked: number;
+  // Difference once settled (realized) or at the latest rate (unrealized)
+  realized: number;
+  unrealized: number;
+}
+
+export const CURRENCIES = [
+  { code: 'USD', symbol: '$', name: 'US Dollar' },
+  { code: 'EUR', symbol: '€', name: 'Euro' },
+  { code: 'GBP', symbol: '£', name: 'British Pound' },
+  { code: 'INR', symbol: '₹', name: 'Indian Rupee' },
+  { code: 'PKR', symbol: 'Rs', name: 'Pakistani Rupee' },
+  { code: 'AED', symbol: 'د.إ', name: 'UAE Dirham' },
+  { code: 'SAR', symbol: '﷼', name: 'Saudi Riyal' },
+  { code: 'JPY', symbol: '¥', name: 'Japanese Yen' },
+  { code: 'CNY', symbol: '¥', name: 'Chinese Yuan' },
+  { code: 'CAD', symbol: 'C$', name: 'Canadian Dollar' },
+  { code: 'AUD', symbol: 'A$', name: 'Australian Dollar' },
+  { code: 'CHF', symbol: 'Fr', name: 'Swiss Franc' },
+  { code: 'SGD', symbol: 'S$', name: 'Singapore Dollar' },
+  { code: 'THB', symbol: '฿', name: 'Thai Baht' },
+  { code: 'MXN', symbol: 'Mex$', name: 'Mexican Peso' },
+  { code: 'TRY', symbol: '₺', name: 'Turkish Lira' },
+] as const;
+
+export const getCurrencySymbol = (code: string): string =>
+  CURRENCIES.find(c => c.code === code)?.symbol ?? code;
+
+export const rateId = () => `rate-${Date.now()}-${Math.random().toString(36).substring(2, 9)}`;
+
+const round2 = (value: number) => Math.round(value * 100) / 100;
+
+// Entry dates are dd/MM/yyyy; undated entries use today's rate
+export const parseEntryDate = (date?: string): Date => {
+  const parsed = date ? parse(date, 'dd/MM/yyyy', new Date()) : new Date();
+  return isValid(parsed) ? parsed : new Date();
+};
+
+const findDirectRate = (rates: ExchangeRate[], from: string, to: string, day: string): number | undefined => {
+  const candidates = rates
+    .map(r => (r.base === from && r.quote === to ? { date: r.date, rate: r.rate }
+      : r.base === to && r.quote === from ? { date: r.date, rate: 1 / r.rate } : undefined))
+    .filter((r): r is { date: string; rate: number } => !!r && r.rate > 0 && isFinite(r.rate))
+    .sort((a, b) => a.date.localeCompare(b.date));
+  if (candidates.length === 0) return undefined;
+  const onOrBefore = candidates.filter(r => r.date <= day);
+  return (onOrBefore[onOrBefore.length - 1] ?? candidates[0]).rate;
+};
+
+/**
+ * Units of `to` for one unit of `from` on `date`, or undefined when the
+ * table has no rate for the pair. Pairs without a rate of their own go
+ * through a currency both are quoted against, e.g. EUR → USD → GBP.
+ */
+export const findExchangeRate = (rates: ExchangeRate[], from: string, to: string, date: Date = new Date()): number | undefined => {
+  if (from === to) return 1;
+  const day = format(date, 'yyyy-MM-dd');
+  const direct = findDirectRate(rates, from, to, day);
+  if (direct !== undefined) return direct;
+  for (const via of new Set(rates.flatMap(r => [r.base, r.quote]))) {
+    if (via === from || via === to) continue;
+    const first = findDirectRate(rates, from, via, day);
+    const second = first === undefined ? undefined : findDirectRate(rates, via, to, day);
+    if (first !== undefined && second !== undefined) return first * second;
+  }
+  return undefined;
+};
+
+export const convertAmount = (amount: number, from: string, to: string, date: Date, rates: ExchangeRate[]): number | undefined => {
+  const rate = findExchangeRate(rates, from, to, date);
+  return rate === undefined ? undefined : round2(amount * rate);
+};
+
+/**
+ * Recompute `amount` from the original currency. Items in the reporting
+ * currency drop their original fields; items without a rate keep their
+ * current amount until one is added.
+ */
+export const applyExchangeRate = <T extends CurrencyAmount>(item: T, reportingCurrency: string, rates: ExchangeRate[]): T => {
+  if (!item.originalCurrency) return item;
+  const original = item.originalAmount ?? item.amount;
+  if (item.originalCurrency === reportingCurrency) {
+    return { ...item, amount: original, originalCurrency: undefined, originalAmount: undefined };
+  }
+  const converted = convertAmount(original, item.originalCurrency, reportingCurrency, parseEntryDate(item.date), rates);
+  return { ...item, originalAmount: original, amount: converted ?? item.amount };
+};
+
+export const hasExchangeRate = (item: CurrencyAmount, reportingCurrency: string, rates: ExchangeRate[]): boolean =>
+  !item.originalCurrency || findExchangeRate(rates, item.originalCurrency, reportingCurrency, parseEntryDate(item.date)) !== undefined;
+
+/**
+ * Move items to a new reporting currency. Amounts that were in the old
+ * reporting currency remember it as their original currency, so switching
+ * back and forth loses nothing.
+ */
+export const rebaseToCurrency = <T extends CurrencyAmount>(items: T[], fromCurrency: string, toCurrency: string, rates: ExchangeRate[]): T[] =>
+  items.map(item => {
+    if (!item.amount && !item.originalAmount) return item;
+    const withOriginal = item.originalCurrency ? item : { ...item, originalCurrency: fromCurrency, originalAmount: item.amount };
+    return applyExchangeRate(withOriginal, toCurrency, rates);
+  });
+
+// Currencies that have no rate to `toCurrency`, for items that would need one
+export const findMissingRates = (items: CurrencyAmount[], fromCurrency: string, toCurrency: string, rates: ExchangeRate[]): string[] => {
+  const currencies = new Set(
+    items.filter(item => item.amount || item.originalAmount).map(item => item.originalCurrency ?? fromCurrency)
+  );
+  return [...currencies].filter(code => findExchangeRate(rates, code, toCurrency) === undefined);
+};
+
+/**
+ * What a share of a split expense in another currency is worth in the
+ * reporting currency: booked at the rate of the expense date, and the gain
+ * or loss for whoever is owed once it is paid back (at the rate of the day
+ * it was settled) or, while still open, at the latest rate.
+ */
+export const getSplitFx = (
+  amount: number,
+  currency: string,
+  reportingCurrency: string,
+  expenseDate: string,
+  settledOn: string | undefined,
+  rates: ExchangeRate[]
+): FxResult | undefined => {
+  const bookedRate = findExchangeRate(rates, currency, reportingCurrency, parseEntryDate(expenseDate));
+  if (bookedRate === undefined) return undefined;
+  const booked = round2(amount * bookedRate);
+  const laterRate = findExchangeRate(rates, currency, reportingCurrency, settledOn ? parseEntryDate(settledOn) : new Date()) ?? bookedRate;
+  const difference = round2(amount * laterRate - booked);
+  return { booked, realized: settledOn ? difference : 0, unrealized: settledOn ? 0 : difference };
+};
+
+/**
+ * Read historical rates from CSV. Columns are found by header name: a
+ * date, the currency (base/from/currency), optionally the currency it is
+ * quoted in (quote/to; `defaultQuote` otherwise) and the rate.
+ */
+export const parseExchangeRatesCsv = (text: string, defaultQuote: string): { rates: ExchangeRate[]; errors: string[] } => {
+  const records = parseCsvRecords(text);
+  const rates: ExchangeRate[] = [];
+  const errors: string[] = [];
+  const field = (record: Record<string, string>, pattern: RegExp) =>
+    Object.entries(record).find(([name]) => pattern.test(name))?.[1]?.trim() ?? '';
+
+  records.forEach((record, index) => {
+    const dateText = field(record, /date|day/i);
+    const date = /^\d{4}-\d{1,2}-\d{1,2}/.test(dateText)
+      ? parseStatementDate(dateText, 'yyyy-MM-dd')
+      : parseStatementDate(dateText, 'dd/MM/yyyy');
+    const base = field(record, /^(base|from|currency|code)$/i).toUpperCase();
+    const quote = (field(record, /^(quote|to|target)$/i) || defaultQuote).toUpperCase();
+    const rate = parseAmount(field(record, /rate|value|price/i));
+
+    if (!date || !base || !rate || rate <= 0 || base === quote) {
+      errors.push(`Line ${index + 2}: needs a date, a currency and a rate`);
+      return;
+    }
+    rates.push({ id: rateId(), date: format(date, 'yyyy-MM-dd'), base, quote, rate });
+  });
+  return { rates, errors };
+};
+
+// Add rates, replacing any already kept for the same pair and day
+export const mergeExchangeRates = (existing: ExchangeRate[], added: ExchangeRate[]): ExchangeRate[] => {
+  const key = (r: ExchangeRate) => `${r.date}|${r.base}|${r.quote}`;
+  const addedKeys = new Set(added.map(key));
+  return [...existing.filter(r => !addedKeys.has(key(r))), ...added].sort((a, b) => b.date.localeCompare(a.date));
+};
@@ -0,0 +1,96 @@
+/**
+ * Expense Rules - categorizing expenses by their description
+ *
+ * A rule says "description contains UBER → Transport, Card". Rules are
+ * written by the user or learned when an imported expense is given another
+ * category; the user's own rules win over learned ones, and a longer match
+ * wins over a shorter one. Rules are shared by every expense sheet.
+ */
+
+import { getSetting, setSetting } from './settingsStorage';
+
+export interface ExpenseRule {
+  id: string;
+  contains: string;
+  category: string;
+  paymentMethod?: string;
+  learned: boolean;
+  createdAt: string;
+}
+
+const STORAGE_KEY = 'expenseCategoryRules';
+
+// Words banks put around the merchant name that say nothing about the expense
+const STATEMENT_NOISE = new Set([
+  'pos', 'card', 'debit', 'credit', 'purchase', 'payment', 'visa', 'mastercard', 'maestro', 'amex',
+  'contactless', 'transfer', 'direct', 'online', 'www', 'com', 'net', 'org', 'the', 'and', 'from',
+  'ref', 'txn', 'transaction', 'paypal', 'sq', 'sumup', 'ach', 'eft', 'atm', 'fee', 'inc', 'ltd', 'llc',
+]);
+
+export const createExpenseRule = (contains: string, category: string, paymentMethod?: string, learned = false): ExpenseRule => ({
+  id: `rule-${Date.now()}-${Math.random().toString(36).substring(2, 9)}`,
+  contains,
+  category,
+  paymentMethod,
+  learned,
+  createdAt: new Date().toISOString(),
+});
+
+export const matchExpenseRule = (description: string, rules: ExpenseRule[]): ExpenseRule | undefined => {
+  const text = description.toLowerCase();
+  return rules
+    .filter(rule => rule.contains.trim() && rule.category && text.includes(rule.contains.trim().toLowerCase()))
+    .sort((a, b) => Number(a.learned) - Number(b.learned) || b.contains.length - a.contains.length)[0];
+};
+
+/**
+ * The word that names the merchant in a statement line, e.g. "UBER" in
+ * "CARD PURCHASE UBER *TRIP 4412 LONDON". Reference numbers and the
+ * bank's own wording are skipped.
+ */
+export const getMerchantKeyword = (description: string): string | undefined =>
+  description
+    .split(/[^\p{L}\p{N}&']+/u)
+    .find(word => word.length >= 3 && !/\d/.test(word) && !STATEMENT_NOISE.has(word.toLowerCase()))
+    ?.toUpperCase();
+
+/**
+ * Rules after the user gave an expense `category` by hand. Nothing changes
+ * when a rule of theirs already says so; otherwise the learned rule for the
+ * merchant is added or pointed at the new category.
+ */
+export const learnExpenseRule = (
+  rules: ExpenseRule[],
+  description: string,
+  category: string,
+  paymentMethod?: string
+): ExpenseRule[] => {
+  const current = matchExpenseRule(description, rules);
+  if (current && !current.learned && current.category === category) return rules;
+  const keyword = getMerchantKeyword(description);
+  if (!keyword || !category) return rules;
+
+  const existing = rules.find(rule => rule.learned && rule.contains.toLowerCase() === keyword.toLowerCase());
+  if (existing) {
+    if (existing.category === category && existing.paymentMethod === paymentMethod) return rules;
+    return rules.map(rule => (rule.id === existing.id ? { ...rule, category, paymentMethod } : rule));
+  }
+  return [...rules, createExpenseRule(keyword, category, paymentMethod, true)];
+};
+
+export const getExpenseRules = (): Promise<ExpenseRule[]> => getSetting<ExpenseRule[]>(STORAGE_KEY, []);
+
+export const saveExpenseRules = (rules: ExpenseRule[]): Promise<void> => setSetting(STORAGE_KEY, rules);
+
+// Learn from a manual categorization; returns the rule now used for the merchant, if it changed
+export const learnFromCategorization = async (
+  description: string,
+  category: string,
+  paymentMethod?: string
+): Promise<ExpenseRule | undefined> => {
+  const rules = await getExpenseRules();
+  const next = learnExpenseRule(rules, description, category, paymentMethod);
+  if (next === rules) return undefined;
+  await saveExpenseRules(next);
+  return matchExpenseRule(description, next);
+};
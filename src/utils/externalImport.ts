@@ -0,0 +1,290 @@
+/**
+ * External Import - bringing in export files from other apps
+ *
+ * Each app has its own parser (todoistImport.ts, tickTickImport.ts,
+ * notionImport.ts, evernoteImport.ts, markdownImport.ts) that turns the export into an
+ * ImportPreview without touching storage. The preview is shown to the user
+ * first; only commitImport writes tasks, notes, folders, sections and media.
+ */
+
+import { Folder, Note, TaskSection, TodoItem } from '@/types/note';
+import { TaskMediaKind, saveTaskMedia } from './taskMediaStorage';
+import { loadTasksFromDB, saveTasksToDB } from './taskStorage';
+import { loadNotesFromDB, saveNotesToDB } from './noteStorage';
+import { getSetting, setSetting } from './settingsStorage';
+import { isZipData, readZip } from './zipArchive';
+
+export type ImportSource = 'todoist' | 'ticktick' | 'notion' | 'evernote' | 'markdown';
+
+// A file from the picked export, or one extracted from it when it is a zip
+export interface ImportFile {
+  name: string;
+  data: Uint8Array;
+}
+
+export interface ImportedMedia {
+  kind: TaskMediaKind;
+  id: string;
+  dataUrl: string;
+}
+
+export interface ImportPreview {
+  source: ImportSource;
+  tasks: TodoItem[];
+  taskFolders: Folder[]; // Projects/lists, referenced by the tasks' folderId
+  sections: TaskSection[];
+  notes: Note[];
+  noteFolders: Folder[]; // Notebooks, referenced by the notes' folderId
+  media: ImportedMedia[]; // Saved to task media storage on commit
+  errors: string[]; // Rows or files that were left out; the rest still imports
+}
+
+export interface ImportCounts {
+  tasks: number;
+  subtasks: number;
+  sections: number;
+  folders: number;
+  notes: number;
+  attachments: number;
+}
+
+export class ImportFileError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ImportFileError';
+  }
+}
+
+// File picker filter for each source
+export const IMPORT_FILE_TYPES: Record<ImportSource, string> = {
+  todoist: '.csv,.json,.zip',
+  ticktick: '.csv',
+  notion: '.zip,.md,.csv',
+  evernote: '.enex',
+  markdown: '.md,.markdown,.zip',
+};
+
+const DEFAULT_FOLDER_COLOR = '#3b82f6';
+
+// ============ Helpers for parsers ============
+
+export const createImportPreview = (source: ImportSource): ImportPreview => ({
+  source,
+  tasks: [],
+  taskFolders: [],
+  sections: [],
+  notes: [],
+  noteFolders: [],
+  media: [],
+  errors: [],
+});
+
+export const importId = (prefix: string) => `${prefix}-${Date.now()}-${Math.random().toString(36).substring(2, 9)}`;
+
+const utf8 = new TextDecoder('utf-8');
+
+export const importFileText = (file: ImportFile): string => utf8.decode(file.data);
+
+// File name without folders or extension
+export const importFileBaseName = (name: string): string =>
+  (name.split('/').pop() || name).replace(/\.[^.]+$/, '');
+
+// Folder with the given name, creating it in `folders` the first time
+export const getOrAddFolder = (folders: Folder[], name: string): Folder => {
+  const existing = folders.find(f => f.name.toLowerCase() === name.toLowerCase());
+  if (existing) return existing;
+  const folder: Folder = { id: importId('folder'), name, color: DEFAULT_FOLDER_COLOR, isDefault: false, createdAt: new Date() };
+  folders.push(folder);
+  return folder;
+};
+
+// Section with the given name, creating it in `sections` the first time
+export const getOrAddSection = (sections: TaskSection[], name: string): TaskSection => {
+  const existing = sections.find(s => s.name.toLowerCase() === name.toLowerCase());
+  if (existing) return existing;
+  const section: TaskSection = {
+    id: importId('section'),
+    name,
+    color: DEFAULT_FOLDER_COLOR,
+    isCollapsed: false,
+    order: sections.length,
+  };
+  sections.push(section);
+  return section;
+};
+
+/**
+ * Nest tasks under their parents. `parentOf` maps a task's id to its
+ * parent's id; tasks whose parent is missing stay at the top level.
+ */
+export const nestSubtasks = (tasks: TodoItem[], parentOf: Map<string, string>): TodoItem[] => {
+  const byId = new Map(tasks.map(task => [task.id, task]));
+  return tasks.filter(task => {
+    const parent = byId.get(parentOf.get(task.id) || '');
+    if (!parent || parent === task) return true;
+    parent.subtasks = [...(parent.subtasks || []), task];
+    return false;
+  });
+};
+
+// Parse dates the exporters write: ISO 8601 (with or without a zone), or anything Date understands
+export const parseImportDate = (value?: string): Date | undefined => {
+  const text = value?.trim();
+  if (!text) return undefined;
+  const dateOnly = /^(\d{4})-(\d{2})-(\d{2})$/.exec(text);
+  if (dateOnly) return new Date(Number(dateOnly[1]), Number(dateOnly[2]) - 1, Number(dateOnly[3]));
+  // "+0000" style offsets are not understood by every engine
+  const date = new Date(text.replace(/([+-]\d{2})(\d{2})$/, '$1:$2'));
+  return isNaN(date.getTime()) ? undefined : date;
+};
+
+const MIME_TYPES: Record<string, string> = {
+  png: 'image/png',
+  jpg: 'image/jpeg',
+  jpeg: 'image/jpeg',
+  gif: 'image/gif',
+  webp: 'image/webp',
+  svg: 'image/svg+xml',
+  heic: 'image/heic',
+  mp3: 'audio/mpeg',
+  m4a: 'audio/mp4',
+  wav: 'audio/wav',
+  ogg: 'audio/ogg',
+  webm: 'audio/webm',
+  amr: 'audio/amr',
+};
+
+export const mimeTypeForFile = (name: string): string | undefined =>
+  MIME_TYPES[name.split('.').pop()?.toLowerCase() || ''];
+
+// Media kind for a MIME type, or undefined for attachments the app cannot store
+export const mediaKindForMime = (mime?: string): TaskMediaKind | undefined => {
+  if (mime?.startsWith('image/')) return 'image';
+  if (mime?.startsWith('audio/')) return 'audio';
+  return undefined;
+};
+
+// ============ Reading files ============
+
+// Unpack zips (including a zip inside the zip, as Notion sometimes does) into plain files
+const expandFiles = async (file: ImportFile, depth = 0): Promise<ImportFile[]> => {
+  if (depth > 1 || !isZipData(file.data)) return [file];
+  const entries = await readZip(file.data);
+  const nested = await Promise.all(
+    entries
+      .filter(entry => !entry.name.startsWith('__MACOSX/') && !entry.name.split('/').pop()?.startsWith('.'))
+      .map(entry => expandFiles(entry, depth + 1))
+  );
+  return nested.flat();
+};
+
+// Parse an export file picked by the user into a preview of what would be imported
+export const parseImportFile = async (source: ImportSource, file: File): Promise<ImportPreview> => {
+  const files = await expandFiles({ name: file.name, data: new Uint8Array(await file.arrayBuffer()) });
+  if (files.length === 0) throw new ImportFileError('The file is empty');
+
+  switch (source) {
+    case 'todoist':
+      return (await import('./todoistImport')).parseTodoistExport(files);
+    case 'ticktick':
+      return (await import('./tickTickImport')).parseTickTickExport(files);
+    case 'notion':
+      return (await import('./notionImport')).parseNotionExport(files);
+    case 'evernote':
+      return (await import('./evernoteImport')).parseEvernoteExport(files);
+    case 'markdown':
+      return (await import('./markdownImport')).parseMarkdownExport(files);
+  }
+};
+
+// ============ Committing ============
+
+const countTasks = (tasks: TodoItem[]): number =>
+  tasks.reduce((sum, task) => sum + 1 + countTasks(task.subtasks || []), 0);
+
+export const getImportCounts = (preview: ImportPreview): ImportCounts => ({
+  tasks: preview.tasks.length,
+  subtasks: countTasks(preview.tasks) - preview.tasks.length,
+  sections: preview.sections.length,
+  folders: preview.taskFolders.length + preview.noteFolders.length,
+  notes: preview.notes.length,
+  attachments: preview.media.length,
+});
+
+/**
+ * Merge imported folders into the saved ones by name (case-insensitive) and
+ * return the ids to use for each imported folder.
+ */
+const mergeFolders = async (key: string, imported: Folder[]): Promise<Map<string, string>> => {
+  const ids = new Map<string, string>();
+  if (imported.length === 0) return ids;
+  const saved = await getSetting<Folder[]>(key, []);
+  const added: Folder[] = [];
+  imported.forEach(folder => {
+    const match = saved.find(f => f.name.toLowerCase() === folder.name.toLowerCase());
+    if (match) {
+      ids.set(folder.id, match.id);
+    } else {
+      ids.set(folder.id, folder.id);
+      added.push(folder);
+    }
+  });
+  if (added.length > 0) await setSetting(key, [...saved, ...added]);
+  return ids;
+};
+
+const remapTask = (task: TodoItem, folderIds: Map<string, string>, sectionIds: Map<string, string>): TodoItem => ({
+  ...task,
+  folderId: task.folderId ? folderIds.get(task.folderId) ?? task.folderId : undefined,
+  sectionId: task.sectionId ? sectionIds.get(task.sectionId) ?? task.sectionId : undefined,
+  subtasks: task.subtasks?.map(subtask => remapTask(subtask, folderIds, sectionIds)),
+});
+
+// Write a previewed import to storage and tell open pages to reload
+export const commitImport = async (preview: ImportPreview): Promise<ImportCounts> => {
+  for (const media of preview.media) {
+    await saveTaskMedia(media.kind, media.id, media.dataUrl);
+  }
+
+  if (preview.tasks.length > 0) {
+    const folderIds = await mergeFolders('todoFolders', preview.taskFolders);
+
+    const sectionIds = new Map<string, string>();
+    if (preview.sections.length > 0) {
+      const saved = await getSetting<TaskSection[]>('todoSections', []);
+      // Keep the built-in section that Today shows while none are saved
+      const sections = saved.length > 0
+        ? [...saved]
+        : [{ id: 'default', name: 'Tasks', color: DEFAULT_FOLDER_COLOR, isCollapsed: false, order: 0 }];
+      preview.sections.forEach(section => {
+        const match = sections.find(s => s.name.toLowerCase() === section.name.toLowerCase());
+        if (match) {
+          sectionIds.set(section.id, match.id);
+        } else {
+          sectionIds.set(section.id, section.id);
+          sections.push({ ...section, order: sections.length });
+        }
+      });
+      await setSetting('todoSections', sections);
+    }
+
+    const existing = await loadTasksFromDB();
+    const imported = preview.tasks.map(task => remapTask(task, folderIds, sectionIds));
+    await saveTasksToDB([...imported, ...existing]);
+    window.dispatchEvent(new Event('tasksUpdated'));
+  }
+
+  if (preview.notes.length > 0) {
+    const folderIds = await mergeFolders('folders', preview.noteFolders);
+    const existing = await loadNotesFromDB();
+    const imported = preview.notes.map(note => ({
+      ...note,
+      folderId: note.folderId ? folderIds.get(note.folderId) ?? note.folderId : undefined,
+    }));
+    await saveNotesToDB([...imported, ...existing]);
+    window.dispatchEvent(new Event('foldersUpdated'));
+    window.dispatchEvent(new Event('notesUpdated'));
+  }
+
+  return getImportCounts(preview);
+};
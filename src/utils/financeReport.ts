@@ -0,0 +1,332 @@
+/**
+ * Finance Report - figures across every expense sheet
+ *
+ * Each expense note keeps its own entries, income, budgets and reporting
+ * currency. The report reads them all, keeps what matches the note, folder
+ * and date filters and converts it into one currency with the sheets' own
+ * exchange rates. Amounts that cannot be converted are left out and their
+ * currency is reported, so totals are never silently mixed.
+ */
+
+import { addMonths, differenceInCalendarMonths, endOfDay, format, startOfDay, startOfMonth } from 'date-fns';
+import { ExpenseEntry, Note } from '@/types/note';
+import { CurrencyAmount, ExchangeRate, convertAmount, getCurrencySymbol, parseEntryDate } from './exchangeRates';
+
+export interface FinanceSheet {
+  noteId: string;
+  title: string;
+  folderId?: string;
+  currency: string;
+  entries: ExpenseEntry[];
+  income: CurrencyAmount[];
+  budgets: Record<string, number>; // monthly limit per category
+  exchangeRates: ExchangeRate[];
+}
+
+export interface FinanceFilters {
+  noteId?: string;
+  folderId?: string;
+  from?: Date;
+  to?: Date;
+}
+
+export interface MonthlyFinance {
+  month: string; // yyyy-MM
+  label: string;
+  income: number;
+  expenses: number;
+  net: number;
+  // Change in expenses from the month before, in percent
+  expenseChange?: number;
+}
+
+export interface CategoryFinance {
+  category: string;
+  amount: number;
+  share: number;
+}
+
+export interface BudgetFinance {
+  category: string;
+  budget: number;
+  actual: number;
+  // Positive when under budget
+  remaining: number;
+}
+
+export interface FinanceReport {
+  currency: string;
+  sheets: number;
+  income: number;
+  expenses: number;
+  net: number;
+  // Share of income left after expenses, undefined without income
+  savingsRate?: number;
+  months: MonthlyFinance[];
+  categories: CategoryFinance[];
+  budgets: BudgetFinance[];
+  budgetMonths: number;
+  // Currencies with no rate to the report currency
+  missingRates: string[];
+}
+
+const round2 = (value: number) => Math.round(value * 100) / 100;
+
+/**
+ * The figures of an expense note, or undefined when its content is not an
+ * expense sheet. The oldest sheets are a bare array of entries.
+ */
+export const readFinanceSheet = (note: Note): FinanceSheet | undefined => {
+  if (note.type !== 'expense' || !note.content) return undefined;
+  try {
+    const parsed = JSON.parse(note.content);
+    const data = Array.isArray(parsed) ? { entries: parsed } : parsed;
+    if (!data || !Array.isArray(data.entries)) return undefined;
+    return {
+      noteId: note.id,
+      title: note.title,
+      folderId: note.folderId,
+      currency: data.currency || 'USD',
+      entries: data.entries,
+      income: Array.isArray(data.incomeEntries) ? data.incomeEntries : [],
+      budgets: data.budgets && typeof data.budgets === 'object' ? data.budgets : {},
+      exchangeRates: Array.isArray(data.exchangeRates) ? data.exchangeRates : [],
+    };
+  } catch {
+    return undefined;
+  }
+};
+
+// Expense notes that are not deleted or hidden away behind a lock
+export const getFinanceSheets = (notes: Note[]): FinanceSheet[] =>
+  notes
+    .filter(note => !note.isDeleted && !note.isHidden)
+    .map(readFinanceSheet)
+    .filter((sheet): sheet is FinanceSheet => !!sheet);
+
+export const filterFinanceSheets = (sheets: FinanceSheet[], filters: FinanceFilters): FinanceSheet[] =>
+  sheets.filter(sheet =>
+    (!filters.noteId || sheet.noteId === filters.noteId) &&
+    (!filters.folderId || sheet.folderId === filters.folderId)
+  );
+
+// The currency most sheets report in, so the first view needs no conversion
+export const getMainCurrency = (sheets: FinanceSheet[]): string => {
+  const counts = new Map<string, number>();
+  sheets.forEach(sheet => counts.set(sheet.currency, (counts.get(sheet.currency) ?? 0) + 1));
+  return [...counts.entries()].sort((a, b) => b[1] - a[1])[0]?.[0] ?? 'USD';
+};
+
+/**
+ * Build the report for `sheets` in `currency`. Budgets are monthly, so the
+ * budget for a category is its limit times the months in the date range,
+ * or the months from the first to the last dated item without one.
+ */
+export const buildFinanceReport = (sheets: FinanceSheet[], filters: FinanceFilters, currency: string): FinanceReport => {
+  // Any sheet's rate may be the one that links two currencies
+  const rates = sheets.flatMap(sheet => sheet.exchangeRates);
+  const from = filters.from ? startOfDay(filters.from) : undefined;
+  const to = filters.to ? endOfDay(filters.to) : undefined;
+  const missing = new Set<string>();
+  const monthly = new Map<string, { income: number; expenses: number }>();
+  const byCategory = new Map<string, number>();
+  let income = 0;
+  let expenses = 0;
+
+  // Value of an item in the report currency; the original amount is used when it was paid in it
+  const toReport = (item: CurrencyAmount, sheetCurrency: string, date: Date): number | undefined => {
+    if (item.originalCurrency === currency && item.originalAmount !== undefined) return item.originalAmount;
+    const value = convertAmount(item.amount, sheetCurrency, currency, date, rates);
+    if (value === undefined) missing.add(sheetCurrency);
+    return value;
+  };
+
+  const inRange = (date: Date) => (!from || date >= from) && (!to || date <= to);
+
+  const addToMonth = (date: Date, field: 'income' | 'expenses', value: number) => {
+    const key = format(date, 'yyyy-MM');
+    const month = monthly.get(key) ?? { income: 0, expenses: 0 };
+    month[field] += value;
+    monthly.set(key, month);
+  };
+
+  sheets.forEach(sheet => {
+    sheet.entries.forEach(entry => {
+      if (!entry.date || !(entry.amount > 0)) return;
+      const date = parseEntryDate(entry.date);
+      if (!inRange(date)) return;
+      const value = toReport(entry, sheet.currency, date);
+      if (value === undefined) return;
+      const category = entry.category || 'Uncategorized';
+      expenses += value;
+      addToMonth(date, 'expenses', value);
+      byCategory.set(category, (byCategory.get(category) ?? 0) + value);
+    });
+    sheet.income.forEach(item => {
+      if (!item.date || !(item.amount > 0)) return;
+      const date = parseEntryDate(item.date);
+      if (!inRange(date)) return;
+      const value = toReport(item, sheet.currency, date);
+      if (value === undefined) return;
+      income += value;
+      addToMonth(date, 'income', value);
+    });
+  });
+
+  const monthKeys = [...monthly.keys()].sort();
+  const firstMonth = from ? startOfMonth(from) : monthKeys[0] ? new Date(`${monthKeys[0]}-01T00:00:00`) : undefined;
+  const lastMonth = to ? startOfMonth(to) : monthKeys.length > 0 ? new Date(`${monthKeys[monthKeys.length - 1]}-01T00:00:00`) : undefined;
+  const budgetMonths = firstMonth && lastMonth ? Math.max(1, differenceInCalendarMonths(lastMonth, firstMonth) + 1) : 1;
+
+  // Every month in the range gets a row, even the quiet ones
+  const months: MonthlyFinance[] = [];
+  if (firstMonth && lastMonth) {
+    for (let month = firstMonth; month <= lastMonth; month = addMonths(month, 1)) {
+      const key = format(month, 'yyyy-MM');
+      const totals = monthly.get(key) ?? { income: 0, expenses: 0 };
+      const previous = months[months.length - 1];
+      months.push({
+        month: key,
+        label: format(month, 'MMM yyyy'),
+        income: round2(totals.income),
+        expenses: round2(totals.expenses),
+        net: round2(totals.income - totals.expenses),
+        expenseChange: previous && previous.expenses > 0
+          ? ((totals.expenses - previous.expenses) / previous.expenses) * 100
+          : undefined,
+      });
+    }
+  }
+
+  const categories = [...byCategory.entries()]
+    .map(([category, amount]) => ({ category, amount: round2(amount), share: expenses > 0 ? (amount / expenses) * 100 : 0 }))
+    .sort((a, b) => b.amount - a.amount);
+
+  // Limits are converted at the rate of the last day reported on
+  const budgetDate = to ?? new Date();
+  const budgetByCategory = new Map<string, number>();
+  sheets.forEach(sheet => {
+    Object.entries(sheet.budgets).forEach(([category, limit]) => {
+      if (!(limit > 0)) return;
+      const value = convertAmount(limit * budgetMonths, sheet.currency, currency, budgetDate, rates);
+      if (value === undefined) {
+        missing.add(sheet.currency);
+        return;
+      }
+      budgetByCategory.set(category, (budgetByCategory.get(category) ?? 0) + value);
+    });
+  });
+  const budgets = [...new Set([...budgetByCategory.keys(), ...byCategory.keys()])]
+    .map(category => {
+      const budget = round2(budgetByCategory.get(category) ?? 0);
+      const actual = round2(byCategory.get(category) ?? 0);
+      return { category, budget, actual, remaining: round2(budget - actual) };
+    })
+    .sort((a, b) => b.budget - a.budget || b.actual - a.actual);
+
+  return {
+    currency,
+    sheets: sheets.length,
+    income: round2(income),
+    expenses: round2(expenses),
+    net: round2(income - expenses),
+    savingsRate: income > 0 ? ((income - expenses) / income) * 100 : undefined,
+    months,
+    categories,
+    budgets,
+    budgetMonths,
+    missingRates: [...missing].sort(),
+  };
+};
+
+export const formatMoney = (amount: number, currency: string): string =>
+  `${amount < 0 ? '-' : ''}${getCurrencySymbol(currency)}${Math.abs(amount).toLocaleString('en-US', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
+
+const formatPercent = (value: number | undefined): string =>
+  value === undefined ? '-' : `${value > 0 ? '+' : ''}${value.toFixed(1)}%`;
+
+/**
+ * Save the report as a PDF of plain tables. Text is drawn with the
+ * built-in Helvetica, which has no glyphs for most currency signs, so
+ * amounts carry the currency code in the headings instead.
+ */
+export const exportFinanceReportPdf = async (report: FinanceReport, subtitle: string, filename = `finance-report-${format(new Date(), 'yyyy-MM-dd')}.pdf`): Promise<void> => {
+  const { jsPDF } = await import('jspdf');
+  const pdf = new jsPDF({ unit: 'mm', format: 'a4', orientation: 'portrait' });
+  const margin = 15;
+  const pageWidth = 210;
+  const pageHeight = 297;
+  const lineHeight = 6;
+  let y = margin;
+
+  const amount = (value: number) => value.toLocaleString('en-US', { minimumFractionDigits: 2, maximumFractionDigits: 2 });
+
+  const ensureSpace = (height: number) => {
+    if (y + height <= pageHeight - margin) return;
+    pdf.addPage();
+    y = margin;
+  };
+
+  // `columns` are the right edges: the first column is left-aligned and cut off there, the others right-aligned
+  const table = (title: string, headers: string[], rows: string[][], columns: number[]) => {
+    ensureSpace(lineHeight * 4);
+    y += 4;
+    pdf.setFont('helvetica', 'bold');
+    pdf.setFontSize(13);
+    pdf.text(title, margin, y);
+    y += lineHeight + 1;
+
+    const drawRow = (cells: string[], bold: boolean) => {
+      ensureSpace(lineHeight);
+      pdf.setFont('helvetica', bold ? 'bold' : 'normal');
+      pdf.setFontSize(10);
+      cells.forEach((cell, index) => {
+        if (index === 0) pdf.text(cell, margin, y, { maxWidth: columns[0] - margin - 2 });
+        else pdf.text(cell, columns[index], y, { align: 'right' });
+      });
+      y += lineHeight;
+    };
+
+    drawRow(headers, true);
+    pdf.setDrawColor(180);
+    pdf.line(margin, y - lineHeight + 1.5, pageWidth - margin, y - lineHeight + 1.5);
+    rows.forEach(row => drawRow(row, false));
+    if (rows.length === 0) drawRow(['Nothing in this range'], false);
+  };
+
+  pdf.setFont('helvetica', 'bold');
+  pdf.setFontSize(20);
+  pdf.text('Finance Report', margin, y + 4);
+  y += 12;
+  pdf.setFont('helvetica', 'normal');
+  pdf.setFontSize(10);
+  pdf.text(subtitle, margin, y);
+  y += lineHeight;
+  pdf.text(`Amounts in ${report.currency}, ${report.sheets} expense sheet(s), generated ${format(new Date(), 'dd MMM yyyy')}`, margin, y);
+  y += lineHeight;
+  if (report.missingRates.length > 0) {
+    pdf.text(`Not included (no exchange rate): ${report.missingRates.join(', ')}`, margin, y);
+    y += lineHeight;
+  }
+
+  table('Summary', ['', report.currency], [
+    ['Income', amount(report.income)],
+    ['Expenses', amount(report.expenses)],
+    ['Net savings', amount(report.net)],
+    ['Savings rate', report.savingsRate === undefined ? '-' : `${report.savingsRate.toFixed(1)}%`],
+  ], [120, pageWidth - margin]);
+
+  table('Cash Flow by Month', ['Month', 'Income', 'Expenses', 'Net', 'Change'],
+    report.months.map(month => [month.label, amount(month.income), amount(month.expenses), amount(month.net), formatPercent(month.expenseChange)]),
+    [75, 105, 135, 165, pageWidth - margin]);
+
+  table('Spending by Category', ['Category', 'Amount', 'Share'],
+    report.categories.map(category => [category.category, amount(category.amount), `${category.share.toFixed(1)}%`]),
+    [120, 160, pageWidth - margin]);
+
+  table(`Budget vs. Actual (${report.budgetMonths} month${report.budgetMonths === 1 ? '' : 's'})`, ['Category', 'Budget', 'Actual', 'Remaining'],
+    report.budgets.map(row => [row.category, row.budget > 0 ? amount(row.budget) : '-', amount(row.actual), row.budget > 0 ? amount(row.remaining) : '-']),
+    [100, 135, 165, pageWidth - margin]);
+
+  pdf.save(filename.endsWith('.pdf') ? filename : `${filename}.pdf`);
+};
@@ -0,0 +1,105 @@
+/**
+ * Force Layout - a small force-directed layout for the notes graph
+ *
+ * Nodes push each other apart, links pull their ends together like springs
+ * and a weak pull toward the origin keeps unlinked nodes on screen. Each
+ * step moves the nodes a little; `alpha` is the temperature that starts at 1
+ * and cools down until the layout comes to rest. Pinned nodes (the one being
+ * dragged) stay where they are put.
+ */
+
+export interface LayoutNode {
+  id: string;
+  x: number;
+  y: number;
+  vx: number;
+  vy: number;
+  pinned?: boolean;
+}
+
+export interface LayoutLink {
+  source: string;
+  target: string;
+}
+
+const REPULSION = 200;
+const LINK_DISTANCE = 70;
+const LINK_STRENGTH = 0.1;
+const GRAVITY = 0.05;
+const DAMPING = 0.6;
+const MAX_SPEED = 40;
+const ALPHA_DECAY = 0.985;
+export const ALPHA_MIN = 0.005;
+
+/**
+ * Lay nodes out on a spiral, reusing the positions of nodes that already
+ * have one so a refresh doesn't scatter the graph.
+ */
+export const placeNodes = (ids: string[], previous: Map<string, LayoutNode> = new Map()): Map<string, LayoutNode> => {
+  const golden = Math.PI * (3 - Math.sqrt(5));
+  return new Map(ids.map((id, index) => {
+    const existing = previous.get(id);
+    if (existing) return [id, { ...existing, pinned: false }];
+    const radius = 20 * Math.sqrt(index + 1);
+    return [id, { id, x: radius * Math.cos(index * golden), y: radius * Math.sin(index * golden), vx: 0, vy: 0 }];
+  }));
+};
+
+/** Move every node one step at temperature `alpha`; returns the cooled alpha */
+export const stepLayout = (nodes: Map<string, LayoutNode>, links: LayoutLink[], alpha: number): number => {
+  const list = [...nodes.values()];
+
+  for (let i = 0; i < list.length; i++) {
+    const a = list[i];
+    for (let j = i + 1; j < list.length; j++) {
+      const b = list[j];
+      let dx = b.x - a.x;
+      let dy = b.y - a.y;
+      let distance2 = dx * dx + dy * dy;
+      if (distance2 < 0.01) {
+        // Nodes on top of each other: nudge them apart in some direction
+        dx = Math.random() - 0.5;
+        dy = Math.random() - 0.5;
+        distance2 = dx * dx + dy * dy;
+      }
+      const force = (REPULSION * alpha) / distance2;
+      a.vx -= dx * force;
+      a.vy -= dy * force;
+      b.vx += dx * force;
+      b.vy += dy * force;
+    }
+  }
+
+  links.forEach(link => {
+    const source = nodes.get(link.source);
+    const target = nodes.get(link.target);
+    if (!source || !target) return;
+    const dx = target.x - source.x;
+    const dy = target.y - source.y;
+    const distance = Math.sqrt(dx * dx + dy * dy) || 1;
+    const force = ((distance - LINK_DISTANCE) / distance) * LINK_STRENGTH * alpha;
+    source.vx += dx * force;
+    source.vy += dy * force;
+    target.vx -= dx * force;
+    target.vy -= dy * force;
+  });
+
+  list.forEach(node => {
+    if (node.pinned) {
+      node.vx = 0;
+      node.vy = 0;
+      return;
+    }
+    node.vx = (node.vx - node.x * GRAVITY * alpha) * DAMPING;
+    node.vy = (node.vy - node.y * GRAVITY * alpha) * DAMPING;
+    const speed = Math.sqrt(node.vx * node.vx + node.vy * node.vy);
+    if (speed > MAX_SPEED) {
+      node.vx = (node.vx / speed) * MAX_SPEED;
+      node.vy = (node.vy / speed) * MAX_SPEED;
+    }
+    node.x += node.vx;
+    node.y += node.vy;
+  });
+
+  return alpha * ALPHA_DECAY;
+};
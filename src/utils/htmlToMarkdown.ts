@@ -0,0 +1,320 @@
+/**
+ * HTML to Markdown - converts note HTML into Markdown by walking the DOM
+ *
+ * Handles what RichTextEditor produces: nested lists, checklist items
+ * (data-checked or a ☐/☑ marker), highlights (<mark> or a background
+ * colour) as ==text==, note links as [[Title]], code blocks, tables and the
+ * editor's image and file attachment wrappers. The output reads back through
+ * markdownToHtml.
+ */
+
+export interface HtmlToMarkdownOptions {
+  // Rewrite or drop (return null) an image source, e.g. to write it to a file
+  resolveImage?: (src: string, alt: string) => string | null;
+  // Same for files attached with the editor's attachment button
+  resolveFile?: (href: string, name: string) => string | null;
+}
+
+const BLOCK_TAGS = new Set([
+  'P', 'DIV', 'H1', 'H2', 'H3', 'H4', 'H5', 'H6', 'UL', 'OL', 'LI', 'BLOCKQUOTE', 'PRE',
+  'TABLE', 'HR', 'SECTION', 'ARTICLE', 'HEADER', 'FOOTER', 'FIGURE', 'ASIDE', 'NAV', 'MAIN',
+]);
+const SKIPPED_TAGS = new Set(['SCRIPT', 'STYLE', 'BUTTON', 'SVG', 'TEMPLATE', 'INPUT', 'SELECT']);
+// Editor controls saved along with images
+const SKIPPED_CLASSES = ['image-resize-handle', 'image-delete-handle', 'image-align-toolbar', 'task-embed-meta'];
+
+const CHECK_MARKER = /^\s*([☐☑])\s?/;
+const CHECKLIST_LINE = /^[-*] \[[ x]\] [^\n]*$/;
+
+interface Context {
+  options: HtmlToMarkdownOptions;
+  inTable: boolean;
+}
+
+const isSkipped = (element: Element) =>
+  SKIPPED_TAGS.has(element.tagName.toUpperCase()) ||
+  SKIPPED_CLASSES.some(name => element.classList.contains(name));
+
+const isBlock = (node: Node) => node.nodeType === Node.ELEMENT_NODE && BLOCK_TAGS.has((node as Element).tagName);
+
+// Escape characters that would otherwise read as Markdown; [[note links]] stay as they are
+const escapeText = (text: string, inTable = false): string =>
+  text
+    .split(/(\[\[[^\]\n]+\]\])/)
+    .map((part, i) => {
+      if (i % 2 === 1) return part;
+      const escaped = part.replace(/([\\`*_[\]])/g, '\\$1').replace(/(==|~~)/g, m => `\\${m[0]}\\${m[1]}`);
+      return inTable ? escaped.replace(/\|/g, '\\|') : escaped;
+    })
+    .join('');
+
+// Escape what would start a block at the beginning of a line
+const escapeLineStart = (line: string): string =>
+  line
+    .replace(/^(\s*)(#{1,6}(?=\s)|[-+](?=\s)|>)/, '$1\\$2')
+    .replace(/^(\s*\d+)([.)])(?=\s)/, '$1\\$2');
+
+const hasHighlight = (element: HTMLElement): boolean => {
+  const color = element.style?.backgroundColor;
+  return !!color && color !== 'transparent' && color !== 'inherit' && !/rgba\([^)]*,\s*0\)$/.test(color);
+};
+
+// Wrap inline content, moving surrounding spaces outside the markers ("** a**" is not bold)
+const wrap = (content: string, marker: string, closing = marker): string => {
+  const match = /^(\s*)([\s\S]*?)(\s*)$/.exec(content)!;
+  return match[2] ? `${match[1]}${marker}${match[2]}${closing}${match[3]}` : content;
+};
+
+const codeSpan = (text: string): string => {
+  const longest = Math.max(0, ...(text.match(/`+/g) || []).map(run => run.length));
+  const fence = '`'.repeat(longest + 1);
+  const pad = text.startsWith('`') || text.endsWith('`') ? ' ' : '';
+  return `${fence}${pad}${text}${pad}${fence}`;
+};
+
+const inlineChildren = (node: Node, ctx: Context): string =>
+  Array.from(node.childNodes).map(child => inline(child, ctx)).join('');
+
+const inline = (node: Node, ctx: Context): string => {
+  if (node.nodeType === Node.TEXT_NODE) {
+    return escapeText((node.textContent || '').replace(/\s+/g, ' '), ctx.inTable);
+  }
+  if (node.nodeType !== Node.ELEMENT_NODE) return '';
+  const element = node as HTMLElement;
+  if (isSkipped(element)) return '';
+
+  switch (element.tagName) {
+    case 'BR':
+      return ctx.inTable ? ' ' : '  \n';
+    case 'STRONG':
+    case 'B':
+      return wrap(inlineChildren(element, ctx), '**');
+    case 'EM':
+    case 'I':
+      return wrap(inlineChildren(element, ctx), '*');
+    case 'U':
+      return wrap(inlineChildren(element, ctx), '<u>', '</u>');
+    case 'S':
+    case 'STRIKE':
+    case 'DEL':
+      return wrap(inlineChildren(element, ctx), '~~');
+    case 'MARK':
+      return wrap(inlineChildren(element, ctx), '==');
+    case 'CODE':
+      return codeSpan(element.textContent || '');
+    case 'IMG': {
+      const src = element.getAttribute('src') || '';
+      const alt = element.getAttribute('alt') || '';
+      const resolved = ctx.options.resolveImage ? ctx.options.resolveImage(src, alt) : src;
+      return resolved ? `![${escapeText(alt)}](${resolved.replace(/ /g, '%20')})` : '';
+    }
+    case 'A': {
+      if (element.classList.contains('note-link')) {
+        return `[[${(element.textContent || '').replace(/^📝\s*/, '').trim()}]]`;
+      }
+      const text = inlineChildren(element, ctx);
+      const href = element.getAttribute('href') || '';
+      if (!href || href === '#') return text;
+      if (href.startsWith('data:')) {
+        const resolved = ctx.options.resolveFile?.(href, element.getAttribute('download') || element.textContent || 'file');
+        return resolved ? `[${text}](${resolved.replace(/ /g, '%20')})` : text;
+      }
+      return `[${text || escapeText(href)}](${href.replace(/ /g, '%20').replace(/\)/g, '%29')})`;
+    }
+    case 'SPAN':
+      if (element.classList.contains('note-link-missing')) return element.textContent || '';
+      return hasHighlight(element) ? wrap(inlineChildren(element, ctx), '==') : inlineChildren(element, ctx);
+    default:
+      return inlineChildren(element, ctx);
+  }
+};
+
+// Inline content of a block, tidied into lines
+const inlineBlock = (nodes: Node[], ctx: Context): string => {
+  const text = nodes.map(node => inline(node, ctx)).join('');
+  return text
+    .split('\n')
+    .map(line => (line.endsWith('  ') ? line.replace(/^ +/, '').replace(/\s+$/, '  ') : line.trim()))
+    .join('\n')
+    .replace(/ {2}$/, '')
+    .trim();
+};
+
+const indent = (text: string, prefix: string): string =>
+  text.split('\n').map(line => (line ? prefix + line : line)).join('\n');
+
+const fileAttachment = (element: Element, ctx: Context): string => {
+  const name = element.getAttribute('data-file-name') || 'file';
+  const href = element.querySelector('a')?.getAttribute('href') || '';
+  const resolved = href ? ctx.options.resolveFile?.(href, name) ?? (href.startsWith('data:') ? null : href) : null;
+  return resolved ? `[${escapeText(name)}](${resolved.replace(/ /g, '%20')})` : escapeText(name);
+};
+
+const listItem = (item: Element, marker: string, ctx: Context): string => {
+  const nodes = Array.from(item.childNodes);
+  // Checkbox state: data-checked, a checkbox input, or a ☐/☑ marker in the text
+  let checked: boolean | null = null;
+  const attribute = item.getAttribute('data-checked');
+  if (attribute !== null) checked = attribute === 'true';
+  const input = item.querySelector(':scope > input[type="checkbox"]');
+  if (input) checked = input.hasAttribute('checked');
+
+  const inlineNodes: Node[] = [];
+  const parts: string[] = [];
+  nodes.forEach(node => {
+    if (isBlock(node)) {
+      if (inlineNodes.length > 0 && parts.length === 0) parts.push(inlineBlock(inlineNodes.splice(0), ctx));
+      parts.push(block(node as Element, ctx));
+    } else if (parts.length === 0) {
+      inlineNodes.push(node);
+    } else {
+      parts.push(inlineBlock([node], ctx));
+    }
+  });
+  if (inlineNodes.length > 0) parts.unshift(inlineBlock(inlineNodes, ctx));
+
+  let content = parts.filter(Boolean).join('\n');
+  const marked = CHECK_MARKER.exec(content);
+  if (marked) {
+    checked = checked ?? marked[1] === '☑';
+    content = content.slice(marked[0].length);
+  }
+  const prefix = checked === null ? `${marker} ` : `${marker} [${checked ? 'x' : ' '}] `;
+  return prefix + indent(content, ' '.repeat(marker.length + 1)).trimStart();
+};
+
+// `alternate` switches the marker so a list right after another stays separate
+const list = (element: Element, ctx: Context, alternate = false): string => {
+  const ordered = element.tagName === 'OL';
+  let number = ordered ? parseInt(element.getAttribute('start') || '1', 10) || 1 : 0;
+  const bullet = alternate ? '*' : '-';
+  const delimiter = alternate ? ')' : '.';
+  return Array.from(element.children)
+    .filter(child => child.tagName === 'LI')
+    .map(item => listItem(item, ordered ? `${number++}${delimiter}` : bullet, ctx))
+    .join('\n');
+};
+
+const table = (element: Element, ctx: Context): string => {
+  const rows = Array.from(element.querySelectorAll('tr'));
+  if (rows.length === 0) return '';
+  const cellContext = { ...ctx, inTable: true };
+  const cells = rows.map(row => Array.from(row.children).map(cell =>
+    inlineBlock(Array.from(cell.childNodes), cellContext).replace(/\n/g, ' ') || ' '
+  ));
+  const width = Math.max(...cells.map(row => row.length));
+  const aligns = Array.from(rows[0].children).map(cell => {
+    const align = (cell as HTMLElement).style?.textAlign || cell.getAttribute('align') || '';
+    return align === 'center' ? ':---:' : align === 'right' ? '---:' : align === 'left' ? ':---' : '---';
+  });
+  const line = (row: string[]) => `| ${Array.from({ length: width }, (_, i) => row[i] ?? ' ').join(' | ')} |`;
+  return [
+    line(cells[0]),
+    line(Array.from({ length: width }, (_, i) => aligns[i] || '---')),
+    ...cells.slice(1).map(line),
+  ].join('\n');
+};
+
+const codeBlock = (element: Element): string => {
+  const code = element.querySelector('code');
+  const language = /language-([\w+#-]+)/.exec(code?.className || '')?.[1] || '';
+  const text = (code || element).textContent || '';
+  const longest = Math.max(2, ...(text.match(/^`{3,}/gm) || []).map(run => run.length));
+  const fence = '`'.repeat(longest + 1);
+  return `${fence}${language}\n${text.replace(/\n$/, '')}\n${fence}`;
+};
+
+// Convert the children of a block container into Markdown blocks
+const blocks = (parent: Node, ctx: Context): string => {
+  const out: string[] = [];
+  let run: Node[] = [];
+  // Kind of the last block ('-', '1' for lists) and whether its markers were switched
+  let previous = '';
+  let alternate = false;
+  const push = (text: string, kind = '') => {
+    if (!text) return;
+    const checklist = kind === '' && CHECKLIST_LINE.test(text);
+    const current = checklist ? '-' : kind;
+    const continuesChecklist = checklist && CHECKLIST_LINE.test(out[out.length - 1] || '');
+    if (current && current === previous && !continuesChecklist) alternate = !alternate;
+    else if (current !== previous) alternate = false;
+    out.push(checklist && alternate ? `*${text.slice(1)}` : text);
+    previous = current;
+  };
+  const flush = () => {
+    const text = inlineBlock(run, ctx);
+    if (text) push(text.split('\n').map(escapeLineStart).join('\n'));
+    run = [];
+  };
+  parent.childNodes.forEach(node => {
+    if (node.nodeType === Node.ELEMENT_NODE && (node as Element).classList.contains('file-attachment-wrapper')) {
+      flush();
+      push(fileAttachment(node as Element, ctx));
+    } else if (isBlock(node)) {
+      flush();
+      const element = node as Element;
+      if (element.tagName === 'UL' || element.tagName === 'OL') {
+        const kind = element.tagName === 'UL' ? '-' : '1';
+        push(list(element, ctx, kind === previous ? !alternate : false), kind);
+      } else {
+        push(block(element, ctx));
+      }
+    } else {
+      run.push(node);
+    }
+  });
+  flush();
+  // Consecutive checklist lines stay one tight list
+  return out.reduce((markdown, text, i) => {
+    if (i === 0) return text;
+    const tight = CHECKLIST_LINE.test(text) && CHECKLIST_LINE.test(out[i - 1]);
+    return markdown + (tight ? '\n' : '\n\n') + text;
+  }, '');
+};
+
+const block = (element: Element, ctx: Context): string => {
+  if (isSkipped(element)) return '';
+  switch (element.tagName) {
+    case 'H1':
+    case 'H2':
+    case 'H3':
+    case 'H4':
+    case 'H5':
+    case 'H6': {
+      const text = inlineBlock(Array.from(element.childNodes), ctx).replace(/\s*\n\s*/g, ' ');
+      return text ? `${'#'.repeat(Number(element.tagName[1]))} ${text}` : '';
+    }
+    case 'UL':
+    case 'OL':
+      return list(element, ctx);
+    case 'LI':
+      return listItem(element, '-', ctx);
+    case 'BLOCKQUOTE': {
+      const inner = blocks(element, ctx);
+      return inner ? inner.split('\n').map(line => (line ? `> ${line}` : '>')).join('\n') : '';
+    }
+    case 'PRE':
+      return codeBlock(element);
+    case 'TABLE':
+      return table(element, ctx);
+    case 'HR':
+      return '---';
+    default: {
+      // Paragraph-like containers; a lone ☐/☑ line becomes a checklist item
+      const text = blocks(element, ctx);
+      const marked = CHECK_MARKER.exec(text);
+      if (marked && !text.includes('\n\n')) {
+        return `- [${marked[1] === '☑' ? 'x' : ' '}] ${text.slice(marked[0].length)}`;
+      }
+      return text;
+    }
+  }
+};
+
+// Convert note HTML to Markdown
+export const htmlToMarkdown = (html: string, options: HtmlToMarkdownOptions = {}): string => {
+  const doc = new DOMParser().parseFromString(`<!DOCTYPE html><body>${html}</body>`, 'text/html');
+  return blocks(doc.body, { options, inTable: false })
+    .replace(/\n{3,}/g, '\n\n')
+    .trim();
+};
@@ -0,0 +1,626 @@
+/**
+ * iCalendar - .ics import and export for tasks and calendar events
+ *
+ * Tasks are written as VTODOs and calendar events as VEVENTs. Repeats become
+ * RRULE/EXDATE (see rrule.ts), reminders become VALARMs and subtasks are
+ * linked to their parent with RELATED-TO. Importing maps the same properties
+ * back and skips anything whose UID is already in the app, so a file can be
+ * imported twice without creating duplicates.
+ */
+
+import { CalendarEvent, EventReminderType, EventRepeatType, Priority, TodoItem } from '@/types/note';
+import {
+  RRule,
+  Recurrence,
+  formatICalDate,
+  formatRRule,
+  getOccurrences,
+  isICalDateOnly,
+  parseICalDate,
+  parseRRule,
+  unfoldICalLines,
+} from './rrule';
+import { getEventRecurrence, getTaskRecurrence, rruleToRepeatType } from './recurringTasks';
+import { loadTasksFromDB, saveTasksToDB } from './taskStorage';
+import { getSetting, setSetting } from './settingsStorage';
+
+export class ICalendarParseError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ICalendarParseError';
+  }
+}
+
+export interface ParsedICalendar {
+  tasks: TodoItem[];
+  events: CalendarEvent[];
+  // Components that could not be used (cancelled, missing dates, bad rules)
+  skipped: number;
+}
+
+export interface ICalendarImportResult {
+  tasks: number;
+  events: number;
+  duplicates: number;
+  skipped: number;
+}
+
+interface ICalProperty {
+  name: string;
+  params: Record<string, string>;
+  value: string;
+}
+
+interface ICalComponent {
+  name: string;
+  properties: ICalProperty[];
+  components: ICalComponent[];
+}
+
+const PRODID = '-//Npd//Tasks and Calendar//EN';
+
+const REMINDER_MINUTES: Record<EventReminderType, number> = {
+  at_time: 0,
+  '5min': 5,
+  '10min': 10,
+  '15min': 15,
+  '30min': 30,
+  '1hour': 60,
+  '1day': 1440,
+};
+
+const REPEAT_FOR_FREQ: Record<RRule['freq'], EventRepeatType> = {
+  HOURLY: 'daily',
+  DAILY: 'daily',
+  WEEKLY: 'weekly',
+  MONTHLY: 'monthly',
+  YEARLY: 'yearly',
+};
+
+const deviceTimeZone = () => Intl.DateTimeFormat().resolvedOptions().timeZone;
+
+const generateId = () => `ics-${Date.now()}-${Math.random().toString(36).substring(2, 9)}`;
+
+// ============ Time zones ============
+
+const isValidTimeZone = (timeZone?: string): timeZone is string => {
+  if (!timeZone) return false;
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+// Wall-clock fields of an instant in a time zone, as a UTC timestamp
+const zonedWallClock = (time: number, timeZone: string): number => {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone,
+    hourCycle: 'h23',
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit',
+    hour: '2-digit',
+    minute: '2-digit',
+    second: '2-digit',
+  }).formatToParts(new Date(time));
+  const get = (type: string) => Number(parts.find(p => p.type === type)?.value);
+  return Date.UTC(get('year'), get('month') - 1, get('day'), get('hour'), get('minute'), get('second'));
+};
+
+// Format an instant as a local DATE-TIME in the given zone
+const formatInTimeZone = (date: Date, timeZone: string): string => {
+  return formatICalDate(new Date(zonedWallClock(date.getTime(), timeZone)), 'utc').slice(0, -1);
+};
+
+// The instant at which the wall clock in `timeZone` shows the fields of `local`
+const fromTimeZone = (local: Date, timeZone: string): Date => {
+  const wall = Date.UTC(
+    local.getFullYear(), local.getMonth(), local.getDate(),
+    local.getHours(), local.getMinutes(), local.getSeconds()
+  );
+  let time = wall - (zonedWallClock(wall, timeZone) - wall);
+  // Second pass settles times near a DST change
+  time = wall - (zonedWallClock(time, timeZone) - time);
+  return new Date(time);
+};
+
+// ============ Reading ============
+
+const unescapeText = (value: string): string =>
+  value.replace(/\\([\\;,nN])/g, (_, c: string) => (c === 'n' || c === 'N' ? '\n' : c));
+
+// Split a TEXT list value (e.g. CATEGORIES) on unescaped commas
+const splitTextList = (value: string): string[] =>
+  value.split(/(?<!\\),/).map(unescapeText).map(v => v.trim()).filter(Boolean);
+
+const parseContentLine = (line: string): ICalProperty | null => {
+  let i = 0;
+  let inQuotes = false;
+  const segments: string[] = [];
+  let current = '';
+  for (; i < line.length; i++) {
+    const c = line[i];
+    if (c === '"') inQuotes = !inQuotes;
+    if (!inQuotes && (c === ';' || c === ':')) {
+      segments.push(current);
+      current = '';
+      if (c === ':') break;
+      continue;
+    }
+    current += c;
+  }
+  if (i >= line.length) return null;
+
+  const [name, ...rawParams] = segments;
+  const params: Record<string, string> = {};
+  rawParams.forEach(param => {
+    const eq = param.indexOf('=');
+    if (eq > 0) params[param.slice(0, eq).toUpperCase()] = param.slice(eq + 1).replace(/^"|"$/g, '');
+  });
+  return { name: name.toUpperCase(), params, value: line.slice(i + 1) };
+};
+
+const parseComponents = (text: string): ICalComponent[] => {
+  const root: ICalComponent = { name: 'ROOT', properties: [], components: [] };
+  const stack: ICalComponent[] = [root];
+
+  for (const line of unfoldICalLines(text)) {
+    const prop = parseContentLine(line);
+    if (!prop) continue;
+    const current = stack[stack.length - 1];
+    if (prop.name === 'BEGIN') {
+      const component: ICalComponent = { name: prop.value.trim().toUpperCase(), properties: [], components: [] };
+      current.components.push(component);
+      stack.push(component);
+    } else if (prop.name === 'END') {
+      if (stack.length > 1) stack.pop();
+    } else {
+      current.properties.push(prop);
+    }
+  }
+  return root.components;
+};
+
+const getProp = (component: ICalComponent, name: string) => component.properties.find(p => p.name === name);
+
+const getText = (component: ICalComponent, name: string): string | undefined => {
+  const prop = getProp(component, name);
+  return prop ? unescapeText(prop.value) : undefined;
+};
+
+const readDate = (prop: ICalProperty): { date: Date; dateOnly: boolean } => {
+  const value = prop.value.trim();
+  const dateOnly = prop.params.VALUE === 'DATE' || isICalDateOnly(value);
+  const date = parseICalDate(value);
+  if (!dateOnly && !value.endsWith('Z') && isValidTimeZone(prop.params.TZID)) {
+    return { date: fromTimeZone(date, prop.params.TZID), dateOnly };
+  }
+  return { date, dateOnly };
+};
+
+const readDateProp = (component: ICalComponent, name: string) => {
+  const prop = getProp(component, name);
+  return prop ? readDate(prop) : undefined;
+};
+
+// Signed duration in milliseconds, e.g. -PT15M or P1DT2H
+const parseDuration = (value: string): number | null => {
+  const match = /^([+-])?P(?:(\d+)W)?(?:(\d+)D)?(?:T(?:(\d+)H)?(?:(\d+)M)?(?:(\d+)S)?)?$/.exec(value.trim());
+  if (!match) return null;
+  const [, sign, weeks, days, hours, minutes, seconds] = match;
+  const ms = ((((Number(weeks || 0) * 7 + Number(days || 0)) * 24 + Number(hours || 0)) * 60 +
+    Number(minutes || 0)) * 60 + Number(seconds || 0)) * 1000;
+  return sign === '-' ? -ms : ms;
+};
+
+// Fire time of the first VALARM, given the component's start and end/due times
+const readAlarm = (component: ICalComponent, start?: Date, end?: Date): Date | undefined => {
+  const alarm = component.components.find(c => c.name === 'VALARM');
+  const trigger = alarm && getProp(alarm, 'TRIGGER');
+  if (!trigger) return undefined;
+  if (trigger.params.VALUE === 'DATE-TIME') return readDate(trigger).date;
+  const offset = parseDuration(trigger.value);
+  const base = trigger.params.RELATED === 'END' ? end ?? start : start ?? end;
+  return offset === null || !base ? undefined : new Date(base.getTime() + offset);
+};
+
+const readRecurrence = (component: ICalComponent): { rule: RRule; exdates: Date[] } | undefined => {
+  const rrule = getProp(component, 'RRULE');
+  if (!rrule) return undefined;
+  const exdates = component.properties
+    .filter(p => p.name === 'EXDATE')
+    .flatMap(p => p.value.split(',').map(value => readDate({ ...p, value }).date));
+  return { rule: parseRRule(rrule.value), exdates };
+};
+
+const readPriority = (value?: string): Priority | undefined => {
+  const n = Number(value);
+  if (!value || !Number.isInteger(n) || n <= 0) return undefined;
+  if (n <= 4) return 'high';
+  if (n === 5) return 'medium';
+  return 'low';
+};
+
+const closestReminder = (minutesBefore: number): EventReminderType => {
+  const options = Object.keys(REMINDER_MINUTES) as EventReminderType[];
+  return options.reduce((best, option) =>
+    Math.abs(REMINDER_MINUTES[option] - minutesBefore) < Math.abs(REMINDER_MINUTES[best] - minutesBefore)
+      ? option
+      : best
+  );
+};
+
+const isCancelled = (component: ICalComponent) => getProp(component, 'STATUS')?.value.trim().toUpperCase() === 'CANCELLED';
+
+const todoFromComponent = (component: ICalComponent, uid: string): TodoItem | null => {
+  const due = readDateProp(component, 'DUE') ?? readDateProp(component, 'DTSTART');
+  const start = readDateProp(component, 'DTSTART');
+  const status = getProp(component, 'STATUS')?.value.trim().toUpperCase();
+  const percent = Number(getProp(component, 'PERCENT-COMPLETE')?.value || 0);
+  const completedAt = readDateProp(component, 'COMPLETED')?.date;
+  const completed = status === 'COMPLETED' || !!completedAt;
+  const recurrence = readRecurrence(component);
+  const categories = component.properties.filter(p => p.name === 'CATEGORIES').flatMap(p => splitTextList(p.value));
+  const created = readDateProp(component, 'CREATED')?.date;
+
+  const task: TodoItem = {
+    id: generateId(),
+    text: getText(component, 'SUMMARY')?.trim() || 'Untitled',
+    completed,
+    icalUid: uid,
+    description: getText(component, 'DESCRIPTION') || undefined,
+    location: getText(component, 'LOCATION') || undefined,
+    priority: readPriority(getProp(component, 'PRIORITY')?.value),
+    status: completed
+      ? 'completed'
+      : status === 'IN-PROCESS'
+        ? (percent >= 75 ? 'almost_done' : 'in_progress')
+        : undefined,
+    dueDate: due?.date,
+    reminderTime: readAlarm(component, start?.date, due?.date),
+    tags: categories.length ? categories : undefined,
+    createdAt: created ?? new Date(),
+    modifiedAt: readDateProp(component, 'LAST-MODIFIED')?.date,
+    completedAt: completed ? completedAt ?? new Date() : undefined,
+  };
+
+  if (recurrence) {
+    task.repeatType = rruleToRepeatType(recurrence.rule);
+    task.recurrence = {
+      rrule: formatRRule(recurrence.rule),
+      dtstart: due?.date,
+      exdates: recurrence.exdates.length ? recurrence.exdates : undefined,
+    };
+  }
+  return task;
+};
+
+const eventFromComponent = (component: ICalComponent, uid: string): CalendarEvent | null => {
+  const startProp = getProp(component, 'DTSTART');
+  if (!startProp) return null;
+  const start = readDate(startProp);
+  const end = readDateProp(component, 'DTEND');
+  const duration = parseDuration(getProp(component, 'DURATION')?.value || '');
+
+  let endDate: Date;
+  if (end) {
+    endDate = end.date;
+    // All-day DTEND is exclusive; the app stores the last day of the event
+    if (start.dateOnly && endDate > start.date) endDate = new Date(endDate.getFullYear(), endDate.getMonth(), endDate.getDate() - 1);
+  } else if (duration !== null) {
+    endDate = new Date(start.date.getTime() + duration);
+    if (start.dateOnly && endDate > start.date) endDate = new Date(endDate.getTime() - 24 * 60 * 60 * 1000);
+  } else {
+    endDate = start.date;
+  }
+
+  const recurrence = readRecurrence(component);
+  const alarm = readAlarm(component, start.date, endDate);
+  const now = new Date();
+  const event: CalendarEvent = {
+    id: generateId(),
+    title: getText(component, 'SUMMARY')?.trim() || 'Untitled',
+    description: getText(component, 'DESCRIPTION') || undefined,
+    location: getText(component, 'LOCATION') || undefined,
+    allDay: start.dateOnly,
+    startDate: start.date,
+    endDate,
+    timezone: isValidTimeZone(startProp.params.TZID) ? startProp.params.TZID : deviceTimeZone(),
+    repeat: recurrence ? REPEAT_FOR_FREQ[recurrence.rule.freq] : 'never',
+    reminder: alarm ? closestReminder(Math.round((start.date.getTime() - alarm.getTime()) / 60000)) : 'at_time',
+    icalUid: uid,
+    createdAt: readDateProp(component, 'CREATED')?.date ?? now,
+    updatedAt: readDateProp(component, 'LAST-MODIFIED')?.date ?? now,
+  };
+
+  if (recurrence) {
+    const rrule = formatRRule(recurrence.rule);
+    // Plain "every day/week/month/year" fits the event's repeat option; anything else keeps the rule
+    if (rrule !== `FREQ=${recurrence.rule.freq}` || recurrence.exdates.length) {
+      event.recurrence = {
+        rrule,
+        dtstart: start.date,
+        exdates: recurrence.exdates.length ? recurrence.exdates : undefined,
+      };
+    }
+  }
+  return event;
+};
+
+/**
+ * Parse the VTODOs and VEVENTs of an .ics file. Subtasks (VTODOs with a
+ * RELATED-TO parent in the same file) are nested under their parent task.
+ */
+export const parseICalendar = (text: string): ParsedICalendar => {
+  const calendars = parseComponents(text).filter(c => c.name === 'VCALENDAR');
+  if (calendars.length === 0) throw new ICalendarParseError('Not an iCalendar file');
+
+  const tasksByUid = new Map<string, TodoItem>();
+  const parentUids = new Map<string, string>();
+  const events: CalendarEvent[] = [];
+  let skipped = 0;
+
+  calendars.flatMap(c => c.components).forEach(component => {
+    if (component.name !== 'VTODO' && component.name !== 'VEVENT') return;
+    // Changed instances of a series would need per-occurrence edits, which tasks and events do not have
+    if (getProp(component, 'RECURRENCE-ID') || isCancelled(component)) {
+      skipped++;
+      return;
+    }
+    const uid = getProp(component, 'UID')?.value.trim() || generateId();
+    try {
+      if (component.name === 'VTODO') {
+        const task = todoFromComponent(component, uid);
+        if (!task || tasksByUid.has(uid)) {
+          skipped++;
+          return;
+        }
+        tasksByUid.set(uid, task);
+        const parent = component.properties.find(p => p.name === 'RELATED-TO' && (p.params.RELTYPE || 'PARENT') === 'PARENT');
+        if (parent) parentUids.set(uid, parent.value.trim());
+      } else {
+        const event = eventFromComponent(component, uid);
+        if (event) events.push(event);
+        else skipped++;
+      }
+    } catch (error) {
+      console.warn(`Skipping ${component.name} ${uid}:`, error);
+      skipped++;
+    }
+  });
+
+  const tasks: TodoItem[] = [];
+  tasksByUid.forEach((task, uid) => {
+    const parent = tasksByUid.get(parentUids.get(uid) || '');
+    if (parent && parent !== task) parent.subtasks = [...(parent.subtasks || []), task];
+    else tasks.push(task);
+  });
+
+  return { tasks, events, skipped };
+};
+
+// ============ Writing ============
+
+const escapeText = (value: string): string =>
+  value.replace(/\\/g, '\\\\').replace(/;/g, '\\;').replace(/,/g, '\\,').replace(/\r?\n/g, '\\n');
+
+const encoder = new TextEncoder();
+
+// Fold a content line at 75 octets without splitting a UTF-8 character
+const foldLine = (line: string): string => {
+  if (encoder.encode(line).length <= 75) return line;
+  const parts: string[] = [];
+  let current = '';
+  let size = 0;
+  for (const char of line) {
+    const charSize = encoder.encode(char).length;
+    const limit = parts.length === 0 ? 75 : 74;
+    if (size + charSize > limit) {
+      parts.push(current);
+      current = '';
+      size = 0;
+    }
+    current += char;
+    size += charSize;
+  }
+  parts.push(current);
+  return parts.join('\r\n ');
+};
+
+const dateLine = (name: string, date: Date, dateOnly: boolean, timeZone?: string): string => {
+  if (dateOnly) return `${name};VALUE=DATE:${formatICalDate(date, 'date')}`;
+  if (timeZone) return `${name};TZID=${timeZone}:${formatInTimeZone(date, timeZone)}`;
+  return `${name}:${formatICalDate(date, 'utc')}`;
+};
+
+const isMidnight = (date: Date) =>
+  date.getHours() === 0 && date.getMinutes() === 0 && date.getSeconds() === 0;
+
+/**
+ * RRULE and EXDATE lines for a series starting at `start`. COUNT is reduced by
+ * the occurrences before `start`, since the exported DTSTART is the current
+ * occurrence rather than the first one.
+ */
+const recurrenceLines = (recurrence: Recurrence, start: Date, dateOnly: boolean, timeZone?: string): string[] => {
+  const rule: RRule = { ...recurrence.rule };
+  if (rule.count !== undefined && recurrence.dtstart && recurrence.dtstart < start) {
+    // COUNT includes excluded dates, so count without EXDATEs
+    const series = { rule: recurrence.rule, dtstart: recurrence.dtstart };
+    const passed = getOccurrences(series, recurrence.dtstart, { before: start, limit: rule.count }).length;
+    rule.count = Math.max(1, rule.count - passed);
+  }
+  const until = rule.until;
+  delete rule.until;
+  // UNTIL must be a DATE when DTSTART is one
+  let value = formatRRule(rule);
+  if (until) value += `;UNTIL=${formatICalDate(until, dateOnly ? 'date' : 'utc')}`;
+
+  const lines = [`RRULE:${value}`];
+  recurrence.exdates?.forEach(exdate => lines.push(dateLine('EXDATE', exdate, dateOnly, timeZone)));
+  return lines;
+};
+
+const priorityValue = (priority?: Priority): number | undefined => {
+  switch (priority) {
+    case 'high': return 1;
+    case 'medium': return 5;
+    case 'low': return 9;
+    default: return undefined;
+  }
+};
+
+const todoLines = (task: TodoItem, stamp: string, parentUid?: string): string[] => {
+  const uid = task.icalUid || task.id;
+  const timeZone = deviceTimeZone();
+  const lines = ['BEGIN:VTODO', `UID:${uid}`, `DTSTAMP:${stamp}`, `SUMMARY:${escapeText(task.text)}`];
+
+  if (task.createdAt) lines.push(`CREATED:${formatICalDate(new Date(task.createdAt), 'utc')}`);
+  if (task.modifiedAt) lines.push(`LAST-MODIFIED:${formatICalDate(new Date(task.modifiedAt), 'utc')}`);
+  if (task.description) lines.push(`DESCRIPTION:${escapeText(task.description)}`);
+  if (task.location) lines.push(`LOCATION:${escapeText(task.location)}`);
+  if (task.tags?.length) lines.push(`CATEGORIES:${task.tags.map(escapeText).join(',')}`);
+  const priority = priorityValue(task.priority);
+  if (priority) lines.push(`PRIORITY:${priority}`);
+  if (parentUid) lines.push(`RELATED-TO;RELTYPE=PARENT:${parentUid}`);
+
+  if (task.completed) {
+    lines.push('STATUS:COMPLETED', 'PERCENT-COMPLETE:100');
+    lines.push(`COMPLETED:${formatICalDate(new Date(task.completedAt || task.modifiedAt || Date.now()), 'utc')}`);
+  } else if (task.status === 'in_progress' || task.status === 'almost_done') {
+    lines.push('STATUS:IN-PROCESS');
+    if (task.status === 'almost_done') lines.push('PERCENT-COMPLETE:75');
+  } else {
+    lines.push('STATUS:NEEDS-ACTION');
+  }
+
+  if (task.dueDate) {
+    const due = new Date(task.dueDate);
+    const dateOnly = isMidnight(due);
+    lines.push(dateLine('DUE', due, dateOnly, timeZone));
+    const spec = getTaskRecurrence(task);
+    if (spec) {
+      // RFC 5545 requires DTSTART on a repeating VTODO
+      lines.push(dateLine('DTSTART', due, dateOnly, timeZone));
+      try {
+        const recurrence: Recurrence = {
+          rule: parseRRule(spec.rrule),
+          dtstart: spec.dtstart ? new Date(spec.dtstart) : undefined,
+          exdates: spec.exdates?.map(d => new Date(d)),
+        };
+        lines.push(...recurrenceLines(recurrence, due, dateOnly, timeZone));
+      } catch (error) {
+        console.warn('Skipping invalid task recurrence:', spec.rrule, error);
+      }
+    }
+  }
+
+  if (task.reminderTime) {
+    lines.push(
+      'BEGIN:VALARM',
+      'ACTION:DISPLAY',
+      `DESCRIPTION:${escapeText(task.text)}`,
+      `TRIGGER;VALUE=DATE-TIME:${formatICalDate(new Date(task.reminderTime), 'utc')}`,
+      'END:VALARM'
+    );
+  }
+
+  lines.push('END:VTODO');
+  task.subtasks?.forEach(subtask => lines.push(...todoLines(subtask, stamp, uid)));
+  return lines;
+};
+
+const eventLines = (event: CalendarEvent, stamp: string): string[] => {
+  const start = new Date(event.startDate);
+  const end = new Date(event.endDate);
+  const timeZone = isValidTimeZone(event.timezone) ? event.timezone : deviceTimeZone();
+  const lines = ['BEGIN:VEVENT', `UID:${event.icalUid || event.id}`, `DTSTAMP:${stamp}`, `SUMMARY:${escapeText(event.title)}`];
+
+  if (event.createdAt) lines.push(`CREATED:${formatICalDate(new Date(event.createdAt), 'utc')}`);
+  if (event.updatedAt) lines.push(`LAST-MODIFIED:${formatICalDate(new Date(event.updatedAt), 'utc')}`);
+  if (event.description) lines.push(`DESCRIPTION:${escapeText(event.description)}`);
+  if (event.location) lines.push(`LOCATION:${escapeText(event.location)}`);
+
+  if (event.allDay) {
+    lines.push(dateLine('DTSTART', start, true));
+    // DTEND is exclusive for all-day events
+    const lastDay = end > start ? end : start;
+    lines.push(dateLine('DTEND', new Date(lastDay.getFullYear(), lastDay.getMonth(), lastDay.getDate() + 1), true));
+  } else {
+    lines.push(dateLine('DTSTART', start, false, timeZone));
+    lines.push(dateLine('DTEND', end > start ? end : start, false, timeZone));
+  }
+
+  const recurrence = getEventRecurrence(event);
+  if (recurrence) lines.push(...recurrenceLines(recurrence, start, event.allDay, event.allDay ? undefined : timeZone));
+
+  const minutes = REMINDER_MINUTES[event.reminder];
+  if (minutes !== undefined) {
+    lines.push(
+      'BEGIN:VALARM',
+      'ACTION:DISPLAY',
+      `DESCRIPTION:${escapeText(event.title)}`,
+      `TRIGGER:${minutes === 0 ? 'PT0S' : minutes % 1440 === 0 ? `-P${minutes / 1440}D` : `-PT${minutes}M`}`,
+      'END:VALARM'
+    );
+  }
+
+  lines.push('END:VEVENT');
+  return lines;
+};
+
+// Build an .ics file with a VTODO per task (and subtask) and a VEVENT per event
+export const exportICalendar = (tasks: TodoItem[], events: CalendarEvent[]): string => {
+  const stamp = formatICalDate(new Date(), 'utc');
+  const lines = [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    `PRODID:${PRODID}`,
+    'CALSCALE:GREGORIAN',
+    ...tasks.flatMap(task => todoLines(task, stamp)),
+    ...events.flatMap(event => eventLines(event, stamp)),
+    'END:VCALENDAR',
+  ];
+  return lines.map(foldLine).join('\r\n') + '\r\n';
+};
+
+// ============ Storage ============
+
+const collectTaskUids = (tasks: TodoItem[], uids: Set<string>) => {
+  tasks.forEach(task => {
+    uids.add(task.icalUid || task.id);
+    if (task.subtasks) collectTaskUids(task.subtasks, uids);
+  });
+};
+
+/**
+ * Add the tasks and events of an .ics file to the app. Items whose UID
+ * matches an existing task or event (including ones exported from here) are
+ * counted as duplicates and left alone.
+ */
+export const importICalendar = async (text: string): Promise<ICalendarImportResult> => {
+  const parsed = parseICalendar(text);
+  const existingTasks = await loadTasksFromDB();
+  const existingEvents = await getSetting<CalendarEvent[]>('calendarEvents', []);
+
+  const uids = new Set<string>();
+  collectTaskUids(existingTasks, uids);
+  existingEvents.forEach(event => uids.add(event.icalUid || event.id));
+
+  const newTasks = parsed.tasks.filter(task => !uids.has(task.icalUid!));
+  const newEvents = parsed.events.filter(event => !uids.has(event.icalUid!));
+  const duplicates = parsed.tasks.length - newTasks.length + parsed.events.length - newEvents.length;
+
+  if (newTasks.length > 0) {
+    await saveTasksToDB([...newTasks, ...existingTasks]);
+  }
+  if (newEvents.length > 0) {
+    await setSetting('calendarEvents', [...existingEvents, ...newEvents]);
+  }
+  if (newTasks.length > 0 || newEvents.length > 0) {
+    window.dispatchEvent(new Event('tasksUpdated'));
+  }
+
+  return { tasks: newTasks.length, events: newEvents.length, duplicates, skipped: parsed.skipped };
+};
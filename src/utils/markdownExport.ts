@@ -1,140 +1,163 @@
-import { Note } from '@/types/note';
-
-// Convert HTML to Markdown
-const htmlToMarkdown = (html: string): string => {
-  let markdown = html;
-  
-  // Handle tables first
-  markdown = markdown.replace(/<table[^>]*>([\s\S]*?)<\/table>/gi, (match, tableContent) => {
-    const rows: string[][] = [];
-    const rowMatches = tableContent.match(/<tr[^>]*>([\s\S]*?)<\/tr>/gi) || [];
-    
-    rowMatches.forEach((row: string) => {
-      const cells: string[] = [];
-      const cellMatches = row.match(/<t[hd][^>]*>([\s\S]*?)<\/t[hd]>/gi) || [];
-      cellMatches.forEach((cell: string) => {
-        const content = cell.replace(/<t[hd][^>]*>|<\/t[hd]>/gi, '').replace(/<[^>]*>/g, '').trim();
-        cells.push(content);
-      });
-      if (cells.length > 0) rows.push(cells);
-    });
-    
-    if (rows.length === 0) return '';
-    
-    const maxCols = Math.max(...rows.map(r => r.length));
-    let table = '\n';
-    
-    rows.forEach((row, idx) => {
-      const paddedRow = [...row, ...Array(maxCols - row.length).fill('')];
-      table += '| ' + paddedRow.join(' | ') + ' |\n';
-      if (idx === 0) {
-        table += '| ' + Array(maxCols).fill('---').join(' | ') + ' |\n';
-      }
-    });
-    
-    return table + '\n';
-  });
-  
-  // Headers
-  markdown = markdown.replace(/<h1[^>]*>(.*?)<\/h1>/gi, '# $1\n\n');
-  markdown = markdown.replace(/<h2[^>]*>(.*?)<\/h2>/gi, '## $1\n\n');
-  markdown = markdown.replace(/<h3[^>]*>(.*?)<\/h3>/gi, '### $1\n\n');
-  markdown = markdown.replace(/<h4[^>]*>(.*?)<\/h4>/gi, '#### $1\n\n');
-  
-  // Bold and italic
-  markdown = markdown.replace(/<strong[^>]*>(.*?)<\/strong>/gi, '**$1**');
-  markdown = markdown.replace(/<b[^>]*>(.*?)<\/b>/gi, '**$1**');
-  markdown = markdown.replace(/<em[^>]*>(.*?)<\/em>/gi, '*$1*');
-  markdown = markdown.replace(/<i[^>]*>(.*?)<\/i>/gi, '*$1*');
-  markdown = markdown.replace(/<u[^>]*>(.*?)<\/u>/gi, '_$1_');
-  
-  // Links
-  markdown = markdown.replace(/<a[^>]*href="([^"]*)"[^>]*>(.*?)<\/a>/gi, '[$2]($1)');
-  
-  // Note links [[note title]]
-  markdown = markdown.replace(/<a[^>]*class="note-link"[^>]*data-note-id="[^"]*"[^>]*>📝\s*(.*?)<\/a>/gi, '[[$1]]');
-  
-  // Images
-  markdown = markdown.replace(/<img[^>]*src="([^"]*)"[^>]*alt="([^"]*)"[^>]*>/gi, '![$2]($1)');
-  markdown = markdown.replace(/<img[^>]*src="([^"]*)"[^>]*>/gi, '![]($1)');
-  
-  // Lists
-  markdown = markdown.replace(/<ul[^>]*>([\s\S]*?)<\/ul>/gi, (match, content) => {
-    return content.replace(/<li[^>]*>(.*?)<\/li>/gi, '- $1\n') + '\n';
-  });
-  markdown = markdown.replace(/<ol[^>]*>([\s\S]*?)<\/ol>/gi, (match, content) => {
-    let index = 1;
-    return content.replace(/<li[^>]*>(.*?)<\/li>/gi, () => `${index++}. $1\n`) + '\n';
-  });
-  
-  // Line breaks and paragraphs
-  markdown = markdown.replace(/<br\s*\/?>/gi, '\n');
-  markdown = markdown.replace(/<p[^>]*>(.*?)<\/p>/gi, '$1\n\n');
-  markdown = markdown.replace(/<div[^>]*>(.*?)<\/div>/gi, '$1\n');
-  
-  // Code blocks
-  markdown = markdown.replace(/<pre[^>]*><code[^>]*>([\s\S]*?)<\/code><\/pre>/gi, '```\n$1\n```\n');
-  markdown = markdown.replace(/<code[^>]*>(.*?)<\/code>/gi, '`$1`');
-  
-  // Blockquotes
-  markdown = markdown.replace(/<blockquote[^>]*>([\s\S]*?)<\/blockquote>/gi, (match, content) => {
-    return content.split('\n').map((line: string) => `> ${line}`).join('\n') + '\n';
-  });
-  
-  // Strip remaining HTML tags
-  markdown = markdown.replace(/<[^>]*>/g, '');
-  
-  // Decode HTML entities
-  markdown = markdown.replace(/&nbsp;/g, ' ');
-  markdown = markdown.replace(/&amp;/g, '&');
-  markdown = markdown.replace(/&lt;/g, '<');
-  markdown = markdown.replace(/&gt;/g, '>');
-  markdown = markdown.replace(/&quot;/g, '"');
-  
-  // Clean up extra whitespace
-  markdown = markdown.replace(/\n{3,}/g, '\n\n');
-  markdown = markdown.trim();
-  
-  return markdown;
+/**
+ * Markdown Export - single notes and a zipped Markdown vault
+ *
+ * Each note becomes a .md file with YAML front-matter (title, tags, pinned,
+ * dates, ...) and a body converted by htmlToMarkdown. The vault keeps the
+ * folder structure and writes images and attached files to attachments/,
+ * so it opens in other Markdown editors and imports back with
+ * markdownImport.ts.
+ */
+
+import { saveAs } from 'file-saver';
+import { Folder, Note } from '@/types/note';
+import { dataUrlToBytes } from './dataUrl';
+import { htmlToMarkdown, HtmlToMarkdownOptions } from './htmlToMarkdown';
+import { isEncrypted } from './noteEncryption';
+import { parseTaskMediaRef, resolveTaskMediaUrl } from './taskMediaStorage';
+import { ZipEntry, textZipEntry, writeZip } from './zipArchive';
+
+export const ATTACHMENTS_DIR = 'attachments';
+
+// Note types whose content is text the vault can hold
+const EXPORTABLE_TYPES = new Set<Note['type']>(['regular', 'sticky', 'lined', 'code']);
+
+const EXTENSIONS: Record<string, string> = {
+  'image/png': 'png',
+  'image/jpeg': 'jpg',
+  'image/gif': 'gif',
+  'image/webp': 'webp',
+  'image/svg+xml': 'svg',
+  'application/pdf': 'pdf',
+  'text/plain': 'txt',
 };
 
-export const exportNoteToMarkdown = (note: Note): void => {
-  let content = '';
-  
-  // Add title
-  if (note.title) {
-    content += `# ${note.title}\n\n`;
-  }
-  
-  // Add metadata
-  content += `---\n`;
-  content += `Created: ${new Date(note.createdAt).toISOString()}\n`;
-  content += `Updated: ${new Date(note.updatedAt).toISOString()}\n`;
-  content += `Type: ${note.type}\n`;
-  if (note.folderId) {
-    content += `Folder: ${note.folderId}\n`;
-  }
-  content += `---\n\n`;
-  
-  // Add main content
-  if (note.type === 'code' && note.codeContent) {
-    content += `\`\`\`${note.codeLanguage || ''}\n${note.codeContent}\n\`\`\`\n`;
+// Double-quoted YAML strings share JSON's escaping
+const yamlString = (value: string) => JSON.stringify(value);
+
+const frontMatter = (note: Note): string => {
+  const lines = [`title: ${yamlString(note.title || 'Untitled')}`];
+  if (note.type !== 'regular') lines.push(`type: ${note.type}`);
+  if (note.type === 'code' && note.codeLanguage) lines.push(`language: ${yamlString(note.codeLanguage)}`);
+  if (note.tags?.length) lines.push(`tags: [${note.tags.map(yamlString).join(', ')}]`);
+  if (note.isPinned) lines.push('pinned: true');
+  if (note.isFavorite) lines.push('favorite: true');
+  if (note.isArchived) lines.push('archived: true');
+  if (note.color) lines.push(`color: ${note.color}`);
+  lines.push(`created: ${new Date(note.createdAt).toISOString()}`);
+  lines.push(`updated: ${new Date(note.updatedAt).toISOString()}`);
+  return `---\n${lines.join('\n')}\n---\n\n`;
+};
+
+// Front-matter and body of a note as Markdown
+export const noteToMarkdown = (note: Note, options: HtmlToMarkdownOptions = {}): string => {
+  let body = '';
+  if (note.type === 'code') {
+    const code = note.codeContent || '';
+    const longest = Math.max(2, ...(code.match(/^`{3,}/gm) || []).map(run => run.length));
+    const fence = '`'.repeat(longest + 1);
+    body = `${fence}${note.codeLanguage || ''}\n${code}\n${fence}`;
   } else if (note.content) {
-    content += htmlToMarkdown(note.content);
+    body = htmlToMarkdown(note.content, options);
   }
-  
-  // Create and download file
-  const blob = new Blob([content], { type: 'text/markdown;charset=utf-8' });
-  const url = URL.createObjectURL(blob);
-  const link = document.createElement('a');
-  link.href = url;
-  link.download = `${note.title || 'untitled'}.md`;
-  document.body.appendChild(link);
-  link.click();
-  document.body.removeChild(link);
-  URL.revokeObjectURL(url);
+  return `${frontMatter(note)}${body}\n`;
+};
+
+// Characters other apps and file systems do not accept in names
+export const safeFileName = (name: string): string =>
+  name.replace(/[\\/:*?"<>|#^[\]]/g, '-').replace(/\s+/g, ' ').trim().slice(0, 120) || 'Untitled';
+
+const uniqueName = (used: Set<string>, base: string, extension: string): string => {
+  let name = `${base}${extension}`;
+  for (let i = 2; used.has(name.toLowerCase()); i++) name = `${base} (${i})${extension}`;
+  used.add(name.toLowerCase());
+  return name;
+};
+
+// Download one note as a .md file; images stay embedded as data URLs
+export const exportNoteToMarkdown = (note: Note): void => {
+  const blob = new Blob([noteToMarkdown(note)], { type: 'text/markdown;charset=utf-8' });
+  saveAs(blob, `${safeFileName(note.title || 'untitled')}.md`);
+};
+
+export interface VaultExportResult {
+  exported: number;
+  skipped: number; // Deleted, locked, or of a type with no Markdown form
+}
+
+/**
+ * Build a zip of Markdown files, one folder per note folder, with images
+ * and attached files written to attachments/.
+ */
+export const createMarkdownVault = async (
+  notes: Note[],
+  folders: Folder[]
+): Promise<{ data: Uint8Array } & VaultExportResult> => {
+  const folderNames = new Map(folders.map(folder => [folder.id, safeFileName(folder.name)]));
+  const entries: ZipEntry[] = [];
+  const usedNames = new Map<string, Set<string>>();
+  const usedAttachments = new Set<string>();
+  let skipped = 0;
+
+  const addAttachment = (bytes: { mime: string; data: Uint8Array }, name: string): string => {
+    const base = safeFileName(name.replace(/\.[^.]+$/, ''));
+    const extension = /\.[^.]+$/.exec(name)?.[0] || `.${EXTENSIONS[bytes.mime] || 'bin'}`;
+    const fileName = uniqueName(usedAttachments, base, extension);
+    entries.push({ name: `${ATTACHMENTS_DIR}/${fileName}`, data: bytes.data });
+    return fileName;
+  };
+
+  for (const note of notes) {
+    const locked = note.isProtected || isEncrypted(note.content) || isEncrypted(note.codeContent);
+    if (note.isDeleted || locked || !EXPORTABLE_TYPES.has(note.type)) {
+      skipped++;
+      continue;
+    }
+    const dir = note.folderId ? folderNames.get(note.folderId) : undefined;
+    const prefix = dir ? '../' : '';
+    const title = safeFileName(note.title || 'Untitled');
+    let imageCount = 0;
+    const pending: { ref: string; name: string; placeholder: string }[] = [];
+
+    const toFile = (src: string, name: string): string => {
+      const bytes = src.startsWith('data:') ? dataUrlToBytes(src) : null;
+      if (bytes) return `${prefix}${ATTACHMENTS_DIR}/${addAttachment(bytes, name)}`;
+      if (parseTaskMediaRef(src)) {
+        // Media refs are read from storage once the note is converted
+        const placeholder = `\uE000${pending.length}\uE000`;
+        pending.push({ ref: src, name, placeholder });
+        return placeholder;
+      }
+      return src;
+    };
+
+    let markdown = noteToMarkdown(note, {
+      resolveImage: (src, alt) => toFile(src, alt || `${title} ${++imageCount}`),
+      resolveFile: (href, name) => toFile(href, name),
+    });
+
+    // Images attached to the note rather than placed in its text
+    const attached = (note.images || []).map(ref => `![](${toFile(ref, `${title} ${++imageCount}`).replace(/ /g, '%20')})`);
+    if (attached.length > 0) markdown = `${markdown.trimEnd()}\n\n${attached.join('\n')}\n`;
+
+    for (const item of pending) {
+      const bytes = dataUrlToBytes(await resolveTaskMediaUrl(item.ref));
+      const path = bytes ? `${prefix}${ATTACHMENTS_DIR}/${addAttachment(bytes, item.name)}` : '';
+      markdown = markdown.split(item.placeholder).join(path.replace(/ /g, '%20'));
+    }
+
+    const used = usedNames.get(dir || '') ?? new Set<string>();
+    usedNames.set(dir || '', used);
+    const fileName = uniqueName(used, title, '.md');
+    entries.push(textZipEntry(dir ? `${dir}/${fileName}` : fileName, markdown));
+  }
+
+  const exported = notes.length - skipped;
+  return { data: await writeZip(entries), exported, skipped };
 };
 
-export const exportAllNotesToMarkdown = (notes: Note[]): void => {
-  notes.forEach(note => exportNoteToMarkdown(note));
+// Download all notes as one zipped Markdown vault
+export const exportAllNotesToMarkdown = async (notes: Note[], folders: Folder[] = []): Promise<VaultExportResult> => {
+  const { data, exported, skipped } = await createMarkdownVault(notes, folders);
+  saveAs(new Blob([data], { type: 'application/zip' }), `npd-notes-${Date.now()}.zip`);
+  return { exported, skipped };
 };
@@ -0,0 +1,197 @@
+/**
+ * Markdown Import - reads .md files or a zipped Markdown vault
+ *
+ * The counterpart of markdownExport.ts, and close enough to what Obsidian
+ * and similar apps write: YAML front-matter sets the title, tags, pinned
+ * state and dates, top-level directories become note folders, local images
+ * and files are embedded, and links to other .md files become [[note links]].
+ */
+
+import { Note, NoteType, StickyColor } from '@/types/note';
+import { markdownToHtml } from './markdownToHtml';
+import { bytesToDataUrl } from './dataUrl';
+import {
+  ImportFile,
+  ImportFileError,
+  ImportPreview,
+  createImportPreview,
+  getOrAddFolder,
+  importFileBaseName,
+  importFileText,
+  importId,
+  mimeTypeForFile,
+  parseImportDate,
+} from './externalImport';
+
+type FrontMatterValue = string | boolean | string[];
+
+const MARKDOWN_FILE = /\.(md|markdown)$/i;
+const IMPORTED_TYPES = new Set<NoteType>(['regular', 'sticky', 'lined', 'code']);
+const STICKY_COLORS: StickyColor[] = ['yellow', 'blue', 'green', 'pink', 'orange'];
+
+const decodePath = (href: string): string => {
+  try {
+    return decodeURIComponent(href);
+  } catch {
+    return href;
+  }
+};
+
+// Resolve "./a/../b" style segments of a relative path
+const joinPath = (dir: string, relative: string): string => {
+  const parts = dir ? dir.split('/') : [];
+  relative.split('/').forEach(segment => {
+    if (segment === '..') parts.pop();
+    else if (segment && segment !== '.') parts.push(segment);
+  });
+  return parts.join('/');
+};
+
+const unquote = (value: string): string => {
+  if (value.startsWith('"') && value.endsWith('"') && value.length > 1) {
+    try {
+      return JSON.parse(value) as string;
+    } catch {
+      return value.slice(1, -1);
+    }
+  }
+  if (value.startsWith("'") && value.endsWith("'") && value.length > 1) {
+    return value.slice(1, -1).replace(/''/g, "'");
+  }
+  return value;
+};
+
+const scalar = (raw: string): string | boolean => {
+  const value = raw.replace(/\s+#.*$/, '').trim();
+  if (/^(true|yes)$/i.test(value)) return true;
+  if (/^(false|no)$/i.test(value)) return false;
+  return unquote(value);
+};
+
+/**
+ * The simple subset of YAML front-matter note apps write: `key: value`
+ * lines, quoted strings, and lists either inline (`[a, b]`) or as `- item`
+ * lines. Anything else is ignored.
+ */
+const parseFrontMatter = (markdown: string): { data: Record<string, FrontMatterValue>; body: string } => {
+  const match = /^\uFEFF?---\r?\n([\s\S]*?)\r?\n---[ \t]*(?:\r?\n|$)/.exec(markdown);
+  if (!match) return { data: {}, body: markdown };
+
+  const data: Record<string, FrontMatterValue> = {};
+  let listKey: string | null = null;
+  match[1].split(/\r?\n/).forEach(line => {
+    const item = /^\s+-\s+(.*)$|^-\s+(.*)$/.exec(line);
+    if (item && listKey) {
+      const list = data[listKey];
+      data[listKey] = [...(Array.isArray(list) ? list : []), unquote((item[1] ?? item[2]).trim())];
+      return;
+    }
+    const pair = /^([\w-]+):\s*(.*)$/.exec(line);
+    if (!pair) return;
+    const [, key, value] = pair;
+    listKey = value.trim() === '' ? key.toLowerCase() : null;
+    if (listKey) return;
+    const inline = /^\[(.*)\]$/.exec(value.trim());
+    data[key.toLowerCase()] = inline
+      ? inline[1].split(',').map(part => unquote(part.trim())).filter(Boolean)
+      : scalar(value);
+  });
+  return { data, body: markdown.slice(match[0].length) };
+};
+
+const asString = (value?: FrontMatterValue): string | undefined =>
+  typeof value === 'string' && value ? value : undefined;
+
+const asTags = (value?: FrontMatterValue): string[] | undefined => {
+  const tags = (Array.isArray(value) ? value : typeof value === 'string' ? value.split(/[,\s]+/) : [])
+    .map(tag => tag.replace(/^#/, '').trim())
+    .filter(Boolean);
+  return tags.length ? tags : undefined;
+};
+
+// A fenced code block and nothing else, as code notes are exported
+const codeNoteBody = (body: string): { language?: string; code: string } | null => {
+  const match = /^\s*(`{3,})([\w+#.-]*)\n([\s\S]*?)\n\1\s*$/.exec(body);
+  return match ? { language: match[2] || undefined, code: match[3] } : null;
+};
+
+export const parseMarkdownExport = (files: ImportFile[]): ImportPreview => {
+  const preview = createImportPreview('markdown');
+  const byPath = new Map(files.map(file => [file.name, file]));
+  const markdownFiles = files.filter(file =>
+    MARKDOWN_FILE.test(file.name) && !file.name.split('/').some(part => part.startsWith('.'))
+  );
+  if (markdownFiles.length === 0) throw new ImportFileError('No Markdown files found');
+
+  // Zips of a single folder wrap the whole vault; its subfolders become note folders
+  const root = files.every(file => file.name.includes('/')) &&
+    new Set(files.map(file => file.name.split('/')[0])).size === 1
+    ? `${files[0].name.split('/')[0]}/`
+    : '';
+
+  // Titles of every note, for turning links between files into note links
+  const parsed = markdownFiles.map(file => {
+    const { data, body } = parseFrontMatter(importFileText(file));
+    return { file, data, body, title: asString(data.title) || importFileBaseName(file.name) };
+  });
+  const titleOf = new Map(parsed.map(entry => [entry.file.name, entry.title]));
+
+  parsed.forEach(({ file, data, body, title }) => {
+    const dir = file.name.split('/').slice(0, -1).join('/');
+
+    const embed = (href: string): string | null => {
+      const path = joinPath(dir, decodePath(href));
+      const target = byPath.get(path);
+      if (!target) {
+        preview.errors.push(`${title}: "${path}" not found`);
+        return null;
+      }
+      const mime = mimeTypeForFile(path) || (path.toLowerCase().endsWith('.pdf') ? 'application/pdf' : 'application/octet-stream');
+      return bytesToDataUrl(target.data, mime);
+    };
+
+    // Links to other Markdown files become note links; links to other local files embed them
+    const linked = body.replace(/(?<!!)\[([^\]]*)\]\(([^)\s]+)\)/g, (link, text: string, href: string) => {
+      if (/^([a-z][\w+.-]*:|#)/i.test(href)) return link;
+      if (MARKDOWN_FILE.test(href)) {
+        const target = titleOf.get(joinPath(dir, decodePath(href)));
+        return target ? `[[${target}]]` : text;
+      }
+      const dataUrl = embed(href);
+      return dataUrl ? `[${text}](${dataUrl})` : text;
+    });
+
+    const type = IMPORTED_TYPES.has(data.type as NoteType) ? (data.type as NoteType) : 'regular';
+    const code = type === 'code' ? codeNoteBody(body) : null;
+    const content = code
+      ? ''
+      : markdownToHtml(linked, {
+          resolveImage: (src) => (/^[a-z][\w+.-]*:/i.test(src) ? src : embed(src)),
+        });
+
+    const relativeDir = root && dir.startsWith(root.slice(0, -1)) ? dir.slice(root.length) : dir;
+    const topFolder = relativeDir.split('/')[0];
+    const created = parseImportDate(asString(data.created) || asString(data.date));
+    const updated = parseImportDate(asString(data.updated) || asString(data.modified));
+    const note: Note = {
+      id: importId('md'),
+      type: code ? 'code' : type === 'code' ? 'regular' : type,
+      title,
+      content,
+      codeContent: code?.code,
+      codeLanguage: code ? asString(data.language) || code.language : undefined,
+      color: STICKY_COLORS.includes(data.color as StickyColor) ? (data.color as StickyColor) : undefined,
+      tags: asTags(data.tags),
+      isPinned: data.pinned === true || undefined,
+      isFavorite: data.favorite === true || undefined,
+      isArchived: data.archived === true || undefined,
+      voiceRecordings: [],
+      folderId: topFolder ? getOrAddFolder(preview.noteFolders, topFolder).id : undefined,
+      createdAt: created || updated || new Date(),
+      updatedAt: updated || created || new Date(),
+    };
+    preview.notes.push(note);
+  });
+
+  return preview;
+};
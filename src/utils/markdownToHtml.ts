@@ -0,0 +1,267 @@
+/**
+ * Markdown to HTML - converts Markdown into the HTML stored in note content
+ *
+ * Covers CommonMark blocks (headings, paragraphs, nested lists, block
+ * quotes, fenced and indented code, rules) plus GitHub tables, task list
+ * items and strikethrough. Task items become list items with a
+ * data-checked attribute and a ☐/☑ marker, since the editor has no
+ * checkbox element.
+ */
+
+import { escapeHtml } from '@/lib/sanitize';
+
+export interface MarkdownToHtmlOptions {
+  // Rewrite or drop (return null) an image source, e.g. to resolve files from an export
+  resolveImage?: (src: string, alt: string) => string | null;
+}
+
+const unescapeHtml = (text: string): string =>
+  text.replace(/&quot;/g, '"').replace(/&gt;/g, '>').replace(/&lt;/g, '<').replace(/&amp;/g, '&');
+
+const LIST_ITEM = /^( *)([-*+]|\d{1,9}[.)])( +|$)(.*)$/;
+const FENCE = /^( {0,3})(`{3,}|~{3,})\s*([^`\s]*)/;
+const HEADING = /^ {0,3}(#{1,6})(?:\s+(.*?))?(?:\s+#+)?\s*$/;
+const RULE = /^ {0,3}([-*_])(?:\s*\1){2,}\s*$/;
+const TABLE_DIVIDER = /^\s*\|?\s*:?-+:?\s*(\|\s*:?-+:?\s*)*\|?\s*$/;
+
+// ============ Inline ============
+
+const renderInline = (text: string, options: MarkdownToHtmlOptions): string => {
+  const codeSpans: string[] = [];
+  // Pull code spans out first so their content is not formatted
+  let html = text.replace(/(`+)([\s\S]*?[^`])\1(?!`)/g, (_, __, code: string) => {
+    codeSpans.push(`<code>${escapeHtml(code.trim())}</code>`);
+    return `\uE000${codeSpans.length - 1}\uE000`;
+  });
+
+  html = escapeHtml(html);
+
+  html = html.replace(/!\[([^\]]*)\]\(\s*([^)\s]+)(?:\s+&quot;[^)]*&quot;)?\s*\)/g, (_, alt: string, src: string) => {
+    const raw = unescapeHtml(src);
+    const resolved = options.resolveImage ? options.resolveImage(raw, unescapeHtml(alt)) : raw;
+    return resolved === null ? '' : `<img src="${escapeHtml(resolved)}" alt="${alt}">`;
+  });
+  html = html.replace(/\[([^\]]+)\]\(\s*([^)\s]+)(?:\s+&quot;[^)]*&quot;)?\s*\)/g, '<a href="$2">$1</a>');
+  html = html.replace(/&lt;((?:https?|mailto):[^\s&]+)&gt;/g, '<a href="$1">$1</a>');
+
+  html = html.replace(/(\*\*|__)(?=\S)([\s\S]*?\S)\1/g, '<strong>$2</strong>');
+  html = html.replace(/(^|[^\w*])\*(?=\S)([\s\S]*?\S)\*(?!\*)/g, '$1<em>$2</em>');
+  html = html.replace(/(^|[^\w_])_(?=\S)([\s\S]*?\S)_(?!\w)/g, '$1<em>$2</em>');
+  html = html.replace(/~~(?=\S)([\s\S]*?\S)~~/g, '<s>$1</s>');
+  html = html.replace(/==(?=\S)([\s\S]*?\S)==/g, '<mark>$1</mark>');
+  // Underline has no Markdown syntax; <u> is the one tag let through
+  html = html.replace(/&lt;(\/?)u&gt;/g, '<$1u>');
+  // Hard line breaks: two trailing spaces or a backslash
+  html = html.replace(/(?: {2,}|\\)\n/g, '<br>');
+  html = html.replace(/\\([\\`*_{}[\]()#+\-.!|~=]|&gt;)/g, '$1');
+
+  return html.replace(/\uE000(\d+)\uE000/g, (_, i: string) => codeSpans[Number(i)]);
+};
+
+// ============ Blocks ============
+
+const isBlank = (line: string) => line.trim() === '';
+
+const startsBlock = (line: string) =>
+  FENCE.test(line) || HEADING.test(line) || RULE.test(line) || /^ {0,3}>/.test(line) || LIST_ITEM.test(line);
+
+const splitTableRow = (line: string): string[] => {
+  const trimmed = line.trim().replace(/^\|/, '').replace(/(?<!\\)\|$/, '');
+  return trimmed.split(/(?<!\\)\|/).map(cell => cell.trim().replace(/\\\|/g, '|'));
+};
+
+const renderTable = (lines: string[], options: MarkdownToHtmlOptions): string => {
+  const header = splitTableRow(lines[0]);
+  const aligns = splitTableRow(lines[1]).map(cell =>
+    cell.startsWith(':') && cell.endsWith(':') ? 'center' : cell.endsWith(':') ? 'right' : cell.startsWith(':') ? 'left' : ''
+  );
+  const cell = (tag: string, text: string, i: number) =>
+    `<${tag}${aligns[i] ? ` style="text-align: ${aligns[i]}"` : ''}>${renderInline(text, options)}</${tag}>`;
+  const body = lines.slice(2).map(line => {
+    const cells = splitTableRow(line);
+    return `<tr>${header.map((_, i) => cell('td', cells[i] ?? '', i)).join('')}</tr>`;
+  });
+  return `<table><thead><tr>${header.map((h, i) => cell('th', h, i)).join('')}</tr></thead>` +
+    `<tbody>${body.join('')}</tbody></table>`;
+};
+
+// Bullet character or ordered delimiter; a change starts a new list
+const listMarkerKind = (marker: string) => marker.replace(/\d+/, '1');
+
+const renderList = (lines: string[], start: number, options: MarkdownToHtmlOptions): { html: string; next: number } => {
+  const first = LIST_ITEM.exec(lines[start])!;
+  const indent = first[1].length;
+  const kind = listMarkerKind(first[2]);
+  const ordered = /\d/.test(first[2]);
+  const startNumber = ordered ? parseInt(first[2], 10) : 1;
+  const items: { lines: string[]; checked?: boolean }[] = [];
+  let loose = false;
+  let i = start;
+
+  while (i < lines.length) {
+    const match = LIST_ITEM.exec(lines[i]);
+    if (!match || match[1].length !== indent || listMarkerKind(match[2]) !== kind) break;
+    const contentIndent = indent + match[2].length + Math.max(1, Math.min(match[3].length, 4));
+    let text = match[4];
+    let checked: boolean | undefined;
+    const task = /^\[([ xX])\]\s+/.exec(text);
+    if (task) {
+      checked = task[1] !== ' ';
+      text = text.slice(task[0].length);
+    }
+    const itemLines = [text];
+    i++;
+
+    while (i < lines.length) {
+      const line = lines[i];
+      if (isBlank(line)) {
+        // A blank line continues the item only if indented content follows
+        let j = i;
+        while (j < lines.length && isBlank(lines[j])) j++;
+        if (j < lines.length && lines[j].search(/\S/) >= contentIndent) {
+          for (; i < j; i++) itemLines.push('');
+          loose = true;
+          continue;
+        }
+        break;
+      }
+      const lineIndent = line.search(/\S/);
+      if (lineIndent >= contentIndent) {
+        itemLines.push(line.slice(contentIndent));
+      } else if (!startsBlock(line) && !isBlank(itemLines[itemLines.length - 1])) {
+        itemLines.push(line.trim()); // Lazy continuation of the paragraph
+      } else {
+        break;
+      }
+      i++;
+    }
+    items.push({ lines: itemLines, checked });
+
+    // Blank lines between items make the list loose
+    let j = i;
+    while (j < lines.length && isBlank(lines[j])) j++;
+    const nextItem = j < lines.length ? LIST_ITEM.exec(lines[j]) : null;
+    if (j > i && nextItem && nextItem[1].length === indent && listMarkerKind(nextItem[2]) === kind) {
+      loose = true;
+      i = j;
+    }
+  }
+
+  const tag = ordered ? 'ol' : 'ul';
+  const startAttr = ordered && startNumber !== 1 ? ` start="${startNumber}"` : '';
+  const isChecklist = items.some(item => item.checked !== undefined);
+  const body = items.map(item => {
+    let inner = renderBlocks(item.lines, options);
+    if (!loose) inner = inner.replace(/^<p>([\s\S]*?)<\/p>/, '$1').replace(/<p>([\s\S]*?)<\/p>$/, '$1');
+    if (item.checked === undefined) return `<li>${inner}</li>`;
+    return `<li data-checked="${item.checked}">${item.checked ? '☑' : '☐'} ${inner}</li>`;
+  });
+  return {
+    html: `<${tag}${startAttr}${isChecklist ? ' data-type="checklist"' : ''}>${body.join('')}</${tag}>`,
+    next: i,
+  };
+};
+
+const renderBlocks = (lines: string[], options: MarkdownToHtmlOptions): string => {
+  const out: string[] = [];
+  let i = 0;
+
+  while (i < lines.length) {
+    const line = lines[i];
+    if (isBlank(line)) {
+      i++;
+      continue;
+    }
+
+    const fence = FENCE.exec(line);
+    if (fence) {
+      const marker = fence[2];
+      const code: string[] = [];
+      i++;
+      while (i < lines.length && !new RegExp(`^ {0,3}${marker[0]}{${marker.length},}\\s*$`).test(lines[i])) {
+        code.push(lines[i].replace(new RegExp(`^ {0,${fence[1].length}}`), ''));
+        i++;
+      }
+      i++;
+      const language = fence[3] ? ` class="language-${escapeHtml(fence[3])}"` : '';
+      out.push(`<pre><code${language}>${escapeHtml(code.join('\n'))}</code></pre>`);
+      continue;
+    }
+
+    if (/^ {4}/.test(line)) {
+      const code: string[] = [];
+      while (i < lines.length && (/^ {4}/.test(lines[i]) || isBlank(lines[i]))) {
+        code.push(lines[i].slice(4));
+        i++;
+      }
+      while (code.length && isBlank(code[code.length - 1])) code.pop();
+      out.push(`<pre><code>${escapeHtml(code.join('\n'))}</code></pre>`);
+      continue;
+    }
+
+    const heading = HEADING.exec(line);
+    if (heading) {
+      const level = heading[1].length;
+      out.push(`<h${level}>${renderInline(heading[2] || '', options)}</h${level}>`);
+      i++;
+      continue;
+    }
+
+    if (RULE.test(line)) {
+      out.push('<hr>');
+      i++;
+      continue;
+    }
+
+    if (/^ {0,3}>/.test(line)) {
+      const quoted: string[] = [];
+      while (i < lines.length && !isBlank(lines[i])) {
+        if (/^ {0,3}>/.test(lines[i])) quoted.push(lines[i].replace(/^ {0,3}> ?/, ''));
+        else if (startsBlock(lines[i])) break;
+        else quoted.push(lines[i]);
+        i++;
+      }
+      out.push(`<blockquote>${renderBlocks(quoted, options)}</blockquote>`);
+      continue;
+    }
+
+    if (LIST_ITEM.test(line)) {
+      const list = renderList(lines, i, options);
+      out.push(list.html);
+      i = list.next;
+      continue;
+    }
+
+    if (line.includes('|') && i + 1 < lines.length && TABLE_DIVIDER.test(lines[i + 1]) && lines[i + 1].includes('-')) {
+      const table: string[] = [line, lines[i + 1]];
+      i += 2;
+      while (i < lines.length && !isBlank(lines[i]) && lines[i].includes('|')) table.push(lines[i++]);
+      out.push(renderTable(table, options));
+      continue;
+    }
+
+    // Paragraph, possibly turned into a heading by a setext underline
+    const paragraph: string[] = [];
+    while (i < lines.length && !isBlank(lines[i])) {
+      if (paragraph.length > 0 && /^ {0,3}(=+|-+)\s*$/.test(lines[i])) {
+        const level = lines[i].trim().startsWith('=') ? 1 : 2;
+        out.push(`<h${level}>${renderInline(paragraph.join('\n').trim(), options)}</h${level}>`);
+        paragraph.length = 0;
+        i++;
+        break;
+      }
+      if (paragraph.length > 0 && startsBlock(lines[i])) break;
+      paragraph.push(lines[i].replace(/^ {1,3}/, ''));
+      i++;
+    }
+    if (paragraph.length > 0) out.push(`<p>${renderInline(paragraph.join('\n').replace(/\s+$/, ''), options)}</p>`);
+  }
+
+  return out.join('');
+};
+
+// Convert Markdown text to HTML; front-matter is not handled here
+export const markdownToHtml = (markdown: string, options: MarkdownToHtmlOptions = {}): string => {
+  const lines = markdown.replace(/\r\n?/g, '\n').replace(/\t/g, '    ').split('\n');
+  return renderBlocks(lines, options);
+};
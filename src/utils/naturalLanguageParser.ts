@@ -1,5 +1,7 @@
-import { addDays, addWeeks, addMonths, addHours, addMinutes, setHours, setMinutes, startOfDay, nextMonday, nextTuesday, nextWednesday, nextThursday, nextFriday, nextSaturday, nextSunday, isMonday, isTuesday, isWednesday, isThursday, isFriday, isSaturday, isSunday, getDay, setDate, lastDayOfMonth, getDate } from 'date-fns';
-import { RepeatType, AdvancedRepeatPattern, ColoredTag } from '@/types/note';
+import { addDays, addWeeks, addMonths, addHours, addMinutes, setHours, setMinutes, startOfDay, nextMonday, nextTuesday, nextWednesday, nextThursday, nextFriday, nextSaturday, nextSunday, isMonday, isTuesday, isWednesday, isThursday, isFriday, isSaturday, isSunday, getDay, setDate, lastDayOfMonth, getDate, startOfMonth } from 'date-fns';
+import { RepeatType, AdvancedRepeatPattern, ColoredTag, RecurrenceRuleSpec } from '@/types/note';
+import { RRule, formatRRule, getNextRecurrence } from '@/utils/rrule';
+import { legacyRepeatToRRule } from '@/utils/recurringTasks';
 
 export interface ParsedTask {
   text: string;
@@ -10,6 +12,7 @@ export interface ParsedTask {
   repeatType?: RepeatType;
   repeatDays?: number[]; // 0-6 for Sunday-Saturday
   advancedRepeat?: AdvancedRepeatPattern;
+  recurrence?: RecurrenceRuleSpec; // Set for rules the simple repeat fields cannot hold
   location?: string;
   tags?: string[]; // Parsed from #tag syntax
   folderName?: string; // Parsed from @folder syntax
@@ -284,6 +287,43 @@ const advancedRecurringPatterns: { pattern: RegExp; getRepeat: (match: RegExpMat
   },
 ];
 
+// Patterns that need a full RFC 5545 rule (e.g., "last business day of the month")
+const rrulePatterns: { pattern: RegExp; getRule: (match: RegExpMatchArray) => RRule }[] = [
+  {
+    pattern: /\b(?:every\s+|on\s+the\s+)?(first|last)\s+(?:business|working|week)\s*day(?:\s+of\s+(?:the\s+|each\s+|every\s+)?month)?\b/i,
+    getRule: (m) => ({
+      freq: 'MONTHLY',
+      interval: 1,
+      byDay: [1, 2, 3, 4, 5].map(day => ({ day })),
+      bySetPos: [m[1].toLowerCase() === 'first' ? 1 : -1],
+    }),
+  },
+];
+
+const monthNames = ['jan', 'feb', 'mar', 'apr', 'may', 'jun', 'jul', 'aug', 'sep', 'oct', 'nov', 'dec'];
+
+// End conditions for a repeat: "for 10 times", "until 2025-06-30", "until March 3"
+const recurrenceEndPatterns: { pattern: RegExp; apply: (rule: RRule, match: RegExpMatchArray) => void }[] = [
+  {
+    pattern: /\bfor\s+(\d+)\s+(?:times|occurrences)\b/i,
+    apply: (rule, m) => { rule.count = parseInt(m[1]); },
+  },
+  {
+    pattern: /\buntil\s+(\d{4})-(\d{2})-(\d{2})\b/i,
+    apply: (rule, m) => { rule.until = new Date(parseInt(m[1]), parseInt(m[2]) - 1, parseInt(m[3]), 23, 59, 59); },
+  },
+  {
+    pattern: /\buntil\s+(jan|feb|mar|apr|may|jun|jul|aug|sep|oct|nov|dec)[a-z]*\.?\s+(\d{1,2})(?:st|nd|rd|th)?(?:,?\s+(\d{4}))?\b/i,
+    apply: (rule, m) => {
+      const today = startOfDay(new Date());
+      const month = monthNames.indexOf(m[1].toLowerCase());
+      let until = new Date(m[3] ? parseInt(m[3]) : today.getFullYear(), month, parseInt(m[2]), 23, 59, 59);
+      if (!m[3] && until < today) until = new Date(until.getFullYear() + 1, month, parseInt(m[2]), 23, 59, 59);
+      rule.until = until;
+    },
+  },
+];
+
 // Helper function to get the nth weekday of a month
 function getNthWeekdayOfMonth(baseDate: Date, weekNum: 1 | 2 | 3 | 4 | -1, dayOfWeek: number): Date {
   const year = baseDate.getFullYear();
@@ -298,7 +338,7 @@ function getNthWeekdayOfMonth(baseDate: Date, weekNum: 1 | 2 | 3 | 4 | -1, dayOf
     }
     // If the date is in the past, get next month's
     if (date < baseDate) {
-      return getNthWeekdayOfMonth(addMonths(baseDate, 1), weekNum, dayOfWeek);
+      return getNthWeekdayOfMonth(startOfMonth(addMonths(baseDate, 1)), weekNum, dayOfWeek);
     }
     return startOfDay(date);
   }
@@ -313,7 +353,7 @@ function getNthWeekdayOfMonth(baseDate: Date, weekNum: 1 | 2 | 3 | 4 | -1, dayOf
   
   // If the date is in the past, get next month's
   if (date < baseDate) {
-    return getNthWeekdayOfMonth(addMonths(baseDate, 1), weekNum, dayOfWeek);
+    return getNthWeekdayOfMonth(startOfMonth(addMonths(baseDate, 1)), weekNum, dayOfWeek);
   }
   return startOfDay(date);
 }
@@ -447,6 +487,27 @@ function parseAdvancedRecurring(text: string): { advancedRepeat: AdvancedRepeatP
   return null;
 }
 
+function parseRRulePattern(text: string): { rule: RRule; matched: string } | null {
+  for (const { pattern, getRule } of rrulePatterns) {
+    const match = text.match(pattern);
+    if (match) {
+      return { rule: getRule(match), matched: match[0] };
+    }
+  }
+  return null;
+}
+
+function parseRecurrenceEnd(text: string, rule: RRule): string | null {
+  for (const { pattern, apply } of recurrenceEndPatterns) {
+    const match = text.match(pattern);
+    if (match) {
+      apply(rule, match);
+      return match[0];
+    }
+  }
+  return null;
+}
+
 function parseRecurring(text: string): { type: RepeatType; days?: number[]; matched: string } | null {
   for (const { pattern, getRepeat } of recurringPatterns) {
     const match = text.match(pattern);
@@ -500,6 +561,8 @@ export function parseNaturalLanguageTask(input: string): ParsedTask {
   let repeatType: RepeatType | undefined;
   let repeatDays: number[] | undefined;
   let advancedRepeat: AdvancedRepeatPattern | undefined;
+  let recurrenceRule: RRule | undefined;
+  let recurrence: RecurrenceRuleSpec | undefined;
   let location: string | undefined;
   let tags: string[] | undefined;
   let folderName: string | undefined;
@@ -524,8 +587,18 @@ export function parseNaturalLanguageTask(input: string): ParsedTask {
     text = text.replace(reminderOffsetResult.matched, '').trim();
   }
   
-  // Parse advanced recurring patterns first (e.g., "every 2nd Tuesday")
-  const advancedRecurringResult = parseAdvancedRecurring(text);
+  // Parse rules only RRULE can express first (e.g., "last business day of the month")
+  const rruleResult = parseRRulePattern(text);
+  if (rruleResult) {
+    recurrenceRule = rruleResult.rule;
+    repeatType = 'monthly';
+    const today = startOfDay(new Date());
+    dueDate = getNextRecurrence({ rule: recurrenceRule, dtstart: today }, new Date(today.getTime() - 1));
+    text = text.replace(rruleResult.matched, '').trim();
+  }
+  
+  // Parse advanced recurring patterns (e.g., "every 2nd Tuesday")
+  const advancedRecurringResult = recurrenceRule ? null : parseAdvancedRecurring(text);
   if (advancedRecurringResult) {
     advancedRepeat = advancedRecurringResult.advancedRepeat;
     if (advancedRecurringResult.firstOccurrence) {
@@ -536,7 +609,7 @@ export function parseNaturalLanguageTask(input: string): ParsedTask {
   }
   
   // Parse recurring pattern (before date, as "every monday" shouldn't be parsed as a date)
-  if (!advancedRepeat) {
+  if (!advancedRepeat && !recurrenceRule) {
     const recurringResult = parseRecurring(text);
     if (recurringResult) {
       repeatType = recurringResult.type;
@@ -567,6 +640,16 @@ export function parseNaturalLanguageTask(input: string): ParsedTask {
     }
   }
   
+  // An end condition turns any repeat into a full rule ("every monday for 10 times")
+  if (repeatType) {
+    const endRule = recurrenceRule || legacyRepeatToRRule(repeatType, repeatDays, advancedRepeat);
+    const endMatched = endRule ? parseRecurrenceEnd(text, endRule) : null;
+    if (endRule && endMatched) {
+      recurrenceRule = endRule;
+      text = text.replace(endMatched, '').trim();
+    }
+  }
+  
   // Parse relative time ("in 2 hours", "in 30 minutes")
   const relativeTimeResult = parseRelativeTime(text);
   if (relativeTimeResult) {
@@ -638,6 +721,10 @@ export function parseNaturalLanguageTask(input: string): ParsedTask {
     text = text.replace(locationResult.matched, '').trim();
   }
   
+  if (recurrenceRule) {
+    recurrence = { rrule: formatRRule(recurrenceRule), dtstart: dueDate };
+  }
+  
   // Clean up the text
   text = text
     .replace(/\s+/g, ' ')  // Multiple spaces to single
@@ -659,6 +746,7 @@ export function parseNaturalLanguageTask(input: string): ParsedTask {
     repeatType,
     repeatDays,
     advancedRepeat,
+    recurrence,
     location,
     tags,
     folderName,
@@ -683,6 +771,7 @@ export function hasNaturalLanguagePatterns(input: string): boolean {
     ...priorityPatterns.map(p => p.pattern),
     ...recurringPatterns.map(p => p.pattern),
     ...advancedRecurringPatterns.map(p => p.pattern),
+    ...rrulePatterns.map(p => p.pattern),
     ...relativeTimePatterns.map(p => p.pattern),
     ...locationPatterns,
   ];
@@ -0,0 +1,171 @@
+// @vitest-environment jsdom
+import { describe, expect, it } from 'vitest';
+import {
+  Block,
+  Mark,
+  NoteDocument,
+  normalizeHtml,
+  parseHtml,
+  readDocumentDom,
+  rereadDocumentDom,
+  reserializeDocument,
+  serializeDocument,
+  serializeDocumentParts,
+} from './noteDocument';
+
+const text = (value: string, marks: Mark[] = []) => ({ type: 'text' as const, text: value, marks });
+
+const mount = (html: string): HTMLElement => {
+  const root = document.createElement('div');
+  root.innerHTML = html;
+  return root;
+};
+
+describe('parseHtml and serializeDocument', () => {
+  const canonical = [
+    '<p>Plain <b>bold <i>both</i></b> <a href="https://example.com">link</a></p>',
+    '<h2 style="text-align: center">Title</h2>',
+    '<ul><li>one<ul><li>nested</li></ul></li><li>two</li></ul>',
+    '<ol><li>first</li></ol><ul data-type="checklist"><li data-checked="true">☑ done</li></ul>',
+    '<blockquote><p>quoted</p><p>twice</p></blockquote>',
+    '<pre><code class="language-ts">const a = 1;\nconst b = 2;</code></pre>',
+    '<hr><p><br></p>',
+    '<p>a&nbsp;&nbsp;b&nbsp;</p>',
+    '<p>x<sub>2</sub> &amp; &lt;tag&gt;</p>',
+  ];
+
+  it.each(canonical)('reads and writes back %s unchanged', html => {
+    expect(serializeDocument(parseHtml(html))).toBe(html);
+  });
+
+  it('reads headings, lists, quotes and code into blocks', () => {
+    const doc = parseHtml('<h1>T</h1><ul data-type="checklist"><li data-checked="false">☐ task</li></ul><pre><code>a\nb</code></pre>');
+    expect(doc.blocks).toEqual([
+      { type: 'heading', level: 1, content: [text('T')] },
+      { type: 'listItem', list: 'check', depth: 0, checked: false, content: [text('task')] },
+      { type: 'codeBlock', content: [text('a\nb')] },
+    ]);
+  });
+
+  it('normalizes legacy markup', () => {
+    expect(normalizeHtml('<div>one</div><div><strong>two</strong> <em>three</em></div>')).toBe(
+      '<p>one</p><p><b>two</b> <i>three</i></p>'
+    );
+    expect(normalizeHtml('loose <b>text</b>')).toBe('<p>loose <b>text</b></p>');
+  });
+
+  it('gives an empty note one empty paragraph', () => {
+    expect(parseHtml('').blocks).toEqual([{ type: 'paragraph', content: [] }]);
+    expect(normalizeHtml('')).toBe('<p><br></p>');
+  });
+
+  it('is stable once normalized', () => {
+    const messy = '<div>a  <span style="font-weight: bold">b</span></div><ul><li><p>c</p><ol><li>d</li></ol></li></ul><blockquote>e</blockquote>';
+    const once = normalizeHtml(messy);
+    expect(normalizeHtml(once)).toBe(once);
+  });
+});
+
+describe('readDocumentDom', () => {
+  it('maps DOM points to document positions and back', () => {
+    const root = mount('<p>ab<b>cd</b></p><ul><li>ef</li></ul>');
+    const bold = root.querySelector('b')!.firstChild!;
+    const item = root.querySelector('li')!.firstChild!;
+    const read = readDocumentDom(root, [{ node: bold, offset: 1 }, { node: item, offset: 2 }]);
+    expect(read.positions).toEqual([{ block: 0, offset: 3 }, { block: 1, offset: 2 }]);
+    expect(read.locate({ block: 0, offset: 3 })).toEqual({ node: bold, offset: 1 });
+    expect(read.locate({ block: 1, offset: 2 })).toEqual({ node: item, offset: 2 });
+  });
+});
+
+describe('rereadDocumentDom', () => {
+  const initial = '<p>one</p><ul><li>a</li><li>b</li></ul><p>two</p>';
+
+  it('reads only the changed element and matches a full read', () => {
+    const root = mount(initial);
+    const previous = readDocumentDom(root);
+    const item = root.querySelectorAll('li')[1];
+    item.textContent = 'b!';
+    const read = rereadDocumentDom(root, previous, [item.parentNode!], [{ node: item.firstChild!, offset: 2 }]);
+    expect(read).not.toBeNull();
+    expect(read!.doc).toEqual(readDocumentDom(root).doc);
+    expect(read!.positions).toEqual([{ block: 2, offset: 2 }]);
+    expect(read!.changed).toEqual({ from: 1, to: 3, removed: 2 });
+  });
+
+  it('follows blocks added inside a changed element', () => {
+    const root = mount(initial);
+    const previous = readDocumentDom(root);
+    const list = root.querySelector('ul')!;
+    list.insertAdjacentHTML('beforeend', '<li>c</li>');
+    const read = rereadDocumentDom(root, previous, [list]);
+    expect(read!.doc).toEqual(readDocumentDom(root).doc);
+    expect(read!.changed).toEqual({ from: 1, to: 4, removed: 2 });
+  });
+
+  it('can be chained from a previous reread', () => {
+    const root = mount(initial);
+    let read = readDocumentDom(root);
+    const first = root.querySelector('p')!;
+    first.textContent = 'one more';
+    read = rereadDocumentDom(root, read, [first])!;
+    const last = root.lastElementChild!;
+    last.textContent = 'two more';
+    read = rereadDocumentDom(root, read, [last])!;
+    expect(read.doc).toEqual(readDocumentDom(root).doc);
+    expect(read.changed).toEqual({ from: 3, to: 4, removed: 1 });
+  });
+
+  it('gives up when a point lies outside the changed elements', () => {
+    const root = mount(initial);
+    const previous = readDocumentDom(root);
+    const first = root.querySelector('p')!;
+    expect(rereadDocumentDom(root, previous, [first], [{ node: root.lastChild!.firstChild!, offset: 1 }])).toBeNull();
+  });
+
+  it('gives up when top-level elements were added or removed', () => {
+    const root = mount(initial);
+    const previous = readDocumentDom(root);
+    const added = document.createElement('p');
+    added.textContent = 'new';
+    root.appendChild(added);
+    expect(rereadDocumentDom(root, previous, [added])).toBeNull();
+  });
+});
+
+describe('reserializeDocument', () => {
+  const paragraph = (value: string): Block => ({ type: 'paragraph', content: [text(value)] });
+  const item = (value: string): Block => ({ type: 'listItem', list: 'bullet', depth: 0, content: [text(value)] });
+  const start: NoteDocument = { blocks: [paragraph('a'), item('b'), paragraph('c'), item('d'), paragraph('e')] };
+
+  const check = (doc: NoteDocument, change: { from: number; to: number; removed: number }) => {
+    const result = reserializeDocument(serializeDocumentParts(start), doc, change);
+    expect(result).toEqual(serializeDocumentParts(doc));
+  };
+
+  it('re-renders a changed block in place', () => {
+    const blocks = [...start.blocks];
+    blocks[4] = paragraph('e!');
+    check({ blocks }, { from: 4, to: 5, removed: 1 });
+  });
+
+  it('merges list runs a changed block joins', () => {
+    const blocks = [...start.blocks];
+    blocks[2] = item('c');
+    check({ blocks }, { from: 2, to: 3, removed: 1 });
+  });
+
+  it('splits a list run a changed block leaves', () => {
+    const merged: NoteDocument = { blocks: [paragraph('a'), item('b'), item('c'), item('d')] };
+    const blocks = [...merged.blocks];
+    blocks[2] = paragraph('c');
+    const result = reserializeDocument(serializeDocumentParts(merged), { blocks }, { from: 2, to: 3, removed: 1 });
+    expect(result).toEqual(serializeDocumentParts({ blocks }));
+  });
+
+  it('handles inserted and removed blocks', () => {
+    check({ blocks: [paragraph('a'), item('b'), item('x'), paragraph('c'), item('d'), paragraph('e')] }, { from: 2, to: 3, removed: 0 });
+    check({ blocks: [paragraph('a'), item('b'), item('d'), paragraph('e')] }, { from: 2, to: 2, removed: 1 });
+    check({ blocks: [paragraph('z')] }, { from: 0, to: 1, removed: 5 });
+  });
+});
@@ -0,0 +1,819 @@
+/**
+ * Note Document - the structured model behind rich text note content
+ *
+ * A note body is a flat list of blocks (paragraphs, headings, list items,
+ * quotes, code blocks, rules, and embeds such as images, tables and audio
+ * players that the model keeps as opaque HTML). Text blocks hold inline
+ * content: text runs carrying marks, line breaks, and atoms like note links.
+ * A position is a block index plus a character offset, where breaks and
+ * atoms count as one character.
+ *
+ * Notes are still stored as HTML. readDocumentDom/parseHtml read it into a
+ * document and serializeDocument writes it back in one canonical form, so
+ * the same document is stored the same way whichever WebView edited it.
+ */
+
+import { escapeHtml } from '@/lib/sanitize';
+
+export type MarkType =
+  | 'link'
+  | 'fontSize'
+  | 'color'
+  | 'highlight'
+  | 'bold'
+  | 'italic'
+  | 'underline'
+  | 'strike'
+  | 'subscript'
+  | 'superscript'
+  | 'code';
+
+// Outermost first: marks are nested in this order when serialized
+export const MARK_TYPES: MarkType[] = [
+  'link', 'fontSize', 'color', 'highlight', 'bold', 'italic', 'underline', 'strike', 'subscript', 'superscript', 'code',
+];
+
+export interface Mark {
+  type: MarkType;
+  value?: string; // href, CSS color or CSS font size
+}
+
+export type Inline =
+  | { type: 'text'; text: string; marks: Mark[] }
+  | { type: 'break'; marks: Mark[] }
+  | { type: 'atom'; html: string; marks: Mark[] }; // Note links and inline images, kept as HTML
+
+export type ListKind = 'bullet' | 'ordered' | 'check';
+export type BlockAlign = 'left' | 'center' | 'right' | 'justify';
+
+export type Block =
+  | { type: 'paragraph'; align?: BlockAlign; content: Inline[] }
+  | { type: 'heading'; level: number; align?: BlockAlign; content: Inline[] }
+  | { type: 'listItem'; list: ListKind; depth: number; checked?: boolean; align?: BlockAlign; content: Inline[] }
+  | { type: 'blockquote'; align?: BlockAlign; content: Inline[] }
+  | { type: 'codeBlock'; language?: string; content: Inline[] } // Plain text, line breaks as "\n"
+  | { type: 'rule'; content: Inline[] }
+  | { type: 'embed'; html: string; content: Inline[] };
+
+export type BlockType = Block['type'];
+
+export interface NoteDocument {
+  blocks: Block[];
+}
+
+export interface DocPosition {
+  block: number;
+  offset: number;
+}
+
+// ============ Content helpers ============
+
+export const emptyParagraph = (): Block => ({ type: 'paragraph', content: [] });
+
+// Blocks whose content the user types into
+export const isTextBlock = (block: Block): boolean => block.type !== 'rule' && block.type !== 'embed';
+
+export const inlineLength = (inline: Inline): number => (inline.type === 'text' ? inline.text.length : 1);
+
+export const contentLength = (content: Inline[]): number =>
+  content.reduce((sum, inline) => sum + inlineLength(inline), 0);
+
+export const findMark = (marks: Mark[], type: MarkType): Mark | undefined => marks.find(mark => mark.type === type);
+
+export const sameMark = (a?: Mark, b?: Mark): boolean =>
+  a === b || (!!a && !!b && a.type === b.type && (a.value ?? '') === (b.value ?? ''));
+
+export const sameMarks = (a: Mark[], b: Mark[]): boolean =>
+  a.length === b.length && a.every(mark => sameMark(mark, findMark(b, mark.type)));
+
+// Marks in serialization order, one per type
+export const sortMarks = (marks: Mark[]): Mark[] =>
+  MARK_TYPES.map(type => findMark(marks, type)).filter((mark): mark is Mark => !!mark);
+
+// Merge neighbouring text runs with the same marks and drop empty ones
+export const normalizeContent = (content: Inline[]): Inline[] => {
+  const result: Inline[] = [];
+  content.forEach(inline => {
+    if (inline.type === 'text' && !inline.text) return;
+    const last = result[result.length - 1];
+    if (inline.type === 'text' && last?.type === 'text' && sameMarks(last.marks, inline.marks)) {
+      result[result.length - 1] = { ...last, text: last.text + inline.text };
+    } else {
+      result.push(inline);
+    }
+  });
+  return result;
+};
+
+// Text of a block, with line breaks as "\n" and atoms as U+FFFC
+export const blockText = (block: Block): string =>
+  block.content.map(inline => (inline.type === 'text' ? inline.text : inline.type === 'break' ? '\n' : '\uFFFC')).join('');
+
+// Plain text of the document, one line per block, for search and diffs
+export const documentText = (doc: NoteDocument): string => doc.blocks.map(blockText).join('\n');
+
+// ============ Reading HTML ============
+
+const BLOCK_TAGS = new Set([
+  'p', 'div', 'h1', 'h2', 'h3', 'h4', 'h5', 'h6', 'blockquote', 'pre', 'ul', 'ol', 'li', 'hr',
+  'section', 'article', 'header', 'footer', 'aside', 'nav', 'main', 'address', 'center',
+]);
+// Elements the model does not look inside
+const EMBED_TAGS = new Set(['table', 'audio', 'video', 'iframe', 'svg', 'figure', 'canvas', 'object', 'embed', 'details', 'dl', 'form']);
+const EMBED_CLASSES = [
+  'resizable-image-wrapper',
+  'resizable-table-wrapper',
+  'file-attachment-wrapper',
+  'audio-player-container',
+  'page-break-container',
+  'task-embed',
+];
+const ATOM_CLASSES = ['note-link', 'note-link-missing'];
+const SKIPPED_TAGS = new Set(['script', 'style', 'template', 'head', 'meta', 'link', 'title']);
+const CHECK_MARKER = /^[☐☑✓✔]\s?/;
+
+// Sizes of the legacy <font size> steps
+const FONT_TAG_SIZES = ['10px', '13px', '16px', '18px', '24px', '32px', '48px'];
+
+const tagOf = (element: Element) => element.tagName.toLowerCase();
+
+const styleOf = (element: Element): Record<string, string> => {
+  const style: Record<string, string> = {};
+  (element.getAttribute('style') || '').split(';').forEach(rule => {
+    const colon = rule.indexOf(':');
+    if (colon > 0) style[rule.slice(0, colon).trim().toLowerCase()] = rule.slice(colon + 1).trim();
+  });
+  return style;
+};
+
+const isColor = (value?: string): value is string =>
+  !!value && !/^(transparent|inherit|initial|unset|currentcolor|none)$/i.test(value) && !/url\(|gradient|var\(/i.test(value);
+
+// Marks an element applies to the text inside it
+export const elementMarks = (element: Element): Mark[] => {
+  const tag = tagOf(element);
+  const style = styleOf(element);
+  const marks: Mark[] = [];
+  if (tag === 'b' || tag === 'strong' || /^(bold|bolder|[6-9]00)$/.test(style['font-weight'] || '')) marks.push({ type: 'bold' });
+  if (tag === 'i' || tag === 'em' || style['font-style'] === 'italic') marks.push({ type: 'italic' });
+  const decoration = `${style['text-decoration'] || ''} ${style['text-decoration-line'] || ''}`;
+  if (tag === 'u' || tag === 'ins' || decoration.includes('underline')) marks.push({ type: 'underline' });
+  if (tag === 's' || tag === 'strike' || tag === 'del' || decoration.includes('line-through')) marks.push({ type: 'strike' });
+  if (tag === 'sub' || style['vertical-align'] === 'sub') marks.push({ type: 'subscript' });
+  if (tag === 'sup' || style['vertical-align'] === 'super') marks.push({ type: 'superscript' });
+  if (tag === 'code') marks.push({ type: 'code' });
+  if (tag === 'a' && element.getAttribute('href')) marks.push({ type: 'link', value: element.getAttribute('href')! });
+
+  const color = style.color || (tag === 'font' ? element.getAttribute('color') || undefined : undefined);
+  if (isColor(color)) marks.push({ type: 'color', value: color });
+  const background = style['background-color'] || style.background;
+  if (isColor(background)) marks.push({ type: 'highlight', value: background });
+  else if (tag === 'mark') marks.push({ type: 'highlight' });
+  const fontTagSize = tag === 'font' ? FONT_TAG_SIZES[Number(element.getAttribute('size')) - 1] : undefined;
+  const fontSize = style['font-size'] || fontTagSize;
+  if (fontSize && !/^(inherit|initial|medium)$/.test(fontSize)) marks.push({ type: 'fontSize', value: fontSize });
+  return marks;
+};
+
+const withMarks = (outer: Mark[], inner: Mark[]): Mark[] =>
+  inner.length === 0 ? outer : [...outer.filter(mark => !findMark(inner, mark.type)), ...inner];
+
+const alignOf = (element: Element): BlockAlign | undefined => {
+  const value = (styleOf(element)['text-align'] || element.getAttribute('align') || '').toLowerCase();
+  if (value === 'center' || value === 'right' || value === 'justify') return value;
+  if (value === 'left' || value === 'start') return 'left';
+  return undefined;
+};
+
+const isEmbedElement = (element: Element): boolean => {
+  const tag = tagOf(element);
+  if (EMBED_TAGS.has(tag) || EMBED_CLASSES.some(name => element.classList.contains(name))) return true;
+  if (element.getAttribute('contenteditable') === 'false') return true;
+  // Styled boxes such as comments keep their look as embeds
+  if (BLOCK_TAGS.has(tag) && tag !== 'pre' && tag !== 'blockquote') {
+    const style = styleOf(element);
+    return Object.keys(style).some(name => name.startsWith('border') || name.startsWith('background'));
+  }
+  return false;
+};
+
+const isAtomElement = (element: Element): boolean =>
+  tagOf(element) === 'img' || tagOf(element) === 'input' || ATOM_CLASSES.some(name => element.classList.contains(name));
+
+// Marks, list and alignment in effect at a DOM node inside `root`, for toolbar state
+export const formattingAt = (root: Node, node: Node): { marks: MarkType[]; list?: ListKind; align: BlockAlign } => {
+  const marks = new Set<MarkType>();
+  let list: ListKind | undefined;
+  let align: BlockAlign | undefined;
+  for (let element = node.nodeType === Node.ELEMENT_NODE ? (node as Element) : node.parentElement; element && element !== root; element = element.parentElement) {
+    elementMarks(element).forEach(mark => marks.add(mark.type));
+    const tag = tagOf(element);
+    if (!list && (tag === 'ul' || tag === 'ol')) {
+      list = tag === 'ol' ? 'ordered' : element.getAttribute('data-type') === 'checklist' ? 'check' : 'bullet';
+    }
+    if (!align && BLOCK_TAGS.has(tag)) align = alignOf(element);
+  }
+  return { marks: Array.from(marks), list, align: align ?? 'left' };
+};
+
+export interface DomPoint {
+  node: Node;
+  offset: number;
+}
+
+// Where a block's content lives in the DOM, for turning positions back into DOM points
+interface TextSegment {
+  node: Text;
+  start: number;
+  toModel: number[]; // Model offset (relative to start) before each DOM offset
+}
+
+interface BlockDom {
+  element: Node; // The element the block was read from
+  texts: TextSegment[];
+  atoms: { node: Node; start: number }[];
+}
+
+export interface DocumentDom {
+  doc: NoteDocument;
+  positions: DocPosition[]; // The requested DOM points, as document positions
+  locate: (position: DocPosition) => DomPoint;
+  // Set by rereadDocumentDom: blocks [from, to) replaced `removed` blocks of the document read before
+  changed?: BlockChange;
+}
+
+export interface BlockChange {
+  from: number;
+  to: number;
+  removed: number;
+}
+
+// What rereadDocumentDom needs to know about an earlier read
+interface DomRead {
+  blockDoms: BlockDom[];
+  tops: Node[]; // The root's children when it was read
+  ranges: Map<Node, [number, number]>; // Blocks read from each top-level block element
+  blank: boolean; // Nothing was read, so the document is just an empty paragraph
+}
+
+const domReads = new WeakMap<DocumentDom, DomRead>();
+
+type BlockTemplate =
+  | { type: 'paragraph' | 'blockquote'; align?: BlockAlign }
+  | { type: 'heading'; level: number; align?: BlockAlign }
+  | { type: 'listItem'; list: ListKind; depth: number; checked?: boolean; align?: BlockAlign };
+
+const fromTemplate = (template: BlockTemplate): Block => ({ ...template, content: [] });
+
+// Read the children of `root`, or only `only` among them, into blocks; points outside what is read stay null
+const readNodes = (root: Node, points: DomPoint[], only?: Node) => {
+  const blocks: Block[] = [];
+  const blockDoms: BlockDom[] = [];
+  const positions: (DocPosition | null)[] = points.map(() => null);
+  const pending: number[] = []; // Points between blocks, resolved to the start of the next one
+  let current: Block | null = null;
+  let stripMarker = false;
+
+  const resolvePending = (position: DocPosition) => {
+    pending.splice(0).forEach(index => {
+      positions[index] = position;
+    });
+  };
+
+  const setPoint = (index: number, position: DocPosition | null) => {
+    if (positions[index]) return;
+    if (position) positions[index] = position;
+    else pending.push(index);
+  };
+
+  const currentEnd = (): DocPosition | null =>
+    current ? { block: blocks.length - 1, offset: contentLength(current.content) } : null;
+
+  const openBlock = (block: Block, element: Node) => {
+    current = block;
+    stripMarker = block.type === 'listItem' && block.list === 'check';
+    blocks.push(current);
+    blockDoms.push({ element, texts: [], atoms: [] });
+    resolvePending({ block: blocks.length - 1, offset: 0 });
+  };
+
+  const closeBlock = () => {
+    if (!current) return;
+    const content = current.content;
+    // A trailing <br> only keeps an empty line visible
+    if (content[content.length - 1]?.type === 'break') content.pop();
+    const last = content[content.length - 1];
+    if (last?.type === 'text' && current.type !== 'codeBlock') last.text = last.text.replace(/ +$/, '');
+    if (current.type === 'codeBlock' && last?.type === 'text') last.text = last.text.replace(/\n$/, '');
+    current.content = normalizeContent(content);
+    current = null;
+  };
+
+  const pushLeaf = (block: Block, element: Node) => {
+    closeBlock();
+    blocks.push(block);
+    blockDoms.push({ element, texts: [], atoms: [] });
+    resolvePending({ block: blocks.length - 1, offset: 0 });
+  };
+
+  // Points anywhere inside an element the model keeps whole
+  const resolveInside = (element: Element, position: () => DocPosition) => {
+    points.forEach((point, index) => {
+      if (!positions[index] && (point.node === element || element.contains(point.node))) {
+        positions[index] = position();
+      }
+    });
+  };
+
+  const addText = (node: Text, marks: Mark[], template: BlockTemplate, context: Node, preformatted: boolean) => {
+    const data = node.data;
+    if (!current && !preformatted && !/[^ \t\n\r\f]/.test(data)) {
+      points.forEach((point, index) => point.node === node && setPoint(index, null));
+      return;
+    }
+    if (!current) openBlock(fromTemplate(template), context);
+    const block = current!;
+    const start = contentLength(block.content);
+    const previous = block.content[block.content.length - 1];
+    let afterSpace = !previous || previous.type === 'break' || (previous.type === 'text' && previous.text.endsWith(' '));
+    let skip = stripMarker && start === 0 ? CHECK_MARKER.exec(data)?.[0].length ?? 0 : 0;
+    stripMarker = false;
+
+    let text = '';
+    const toModel: number[] = [];
+    for (let i = 0; i < data.length; i++) {
+      toModel.push(text.length);
+      const char = data[i];
+      if (skip > 0) {
+        skip--;
+      } else if (preformatted) {
+        text += char;
+      } else if (/[ \t\n\r\f]/.test(char)) {
+        if (!afterSpace) text += ' ';
+        afterSpace = true;
+      } else {
+        text += char;
+        afterSpace = false;
+      }
+    }
+    toModel.push(text.length);
+
+    if (text) block.content.push({ type: 'text', text, marks: block.type === 'codeBlock' ? [] : marks });
+    blockDoms[blockDoms.length - 1].texts.push({ node, start, toModel });
+    points.forEach((point, index) => {
+      if (point.node === node) setPoint(index, { block: blocks.length - 1, offset: start + toModel[Math.min(point.offset, data.length)] });
+    });
+  };
+
+  const visitChildren = (element: Node, marks: Mark[], template: BlockTemplate, preformatted: boolean) => {
+    const children = Array.from(element.childNodes);
+    for (let i = 0; i <= children.length; i++) {
+      points.forEach((point, index) => {
+        if (point.node === element && point.offset === i) setPoint(index, currentEnd());
+      });
+      if (i < children.length) visit(children[i], marks, template, preformatted);
+    }
+  };
+
+  const visitBlock = (element: Element, template: BlockTemplate, marks: Mark[]) => {
+    closeBlock();
+    const before = blocks.length;
+    visitChildren(element, marks, template, false);
+    closeBlock();
+    if (blocks.length === before && !['ul', 'ol'].includes(tagOf(element))) {
+      openBlock(fromTemplate(template), element);
+      closeBlock();
+    }
+  };
+
+  const visit = (node: Node, marks: Mark[], template: BlockTemplate, preformatted: boolean) => {
+    if (node.nodeType === Node.TEXT_NODE) {
+      addText(node as Text, marks, template, node.parentNode || root, preformatted);
+      return;
+    }
+    if (node.nodeType !== Node.ELEMENT_NODE) return;
+    const element = node as Element;
+    const tag = tagOf(element);
+    if (SKIPPED_TAGS.has(tag)) return;
+
+    if (tag === 'br') {
+      if (!current) openBlock(fromTemplate(template), element.parentNode || root);
+      if (current!.type === 'codeBlock') current!.content.push({ type: 'text', text: '\n', marks: [] });
+      else current!.content.push({ type: 'break', marks });
+      const end = currentEnd()!;
+      resolveInside(element, () => end);
+      return;
+    }
+
+    if (isEmbedElement(element) && !preformatted) {
+      pushLeaf({ type: 'embed', html: element.outerHTML, content: [] }, element);
+      const block = blocks.length - 1;
+      resolveInside(element, () => ({ block, offset: 0 }));
+      return;
+    }
+
+    if (isAtomElement(element) && !preformatted) {
+      if (!current) openBlock(fromTemplate(template), element.parentNode || root);
+      const start = contentLength(current!.content);
+      current!.content.push({ type: 'atom', html: element.outerHTML, marks });
+      blockDoms[blockDoms.length - 1].atoms.push({ node: element, start });
+      const position = { block: blocks.length - 1, offset: start };
+      resolveInside(element, () => position);
+      return;
+    }
+
+    if (!BLOCK_TAGS.has(tag) || preformatted) {
+      visitChildren(element, withMarks(marks, elementMarks(element)), template, preformatted);
+      return;
+    }
+
+    const align = alignOf(element) ?? template.align;
+    if (tag === 'hr') {
+      pushLeaf({ type: 'rule', content: [] }, element);
+      const block = blocks.length - 1;
+      resolveInside(element, () => ({ block, offset: 0 }));
+    } else if (tag === 'pre') {
+      closeBlock();
+      const language = /language-([\w+#.-]+)/.exec(element.querySelector('code')?.className || '')?.[1];
+      openBlock({ type: 'codeBlock', language, content: [] }, element);
+      visitChildren(element, [], template, true);
+      closeBlock();
+    } else if (/^h[1-6]$/.test(tag)) {
+      visitBlock(element, { type: 'heading', level: Number(tag[1]), align }, marks);
+    } else if (tag === 'ul' || tag === 'ol') {
+      const list: ListKind = tag === 'ol' ? 'ordered' : element.getAttribute('data-type') === 'checklist' ? 'check' : 'bullet';
+      const depth = template.type === 'listItem' ? template.depth + 1 : 0;
+      visitBlock(element, { type: 'listItem', list, depth, align }, marks);
+    } else if (tag === 'li') {
+      const item: BlockTemplate = template.type === 'listItem'
+        ? { ...template, align }
+        : { type: 'listItem', list: 'bullet', depth: 0, align };
+      if (item.type === 'listItem' && item.list === 'check') item.checked = element.getAttribute('data-checked') === 'true';
+      visitBlock(element, item, marks);
+    } else if (tag === 'blockquote') {
+      visitBlock(element, { type: 'blockquote', align }, marks);
+    } else {
+      // Paragraph-like containers keep the kind of block they sit in
+      visitBlock(element, { ...template, align } as BlockTemplate, marks);
+    }
+  };
+
+  // Block elements start and end their own blocks, so they can be read again on their own
+  const ranges = new Map<Node, [number, number]>();
+  const nodes = only ? [only] : Array.from(root.childNodes);
+  nodes.forEach((node, i) => {
+    if (!only) {
+      points.forEach((point, index) => {
+        if (point.node === root && point.offset === i) setPoint(index, currentEnd());
+      });
+    }
+    const before = blocks.length;
+    visit(node, [], { type: 'paragraph' }, false);
+    const element = node.nodeType === Node.ELEMENT_NODE ? (node as Element) : null;
+    if (element && !current && (BLOCK_TAGS.has(tagOf(element)) || isEmbedElement(element))) {
+      ranges.set(node, [before, blocks.length]);
+    }
+  });
+  if (!only) {
+    points.forEach((point, index) => {
+      if (point.node === root && point.offset === nodes.length) setPoint(index, currentEnd());
+    });
+  }
+  closeBlock();
+
+  return { blocks, blockDoms, positions, unresolved: pending.length > 0, ranges };
+};
+
+// Positions clamped to the document, and a way back from positions to DOM points
+const finishRead = (
+  root: Node,
+  blocks: Block[],
+  blockDoms: BlockDom[],
+  positions: (DocPosition | null)[],
+  ranges: Map<Node, [number, number]>,
+  changed?: BlockChange
+): DocumentDom => {
+  const blank = blocks.length === 0;
+  if (blank) {
+    blocks.push(emptyParagraph());
+    blockDoms.push({ element: root, texts: [], atoms: [] });
+  }
+
+  // Points after the last block, and offsets past content dropped on close (trailing <br> or spaces)
+  const last = blocks.length - 1;
+  const resolved = positions.map(position => {
+    const block = Math.min(position?.block ?? last, last);
+    const length = contentLength(blocks[block].content);
+    return { block, offset: position ? Math.min(position.offset, length) : length };
+  });
+
+  const locate = (position: DocPosition): DomPoint => {
+    const index = Math.max(0, Math.min(position.block, blocks.length - 1));
+    const dom = blockDoms[index];
+    const offset = Math.max(0, position.offset);
+    for (const segment of dom.texts) {
+      const relative = offset - segment.start;
+      const length = segment.toModel[segment.toModel.length - 1];
+      if (relative < 0 || relative > length) continue;
+      // The last DOM offset with this model offset sits after skipped markers and spaces
+      const domOffset = segment.toModel.lastIndexOf(relative);
+      if (domOffset >= 0) return { node: segment.node, offset: domOffset };
+    }
+    for (const atom of dom.atoms) {
+      const parent = atom.node.parentNode;
+      if (!parent) continue;
+      const childIndex = Array.from(parent.childNodes).indexOf(atom.node as ChildNode);
+      if (atom.start === offset) return { node: parent, offset: childIndex };
+      if (atom.start + 1 === offset) return { node: parent, offset: childIndex + 1 };
+    }
+    const element = dom.element;
+    if (!isTextBlock(blocks[index]) && element.parentNode) {
+      const childIndex = Array.from(element.parentNode.childNodes).indexOf(element as ChildNode);
+      return { node: element.parentNode, offset: childIndex + (offset > 0 ? 1 : 0) };
+    }
+    return { node: element, offset: 0 };
+  };
+
+  const read: DocumentDom = { doc: { blocks }, positions: resolved, locate, changed };
+  domReads.set(read, { blockDoms, tops: Array.from(root.childNodes), ranges, blank });
+  return read;
+};
+
+/**
+ * Read the document shown in `root` (the editor element or a parsed
+ * fragment), and convert `points` - usually the ends of the DOM selection -
+ * into document positions.
+ */
+export const readDocumentDom = (root: Node, points: DomPoint[] = []): DocumentDom => {
+  const { blocks, blockDoms, positions, ranges } = readNodes(root, points);
+  return finishRead(root, blocks, blockDoms, positions, ranges);
+};
+
+/**
+ * Read `root` again after edits inside `changed`, some of its top-level
+ * block elements, keeping the blocks of `previous` (the last read of
+ * `root`) for everything else. Returns null when that is not enough: the
+ * edit added or removed top-level nodes, or a point lies outside `changed`.
+ */
+export const rereadDocumentDom = (root: Node, previous: DocumentDom, changed: Node[], points: DomPoint[] = []): DocumentDom | null => {
+  const last = domReads.get(previous);
+  if (!last || last.blank || changed.length === 0) return null;
+  const children = root.childNodes;
+  if (children.length !== last.tops.length || last.tops.some((node, i) => children[i] !== node)) return null;
+  const edits = changed.map(node => ({ node, range: last.ranges.get(node) }));
+  if (edits.some(edit => !edit.range)) return null;
+  edits.sort((a, b) => a.range![0] - b.range![0]);
+
+  const blocks: Block[] = [];
+  const blockDoms: BlockDom[] = [];
+  const positions: (DocPosition | null)[] = points.map(() => null);
+  const lengths = new Map<Node, number>();
+  let at = 0;
+  for (const { node, range } of edits) {
+    const [from, to] = range!;
+    blocks.push(...previous.doc.blocks.slice(at, from));
+    blockDoms.push(...last.blockDoms.slice(at, from));
+    const read = readNodes(root, points, node);
+    if (read.unresolved) return null;
+    read.positions.forEach((position, index) => {
+      if (position) positions[index] = { ...position, block: position.block + blocks.length };
+    });
+    blocks.push(...read.blocks);
+    blockDoms.push(...read.blockDoms);
+    lengths.set(node, read.blocks.length);
+    at = to;
+  }
+  if (positions.some(position => !position)) return null;
+  blocks.push(...previous.doc.blocks.slice(at));
+  blockDoms.push(...last.blockDoms.slice(at));
+
+  // Later blocks move by what the edits before them added or removed
+  const ranges = new Map<Node, [number, number]>();
+  let shift = 0;
+  last.tops.forEach(node => {
+    const range = last.ranges.get(node);
+    if (!range) return;
+    const start = range[0] + shift;
+    const length = lengths.get(node);
+    if (length !== undefined) shift += length - (range[1] - range[0]);
+    ranges.set(node, [start, length !== undefined ? start + length : range[1] + shift]);
+  });
+
+  const from = edits[0].range![0];
+  const removed = at - from;
+  const to = at + shift;
+  return finishRead(root, blocks, blockDoms, positions, ranges, { from, to, removed });
+};
+
+// Parse stored note HTML into a document
+export const parseHtml = (html: string): NoteDocument => {
+  const parsed = new DOMParser().parseFromString(`<!DOCTYPE html><body>${html}`, 'text/html');
+  return readDocumentDom(parsed.body).doc;
+};
+
+// ============ Writing HTML ============
+
+const escapeText = (text: string): string => escapeHtml(text).replace(/\u00a0/g, '&nbsp;');
+
+const openMark = (mark: Mark): [string, string] => {
+  const value = escapeHtml(mark.value || '');
+  switch (mark.type) {
+    case 'link': return [`<a href="${value}">`, '</a>'];
+    case 'fontSize': return [`<span style="font-size: ${value}">`, '</span>'];
+    case 'color': return [`<span style="color: ${value}">`, '</span>'];
+    case 'highlight': return value ? [`<span style="background-color: ${value}">`, '</span>'] : ['<mark>', '</mark>'];
+    case 'bold': return ['<b>', '</b>'];
+    case 'italic': return ['<i>', '</i>'];
+    case 'underline': return ['<u>', '</u>'];
+    case 'strike': return ['<s>', '</s>'];
+    case 'subscript': return ['<sub>', '</sub>'];
+    case 'superscript': return ['<sup>', '</sup>'];
+    case 'code': return ['<code>', '</code>'];
+  }
+};
+
+// Wrap runs sharing a mark in one element, outermost mark types first
+const renderMarked = (content: Inline[], level: number): string => {
+  if (level >= MARK_TYPES.length) {
+    return content
+      .map(inline => (inline.type === 'text' ? escapeText(inline.text) : inline.type === 'break' ? '<br>' : inline.html))
+      .join('');
+  }
+  const type = MARK_TYPES[level];
+  let html = '';
+  for (let i = 0; i < content.length;) {
+    const mark = findMark(content[i].marks, type);
+    let end = i + 1;
+    while (end < content.length && sameMark(findMark(content[end].marks, type), mark)) end++;
+    const inner = renderMarked(content.slice(i, end), level + 1);
+    if (mark) {
+      const [open, close] = openMark(mark);
+      html += `${open}${inner}${close}`;
+    } else {
+      html += inner;
+    }
+    i = end;
+  }
+  return html;
+};
+
+// Spaces HTML would collapse (leading, trailing, repeated) are written as no-break spaces
+const keepSpaces = (content: Inline[]): Inline[] => {
+  let afterSpace = true;
+  return content.map((inline, index) => {
+    if (inline.type !== 'text') {
+      afterSpace = inline.type === 'break';
+      return inline;
+    }
+    const isLast = index === content.length - 1;
+    let text = '';
+    for (let i = 0; i < inline.text.length; i++) {
+      const char = inline.text[i];
+      const isSpace = char === ' ' || char === '\u00a0';
+      text += char === ' ' && (afterSpace || (isLast && i === inline.text.length - 1)) ? '\u00a0' : char;
+      afterSpace = isSpace;
+    }
+    return { ...inline, text };
+  });
+};
+
+const renderContent = (content: Inline[]): string => {
+  if (content.length === 0) return '<br>';
+  const html = renderMarked(keepSpaces(content), 0);
+  // A final line break needs a second <br> to show
+  return content[content.length - 1].type === 'break' ? `${html}<br>` : html;
+};
+
+const alignAttribute = (align?: BlockAlign) => (align && align !== 'left' ? ` style="text-align: ${align}"` : '');
+
+type ListItemBlock = Extract<Block, { type: 'listItem' }>;
+
+// Nested <ul>/<ol> for a run of list items, starting at items[start]
+const renderList = (items: ListItemBlock[], start: number, depth: number): [string, number] => {
+  const list = items[start].list;
+  let html = '';
+  let i = start;
+  while (i < items.length) {
+    const item = items[i];
+    if (item.depth < depth || (item.depth === depth && item.list !== list)) break;
+    let inner = '';
+    let attributes = '';
+    if (item.depth === depth) {
+      attributes = list === 'check' ? ` data-checked="${!!item.checked}"` : '';
+      attributes += alignAttribute(item.align);
+      inner = list === 'check' ? `${item.checked ? '☑' : '☐'} ${renderContent(item.content)}` : renderContent(item.content);
+      i++;
+    }
+    // Deeper items belong inside this one
+    while (i < items.length && items[i].depth > depth) {
+      const [nested, next] = renderList(items, i, depth + 1);
+      inner += nested;
+      i = next;
+    }
+    html += `<li${attributes}>${inner}</li>`;
+  }
+  const tag = list === 'ordered' ? 'ol' : 'ul';
+  return [`<${tag}${list === 'check' ? ' data-type="checklist"' : ''}>${html}</${tag}>`, i];
+};
+
+/**
+ * Canonical HTML of a document in parts: a run of list items, a run of
+ * quote lines, or any other single block. An edit re-renders only the
+ * parts around the blocks it changed.
+ */
+export interface SerializedDocument {
+  html: string;
+  parts: { end: number; html: string }[]; // `end` is the index after the part's last block
+}
+
+// Parts for blocks [from, to); runs of list items or quote lines stop at `to`
+const renderParts = (blocks: Block[], from: number, to: number): SerializedDocument['parts'] => {
+  const parts: SerializedDocument['parts'] = [];
+  for (let i = from; i < to;) {
+    const block = blocks[i];
+    let html = '';
+    if (block.type === 'listItem') {
+      let end = i;
+      while (end < to && blocks[end].type === 'listItem') end++;
+      const items = blocks.slice(i, end) as ListItemBlock[];
+      for (let at = 0; at < items.length;) {
+        const [list, next] = renderList(items, at, 0);
+        html += list;
+        at = next;
+      }
+      parts.push({ end, html });
+      i = end;
+      continue;
+    }
+    if (block.type === 'blockquote') {
+      let inner = '';
+      for (; i < to && blocks[i].type === 'blockquote'; i++) {
+        const quote = blocks[i] as Extract<Block, { type: 'blockquote' }>;
+        inner += `<p${alignAttribute(quote.align)}>${renderContent(quote.content)}</p>`;
+      }
+      parts.push({ end: i, html: `<blockquote>${inner}</blockquote>` });
+      continue;
+    }
+    switch (block.type) {
+      case 'paragraph':
+        html = `<p${alignAttribute(block.align)}>${renderContent(block.content)}</p>`;
+        break;
+      case 'heading':
+        html = `<h${block.level}${alignAttribute(block.align)}>${renderContent(block.content)}</h${block.level}>`;
+        break;
+      case 'codeBlock': {
+        const code = block.content.map(inline => (inline.type === 'text' ? inline.text : '')).join('');
+        const language = block.language ? ` class="language-${escapeHtml(block.language)}"` : '';
+        html = `<pre><code${language}>${code ? escapeText(code) : '<br>'}</code></pre>`;
+        break;
+      }
+      case 'rule':
+        html = '<hr>';
+        break;
+      case 'embed':
+        html = block.html;
+        break;
+    }
+    i++;
+    parts.push({ end: i, html });
+  }
+  return parts;
+};
+
+const joinParts = (parts: SerializedDocument['parts']): SerializedDocument => ({
+  html: parts.map(part => part.html).join(''),
+  parts,
+});
+
+export const serializeDocumentParts = (doc: NoteDocument): SerializedDocument =>
+  joinParts(renderParts(doc.blocks, 0, doc.blocks.length));
+
+// Canonical HTML for a document
+export const serializeDocument = (doc: NoteDocument): string => serializeDocumentParts(doc).html;
+
+/**
+ * Serialize `doc`, which is the document `previous` was written from with
+ * `change` applied, re-rendering only the parts the changed blocks touch.
+ * The parts just before and after are included, since a changed block can
+ * join their run of list items or quote lines.
+ */
+export const reserializeDocument = (previous: SerializedDocument, doc: NoteDocument, change: BlockChange): SerializedDocument => {
+  const { parts } = previous;
+  const oldEnd = change.from + change.removed;
+  // The part holding the block before the change, and the one holding the block after it
+  const first = Math.max(0, parts.findIndex(part => part.end >= change.from));
+  let last = parts.findIndex(part => part.end > oldEnd);
+  if (last < 0) last = parts.length - 1;
+
+  const start = first > 0 ? parts[first - 1].end : 0;
+  const delta = change.to - change.from - change.removed;
+  const end = last >= first ? parts[last].end + delta : doc.blocks.length;
+  return joinParts([
+    ...parts.slice(0, first),
+    ...renderParts(doc.blocks, start, end),
+    ...parts.slice(last + 1).map(part => ({ ...part, end: part.end + delta })),
+  ]);
+};
+
+// Canonical form of stored note HTML
+export const normalizeHtml = (html: string): string => serializeDocument(parseHtml(html));
@@ -1,49 +1,142 @@
-// Simple XOR-based encryption for note content
-// This provides obfuscation for hidden notes
+/**
+ * Note Encryption - authenticated encryption for protected note content
+ *
+ * Content is sealed with AES-GCM under a key derived from the note password
+ * (or the hidden-notes password) with PBKDF2. The note id is bound in as
+ * additional data, so a payload cannot be moved onto another note. Every
+ * payload carries a versioned header:
+ *
+ *   npdenc:2:<pbkdf2 iterations>:<salt>:<iv>:<ciphertext>   (base64 fields)
+ *
+ * Version 1 was the old XOR obfuscation, whose key sat in settings next to the
+ * data. It has no header and is only read so those notes can be upgraded on
+ * first unlock.
+ *
+ * Unlocking a note keeps its derived key in memory for the session, so edits
+ * are sealed again on their way to storage without holding on to the password.
+ */
 
-import { getSetting, setSetting, removeSetting } from '@/utils/settingsStorage';
+import { Note } from '@/types/note';
+import { getSetting, removeSetting } from '@/utils/settingsStorage';
 
-const ENCRYPTION_KEY_PREFIX = 'npd_enc_';
+const PAYLOAD_PREFIX = 'npdenc:';
+const CURRENT_VERSION = 2;
+const PBKDF2_ITERATIONS = 310000;
+const SALT_BYTES = 16;
+const IV_BYTES = 12;
+const LEGACY_KEY_PREFIX = 'npd_enc_';
 
-// Generate a random encryption key
-const generateKey = (): string => {
-  const chars = 'ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789';
-  let key = '';
-  for (let i = 0; i < 32; i++) {
-    key += chars.charAt(Math.floor(Math.random() * chars.length));
+// Note fields that hold content worth protecting; titles stay readable in lists
+const SEALED_FIELDS = ['content', 'codeContent'] as const;
+
+export class NoteDecryptionError extends Error {
+  constructor(message = 'Wrong password or damaged note content') {
+    super(message);
+    this.name = 'NoteDecryptionError';
   }
-  return key;
-};
+}
+
+interface SessionKey {
+  key: CryptoKey;
+  salt: Uint8Array;
+  iterations: number;
+}
 
-// In-memory cache for encryption keys
-const keyCache: Map<string, string> = new Map();
+interface ParsedPayload {
+  version: number;
+  iterations: number;
+  salt: Uint8Array;
+  iv: Uint8Array;
+  ciphertext: Uint8Array;
+}
 
-// Get or create encryption key for a note
-export const getEncryptionKey = async (noteId: string): Promise<string> => {
-  // Check cache first
-  if (keyCache.has(noteId)) {
-    return keyCache.get(noteId)!;
+const sessionKeys: Map<string, SessionKey> = new Map();
+
+const toBase64 = (bytes: Uint8Array): string => {
+  let binary = '';
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
   }
+  return btoa(binary);
+};
 
-  const storedKey = await getSetting<string | null>(`${ENCRYPTION_KEY_PREFIX}${noteId}`, null);
-  if (storedKey) {
-    keyCache.set(noteId, storedKey);
-    return storedKey;
+const fromBase64 = (value: string): Uint8Array => {
+  const binary = atob(value);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) bytes[i] = binary.charCodeAt(i);
+  return bytes;
+};
+
+const randomBytes = (length: number): Uint8Array => crypto.getRandomValues(new Uint8Array(length));
+
+const deriveKey = async (password: string, salt: Uint8Array, iterations: number): Promise<CryptoKey> => {
+  const keyMaterial = await crypto.subtle.importKey(
+    'raw',
+    new TextEncoder().encode(password),
+    'PBKDF2',
+    false,
+    ['deriveKey']
+  );
+  return crypto.subtle.deriveKey(
+    { name: 'PBKDF2', salt, iterations, hash: 'SHA-256' },
+    keyMaterial,
+    { name: 'AES-GCM', length: 256 },
+    false,
+    ['encrypt', 'decrypt']
+  );
+};
+
+const parsePayload = (payload: string): ParsedPayload | null => {
+  if (!payload.startsWith(PAYLOAD_PREFIX)) return null;
+  const [version, iterations, salt, iv, ciphertext] = payload.slice(PAYLOAD_PREFIX.length).split(':');
+  if (Number(version) !== CURRENT_VERSION || ciphertext === undefined) {
+    throw new NoteDecryptionError(`Unsupported note encryption version: ${version}`);
+  }
+  try {
+    return {
+      version: Number(version),
+      iterations: Number(iterations),
+      salt: fromBase64(salt),
+      iv: fromBase64(iv),
+      ciphertext: fromBase64(ciphertext),
+    };
+  } catch {
+    throw new NoteDecryptionError('Malformed encrypted note content');
   }
-  
-  const newKey = generateKey();
-  await setSetting(`${ENCRYPTION_KEY_PREFIX}${noteId}`, newKey);
-  keyCache.set(noteId, newKey);
-  return newKey;
 };
 
-// Synchronous version using cache (for hot paths)
-export const getEncryptionKeySync = (noteId: string): string | null => {
-  return keyCache.get(noteId) || null;
+const seal = async (content: string, noteId: string, session: SessionKey): Promise<string> => {
+  const iv = randomBytes(IV_BYTES);
+  const ciphertext = await crypto.subtle.encrypt(
+    { name: 'AES-GCM', iv, additionalData: new TextEncoder().encode(noteId) },
+    session.key,
+    new TextEncoder().encode(content)
+  );
+  return [
+    `${PAYLOAD_PREFIX}${CURRENT_VERSION}`,
+    session.iterations,
+    toBase64(session.salt),
+    toBase64(iv),
+    toBase64(new Uint8Array(ciphertext)),
+  ].join(':');
 };
 
-// XOR encrypt/decrypt (same operation for both)
-const xorCrypt = (text: string, key: string): string => {
+const open = async (parsed: ParsedPayload, noteId: string, key: CryptoKey): Promise<string> => {
+  try {
+    const plaintext = await crypto.subtle.decrypt(
+      { name: 'AES-GCM', iv: parsed.iv, additionalData: new TextEncoder().encode(noteId) },
+      key,
+      parsed.ciphertext
+    );
+    return new TextDecoder().decode(plaintext);
+  } catch {
+    throw new NoteDecryptionError();
+  }
+};
+
+// Old XOR obfuscation, kept only to read notes written before version 2
+const xorDecode = (encoded: string, key: string): string => {
+  const text = decodeURIComponent(escape(atob(encoded)));
   let result = '';
   for (let i = 0; i < text.length; i++) {
     result += String.fromCharCode(text.charCodeAt(i) ^ key.charCodeAt(i % key.length));
@@ -51,38 +144,147 @@ const xorCrypt = (text: string, key: string): string => {
   return result;
 };
 
-// Encrypt note content
-export const encryptContent = async (content: string, noteId: string): Promise<string> => {
-  const key = await getEncryptionKey(noteId);
-  const encrypted = xorCrypt(content, key);
-  // Base64 encode for safe storage
-  return btoa(unescape(encodeURIComponent(encrypted)));
+// Check if content is an encrypted payload (any version with a header)
+export const isEncrypted = (content: string | undefined): boolean => {
+  return !!content && content.startsWith(PAYLOAD_PREFIX);
 };
 
-// Decrypt note content
-export const decryptContent = async (encryptedContent: string, noteId: string): Promise<string> => {
-  try {
-    const key = await getEncryptionKey(noteId);
-    const decoded = decodeURIComponent(escape(atob(encryptedContent)));
-    return xorCrypt(decoded, key);
-  } catch {
-    // If decryption fails, return original (might be unencrypted)
-    return encryptedContent;
+export const isNoteUnlocked = (noteId: string): boolean => sessionKeys.has(noteId);
+
+// Forget the session key; the note needs its password again to open
+export const lockNote = (noteId: string): void => {
+  sessionKeys.delete(noteId);
+};
+
+// Derive a fresh key from the password and keep it as the note's session key
+const startSession = async (noteId: string, password: string): Promise<SessionKey> => {
+  const salt = randomBytes(SALT_BYTES);
+  const session: SessionKey = {
+    key: await deriveKey(password, salt, PBKDF2_ITERATIONS),
+    salt,
+    iterations: PBKDF2_ITERATIONS,
+  };
+  sessionKeys.set(noteId, session);
+  return session;
+};
+
+// Encrypt content under a fresh key derived from the password and unlock the note for the session
+export const encryptContent = async (content: string, noteId: string, password: string): Promise<string> => {
+  return seal(content, noteId, await startSession(noteId, password));
+};
+
+// Decrypt content of a note that was unlocked earlier in this session
+export const decryptContent = async (payload: string, noteId: string): Promise<string> => {
+  const parsed = parsePayload(payload);
+  if (!parsed) return payload;
+  const session = sessionKeys.get(noteId);
+  if (!session) throw new NoteDecryptionError('Note is locked');
+  return open(parsed, noteId, session.key);
+};
+
+/**
+ * Decrypt content with the note password. Content that is not in the current
+ * format (XOR payloads, or plain text protected before encryption existed) is
+ * returned as `upgraded`, re-encrypted, for the caller to persist.
+ *
+ * Only version 2 payloads prove the password by decrypting; verify it with
+ * `verifyNotePassword` before unlocking older content.
+ */
+export const unlockContent = async (
+  payload: string,
+  noteId: string,
+  password: string
+): Promise<{ content: string; upgraded: string | null }> => {
+  const parsed = parsePayload(payload);
+  if (parsed) {
+    const key = await deriveKey(password, parsed.salt, parsed.iterations);
+    const content = await open(parsed, noteId, key);
+    if (parsed.iterations < PBKDF2_ITERATIONS) {
+      return { content, upgraded: await encryptContent(content, noteId, password) };
+    }
+    sessionKeys.set(noteId, { key, salt: parsed.salt, iterations: parsed.iterations });
+    return { content, upgraded: null };
+  }
+
+  const legacyKey = await getSetting<string | null>(`${LEGACY_KEY_PREFIX}${noteId}`, null);
+  let content = payload;
+  if (legacyKey && payload) {
+    try {
+      content = xorDecode(payload, legacyKey);
+    } catch {
+      // Not XOR output after all; treat as plain text
+    }
   }
+  return { content, upgraded: await encryptContent(content, noteId, password) };
 };
 
-// Check if content appears to be encrypted (base64)
-export const isEncrypted = (content: string): boolean => {
-  try {
-    atob(content);
-    return content.length > 0 && /^[A-Za-z0-9+/=]+$/.test(content);
-  } catch {
-    return false;
+// Seal the protected fields of a note unlocked in this session; others pass through
+export const sealNote = async (note: Note): Promise<Note> => {
+  const session = sessionKeys.get(note.id);
+  if (!session) return note;
+  const sealed: Note = { ...note };
+  for (const field of SEALED_FIELDS) {
+    const value = note[field];
+    if (value && !isEncrypted(value)) {
+      sealed[field] = await seal(value, note.id, session);
+    }
+  }
+  return sealed;
+};
+
+// Encrypt the protected fields of a plain note under a new password
+export const encryptNote = async (note: Note, password: string): Promise<Note> => {
+  await startSession(note.id, password);
+  return sealNote(note);
+};
+
+/**
+ * Hide a note, sealing its content under a key derived from the hidden-notes
+ * password. The note stays locked until that password opens it again; notes
+ * already sealed under their own password keep it.
+ */
+export const hideNote = async (note: Note, password: string): Promise<Note> => {
+  if (SEALED_FIELDS.some(field => isEncrypted(note[field]))) return { ...note, isHidden: true };
+  const sealed = await encryptNote(note, password);
+  lockNote(note.id);
+  return { ...sealed, isHidden: true };
+};
+
+// Decrypt the protected fields of a note unlocked in this session
+export const openNote = async (note: Note): Promise<Note> => {
+  const opened: Note = { ...note };
+  for (const field of SEALED_FIELDS) {
+    const value = note[field];
+    if (value && isEncrypted(value)) {
+      opened[field] = await decryptContent(value, note.id);
+    }
+  }
+  return opened;
+};
+
+/**
+ * Unlock every protected field of a note with its password. `upgraded` holds
+ * the note re-encrypted in the current format when any field needed migrating,
+ * and should be saved before calling `removeLegacyEncryptionKey`.
+ */
+export const unlockNote = async (
+  note: Note,
+  password: string
+): Promise<{ note: Note; upgraded: Note | null }> => {
+  const opened: Note = { ...note };
+  let needsUpgrade = false;
+  for (const field of SEALED_FIELDS) {
+    const value = note[field];
+    if (!value) continue;
+    const result = await unlockContent(value, note.id, password);
+    opened[field] = result.content;
+    if (result.upgraded) needsUpgrade = true;
   }
+  // An upgrade may have switched the session key midway; re-seal every field under the final one
+  return { note: opened, upgraded: needsUpgrade ? await sealNote(opened) : null };
 };
 
-// Remove encryption key when note is unhidden
-export const removeEncryptionKey = async (noteId: string): Promise<void> => {
-  keyCache.delete(noteId);
-  await removeSetting(`${ENCRYPTION_KEY_PREFIX}${noteId}`);
+// Drop the old XOR key once the note has been saved in the current format
+export const removeLegacyEncryptionKey = async (noteId: string): Promise<void> => {
+  await removeSetting(`${LEGACY_KEY_PREFIX}${noteId}`);
 };
@@ -0,0 +1,226 @@
+/**
+ * Note Link Index - which notes link to which, kept up to date as notes are saved
+ *
+ * One small entry per note (title, type, folder and the ids it links to),
+ * persisted as a single setting so backlinks and the graph view don't have
+ * to parse every note. Storage hooks queue notes as they are written and
+ * the queue is flushed in the background, the same way as the search index.
+ * The index is rebuilt from the notes when it is missing or INDEX_VERSION
+ * changes.
+ *
+ * Links inside protected notes are not indexed: they are stored encrypted.
+ */
+
+import { Note, NoteType } from '@/types/note';
+import { extractNoteLinks, hasLinkableContent, linkedNoteIds } from '@/utils/noteLinking';
+import { getSetting, setSetting } from '@/utils/settingsStorage';
+
+export const NOTE_LINK_INDEX_KEY = 'noteLinkIndex';
+const INDEX_VERSION = 1;
+const FLUSH_DELAY = 300;
+
+export interface NoteLinkEntry {
+  id: string;
+  title: string;
+  type: NoteType;
+  folderId?: string;
+  hidden: boolean;
+  archived: boolean;
+  // Ids of linked notes
+  links: string[];
+  // [[Title]] references that were never turned into links
+  titleLinks: string[];
+}
+
+interface StoredIndex {
+  version: number;
+  entries: Record<string, NoteLinkEntry>;
+}
+
+export interface NoteGraphNode {
+  id: string;
+  title: string;
+  type: NoteType;
+  folderId?: string;
+  hidden: boolean;
+  archived: boolean;
+  // Links in and out
+  degree: number;
+}
+
+export interface NoteGraphEdge {
+  source: string;
+  target: string;
+}
+
+export interface NoteLinkGraph {
+  nodes: NoteGraphNode[];
+  edges: NoteGraphEdge[];
+}
+
+const entryOf = (note: Note): NoteLinkEntry | null => {
+  if (note.isDeleted) return null;
+  const readable = hasLinkableContent(note);
+  return {
+    id: note.id,
+    title: note.title,
+    type: note.type,
+    folderId: note.folderId,
+    hidden: !!note.isHidden,
+    archived: !!note.isArchived,
+    links: readable ? linkedNoteIds(note.content).filter(id => id !== note.id) : [],
+    titleLinks: readable ? extractNoteLinks(note.content) : [],
+  };
+};
+
+// ============ Storage ============
+
+let entries: Map<string, NoteLinkEntry> | null = null;
+let readyPromise: Promise<void> | null = null;
+
+const persist = (index: Map<string, NoteLinkEntry>): Promise<void> =>
+  setSetting<StoredIndex>(NOTE_LINK_INDEX_KEY, { version: INDEX_VERSION, entries: Object.fromEntries(index) });
+
+export const rebuildNoteLinkIndex = async (): Promise<void> => {
+  const { loadNotesFromDB } = await import('@/utils/noteStorage');
+  const notes = await loadNotesFromDB();
+  const index = new Map<string, NoteLinkEntry>();
+  notes.forEach(note => {
+    const entry = entryOf(note);
+    if (entry) index.set(note.id, entry);
+  });
+  entries = index;
+  await persist(index);
+};
+
+// The index as it is now, loaded or rebuilt the first time it is needed
+const currentIndex = async (): Promise<Map<string, NoteLinkEntry>> => {
+  if (!readyPromise) {
+    readyPromise = (async () => {
+      if (entries) return;
+      const stored = await getSetting<StoredIndex | null>(NOTE_LINK_INDEX_KEY, null);
+      if (stored?.version === INDEX_VERSION) entries = new Map(Object.entries(stored.entries));
+      else await rebuildNoteLinkIndex();
+    })().catch(error => {
+      readyPromise = null;
+      throw error;
+    });
+  }
+  await readyPromise;
+  return entries as Map<string, NoteLinkEntry>;
+};
+
+// ============ Queue ============
+
+let writeChain: Promise<void> = Promise.resolve();
+const pendingEntries = new Map<string, NoteLinkEntry | null>();
+let pendingSnapshot: Map<string, NoteLinkEntry> | null = null;
+let flushTimer: ReturnType<typeof setTimeout> | null = null;
+
+const scheduleFlush = () => {
+  if (flushTimer) clearTimeout(flushTimer);
+  flushTimer = setTimeout(() => {
+    flushTimer = null;
+    void flushNoteLinkIndex();
+  }, FLUSH_DELAY);
+};
+
+// Write everything queued so far; resolves once the index is up to date
+export const flushNoteLinkIndex = (): Promise<void> => {
+  const updates = new Map(pendingEntries);
+  const snapshot = pendingSnapshot;
+  pendingEntries.clear();
+  pendingSnapshot = null;
+  writeChain = writeChain
+    .then(async () => {
+      if (!snapshot && updates.size === 0) return;
+      const index = snapshot ?? await currentIndex();
+      updates.forEach((entry, id) => {
+        if (entry) index.set(id, entry);
+        else index.delete(id);
+      });
+      entries = index;
+      await persist(index);
+    })
+    .catch(error => {
+      console.warn('Note link index update failed:', error);
+    });
+  return writeChain;
+};
+
+export const queueNoteLinks = (note: Note): void => {
+  pendingEntries.set(note.id, entryOf(note));
+  scheduleFlush();
+};
+
+export const queueNoteLinksRemoval = (noteId: string): void => {
+  pendingEntries.set(noteId, null);
+  scheduleFlush();
+};
+
+// The complete set of notes after a bulk save; notes not in it are dropped
+export const queueNoteLinksSnapshot = (notes: Note[]): void => {
+  const snapshot = new Map<string, NoteLinkEntry>();
+  notes.forEach(note => {
+    const entry = entryOf(note);
+    if (entry) snapshot.set(note.id, entry);
+  });
+  pendingEntries.clear();
+  pendingSnapshot = snapshot;
+  scheduleFlush();
+};
+
+// ============ Queries ============
+
+const loadEntries = async (): Promise<NoteLinkEntry[]> => {
+  await flushNoteLinkIndex();
+  return [...(await currentIndex()).values()];
+};
+
+// Ids of the notes each entry links to, including [[Title]] references to existing notes
+const resolveLinks = (all: NoteLinkEntry[]): Map<string, string[]> => {
+  const byTitle = new Map<string, string>();
+  all.forEach(entry => {
+    const key = entry.title.trim().toLowerCase();
+    if (key && !byTitle.has(key)) byTitle.set(key, entry.id);
+  });
+  return new Map(all.map(entry => {
+    const titled = entry.titleLinks
+      .map(title => byTitle.get(title.toLowerCase()))
+      .filter((id): id is string => !!id);
+    const links = new Set([...entry.links, ...titled]);
+    links.delete(entry.id);
+    return [entry.id, [...links]];
+  }));
+};
+
+// Ids of the notes that link to `noteId`
+export const getBacklinkIds = async (noteId: string): Promise<string[]> => {
+  const links = resolveLinks(await loadEntries());
+  return [...links].filter(([, targets]) => targets.includes(noteId)).map(([id]) => id);
+};
+
+// Every note and the links between them; links to notes that no longer exist are left out
+export const getNoteLinkGraph = async (): Promise<NoteLinkGraph> => {
+  const all = await loadEntries();
+  const known = new Set(all.map(entry => entry.id));
+  const degree = new Map<string, number>();
+  const edges: NoteGraphEdge[] = [];
+  resolveLinks(all).forEach((targets, source) => {
+    targets.filter(target => known.has(target)).forEach(target => {
+      edges.push({ source, target });
+      degree.set(source, (degree.get(source) || 0) + 1);
+      degree.set(target, (degree.get(target) || 0) + 1);
+    });
+  });
+  const nodes = all.map(entry => ({
+    id: entry.id,
+    title: entry.title,
+    type: entry.type,
+    folderId: entry.folderId,
+    hidden: entry.hidden,
+    archived: entry.archived,
+    degree: degree.get(entry.id) || 0,
+  }));
+  return { nodes, edges };
+};
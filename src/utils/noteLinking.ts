@@ -1,46 +1,183 @@
-import { Note } from '@/types/note';
+/**
+ * Note Linking - links between notes, stored by note id
+ *
+ * A link is `<a class="note-link" data-note-id="...">📝 Title</a>`. The id
+ * keeps it pointing at the same note after a rename; the title is display
+ * text only, rewritten by relinkRenamedNote. Typing [[Title]] still works:
+ * resolveNoteLinks turns it into a link once a note of that title exists.
+ */
 
-// Parse [[note title]] syntax and return linked content
-export const parseNoteLinks = (content: string, notes: Note[]): string => {
-  const linkRegex = /\[\[([^\]]+)\]\]/g;
-  
-  return content.replace(linkRegex, (match, noteTitle) => {
-    const linkedNote = notes.find(
-      n => n.title.toLowerCase() === noteTitle.toLowerCase().trim()
-    );
-    
-    if (linkedNote) {
-      return `<a href="#" class="note-link" data-note-id="${linkedNote.id}" style="color: #3B82F6; text-decoration: none; background: rgba(59, 130, 246, 0.1); padding: 2px 6px; border-radius: 4px; font-weight: 500;">📝 ${noteTitle}</a>`;
-    }
-    
-    // Return unlinked style for non-existent notes
-    return `<span class="note-link-missing" style="color: #9CA3AF; text-decoration: line-through; background: rgba(156, 163, 175, 0.1); padding: 2px 6px; border-radius: 4px;">[[${noteTitle}]]</span>`;
-  });
+import { Note, NoteType } from '@/types/note';
+import { escapeHtml } from '@/lib/sanitize';
+import { isEncrypted } from '@/utils/noteEncryption';
+
+const LINK_STYLE = 'color: #3B82F6; text-decoration: none; background: rgba(59, 130, 246, 0.1); padding: 2px 6px; border-radius: 4px; font-weight: 500;';
+const MIN_MENTION_LENGTH = 3;
+const SNIPPET_CONTEXT = 40;
+
+// Text inside these is never turned into links
+const SKIPPED_TAGS = new Set(['A', 'CODE', 'PRE', 'SCRIPT', 'STYLE']);
+
+export interface UnlinkedMention {
+  note: Note;
+  count: number;
+  snippet: string;
+}
+
+const escapeRegExp = (text: string): string => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+const linkText = (title: string) => `📝 ${title || 'Untitled'}`;
+
+export const noteLinkHtml = (note: Pick<Note, 'id' | 'title'>): string =>
+  `<a href="#" class="note-link" data-note-id="${escapeHtml(note.id)}" style="${LINK_STYLE}">${escapeHtml(linkText(note.title))}</a>`;
+
+// Ids of the notes a note links to, in order of first appearance
+export const linkedNoteIds = (content: string): string[] => {
+  const ids = Array.from(content.matchAll(/<a\b[^>]*>/g), match => match[0])
+    .filter(tag => /\sclass="note-link"/.test(tag))
+    .map(tag => /\sdata-note-id="([^"]+)"/.exec(tag)?.[1])
+    .filter((id): id is string => !!id);
+  return Array.from(new Set(ids));
 };
 
-// Extract all note links from content
+// Titles written as [[Title]] that are not links yet
 export const extractNoteLinks = (content: string): string[] => {
   const linkRegex = /\[\[([^\]]+)\]\]/g;
   const links: string[] = [];
   let match;
-  
+
   while ((match = linkRegex.exec(content)) !== null) {
     links.push(match[1].trim());
   }
-  
+
   return links;
 };
 
-// Find notes that link to a specific note
-export const findBacklinks = (targetNote: Note, allNotes: Note[]): Note[] => {
-  return allNotes.filter(note => {
-    if (note.id === targetNote.id) return false;
-    const links = extractNoteLinks(note.content);
-    return links.some(link => link.toLowerCase() === targetNote.title.toLowerCase());
+// Notes whose content is rich text; the other types keep drawings, JSON or code there
+const RICH_TEXT_TYPES: NoteType[] = ['regular', 'lined', 'sticky'];
+
+// Whether a note's content can be read and rewritten as HTML
+export const hasLinkableContent = (note: Pick<Note, 'type' | 'content'>): boolean =>
+  RICH_TEXT_TYPES.includes(note.type) && !!note.content && !isEncrypted(note.content);
+
+/**
+ * Rewrite the text outside links and code in `html`. `replace` returns the
+ * HTML to put in place of a text node, or null to leave it alone.
+ */
+const rewriteText = (html: string, replace: (text: string) => string | null): string => {
+  const doc = new DOMParser().parseFromString(`<!DOCTYPE html><body>${html}</body>`, 'text/html');
+  const texts: Text[] = [];
+  const walk = (node: Node) => {
+    node.childNodes.forEach(child => {
+      if (child.nodeType === Node.TEXT_NODE) texts.push(child as Text);
+      else if (child.nodeType === Node.ELEMENT_NODE && !SKIPPED_TAGS.has((child as Element).tagName)) walk(child);
+    });
+  };
+  walk(doc.body);
+
+  let changed = false;
+  texts.forEach(text => {
+    const replacement = replace(text.data);
+    if (replacement === null) return;
+    const template = doc.createElement('template');
+    template.innerHTML = replacement;
+    text.replaceWith(template.content);
+    changed = true;
+  });
+  return changed ? doc.body.innerHTML : html;
+};
+
+// Turn [[Title]] text into links to the notes with those titles; unknown titles stay as text
+export const resolveNoteLinks = (content: string, notes: Note[]): string => {
+  if (!content.includes('[[')) return content;
+  const byTitle = new Map<string, Note>();
+  notes.forEach(note => {
+    const key = note.title.trim().toLowerCase();
+    if (key && !note.isDeleted && !byTitle.has(key)) byTitle.set(key, note);
+  });
+  return rewriteText(content, text => {
+    let found = false;
+    const html = escapeHtml(text).replace(/\[\[([^\]]+)\]\]/g, (match, title: string) => {
+      const note = byTitle.get(title.trim().toLowerCase());
+      if (!note) return match;
+      found = true;
+      return noteLinkHtml(note);
+    });
+    return found ? html : null;
+  });
+};
+
+/**
+ * After `note` is renamed, update the text of the links to it in `notes`.
+ * Returns the notes that changed.
+ */
+export const relinkRenamedNote = (note: Note, notes: Note[]): Note[] => {
+  const text = linkText(note.title);
+  return notes.flatMap(other => {
+    if (other.id === note.id || !hasLinkableContent(other) || !linkedNoteIds(other.content).includes(note.id)) return [];
+    const doc = new DOMParser().parseFromString(`<!DOCTYPE html><body>${other.content}</body>`, 'text/html');
+    let changed = false;
+    doc.body.querySelectorAll('a.note-link').forEach(link => {
+      if (link.getAttribute('data-note-id') === note.id && link.textContent !== text) {
+        link.textContent = text;
+        changed = true;
+      }
+    });
+    return changed ? [{ ...other, content: doc.body.innerHTML, updatedAt: new Date() }] : [];
+  });
+};
+
+const mentionPattern = (title: string): RegExp | null => {
+  const trimmed = title.trim();
+  if (trimmed.length < MIN_MENTION_LENGTH) return null;
+  return new RegExp(`(?<![\\p{L}\\p{N}_])${escapeRegExp(trimmed)}(?![\\p{L}\\p{N}_])`, 'giu');
+};
+
+// Plain text of a note outside links and code, where a mention could be linked
+const linkableText = (content: string): string => {
+  const parts: string[] = [];
+  rewriteText(content, text => {
+    parts.push(text);
+    return null;
+  });
+  return parts.join(' ').replace(/\s+/g, ' ');
+};
+
+/**
+ * Notes that mention `target`'s title in plain text without linking it,
+ * with how often and a snippet around the first mention.
+ */
+export const findUnlinkedMentions = (target: Pick<Note, 'id' | 'title'>, notes: Note[]): UnlinkedMention[] => {
+  const pattern = mentionPattern(target.title);
+  if (!pattern) return [];
+  return notes.flatMap(note => {
+    if (note.id === target.id || note.isDeleted || note.isHidden || !hasLinkableContent(note)) return [];
+    const text = linkableText(note.content);
+    const matches = Array.from(text.matchAll(pattern));
+    if (matches.length === 0) return [];
+    const at = matches[0].index ?? 0;
+    const start = Math.max(0, at - SNIPPET_CONTEXT);
+    const end = Math.min(text.length, at + matches[0][0].length + SNIPPET_CONTEXT);
+    const snippet = `${start > 0 ? '…' : ''}${text.slice(start, end).trim()}${end < text.length ? '…' : ''}`;
+    return [{ note, count: matches.length, snippet }];
   });
 };
 
-// Insert a note link at cursor position
-export const insertNoteLink = (noteTitle: string): string => {
-  return `[[${noteTitle}]]`;
+// Turn every plain-text mention of `target`'s title in `content` into a link
+export const linkMentions = (content: string, target: Pick<Note, 'id' | 'title'>): string => {
+  const pattern = mentionPattern(target.title);
+  if (!pattern) return content;
+  return rewriteText(content, text => {
+    pattern.lastIndex = 0;
+    if (!pattern.test(text)) return null;
+    pattern.lastIndex = 0;
+    let html = '';
+    let last = 0;
+    for (const match of text.matchAll(pattern)) {
+      const at = match.index ?? 0;
+      html += escapeHtml(text.slice(last, at)) + noteLinkHtml(target);
+      last = at + match[0].length;
+    }
+    return html + escapeHtml(text.slice(last));
+  });
 };
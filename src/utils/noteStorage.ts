@@ -1,4 +1,7 @@
 import { Note } from '@/types/note';
+import { sealNote } from '@/utils/noteEncryption';
+import { queueNoteIndex, queueNoteRemoval, queueNotesSnapshot } from '@/utils/searchIndex';
+import { queueNoteLinks, queueNoteLinksRemoval, queueNoteLinksSnapshot } from '@/utils/noteLinkIndex';
 
 const DB_NAME = 'nota-notes-db';
 const DB_VERSION = 1;
@@ -39,6 +42,20 @@ const openDB = (): Promise<IDBDatabase> => {
   });
 };
 
+// Revive date fields of a note read from IndexedDB or parsed from JSON
+export const hydrateNote = (note: any): Note => ({
+  ...note,
+  createdAt: new Date(note.createdAt),
+  updatedAt: new Date(note.updatedAt),
+  archivedAt: note.archivedAt ? new Date(note.archivedAt) : undefined,
+  deletedAt: note.deletedAt ? new Date(note.deletedAt) : undefined,
+  reminderTime: note.reminderTime ? new Date(note.reminderTime) : undefined,
+  voiceRecordings: note.voiceRecordings?.map((r: any) => ({
+    ...r,
+    timestamp: new Date(r.timestamp),
+  })) || [],
+});
+
 export const loadNotesFromDB = async (): Promise<Note[]> => {
   try {
     const database = await openDB();
@@ -48,18 +65,7 @@ export const loadNotesFromDB = async (): Promise<Note[]> => {
       const request = store.getAll();
 
       request.onsuccess = () => {
-        const notes = request.result.map((note: any) => ({
-          ...note,
-          createdAt: new Date(note.createdAt),
-          updatedAt: new Date(note.updatedAt),
-          archivedAt: note.archivedAt ? new Date(note.archivedAt) : undefined,
-          deletedAt: note.deletedAt ? new Date(note.deletedAt) : undefined,
-          reminderTime: note.reminderTime ? new Date(note.reminderTime) : undefined,
-          voiceRecordings: note.voiceRecordings?.map((r: any) => ({
-            ...r,
-            timestamp: new Date(r.timestamp),
-          })) || [],
-        }));
+        const notes = request.result.map(hydrateNote);
         resolve(notes);
       };
 
@@ -76,6 +82,10 @@ export const loadNotesFromDB = async (): Promise<Note[]> => {
 
 export const saveNotesToDB = async (notes: Note[]): Promise<void> => {
   try {
+    // Unlocked protected notes are encrypted again before they hit the disk
+    const sealedNotes = await Promise.all(notes.map(sealNote));
+    queueNotesSnapshot(sealedNotes);
+    queueNoteLinksSnapshot(sealedNotes);
     const database = await openDB();
     return new Promise((resolve, reject) => {
       const transaction = database.transaction([STORE_NAME], 'readwrite');
@@ -85,7 +95,7 @@ export const saveNotesToDB = async (notes: Note[]): Promise<void> => {
       const clearRequest = store.clear();
       
       clearRequest.onsuccess = () => {
-        notes.forEach(note => {
+        sealedNotes.forEach(note => {
           store.put({
             ...note,
             createdAt: note.createdAt.toISOString(),
@@ -111,8 +121,11 @@ export const saveNotesToDB = async (notes: Note[]): Promise<void> => {
   }
 };
 
-export const saveNoteToDBSingle = async (note: Note): Promise<void> => {
+export const saveNoteToDBSingle = async (unsealedNote: Note): Promise<void> => {
   try {
+    const note = await sealNote(unsealedNote);
+    queueNoteIndex(note);
+    queueNoteLinks(note);
     const database = await openDB();
     return new Promise((resolve, reject) => {
       const transaction = database.transaction([STORE_NAME], 'readwrite');
@@ -140,6 +153,8 @@ export const saveNoteToDBSingle = async (note: Note): Promise<void> => {
 };
 
 export const deleteNoteFromDB = async (noteId: string): Promise<void> => {
+  queueNoteRemoval(noteId);
+  queueNoteLinksRemoval(noteId);
   try {
     const database = await openDB();
     return new Promise((resolve, reject) => {
@@ -0,0 +1,220 @@
+import { describe, expect, it } from 'vitest';
+import { Block, Inline, Mark, NoteDocument } from './noteDocument';
+import {
+  EditorState,
+  chainCommands,
+  changeListDepth,
+  clearMarks,
+  createHistory,
+  cursorAt,
+  deleteText,
+  insertBlocks,
+  insertText,
+  recordEdit,
+  redoEdit,
+  setAlign,
+  setBlockType,
+  setMark,
+  toggleBlockType,
+  toggleChecked,
+  toggleList,
+  toggleMark,
+  transformText,
+  undoEdit,
+} from './noteTransactions';
+
+const text = (value: string, marks: Mark[] = []): Inline => ({ type: 'text', text: value, marks });
+const paragraph = (...content: Inline[]): Block => ({ type: 'paragraph', content });
+const doc = (...blocks: Block[]): NoteDocument => ({ blocks });
+
+const select = (document: NoteDocument, anchor: [number, number], head: [number, number] = anchor): EditorState => ({
+  doc: document,
+  selection: { anchor: { block: anchor[0], offset: anchor[1] }, head: { block: head[0], offset: head[1] } },
+});
+
+describe('marks', () => {
+  it('toggles a mark on the selection and splits the text around it', () => {
+    const state = toggleMark('bold')(select(doc(paragraph(text('Hello world'))), [0, 6], [0, 11]));
+    expect(state.doc.blocks[0].content).toEqual([text('Hello '), text('world', [{ type: 'bold' }])]);
+    expect(toggleMark('bold')(state).doc.blocks[0].content).toEqual([text('Hello world')]);
+  });
+
+  it('applies to the word around a collapsed cursor', () => {
+    const state = toggleMark('italic')(select(doc(paragraph(text('one two three'))), [0, 5]));
+    expect(state.doc.blocks[0].content).toEqual([text('one '), text('two', [{ type: 'italic' }]), text(' three')]);
+  });
+
+  it('leaves the document alone when the cursor is not in a word', () => {
+    const state = select(doc(paragraph(text('one  two'))), [0, 4]);
+    expect(toggleMark('bold')(state)).toBe(state);
+  });
+
+  it('lets subscript and superscript replace each other', () => {
+    const state = toggleMark('superscript')(toggleMark('subscript')(select(doc(paragraph(text('x2'))), [0, 1], [0, 2])));
+    expect(state.doc.blocks[0].content[1]).toEqual(text('2', [{ type: 'superscript' }]));
+  });
+
+  it('sets, replaces and removes valued marks', () => {
+    const start = select(doc(paragraph(text('link'))), [0, 0], [0, 4]);
+    const linked = setMark('link', 'https://a.example')(start);
+    expect(linked.doc.blocks[0].content).toEqual([text('link', [{ type: 'link', value: 'https://a.example' }])]);
+    const relinked = setMark('link', 'https://b.example')(linked);
+    expect(relinked.doc.blocks[0].content).toEqual([text('link', [{ type: 'link', value: 'https://b.example' }])]);
+    expect(setMark('link', null)(relinked).doc.blocks[0].content).toEqual([text('link')]);
+  });
+
+  it('clears every mark in the selection', () => {
+    const marked = paragraph(text('ab', [{ type: 'bold' }, { type: 'color', value: 'red' }]));
+    expect(clearMarks(select(doc(marked), [0, 0], [0, 2])).doc.blocks[0].content).toEqual([text('ab')]);
+  });
+
+  it('does not mark text inside code blocks', () => {
+    const state = select(doc({ type: 'codeBlock', content: [text('let x')] }), [0, 0], [0, 5]);
+    expect(toggleMark('bold')(state)).toBe(state);
+  });
+});
+
+describe('block types', () => {
+  it('toggles headings on and back to paragraphs', () => {
+    const state = toggleBlockType({ type: 'heading', level: 2 })(select(doc(paragraph(text('Title'))), [0, 0]));
+    expect(state.doc.blocks[0]).toEqual({ type: 'heading', level: 2, align: undefined, content: [text('Title')] });
+    expect(toggleBlockType({ type: 'heading', level: 2 })(state).doc.blocks[0].type).toBe('paragraph');
+  });
+
+  it('turns line breaks into code lines and back', () => {
+    const withBreak = paragraph(text('a'), { type: 'break', marks: [] }, text('b'));
+    const code = setBlockType({ type: 'codeBlock' })(select(doc(withBreak), [0, 0]));
+    expect(code.doc.blocks[0]).toEqual({ type: 'codeBlock', language: undefined, content: [text('a\nb')] });
+    expect(setBlockType({ type: 'paragraph' })(code).doc.blocks[0].content).toEqual(withBreak.content);
+  });
+
+  it('converts every selected block to a list and back', () => {
+    const state = toggleList('bullet')(select(doc(paragraph(text('a')), paragraph(text('b'))), [0, 0], [1, 1]));
+    expect(state.doc.blocks.map(block => block.type)).toEqual(['listItem', 'listItem']);
+    expect(toggleList('bullet')(state).doc.blocks.map(block => block.type)).toEqual(['paragraph', 'paragraph']);
+  });
+
+  it('switches a list to another kind instead of removing it', () => {
+    const state = toggleList('check')(toggleList('bullet')(select(doc(paragraph(text('a'))), [0, 0])));
+    expect(state.doc.blocks[0]).toMatchObject({ type: 'listItem', list: 'check', checked: false });
+  });
+
+  it('indents list items within bounds', () => {
+    const item: Block = { type: 'listItem', list: 'bullet', depth: 0, content: [text('a')] };
+    const state = select(doc(item, paragraph(text('b'))), [0, 0], [1, 0]);
+    const indented = changeListDepth(1)(state);
+    expect(indented.doc.blocks[0]).toMatchObject({ depth: 1 });
+    expect(indented.doc.blocks[1]).toBe(state.doc.blocks[1]);
+    expect(changeListDepth(-1)(state).doc.blocks[0]).toMatchObject({ depth: 0 });
+  });
+
+  it('checks and unchecks checklist items', () => {
+    const item: Block = { type: 'listItem', list: 'check', depth: 0, checked: false, content: [text('a')] };
+    const checked = toggleChecked(select(doc(item), [0, 0]));
+    expect(checked.doc.blocks[0]).toMatchObject({ checked: true });
+    expect(toggleChecked(checked).doc.blocks[0]).toMatchObject({ checked: false });
+  });
+
+  it('aligns blocks, keeping left as the default', () => {
+    const centered = setAlign('center')(select(doc(paragraph(text('a'))), [0, 0]));
+    expect(centered.doc.blocks[0]).toMatchObject({ align: 'center' });
+    expect(setAlign('left')(centered).doc.blocks[0]).toMatchObject({ align: undefined });
+  });
+});
+
+describe('text edits', () => {
+  it('inserts text with the marks of the text before it, but not its link', () => {
+    const bold = { type: 'bold' as const };
+    const link = { type: 'link' as const, value: 'https://a.example' };
+    const state = insertText('!')(select(doc(paragraph(text('Hi', [bold, link]))), [0, 2]));
+    expect(state.doc.blocks[0].content).toEqual([text('Hi', [bold, link]), text('!', [bold])]);
+    expect(state.selection).toEqual(cursorAt(0, 3));
+  });
+
+  it('replaces a selection across blocks and joins them', () => {
+    const state = insertText('-')(select(doc(paragraph(text('abc')), paragraph(text('def'))), [0, 1], [1, 2]));
+    expect(state.doc).toEqual(doc(paragraph(text('a-f'))));
+    expect(state.selection).toEqual(cursorAt(0, 2));
+  });
+
+  it('deletes between two positions in either order', () => {
+    const start = select(doc(paragraph(text('abcdef'))), [0, 0]);
+    const forward = deleteText({ block: 0, offset: 1 }, { block: 0, offset: 3 })(start);
+    const backward = deleteText({ block: 0, offset: 3 }, { block: 0, offset: 1 })(start);
+    expect(forward.doc).toEqual(doc(paragraph(text('adef'))));
+    expect(backward).toEqual(forward);
+    expect(deleteText({ block: 0, offset: 2 }, { block: 0, offset: 2 })(start)).toBe(start);
+  });
+
+  it('keeps a paragraph when everything is deleted from a leading rule', () => {
+    const state = deleteText({ block: 0, offset: 0 }, { block: 1, offset: 1 })(
+      select(doc({ type: 'rule', content: [] }, paragraph(text('a'))), [0, 0])
+    );
+    expect(state.doc).toEqual(doc(paragraph()));
+  });
+
+  it('rewrites selected text and keeps the selection over it', () => {
+    const state = transformText(value => value.toUpperCase())(select(doc(paragraph(text('make loud'))), [0, 5], [0, 9]));
+    expect(state.doc.blocks[0].content).toEqual([text('make LOUD')]);
+    expect(state.selection).toEqual({ anchor: { block: 0, offset: 5 }, head: { block: 0, offset: 9 } });
+  });
+});
+
+describe('insertBlocks', () => {
+  const rule: Block = { type: 'rule', content: [] };
+
+  it('splits the block at the cursor', () => {
+    const state = insertBlocks([rule])(select(doc(paragraph(text('abcd'))), [0, 2]));
+    expect(state.doc).toEqual(doc(paragraph(text('ab')), rule, paragraph(text('cd'))));
+    expect(state.selection).toEqual(cursorAt(2, 0));
+  });
+
+  it('adds a paragraph after the blocks when the cursor was at the end', () => {
+    const state = insertBlocks([rule])(select(doc(paragraph(text('ab'))), [0, 2]));
+    expect(state.doc).toEqual(doc(paragraph(text('ab')), rule, paragraph()));
+  });
+
+  it('replaces an empty paragraph', () => {
+    const state = insertBlocks([rule])(select(doc(paragraph()), [0, 0]));
+    expect(state.doc).toEqual(doc(rule, paragraph()));
+  });
+});
+
+describe('commands', () => {
+  it('never change the state they are given', () => {
+    const start = select(doc(paragraph(text('abc')), paragraph(text('def'))), [0, 1], [1, 1]);
+    const copy = JSON.parse(JSON.stringify(start));
+    chainCommands(toggleMark('bold'), toggleList('ordered'), insertText('x'), setAlign('right'))(start);
+    expect(start).toEqual(copy);
+  });
+});
+
+describe('history', () => {
+  const typed = (value: string, block = 0) => select(doc(paragraph(text(value))), [block, value.length]);
+
+  it('merges typing in the same block into one undo step', () => {
+    let history = createHistory(typed(''));
+    history = recordEdit(history, typed('a'), 'typing');
+    history = recordEdit(history, typed('ab'), 'typing');
+    expect(history.past).toHaveLength(1);
+    expect(undoEdit(history)!.present).toEqual(typed(''));
+  });
+
+  it('starts a new step for commands and for typing after them', () => {
+    let history = createHistory(typed(''));
+    history = recordEdit(history, typed('a'), 'typing');
+    history = recordEdit(history, typed('A'), 'command');
+    history = recordEdit(history, typed('Ab'), 'typing');
+    expect(history.past).toHaveLength(3);
+  });
+
+  it('redoes what was undone until something new is recorded', () => {
+    let history = recordEdit(createHistory(typed('')), typed('a'), 'command');
+    const undone = undoEdit(history)!;
+    expect(redoEdit(undone)!.present).toEqual(typed('a'));
+    history = recordEdit(undone, typed('b'), 'command');
+    expect(history.future).toEqual([]);
+    expect(redoEdit(history)).toBeNull();
+    expect(undoEdit(createHistory(typed('')))).toBeNull();
+  });
+});
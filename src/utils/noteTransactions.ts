@@ -0,0 +1,420 @@
+/**
+ * Note Transactions - edits and undo history for a NoteDocument
+ *
+ * An edit is a Command: a pure function from one EditorState (document and
+ * selection) to the next. Commands never change the state they are given,
+ * so earlier states can be kept for undo as they are, and running the same
+ * command on the same state always gives the same result. A command that
+ * has nothing to do returns the state unchanged.
+ */
+
+import {
+  Block,
+  BlockAlign,
+  DocPosition,
+  Inline,
+  ListKind,
+  Mark,
+  MarkType,
+  NoteDocument,
+  contentLength,
+  emptyParagraph,
+  findMark,
+  inlineLength,
+  isTextBlock,
+  normalizeContent,
+} from './noteDocument';
+
+export interface DocSelection {
+  anchor: DocPosition;
+  head: DocPosition;
+}
+
+export interface EditorState {
+  doc: NoteDocument;
+  selection: DocSelection;
+}
+
+export type Command = (state: EditorState) => EditorState;
+
+interface DocRange {
+  from: DocPosition;
+  to: DocPosition;
+}
+
+// Block types a text block can be turned into
+export type TextBlockType =
+  | { type: 'paragraph' }
+  | { type: 'heading'; level: number }
+  | { type: 'blockquote' }
+  | { type: 'codeBlock'; language?: string };
+
+export const comparePositions = (a: DocPosition, b: DocPosition): number => a.block - b.block || a.offset - b.offset;
+
+export const selectionRange = (selection: DocSelection): DocRange =>
+  comparePositions(selection.anchor, selection.head) <= 0
+    ? { from: selection.anchor, to: selection.head }
+    : { from: selection.head, to: selection.anchor };
+
+export const isCollapsed = (selection: DocSelection): boolean =>
+  comparePositions(selection.anchor, selection.head) === 0;
+
+export const cursorAt = (block: number, offset: number): DocSelection => ({
+  anchor: { block, offset },
+  head: { block, offset },
+});
+
+// ============ Content helpers ============
+
+const splitContent = (content: Inline[], offset: number): [Inline[], Inline[]] => {
+  const before: Inline[] = [];
+  const after: Inline[] = [];
+  let position = 0;
+  content.forEach(inline => {
+    const length = inlineLength(inline);
+    if (position + length <= offset) before.push(inline);
+    else if (position >= offset) after.push(inline);
+    else if (inline.type === 'text') {
+      before.push({ ...inline, text: inline.text.slice(0, offset - position) });
+      after.push({ ...inline, text: inline.text.slice(offset - position) });
+    }
+    position += length;
+  });
+  return [before, after];
+};
+
+const sliceContent = (content: Inline[], from: number, to: number): Inline[] =>
+  splitContent(splitContent(content, to)[0], from)[1];
+
+const withContent = (block: Block, content: Inline[]): Block => ({ ...block, content: normalizeContent(content) });
+
+const replaceBlocks = (doc: NoteDocument, from: number, to: number, blocks: Block[]): NoteDocument => ({
+  blocks: [...doc.blocks.slice(0, from), ...blocks, ...doc.blocks.slice(to + 1)],
+});
+
+// Each text block touched by the range, with the part of it inside the range
+const forEachBlockInRange = (
+  doc: NoteDocument,
+  range: DocRange,
+  fn: (block: Block, start: number, end: number) => Block
+): NoteDocument => ({
+  blocks: doc.blocks.map((block, index) => {
+    if (index < range.from.block || index > range.to.block || !isTextBlock(block)) return block;
+    const start = index === range.from.block ? range.from.offset : 0;
+    const end = index === range.to.block ? range.to.offset : contentLength(block.content);
+    return fn(block, start, end);
+  }),
+});
+
+const mapInlines = (doc: NoteDocument, range: DocRange, fn: (inline: Inline) => Inline): NoteDocument =>
+  forEachBlockInRange(doc, range, (block, start, end) => {
+    if (block.type === 'codeBlock' || start >= end) return block;
+    const [before, rest] = splitContent(block.content, start);
+    const [middle, after] = splitContent(rest, end - start);
+    return withContent(block, [...before, ...middle.map(fn), ...after]);
+  });
+
+const inlinesInRange = (doc: NoteDocument, range: DocRange): Inline[] =>
+  doc.blocks.flatMap((block, index) => {
+    if (index < range.from.block || index > range.to.block || !isTextBlock(block) || block.type === 'codeBlock') return [];
+    const start = index === range.from.block ? range.from.offset : 0;
+    const end = index === range.to.block ? range.to.offset : contentLength(block.content);
+    return sliceContent(block.content, start, end);
+  });
+
+const WORD_CHAR = /[\p{L}\p{N}_'\u2019-]/u;
+
+// The word around a cursor, which formatting applies to when nothing is selected
+const wordRange = (doc: NoteDocument, position: DocPosition): DocRange | null => {
+  const block = doc.blocks[position.block];
+  if (!block || !isTextBlock(block)) return null;
+  const text = block.content.map(inline => (inline.type === 'text' ? inline.text : '\n')).join('');
+  let start = position.offset;
+  let end = position.offset;
+  while (start > 0 && WORD_CHAR.test(text[start - 1])) start--;
+  while (end < text.length && WORD_CHAR.test(text[end])) end++;
+  if (start === end) return null;
+  return { from: { block: position.block, offset: start }, to: { block: position.block, offset: end } };
+};
+
+const markRange = (state: EditorState): DocRange | null =>
+  isCollapsed(state.selection) ? wordRange(state.doc, state.selection.head) : selectionRange(state.selection);
+
+const withoutMark = (marks: Mark[], type: MarkType) => marks.filter(mark => mark.type !== type);
+
+// Remove the range and join what is left of its first and last blocks
+const deleteRange = (doc: NoteDocument, range: DocRange): NoteDocument => {
+  const { from, to } = range;
+  if (comparePositions(from, to) >= 0) return doc;
+  const first = doc.blocks[from.block];
+  const last = doc.blocks[to.block];
+  if (!isTextBlock(first)) {
+    const remaining = replaceBlocks(doc, from.block, to.block, isTextBlock(last) ? [withContent(last, splitContent(last.content, to.offset)[1])] : []);
+    return remaining.blocks.length > 0 ? remaining : { blocks: [emptyParagraph()] };
+  }
+  const head = splitContent(first.content, from.offset)[0];
+  const tail = isTextBlock(last) ? splitContent(last.content, to.offset)[1] : [];
+  return replaceBlocks(doc, from.block, to.block, [withContent(first, [...head, ...tail])]);
+};
+
+// ============ Commands ============
+
+// Add a mark to the selection, or remove it if all of the selection has it
+export const toggleMark = (type: MarkType): Command => state => {
+  const range = markRange(state);
+  if (!range) return state;
+  const inlines = inlinesInRange(state.doc, range);
+  if (inlines.length === 0) return state;
+  const active = inlines.every(inline => findMark(inline.marks, type));
+  // Subscript and superscript exclude each other
+  const exclusive = type === 'subscript' ? 'superscript' : type === 'superscript' ? 'subscript' : null;
+  const doc = mapInlines(state.doc, range, inline => ({
+    ...inline,
+    marks: active
+      ? withoutMark(inline.marks, type)
+      : [...withoutMark(exclusive ? withoutMark(inline.marks, exclusive) : inline.marks, type), { type }],
+  }));
+  return { ...state, doc };
+};
+
+// Set a valued mark (link, color, highlight, font size) on the selection; null removes it
+export const setMark = (type: MarkType, value: string | null): Command => state => {
+  const range = markRange(state);
+  if (!range) return state;
+  const doc = mapInlines(state.doc, range, inline => ({
+    ...inline,
+    marks: value === null ? withoutMark(inline.marks, type) : [...withoutMark(inline.marks, type), { type, value }],
+  }));
+  return { ...state, doc };
+};
+
+export const clearMarks: Command = state => {
+  const range = markRange(state);
+  if (!range) return state;
+  return { ...state, doc: mapInlines(state.doc, range, inline => ({ ...inline, marks: [] })) };
+};
+
+const plainText = (content: Inline[]): string =>
+  content.map(inline => (inline.type === 'text' ? inline.text : inline.type === 'break' ? '\n' : '')).join('');
+
+// Code lines as text separated by line breaks
+const codeToContent = (content: Inline[]): Inline[] =>
+  plainText(content).split('\n').flatMap((line, i): Inline[] => [
+    ...(i > 0 ? [{ type: 'break' as const, marks: [] }] : []),
+    { type: 'text', text: line, marks: [] },
+  ]);
+
+const convertBlock = (block: Block, target: TextBlockType | { type: 'listItem'; list: ListKind }): Block => {
+  const align = 'align' in block ? block.align : undefined;
+  // Code blocks hold plain text; other blocks keep line breaks and atoms
+  const content = target.type === 'codeBlock'
+    ? [{ type: 'text' as const, text: plainText(block.content), marks: [] }]
+    : block.type === 'codeBlock' ? codeToContent(block.content) : block.content;
+  switch (target.type) {
+    case 'paragraph':
+    case 'blockquote':
+      return withContent({ type: target.type, align, content: [] }, content);
+    case 'heading':
+      return withContent({ type: 'heading', level: target.level, align, content: [] }, content);
+    case 'codeBlock':
+      return withContent({ type: 'codeBlock', language: target.language, content: [] }, content);
+    case 'listItem':
+      return withContent({
+        type: 'listItem',
+        list: target.list,
+        depth: block.type === 'listItem' ? block.depth : 0,
+        checked: target.list === 'check' ? (block.type === 'listItem' && block.checked) || false : undefined,
+        align,
+        content: [],
+      }, content);
+  }
+};
+
+const isBlockOfType = (block: Block, target: TextBlockType): boolean =>
+  block.type === target.type && (target.type !== 'heading' || (block.type === 'heading' && block.level === target.level));
+
+// Turn the selected blocks into `target`, or back into paragraphs if they all already are
+export const toggleBlockType = (target: TextBlockType): Command => state => {
+  const range = selectionRange(state.selection);
+  const selected = state.doc.blocks.slice(range.from.block, range.to.block + 1).filter(isTextBlock);
+  if (selected.length === 0) return state;
+  const next: TextBlockType = selected.every(block => isBlockOfType(block, target)) ? { type: 'paragraph' } : target;
+  return { ...state, doc: forEachBlockInRange(state.doc, range, block => convertBlock(block, next)) };
+};
+
+export const setBlockType = (target: TextBlockType): Command => state => {
+  const range = selectionRange(state.selection);
+  return { ...state, doc: forEachBlockInRange(state.doc, range, block => convertBlock(block, target)) };
+};
+
+// Make the selected blocks list items of `list`, or paragraphs if they already are
+export const toggleList = (list: ListKind): Command => state => {
+  const range = selectionRange(state.selection);
+  const selected = state.doc.blocks.slice(range.from.block, range.to.block + 1).filter(isTextBlock);
+  if (selected.length === 0) return state;
+  const remove = selected.every(block => block.type === 'listItem' && block.list === list);
+  return {
+    ...state,
+    doc: forEachBlockInRange(state.doc, range, block =>
+      remove ? convertBlock(block, { type: 'paragraph' }) : convertBlock(block, { type: 'listItem', list })
+    ),
+  };
+};
+
+// Indent (+1) or outdent (-1) the selected list items
+export const changeListDepth = (delta: number): Command => state => {
+  const range = selectionRange(state.selection);
+  return {
+    ...state,
+    doc: forEachBlockInRange(state.doc, range, block =>
+      block.type === 'listItem' ? { ...block, depth: Math.max(0, Math.min(8, block.depth + delta)) } : block
+    ),
+  };
+};
+
+export const toggleChecked: Command = state => {
+  const range = selectionRange(state.selection);
+  return {
+    ...state,
+    doc: forEachBlockInRange(state.doc, range, block =>
+      block.type === 'listItem' && block.list === 'check' ? { ...block, checked: !block.checked } : block
+    ),
+  };
+};
+
+export const setAlign = (align: BlockAlign): Command => state => {
+  const range = selectionRange(state.selection);
+  return {
+    ...state,
+    doc: forEachBlockInRange(state.doc, range, block =>
+      block.type === 'codeBlock' ? block : ({ ...block, align: align === 'left' ? undefined : align } as Block)
+    ),
+  };
+};
+
+// Replace the selection with text, carrying on the marks of the text before it
+export const insertText = (text: string): Command => state => {
+  const range = selectionRange(state.selection);
+  const doc = deleteRange(state.doc, range);
+  const { block: index, offset } = range.from;
+  const block = doc.blocks[index];
+  if (!block || !isTextBlock(block) || !text) return state;
+  const [before, after] = splitContent(block.content, offset);
+  const previous = before[before.length - 1];
+  const marks = block.type === 'codeBlock' || !previous ? [] : withoutMark(previous.marks, 'link');
+  const inserted: Inline = { type: 'text', text, marks };
+  return {
+    doc: replaceBlocks(doc, index, index, [withContent(block, [...before, inserted, ...after])]),
+    selection: cursorAt(index, offset + text.length),
+  };
+};
+
+// Remove the content between two positions and put the cursor where it was
+export const deleteText = (from: DocPosition, to: DocPosition): Command => state => {
+  const range = selectionRange({ anchor: from, head: to });
+  if (comparePositions(range.from, range.to) === 0) return state;
+  return { doc: deleteRange(state.doc, range), selection: cursorAt(range.from.block, range.from.offset) };
+};
+
+/**
+ * Insert blocks (a rule, a table, ...) at the selection, splitting the
+ * block the cursor is in. A paragraph follows them when nothing else the
+ * cursor could go into does.
+ */
+export const insertBlocks = (blocks: Block[]): Command => state => {
+  if (blocks.length === 0) return state;
+  const range = selectionRange(state.selection);
+  const doc = deleteRange(state.doc, range);
+  const { block: index, offset } = range.from;
+  const block = doc.blocks[index];
+  let replacement: Block[];
+  let insertAt: number;
+  if (!block || !isTextBlock(block)) {
+    replacement = block ? [block, ...blocks] : blocks;
+    insertAt = index + (block ? 1 : 0);
+  } else {
+    const [before, after] = splitContent(block.content, offset);
+    const head = before.length > 0 ? [withContent(block, before)] : [];
+    const tail = after.length > 0 || head.length === 0 ? [withContent(block, after)] : [];
+    replacement = [...head, ...blocks, ...tail];
+    insertAt = index + head.length;
+  }
+  let next = replaceBlocks(doc, index, index, replacement);
+  const following = insertAt + blocks.length;
+  if (!next.blocks[following] || !isTextBlock(next.blocks[following])) {
+    next = { blocks: [...next.blocks.slice(0, following), emptyParagraph(), ...next.blocks.slice(following)] };
+  }
+  return { doc: next, selection: cursorAt(following, 0) };
+};
+
+// Change the case (or otherwise rewrite) the selected text, keeping its marks
+export const transformText = (transform: (text: string) => string): Command => state => {
+  if (isCollapsed(state.selection)) return state;
+  const range = selectionRange(state.selection);
+  let lengthChange = 0;
+  const doc = forEachBlockInRange(state.doc, range, (block, start, end) => {
+    if (start >= end) return block;
+    const [before, rest] = splitContent(block.content, start);
+    const [middle, after] = splitContent(rest, end - start);
+    const changed = middle.map(inline => (inline.type === 'text' ? { ...inline, text: transform(inline.text) } : inline));
+    if (block === state.doc.blocks[range.to.block]) lengthChange = contentLength(changed) - contentLength(middle);
+    return withContent(block, [...before, ...changed, ...after]);
+  });
+  const to = { ...range.to, offset: range.to.offset + lengthChange };
+  return { doc, selection: { anchor: range.from, head: to } };
+};
+
+// Run commands one after the other as a single edit
+export const chainCommands = (...commands: Command[]): Command => state =>
+  commands.reduce((current, command) => command(current), state);
+
+// ============ History ============
+
+export type EditKind = 'typing' | 'command';
+
+export interface EditHistory {
+  past: EditorState[];
+  present: EditorState;
+  future: EditorState[];
+  // What made `present`; typing in the same block is undone in one step
+  lastEdit?: { kind: EditKind; block: number; blockCount: number };
+}
+
+const HISTORY_LIMIT = 100;
+
+export const createHistory = (state: EditorState): EditHistory => ({ past: [], present: state, future: [] });
+
+export const recordEdit = (history: EditHistory, state: EditorState, kind: EditKind): EditHistory => {
+  const edit = { kind, block: state.selection.head.block, blockCount: state.doc.blocks.length };
+  const last = history.lastEdit;
+  if (kind === 'typing' && last?.kind === 'typing' && last.block === edit.block && last.blockCount === edit.blockCount) {
+    return { ...history, present: state, future: [], lastEdit: edit };
+  }
+  return {
+    past: [...history.past, history.present].slice(-HISTORY_LIMIT),
+    present: state,
+    future: [],
+    lastEdit: edit,
+  };
+};
+
+// Move the current state along without an undo step, e.g. when only the selection changed
+export const replacePresent = (history: EditHistory, state: EditorState): EditHistory => ({ ...history, present: state });
+
+export const undoEdit = (history: EditHistory): EditHistory | null => {
+  if (history.past.length === 0) return null;
+  return {
+    past: history.past.slice(0, -1),
+    present: history.past[history.past.length - 1],
+    future: [history.present, ...history.future],
+  };
+};
+
+export const redoEdit = (history: EditHistory): EditHistory | null => {
+  if (history.future.length === 0) return null;
+  return {
+    past: [...history.past, history.present],
+    present: history.future[0],
+    future: history.future.slice(1),
+  };
+};
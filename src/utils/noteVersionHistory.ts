@@ -1,5 +1,29 @@
+/**
+ * Note Version History - earlier versions of each note, stored as patches
+ *
+ * Versions live in their own IndexedDB database. Each note's versions form
+ * a chain from oldest to newest: a keyframe holds the whole content, the
+ * versions after it only a word-level patch from the one before, with a new
+ * keyframe every KEYFRAME_INTERVAL versions (or when a patch would be no
+ * smaller than the content).
+ *
+ * Old versions are thinned out as new ones are saved: everything from the
+ * last hour is kept, then one version per hour for a day, one per day for a
+ * month and one per week after that. The newest version and the one the
+ * last sync started from (see syncEngine) are always kept.
+ *
+ * Versions used to be full copies in the `note_versions` setting; they are
+ * moved over the first time history is used. Backups still carry full
+ * copies under that name.
+ */
+
+import { format, startOfWeek } from 'date-fns';
 import { Note } from '@/types/note';
-import { getSetting, setSetting } from '@/utils/settingsStorage';
+import { getSetting, removeSetting } from '@/utils/settingsStorage';
+import { decryptContent, isEncrypted, isNoteUnlocked, sealNote } from '@/utils/noteEncryption';
+import { Patch, applyPatch, createPatch } from '@/utils/textDiff';
+
+export type NoteVersionChangeType = 'create' | 'edit' | 'restore' | 'sync';
 
 export interface NoteVersion {
   id: string;
@@ -7,55 +31,333 @@ export interface NoteVersion {
   content: string;
   title: string;
   timestamp: Date;
-  changeType: 'create' | 'edit' | 'restore';
+  changeType: NoteVersionChangeType;
 }
 
-const STORAGE_KEY = 'note_versions';
-const MAX_VERSIONS_PER_NOTE = 50;
+interface StoredVersion {
+  id: string;
+  noteId: string;
+  title: string;
+  timestamp: string;
+  changeType: NoteVersionChangeType;
+  // The version the last sync of this note started from; never thinned out
+  pinned?: boolean;
+  // Keyframes hold the whole content, the others a patch from the version before
+  content?: string;
+  patch?: Patch;
+}
+
+// Version history kept in settings by older versions, and its name in backups
+export const NOTE_VERSIONS_SETTING = 'note_versions';
+
+const DB_NAME = 'nota-versions-db';
+const DB_VERSION = 1;
+const STORE_NAME = 'versions';
+const NOTE_INDEX = 'noteId';
+const KEYFRAME_INTERVAL = 20;
+
+const HOUR = 60 * 60 * 1000;
+const DAY = 24 * HOUR;
+const MONTH = 30 * DAY;
+
+let db: IDBDatabase | null = null;
+
+const openDB = (): Promise<IDBDatabase> => {
+  if (db) return Promise.resolve(db);
+  return new Promise((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+    request.onerror = () => reject(request.error);
+    request.onsuccess = () => {
+      db = request.result;
+      resolve(db);
+    };
+    request.onupgradeneeded = (event) => {
+      const database = (event.target as IDBOpenDBRequest).result;
+      if (!database.objectStoreNames.contains(STORE_NAME)) {
+        const store = database.createObjectStore(STORE_NAME, { keyPath: 'id' });
+        store.createIndex(NOTE_INDEX, 'noteId', { unique: false });
+      }
+    };
+  });
+};
+
+const requestToPromise = <T>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+const readStored = async (noteId?: string): Promise<StoredVersion[]> => {
+  const store = (await openDB()).transaction(STORE_NAME, 'readonly').objectStore(STORE_NAME);
+  return requestToPromise<StoredVersion[]>(noteId ? store.index(NOTE_INDEX).getAll(noteId) : store.getAll());
+};
+
+// Replace the stored versions of a note: `remove` are deleted, `put` written
+const writeStored = async (put: StoredVersion[], remove: string[] = []): Promise<void> => {
+  const transaction = (await openDB()).transaction(STORE_NAME, 'readwrite');
+  const store = transaction.objectStore(STORE_NAME);
+  remove.forEach(id => store.delete(id));
+  put.forEach(version => store.put(version));
+  await new Promise<void>((resolve, reject) => {
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+  });
+};
+
+// Writes one after another, so two saves of the same note never build on the same chain
+let writeChain: Promise<unknown> = Promise.resolve();
+
+const enqueueWrite = <T>(job: () => Promise<T>): Promise<T> => {
+  const result = writeChain.then(() => ready()).then(job);
+  writeChain = result.catch(error => console.warn('Version history update failed:', error));
+  return result;
+};
+
+// ============ Chains ============
+
+const byTime = (a: { timestamp: string }, b: { timestamp: string }) => a.timestamp.localeCompare(b.timestamp);
+
+// Full versions of one note, oldest first
+const decodeChain = (stored: StoredVersion[]): NoteVersion[] => {
+  let content = '';
+  return [...stored].sort(byTime).map(version => {
+    content = version.content ?? applyPatch(content, version.patch ?? []);
+    return {
+      id: version.id,
+      noteId: version.noteId,
+      title: version.title,
+      content,
+      timestamp: new Date(version.timestamp),
+      changeType: version.changeType,
+    };
+  });
+};
+
+// Store `version` after `previous` (its content), as a patch where that pays off
+const encodeVersion = (
+  version: NoteVersion,
+  previous: string | null,
+  sinceKeyframe: number,
+  pinned?: boolean
+): StoredVersion => {
+  const stored: StoredVersion = {
+    id: version.id,
+    noteId: version.noteId,
+    title: version.title,
+    timestamp: version.timestamp.toISOString(),
+    changeType: version.changeType,
+    ...(pinned ? { pinned } : {}),
+  };
+  if (previous !== null && sinceKeyframe < KEYFRAME_INTERVAL - 1) {
+    const patch = createPatch(previous, version.content);
+    if (JSON.stringify(patch).length < version.content.length) return { ...stored, patch };
+  }
+  return { ...stored, content: version.content };
+};
+
+// Encode a whole chain of full versions, oldest first
+const encodeChain = (versions: NoteVersion[], pinnedIds: Set<string>): StoredVersion[] => {
+  let sinceKeyframe = 0;
+  return versions.map((version, index) => {
+    const stored = encodeVersion(version, index > 0 ? versions[index - 1].content : null, sinceKeyframe, pinnedIds.has(version.id));
+    sinceKeyframe = stored.patch ? sinceKeyframe + 1 : 0;
+    return stored;
+  });
+};
+
+// Number of patches since the last keyframe at the end of a chain
+const patchesAtEnd = (stored: StoredVersion[]): number => {
+  let count = 0;
+  for (let i = stored.length - 1; i >= 0 && stored[i].patch; i--) count++;
+  return count;
+};
+
+// ============ Retention ============
+
+const retentionBucket = (timestamp: Date, now: number): string | null => {
+  const age = now - timestamp.getTime();
+  if (age < HOUR) return null;
+  if (age < DAY) return `hour:${format(timestamp, 'yyyy-MM-dd-HH')}`;
+  if (age < MONTH) return `day:${format(timestamp, 'yyyy-MM-dd')}`;
+  return `week:${format(startOfWeek(timestamp), 'yyyy-MM-dd')}`;
+};
+
+// Ids of the versions (oldest first) the retention rules keep
+const versionsToKeep = (versions: NoteVersion[], pinnedIds: Set<string>, now = Date.now()): Set<string> => {
+  const keep = new Set<string>();
+  const seenBuckets = new Set<string>();
+  [...versions].reverse().forEach((version, index) => {
+    const bucket = retentionBucket(version.timestamp, now);
+    if (index === 0 || pinnedIds.has(version.id) || bucket === null || !seenBuckets.has(bucket)) keep.add(version.id);
+    if (bucket !== null) seenBuckets.add(bucket);
+  });
+  return keep;
+};
+
+// ============ Migration ============
+
+let readyPromise: Promise<void> | null = null;
+
+// Move versions kept in settings by older versions of the app into the store
+const ready = (): Promise<void> => {
+  if (!readyPromise) {
+    readyPromise = (async () => {
+      const legacy = await getSetting<NoteVersion[] | null>(NOTE_VERSIONS_SETTING, null);
+      if (!legacy) return;
+      if (legacy.length > 0) await importVersions(legacy, false);
+      await removeSetting(NOTE_VERSIONS_SETTING);
+    })().catch(error => {
+      readyPromise = null;
+      throw error;
+    });
+  }
+  return readyPromise;
+};
+
+// Add full versions to the store, re-encoding the chains of the notes they belong to
+const importVersions = async (versions: NoteVersion[], replace: boolean): Promise<void> => {
+  const byNote = new Map<string, NoteVersion[]>();
+  versions.forEach(version => {
+    const list = byNote.get(version.noteId) ?? [];
+    list.push({ ...version, timestamp: new Date(version.timestamp) });
+    byNote.set(version.noteId, list);
+  });
+  if (replace) {
+    const store = (await openDB()).transaction(STORE_NAME, 'readwrite').objectStore(STORE_NAME);
+    await requestToPromise(store.clear());
+  }
+  for (const [noteId, imported] of byNote) {
+    const stored = replace ? [] : await readStored(noteId);
+    const existing = decodeChain(stored);
+    const ids = new Set(existing.map(version => version.id));
+    const merged = [...existing, ...imported.filter(version => !ids.has(version.id))]
+      .sort((a, b) => a.timestamp.getTime() - b.timestamp.getTime());
+    const pinnedIds = new Set(stored.filter(version => version.pinned).map(version => version.id));
+    await writeStored(encodeChain(merged, pinnedIds), stored.map(version => version.id));
+  }
+};
+
+// ============ Public API ============
 
 export const getNoteVersions = async (noteId: string): Promise<NoteVersion[]> => {
-  const allVersions = await getSetting<NoteVersion[]>(STORAGE_KEY, []);
-  return allVersions
-    .filter(v => v.noteId === noteId)
-    .map(v => ({ ...v, timestamp: new Date(v.timestamp) }))
-    .sort((a, b) => b.timestamp.getTime() - a.timestamp.getTime());
+  await ready();
+  return decodeChain(await readStored(noteId)).reverse();
 };
 
-export const saveNoteVersion = async (note: Note, changeType: 'create' | 'edit' | 'restore' = 'edit'): Promise<void> => {
-  const allVersions = await getSetting<NoteVersion[]>(STORAGE_KEY, []);
-  
-  // Check if content actually changed
-  const existingVersions = allVersions.filter(v => v.noteId === note.id);
-  const latestVersion = existingVersions[0];
-  
-  if (latestVersion && 
-      latestVersion.content === note.content && 
-      latestVersion.title === note.title) {
-    return; // No changes, don't save
+export const getNoteVersion = async (versionId: string): Promise<NoteVersion | null> => {
+  await ready();
+  const store = (await openDB()).transaction(STORE_NAME, 'readonly').objectStore(STORE_NAME);
+  const stored = await requestToPromise<StoredVersion | undefined>(store.get(versionId));
+  if (!stored) return null;
+  return (await getNoteVersions(stored.noteId)).find(v => v.id === versionId) ?? null;
+};
+
+// Whether stored content holds `plain`; sealing uses a fresh IV each time, so protected content is compared decrypted
+const sameContent = async (stored: string, plain: string, noteId: string): Promise<boolean> => {
+  if (stored === plain) return true;
+  if (!isEncrypted(stored) || isEncrypted(plain) || !isNoteUnlocked(noteId)) return false;
+  try {
+    return (await decryptContent(stored, noteId)) === plain;
+  } catch {
+    return false;
   }
-  
-  const newVersion: NoteVersion = {
-    id: `${note.id}_${Date.now()}`,
-    noteId: note.id,
-    content: note.content,
-    title: note.title,
-    timestamp: new Date(),
-    changeType,
-  };
-  
-  // Add new version
-  allVersions.unshift(newVersion);
-  
-  // Keep only MAX_VERSIONS_PER_NOTE per note
-  const noteVersions = allVersions.filter(v => v.noteId === note.id);
-  if (noteVersions.length > MAX_VERSIONS_PER_NOTE) {
-    const toRemove = noteVersions.slice(MAX_VERSIONS_PER_NOTE);
-    const toRemoveIds = new Set(toRemove.map(v => v.id));
-    const filtered = allVersions.filter(v => !toRemoveIds.has(v.id));
-    await setSetting(STORAGE_KEY, filtered);
-  } else {
-    await setSetting(STORAGE_KEY, allVersions);
+};
+
+/**
+ * Add a version of a sealed note to its chain; returns the new version or the
+ * unchanged latest one. `plainContent` is the content before sealing.
+ */
+const addVersion = async (
+  note: Note,
+  plainContent: string,
+  changeType: NoteVersionChangeType,
+  pin: boolean
+): Promise<NoteVersion> => {
+  const stored = (await readStored(note.id)).sort(byTime);
+  const versions = decodeChain(stored);
+  const latest = versions[versions.length - 1];
+  const pinnedIds = new Set(stored.filter(version => version.pinned).map(version => version.id));
+
+  let version = latest;
+  const changed = !latest || latest.title !== note.title || !(await sameContent(latest.content, plainContent, note.id));
+  if (changed) {
+    version = {
+      id: `${note.id}_${Date.now()}`,
+      noteId: note.id,
+      content: note.content,
+      title: note.title,
+      timestamp: new Date(),
+      changeType,
+    };
+    versions.push(version);
+  }
+  // Only the version the latest sync started from needs to stay
+  if (pin) {
+    pinnedIds.clear();
+    pinnedIds.add(version.id);
+  }
+
+  const keep = versionsToKeep(versions, pinnedIds);
+  const pruned = stored.filter(item => !keep.has(item.id)).map(item => item.id);
+  if (pruned.length > 0) {
+    // Dropping versions breaks the chain of patches, so it is written again
+    const kept = versions.filter(item => keep.has(item.id));
+    await writeStored(encodeChain(kept, pinnedIds), stored.map(item => item.id));
+    return version;
+  }
+
+  const updates: StoredVersion[] = [];
+  if (changed) {
+    const previous = versions.length > 1 ? versions[versions.length - 2].content : null;
+    updates.push(encodeVersion(version, previous, patchesAtEnd(stored), pinnedIds.has(version.id)));
   }
+  if (pin) {
+    stored.forEach(item => {
+      const shouldPin = pinnedIds.has(item.id);
+      if (!!item.pinned !== shouldPin) updates.push({ ...item, pinned: shouldPin || undefined });
+    });
+  }
+  if (updates.length > 0) await writeStored(updates);
+  return version;
+};
+
+export const saveNoteVersion = async (note: Note, changeType: NoteVersionChangeType = 'edit'): Promise<NoteVersion> => {
+  const sealed = await sealNote(note);
+  return enqueueWrite(() => addVersion(sealed, note.content, changeType, false));
+};
+
+/**
+ * Snapshot many notes at once. Sync snapshots are kept as the starting
+ * point for the next three-way merge.
+ */
+export const saveNoteVersions = async (notes: Note[], changeType: NoteVersionChangeType): Promise<NoteVersion[]> => {
+  if (notes.length === 0) return [];
+  const sealedNotes = await Promise.all(notes.map(sealNote));
+  return enqueueWrite(async () => {
+    const versions: NoteVersion[] = [];
+    for (const [index, note] of sealedNotes.entries()) {
+      versions.push(await addVersion(note, notes[index].content, changeType, changeType === 'sync'));
+    }
+    return versions;
+  });
+};
+
+/**
+ * Versions of a protected note with their content decrypted by the note's
+ * session key. Versions that cannot be opened (all of them while the note is
+ * locked, or ones sealed under an earlier password) are left out and counted.
+ */
+export const openNoteVersions = async (versions: NoteVersion[]): Promise<{ versions: NoteVersion[]; unreadable: number }> => {
+  const opened = await Promise.all(versions.map(async version => {
+    if (!isEncrypted(version.content)) return version;
+    try {
+      return { ...version, content: await decryptContent(version.content, version.noteId) };
+    } catch {
+      return null;
+    }
+  }));
+  const readable = opened.filter((version): version is NoteVersion => version !== null);
+  return { versions: readable, unreadable: versions.length - readable.length };
 };
 
 export const restoreNoteVersion = (version: NoteVersion): Partial<Note> => {
@@ -65,12 +367,28 @@ export const restoreNoteVersion = (version: NoteVersion): Partial<Note> => {
   };
 };
 
-export const deleteNoteVersions = async (noteId: string): Promise<void> => {
-  const allVersions = await getSetting<NoteVersion[]>(STORAGE_KEY, []);
-  const filtered = allVersions.filter(v => v.noteId !== noteId);
-  await setSetting(STORAGE_KEY, filtered);
+export const deleteNoteVersions = (noteId: string): Promise<void> =>
+  enqueueWrite(async () => {
+    const stored = await readStored(noteId);
+    await writeStored([], stored.map(version => version.id));
+  });
+
+// Every version of every note as full copies, for backups
+export const exportNoteVersions = async (): Promise<NoteVersion[]> => {
+  await ready();
+  const byNote = new Map<string, StoredVersion[]>();
+  (await readStored()).forEach(version => {
+    const list = byNote.get(version.noteId) ?? [];
+    list.push(version);
+    byNote.set(version.noteId, list);
+  });
+  return [...byNote.values()].flatMap(decodeChain);
 };
 
+// Add versions from a backup; `replace` drops the history already on the device first
+export const importNoteVersions = (versions: NoteVersion[], replace: boolean): Promise<void> =>
+  enqueueWrite(() => importVersions(versions, replace));
+
 export const formatVersionTimestamp = (date: Date): string => {
   const now = new Date();
   const diff = now.getTime() - date.getTime();
@@ -1,6 +1,5 @@
 import { LocalNotifications, LocalNotificationSchema, ActionPerformed } from '@capacitor/local-notifications';
-import { TodoItem, Note, Priority } from '@/types/note';
-import { RepeatSettings, RepeatFrequency } from '@/components/TaskDateTimePage';
+import { TodoItem, Note, Priority, RepeatSettings, RepeatFrequency } from '@/types/note';
 import { addMinutes, addHours, addDays, addWeeks, addMonths, addYears } from 'date-fns';
 import { triggerTripleHeavyHaptic } from './haptics';
 import { getSetting, setSetting } from './settingsStorage';
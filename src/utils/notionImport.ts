@@ -0,0 +1,208 @@
+/**
+ * Notion Import - reads Notion's "Markdown & CSV" export
+ *
+ * Pages become notes (Markdown converted to HTML, images saved as note
+ * attachments, links between pages turned into [[note links]]). Databases
+ * that track tasks - a checkbox or status column - become tasks, with each
+ * row's page text as the description; other databases are imported as notes.
+ */
+
+import { Note, Priority, TaskStatus } from '@/types/note';
+import { parseCsvRecords } from './csvParser';
+import { markdownToHtml } from './markdownToHtml';
+import { makeTaskMediaRef } from './taskMediaStorage';
+import { bytesToDataUrl } from './dataUrl';
+import {
+  ImportFile,
+  ImportFileError,
+  ImportPreview,
+  createImportPreview,
+  getOrAddFolder,
+  importFileText,
+  importId,
+  mediaKindForMime,
+  mimeTypeForFile,
+  parseImportDate,
+} from './externalImport';
+
+// Notion appends the page id to file and folder names: "Roadmap 0123...cdef.md"
+const stripNotionId = (name: string): string => name.replace(/\s+[0-9a-f]{32}$/i, '').trim();
+
+const pageTitleFromPath = (path: string): string =>
+  stripNotionId((path.split('/').pop() || path).replace(/\.[^.]+$/, ''));
+
+const decodePath = (href: string): string => {
+  try {
+    return decodeURIComponent(href);
+  } catch {
+    return href;
+  }
+};
+
+const directoryOf = (path: string): string => path.split('/').slice(0, -1).join('/');
+
+// Resolve "./a/../b" style segments of a relative path
+const joinPath = (dir: string, relative: string): string => {
+  const parts = dir ? dir.split('/') : [];
+  relative.split('/').forEach(segment => {
+    if (segment === '..') parts.pop();
+    else if (segment && segment !== '.') parts.push(segment);
+  });
+  return parts.join('/');
+};
+
+const DONE_COLUMN = /^(done|completed?|checkbox|finished)$/i;
+const STATUS_COLUMN = /^status$/i;
+const DATE_COLUMN = /^(due|due date|date|deadline|when|do date)$/i;
+const PRIORITY_COLUMN = /^priority$/i;
+const TAGS_COLUMN = /^(tags|labels|categories)$/i;
+
+const DONE_VALUES = /^(yes|true|done|completed?|finished)$/i;
+
+const readPriority = (value: string): Priority | undefined => {
+  if (/high|urgent|p1/i.test(value)) return 'high';
+  if (/medium|normal|p2/i.test(value)) return 'medium';
+  if (/low|p3/i.test(value)) return 'low';
+  return undefined;
+};
+
+const readStatus = (value: string): TaskStatus | undefined => {
+  if (DONE_VALUES.test(value)) return 'completed';
+  if (/progress|doing|started/i.test(value)) return 'in_progress';
+  if (/not started|to ?do|backlog/i.test(value)) return 'not_started';
+  return undefined;
+};
+
+// Page body without the title heading and the "Property: value" lines of database rows
+const pageBody = (markdown: string, properties: string[] = []): { title?: string; body: string } => {
+  const lines = markdown.replace(/\r\n?/g, '\n').split('\n');
+  let title: string | undefined;
+  if (lines[0]?.startsWith('# ')) {
+    title = lines.shift()!.slice(2).trim();
+  }
+  if (properties.length > 0) {
+    while (lines.length > 0 && (lines[0].trim() === '' || properties.some(p => lines[0].startsWith(`${p}: `)))) {
+      lines.shift();
+    }
+  }
+  return { title, body: lines.join('\n').trim() };
+};
+
+export const parseNotionExport = (files: ImportFile[]): ImportPreview => {
+  const preview = createImportPreview('notion');
+  const byPath = new Map(files.map(file => [file.name, file]));
+  const markdownFiles = files.filter(file => file.name.toLowerCase().endsWith('.md'));
+  const csvFiles = files.filter(file => file.name.toLowerCase().endsWith('.csv'));
+  if (markdownFiles.length === 0 && csvFiles.length === 0) {
+    throw new ImportFileError('No Notion pages or databases found');
+  }
+
+  // Exports wrap everything in one folder; page folders below it become note folders
+  const root = files.every(file => file.name.includes('/')) &&
+    new Set(files.map(file => file.name.split('/')[0])).size === 1
+    ? files[0].name.split('/')[0]
+    : '';
+
+  // Task databases claim the folder holding their row pages
+  const taskDatabaseDirs = new Set<string>();
+
+  csvFiles
+    // Notion writes "Name.csv" and "Name_all.csv"; the _all file has every row
+    .filter(file => file.name.endsWith('_all.csv') || !byPath.has(file.name.replace(/\.csv$/i, '_all.csv')))
+    .forEach(file => {
+      const records = parseCsvRecords(importFileText(file));
+      const columns = records.length > 0 ? Object.keys(records[0]) : [];
+      const doneColumn = columns.find(c => DONE_COLUMN.test(c));
+      const statusColumn = columns.find(c => STATUS_COLUMN.test(c));
+      if (!doneColumn && !statusColumn) return;
+
+      const dbPath = file.name.replace(/(_all)?\.csv$/i, '');
+      const dbName = pageTitleFromPath(dbPath);
+      taskDatabaseDirs.add(dbPath);
+      const titleColumn = columns[0];
+      const dateColumn = columns.find(c => DATE_COLUMN.test(c));
+      const priorityColumn = columns.find(c => PRIORITY_COLUMN.test(c));
+      const tagsColumn = columns.find(c => TAGS_COLUMN.test(c));
+      const folder = getOrAddFolder(preview.taskFolders, dbName);
+      const rowPages = markdownFiles.filter(page => directoryOf(page.name) === dbPath);
+
+      records.forEach((record, index) => {
+        const text = record[titleColumn];
+        if (!text) {
+          preview.errors.push(`${dbName} row ${index + 2}: row without a title`);
+          return;
+        }
+        const status = statusColumn ? readStatus(record[statusColumn]) : undefined;
+        const completed = doneColumn ? DONE_VALUES.test(record[doneColumn]) : status === 'completed';
+        const tags = tagsColumn ? record[tagsColumn].split(',').map(t => t.trim()).filter(Boolean) : [];
+        const rowPage = rowPages.find(page => pageTitleFromPath(page.name) === text);
+        const description = rowPage ? pageBody(importFileText(rowPage), columns).body : '';
+
+        preview.tasks.push({
+          id: importId('notion'),
+          text,
+          completed,
+          status: completed ? 'completed' : status,
+          priority: priorityColumn ? readPriority(record[priorityColumn]) : undefined,
+          // Date ranges are written "start → end"
+          dueDate: dateColumn ? parseImportDate(record[dateColumn].split('→')[0]) : undefined,
+          tags: tags.length ? tags : undefined,
+          description: description || undefined,
+          folderId: folder.id,
+          createdAt: new Date(),
+          completedAt: completed ? new Date() : undefined,
+        });
+      });
+    });
+
+  markdownFiles
+    .filter(file => !taskDatabaseDirs.has(directoryOf(file.name)))
+    .forEach(file => {
+      const dir = directoryOf(file.name);
+      const { title, body } = pageBody(importFileText(file));
+      const noteId = importId('notion');
+      const images: string[] = [];
+
+      // Links to other exported pages become [[note links]]
+      const linked = body.replace(/(?<!!)\[([^\]]*)\]\(([^)\s]+\.md)\)/g, (_, text: string, href: string) => {
+        const target = joinPath(dir, decodePath(href));
+        return byPath.has(target) ? `[[${pageTitleFromPath(target)}]]` : text;
+      });
+
+      const content = markdownToHtml(linked, {
+        resolveImage: (src) => {
+          if (/^[a-z]+:/i.test(src)) return src;
+          const path = joinPath(dir, decodePath(src));
+          const image = byPath.get(path);
+          const mime = mimeTypeForFile(path);
+          if (!image || mediaKindForMime(mime) !== 'image') {
+            preview.errors.push(`${pageTitleFromPath(file.name)}: image "${path}" not found in the export`);
+            return null;
+          }
+          const id = `${noteId}-${images.length}`;
+          preview.media.push({ kind: 'image', id, dataUrl: bytesToDataUrl(image.data, mime!) });
+          images.push(makeTaskMediaRef('image', id));
+          return null;
+        },
+      });
+
+      // Sub-pages are filed under the top-level page they belong to
+      const relativeDir = root && dir.startsWith(root) ? dir.slice(root.length + 1) : dir;
+      const topFolder = relativeDir.split('/')[0];
+      const now = new Date();
+      const note: Note = {
+        id: noteId,
+        type: 'regular',
+        title: title || pageTitleFromPath(file.name),
+        content,
+        images: images.length ? images : undefined,
+        voiceRecordings: [],
+        folderId: topFolder ? getOrAddFolder(preview.noteFolders, stripNotionId(topFolder)).id : undefined,
+        createdAt: now,
+        updatedAt: now,
+      };
+      preview.notes.push(note);
+    });
+
+  return preview;
+};
@@ -62,6 +62,22 @@ export const getReceipt = async (id: string): Promise<string | null> => {
   });
 };
 
+export const getAllReceipts = async (): Promise<{ id: string; imageData: string }[]> => {
+  const db = await openDB();
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction(STORE_NAME, 'readonly');
+    const store = transaction.objectStore(STORE_NAME);
+    
+    const request = store.getAll();
+    request.onerror = () => reject(request.error);
+    request.onsuccess = () => {
+      resolve((request.result as ReceiptRecord[]).map(({ id, imageData }) => ({ id, imageData })));
+    };
+    
+    transaction.oncomplete = () => db.close();
+  });
+};
+
 export const deleteReceipt = async (id: string): Promise<void> => {
   const db = await openDB();
   return new Promise((resolve, reject) => {
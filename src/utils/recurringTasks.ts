@@ -1,5 +1,6 @@
-import { TodoItem, RepeatType, AdvancedRepeatPattern } from '@/types/note';
-import { addDays, addWeeks, addMonths, addYears, addHours, startOfDay, getDay, setDay, getDate, setDate, differenceInDays, getHours, getMinutes, setHours, setMinutes } from 'date-fns';
+import { TodoItem, RepeatType, AdvancedRepeatPattern, RecurrenceRuleSpec, CalendarEvent, RepeatSettings } from '@/types/note';
+import { addDays, addWeeks, addMonths, addYears, addHours, startOfDay, endOfDay, getDay, setDay, getDate, setDate, differenceInDays, getHours, getMinutes, setHours, setMinutes } from 'date-fns';
+import { RRule, RRuleWeekday, Recurrence, describeRRule, formatRRule, getNextRecurrence, getOccurrences, parseRRule } from './rrule';
 
 export const getNextOccurrence = (
   currentDate: Date,
@@ -152,20 +153,246 @@ const getNthWeekdayOfNextMonth = (
   return addDays(date, (weekNum - 1) * 7);
 };
 
+// ============ RFC 5545 rules ============
+
+const BUSINESS_DAYS: RRuleWeekday[] = [1, 2, 3, 4, 5].map(day => ({ day }));
+
+const toRecurrence = (spec: RecurrenceRuleSpec): Recurrence => ({
+  rule: parseRRule(spec.rrule),
+  dtstart: spec.dtstart ? new Date(spec.dtstart) : undefined,
+  exdates: spec.exdates?.map(d => new Date(d)),
+});
+
+// Express the simpler repeat fields as an RRULE, e.g. for calendar export
+export const legacyRepeatToRRule = (
+  repeatType?: RepeatType,
+  repeatDays?: number[],
+  advancedRepeat?: AdvancedRepeatPattern
+): RRule | null => {
+  if (advancedRepeat) {
+    const interval = advancedRepeat.interval || 1;
+    switch (advancedRepeat.frequency) {
+      case 'hourly':
+        return { freq: 'HOURLY', interval };
+      case 'daily':
+        return { freq: 'DAILY', interval };
+      case 'weekly':
+        return advancedRepeat.weeklyDays?.length
+          ? { freq: 'WEEKLY', interval, byDay: advancedRepeat.weeklyDays.map(day => ({ day })) }
+          : { freq: 'WEEKLY', interval };
+      case 'monthly':
+        if (advancedRepeat.monthlyType === 'weekday' && advancedRepeat.monthlyWeek && advancedRepeat.monthlyDay !== undefined) {
+          return { freq: 'MONTHLY', interval, byDay: [{ day: advancedRepeat.monthlyDay, n: advancedRepeat.monthlyWeek }] };
+        }
+        if (advancedRepeat.monthlyType === 'date' && advancedRepeat.monthlyDay) {
+          return { freq: 'MONTHLY', interval, byMonthDay: [advancedRepeat.monthlyDay] };
+        }
+        return { freq: 'MONTHLY', interval };
+      case 'yearly':
+        return { freq: 'YEARLY', interval };
+      default:
+        return null;
+    }
+  }
+
+  switch (repeatType) {
+    case 'hourly':
+      return { freq: 'HOURLY', interval: 1 };
+    case 'daily':
+      return { freq: 'DAILY', interval: 1 };
+    case 'weekly':
+    case 'custom':
+      if (repeatDays?.length) return { freq: 'WEEKLY', interval: 1, byDay: repeatDays.map(day => ({ day })) };
+      return repeatType === 'weekly' ? { freq: 'WEEKLY', interval: 1 } : null;
+    case 'weekdays':
+      return { freq: 'WEEKLY', interval: 1, byDay: BUSINESS_DAYS };
+    case 'weekends':
+      return { freq: 'WEEKLY', interval: 1, byDay: [{ day: 6 }, { day: 0 }] };
+    case 'monthly':
+      return { freq: 'MONTHLY', interval: 1 };
+    case 'yearly':
+      return { freq: 'YEARLY', interval: 1 };
+    default:
+      return null;
+  }
+};
+
+/**
+ * Plain monthly/yearly repeats used to clamp to the end of shorter months
+ * (Jan 31 -> Feb 28), whereas an RFC 5545 rule skips months without that
+ * day. Keep the old behaviour by picking the last of the remaining days.
+ */
+const clampToMonthEnd = (rule: RRule, start?: Date): RRule => {
+  if (!start || rule.byDay || rule.byMonthDay || rule.byMonth || rule.byYearDay) return rule;
+  const day = start.getDate();
+  if (day <= 28) return rule;
+  const days = Array.from({ length: day - 27 }, (_, i) => 28 + i);
+  if (rule.freq === 'MONTHLY') return { ...rule, byMonthDay: days, bySetPos: [-1] };
+  if (rule.freq === 'YEARLY') return { ...rule, byMonth: [start.getMonth() + 1], byMonthDay: days, bySetPos: [-1] };
+  return rule;
+};
+
+// The task's recurrence as an RFC 5545 rule, whether stored as one or as the simpler repeat fields
+export const getTaskRecurrence = (task: TodoItem): RecurrenceRuleSpec | null => {
+  if (task.recurrence) return task.recurrence;
+  const rule = legacyRepeatToRRule(task.repeatType, task.repeatDays, task.advancedRepeat);
+  if (!rule) return null;
+  const dtstart = task.dueDate ? new Date(task.dueDate) : undefined;
+  return { rrule: formatRRule(clampToMonthEnd(rule, dtstart)), dtstart };
+};
+
+// Closest simple repeat type for a rule, so list badges and filters keep working
+export const rruleToRepeatType = (rule: RRule): RepeatType => {
+  switch (rule.freq) {
+    case 'HOURLY': return 'hourly';
+    case 'DAILY': return 'daily';
+    case 'WEEKLY': return 'weekly';
+    case 'MONTHLY': return 'monthly';
+    case 'YEARLY': return 'yearly';
+  }
+};
+
+const REPEAT_FREQUENCY_TO_RRULE: Record<RepeatSettings['frequency'], RRule['freq']> = {
+  hour: 'HOURLY',
+  daily: 'DAILY',
+  weekly: 'WEEKLY',
+  monthly: 'MONTHLY',
+  yearly: 'YEARLY',
+};
+
+// Simple repeat type matching the date/time page's frequency
+export const repeatSettingsToRepeatType = (settings: RepeatSettings): RepeatType => {
+  return rruleToRepeatType({ freq: REPEAT_FREQUENCY_TO_RRULE[settings.frequency], interval: 1 });
+};
+
+// Build the stored recurrence for the repeat options picked on the date/time page
+export const repeatSettingsToRecurrence = (settings: RepeatSettings, start?: Date): RecurrenceRuleSpec => {
+  const rule: RRule = { freq: REPEAT_FREQUENCY_TO_RRULE[settings.frequency], interval: settings.interval || 1 };
+  if (settings.frequency === 'weekly' && settings.weeklyDays?.length) {
+    rule.byDay = settings.weeklyDays.map(day => ({ day }));
+  }
+  if (settings.frequency === 'monthly' && settings.monthlyDay) {
+    rule.byMonthDay = [settings.monthlyDay];
+  }
+  if (settings.endsType === 'on_date' && settings.endsOnDate) {
+    rule.until = endOfDay(settings.endsOnDate);
+  } else if (settings.endsType === 'after_occurrences' && settings.endsAfterOccurrences) {
+    rule.count = settings.endsAfterOccurrences;
+  }
+  return { rrule: formatRRule(rule), dtstart: start };
+};
+
+/**
+ * Repeat options for the date/time page, or undefined when the rule uses
+ * parts the page cannot show (e.g. BYSETPOS) and must be kept as is.
+ */
+export const recurrenceToRepeatSettings = (spec: RecurrenceRuleSpec): RepeatSettings | undefined => {
+  let rule: RRule;
+  try {
+    rule = parseRRule(spec.rrule);
+  } catch {
+    return undefined;
+  }
+  if (rule.bySetPos || rule.byMonth || rule.byYearDay || rule.byHour || rule.byMinute) return undefined;
+  if (rule.byDay && (rule.freq !== 'WEEKLY' || rule.byDay.some(d => d.n !== undefined))) return undefined;
+  if (rule.byMonthDay && (rule.freq !== 'MONTHLY' || rule.byMonthDay.length !== 1 || rule.byMonthDay[0] < 1)) return undefined;
+
+  const frequency = (Object.keys(REPEAT_FREQUENCY_TO_RRULE) as RepeatSettings['frequency'][])
+    .find(key => REPEAT_FREQUENCY_TO_RRULE[key] === rule.freq)!;
+  return {
+    frequency,
+    interval: rule.interval,
+    endsType: rule.until ? 'on_date' : rule.count !== undefined ? 'after_occurrences' : 'never',
+    endsOnDate: rule.until ? startOfDay(rule.until) : undefined,
+    endsAfterOccurrences: rule.count,
+    weeklyDays: rule.byDay?.map(d => d.day),
+    monthlyDay: rule.byMonthDay?.[0],
+  };
+};
+
+// The next `count` occurrences after `after`, for previews
+export const getUpcomingOccurrences = (spec: RecurrenceRuleSpec, after: Date, count: number): Date[] => {
+  try {
+    return getOccurrences(toRecurrence(spec), after, { after, limit: count });
+  } catch {
+    return [];
+  }
+};
+
+const EVENT_REPEAT_TO_RRULE: Record<CalendarEvent['repeat'], RRule['freq'] | null> = {
+  never: null,
+  daily: 'DAILY',
+  weekly: 'WEEKLY',
+  monthly: 'MONTHLY',
+  yearly: 'YEARLY',
+};
+
+// The event's repeat as a rule anchored at its start, or null for one-off events
+export const getEventRecurrence = (event: CalendarEvent): Recurrence | null => {
+  const dtstart = new Date(event.startDate);
+  if (event.recurrence) {
+    try {
+      return { ...toRecurrence(event.recurrence), dtstart };
+    } catch (error) {
+      console.error('Invalid event recurrence rule:', event.recurrence.rrule, error);
+      return null;
+    }
+  }
+  const freq = EVENT_REPEAT_TO_RRULE[event.repeat];
+  return freq ? { rule: clampToMonthEnd({ freq, interval: 1 }, dtstart), dtstart } : null;
+};
+
+// Start times of an event's occurrences between two dates (inclusive), for calendar views
+export const getEventOccurrences = (event: CalendarEvent, from: Date, to: Date, limit = 500): Date[] => {
+  const recurrence = getEventRecurrence(event);
+  const start = new Date(event.startDate);
+  if (!recurrence) return start >= from && start <= to ? [start] : [];
+  return getOccurrences(recurrence, start, { after: from, before: to, inclusive: true, limit });
+};
+
+// The task's rule anchored at its due date when it has no start of its own yet
+export const anchorTaskRecurrence = (task: TodoItem): RecurrenceRuleSpec | undefined =>
+  task.recurrence && !task.recurrence.dtstart && task.dueDate
+    ? { ...task.recurrence, dtstart: new Date(task.dueDate) }
+    : task.recurrence;
+
+/**
+ * Next due date of a repeating task after `after`. Tasks with an RFC 5545
+ * rule return undefined once COUNT or UNTIL has been reached.
+ */
+export const getNextTaskOccurrence = (task: TodoItem, after: Date): Date | undefined => {
+  const spec = anchorTaskRecurrence(task);
+  if (spec) {
+    try {
+      const recurrence = toRecurrence(spec);
+      return getNextRecurrence({ ...recurrence, dtstart: recurrence.dtstart || after }, after);
+    } catch (error) {
+      console.error('Invalid recurrence rule:', spec.rrule, error);
+      return undefined;
+    }
+  }
+  if (!task.repeatType || task.repeatType === 'none') return undefined;
+  // Pass preserveTime=true to keep the original time for recurring tasks
+  return getNextOccurrence(after, task.repeatType, task.repeatDays, task.advancedRepeat, true);
+};
+
+// The task's time block moved as far as its due date moves; dropped when there is no due date to measure from
+export const moveTimeBlock = (task: TodoItem, dueDate: Date): Pick<TodoItem, 'scheduledStart' | 'scheduledEnd'> => {
+  if (!task.dueDate || !task.scheduledStart || !task.scheduledEnd) return { scheduledStart: undefined, scheduledEnd: undefined };
+  const shift = dueDate.getTime() - new Date(task.dueDate).getTime();
+  return {
+    scheduledStart: new Date(new Date(task.scheduledStart).getTime() + shift),
+    scheduledEnd: new Date(new Date(task.scheduledEnd).getTime() + shift),
+  };
+};
+
 export const createNextRecurringTask = (completedTask: TodoItem): TodoItem | null => {
-  if (!completedTask.repeatType || completedTask.repeatType === 'none') {
+  if ((!completedTask.repeatType || completedTask.repeatType === 'none') && !completedTask.recurrence) {
     return null;
   }
 
   const currentDueDate = completedTask.dueDate ? new Date(completedTask.dueDate) : new Date();
-  // Pass preserveTime=true to keep the original time for recurring tasks
-  const nextDate = getNextOccurrence(
-    currentDueDate,
-    completedTask.repeatType,
-    completedTask.repeatDays,
-    completedTask.advancedRepeat,
-    true // Preserve the original time
-  );
+  const nextDate = getNextTaskOccurrence(completedTask, currentDueDate);
 
   if (!nextDate) {
     return null;
@@ -181,19 +408,21 @@ export const createNextRecurringTask = (completedTask: TodoItem): TodoItem | nul
   return {
     ...completedTask,
     id: `${Date.now()}-recurring`,
+    // An imported UID names the occurrence it came with; later ones get their own
+    icalUid: undefined,
     completed: false,
     dueDate: nextDate,
     reminderTime: newReminderTime,
+    ...moveTimeBlock(completedTask, nextDate),
+    // Anchor the series so COUNT and INTERVAL keep counting from its first occurrence
+    recurrence: anchorTaskRecurrence({ ...completedTask, dueDate: currentDueDate }),
     // Reset time tracking for new occurrence
-    timeTracking: completedTask.timeTracking ? {
-      totalSeconds: 0,
-      isRunning: false,
-      sessions: []
-    } : undefined,
+    timeTracking: completedTask.timeTracking ? { isRunning: false } : undefined,
     // Reset subtasks
     subtasks: completedTask.subtasks?.map(st => ({
       ...st,
       id: `${Date.now()}-${st.id}`,
+      icalUid: undefined,
       completed: false
     }))
   };
@@ -202,8 +431,16 @@ export const createNextRecurringTask = (completedTask: TodoItem): TodoItem | nul
 export const getRepeatLabel = (
   repeatType?: RepeatType,
   repeatDays?: number[],
-  advancedRepeat?: AdvancedRepeatPattern
+  advancedRepeat?: AdvancedRepeatPattern,
+  recurrence?: RecurrenceRuleSpec
 ): string => {
+  if (recurrence) {
+    try {
+      return describeRRule(parseRRule(recurrence.rrule));
+    } catch {
+      return 'Repeating';
+    }
+  }
   if (!repeatType || repeatType === 'none') return '';
 
   const dayNames = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
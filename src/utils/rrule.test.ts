@@ -0,0 +1,291 @@
+import { describe, expect, it } from 'vitest';
+import {
+  formatRecurrence,
+  formatRRule,
+  getNextRecurrence,
+  getOccurrences,
+  occursOnDay,
+  parseICalDate,
+  parseRecurrence,
+  parseRRule,
+  RRuleParseError,
+} from './rrule';
+
+// Occurrences as local yyyy-MM-dd HH:mm strings, which read better than timestamps
+const local = (dates: Date[]) =>
+  dates.map(d => {
+    const pad = (n: number) => String(n).padStart(2, '0');
+    return `${d.getFullYear()}-${pad(d.getMonth() + 1)}-${pad(d.getDate())} ${pad(d.getHours())}:${pad(d.getMinutes())}`;
+  });
+
+const expand = (text: string, limit = 100) => local(getOccurrences(parseRecurrence(text), new Date(), { limit }));
+
+describe('parseRRule', () => {
+  it('parses every supported part', () => {
+    expect(parseRRule('RRULE:FREQ=MONTHLY;INTERVAL=2;BYDAY=MO,-1FR,+2TU;BYSETPOS=1,-1;WKST=SU;COUNT=5')).toEqual({
+      freq: 'MONTHLY',
+      interval: 2,
+      byDay: [{ day: 1 }, { day: 5, n: -1 }, { day: 2, n: 2 }],
+      bySetPos: [1, -1],
+      wkst: 0,
+      count: 5,
+    });
+    expect(parseRRule('FREQ=YEARLY;BYMONTH=1,7;BYMONTHDAY=-1;BYYEARDAY=100;BYHOUR=9;BYMINUTE=30')).toMatchObject({
+      byMonth: [1, 7],
+      byMonthDay: [-1],
+      byYearDay: [100],
+      byHour: [9],
+      byMinute: [30],
+    });
+  });
+
+  it('treats a date-only UNTIL as the end of that day', () => {
+    const rule = parseRRule('FREQ=DAILY;UNTIL=20240110');
+    expect(rule.until?.getTime()).toBe(new Date(2024, 0, 11).getTime() - 1);
+    expect(parseRRule('FREQ=DAILY;UNTIL=20240110T120000Z').until?.toISOString()).toBe('2024-01-10T12:00:00.000Z');
+  });
+
+  it.each([
+    ['', 'no FREQ'],
+    ['FREQ=SECONDLY', 'unsupported frequency'],
+    ['FREQ=WEEKLY;BYWEEKNO=3', 'unsupported part'],
+    ['FREQ=DAILY;COUNT=2;UNTIL=20240101', 'COUNT with UNTIL'],
+    ['FREQ=MONTHLY;BYYEARDAY=10', 'BYYEARDAY outside YEARLY'],
+    ['FREQ=MONTHLY;BYDAY=0MO', 'zero ordinal'],
+    ['FREQ=MONTHLY;BYDAY=XX', 'unknown weekday'],
+    ['FREQ=MONTHLY;BYMONTHDAY=32', 'month day out of range'],
+    ['FREQ=YEARLY;BYMONTH=-1', 'negative month'],
+    ['FREQ=DAILY;INTERVAL=0', 'zero interval'],
+    ['FREQ=DAILY;FOO=1', 'unknown part'],
+  ])('rejects %j (%s)', value => {
+    expect(() => parseRRule(value)).toThrow(RRuleParseError);
+  });
+
+  it('round-trips through formatRRule', () => {
+    const value = 'FREQ=MONTHLY;INTERVAL=3;BYDAY=MO,TU,WE,TH,FR;BYSETPOS=-1;WKST=SU;COUNT=12';
+    expect(formatRRule(parseRRule(value))).toBe(value);
+  });
+});
+
+describe('parseRecurrence', () => {
+  it('reads DTSTART, RRULE and EXDATE lines, including folded ones', () => {
+    const recurrence = parseRecurrence(
+      'DTSTART;TZID=Europe/Berlin:20240131T090000\r\nRRULE:FREQ=MONTHLY;\r\n BYMONTHDAY=-1\r\nEXDATE:20240229T090000,20240430T090000'
+    );
+    expect(recurrence.dtstart).toEqual(new Date(2024, 0, 31, 9));
+    expect(recurrence.rule).toEqual({ freq: 'MONTHLY', interval: 1, byMonthDay: [-1] });
+    expect(local(recurrence.exdates!)).toEqual(['2024-02-29 09:00', '2024-04-30 09:00']);
+  });
+
+  it('accepts a bare rule value', () => {
+    expect(parseRecurrence('FREQ=DAILY;COUNT=3').rule.count).toBe(3);
+  });
+
+  it('rejects text without a rule, with two rules or with unknown lines', () => {
+    expect(() => parseRecurrence('DTSTART:20240101')).toThrow(RRuleParseError);
+    expect(() => parseRecurrence('RRULE:FREQ=DAILY\nRRULE:FREQ=WEEKLY')).toThrow(RRuleParseError);
+    expect(() => parseRecurrence('RRULE:FREQ=DAILY\nSUMMARY:Hi')).toThrow(RRuleParseError);
+  });
+
+  it('round-trips through formatRecurrence', () => {
+    const text = 'DTSTART:20240131T090000\nRRULE:FREQ=WEEKLY;BYDAY=MO,WE;COUNT=4\nEXDATE:20240205T090000';
+    expect(formatRecurrence(parseRecurrence(text))).toBe(text);
+    const allDay = 'DTSTART;VALUE=DATE:20240131\nRRULE:FREQ=DAILY\nEXDATE;VALUE=DATE:20240201';
+    expect(formatRecurrence(parseRecurrence(allDay), true)).toBe(allDay);
+  });
+
+  it('reads UTC date-times as instants', () => {
+    expect(parseICalDate('20240131T090000Z').toISOString()).toBe('2024-01-31T09:00:00.000Z');
+    expect(() => parseICalDate('2024-01-31')).toThrow(RRuleParseError);
+  });
+});
+
+describe('getOccurrences', () => {
+  it('expands weekly BYDAY within each week', () => {
+    expect(expand('DTSTART:20240103T080000\nRRULE:FREQ=WEEKLY;BYDAY=MO,WE,FR;COUNT=5')).toEqual([
+      '2024-01-03 08:00',
+      '2024-01-05 08:00',
+      '2024-01-08 08:00',
+      '2024-01-10 08:00',
+      '2024-01-12 08:00',
+    ]);
+  });
+
+  it('expands ordinal BYDAY within each month', () => {
+    expect(expand('DTSTART:20240101T100000\nRRULE:FREQ=MONTHLY;BYDAY=2TU,-1FR;COUNT=4')).toEqual([
+      '2024-01-09 10:00',
+      '2024-01-26 10:00',
+      '2024-02-13 10:00',
+      '2024-02-23 10:00',
+    ]);
+  });
+
+  it('expands yearly BYDAY without BYMONTH over the whole year', () => {
+    expect(expand('DTSTART:20240101T000000\nRRULE:FREQ=YEARLY;BYDAY=-1MO;COUNT=2')).toEqual([
+      '2024-12-30 00:00',
+      '2025-12-29 00:00',
+    ]);
+  });
+
+  it('expands BYMONTHDAY, skipping months without that day', () => {
+    expect(expand('DTSTART:20240115T090000\nRRULE:FREQ=MONTHLY;BYMONTHDAY=15,31;COUNT=5')).toEqual([
+      '2024-01-15 09:00',
+      '2024-01-31 09:00',
+      '2024-02-15 09:00',
+      '2024-03-15 09:00',
+      '2024-03-31 09:00',
+    ]);
+  });
+
+  it('combines BYMONTHDAY and BYDAY as a filter (Friday the 13th)', () => {
+    expect(expand('DTSTART:20240101T000000\nRRULE:FREQ=MONTHLY;BYDAY=FR;BYMONTHDAY=13;COUNT=3')).toEqual([
+      '2024-09-13 00:00',
+      '2024-12-13 00:00',
+      '2025-06-13 00:00',
+    ]);
+  });
+
+  it('picks BYSETPOS entries from each period', () => {
+    // Last business day of the month
+    expect(expand('DTSTART:20240101T170000\nRRULE:FREQ=MONTHLY;BYDAY=MO,TU,WE,TH,FR;BYSETPOS=-1;COUNT=4')).toEqual([
+      '2024-01-31 17:00',
+      '2024-02-29 17:00',
+      '2024-03-29 17:00',
+      '2024-04-30 17:00',
+    ]);
+    // First and last weekend day of the month
+    expect(expand('DTSTART:20240601T000000\nRRULE:FREQ=MONTHLY;BYDAY=SA,SU;BYSETPOS=1,-1;COUNT=2')).toEqual([
+      '2024-06-01 00:00',
+      '2024-06-30 00:00',
+    ]);
+  });
+
+  describe('month ends', () => {
+    it('skips months too short for the start day rather than clamping', () => {
+      expect(expand('DTSTART:20240131T090000\nRRULE:FREQ=MONTHLY;COUNT=4')).toEqual([
+        '2024-01-31 09:00',
+        '2024-03-31 09:00',
+        '2024-05-31 09:00',
+        '2024-07-31 09:00',
+      ]);
+    });
+
+    it('follows the last day of each month with BYMONTHDAY=-1', () => {
+      expect(expand('DTSTART:20240131T090000\nRRULE:FREQ=MONTHLY;BYMONTHDAY=-1;COUNT=4')).toEqual([
+        '2024-01-31 09:00',
+        '2024-02-29 09:00',
+        '2024-03-31 09:00',
+        '2024-04-30 09:00',
+      ]);
+    });
+
+    it('only repeats February 29th in leap years', () => {
+      expect(expand('DTSTART:20240229T000000\nRRULE:FREQ=YEARLY;COUNT=3')).toEqual([
+        '2024-02-29 00:00',
+        '2028-02-29 00:00',
+        '2032-02-29 00:00',
+      ]);
+    });
+
+    it('gives up on rules that can never match', () => {
+      expect(expand('DTSTART:20240101T000000\nRRULE:FREQ=YEARLY;BYMONTH=2;BYMONTHDAY=30')).toEqual([]);
+    });
+  });
+
+  describe('COUNT and UNTIL', () => {
+    it('counts occurrences from DTSTART, including excluded ones', () => {
+      expect(expand('DTSTART:20240101T090000\nRRULE:FREQ=DAILY;COUNT=3\nEXDATE:20240102T090000')).toEqual([
+        '2024-01-01 09:00',
+        '2024-01-03 09:00',
+      ]);
+    });
+
+    it('does not count a DTSTART that does not match the rule', () => {
+      expect(expand('DTSTART:20240101T090000\nRRULE:FREQ=WEEKLY;BYDAY=FR;COUNT=2')).toEqual([
+        '2024-01-05 09:00',
+        '2024-01-12 09:00',
+      ]);
+    });
+
+    it('stops at UNTIL inclusively', () => {
+      expect(expand('DTSTART:20240101T090000\nRRULE:FREQ=WEEKLY;INTERVAL=2;UNTIL=20240129T090000')).toEqual([
+        '2024-01-01 09:00',
+        '2024-01-15 09:00',
+        '2024-01-29 09:00',
+      ]);
+      expect(expand('DTSTART:20240101T090000\nRRULE:FREQ=DAILY;UNTIL=20240103')).toHaveLength(3);
+    });
+
+    it('ends the series for getNextRecurrence', () => {
+      const recurrence = parseRecurrence('DTSTART:20240101T090000\nRRULE:FREQ=DAILY;COUNT=2');
+      expect(getNextRecurrence(recurrence, new Date(2024, 0, 1, 9))).toEqual(new Date(2024, 0, 2, 9));
+      expect(getNextRecurrence(recurrence, new Date(2024, 0, 2, 9))).toBeUndefined();
+    });
+  });
+
+  describe('EXDATE', () => {
+    it('removes an exact instant only', () => {
+      expect(expand('DTSTART:20240101T090000\nRRULE:FREQ=HOURLY;COUNT=3\nEXDATE:20240101T100000')).toEqual([
+        '2024-01-01 09:00',
+        '2024-01-01 11:00',
+      ]);
+    });
+
+    it('removes a whole day for date-only values', () => {
+      expect(expand('DTSTART:20240101T090000\nRRULE:FREQ=DAILY;BYHOUR=9,17;COUNT=4\nEXDATE:20240101')).toEqual([
+        '2024-01-02 09:00',
+        '2024-01-02 17:00',
+      ]);
+    });
+
+    it('is honoured by occursOnDay', () => {
+      const recurrence = parseRecurrence('DTSTART:20240101T090000\nRRULE:FREQ=DAILY\nEXDATE:20240103T090000');
+      expect(occursOnDay(recurrence, new Date(), new Date(2024, 0, 2))).toBe(true);
+      expect(occursOnDay(recurrence, new Date(), new Date(2024, 0, 3))).toBe(false);
+    });
+  });
+
+  describe('daylight saving time (Europe/Berlin)', () => {
+    it('keeps the wall-clock time of daily occurrences across both changes', () => {
+      expect(expand('DTSTART:20240330T090000\nRRULE:FREQ=DAILY;COUNT=3')).toEqual([
+        '2024-03-30 09:00',
+        '2024-03-31 09:00',
+        '2024-04-01 09:00',
+      ]);
+      expect(expand('DTSTART:20241026T233000\nRRULE:FREQ=DAILY;COUNT=3')).toEqual([
+        '2024-10-26 23:30',
+        '2024-10-27 23:30',
+        '2024-10-28 23:30',
+      ]);
+    });
+
+    it('steps hourly rules in elapsed hours', () => {
+      const dates = getOccurrences(parseRecurrence('DTSTART:20240331T000000\nRRULE:FREQ=HOURLY;COUNT=4'), new Date());
+      expect(local(dates)).toEqual(['2024-03-31 00:00', '2024-03-31 01:00', '2024-03-31 03:00', '2024-03-31 04:00']);
+      expect(dates.map(d => d.toISOString())).toEqual([
+        '2024-03-30T23:00:00.000Z',
+        '2024-03-31T00:00:00.000Z',
+        '2024-03-31T01:00:00.000Z',
+        '2024-03-31T02:00:00.000Z',
+      ]);
+    });
+
+    it('keeps weekly and monthly times on the far side of a change', () => {
+      expect(expand('DTSTART:20241021T083000\nRRULE:FREQ=WEEKLY;COUNT=2')).toEqual(['2024-10-21 08:30', '2024-10-28 08:30']);
+      expect(expand('DTSTART:20240315T083000\nRRULE:FREQ=MONTHLY;COUNT=2')).toEqual(['2024-03-15 08:30', '2024-04-15 08:30']);
+    });
+  });
+
+  it('filters by after, before and limit, skipping ahead on long series', () => {
+    const recurrence = parseRecurrence('DTSTART:20200101T090000\nRRULE:FREQ=DAILY');
+    const after = new Date(2024, 5, 1, 9);
+    expect(local(getOccurrences(recurrence, new Date(), { after, limit: 2 }))).toEqual(['2024-06-02 09:00', '2024-06-03 09:00']);
+    expect(local(getOccurrences(recurrence, new Date(), { after, inclusive: true, limit: 1 }))).toEqual(['2024-06-01 09:00']);
+    expect(getOccurrences(recurrence, new Date(), { after, before: new Date(2024, 5, 5) })).toHaveLength(3);
+  });
+
+  it('uses the fallback start when the recurrence has no DTSTART', () => {
+    const recurrence = parseRecurrence('FREQ=WEEKLY;COUNT=2');
+    expect(local(getOccurrences(recurrence, new Date(2024, 0, 1, 7)))).toEqual(['2024-01-01 07:00', '2024-01-08 07:00']);
+  });
+});
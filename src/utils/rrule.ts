@@ -0,0 +1,581 @@
+/**
+ * RRule - RFC 5545 recurrence rules
+ *
+ * Parses, formats and evaluates RRULE values together with their DTSTART and
+ * EXDATE companions, e.g.
+ *
+ *   DTSTART:20240131T090000
+ *   RRULE:FREQ=MONTHLY;BYDAY=MO,TU,WE,TH,FR;BYSETPOS=-1;COUNT=12
+ *   EXDATE:20240430T090000
+ *
+ * Supported parts: FREQ (HOURLY to YEARLY), INTERVAL, COUNT, UNTIL, BYDAY
+ * (with ordinals), BYMONTHDAY, BYMONTH, BYYEARDAY, BYHOUR, BYMINUTE, BYSETPOS
+ * and WKST. Dates are evaluated in local time; a TZID on DTSTART is read as
+ * floating time. Rules using SECONDLY, MINUTELY, BYWEEKNO or BYSECOND are
+ * rejected rather than evaluated wrongly.
+ *
+ * This module has no app dependencies so tasks, calendar events and imports
+ * can all share it.
+ */
+
+import {
+  addDays,
+  addHours,
+  addMonths,
+  addWeeks,
+  addYears,
+  differenceInCalendarDays,
+  differenceInCalendarMonths,
+  differenceInHours,
+  getDaysInMonth,
+  startOfDay,
+} from 'date-fns';
+
+export type RRuleFrequency = 'YEARLY' | 'MONTHLY' | 'WEEKLY' | 'DAILY' | 'HOURLY';
+
+export interface RRuleWeekday {
+  day: number; // 0-6 for Sunday-Saturday
+  n?: number; // Ordinal within the month or year: 1 = first, -1 = last
+}
+
+export interface RRule {
+  freq: RRuleFrequency;
+  interval: number;
+  count?: number;
+  until?: Date;
+  byDay?: RRuleWeekday[];
+  byMonthDay?: number[]; // 1-31 or -1 (last) to -31
+  byMonth?: number[]; // 1-12
+  byYearDay?: number[]; // 1-366 or negative from the end of the year
+  byHour?: number[];
+  byMinute?: number[];
+  bySetPos?: number[];
+  wkst?: number; // Week start, 0-6; defaults to Monday
+}
+
+export interface Recurrence {
+  rule: RRule;
+  dtstart?: Date;
+  exdates?: Date[];
+}
+
+export interface OccurrenceOptions {
+  after?: Date; // Only occurrences after this instant
+  before?: Date; // Only occurrences before this instant
+  inclusive?: boolean; // Include occurrences equal to `after` / `before`
+  limit?: number; // Stop after this many occurrences (default 100)
+}
+
+export class RRuleParseError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'RRuleParseError';
+  }
+}
+
+const WEEKDAY_CODES = ['SU', 'MO', 'TU', 'WE', 'TH', 'FR', 'SA'];
+const FREQUENCIES: RRuleFrequency[] = ['YEARLY', 'MONTHLY', 'WEEKLY', 'DAILY', 'HOURLY'];
+const UNSUPPORTED_PARTS = ['BYWEEKNO', 'BYSECOND'];
+const DEFAULT_LIMIT = 100;
+// Give up on rules that can never match (e.g. February 30th) after this many empty periods
+const MAX_EMPTY_PERIODS = 10000;
+
+// ============ Date values ============
+
+const pad = (value: number, length = 2) => value.toString().padStart(length, '0');
+
+/**
+ * Parse an iCalendar DATE or DATE-TIME value (20240131, 20240131T090000 or
+ * 20240131T090000Z). Values without a Z are local time.
+ */
+export const parseICalDate = (value: string): Date => {
+  const match = /^(\d{4})(\d{2})(\d{2})(?:T(\d{2})(\d{2})(\d{2})?(Z)?)?$/.exec(value.trim());
+  if (!match) throw new RRuleParseError(`Invalid date "${value}"`);
+  const [, year, month, day, hour = '0', minute = '0', second = '0', utc] = match;
+  const parts = [Number(year), Number(month) - 1, Number(day), Number(hour), Number(minute), Number(second)] as const;
+  const date = utc ? new Date(Date.UTC(...parts)) : new Date(...parts);
+  if (isNaN(date.getTime())) throw new RRuleParseError(`Invalid date "${value}"`);
+  return date;
+};
+
+// Whether an iCalendar value is a DATE (no time part)
+export const isICalDateOnly = (value: string): boolean => /^\d{8}$/.test(value.trim());
+
+// Format a date as an iCalendar DATE, local DATE-TIME, or UTC DATE-TIME
+export const formatICalDate = (date: Date, form: 'date' | 'local' | 'utc' = 'local'): string => {
+  if (form === 'utc') {
+    return `${date.getUTCFullYear()}${pad(date.getUTCMonth() + 1)}${pad(date.getUTCDate())}` +
+      `T${pad(date.getUTCHours())}${pad(date.getUTCMinutes())}${pad(date.getUTCSeconds())}Z`;
+  }
+  const day = `${date.getFullYear()}${pad(date.getMonth() + 1)}${pad(date.getDate())}`;
+  if (form === 'date') return day;
+  return `${day}T${pad(date.getHours())}${pad(date.getMinutes())}${pad(date.getSeconds())}`;
+};
+
+// ============ Parsing ============
+
+const parseIntList = (name: string, value: string, min: number, max: number, allowNegative = false): number[] => {
+  return value.split(',').map(part => {
+    const n = Number(part);
+    const magnitude = Math.abs(n);
+    if (!Number.isInteger(n) || (n < 0 && !allowNegative) || magnitude < min || magnitude > max) {
+      throw new RRuleParseError(`Invalid ${name} value "${part}"`);
+    }
+    return n;
+  });
+};
+
+const parseWeekday = (code: string): number => {
+  const day = WEEKDAY_CODES.indexOf(code.toUpperCase());
+  if (day < 0) throw new RRuleParseError(`Invalid weekday "${code}"`);
+  return day;
+};
+
+// Parse an RRULE value, with or without the "RRULE:" prefix
+export const parseRRule = (value: string): RRule => {
+  const body = value.trim().replace(/^RRULE:/i, '');
+  const parts = new Map<string, string>();
+  body.split(';').filter(Boolean).forEach(part => {
+    const [key, val] = part.split('=');
+    if (!key || val === undefined) throw new RRuleParseError(`Invalid rule part "${part}"`);
+    parts.set(key.toUpperCase(), val);
+  });
+
+  const freq = parts.get('FREQ')?.toUpperCase() as RRuleFrequency | undefined;
+  if (!freq) throw new RRuleParseError('Rule has no FREQ');
+  if (!FREQUENCIES.includes(freq)) throw new RRuleParseError(`Unsupported frequency "${freq}"`);
+  UNSUPPORTED_PARTS.forEach(part => {
+    if (parts.has(part)) throw new RRuleParseError(`Unsupported rule part "${part}"`);
+  });
+
+  const rule: RRule = { freq, interval: 1 };
+  parts.forEach((val, key) => {
+    switch (key) {
+      case 'FREQ':
+        break;
+      case 'INTERVAL':
+        rule.interval = parseIntList(key, val, 1, 10000)[0];
+        break;
+      case 'COUNT':
+        rule.count = parseIntList(key, val, 1, 100000)[0];
+        break;
+      case 'UNTIL':
+        // A DATE-only UNTIL includes the whole day
+        rule.until = isICalDateOnly(val)
+          ? new Date(addDays(parseICalDate(val), 1).getTime() - 1)
+          : parseICalDate(val);
+        break;
+      case 'BYDAY':
+        rule.byDay = val.split(',').map(part => {
+          const match = /^([+-]?\d{1,2})?([A-Za-z]{2})$/.exec(part);
+          if (!match) throw new RRuleParseError(`Invalid BYDAY value "${part}"`);
+          const n = match[1] ? Number(match[1]) : undefined;
+          if (n !== undefined && (n === 0 || Math.abs(n) > 53)) {
+            throw new RRuleParseError(`Invalid BYDAY value "${part}"`);
+          }
+          return n === undefined ? { day: parseWeekday(match[2]) } : { day: parseWeekday(match[2]), n };
+        });
+        break;
+      case 'BYMONTHDAY':
+        rule.byMonthDay = parseIntList(key, val, 1, 31, true);
+        break;
+      case 'BYMONTH':
+        rule.byMonth = parseIntList(key, val, 1, 12);
+        break;
+      case 'BYYEARDAY':
+        rule.byYearDay = parseIntList(key, val, 1, 366, true);
+        break;
+      case 'BYHOUR':
+        rule.byHour = parseIntList(key, val, 0, 23);
+        break;
+      case 'BYMINUTE':
+        rule.byMinute = parseIntList(key, val, 0, 59);
+        break;
+      case 'BYSETPOS':
+        rule.bySetPos = parseIntList(key, val, 1, 366, true);
+        break;
+      case 'WKST':
+        rule.wkst = parseWeekday(val);
+        break;
+      default:
+        throw new RRuleParseError(`Unsupported rule part "${key}"`);
+    }
+  });
+
+  if (rule.count !== undefined && rule.until) {
+    throw new RRuleParseError('COUNT and UNTIL cannot both be set');
+  }
+  if (rule.byYearDay && rule.freq !== 'YEARLY') {
+    throw new RRuleParseError('BYYEARDAY is only supported with FREQ=YEARLY');
+  }
+  return rule;
+};
+
+// Undo iCalendar line folding (continuation lines start with a space or tab)
+export const unfoldICalLines = (text: string): string[] => text.replace(/\r?\n[ \t]/g, '').split(/\r?\n/).filter(l => l.trim());
+
+/**
+ * Parse a recurrence block: an RRULE line with optional DTSTART and EXDATE
+ * lines. A bare rule value ("FREQ=DAILY;COUNT=3") is accepted too.
+ */
+export const parseRecurrence = (text: string): Recurrence => {
+  let rule: RRule | undefined;
+  let dtstart: Date | undefined;
+  const exdates: Date[] = [];
+
+  for (const line of unfoldICalLines(text)) {
+    const colon = line.indexOf(':');
+    const name = (colon >= 0 ? line.slice(0, colon) : '').split(';')[0].toUpperCase();
+    const value = colon >= 0 ? line.slice(colon + 1) : line;
+
+    if (name === 'RRULE' || (!name && /FREQ=/i.test(line))) {
+      if (rule) throw new RRuleParseError('Only one RRULE is supported');
+      rule = parseRRule(value);
+    } else if (name === 'DTSTART') {
+      dtstart = parseICalDate(value);
+    } else if (name === 'EXDATE') {
+      value.split(',').forEach(v => exdates.push(parseICalDate(v)));
+    } else {
+      throw new RRuleParseError(`Unexpected line "${line}"`);
+    }
+  }
+
+  if (!rule) throw new RRuleParseError('No RRULE found');
+  return { rule, dtstart, exdates };
+};
+
+// ============ Formatting ============
+
+// Format a rule as an RRULE value, without the "RRULE:" prefix
+export const formatRRule = (rule: RRule): string => {
+  const parts = [`FREQ=${rule.freq}`];
+  if (rule.interval > 1) parts.push(`INTERVAL=${rule.interval}`);
+  if (rule.byMonth?.length) parts.push(`BYMONTH=${rule.byMonth.join(',')}`);
+  if (rule.byYearDay?.length) parts.push(`BYYEARDAY=${rule.byYearDay.join(',')}`);
+  if (rule.byMonthDay?.length) parts.push(`BYMONTHDAY=${rule.byMonthDay.join(',')}`);
+  if (rule.byDay?.length) {
+    parts.push(`BYDAY=${rule.byDay.map(d => `${d.n ?? ''}${WEEKDAY_CODES[d.day]}`).join(',')}`);
+  }
+  if (rule.byHour?.length) parts.push(`BYHOUR=${rule.byHour.join(',')}`);
+  if (rule.byMinute?.length) parts.push(`BYMINUTE=${rule.byMinute.join(',')}`);
+  if (rule.bySetPos?.length) parts.push(`BYSETPOS=${rule.bySetPos.join(',')}`);
+  if (rule.wkst !== undefined && rule.wkst !== 1) parts.push(`WKST=${WEEKDAY_CODES[rule.wkst]}`);
+  if (rule.count !== undefined) parts.push(`COUNT=${rule.count}`);
+  if (rule.until) parts.push(`UNTIL=${formatICalDate(rule.until, 'utc')}`);
+  return parts.join(';');
+};
+
+// Format a recurrence as DTSTART / RRULE / EXDATE lines
+export const formatRecurrence = (recurrence: Recurrence, allDay = false): string => {
+  const form = allDay ? 'date' : 'local';
+  const lines: string[] = [];
+  if (recurrence.dtstart) {
+    lines.push(`DTSTART${allDay ? ';VALUE=DATE' : ''}:${formatICalDate(recurrence.dtstart, form)}`);
+  }
+  lines.push(`RRULE:${formatRRule(recurrence.rule)}`);
+  if (recurrence.exdates?.length) {
+    const values = recurrence.exdates.map(d => formatICalDate(d, form)).join(',');
+    lines.push(`EXDATE${allDay ? ';VALUE=DATE' : ''}:${values}`);
+  }
+  return lines.join('\n');
+};
+
+// ============ Evaluation ============
+
+const atTime = (year: number, month: number, day: number, hour: number, minute: number, second: number) =>
+  new Date(year, month, day, hour, minute, second);
+
+// Month days (1-based) matching BYMONTHDAY and/or BYDAY in a month
+const expandMonthDays = (rule: RRule, year: number, month: number, fallbackDay: number): number[] => {
+  const daysInMonth = getDaysInMonth(new Date(year, month, 1));
+  let days: number[] | null = null;
+
+  if (rule.byMonthDay?.length) {
+    days = rule.byMonthDay
+      .map(d => (d > 0 ? d : daysInMonth + d + 1))
+      .filter(d => d >= 1 && d <= daysInMonth);
+  }
+
+  if (rule.byDay?.length) {
+    const matching = new Set<number>();
+    rule.byDay.forEach(({ day, n }) => {
+      const all: number[] = [];
+      for (let d = 1; d <= daysInMonth; d++) {
+        if (new Date(year, month, d).getDay() === day) all.push(d);
+      }
+      if (n === undefined) all.forEach(d => matching.add(d));
+      else {
+        const picked = n > 0 ? all[n - 1] : all[all.length + n];
+        if (picked !== undefined) matching.add(picked);
+      }
+    });
+    days = days ? days.filter(d => matching.has(d)) : [...matching];
+  }
+
+  if (days) return days;
+  return fallbackDay <= daysInMonth ? [fallbackDay] : [];
+};
+
+// Days of a year (as [month, day]) matching BYDAY when it is not tied to months
+const expandYearWeekdays = (rule: RRule, year: number): [number, number][] => {
+  const result = new Set<number>();
+  const start = new Date(year, 0, 1);
+  const daysInYear = Math.round((new Date(year + 1, 0, 1).getTime() - start.getTime()) / 86400000);
+  rule.byDay!.forEach(({ day, n }) => {
+    const all: number[] = [];
+    for (let i = 0; i < daysInYear; i++) {
+      if (addDays(start, i).getDay() === day) all.push(i);
+    }
+    if (n === undefined) all.forEach(i => result.add(i));
+    else {
+      const picked = n > 0 ? all[n - 1] : all[all.length + n];
+      if (picked !== undefined) result.add(picked);
+    }
+  });
+  return [...result].map(i => {
+    const date = addDays(start, i);
+    return [date.getMonth(), date.getDate()];
+  });
+};
+
+const expandYearDays = (rule: RRule, year: number): [number, number][] => {
+  const start = new Date(year, 0, 1);
+  const daysInYear = Math.round((new Date(year + 1, 0, 1).getTime() - start.getTime()) / 86400000);
+  return rule.byYearDay!
+    .map(d => (d > 0 ? d - 1 : daysInYear + d))
+    .filter(i => i >= 0 && i < daysInYear)
+    .map(i => {
+      const date = addDays(start, i);
+      return [date.getMonth(), date.getDate()];
+    });
+};
+
+const matchesDayFilters = (rule: RRule, date: Date): boolean => {
+  if (rule.byMonth && !rule.byMonth.includes(date.getMonth() + 1)) return false;
+  if (rule.byMonthDay) {
+    const daysInMonth = getDaysInMonth(date);
+    const ok = rule.byMonthDay.some(d => (d > 0 ? d : daysInMonth + d + 1) === date.getDate());
+    if (!ok) return false;
+  }
+  if (rule.byDay && !rule.byDay.some(d => d.day === date.getDay())) return false;
+  return true;
+};
+
+// Candidate occurrences in the index-th period of the rule, sorted, before COUNT/UNTIL
+const expandPeriod = (rule: RRule, dtstart: Date, index: number): Date[] => {
+  const step = index * rule.interval;
+  const hours = rule.byHour?.length ? rule.byHour : [dtstart.getHours()];
+  const minutes = rule.byMinute?.length ? rule.byMinute : [dtstart.getMinutes()];
+  const second = dtstart.getSeconds();
+  let days: [number, number, number][] = []; // [year, month, day]
+
+  switch (rule.freq) {
+    case 'HOURLY': {
+      const candidate = addHours(dtstart, step);
+      if (!matchesDayFilters(rule, candidate)) return [];
+      if (rule.byHour && !rule.byHour.includes(candidate.getHours())) return [];
+      if (rule.byMinute) {
+        return applySetPos(rule, rule.byMinute.map(m =>
+          atTime(candidate.getFullYear(), candidate.getMonth(), candidate.getDate(), candidate.getHours(), m, second)
+        ));
+      }
+      return [candidate];
+    }
+
+    case 'DAILY': {
+      const day = addDays(startOfDay(dtstart), step);
+      if (!matchesDayFilters(rule, day)) return [];
+      days = [[day.getFullYear(), day.getMonth(), day.getDate()]];
+      break;
+    }
+
+    case 'WEEKLY': {
+      const wkst = rule.wkst ?? 1;
+      const offset = (dtstart.getDay() - wkst + 7) % 7;
+      const weekStart = addWeeks(addDays(startOfDay(dtstart), -offset), step);
+      const weekdays = rule.byDay?.length ? rule.byDay.map(d => d.day) : [dtstart.getDay()];
+      for (let i = 0; i < 7; i++) {
+        const day = addDays(weekStart, i);
+        if (!weekdays.includes(day.getDay())) continue;
+        if (rule.byMonth && !rule.byMonth.includes(day.getMonth() + 1)) continue;
+        days.push([day.getFullYear(), day.getMonth(), day.getDate()]);
+      }
+      break;
+    }
+
+    case 'MONTHLY': {
+      const monthStart = addMonths(new Date(dtstart.getFullYear(), dtstart.getMonth(), 1), step);
+      const year = monthStart.getFullYear();
+      const month = monthStart.getMonth();
+      if (rule.byMonth && !rule.byMonth.includes(month + 1)) return [];
+      days = expandMonthDays(rule, year, month, dtstart.getDate()).map(d => [year, month, d]);
+      break;
+    }
+
+    case 'YEARLY': {
+      const year = addYears(new Date(dtstart.getFullYear(), 0, 1), step).getFullYear();
+      let monthDays: [number, number][];
+      if (rule.byYearDay?.length) {
+        monthDays = expandYearDays(rule, year).filter(([m, d]) => matchesDayFilters(rule, new Date(year, m, d)));
+      } else if (rule.byDay?.length && !rule.byMonth && !rule.byMonthDay) {
+        monthDays = expandYearWeekdays(rule, year);
+      } else {
+        const months = rule.byMonth?.length
+          ? rule.byMonth.map(m => m - 1)
+          : rule.byMonthDay?.length || rule.byDay?.length
+            ? Array.from({ length: 12 }, (_, i) => i)
+            : [dtstart.getMonth()];
+        monthDays = months.flatMap(m =>
+          expandMonthDays(rule, year, m, dtstart.getDate()).map(d => [m, d] as [number, number])
+        );
+      }
+      days = monthDays.map(([m, d]) => [year, m, d]);
+      break;
+    }
+  }
+
+  const candidates: Date[] = [];
+  days.forEach(([year, month, day]) => {
+    hours.forEach(hour => {
+      minutes.forEach(minute => candidates.push(atTime(year, month, day, hour, minute, second)));
+    });
+  });
+  return applySetPos(rule, candidates);
+};
+
+// Sort, de-duplicate and pick BYSETPOS entries from one period's candidates
+const applySetPos = (rule: RRule, candidates: Date[]): Date[] => {
+  const sorted = [...new Map(candidates.map(d => [d.getTime(), d])).values()]
+    .sort((a, b) => a.getTime() - b.getTime());
+  if (!rule.bySetPos?.length) return sorted;
+  const picked = new Map<number, Date>();
+  rule.bySetPos.forEach(pos => {
+    const date = pos > 0 ? sorted[pos - 1] : sorted[sorted.length + pos];
+    if (date) picked.set(date.getTime(), date);
+  });
+  return [...picked.values()].sort((a, b) => a.getTime() - b.getTime());
+};
+
+// Index of a period safely before the one containing `from`, so long series need not be walked from the start
+const firstPeriodIndex = (rule: RRule, dtstart: Date, from: Date): number => {
+  let periods: number;
+  switch (rule.freq) {
+    case 'HOURLY': periods = differenceInHours(from, dtstart); break;
+    case 'DAILY': periods = differenceInCalendarDays(from, dtstart); break;
+    case 'WEEKLY': periods = Math.floor(differenceInCalendarDays(from, dtstart) / 7); break;
+    case 'MONTHLY': periods = differenceInCalendarMonths(from, dtstart); break;
+    case 'YEARLY': periods = from.getFullYear() - dtstart.getFullYear(); break;
+  }
+  return Math.max(0, Math.floor(periods / rule.interval) - 1);
+};
+
+/**
+ * Every occurrence the rule generates from `dtstart`, in order, honouring
+ * COUNT and UNTIL. Like other RFC 5545 implementations, `dtstart` itself is
+ * only included when it matches the rule. EXDATEs are not applied here.
+ *
+ * `from` lets rules without COUNT skip ahead; earlier occurrences may still
+ * be yielded and should be filtered by the caller.
+ */
+export function* iterateRRule(rule: RRule, dtstart: Date, from?: Date): Generator<Date> {
+  let emitted = 0;
+  let emptyPeriods = 0;
+  const startIndex = from && rule.count === undefined ? firstPeriodIndex(rule, dtstart, from) : 0;
+
+  for (let index = startIndex; ; index++) {
+    const candidates = expandPeriod(rule, dtstart, index).filter(d => d.getTime() >= dtstart.getTime());
+    if (candidates.length === 0) {
+      if (++emptyPeriods > MAX_EMPTY_PERIODS) return;
+      continue;
+    }
+    emptyPeriods = 0;
+
+    for (const date of candidates) {
+      if (rule.until && date.getTime() > rule.until.getTime()) return;
+      yield date;
+      emitted++;
+      if (rule.count !== undefined && emitted >= rule.count) return;
+    }
+  }
+}
+
+// An EXDATE excludes the occurrence at that instant; a date-only EXDATE (midnight) the whole day
+const isExcluded = (date: Date, exdates: Date[]): boolean => {
+  return exdates.some(ex => {
+    if (ex.getTime() === date.getTime()) return true;
+    const dateOnly = ex.getHours() === 0 && ex.getMinutes() === 0 && ex.getSeconds() === 0;
+    return dateOnly && startOfDay(date).getTime() === ex.getTime();
+  });
+};
+
+// Occurrences of a recurrence, with EXDATEs removed
+export const getOccurrences = (
+  recurrence: Recurrence,
+  fallbackStart: Date,
+  options: OccurrenceOptions = {}
+): Date[] => {
+  const { after, before, inclusive = false, limit = DEFAULT_LIMIT } = options;
+  const exdates = recurrence.exdates || [];
+  const result: Date[] = [];
+
+  for (const date of iterateRRule(recurrence.rule, recurrence.dtstart || fallbackStart, after)) {
+    const time = date.getTime();
+    if (before && (inclusive ? time > before.getTime() : time >= before.getTime())) break;
+    if (after && (inclusive ? time < after.getTime() : time <= after.getTime())) continue;
+    if (isExcluded(date, exdates)) continue;
+    result.push(date);
+    if (result.length >= limit) break;
+  }
+  return result;
+};
+
+// The first occurrence strictly after `after`, or undefined once the series has ended
+export const getNextRecurrence = (recurrence: Recurrence, after: Date): Date | undefined => {
+  return getOccurrences(recurrence, after, { after, limit: 1 })[0];
+};
+
+// Whether the recurrence has an occurrence on the given calendar day
+export const occursOnDay = (recurrence: Recurrence, fallbackStart: Date, day: Date): boolean => {
+  const start = startOfDay(day);
+  const end = addDays(start, 1);
+  return getOccurrences(recurrence, fallbackStart, { after: new Date(start.getTime() - 1), before: end, limit: 1 }).length > 0;
+};
+
+// ============ Description ============
+
+const DAY_NAMES = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'];
+const MONTH_NAMES = ['January', 'February', 'March', 'April', 'May', 'June', 'July', 'August', 'September', 'October', 'November', 'December'];
+const UNIT_NAMES: Record<RRuleFrequency, string> = { YEARLY: 'year', MONTHLY: 'month', WEEKLY: 'week', DAILY: 'day', HOURLY: 'hour' };
+
+const ordinal = (n: number): string => {
+  if (n === -1) return 'last';
+  if (n < 0) return `${ordinal(-n)} to last`;
+  const suffix = n % 100 >= 11 && n % 100 <= 13 ? 'th' : ['th', 'st', 'nd', 'rd'][n % 10] || 'th';
+  return `${n}${suffix}`;
+};
+
+const isBusinessDays = (days: RRuleWeekday[]) =>
+  days.length === 5 && !days.some(d => d.n !== undefined) && [1, 2, 3, 4, 5].every(day => days.some(d => d.day === day));
+
+// Short English description, e.g. "Monthly on the last business day, 12 times"
+export const describeRRule = (rule: RRule): string => {
+  const unit = UNIT_NAMES[rule.freq];
+  let text = rule.interval > 1
+    ? `Every ${rule.interval} ${unit}s`
+    : { YEARLY: 'Yearly', MONTHLY: 'Monthly', WEEKLY: 'Weekly', DAILY: 'Daily', HOURLY: 'Hourly' }[rule.freq];
+
+  if (rule.byDay?.length && rule.bySetPos?.length === 1 && isBusinessDays(rule.byDay)) {
+    text += ` on the ${ordinal(rule.bySetPos[0])} business day`;
+  } else if (rule.byDay?.length) {
+    const days = rule.byDay.map(d => (d.n !== undefined ? `the ${ordinal(d.n)} ${DAY_NAMES[d.day]}` : DAY_NAMES[d.day]));
+    text += isBusinessDays(rule.byDay) ? ' on weekdays' : ` on ${days.join(', ')}`;
+    if (rule.bySetPos?.length) text += ` (${rule.bySetPos.map(ordinal).join(', ')} match)`;
+  }
+  if (rule.byMonthDay?.length) {
+    text += ` on the ${rule.byMonthDay.map(d => (d === -1 ? 'last day' : ordinal(d))).join(', ')}`;
+  }
+  if (rule.byMonth?.length) text += ` in ${rule.byMonth.map(m => MONTH_NAMES[m - 1]).join(', ')}`;
+  if (rule.count !== undefined) text += `, ${rule.count} time${rule.count === 1 ? '' : 's'}`;
+  if (rule.until) text += `, until ${rule.until.toLocaleDateString()}`;
+  return text;
+};
@@ -0,0 +1,658 @@
+/**
+ * Search Index - persistent full-text index over notes, tasks and expenses
+ *
+ * An inverted index in its own IndexedDB database. Each searchable thing is a
+ * document: a note, an expense entry inside an expense note, a task or a
+ * subtask. Documents are grouped by owner (the note or top-level task they
+ * came from) so an owner can be re-indexed in one step when it is saved.
+ *
+ * Storage hooks queue owners as they are written; the queue is flushed in the
+ * background, skipping owners whose extracted text has not changed. The index
+ * is rebuilt from scratch the first time it is searched, or when
+ * INDEX_VERSION changes.
+ *
+ * Queries match every word, the last one as a prefix (search as you type),
+ * tolerate small typos in longer words, and support "quoted phrases".
+ * Results are ranked BM25-style with title matches weighted higher.
+ */
+
+import { Note, TodoItem, ExpenseEntry } from '@/types/note';
+import { isEncrypted } from '@/utils/noteEncryption';
+
+const DB_NAME = 'nota-search-db';
+const DB_VERSION = 1;
+const DOCS_STORE = 'docs';
+const TERMS_STORE = 'terms';
+const OWNERS_STORE = 'owners';
+const META_STORE = 'meta';
+
+// Bump when extraction or tokenizing changes to force a rebuild
+const INDEX_VERSION = 1;
+const TITLE_WEIGHT = 3;
+const FLUSH_DELAY = 300;
+const REBUILD_BATCH = 200;
+const MAX_PREFIX_EXPANSIONS = 50;
+const SNIPPET_LENGTH = 140;
+
+export type SearchDocKind = 'note' | 'expense' | 'task' | 'subtask';
+
+interface SearchDocInput {
+  key: string;
+  kind: SearchDocKind;
+  id: string;
+  parentId?: string;
+  title: string;
+  body: string;
+}
+
+interface SearchDoc extends SearchDocInput {
+  owner: string;
+  terms: Record<string, number>;
+}
+
+interface TermEntry {
+  term: string;
+  docs: Record<string, number>;
+}
+
+interface OwnerEntry {
+  owner: string;
+  signature: string;
+  keys: string[];
+}
+
+export interface SearchHit {
+  key: string;
+  kind: SearchDocKind;
+  id: string;
+  // Owning task for subtasks, owning note for expense entries
+  parentId?: string;
+  title: string;
+  snippet: string;
+  score: number;
+}
+
+export interface SearchOptions {
+  kinds?: SearchDocKind[];
+  // Most hits to return (default 50); Infinity returns every hit
+  limit?: number;
+}
+
+// ============ Database ============
+
+let db: IDBDatabase | null = null;
+
+const openDB = (): Promise<IDBDatabase> => {
+  return new Promise((resolve, reject) => {
+    if (db) {
+      resolve(db);
+      return;
+    }
+
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+    request.onerror = () => reject(request.error);
+    request.onsuccess = () => {
+      db = request.result;
+      resolve(db);
+    };
+    request.onupgradeneeded = (event) => {
+      const database = (event.target as IDBOpenDBRequest).result;
+      if (!database.objectStoreNames.contains(DOCS_STORE)) {
+        database.createObjectStore(DOCS_STORE, { keyPath: 'key' });
+      }
+      if (!database.objectStoreNames.contains(TERMS_STORE)) {
+        database.createObjectStore(TERMS_STORE, { keyPath: 'term' });
+      }
+      if (!database.objectStoreNames.contains(OWNERS_STORE)) {
+        database.createObjectStore(OWNERS_STORE, { keyPath: 'owner' });
+      }
+      if (!database.objectStoreNames.contains(META_STORE)) {
+        database.createObjectStore(META_STORE, { keyPath: 'key' });
+      }
+    };
+  });
+};
+
+const requestToPromise = <T>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+const getMany = async <T>(storeName: string, keys: string[]): Promise<Map<string, T>> => {
+  const found = new Map<string, T>();
+  if (keys.length === 0) return found;
+  const database = await openDB();
+  const store = database.transaction(storeName, 'readonly').objectStore(storeName);
+  const values = await Promise.all(keys.map(key => requestToPromise<T | undefined>(store.get(key))));
+  values.forEach((value, i) => {
+    if (value) found.set(keys[i], value);
+  });
+  return found;
+};
+
+// ============ Text processing ============
+
+const decodeEntities = (text: string): string =>
+  text
+    .replace(/&nbsp;/g, ' ')
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&#39;/g, "'")
+    .replace(/&amp;/g, '&');
+
+export const htmlToPlainText = (html: string): string =>
+  decodeEntities(
+    html
+      .replace(/<(script|style)[^>]*>[\s\S]*?<\/\1>/gi, ' ')
+      .replace(/<[^>]*>/g, ' ')
+  )
+    .replace(/\s+/g, ' ')
+    .trim();
+
+export const tokenize = (text: string): string[] =>
+  text
+    .toLowerCase()
+    .normalize('NFKD')
+    .replace(/\p{M}/gu, '')
+    .split(/[^\p{L}\p{N}]+/u)
+    .filter(token => token.length > 1 || /\d/.test(token));
+
+// FNV-1a, enough to tell whether an owner's text changed
+const signatureOf = (docs: SearchDocInput[]): string => {
+  const text = JSON.stringify(docs);
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return (hash >>> 0).toString(36) + text.length.toString(36);
+};
+
+const countTerms = (doc: SearchDocInput): Record<string, number> => {
+  const terms: Record<string, number> = {};
+  tokenize(doc.title).forEach(term => { terms[term] = (terms[term] || 0) + TITLE_WEIGHT; });
+  tokenize(doc.body).forEach(term => { terms[term] = (terms[term] || 0) + 1; });
+  return terms;
+};
+
+// Edit distance counting a swap of neighbouring letters as one typo, giving up once it exceeds `max`
+const editDistance = (a: string, b: string, max: number): number => {
+  if (Math.abs(a.length - b.length) > max) return max + 1;
+  let beforePrevious: number[] = [];
+  let previous = Array.from({ length: b.length + 1 }, (_, i) => i);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    let rowMin = i;
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      current[j] = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + cost);
+      if (i > 1 && j > 1 && a[i - 1] === b[j - 2] && a[i - 2] === b[j - 1]) {
+        current[j] = Math.min(current[j], beforePrevious[j - 2] + 1);
+      }
+      rowMin = Math.min(rowMin, current[j]);
+    }
+    if (rowMin > max) return max + 1;
+    beforePrevious = previous;
+    previous = current;
+  }
+  return previous[b.length];
+};
+
+const allowedTypos = (term: string): number => (term.length >= 8 ? 2 : term.length >= 4 ? 1 : 0);
+
+// ============ Extraction ============
+
+const noteOwner = (noteId: string) => `note:${noteId}`;
+const taskOwner = (taskId: string) => `task:${taskId}`;
+
+const parseJson = <T>(content: string): T | null => {
+  try {
+    return JSON.parse(content) as T;
+  } catch {
+    return null;
+  }
+};
+
+const extractNoteDocs = (note: Note): SearchDocInput[] => {
+  const docs: SearchDocInput[] = [];
+  let body = '';
+
+  // Encrypted notes are only findable by title
+  if (!isEncrypted(note.content) && !isEncrypted(note.codeContent)) {
+    switch (note.type) {
+      case 'code':
+        body = note.codeContent || '';
+        break;
+      case 'mindmap': {
+        const data = parseJson<{ nodes?: { text?: string }[] }>(note.content);
+        body = (data?.nodes || []).map(n => n.text || '').join('\n');
+        break;
+      }
+      case 'expense': {
+        const data = parseJson<{ entries?: ExpenseEntry[] }>(note.content);
+        (data?.entries || []).forEach(entry => {
+          docs.push({
+            key: `expense:${note.id}:${entry.id}`,
+            kind: 'expense',
+            id: entry.id,
+            parentId: note.id,
+            title: entry.description || '',
+            body: [entry.category, entry.paymentMethod, entry.notes].filter(Boolean).join(' '),
+          });
+        });
+        break;
+      }
+      case 'sketch':
+        break;
+      default:
+        body = htmlToPlainText(note.content || '');
+    }
+  }
+
+  docs.unshift({
+    key: `note:${note.id}`,
+    kind: 'note',
+    id: note.id,
+    title: note.title || '',
+    body: [note.metaDescription, body].filter(Boolean).join('\n'),
+  });
+  return docs;
+};
+
+const extractTaskDocs = (task: TodoItem): SearchDocInput[] => {
+  const docs: SearchDocInput[] = [{
+    key: `task:${task.id}`,
+    kind: 'task',
+    id: task.id,
+    title: task.text || '',
+    body: task.description || '',
+  }];
+  const addSubtasks = (subtasks: TodoItem[] | undefined) => {
+    subtasks?.forEach(subtask => {
+      docs.push({
+        key: `subtask:${task.id}:${subtask.id}`,
+        kind: 'subtask',
+        id: subtask.id,
+        parentId: task.id,
+        title: subtask.text || '',
+        body: subtask.description || '',
+      });
+      addSubtasks(subtask.subtasks);
+    });
+  };
+  addSubtasks(task.subtasks);
+  return docs;
+};
+
+// ============ Writing ============
+
+// Vocabulary kept in memory for typo matching, loaded on first search
+let vocabulary: Set<string> | null = null;
+
+/**
+ * Replace the documents of each owner (null removes the owner). When a
+ * snapshot prefix is given, every stored owner under it that is missing from
+ * `owners` is removed as well.
+ */
+const writeOwners = async (owners: Map<string, SearchDocInput[] | null>, snapshotPrefix?: string): Promise<void> => {
+  const database = await openDB();
+
+  const existing = snapshotPrefix
+    ? new Map(
+        (await requestToPromise<OwnerEntry[]>(
+          database.transaction(OWNERS_STORE, 'readonly').objectStore(OWNERS_STORE)
+            .getAll(IDBKeyRange.bound(snapshotPrefix, `${snapshotPrefix}\uffff`))
+        )).map(entry => [entry.owner, entry])
+      )
+    : await getMany<OwnerEntry>(OWNERS_STORE, Array.from(owners.keys()));
+
+  if (snapshotPrefix) {
+    existing.forEach((_, owner) => {
+      if (!owners.has(owner)) owners.set(owner, null);
+    });
+  }
+
+  const ownerPuts: OwnerEntry[] = [];
+  const ownerDeletes: string[] = [];
+  const newDocs: SearchDoc[] = [];
+  const staleKeys: string[] = [];
+
+  owners.forEach((docs, owner) => {
+    const previous = existing.get(owner);
+    if (!docs) {
+      if (previous) {
+        ownerDeletes.push(owner);
+        staleKeys.push(...previous.keys);
+      }
+      return;
+    }
+    const signature = signatureOf(docs);
+    if (previous?.signature === signature) return;
+    if (previous) staleKeys.push(...previous.keys);
+    ownerPuts.push({ owner, signature, keys: docs.map(d => d.key) });
+    docs.forEach(doc => newDocs.push({ ...doc, owner, terms: countTerms(doc) }));
+  });
+
+  if (ownerPuts.length === 0 && ownerDeletes.length === 0) return;
+
+  // Per term, the documents whose weight changes (0 removes the posting)
+  const oldDocs = await getMany<SearchDoc>(DOCS_STORE, staleKeys);
+  const deltas = new Map<string, Map<string, number>>();
+  const setDelta = (term: string, key: string, weight: number) => {
+    if (!deltas.has(term)) deltas.set(term, new Map());
+    deltas.get(term)!.set(key, weight);
+  };
+  oldDocs.forEach(doc => Object.keys(doc.terms).forEach(term => setDelta(term, doc.key, 0)));
+  newDocs.forEach(doc => Object.entries(doc.terms).forEach(([term, weight]) => setDelta(term, doc.key, weight)));
+
+  const newKeys = new Set(newDocs.map(d => d.key));
+  await new Promise<void>((resolve, reject) => {
+    const tx = database.transaction([DOCS_STORE, TERMS_STORE, OWNERS_STORE], 'readwrite');
+    const docsStore = tx.objectStore(DOCS_STORE);
+    const termsStore = tx.objectStore(TERMS_STORE);
+    const ownersStore = tx.objectStore(OWNERS_STORE);
+
+    staleKeys.forEach(key => { if (!newKeys.has(key)) docsStore.delete(key); });
+    newDocs.forEach(doc => docsStore.put(doc));
+    ownerDeletes.forEach(owner => ownersStore.delete(owner));
+    ownerPuts.forEach(entry => ownersStore.put(entry));
+
+    deltas.forEach((changes, term) => {
+      const request = termsStore.get(term);
+      request.onsuccess = () => {
+        const entry: TermEntry = request.result || { term, docs: {} };
+        changes.forEach((weight, key) => {
+          if (weight > 0) entry.docs[key] = weight;
+          else delete entry.docs[key];
+        });
+        if (Object.keys(entry.docs).length > 0) {
+          termsStore.put(entry);
+          vocabulary?.add(term);
+        } else {
+          termsStore.delete(term);
+          vocabulary?.delete(term);
+        }
+      };
+    });
+
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+  });
+};
+
+// All index writes run one after another
+let writeChain: Promise<void> = Promise.resolve();
+
+const enqueueWrite = (job: () => Promise<void>): Promise<void> => {
+  writeChain = writeChain.then(job).catch(error => {
+    console.warn('Search index update failed:', error);
+  });
+  return writeChain;
+};
+
+const pendingOwners = new Map<string, SearchDocInput[] | null>();
+let pendingSnapshots: { prefix: string; owners: Map<string, SearchDocInput[]> }[] = [];
+let flushTimer: ReturnType<typeof setTimeout> | null = null;
+
+const scheduleFlush = () => {
+  if (flushTimer) clearTimeout(flushTimer);
+  flushTimer = setTimeout(() => {
+    flushTimer = null;
+    void flushSearchIndex();
+  }, FLUSH_DELAY);
+};
+
+// Write everything queued so far; resolves once the index is up to date
+export const flushSearchIndex = (): Promise<void> => {
+  const owners = new Map(pendingOwners);
+  const snapshots = pendingSnapshots;
+  pendingOwners.clear();
+  pendingSnapshots = [];
+  return enqueueWrite(async () => {
+    for (const snapshot of snapshots) {
+      await writeOwners(new Map(snapshot.owners), snapshot.prefix);
+    }
+    if (owners.size > 0) await writeOwners(owners);
+  });
+};
+
+export const queueNoteIndex = (note: Note): void => {
+  pendingOwners.set(noteOwner(note.id), extractNoteDocs(note));
+  scheduleFlush();
+};
+
+export const queueNoteRemoval = (noteId: string): void => {
+  pendingOwners.set(noteOwner(noteId), null);
+  scheduleFlush();
+};
+
+export const queueTaskIndex = (task: TodoItem): void => {
+  pendingOwners.set(taskOwner(task.id), extractTaskDocs(task));
+  scheduleFlush();
+};
+
+export const queueTaskRemoval = (taskId: string): void => {
+  pendingOwners.set(taskOwner(taskId), null);
+  scheduleFlush();
+};
+
+const queueSnapshot = (prefix: string, owners: Map<string, SearchDocInput[]>) => {
+  // A newer full snapshot supersedes queued single updates of the same kind
+  pendingSnapshots = pendingSnapshots.filter(s => s.prefix !== prefix);
+  Array.from(pendingOwners.keys()).forEach(owner => {
+    if (owner.startsWith(prefix)) pendingOwners.delete(owner);
+  });
+  pendingSnapshots.push({ prefix, owners });
+  scheduleFlush();
+};
+
+// The complete set of notes after a bulk save; notes not in it are dropped
+export const queueNotesSnapshot = (notes: Note[]): void => {
+  queueSnapshot('note:', new Map(notes.map(note => [noteOwner(note.id), extractNoteDocs(note)])));
+};
+
+// The complete set of tasks after a bulk save; tasks not in it are dropped
+export const queueTasksSnapshot = (tasks: TodoItem[]): void => {
+  queueSnapshot('task:', new Map(tasks.map(task => [taskOwner(task.id), extractTaskDocs(task)])));
+};
+
+// ============ Building ============
+
+let readyPromise: Promise<void> | null = null;
+
+export const rebuildSearchIndex = async (): Promise<void> => {
+  const { loadNotesFromDB } = await import('@/utils/noteStorage');
+  const { loadTasksFromDB } = await import('@/utils/taskStorage');
+  const [notes, tasks] = await Promise.all([loadNotesFromDB(), loadTasksFromDB()]);
+
+  await enqueueWrite(async () => {
+    const database = await openDB();
+    await new Promise<void>((resolve, reject) => {
+      const tx = database.transaction([DOCS_STORE, TERMS_STORE, OWNERS_STORE, META_STORE], 'readwrite');
+      [DOCS_STORE, TERMS_STORE, OWNERS_STORE, META_STORE].forEach(name => tx.objectStore(name).clear());
+      tx.oncomplete = () => resolve();
+      tx.onerror = () => reject(tx.error);
+    });
+    vocabulary = null;
+
+    const owners: [string, SearchDocInput[]][] = [
+      ...notes.map(note => [noteOwner(note.id), extractNoteDocs(note)] as [string, SearchDocInput[]]),
+      ...tasks.map(task => [taskOwner(task.id), extractTaskDocs(task)] as [string, SearchDocInput[]]),
+    ];
+    for (let i = 0; i < owners.length; i += REBUILD_BATCH) {
+      await writeOwners(new Map(owners.slice(i, i + REBUILD_BATCH)));
+    }
+
+    const metaStore = database.transaction(META_STORE, 'readwrite').objectStore(META_STORE);
+    await requestToPromise(metaStore.put({ key: 'version', value: INDEX_VERSION }));
+  });
+};
+
+const ensureIndex = (): Promise<void> => {
+  if (!readyPromise) {
+    readyPromise = (async () => {
+      const database = await openDB();
+      const meta = await requestToPromise<{ key: string; value: number } | undefined>(
+        database.transaction(META_STORE, 'readonly').objectStore(META_STORE).get('version')
+      );
+      if (meta?.value !== INDEX_VERSION) await rebuildSearchIndex();
+    })().catch(error => {
+      readyPromise = null;
+      throw error;
+    });
+  }
+  return readyPromise;
+};
+
+const loadVocabulary = async (): Promise<Set<string>> => {
+  if (!vocabulary) {
+    const database = await openDB();
+    const terms = await requestToPromise(
+      database.transaction(TERMS_STORE, 'readonly').objectStore(TERMS_STORE).getAllKeys()
+    );
+    vocabulary = new Set(terms as string[]);
+  }
+  return vocabulary;
+};
+
+// ============ Querying ============
+
+interface QueryTerm {
+  term: string;
+  prefix: boolean;
+}
+
+const parseQuery = (query: string): { terms: QueryTerm[]; phrases: string[] } => {
+  const phrases: string[] = [];
+  const rest = query.replace(/"([^"]*)"?/g, (_, phrase: string) => {
+    const tokens = tokenize(phrase);
+    if (tokens.length > 1) phrases.push(tokens.join(' '));
+    return ` ${phrase} `;
+  });
+  const tokens = Array.from(new Set(tokenize(rest)));
+  // Search as you type: the last word may still be incomplete
+  const open = !/["\s]$/.test(query);
+  return {
+    terms: tokens.map((term, i) => ({ term, prefix: open && i === tokens.length - 1 })),
+    phrases,
+  };
+};
+
+// Index terms a query term may stand for, with how much a hit on each counts
+const expandTerm = async (queryTerm: QueryTerm): Promise<Map<string, number>> => {
+  const { term, prefix } = queryTerm;
+  const expansions = new Map<string, number>([[term, 1]]);
+
+  if (prefix) {
+    const database = await openDB();
+    const keys = await requestToPromise(
+      database.transaction(TERMS_STORE, 'readonly').objectStore(TERMS_STORE)
+        .getAllKeys(IDBKeyRange.bound(term, `${term}\uffff`), MAX_PREFIX_EXPANSIONS)
+    );
+    (keys as string[]).forEach(key => {
+      if (key !== term) expansions.set(key, 0.8);
+    });
+  }
+
+  const maxTypos = allowedTypos(term);
+  if (maxTypos > 0) {
+    (await loadVocabulary()).forEach(candidate => {
+      if (expansions.has(candidate)) return;
+      const distance = editDistance(term, candidate, maxTypos);
+      if (distance <= maxTypos) expansions.set(candidate, distance === 1 ? 0.5 : 0.3);
+    });
+  }
+
+  return expansions;
+};
+
+const kindOf = (key: string): SearchDocKind => key.slice(0, key.indexOf(':')) as SearchDocKind;
+
+const buildSnippet = (doc: SearchDoc, matchedTerms: string[]): string => {
+  const body = doc.body;
+  if (!body) return '';
+  const lower = body.toLowerCase();
+  const at = matchedTerms
+    .map(term => lower.indexOf(term))
+    .filter(index => index >= 0)
+    .sort((a, b) => a - b)[0] ?? 0;
+  const start = Math.max(0, at - Math.floor(SNIPPET_LENGTH / 3));
+  const snippet = body.slice(start, start + SNIPPET_LENGTH).replace(/\s+/g, ' ').trim();
+  return `${start > 0 ? '…' : ''}${snippet}${start + SNIPPET_LENGTH < body.length ? '…' : ''}`;
+};
+
+export const searchIndex = async (query: string, options: SearchOptions = {}): Promise<SearchHit[]> => {
+  const { kinds, limit = 50 } = options;
+  const { terms, phrases } = parseQuery(query);
+  if (terms.length === 0) return [];
+
+  await ensureIndex();
+  await flushSearchIndex();
+
+  const database = await openDB();
+  const docCount = await requestToPromise(
+    database.transaction(DOCS_STORE, 'readonly').objectStore(DOCS_STORE).count()
+  );
+
+  const expansions = await Promise.all(terms.map(expandTerm));
+  const entries = await getMany<TermEntry>(
+    TERMS_STORE,
+    Array.from(new Set(expansions.flatMap(e => Array.from(e.keys()))))
+  );
+
+  // Every query term has to match; each contributes its best-matching variant
+  let scores: Map<string, number> | null = null;
+  const matchedTerms = new Map<string, string[]>();
+  for (const expansion of expansions) {
+    const termScores = new Map<string, number>();
+    expansion.forEach((weight, term) => {
+      const entry = entries.get(term);
+      if (!entry) return;
+      const postings = Object.entries(entry.docs);
+      const idf = Math.log(1 + (docCount - postings.length + 0.5) / (postings.length + 0.5));
+      postings.forEach(([key, frequency]) => {
+        if (scores && !scores.has(key)) return;
+        const score = weight * idf * (frequency * 2.2) / (frequency + 1.2);
+        if (score > (termScores.get(key) || 0)) termScores.set(key, score);
+        if (!matchedTerms.has(key)) matchedTerms.set(key, []);
+        matchedTerms.get(key)!.push(term);
+      });
+    });
+    scores = new Map(Array.from(termScores, ([key, score]) => [key, (scores?.get(key) || 0) + score]));
+    if (scores.size === 0) return [];
+  }
+
+  let candidates = Array.from(scores!.entries());
+  if (kinds) candidates = candidates.filter(([key]) => kinds.includes(kindOf(key)));
+  candidates.sort((a, b) => b[1] - a[1]);
+
+  // Phrases are checked against the stored text of the best candidates only
+  if (phrases.length > 0) {
+    const docs = await getMany<SearchDoc>(DOCS_STORE, candidates.slice(0, limit * 5).map(([key]) => key));
+    candidates = candidates.filter(([key]) => {
+      const doc = docs.get(key);
+      if (!doc) return false;
+      const text = ` ${tokenize(`${doc.title} ${doc.body}`).join(' ')} `;
+      return phrases.every(phrase => text.includes(` ${phrase} `));
+    });
+  }
+
+  const top = candidates.slice(0, limit);
+  const docs = await getMany<SearchDoc>(DOCS_STORE, top.map(([key]) => key));
+  return top
+    .filter(([key]) => docs.has(key))
+    .map(([key, score]) => {
+      const doc = docs.get(key)!;
+      return {
+        key,
+        kind: doc.kind,
+        id: doc.id,
+        parentId: doc.parentId,
+        title: doc.title,
+        snippet: buildSnippet(doc, matchedTerms.get(key) || []),
+        score,
+      };
+    });
+};
@@ -0,0 +1,324 @@
+/**
+ * Slash Commands - the block types the note editor's "/" menu inserts
+ *
+ * Commands live in a registry, so features can offer block types of their
+ * own (an embedded task list, a mind-map thumbnail, ...) by calling
+ * registerSlashCommand. The menu lists commands in the user's toolbar
+ * order with favorites and recently used ones first, and narrows them with
+ * a fuzzy match on title and keywords as the user types after the "/".
+ */
+
+import type { ComponentType } from 'react';
+import {
+  CheckSquare,
+  Code,
+  Heading1,
+  Heading2,
+  Heading3,
+  Image as ImageIcon,
+  Link2,
+  List,
+  ListOrdered,
+  Mic,
+  Minus,
+  Paperclip,
+  Quote,
+  Table,
+  Type,
+} from 'lucide-react';
+import type { ToolbarItemId } from '@/components/ToolbarOrderManager';
+import type { TodoItem } from '@/types/note';
+import { DocPosition, blockText, isTextBlock } from './noteDocument';
+import { Command, EditorState, insertBlocks, isCollapsed, setBlockType, toggleList } from './noteTransactions';
+import { getSetting, setSetting } from './settingsStorage';
+
+const FAVORITES_KEY = 'slashCommandFavorites';
+const RECENT_KEY = 'slashCommandRecent';
+const RECENT_LIMIT = 5;
+const MAX_QUERY_LENGTH = 32;
+
+export const SLASH_COMMANDS_UPDATED_EVENT = 'slashCommandsUpdated';
+
+/** What a command can do to the editor it was picked in */
+export interface SlashCommandContext {
+  // Run a document command as one undoable edit
+  apply: (command: Command) => void;
+  // Editor features with UI of their own; missing where the editor turns them off
+  uploadImage?: () => void;
+  attachFile?: () => void;
+  insertTable?: (rows: number, cols: number) => void;
+  insertNoteLink?: () => void;
+  recordVoice?: () => void;
+  // Let the user pick a task (or write a new one); null when they cancel
+  pickTask?: () => Promise<TodoItem | null>;
+}
+
+export interface SlashCommand {
+  id: string;
+  title: string; // i18n key, or the title itself for commands without one
+  keywords?: string[];
+  icon: ComponentType<{ className?: string }>;
+  // Listed next to this toolbar button in the user's toolbar order; commands without one come last
+  toolbarItem?: ToolbarItemId;
+  isAvailable?: (context: SlashCommandContext) => boolean;
+  run: (context: SlashCommandContext) => void;
+}
+
+export interface SlashCommandPreferences {
+  favorites: string[];
+  recent: string[];
+}
+
+export interface RankedSlashCommand {
+  command: SlashCommand;
+  section: 'favorites' | 'recent' | 'all' | 'results';
+}
+
+const BUILT_IN_COMMANDS: SlashCommand[] = [
+  {
+    id: 'text',
+    title: 'slashCommands.text',
+    keywords: ['paragraph', 'plain'],
+    icon: Type,
+    toolbarItem: 'headings',
+    run: ({ apply }) => apply(setBlockType({ type: 'paragraph' })),
+  },
+  ...([1, 2, 3] as const).map((level): SlashCommand => ({
+    id: `heading${level}`,
+    title: `slashCommands.heading${level}`,
+    keywords: ['title', `h${level}`],
+    icon: [Heading1, Heading2, Heading3][level - 1],
+    toolbarItem: 'headings',
+    run: ({ apply }) => apply(setBlockType({ type: 'heading', level })),
+  })),
+  {
+    id: 'bulletList',
+    title: 'slashCommands.bulletList',
+    keywords: ['unordered', 'ul'],
+    icon: List,
+    toolbarItem: 'bulletList',
+    run: ({ apply }) => apply(toggleList('bullet')),
+  },
+  {
+    id: 'numberedList',
+    title: 'slashCommands.numberedList',
+    keywords: ['ordered', 'ol'],
+    icon: ListOrdered,
+    toolbarItem: 'numberedList',
+    run: ({ apply }) => apply(toggleList('ordered')),
+  },
+  {
+    id: 'checklist',
+    title: 'slashCommands.checklist',
+    keywords: ['todo', 'checkbox', 'task'],
+    icon: CheckSquare,
+    toolbarItem: 'numberedList',
+    run: ({ apply }) => apply(toggleList('check')),
+  },
+  {
+    id: 'quote',
+    title: 'slashCommands.quote',
+    keywords: ['blockquote', 'citation'],
+    icon: Quote,
+    toolbarItem: 'blockquote',
+    run: ({ apply }) => apply(setBlockType({ type: 'blockquote' })),
+  },
+  {
+    id: 'codeBlock',
+    title: 'slashCommands.codeBlock',
+    keywords: ['pre', 'snippet'],
+    icon: Code,
+    toolbarItem: 'codeBlock',
+    run: ({ apply }) => apply(setBlockType({ type: 'codeBlock' })),
+  },
+  {
+    id: 'divider',
+    title: 'slashCommands.divider',
+    keywords: ['horizontal rule', 'hr', 'separator', 'line'],
+    icon: Minus,
+    toolbarItem: 'horizontalRule',
+    run: ({ apply }) => apply(insertBlocks([{ type: 'rule', content: [] }])),
+  },
+  {
+    id: 'table',
+    title: 'slashCommands.table',
+    keywords: ['grid', 'rows', 'columns'],
+    icon: Table,
+    toolbarItem: 'table',
+    isAvailable: context => !!context.insertTable,
+    run: ({ insertTable }) => insertTable?.(3, 3),
+  },
+  {
+    id: 'image',
+    title: 'slashCommands.image',
+    keywords: ['picture', 'photo'],
+    icon: ImageIcon,
+    toolbarItem: 'image',
+    isAvailable: context => !!context.uploadImage,
+    run: ({ uploadImage }) => uploadImage?.(),
+  },
+  {
+    id: 'attachment',
+    title: 'slashCommands.attachment',
+    keywords: ['file', 'upload'],
+    icon: Paperclip,
+    toolbarItem: 'attachment',
+    isAvailable: context => !!context.attachFile,
+    run: ({ attachFile }) => attachFile?.(),
+  },
+  {
+    id: 'voiceClip',
+    title: 'slashCommands.voiceClip',
+    keywords: ['audio', 'record', 'microphone', 'recording'],
+    icon: Mic,
+    toolbarItem: 'attachment',
+    isAvailable: context => !!context.recordVoice,
+    run: ({ recordVoice }) => recordVoice?.(),
+  },
+  {
+    id: 'noteLink',
+    title: 'slashCommands.noteLink',
+    keywords: ['wiki', 'reference', 'backlink'],
+    icon: Link2,
+    toolbarItem: 'noteLink',
+    isAvailable: context => !!context.insertNoteLink,
+    run: ({ insertNoteLink }) => insertNoteLink?.(),
+  },
+];
+
+const registry = new Map<string, SlashCommand>(BUILT_IN_COMMANDS.map(command => [command.id, command]));
+
+/**
+ * Add a command to the "/" menu, replacing any with the same id. Returns a
+ * function that removes it again.
+ */
+export const registerSlashCommand = (command: SlashCommand): (() => void) => {
+  registry.set(command.id, command);
+  window.dispatchEvent(new Event(SLASH_COMMANDS_UPDATED_EVENT));
+  return () => {
+    if (registry.get(command.id) !== command) return;
+    registry.delete(command.id);
+    window.dispatchEvent(new Event(SLASH_COMMANDS_UPDATED_EVENT));
+  };
+};
+
+export const getSlashCommands = (): SlashCommand[] => [...registry.values()];
+
+// ============ Preferences ============
+
+export const getSlashCommandPreferences = async (): Promise<SlashCommandPreferences> => ({
+  favorites: await getSetting<string[]>(FAVORITES_KEY, []),
+  recent: await getSetting<string[]>(RECENT_KEY, []),
+});
+
+// Move a command to the front of the recently used list; returns the new list
+export const recordSlashCommandUse = async (id: string): Promise<string[]> => {
+  const recent = [id, ...(await getSetting<string[]>(RECENT_KEY, [])).filter(item => item !== id)].slice(0, RECENT_LIMIT);
+  await setSetting(RECENT_KEY, recent);
+  return recent;
+};
+
+export const toggleSlashCommandFavorite = async (id: string): Promise<string[]> => {
+  const current = await getSetting<string[]>(FAVORITES_KEY, []);
+  const favorites = current.includes(id) ? current.filter(item => item !== id) : [...current, id];
+  await setSetting(FAVORITES_KEY, favorites);
+  return favorites;
+};
+
+// ============ Matching ============
+
+/**
+ * How well `query` matches `text`, or null if it does not: the query's
+ * characters must appear in order, and matches at the start of the text or
+ * a word, and runs of consecutive characters, score higher.
+ */
+export const fuzzyScore = (query: string, text: string): number | null => {
+  const needle = query.toLowerCase().replace(/\s+/g, '');
+  const haystack = text.toLowerCase();
+  if (!needle) return 0;
+  let score = haystack.startsWith(needle) ? 10 : 0;
+  let from = 0;
+  let previous = -2;
+  for (const char of needle) {
+    const index = haystack.indexOf(char, from);
+    if (index < 0) return null;
+    score += 1;
+    if (index === previous + 1) score += 2;
+    if (index === 0 || /[\s\-_/]/.test(haystack[index - 1])) score += 3;
+    previous = index;
+    from = index + 1;
+  }
+  // Of two equal matches, the shorter text is the closer one
+  return score - haystack.length / 100;
+};
+
+/**
+ * The commands to show for a query. Without one, favorites come first,
+ * then recently used commands, then the rest in toolbar order; with one,
+ * the best matches come first and favorites and recent ones win ties.
+ */
+export const rankSlashCommands = (
+  commands: SlashCommand[],
+  query: string,
+  options: { order: ToolbarItemId[]; preferences: SlashCommandPreferences; label: (command: SlashCommand) => string }
+): RankedSlashCommand[] => {
+  const { order, preferences, label } = options;
+  const position = (command: SlashCommand) => {
+    const index = command.toolbarItem ? order.indexOf(command.toolbarItem) : -1;
+    return index >= 0 ? index : order.length;
+  };
+  // Array.prototype.sort is stable, so commands sharing a toolbar button keep their registration order
+  const ordered = [...commands].sort((a, b) => position(a) - position(b));
+
+  if (!query.trim()) {
+    const favorites = preferences.favorites
+      .map(id => ordered.find(command => command.id === id))
+      .filter((command): command is SlashCommand => !!command);
+    const recent = preferences.recent
+      .filter(id => !preferences.favorites.includes(id))
+      .map(id => ordered.find(command => command.id === id))
+      .filter((command): command is SlashCommand => !!command);
+    const listed = new Set([...favorites, ...recent]);
+    return [
+      ...favorites.map(command => ({ command, section: 'favorites' as const })),
+      ...recent.map(command => ({ command, section: 'recent' as const })),
+      ...ordered.filter(command => !listed.has(command)).map(command => ({ command, section: 'all' as const })),
+    ];
+  }
+
+  const preference = (command: SlashCommand) =>
+    (preferences.favorites.includes(command.id) ? 2 : 0) + (preferences.recent.includes(command.id) ? 1 : 0);
+  return ordered
+    .map(command => {
+      const scores = [label(command), command.id, ...(command.keywords || [])]
+        .map(text => fuzzyScore(query, text))
+        .filter((score): score is number => score !== null);
+      return { command, score: scores.length > 0 ? Math.max(...scores) : null };
+    })
+    .filter((match): match is { command: SlashCommand; score: number } => match.score !== null)
+    .sort((a, b) => b.score - a.score || preference(b.command) - preference(a.command))
+    .map(({ command }) => ({ command, section: 'results' as const }));
+};
+
+/**
+ * The "/" being typed at the cursor and the query after it. With `from`
+ * (the menu is open) the query runs from that slash to the cursor; without
+ * it, a slash just typed at the start of a block or after a space opens
+ * the menu. Null when the menu should close.
+ */
+export const findSlashQuery = (state: EditorState, from?: DocPosition): { from: DocPosition; query: string } | null => {
+  const { head } = state.selection;
+  const block = state.doc.blocks[head.block];
+  if (!isCollapsed(state.selection) || !block || !isTextBlock(block) || block.type === 'codeBlock') return null;
+  const text = blockText(block).slice(0, head.offset);
+
+  if (from) {
+    if (from.block !== head.block || head.offset <= from.offset || text[from.offset] !== '/') return null;
+    const query = text.slice(from.offset + 1);
+    if (query.length > MAX_QUERY_LENGTH || /^\s|\s\s|[\n\uFFFC]/.test(query)) return null;
+    return { from, query };
+  }
+
+  if (!text.endsWith('/') || (text.length > 1 && !/\s/.test(text[text.length - 2]))) return null;
+  return { from: { block: head.block, offset: head.offset - 1 }, query: '' };
+};
@@ -0,0 +1,361 @@
+/**
+ * Split Settlement - who owes whom in a group of split expenses
+ *
+ * Each split expense has a payer and a share per participant; shares can
+ * be equal, by shares, by percentage or exact amounts. Balances net every
+ * open share against recorded settlements, and the settle-up plan is the
+ * fewest transfers that bring everyone to zero: people whose balances
+ * cancel out among themselves settle inside their own group, so a group
+ * of n people needs n - 1 transfers at most and often fewer.
+ *
+ * Foreign amounts are valued at the rate of their own day. Expenses and
+ * settlements with no rate for that day are left out of balances, plans and
+ * statements, and reported by getUnconvertedSplits, until a rate is added.
+ */
+
+import { format } from 'date-fns';
+
+export type SplitMode = 'equal' | 'shares' | 'percent' | 'exact';
+
+export interface SplitShare {
+  participantId: string;
+  amount: number;
+  settled: boolean;
+  settledOn?: string;
+  // Number of shares or percentage, for those modes
+  weight?: number;
+}
+
+export interface SplitLedgerExpense {
+  id: string;
+  description: string;
+  totalAmount: number;
+  paidBy: string;
+  date: string; // dd/MM/yyyy
+  currency?: string;
+  splitMode?: SplitMode;
+  splits: SplitShare[];
+}
+
+// Money handed over outside the expenses themselves
+export interface SplitSettlement {
+  id: string;
+  from: string;
+  to: string;
+  amount: number;
+  currency: string;
+  date: string; // dd/MM/yyyy
+}
+
+export interface SettlementTransfer {
+  from: string;
+  to: string;
+  amount: number;
+}
+
+// Value of an amount in the sheet's currency, given the currency and day it was in; undefined without a rate
+export type ToReporting = (amount: number, currency: string | undefined, date: string) => number | undefined;
+
+export const SPLIT_MODE_LABELS: Record<SplitMode, string> = {
+  equal: 'Equal',
+  shares: 'Shares',
+  percent: 'Percent',
+  exact: 'Exact',
+};
+
+// Above this many open balances the exact search is too slow and a greedy plan is used
+const MAX_EXACT_PARTICIPANTS = 16;
+
+const toCents = (amount: number) => Math.round(amount * 100);
+
+export const settlementId = () => `settle-${Date.now()}-${Math.random().toString(36).substring(2, 9)}`;
+
+/**
+ * Divide `totalCents` in proportion to `weights`, handing the cents lost to
+ * rounding to the largest remainders so the parts always add up.
+ */
+const allocateCents = (totalCents: number, weights: number[]): number[] => {
+  const sum = weights.reduce((total, weight) => total + weight, 0);
+  if (sum <= 0) return weights.map(() => 0);
+  const exact = weights.map(weight => (totalCents * weight) / sum);
+  const parts = exact.map(Math.floor);
+  let left = totalCents - parts.reduce((total, part) => total + part, 0);
+  exact
+    .map((value, index) => ({ index, remainder: value - Math.floor(value) }))
+    .sort((a, b) => b.remainder - a.remainder)
+    .forEach(({ index }) => {
+      if (left <= 0) return;
+      parts[index] += 1;
+      left -= 1;
+    });
+  return parts;
+};
+
+/**
+ * Work out each share from the expense's mode. Exact amounts are kept as
+ * typed; percentages that do not add up to 100 leave the rest unassigned.
+ */
+export const computeSplitAmounts = <T extends SplitShare>(totalAmount: number, mode: SplitMode, splits: T[]): T[] => {
+  const totalCents = toCents(totalAmount);
+  switch (mode) {
+    case 'exact':
+      return splits;
+    case 'percent': {
+      const percents = splits.map(split => Math.max(0, split.weight ?? 0));
+      const assignedCents = Math.round((totalCents * Math.min(100, percents.reduce((a, b) => a + b, 0))) / 100);
+      const parts = allocateCents(assignedCents, percents);
+      return splits.map((split, index) => ({ ...split, amount: parts[index] / 100 }));
+    }
+    case 'shares': {
+      const parts = allocateCents(totalCents, splits.map(split => Math.max(0, split.weight ?? 1)));
+      return splits.map((split, index) => ({ ...split, amount: parts[index] / 100 }));
+    }
+    default: {
+      const parts = allocateCents(totalCents, splits.map(() => 1));
+      return splits.map((split, index) => ({ ...split, amount: parts[index] / 100 }));
+    }
+  }
+};
+
+// What is left to assign (positive) or assigned twice (negative)
+export const getUnassignedAmount = (expense: SplitLedgerExpense): number =>
+  (toCents(expense.totalAmount) - expense.splits.reduce((total, split) => total + toCents(split.amount), 0)) / 100;
+
+const isConvertible = (expense: SplitLedgerExpense, toReporting: ToReporting): boolean =>
+  toReporting(expense.totalAmount, expense.currency, expense.date) !== undefined;
+
+/**
+ * Expenses and settlements left out of balances because there is no rate
+ * from their currency to the sheet's on their day.
+ */
+export const getUnconvertedSplits = (
+  expenses: SplitLedgerExpense[],
+  settlements: SplitSettlement[],
+  toReporting: ToReporting
+): { expenseIds: string[]; settlementIds: string[] } => ({
+  expenseIds: expenses.filter(expense => !isConvertible(expense, toReporting)).map(expense => expense.id),
+  settlementIds: settlements
+    .filter(settlement => toReporting(settlement.amount, settlement.currency, settlement.date) === undefined)
+    .map(settlement => settlement.id),
+});
+
+/**
+ * How each open share moves a balance: whoever paid is owed it and whoever
+ * it belongs to owes it, until it is marked settled. The payer's own share
+ * moves nothing.
+ */
+const getShareEffects = (expense: SplitLedgerExpense, toReporting: ToReporting): { participantId: string; amount: number }[] => {
+  if (!expense.paidBy || expense.totalAmount <= 0 || !isConvertible(expense, toReporting)) return [];
+  return expense.splits
+    .filter(split => split.participantId !== expense.paidBy && !split.settled && split.amount > 0)
+    .flatMap(split => {
+      const amount = toReporting(split.amount, expense.currency, expense.date) ?? 0;
+      return [{ participantId: expense.paidBy, amount }, { participantId: split.participantId, amount: -amount }];
+    });
+};
+
+// Positive balances are owed money, negative ones owe it
+export const computeSplitBalances = (
+  participantIds: string[],
+  expenses: SplitLedgerExpense[],
+  settlements: SplitSettlement[],
+  toReporting: ToReporting
+): Record<string, number> => {
+  const balances: Record<string, number> = {};
+  participantIds.forEach(id => { balances[id] = 0; });
+  expenses.forEach(expense => {
+    getShareEffects(expense, toReporting).forEach(({ participantId, amount }) => {
+      balances[participantId] = (balances[participantId] ?? 0) + amount;
+    });
+  });
+  settlements.forEach(settlement => {
+    const amount = toReporting(settlement.amount, settlement.currency, settlement.date);
+    if (amount === undefined) return;
+    balances[settlement.from] = (balances[settlement.from] ?? 0) + amount;
+    balances[settlement.to] = (balances[settlement.to] ?? 0) - amount;
+  });
+  Object.keys(balances).forEach(id => { balances[id] = toCents(balances[id]) / 100; });
+  return balances;
+};
+
+// Largest debt paid to the largest credit until everyone in the group is even
+const settleGreedily = (people: { id: string; cents: number }[]): SettlementTransfer[] => {
+  const debtors = people.filter(p => p.cents < 0).map(p => ({ ...p, cents: -p.cents }));
+  const creditors = people.filter(p => p.cents > 0).map(p => ({ ...p }));
+  const transfers: SettlementTransfer[] = [];
+  while (debtors.length > 0 && creditors.length > 0) {
+    debtors.sort((a, b) => b.cents - a.cents);
+    creditors.sort((a, b) => b.cents - a.cents);
+    const debtor = debtors[0];
+    const creditor = creditors[0];
+    const cents = Math.min(debtor.cents, creditor.cents);
+    transfers.push({ from: debtor.id, to: creditor.id, amount: cents / 100 });
+    debtor.cents -= cents;
+    creditor.cents -= cents;
+    if (debtor.cents === 0) debtors.shift();
+    if (creditor.cents === 0) creditors.splice(creditors.indexOf(creditor), 1);
+  }
+  return transfers;
+};
+
+/**
+ * Split people into the most groups whose balances add up to zero. Every
+ * group settles on its own with one transfer fewer than its size, so more
+ * groups means fewer transfers overall.
+ */
+const findZeroSumGroups = (people: { id: string; cents: number }[]): { id: string; cents: number }[][] => {
+  const n = people.length;
+  const full = (1 << n) - 1;
+  const sums = new Array<number>(full + 1).fill(0);
+  const groups = new Array<number>(full + 1).fill(0);
+  for (let mask = 1; mask <= full; mask++) {
+    const lowest = mask & -mask;
+    sums[mask] = sums[mask ^ lowest] + people[31 - Math.clz32(lowest)].cents;
+    let best = 0;
+    for (let bit = 0; bit < n; bit++) {
+      if (mask & (1 << bit)) best = Math.max(best, groups[mask ^ (1 << bit)]);
+    }
+    groups[mask] = best + (sums[mask] === 0 ? 1 : 0);
+  }
+
+  // Walk back from everyone to no one; each time the remaining people add up to zero a group ends
+  const result: { id: string; cents: number }[][] = [];
+  let current: { id: string; cents: number }[] = [];
+  let mask = full;
+  while (mask) {
+    const bonus = sums[mask] === 0 ? 1 : 0;
+    let next = -1;
+    for (let bit = 0; bit < n && next < 0; bit++) {
+      if ((mask & (1 << bit)) && groups[mask ^ (1 << bit)] + bonus === groups[mask]) next = bit;
+    }
+    current.push(people[next]);
+    mask ^= 1 << next;
+    if (sums[mask] === 0) {
+      result.push(current);
+      current = [];
+    }
+  }
+  return result;
+};
+
+/** The fewest transfers that bring every balance to zero. */
+export const simplifyDebts = (balances: Record<string, number>): SettlementTransfer[] => {
+  const people = Object.entries(balances)
+    .map(([id, balance]) => ({ id, cents: toCents(balance) }))
+    .filter(person => person.cents !== 0);
+  // Rounding may leave the books a cent or two off; the largest balance absorbs it
+  const drift = people.reduce((total, person) => total + person.cents, 0);
+  if (drift !== 0 && people.length > 0) {
+    const largest = people.reduce((a, b) => (Math.abs(b.cents) > Math.abs(a.cents) ? b : a));
+    largest.cents -= drift;
+  }
+  const open = people.filter(person => person.cents !== 0);
+  if (open.length > MAX_EXACT_PARTICIPANTS) return settleGreedily(open);
+  return findZeroSumGroups(open).flatMap(settleGreedily);
+};
+
+const money = (amount: number, currency: string) =>
+  `${currency} ${amount.toLocaleString('en-US', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
+
+const NOT_INCLUDED = 'not included (no exchange rate)';
+
+const signedMoney = (amount: number, currency: string) => `${amount < 0 ? '-' : '+'}${money(Math.abs(amount), currency)}`;
+
+/**
+ * A plain-text statement for one participant: every expense they paid or
+ * have a share in, their settlements, where they stand and the transfers
+ * that settle them up. Amounts are in `currency`, the sheet's currency.
+ */
+export const buildSplitStatement = (options: {
+  participantId: string;
+  names: Record<string, string>;
+  expenses: SplitLedgerExpense[];
+  settlements: SplitSettlement[];
+  transfers: SettlementTransfer[];
+  currency: string;
+  title: string;
+  toReporting: ToReporting;
+}): string => {
+  const { participantId, names, expenses, settlements, transfers, currency, title, toReporting } = options;
+  const name = (id: string) => names[id] || 'Unnamed';
+  const lines: string[] = [
+    `Statement for ${name(participantId)}`,
+    `${title || 'Split expenses'}, ${format(new Date(), 'dd/MM/yyyy')}`,
+    `Amounts in ${currency}`,
+    '',
+  ];
+  let balance = 0;
+
+  const involved = expenses.filter(expense =>
+    expense.paidBy === participantId || expense.splits.some(split => split.participantId === participantId && split.amount > 0)
+  );
+  lines.push('EXPENSES');
+  involved.forEach(expense => {
+    const effect = getShareEffects(expense, toReporting)
+      .filter(item => item.participantId === participantId)
+      .reduce((total, item) => total + item.amount, 0);
+    const share = expense.splits.find(split => split.participantId === participantId);
+    const expenseCurrency = expense.currency || currency;
+    const details = [
+      expense.paidBy === participantId ? `paid ${money(expense.totalAmount, expenseCurrency)}` : `paid by ${name(expense.paidBy)}`,
+      `share ${money(share?.amount ?? 0, expenseCurrency)}`,
+      share?.settled && expense.paidBy !== participantId ? `settled ${share.settledOn ?? ''}`.trim() : '',
+    ].filter(Boolean);
+    balance += effect;
+    lines.push(`${expense.date}  ${expense.description || 'Untitled'}`);
+    lines.push(`    ${details.join(', ')}  ${isConvertible(expense, toReporting) ? signedMoney(effect, currency) : NOT_INCLUDED}`);
+  });
+  if (involved.length === 0) lines.push('    None');
+
+  const own = settlements.filter(s => s.from === participantId || s.to === participantId);
+  lines.push('', 'SETTLEMENTS');
+  own.forEach(settlement => {
+    const amount = toReporting(settlement.amount, settlement.currency, settlement.date);
+    const paid = settlement.from === participantId;
+    const label = paid ? `Paid ${name(settlement.to)}` : `Received from ${name(settlement.from)}`;
+    if (amount === undefined) {
+      lines.push(`${settlement.date}  ${label}  ${money(settlement.amount, settlement.currency)}, ${NOT_INCLUDED}`);
+      return;
+    }
+    balance += paid ? amount : -amount;
+    lines.push(`${settlement.date}  ${label}  ${signedMoney(paid ? amount : -amount, currency)}`);
+  });
+  if (own.length === 0) lines.push('    None');
+
+  const rounded = toCents(balance) / 100;
+  lines.push('', `BALANCE  ${rounded > 0 ? `is owed ${money(rounded, currency)}` : rounded < 0 ? `owes ${money(-rounded, currency)}` : 'settled up'}`);
+
+  const mine = transfers.filter(t => t.from === participantId || t.to === participantId);
+  if (mine.length > 0) {
+    lines.push('', 'TO SETTLE UP');
+    mine.forEach(transfer => {
+      lines.push(transfer.from === participantId
+        ? `    Pay ${name(transfer.to)} ${money(transfer.amount, currency)}`
+        : `    Receive ${money(transfer.amount, currency)} from ${name(transfer.from)}`);
+    });
+  }
+  return lines.join('\n');
+};
+
+// Save a statement as a PDF, keeping its layout with a fixed-width font
+export const exportStatementPdf = async (statement: string, filename: string): Promise<void> => {
+  const { jsPDF } = await import('jspdf');
+  const pdf = new jsPDF({ unit: 'mm', format: 'a4', orientation: 'portrait' });
+  const margin = 15;
+  const lineHeight = 5;
+  const pageHeight = 297;
+  let y = margin + 5;
+
+  statement.split('\n').forEach((line, index) => {
+    if (y > pageHeight - margin) {
+      pdf.addPage();
+      y = margin;
+    }
+    // The title and the capitalized section headings are bold
+    pdf.setFont('courier', index === 0 || /^[A-Z][A-Z ]+$/.test(line) ? 'bold' : 'normal');
+    pdf.setFontSize(index === 0 ? 14 : 10);
+    pdf.text(line, margin, y);
+    y += index === 0 ? lineHeight + 2 : lineHeight;
+  });
+  pdf.save(filename.endsWith('.pdf') ? filename : `${filename}.pdf`);
+};
@@ -0,0 +1,127 @@
+/**
+ * Sync Backends - transports for the sync engine
+ *
+ * HttpSyncBackend talks to any server exposing the small change-log protocol
+ * below (scripts/sync-server.mjs is a local stand-in). LocalFileSyncBackend
+ * keeps the log on the device and moves it between devices as a JSON file.
+ *
+ *   GET  {url}/status               -> 200 when the token is accepted
+ *   GET  {url}/changes?since=cursor -> { records: SyncRecord[], cursor: string }
+ *   POST {url}/changes              <- { records: SyncRecord[] }
+ */
+
+import { getSetting, setSetting } from '@/utils/settingsStorage';
+import { SyncBackend, SyncPullResult, SyncRecord } from '@/utils/syncEngine';
+
+export type SyncBackendConfig =
+  | { type: 'none' }
+  | { type: 'http'; url: string; token?: string }
+  | { type: 'file' };
+
+export class HttpSyncBackend implements SyncBackend {
+  readonly kind = 'http';
+  private baseUrl: string;
+
+  constructor(url: string, private token?: string) {
+    this.baseUrl = url.replace(/\/+$/, '');
+  }
+
+  private headers(): Record<string, string> {
+    const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+    if (this.token) headers.Authorization = `Bearer ${this.token}`;
+    return headers;
+  }
+
+  private async request<T>(path: string, init?: RequestInit): Promise<T> {
+    const response = await fetch(`${this.baseUrl}${path}`, { ...init, headers: this.headers() });
+    if (!response.ok) {
+      throw new Error(`Sync server responded ${response.status} ${response.statusText}`.trim());
+    }
+    return response.json() as Promise<T>;
+  }
+
+  async isAuthenticated(): Promise<boolean> {
+    if (!this.baseUrl) return false;
+    try {
+      await this.request('/status');
+      return true;
+    } catch {
+      return false;
+    }
+  }
+
+  async pull(cursor: string | null): Promise<SyncPullResult> {
+    const since = cursor ? `?since=${encodeURIComponent(cursor)}` : '';
+    const result = await this.request<SyncPullResult>(`/changes${since}`);
+    return { records: result.records || [], cursor: result.cursor ?? cursor };
+  }
+
+  async push(records: SyncRecord[]): Promise<void> {
+    await this.request('/changes', { method: 'POST', body: JSON.stringify({ records }) });
+  }
+}
+
+const LOCAL_LOG_KEY = 'nota-sync-local-log';
+
+export interface SyncFileContents {
+  format: 'npd-sync-log';
+  version: 1;
+  records: SyncRecord[];
+}
+
+const recordKey = (r: SyncRecord) => `${r.collection}:${r.id}:${r.hash}:${r.deviceId}:${r.updatedAt}`;
+
+export class LocalFileSyncBackend implements SyncBackend {
+  readonly kind = 'file';
+
+  private async loadLog(): Promise<SyncRecord[]> {
+    return getSetting<SyncRecord[]>(LOCAL_LOG_KEY, []);
+  }
+
+  async isAuthenticated(): Promise<boolean> {
+    return true;
+  }
+
+  async pull(cursor: string | null): Promise<SyncPullResult> {
+    const log = await this.loadLog();
+    const from = Math.min(Number(cursor) || 0, log.length);
+    return { records: log.slice(from), cursor: String(log.length) };
+  }
+
+  async push(records: SyncRecord[]): Promise<void> {
+    const log = await this.loadLog();
+    await setSetting(LOCAL_LOG_KEY, [...log, ...records]);
+  }
+
+  // Export the whole change log so another device can import it
+  async exportFile(): Promise<Blob> {
+    const contents: SyncFileContents = { format: 'npd-sync-log', version: 1, records: await this.loadLog() };
+    return new Blob([JSON.stringify(contents)], { type: 'application/json' });
+  }
+
+  // Append records from another device's sync file; returns how many were new
+  async importFile(text: string): Promise<number> {
+    const parsed = JSON.parse(text) as SyncFileContents;
+    if (parsed?.format !== 'npd-sync-log' || !Array.isArray(parsed.records)) {
+      throw new Error('Not a sync file');
+    }
+    const log = await this.loadLog();
+    const known = new Set(log.map(recordKey));
+    const fresh = parsed.records.filter(r => !known.has(recordKey(r)));
+    if (fresh.length > 0) {
+      await setSetting(LOCAL_LOG_KEY, [...log, ...fresh]);
+    }
+    return fresh.length;
+  }
+}
+
+export const createSyncBackend = (config: SyncBackendConfig): SyncBackend | null => {
+  switch (config.type) {
+    case 'http':
+      return config.url ? new HttpSyncBackend(config.url, config.token) : null;
+    case 'file':
+      return new LocalFileSyncBackend();
+    default:
+      return null;
+  }
+};
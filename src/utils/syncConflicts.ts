@@ -0,0 +1,87 @@
+/**
+ * Sync Conflicts - content conflicts left over from three-way merges
+ *
+ * The merged entity keeps this device's value for each conflicting field; the
+ * other device's value is parked here until the user picks a side. `local` is
+ * this device's value when the conflict was found; edits made since win over it.
+ */
+
+import { getSetting, setSetting } from '@/utils/settingsStorage';
+import type { SyncCollection } from '@/utils/syncEngine';
+
+export interface SyncConflictRecord {
+  collection: SyncCollection;
+  entityId: string;
+  fields: string[];
+  local: Record<string, unknown>;
+  remote: Record<string, unknown>;
+  remoteDeviceId: string;
+  detectedAt: string;
+}
+
+export type ConflictChoice = 'local' | 'remote';
+
+const STORAGE_KEY = 'nota-sync-conflicts';
+
+export const getSyncConflicts = async (): Promise<SyncConflictRecord[]> => {
+  return getSetting<SyncConflictRecord[]>(STORAGE_KEY, []);
+};
+
+export const getSyncConflict = async (
+  collection: SyncCollection,
+  entityId: string
+): Promise<SyncConflictRecord | null> => {
+  const conflicts = await getSyncConflicts();
+  return conflicts.find(c => c.collection === collection && c.entityId === entityId) || null;
+};
+
+// Record new conflicts, folding repeated conflicts on the same entity together
+export const addSyncConflicts = async (records: SyncConflictRecord[]): Promise<void> => {
+  if (records.length === 0) return;
+  const conflicts = await getSyncConflicts();
+  for (const record of records) {
+    const index = conflicts.findIndex(c => c.collection === record.collection && c.entityId === record.entityId);
+    if (index >= 0) {
+      const existing = conflicts[index];
+      conflicts[index] = {
+        ...record,
+        fields: Array.from(new Set([...existing.fields, ...record.fields])),
+        local: { ...existing.local, ...record.local },
+        remote: { ...existing.remote, ...record.remote },
+      };
+    } else {
+      conflicts.push(record);
+    }
+  }
+  await setSetting(STORAGE_KEY, conflicts);
+  window.dispatchEvent(new Event('syncConflictsUpdated'));
+};
+
+export const removeSyncConflict = async (collection: SyncCollection, entityId: string): Promise<void> => {
+  const conflicts = await getSyncConflicts();
+  await setSetting(
+    STORAGE_KEY,
+    conflicts.filter(c => !(c.collection === collection && c.entityId === entityId))
+  );
+  window.dispatchEvent(new Event('syncConflictsUpdated'));
+};
+
+// This device's side of a field: the entity's current value, or the recorded one for fields not passed in
+export const localConflictValue = (
+  conflict: SyncConflictRecord,
+  current: Record<string, unknown>,
+  field: string
+): unknown => (field in current ? current[field] : conflict.local[field]);
+
+// Field values chosen by the user, ready to be written onto the entity
+export const resolveConflictValues = (
+  conflict: SyncConflictRecord,
+  choices: Record<string, ConflictChoice>,
+  current: Record<string, unknown>
+): Record<string, unknown> => {
+  const values: Record<string, unknown> = {};
+  for (const field of conflict.fields) {
+    values[field] = choices[field] === 'remote' ? conflict.remote[field] : localConflictValue(conflict, current, field);
+  }
+  return values;
+};
@@ -0,0 +1,454 @@
+/**
+ * Sync Engine - pushes and pulls notes, folders and tasks through a pluggable backend
+ *
+ * Every entity is tracked by a content hash. The hash recorded after the last
+ * successful sync (the "base") tells us whether the local copy, the remote copy
+ * or both changed since then. Changes on one side only are applied silently.
+ * Notes and tasks changed on both sides are merged field by field against the
+ * last common ancestor (see syncMerge.ts); folders fall back to last-writer-wins.
+ */
+
+import { Folder, Note, RevisionVector, TodoItem } from '@/types/note';
+import { getSetting, setSetting } from '@/utils/settingsStorage';
+import { loadNotesFromDB, saveNoteToDBSingle, deleteNoteFromDB, hydrateNote } from '@/utils/noteStorage';
+import { loadTasksFromDB, saveTasksToDB, hydrateItem } from '@/utils/taskStorage';
+import { getNoteVersion, saveNoteVersions } from '@/utils/noteVersionHistory';
+import { bumpVector, compareVectors, mergeVectors, threeWayMerge, CONTENT_FIELDS } from '@/utils/syncMerge';
+import { addSyncConflicts, SyncConflictRecord } from '@/utils/syncConflicts';
+
+export type SyncCollection = 'notes' | 'folders' | 'todoFolders' | 'tasks';
+
+export const SYNC_COLLECTIONS: SyncCollection[] = ['notes', 'folders', 'todoFolders', 'tasks'];
+
+export interface SyncRecord {
+  collection: SyncCollection;
+  id: string;
+  hash: string;
+  updatedAt: number;
+  deviceId: string;
+  revision?: RevisionVector;
+  deleted?: boolean;
+  data?: unknown; // JSON-safe entity, omitted for tombstones
+}
+
+export interface SyncPullResult {
+  records: SyncRecord[];
+  cursor: string | null;
+}
+
+// Anything that can store an append-only log of records can act as a sync backend
+export interface SyncBackend {
+  readonly kind: string;
+  isAuthenticated(): Promise<boolean>;
+  pull(cursor: string | null): Promise<SyncPullResult>;
+  push(records: SyncRecord[]): Promise<void>;
+}
+
+export interface SyncConflict {
+  collection: SyncCollection;
+  id: string;
+  winner: 'local' | 'remote' | 'merged';
+  fields?: string[]; // content fields still awaiting the user after a merge
+}
+
+export interface SyncReport {
+  pushed: number;
+  pulled: number;
+  conflicts: SyncConflict[];
+}
+
+export interface LocalEntity {
+  id: string;
+  updatedAt: number;
+  data: unknown;
+}
+
+// Read/write access to the on-device stores, swappable for tests and stand-ins
+export interface LocalDataSource {
+  load(collection: SyncCollection): Promise<LocalEntity[]>;
+  apply(collection: SyncCollection, upserts: unknown[], deletedIds: string[]): Promise<void>;
+}
+
+interface SyncState {
+  cursor: string | null;
+  base: Record<SyncCollection, Record<string, string>>;
+}
+
+const SYNC_STATE_KEY = 'nota-sync-state';
+
+const emptyState = (): SyncState => ({
+  cursor: null,
+  base: { notes: {}, folders: {}, todoFolders: {}, tasks: {} },
+});
+
+// Deterministic JSON: sorted keys, undefined dropped, dates as ISO strings
+export const stableStringify = (value: unknown): string => {
+  if (value === null || value === undefined) return 'null';
+  if (value instanceof Date) return JSON.stringify(value.toISOString());
+  if (Array.isArray(value)) {
+    return `[${value.map(v => (v === undefined ? 'null' : stableStringify(v))).join(',')}]`;
+  }
+  if (typeof value === 'object') {
+    const entries = Object.keys(value as Record<string, unknown>)
+      .sort()
+      .filter(k => (value as Record<string, unknown>)[k] !== undefined)
+      .map(k => `${JSON.stringify(k)}:${stableStringify((value as Record<string, unknown>)[k])}`);
+    return `{${entries.join(',')}}`;
+  }
+  return JSON.stringify(value);
+};
+
+// 53-bit string hash (cyrb53), plenty for change detection
+export const hashString = (str: string): string => {
+  let h1 = 0xdeadbeef;
+  let h2 = 0x41c6ce57;
+  for (let i = 0; i < str.length; i++) {
+    const ch = str.charCodeAt(i);
+    h1 = Math.imul(h1 ^ ch, 2654435761);
+    h2 = Math.imul(h2 ^ ch, 1597334677);
+  }
+  h1 = Math.imul(h1 ^ (h1 >>> 16), 2246822507) ^ Math.imul(h2 ^ (h2 >>> 13), 3266489909);
+  h2 = Math.imul(h2 ^ (h2 >>> 16), 2246822507) ^ Math.imul(h1 ^ (h1 >>> 13), 3266489909);
+  return (4294967296 * (2097151 & h2) + (h1 >>> 0)).toString(36);
+};
+
+// The revision vector is bookkeeping, not content, so it is left out of the hash
+export const hashEntity = (data: unknown): string => {
+  if (data && typeof data === 'object' && 'revision' in data) {
+    const { revision, ...rest } = data as Record<string, unknown>;
+    return hashString(stableStringify(rest));
+  }
+  return hashString(stableStringify(data));
+};
+
+const toJSONSafe = (value: unknown): unknown => JSON.parse(stableStringify(value));
+
+const toTime = (value: Date | string | undefined): number => {
+  if (!value) return 0;
+  const time = new Date(value).getTime();
+  return isNaN(time) ? 0 : time;
+};
+
+// Default data source backed by the app's IndexedDB stores
+export const createLocalDataSource = (): LocalDataSource => ({
+  async load(collection) {
+    switch (collection) {
+      case 'notes': {
+        const notes = await loadNotesFromDB();
+        return notes.map(n => ({ id: n.id, updatedAt: toTime(n.updatedAt), data: n }));
+      }
+      case 'folders':
+      case 'todoFolders': {
+        const folders = await getSetting<Folder[]>(collection, []);
+        return (folders || []).map(f => ({ id: f.id, updatedAt: toTime(f.createdAt), data: f }));
+      }
+      case 'tasks': {
+        const tasks = await loadTasksFromDB();
+        return tasks.map(t => ({ id: t.id, updatedAt: toTime(t.modifiedAt || t.createdAt), data: t }));
+      }
+    }
+  },
+
+  async apply(collection, upserts, deletedIds) {
+    switch (collection) {
+      case 'notes': {
+        for (const raw of upserts) {
+          await saveNoteToDBSingle(hydrateNote(raw) as Note);
+        }
+        for (const id of deletedIds) {
+          await deleteNoteFromDB(id);
+        }
+        window.dispatchEvent(new Event('notesUpdated'));
+        break;
+      }
+      case 'folders':
+      case 'todoFolders': {
+        const existing = await getSetting<Folder[]>(collection, []);
+        const byId = new Map((existing || []).map(f => [f.id, f]));
+        deletedIds.forEach(id => byId.delete(id));
+        (upserts as Folder[]).forEach(raw => byId.set(raw.id, { ...raw, createdAt: new Date(raw.createdAt) }));
+        await setSetting(collection, Array.from(byId.values()));
+        window.dispatchEvent(new Event('foldersUpdated'));
+        break;
+      }
+      case 'tasks': {
+        const existing = await loadTasksFromDB();
+        const byId = new Map<string, TodoItem>(existing.map(t => [t.id, t]));
+        deletedIds.forEach(id => byId.delete(id));
+        (upserts as TodoItem[]).forEach(raw => byId.set(raw.id, hydrateItem(raw)));
+        await saveTasksToDB(Array.from(byId.values()), 'sync');
+        window.dispatchEvent(new Event('tasksUpdated'));
+        break;
+      }
+    }
+  },
+});
+
+const loadSyncState = async (): Promise<SyncState> => {
+  const saved = await getSetting<SyncState | null>(SYNC_STATE_KEY, null);
+  if (!saved) return emptyState();
+  return { ...emptyState(), ...saved, base: { ...emptyState().base, ...saved.base } };
+};
+
+export const resetSyncState = async (): Promise<void> => {
+  await setSetting(SYNC_STATE_KEY, emptyState());
+};
+
+interface LocalSnapshot {
+  hash: string;
+  entity: LocalEntity;
+}
+
+// Last common ancestor of an entity, as of the last successful sync
+interface AncestorSnapshot {
+  vector: RevisionVector;
+  data?: Record<string, unknown>; // notes omit title/content, kept in version history
+  versionId?: string;
+}
+
+const ANCESTORS_KEY = 'nota-sync-ancestors';
+const MERGEABLE: SyncCollection[] = ['notes', 'tasks'];
+
+const loadAncestorData = async (
+  collection: SyncCollection,
+  ancestor: AncestorSnapshot | undefined
+): Promise<Record<string, unknown> | undefined> => {
+  if (!ancestor?.data) return undefined;
+  if (collection !== 'notes' || !ancestor.versionId) return ancestor.data;
+  const version = await getNoteVersion(ancestor.versionId);
+  return version ? { ...ancestor.data, title: version.title, content: version.content } : ancestor.data;
+};
+
+/**
+ * Run one full sync round: pull remote records since the stored cursor,
+ * reconcile them with local changes, apply the winners locally and push
+ * whatever changed on this device.
+ */
+export const runSync = async (
+  backend: SyncBackend,
+  deviceId: string,
+  source: LocalDataSource = createLocalDataSource()
+): Promise<SyncReport> => {
+  const state = await loadSyncState();
+  const ancestors = await getSetting<Record<string, AncestorSnapshot>>(ANCESTORS_KEY, {});
+  const ancestorUpdates = new Map<string, { collection: SyncCollection; data?: Record<string, unknown>; vector: RevisionVector }>();
+  const newConflicts: SyncConflictRecord[] = [];
+  const report: SyncReport = { pushed: 0, pulled: 0, conflicts: [] };
+
+  // 1. Snapshot local data and work out what changed since the last sync
+  const local = {} as Record<SyncCollection, Map<string, LocalSnapshot>>;
+  for (const collection of SYNC_COLLECTIONS) {
+    const entities = await source.load(collection);
+    local[collection] = new Map(
+      entities.map(entity => [entity.id, { hash: hashEntity(entity.data), entity }])
+    );
+  }
+
+  const localChanged = (collection: SyncCollection, id: string): boolean => {
+    const baseHash = state.base[collection][id];
+    const snapshot = local[collection].get(id);
+    if (!snapshot) return baseHash !== undefined; // deleted locally
+    return snapshot.hash !== baseHash;
+  };
+
+  // 2. Pull and collapse to the latest remote record per entity
+  const { records, cursor } = await backend.pull(state.cursor);
+  const latestRemote = new Map<string, SyncRecord>();
+  for (const record of records) {
+    if (record.deviceId === deviceId) continue; // our own echo
+    latestRemote.set(`${record.collection}:${record.id}`, record);
+  }
+
+  const upserts = {} as Record<SyncCollection, unknown[]>;
+  const deletions = {} as Record<SyncCollection, string[]>;
+  const settled = new Set<string>(); // entities the remote side decided
+  const outgoing: SyncRecord[] = [];
+  const now = Date.now();
+  SYNC_COLLECTIONS.forEach(c => { upserts[c] = []; deletions[c] = []; });
+
+  const acceptRemote = (key: string, remote: SyncRecord) => {
+    const { collection, id } = remote;
+    if (remote.deleted) {
+      deletions[collection].push(id);
+      delete state.base[collection][id];
+    } else {
+      upserts[collection].push(remote.data);
+      state.base[collection][id] = remote.hash;
+    }
+    ancestorUpdates.set(key, {
+      collection,
+      data: remote.deleted ? undefined : (remote.data as Record<string, unknown>),
+      vector: mergeVectors(ancestors[key]?.vector, remote.revision),
+    });
+    settled.add(key);
+    report.pulled++;
+  };
+
+  // 3. Reconcile
+  for (const [key, remote] of latestRemote) {
+    const { collection, id } = remote;
+    if (!state.base[collection]) continue; // unknown collection from a newer client
+    const snapshot = local[collection].get(id);
+    const ancestor = ancestors[key];
+
+    // Records this device has already seen (e.g. re-imported sync files) carry nothing new
+    if (remote.revision && ancestor) {
+      const order = compareVectors(remote.revision, ancestor.vector);
+      if (order === 'before' || order === 'equal') continue;
+    }
+
+    const sameAsLocal = remote.deleted ? !snapshot : snapshot?.hash === remote.hash;
+    if (sameAsLocal) {
+      if (remote.deleted) delete state.base[collection][id];
+      else state.base[collection][id] = remote.hash;
+      ancestorUpdates.set(key, {
+        collection,
+        data: remote.deleted ? undefined : (remote.data as Record<string, unknown>),
+        vector: mergeVectors(ancestor?.vector, remote.revision),
+      });
+      settled.add(key);
+      continue;
+    }
+
+    if (!localChanged(collection, id)) {
+      acceptRemote(key, remote);
+      continue;
+    }
+
+    // Both sides changed. An edit always beats a deletion so no work is lost.
+    if (remote.deleted || !snapshot) {
+      if (!remote.deleted) acceptRemote(key, remote);
+      report.conflicts.push({ collection, id, winner: remote.deleted ? 'local' : 'remote' });
+      continue;
+    }
+
+    const localData = toJSONSafe(snapshot.entity.data) as Record<string, unknown>;
+    const remoteData = remote.data as Record<string, unknown>;
+    const preferRemote = remote.updatedAt >= snapshot.entity.updatedAt;
+
+    if (!MERGEABLE.includes(collection)) {
+      if (preferRemote) acceptRemote(key, remote);
+      report.conflicts.push({ collection, id, winner: preferRemote ? 'remote' : 'local' });
+      continue;
+    }
+
+    const { merged, conflicts } = threeWayMerge(
+      await loadAncestorData(collection, ancestor),
+      localData,
+      remoteData,
+      { contentFields: CONTENT_FIELDS[collection], preferRemote }
+    );
+    const localVector = mergeVectors(ancestor?.vector, localData.revision as RevisionVector);
+    const vector = bumpVector(mergeVectors(localVector, remote.revision), deviceId);
+    const mergedData = { ...merged, revision: vector };
+    const hash = hashEntity(mergedData);
+
+    upserts[collection].push(mergedData);
+    outgoing.push({ collection, id, hash, updatedAt: Math.max(now, remote.updatedAt), deviceId, revision: vector, data: mergedData });
+    state.base[collection][id] = hash;
+    ancestorUpdates.set(key, { collection, data: mergedData, vector });
+    settled.add(key);
+    report.pulled++;
+    report.conflicts.push({ collection, id, winner: 'merged', fields: conflicts });
+
+    if (conflicts.length > 0) {
+      newConflicts.push({
+        collection,
+        entityId: id,
+        fields: conflicts,
+        local: Object.fromEntries(conflicts.map(f => [f, localData[f]])),
+        remote: Object.fromEntries(conflicts.map(f => [f, remoteData[f]])),
+        remoteDeviceId: remote.deviceId,
+        detectedAt: new Date(now).toISOString(),
+      });
+    }
+  }
+
+  // 4. Push local changes that were not overridden by the remote side
+  for (const collection of SYNC_COLLECTIONS) {
+    for (const [id, snapshot] of local[collection]) {
+      const key = `${collection}:${id}`;
+      if (settled.has(key) || !localChanged(collection, id)) continue;
+      const data = toJSONSafe(snapshot.entity.data) as Record<string, unknown>;
+      const vector = bumpVector(mergeVectors(ancestors[key]?.vector, data.revision as RevisionVector), deviceId);
+      const outgoingData = { ...data, revision: vector };
+      outgoing.push({
+        collection,
+        id,
+        hash: snapshot.hash,
+        updatedAt: snapshot.entity.updatedAt || now,
+        deviceId,
+        revision: vector,
+        data: outgoingData,
+      });
+      ancestorUpdates.set(key, { collection, data: outgoingData, vector });
+    }
+    for (const id of Object.keys(state.base[collection])) {
+      const key = `${collection}:${id}`;
+      if (local[collection].has(id) || settled.has(key)) continue;
+      const vector = bumpVector(ancestors[key]?.vector, deviceId);
+      outgoing.push({ collection, id, hash: '', updatedAt: now, deviceId, revision: vector, deleted: true });
+      ancestorUpdates.set(key, { collection, vector });
+    }
+  }
+
+  if (outgoing.length > 0) {
+    await backend.push(outgoing);
+    for (const record of outgoing) {
+      if (record.deleted) delete state.base[record.collection][record.id];
+      else state.base[record.collection][record.id] = record.hash;
+    }
+    report.pushed = outgoing.length;
+  }
+
+  // 5. Apply remote winners locally and persist the new base
+  const changedCollections = SYNC_COLLECTIONS.filter(
+    c => upserts[c].length > 0 || deletions[c].length > 0
+  );
+  for (const collection of changedCollections) {
+    await source.apply(collection, upserts[collection], deletions[collection]);
+  }
+  if (changedCollections.length > 0) {
+    window.dispatchEvent(new CustomEvent('syncApplied', { detail: { collections: changedCollections } }));
+  }
+
+  await saveAncestors(ancestors, ancestorUpdates);
+  await addSyncConflicts(newConflicts);
+
+  state.cursor = cursor;
+  await setSetting(SYNC_STATE_KEY, state);
+
+  return report;
+};
+
+// Persist new common ancestors; note text goes to version history instead of being duplicated
+const saveAncestors = async (
+  ancestors: Record<string, AncestorSnapshot>,
+  updates: Map<string, { collection: SyncCollection; data?: Record<string, unknown>; vector: RevisionVector }>
+) => {
+  if (updates.size === 0) return;
+
+  const noteKeys: string[] = [];
+  const noteSnapshots: Note[] = [];
+  for (const [key, update] of updates) {
+    if (!update.data) {
+      ancestors[key] = { vector: update.vector };
+    } else if (update.collection === 'notes') {
+      noteKeys.push(key);
+      noteSnapshots.push(hydrateNote(update.data));
+      const { title, content, ...rest } = update.data;
+      ancestors[key] = { vector: update.vector, data: rest };
+    } else if (MERGEABLE.includes(update.collection)) {
+      ancestors[key] = { vector: update.vector, data: update.data };
+    } else {
+      ancestors[key] = { vector: update.vector };
+    }
+  }
+
+  const versions = await saveNoteVersions(noteSnapshots, 'sync');
+  versions.forEach((version, i) => {
+    ancestors[noteKeys[i]].versionId = version.id;
+  });
+
+  await setSetting(ANCESTORS_KEY, ancestors);
+};
@@ -1,5 +1,7 @@
-// Simplified sync manager using IndexedDB storage
+// Sync manager - owns the backend configuration and runs the sync engine
 import { getSetting, setSetting } from '@/utils/settingsStorage';
+import { runSync, resetSyncState, SyncConflict } from '@/utils/syncEngine';
+import { createSyncBackend, SyncBackendConfig } from '@/utils/syncBackends';
 
 const STORAGE_KEYS = {
   NOTES: 'nota-notes',
@@ -7,15 +9,34 @@ const STORAGE_KEYS = {
   TODO_ITEMS: 'nota-todo-items',
   LAST_SYNC: 'nota-last-sync',
   SYNC_ENABLED: 'nota-sync-enabled',
+  BACKEND: 'nota-sync-backend',
+  DEVICE_ID: 'nota-sync-device-id',
 };
 
+export interface SyncResult {
+  success: boolean;
+  error?: string;
+  conflicts?: number;
+  conflictDetails?: SyncConflict[];
+  pushed?: number;
+  pulled?: number;
+}
+
+type SyncListener = () => void;
+
 class SyncManager {
   private static instance: SyncManager;
   private syncEnabled: boolean | null = null;
   private lastSyncTime: Date | null = null;
+  private backendConfig: SyncBackendConfig = { type: 'none' };
+  private deviceId: string | null = null;
+  private lastResult: SyncResult | null = null;
+  private inFlight: Promise<SyncResult> | null = null;
+  private listeners = new Set<SyncListener>();
+  private ready: Promise<void>;
 
   private constructor() {
-    this.loadSettings();
+    this.ready = this.loadSettings();
   }
 
   static getInstance(): SyncManager {
@@ -29,21 +50,67 @@ class SyncManager {
     this.syncEnabled = await getSetting(STORAGE_KEYS.SYNC_ENABLED, false);
     const lastSync = await getSetting<string | null>(STORAGE_KEYS.LAST_SYNC, null);
     this.lastSyncTime = lastSync ? new Date(lastSync) : null;
+    this.backendConfig = await getSetting<SyncBackendConfig>(STORAGE_KEYS.BACKEND, { type: 'none' });
+
+    let deviceId = await getSetting<string | null>(STORAGE_KEYS.DEVICE_ID, null);
+    if (!deviceId) {
+      deviceId = `device-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 10)}`;
+      await setSetting(STORAGE_KEYS.DEVICE_ID, deviceId);
+    }
+    this.deviceId = deviceId;
+    this.notify();
+  }
+
+  private notify() {
+    this.listeners.forEach(listener => listener());
+  }
+
+  // Subscribe to state changes (enabled flag, last sync, in-flight status)
+  subscribe(listener: SyncListener): () => void {
+    this.listeners.add(listener);
+    return () => this.listeners.delete(listener);
+  }
+
+  whenReady(): Promise<void> {
+    return this.ready;
   }
 
   isSyncEnabled(): boolean {
     return this.syncEnabled ?? false;
   }
 
+  isSyncing(): boolean {
+    return this.inFlight !== null;
+  }
+
   async setSyncEnabled(enabled: boolean) {
     this.syncEnabled = enabled;
     await setSetting(STORAGE_KEYS.SYNC_ENABLED, enabled);
+    this.notify();
+  }
+
+  getBackendConfig(): SyncBackendConfig {
+    return this.backendConfig;
+  }
+
+  async setBackendConfig(config: SyncBackendConfig) {
+    const switched = config.type !== this.backendConfig.type ||
+      (config.type === 'http' && this.backendConfig.type === 'http' && config.url !== this.backendConfig.url);
+    this.backendConfig = config;
+    await setSetting(STORAGE_KEYS.BACKEND, config);
+    // A different backend has a different log, so start over from a full push
+    if (switched) await resetSyncState();
+    this.notify();
   }
 
   getLastSyncTime(): Date | null {
     return this.lastSyncTime;
   }
 
+  getLastResult(): SyncResult | null {
+    return this.lastResult;
+  }
+
   private async setLastSyncTime() {
     const now = new Date();
     this.lastSyncTime = now;
@@ -51,21 +118,60 @@ class SyncManager {
   }
 
   async isAuthenticated(): Promise<boolean> {
-    return false;
+    await this.ready;
+    const backend = createSyncBackend(this.backendConfig);
+    return backend ? backend.isAuthenticated() : false;
   }
 
-  async syncAllData(): Promise<{
-    success: boolean;
-    error?: string;
-    conflicts?: number;
-  }> {
-    // Local only - no sync needed
-    await this.setLastSyncTime();
-    return { success: true };
+  async syncAllData(): Promise<SyncResult> {
+    // Coalesce overlapping requests into the running sync
+    if (this.inFlight) return this.inFlight;
+
+    this.inFlight = this.performSync();
+    this.notify();
+    try {
+      this.lastResult = await this.inFlight;
+      return this.lastResult;
+    } finally {
+      this.inFlight = null;
+      this.notify();
+    }
+  }
+
+  // Sync only if enabled and the last successful sync is older than maxAgeMs
+  async syncIfStale(maxAgeMs: number): Promise<SyncResult | null> {
+    await this.ready;
+    if (!this.isSyncEnabled()) return null;
+    if (this.lastSyncTime && Date.now() - this.lastSyncTime.getTime() < maxAgeMs) return null;
+    return this.syncAllData();
+  }
+
+  private async performSync(): Promise<SyncResult> {
+    await this.ready;
+    const backend = createSyncBackend(this.backendConfig);
+    if (!backend) {
+      return { success: false, error: 'No sync backend configured' };
+    }
+
+    try {
+      const report = await runSync(backend, this.deviceId!);
+      await this.setLastSyncTime();
+      return {
+        success: true,
+        conflicts: report.conflicts.length,
+        conflictDetails: report.conflicts,
+        pushed: report.pushed,
+        pulled: report.pulled,
+      };
+    } catch (error) {
+      console.error('Sync failed:', error);
+      return { success: false, error: error instanceof Error ? error.message : String(error) };
+    }
   }
 
   async updateProfileSyncTime(): Promise<void> {
     await this.setLastSyncTime();
+    this.notify();
   }
 }
 
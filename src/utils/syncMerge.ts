@@ -0,0 +1,197 @@
+/**
+ * Sync Merge - revision vectors and three-way merge for synced entities
+ *
+ * A revision vector maps device ids to the number of changes that device has
+ * pushed for an entity. Comparing two vectors tells whether one copy already
+ * includes the other or whether both devices edited concurrently. Concurrent
+ * edits are merged field by field against the last common ancestor.
+ */
+
+import { RevisionVector } from '@/types/note';
+
+export type VectorOrder = 'equal' | 'before' | 'after' | 'concurrent';
+
+export const compareVectors = (a: RevisionVector = {}, b: RevisionVector = {}): VectorOrder => {
+  let aAhead = false;
+  let bAhead = false;
+  for (const device of new Set([...Object.keys(a), ...Object.keys(b)])) {
+    const av = a[device] || 0;
+    const bv = b[device] || 0;
+    if (av > bv) aAhead = true;
+    if (bv > av) bAhead = true;
+  }
+  if (aAhead && bAhead) return 'concurrent';
+  if (aAhead) return 'after';
+  if (bAhead) return 'before';
+  return 'equal';
+};
+
+export const mergeVectors = (a: RevisionVector = {}, b: RevisionVector = {}): RevisionVector => {
+  const merged: RevisionVector = { ...a };
+  for (const [device, count] of Object.entries(b)) {
+    merged[device] = Math.max(merged[device] || 0, count);
+  }
+  return merged;
+};
+
+export const bumpVector = (vector: RevisionVector = {}, deviceId: string): RevisionVector => ({
+  ...vector,
+  [deviceId]: (vector[deviceId] || 0) + 1,
+});
+
+// Fields the engine maintains itself and never reports as conflicts
+const BOOKKEEPING_FIELDS = new Set(['revision', 'updatedAt', 'modifiedAt']);
+
+// Fields whose concurrent edits need a human decision, per collection
+export const CONTENT_FIELDS: Record<string, string[]> = {
+  notes: ['title', 'content', 'codeContent'],
+  tasks: ['text', 'description'],
+};
+
+export interface MergeOptions {
+  contentFields: string[];
+  // Tie-breaker for non-content fields edited on both sides
+  preferRemote: boolean;
+}
+
+export interface MergeResult<T> {
+  merged: T;
+  conflicts: string[]; // content fields left at the local value, awaiting resolution
+  autoResolved: string[]; // fields edited on both sides and settled automatically
+}
+
+type Plain = Record<string, unknown>;
+
+const isPlainObject = (value: unknown): value is Plain =>
+  value !== null && typeof value === 'object' && !Array.isArray(value) && !(value instanceof Date);
+
+const normalize = (value: unknown): unknown => {
+  if (value instanceof Date) return value.toISOString();
+  if (Array.isArray(value)) return value.map(normalize);
+  if (isPlainObject(value)) {
+    const out: Plain = {};
+    Object.keys(value).sort().forEach(k => {
+      if (value[k] !== undefined) out[k] = normalize(value[k]);
+    });
+    return out;
+  }
+  return value;
+};
+
+export const valuesEqual = (a: unknown, b: unknown): boolean =>
+  JSON.stringify(normalize(a)) === JSON.stringify(normalize(b));
+
+const isPrimitiveArray = (value: unknown): value is (string | number | boolean)[] =>
+  Array.isArray(value) && value.every(v => v === null || typeof v !== 'object');
+
+const isIdArray = (value: unknown): value is { id: string }[] =>
+  Array.isArray(value) && value.every(v => isPlainObject(v) && typeof v.id === 'string');
+
+// Set semantics: keep what either side added, drop what either side removed
+const mergePrimitiveSets = (
+  ancestor: (string | number | boolean)[] = [],
+  local: (string | number | boolean)[],
+  remote: (string | number | boolean)[]
+) => {
+  const removed = new Set(ancestor.filter(v => !local.includes(v) || !remote.includes(v)));
+  const result = local.filter(v => !removed.has(v));
+  remote.forEach(v => {
+    if (!removed.has(v) && !result.includes(v)) result.push(v);
+  });
+  return result;
+};
+
+const mergeIdLists = (
+  ancestor: { id: string }[] = [],
+  local: { id: string }[],
+  remote: { id: string }[],
+  options: MergeOptions,
+  path: string,
+  result: { conflicts: string[]; autoResolved: string[] }
+) => {
+  const ancestorById = new Map(ancestor.map(item => [item.id, item]));
+  const remoteById = new Map(remote.map(item => [item.id, item]));
+  const localIds = new Set(local.map(item => item.id));
+  const merged: { id: string }[] = [];
+
+  for (const item of local) {
+    const remoteItem = remoteById.get(item.id);
+    const ancestorItem = ancestorById.get(item.id);
+    if (!remoteItem) {
+      // Removed remotely: honour it unless this side edited the item since
+      if (ancestorItem && valuesEqual(ancestorItem, item)) continue;
+      merged.push(item);
+      continue;
+    }
+    // Nested items settle automatically; only top-level content asks the user
+    const nested = mergeObjects(ancestorItem as Plain, item as Plain, remoteItem as Plain, { ...options, contentFields: [] });
+    nested.autoResolved.forEach(f => result.autoResolved.push(`${path}.${item.id}.${f}`));
+    merged.push(nested.merged as { id: string });
+  }
+
+  for (const item of remote) {
+    if (localIds.has(item.id)) continue;
+    const ancestorItem = ancestorById.get(item.id);
+    // Removed locally: honour it unless the other side edited the item since
+    if (ancestorItem && valuesEqual(ancestorItem, item)) continue;
+    merged.push(item);
+  }
+
+  return merged;
+};
+
+const mergeObjects = (
+  ancestor: Plain | undefined,
+  local: Plain,
+  remote: Plain,
+  options: MergeOptions
+): MergeResult<Plain> => {
+  const result = { conflicts: [] as string[], autoResolved: [] as string[] };
+  const merged: Plain = {};
+  const keys = new Set([...Object.keys(local), ...Object.keys(remote)]);
+
+  for (const key of keys) {
+    const l = local[key];
+    const r = remote[key];
+    const a = ancestor?.[key];
+
+    if (BOOKKEEPING_FIELDS.has(key)) {
+      merged[key] = l;
+      continue;
+    }
+    if (valuesEqual(l, r) || (ancestor && valuesEqual(r, a))) {
+      merged[key] = l;
+    } else if (ancestor && valuesEqual(l, a)) {
+      merged[key] = r;
+    } else if (isPrimitiveArray(l) && isPrimitiveArray(r) && (a === undefined || isPrimitiveArray(a))) {
+      merged[key] = mergePrimitiveSets(a as (string | number | boolean)[], l, r);
+    } else if (isIdArray(l) && isIdArray(r) && (a === undefined || isIdArray(a))) {
+      merged[key] = mergeIdLists(a as { id: string }[], l, r, options, key, result);
+    } else if (options.contentFields.includes(key)) {
+      merged[key] = l;
+      result.conflicts.push(key);
+    } else {
+      merged[key] = options.preferRemote ? r : l;
+      result.autoResolved.push(key);
+    }
+
+    if (merged[key] === undefined) delete merged[key];
+  }
+
+  return { merged, ...result };
+};
+
+/**
+ * Merge two concurrently edited copies of an entity against their common
+ * ancestor. Without an ancestor every differing field counts as edited on
+ * both sides.
+ */
+export const threeWayMerge = <T extends object>(
+  ancestor: T | undefined,
+  local: T,
+  remote: T,
+  options: MergeOptions
+): MergeResult<T> => {
+  const result = mergeObjects(ancestor as Plain | undefined, local as Plain, remote as Plain, options);
+  return result as MergeResult<T>;
+};
@@ -0,0 +1,307 @@
+/**
+ * Task Boards - saved board layouts for tasks
+ *
+ * A board splits tasks into columns by one field (section, status,
+ * priority, tag, folder, due date or a custom field of the board's own)
+ * and optionally into swimlanes by a second one. Completed tasks sit in a
+ * "done" column at the end. Moving a task to another column or lane
+ * rewrites the fields those define, and columns can carry a WIP limit.
+ */
+
+import { addDays, isBefore, isSameDay, startOfDay } from 'date-fns';
+import { ColoredTag, Folder, Priority, TaskSection, TaskStatus, TodoItem } from '@/types/note';
+import { getSetting, setSetting } from '@/utils/settingsStorage';
+
+export type BoardField = 'section' | 'status' | 'priority' | 'tag' | 'folder' | 'due' | 'custom';
+
+export const BOARD_FIELDS: BoardField[] = ['section', 'status', 'priority', 'tag', 'folder', 'due', 'custom'];
+
+// A field that only exists on boards: a name and the values it can take
+export interface BoardCustomField {
+  name: string;
+  options: string[];
+}
+
+export interface TaskBoard {
+  id: string;
+  name: string;
+  columnField: BoardField;
+  swimlaneField: BoardField | null;
+  customField?: BoardCustomField;
+  // Column key -> most open tasks the column should hold
+  wipLimits: Record<string, number>;
+  collapseDone: boolean;
+  createdAt: string;
+}
+
+export interface BoardGroup {
+  key: string;
+  // Names that come from the user's data; built-in groups have a translation key instead
+  label?: string;
+  labelKey?: string;
+  color?: string;
+  // Tasks can't be dropped into groups like "overdue"
+  droppable: boolean;
+}
+
+export interface BoardContext {
+  tasks: TodoItem[];
+  sections: TaskSection[];
+  folders: Folder[];
+  customField?: BoardCustomField;
+}
+
+export type WipState = 'none' | 'under' | 'at' | 'over';
+
+export const NO_VALUE = '__none';
+export const DONE_COLUMN = '__done';
+
+const BOARDS_KEY = 'taskBoards';
+const ACTIVE_BOARD_KEY = 'taskActiveBoard';
+export const TASK_BOARDS_EVENT = 'taskBoardsUpdated';
+
+const STATUS_GROUPS: { key: TaskStatus; color: string }[] = [
+  { key: 'not_started', color: '#6b7280' },
+  { key: 'in_progress', color: '#3b82f6' },
+  { key: 'almost_done', color: '#f59e0b' },
+];
+
+const PRIORITY_GROUPS: { key: Priority; color: string }[] = [
+  { key: 'high', color: '#ef4444' },
+  { key: 'medium', color: '#f59e0b' },
+  { key: 'low', color: '#10b981' },
+  { key: 'none', color: '#6b7280' },
+];
+
+type DueBucket = 'overdue' | 'today' | 'tomorrow' | 'week' | 'later' | typeof NO_VALUE;
+
+// First day of each bucket a task can be moved into, counted from today
+const DUE_BUCKET_OFFSETS: Record<Exclude<DueBucket, 'overdue' | typeof NO_VALUE>, number> = {
+  today: 0,
+  tomorrow: 1,
+  week: 2,
+  later: 8,
+};
+
+export const STATUS_BOARD_ID = 'default';
+export const SECTIONS_BOARD_ID = 'sections';
+
+const createPresetBoard = (id: string, name: string, columnField: BoardField): TaskBoard => ({
+  id,
+  name,
+  columnField,
+  swimlaneField: null,
+  wipLimits: {},
+  collapseDone: true,
+  createdAt: new Date(0).toISOString(),
+});
+
+// Built-in boards come first; they can be edited but not deleted
+const createPresetBoards = (): TaskBoard[] => [
+  createPresetBoard(STATUS_BOARD_ID, 'Status', 'status'),
+  createPresetBoard(SECTIONS_BOARD_ID, 'Sections', 'section'),
+];
+
+export const isPresetBoard = (id: string): boolean => id === STATUS_BOARD_ID || id === SECTIONS_BOARD_ID;
+
+// ============ Grouping ============
+
+const tagNames = (task: TodoItem): string[] =>
+  [...new Set([...(task.coloredTags ?? []).map(tag => tag.name), ...(task.tags ?? [])])];
+
+const dueBucket = (task: TodoItem, now: Date): DueBucket => {
+  if (!task.dueDate) return NO_VALUE;
+  const due = startOfDay(new Date(task.dueDate));
+  const today = startOfDay(now);
+  if (isBefore(due, today)) return 'overdue';
+  if (isSameDay(due, today)) return 'today';
+  if (isSameDay(due, addDays(today, 1))) return 'tomorrow';
+  return isBefore(due, addDays(today, DUE_BUCKET_OFFSETS.later)) ? 'week' : 'later';
+};
+
+/** The groups a field splits open tasks into, in display order */
+export const getBoardGroups = (field: BoardField, context: BoardContext): BoardGroup[] => {
+  switch (field) {
+    case 'section':
+      return [...context.sections]
+        .sort((a, b) => a.order - b.order)
+        .map(section => ({ key: section.id, label: section.name, color: section.color, droppable: true }));
+    case 'status':
+      return STATUS_GROUPS.map(({ key, color }) => ({ key, labelKey: `taskBoards.status.${key}`, color, droppable: true }));
+    case 'priority':
+      return PRIORITY_GROUPS.map(({ key, color }) => ({ key, labelKey: `taskBoards.priority.${key}`, color, droppable: true }));
+    case 'tag': {
+      const colors = new Map<string, string>();
+      const names = new Set<string>();
+      context.tasks.forEach(task => {
+        task.coloredTags?.forEach(tag => colors.set(tag.name, tag.color));
+        tagNames(task).forEach(name => names.add(name));
+      });
+      return [
+        ...[...names].sort((a, b) => a.localeCompare(b)).map(name => ({ key: name, label: name, color: colors.get(name), droppable: true })),
+        { key: NO_VALUE, labelKey: 'taskBoards.noTag', droppable: true },
+      ];
+    }
+    case 'folder':
+      return [
+        { key: NO_VALUE, labelKey: 'taskBoards.noFolder', droppable: true },
+        ...context.folders.map(folder => ({ key: folder.id, label: folder.name, color: folder.color, droppable: true })),
+      ];
+    case 'due':
+      return [
+        { key: 'overdue', labelKey: 'taskBoards.due.overdue', color: '#ef4444', droppable: false },
+        { key: 'today', labelKey: 'taskBoards.due.today', color: '#3b82f6', droppable: true },
+        { key: 'tomorrow', labelKey: 'taskBoards.due.tomorrow', color: '#8b5cf6', droppable: true },
+        { key: 'week', labelKey: 'taskBoards.due.week', color: '#10b981', droppable: true },
+        { key: 'later', labelKey: 'taskBoards.due.later', color: '#6b7280', droppable: true },
+        { key: NO_VALUE, labelKey: 'taskBoards.due.none', droppable: true },
+      ];
+    case 'custom':
+      return [
+        ...(context.customField?.options ?? []).map(option => ({ key: option, label: option, droppable: true })),
+        { key: NO_VALUE, labelKey: 'taskBoards.noValue', droppable: true },
+      ];
+  }
+};
+
+/** The group keys a task falls under; a task with several tags is in each of their columns */
+export const getGroupKeys = (task: TodoItem, field: BoardField, context: BoardContext, now = new Date()): string[] => {
+  switch (field) {
+    case 'section': {
+      // Tasks without a known section belong to the first one, as in the section views
+      const known = context.sections.some(section => section.id === task.sectionId);
+      return [known ? (task.sectionId as string) : context.sections[0]?.id ?? NO_VALUE];
+    }
+    case 'status':
+      return [task.status && task.status !== 'completed' ? task.status : 'not_started'];
+    case 'priority':
+      return [task.priority ?? 'none'];
+    case 'tag': {
+      const names = tagNames(task);
+      return names.length > 0 ? names : [NO_VALUE];
+    }
+    case 'folder':
+      return [context.folders.some(folder => folder.id === task.folderId) ? (task.folderId as string) : NO_VALUE];
+    case 'due':
+      return [dueBucket(task, now)];
+    case 'custom': {
+      const value = context.customField ? task.customFields?.[context.customField.name] : undefined;
+      return [value && context.customField?.options.includes(value) ? value : NO_VALUE];
+    }
+  }
+};
+
+// Swap tag `from` for `to`, reusing the color `to` has on other tasks
+const moveTag = (task: TodoItem, from: string, to: string, context: BoardContext): Partial<TodoItem> => {
+  if (to === NO_VALUE) return { tags: [], coloredTags: [] };
+  const tags = (task.tags ?? []).filter(name => name !== from && name !== to);
+  const coloredTags = (task.coloredTags ?? []).filter(tag => tag.name !== from && tag.name !== to);
+  const colored = context.tasks
+    .flatMap(other => other.coloredTags ?? [])
+    .find((tag): tag is ColoredTag => tag.name === to);
+  return colored ? { tags, coloredTags: [...coloredTags, colored] } : { tags: [...tags, to], coloredTags };
+};
+
+// Keep the time of day a task was due at when moving it to another day
+const dueOn = (task: TodoItem, offset: number, now: Date): Date => {
+  const day = addDays(startOfDay(now), offset);
+  if (!task.dueDate) return day;
+  const previous = new Date(task.dueDate);
+  day.setHours(previous.getHours(), previous.getMinutes(), 0, 0);
+  return day;
+};
+
+const fieldUpdates = (
+  task: TodoItem,
+  field: BoardField,
+  from: string,
+  to: string,
+  context: BoardContext,
+  now: Date
+): Partial<TodoItem> => {
+  switch (field) {
+    case 'section':
+      return { sectionId: to };
+    case 'status':
+      return { status: to as TaskStatus };
+    case 'priority':
+      return { priority: to as Priority };
+    case 'tag':
+      return moveTag(task, from, to, context);
+    case 'folder':
+      return { folderId: to === NO_VALUE ? undefined : to };
+    case 'due':
+      return { dueDate: to === NO_VALUE ? undefined : dueOn(task, DUE_BUCKET_OFFSETS[to as keyof typeof DUE_BUCKET_OFFSETS], now) };
+    case 'custom': {
+      if (!context.customField) return {};
+      const customFields = { ...task.customFields };
+      if (to === NO_VALUE) delete customFields[context.customField.name];
+      else customFields[context.customField.name] = to;
+      return { customFields };
+    }
+  }
+};
+
+/**
+ * The changes that put a task into another cell of a board. Moving into
+ * the done column completes it; moving out of it reopens it.
+ */
+export const getMoveUpdates = (
+  task: TodoItem,
+  board: TaskBoard,
+  from: { column: string; lane: string | null },
+  to: { column: string; lane: string | null },
+  context: BoardContext,
+  now = new Date()
+): Partial<TodoItem> => {
+  let updates: Partial<TodoItem> = {};
+  if (board.swimlaneField && from.lane !== null && to.lane !== null && from.lane !== to.lane) {
+    updates = fieldUpdates(task, board.swimlaneField, from.lane, to.lane, context, now);
+  }
+  if (to.column === DONE_COLUMN) {
+    return from.column === DONE_COLUMN ? updates : { ...updates, completed: true, status: 'completed' };
+  }
+  if (from.column === DONE_COLUMN) {
+    const status = board.columnField === 'status' ? undefined : 'not_started';
+    updates = { ...updates, completed: false, ...(status && { status }) };
+  }
+  if (from.column !== to.column) {
+    updates = { ...updates, ...fieldUpdates(task, board.columnField, from.column, to.column, context, now) };
+  }
+  return updates;
+};
+
+export const getWipState = (count: number, limit?: number): WipState => {
+  if (!limit) return 'none';
+  if (count > limit) return 'over';
+  return count === limit ? 'at' : 'under';
+};
+
+// ============ Storage ============
+
+export const getTaskBoards = async (): Promise<TaskBoard[]> => {
+  const saved = await getSetting<TaskBoard[]>(BOARDS_KEY, []);
+  const presets = createPresetBoards().map(preset => saved.find(b => b.id === preset.id) ?? preset);
+  return [...presets, ...saved.filter(b => !isPresetBoard(b.id))];
+};
+
+// Insert a new board or replace the one with the same id
+export const saveTaskBoard = async (board: TaskBoard): Promise<void> => {
+  const boards = await getTaskBoards();
+  const index = boards.findIndex(b => b.id === board.id);
+  if (index >= 0) boards[index] = board;
+  else boards.push(board);
+  await setSetting(BOARDS_KEY, boards);
+  window.dispatchEvent(new Event(TASK_BOARDS_EVENT));
+};
+
+export const deleteTaskBoard = async (id: string): Promise<void> => {
+  if (isPresetBoard(id)) return;
+  const boards = await getTaskBoards();
+  await setSetting(BOARDS_KEY, boards.filter(b => b.id !== id));
+  window.dispatchEvent(new Event(TASK_BOARDS_EVENT));
+};
+
+export const getActiveBoardId = (): Promise<string | null> => getSetting<string | null>(ACTIVE_BOARD_KEY, null);
+
+export const setActiveBoardId = (id: string): Promise<void> => setSetting(ACTIVE_BOARD_KEY, id);
@@ -0,0 +1,278 @@
+/**
+ * Task Dependencies - checks and scheduling for tasks that wait on other tasks
+ *
+ * `dependsOn` lists a task's prerequisites. This module checks the graph
+ * they form (cycles, links to tasks that no longer exist, tasks due before
+ * one of their prerequisites), says which open tasks are blocked and which
+ * are ready, and lays tasks out on a timeline with the critical path: the
+ * chain of tasks that decides when the last of them can be done. A task
+ * counts as blocked while any prerequisite that still exists is open.
+ */
+
+import { addDays, endOfDay, startOfDay } from 'date-fns';
+import { toast } from 'sonner';
+import i18n from '@/i18n';
+import { TodoItem } from '@/types/note';
+
+export type DependencyState = 'done' | 'blocked' | 'ready';
+
+export interface DependencyReport {
+  states: Map<string, DependencyState>;
+  // Groups of tasks that wait on each other, so none of them can ever be started
+  cycles: string[][];
+  // Prerequisite ids that no longer match a task
+  missing: { taskId: string; missingIds: string[] }[];
+  // Tasks due before a prerequisite is due
+  dueConflicts: { taskId: string; prerequisiteId: string }[];
+}
+
+export interface ScheduledTask {
+  task: TodoItem;
+  // Days from the start of the schedule
+  startDay: number;
+  endDay: number;
+  start: Date;
+  end: Date;
+  // How many days the task can slip without moving the end of the schedule
+  slack: number;
+  critical: boolean;
+  // Planned to finish after its due date
+  late: boolean;
+}
+
+export interface TaskSchedule {
+  start: Date;
+  days: number;
+  tasks: ScheduledTask[];
+  // Links between scheduled tasks, prerequisite first
+  links: { from: string; to: string; critical: boolean }[];
+  // Open tasks left off the timeline because they are part of a cycle
+  unscheduled: TodoItem[];
+}
+
+export const DEFAULT_DURATION_DAYS = 1;
+
+const byId = (tasks: TodoItem[]) => new Map(tasks.map(task => [task.id, task]));
+
+// Prerequisites of a task that still exist
+const prerequisitesOf = (task: TodoItem, tasks: Map<string, TodoItem>): TodoItem[] =>
+  (task.dependsOn ?? []).map(id => tasks.get(id)).filter((prerequisite): prerequisite is TodoItem => !!prerequisite);
+
+// Open prerequisites that keep `task` from being completed
+export const getBlockingTasks = (task: TodoItem, allTasks: TodoItem[]): TodoItem[] =>
+  task.dependsOn?.length ? prerequisitesOf(task, byId(allTasks)).filter(prerequisite => !prerequisite.completed) : [];
+
+/**
+ * The check every path that completes a single task makes first: a task
+ * waiting on open tasks cannot be completed, and the user is told which
+ * ones. Completing several at once goes through splitCompletable instead.
+ */
+export const ensureCanComplete = (task: TodoItem, allTasks: TodoItem[]): boolean => {
+  if (task.completed) return true;
+  const blockedBy = getBlockingTasks(task, allTasks);
+  if (blockedBy.length === 0) return true;
+  toast.error(i18n.t('dependencies.completeBlocked', { tasks: blockedBy.map(item => item.text).join(', ') }));
+  return false;
+};
+
+/**
+ * Of the tasks in `ids`, the ones that can be completed together: a task
+ * whose open prerequisites are all being completed along with it is fine.
+ */
+export const splitCompletable = (ids: Iterable<string>, allTasks: TodoItem[]): { completable: Set<string>; blocked: Set<string> } => {
+  const tasks = byId(allTasks);
+  const completable = new Set<string>();
+  let pending = [...ids].filter(id => tasks.has(id));
+  let progress = true;
+  while (progress) {
+    progress = false;
+    pending = pending.filter(id => {
+      const ready = prerequisitesOf(tasks.get(id) as TodoItem, tasks).every(p => p.completed || completable.has(p.id));
+      if (ready) {
+        completable.add(id);
+        progress = true;
+      }
+      return !ready;
+    });
+  }
+  return { completable, blocked: new Set(pending) };
+};
+
+/** Ids of every task that waits on `taskId`, directly or through other tasks */
+export const getDependentIds = (taskId: string, allTasks: TodoItem[]): Set<string> => {
+  const dependents = new Map<string, string[]>();
+  allTasks.forEach(task => task.dependsOn?.forEach(id => {
+    const list = dependents.get(id) ?? [];
+    list.push(task.id);
+    dependents.set(id, list);
+  }));
+  const found = new Set<string>();
+  const queue = [taskId];
+  while (queue.length > 0) {
+    (dependents.get(queue.pop() as string) ?? []).forEach(id => {
+      if (!found.has(id)) {
+        found.add(id);
+        queue.push(id);
+      }
+    });
+  }
+  return found;
+};
+
+// Strongly connected components with more than one task (or a task that waits on itself), iterative Tarjan
+const findCycles = (tasks: TodoItem[], lookup: Map<string, TodoItem>): string[][] => {
+  const index = new Map<string, number>();
+  const low = new Map<string, number>();
+  const onStack = new Set<string>();
+  const stack: string[] = [];
+  const cycles: string[][] = [];
+  let counter = 0;
+
+  tasks.forEach(root => {
+    if (index.has(root.id)) return;
+    const work: { id: string; next: number }[] = [{ id: root.id, next: 0 }];
+    index.set(root.id, counter);
+    low.set(root.id, counter++);
+    stack.push(root.id);
+    onStack.add(root.id);
+
+    while (work.length > 0) {
+      const frame = work[work.length - 1];
+      const edges = lookup.get(frame.id)?.dependsOn ?? [];
+      if (frame.next < edges.length) {
+        const to = edges[frame.next++];
+        if (!lookup.has(to)) continue;
+        if (!index.has(to)) {
+          index.set(to, counter);
+          low.set(to, counter++);
+          stack.push(to);
+          onStack.add(to);
+          work.push({ id: to, next: 0 });
+        } else if (onStack.has(to)) {
+          low.set(frame.id, Math.min(low.get(frame.id) as number, index.get(to) as number));
+        }
+        continue;
+      }
+      work.pop();
+      const parent = work[work.length - 1];
+      if (parent) low.set(parent.id, Math.min(low.get(parent.id) as number, low.get(frame.id) as number));
+      if (low.get(frame.id) !== index.get(frame.id)) continue;
+      const component: string[] = [];
+      let id: string;
+      do {
+        id = stack.pop() as string;
+        onStack.delete(id);
+        component.push(id);
+      } while (id !== frame.id);
+      if (component.length > 1 || edges.includes(frame.id)) cycles.push(component.reverse());
+    }
+  });
+  return cycles;
+};
+
+export const analyzeDependencies = (allTasks: TodoItem[]): DependencyReport => {
+  const lookup = byId(allTasks);
+  const states = new Map<string, DependencyState>();
+  const missing: DependencyReport['missing'] = [];
+  const dueConflicts: DependencyReport['dueConflicts'] = [];
+
+  allTasks.forEach(task => {
+    const prerequisites = prerequisitesOf(task, lookup);
+    const missingIds = (task.dependsOn ?? []).filter(id => !lookup.has(id));
+    if (missingIds.length > 0) missing.push({ taskId: task.id, missingIds });
+
+    if (task.completed) states.set(task.id, 'done');
+    else states.set(task.id, prerequisites.some(p => !p.completed) ? 'blocked' : 'ready');
+
+    if (!task.completed && task.dueDate) {
+      const due = endOfDay(new Date(task.dueDate)).getTime();
+      prerequisites
+        .filter(p => !p.completed && p.dueDate && endOfDay(new Date(p.dueDate)).getTime() > due)
+        .forEach(p => dueConflicts.push({ taskId: task.id, prerequisiteId: p.id }));
+    }
+  });
+
+  const withLinks = allTasks.filter(task => task.dependsOn?.length);
+  return { states, cycles: findCycles(withLinks, lookup), missing, dueConflicts };
+};
+
+// The same tasks without links to tasks that no longer exist
+export const removeMissingDependencies = (allTasks: TodoItem[]): TodoItem[] => {
+  const ids = new Set(allTasks.map(task => task.id));
+  return allTasks.map(task => {
+    if (!task.dependsOn?.some(id => !ids.has(id))) return task;
+    return { ...task, dependsOn: task.dependsOn.filter(id => ids.has(id)) };
+  });
+};
+
+/**
+ * Plan the open tasks in `tasks` as early as their prerequisites allow
+ * (critical path method). Prerequisites outside `tasks` or already done
+ * don't hold anything up. Tasks with no slack form the critical path.
+ */
+export const scheduleTasks = (
+  tasks: TodoItem[],
+  options: { start?: Date; durationDays?: (task: TodoItem) => number } = {}
+): TaskSchedule => {
+  const start = startOfDay(options.start ?? new Date());
+  const durationOf = (task: TodoItem) => Math.max(options.durationDays?.(task) ?? DEFAULT_DURATION_DAYS, 0);
+  const open = tasks.filter(task => !task.completed);
+  const lookup = byId(open);
+
+  // Kahn's algorithm; whatever is left over sits on a cycle
+  const prerequisites = new Map(open.map(task => [task.id, [...new Set(task.dependsOn ?? [])].filter(id => lookup.has(id) && id !== task.id)]));
+  const successors = new Map<string, string[]>(open.map(task => [task.id, []]));
+  prerequisites.forEach((ids, id) => ids.forEach(prerequisite => successors.get(prerequisite)?.push(id)));
+  const waiting = new Map([...prerequisites].map(([id, ids]) => [id, ids.length]));
+  const order: string[] = [];
+  const queue = open.filter(task => waiting.get(task.id) === 0).map(task => task.id);
+  while (queue.length > 0) {
+    const id = queue.shift() as string;
+    order.push(id);
+    successors.get(id)?.forEach(next => {
+      const left = (waiting.get(next) as number) - 1;
+      waiting.set(next, left);
+      if (left === 0) queue.push(next);
+    });
+  }
+  const scheduled = new Set(order);
+
+  const earliest = new Map<string, number>();
+  order.forEach(id => {
+    const startDay = Math.max(0, ...(prerequisites.get(id) ?? []).map(p => (earliest.get(p) as number) + durationOf(lookup.get(p) as TodoItem)));
+    earliest.set(id, startDay);
+  });
+  const days = order.reduce((latest, id) => Math.max(latest, (earliest.get(id) as number) + durationOf(lookup.get(id) as TodoItem)), 0);
+
+  const latestFinish = new Map<string, number>();
+  [...order].reverse().forEach(id => {
+    const next = (successors.get(id) ?? []).filter(s => scheduled.has(s));
+    latestFinish.set(id, Math.min(days, ...next.map(s => (latestFinish.get(s) as number) - durationOf(lookup.get(s) as TodoItem))));
+  });
+
+  const planned = order.map((id): ScheduledTask => {
+    const task = lookup.get(id) as TodoItem;
+    const startDay = earliest.get(id) as number;
+    const endDay = startDay + durationOf(task);
+    const slack = (latestFinish.get(id) as number) - endDay;
+    const end = addDays(start, endDay);
+    return {
+      task,
+      startDay,
+      endDay,
+      start: addDays(start, startDay),
+      end,
+      slack,
+      critical: slack === 0,
+      late: !!task.dueDate && end.getTime() > addDays(startOfDay(new Date(task.dueDate)), 1).getTime(),
+    };
+  });
+  const plannedById = new Map(planned.map(item => [item.task.id, item]));
+
+  const links = planned.flatMap(item => (prerequisites.get(item.task.id) ?? []).map(from => {
+    const prerequisite = plannedById.get(from) as ScheduledTask;
+    return { from, to: item.task.id, critical: prerequisite.critical && item.critical && prerequisite.endDay === item.startDay };
+  }));
+
+  return { start, days, tasks: planned, links, unscheduled: open.filter(task => !scheduled.has(task.id)) };
+};
@@ -0,0 +1,148 @@
+/**
+ * Task Embeds - live task blocks inside rich-text notes
+ *
+ * An embed is a non-editable block that refers to a task by id:
+ * `<div class="task-embed" data-task-id="...">`. The note keeps a snapshot
+ * of the task (checkbox, text, due date, priority) so previews and exports
+ * read sensibly, and the editor refreshes it from task storage whenever the
+ * note is shown or tasks change. Checking the box in the note completes the
+ * real task, the same way the task list does.
+ */
+
+import { format, isBefore, startOfDay } from 'date-fns';
+import { ListTodo } from 'lucide-react';
+import i18n from '@/i18n';
+import { escapeHtml } from '@/lib/sanitize';
+import { Priority, TodoItem } from '@/types/note';
+import { Block } from './noteDocument';
+import { insertBlocks } from './noteTransactions';
+import { notificationManager } from './notifications';
+import { createNextRecurringTask } from './recurringTasks';
+import { registerSlashCommand } from './slashCommands';
+import { ensureCanComplete } from './taskDependencies';
+import { playCompletionSound } from './taskSounds';
+import { loadTodoItems, saveTodoItems } from './todoItemsStorage';
+
+export const TASK_EMBED_CLASS = 'task-embed';
+const CHECK_CLASS = 'task-embed-check';
+
+const PRIORITY_COLORS: Record<Priority, string> = {
+  high: '#EF4444',
+  medium: '#F59E0B',
+  low: '#3B82F6',
+  none: '',
+};
+
+// Inside of an embed for a task, or for one that no longer exists (keeping its last known text)
+const embedContent = (task: TodoItem | undefined, lastText: string): string => {
+  const t = i18n.t.bind(i18n);
+  if (!task) {
+    return `<span class="${CHECK_CLASS}">☐</span> <span class="task-embed-text" style="text-decoration: line-through;">${escapeHtml(lastText)}</span>` +
+      `<span class="task-embed-meta">${escapeHtml(t('taskEmbeds.missing'))}</span>`;
+  }
+  const meta: string[] = [];
+  if (task.dueDate) {
+    const overdue = !task.completed && isBefore(task.dueDate, startOfDay(new Date()));
+    meta.push(`<span${overdue ? ' style="color: #EF4444;"' : ''}>📅 ${escapeHtml(format(task.dueDate, 'MMM d'))}</span>`);
+  }
+  if (task.priority && task.priority !== 'none') {
+    meta.push(`<span style="color: ${PRIORITY_COLORS[task.priority]};">⚑ ${escapeHtml(t(`taskEmbeds.priority.${task.priority}`))}</span>`);
+  }
+  const textStyle = task.completed ? ' style="text-decoration: line-through; opacity: 0.6;"' : '';
+  return `<span class="${CHECK_CLASS}" data-checked="${task.completed}">${task.completed ? '☑' : '☐'}</span> ` +
+    `<span class="task-embed-text"${textStyle}>${escapeHtml(task.text)}</span>` +
+    (meta.length > 0 ? `<span class="task-embed-meta">${meta.join(' ')}</span>` : '');
+};
+
+export const taskEmbedHtml = (task: TodoItem): string =>
+  `<div class="${TASK_EMBED_CLASS}" data-task-id="${escapeHtml(task.id)}" contenteditable="false">${embedContent(task, task.text)}</div>`;
+
+export const taskEmbedBlock = (task: TodoItem): Block => ({ type: 'embed', html: taskEmbedHtml(task), content: [] });
+
+/**
+ * Bring every embed under `root` up to date with `tasks`. Returns whether
+ * anything changed.
+ */
+export const refreshTaskEmbeds = (root: ParentNode, tasks: TodoItem[]): boolean => {
+  const byId = new Map(tasks.map(task => [task.id, task]));
+  let changed = false;
+  root.querySelectorAll<HTMLElement>(`.${TASK_EMBED_CLASS}`).forEach(element => {
+    const task = byId.get(element.dataset.taskId || '');
+    const lastText = element.querySelector('.task-embed-text')?.textContent || '';
+    const html = embedContent(task, lastText);
+    // Compare through the DOM so attribute quoting and escaping match
+    const expected = element.ownerDocument.createElement('div');
+    expected.innerHTML = html;
+    if (element.innerHTML !== expected.innerHTML) {
+      element.innerHTML = expected.innerHTML;
+      changed = true;
+    }
+  });
+  return changed;
+};
+
+// The embed a click landed on the checkbox of, if any
+export const taskEmbedCheckTarget = (target: EventTarget | null): { taskId: string; completed: boolean } | null => {
+  if (!(target instanceof Element)) return null;
+  const check = target.closest(`.${CHECK_CLASS}`);
+  const embed = check?.closest<HTMLElement>(`.${TASK_EMBED_CLASS}`);
+  if (!check || !embed?.dataset.taskId) return null;
+  return { taskId: embed.dataset.taskId, completed: check.getAttribute('data-checked') === 'true' };
+};
+
+const saveTasks = async (items: TodoItem[]) => {
+  await saveTodoItems(items);
+  window.dispatchEvent(new Event('tasksUpdated'));
+};
+
+/**
+ * Complete or reopen a task from a note, with the same side effects as
+ * checking it in the task list: timestamps, cancelled reminders and the
+ * next occurrence of a repeating task.
+ */
+export const setEmbeddedTaskCompleted = async (taskId: string, completed: boolean): Promise<TodoItem | null> => {
+  const items = await loadTodoItems();
+  const task = items.find(item => item.id === taskId);
+  if (!task || task.completed === completed) return task ?? null;
+  if (completed && !ensureCanComplete(task, items)) return task;
+
+  const now = new Date();
+  const updated: TodoItem = { ...task, completed, modifiedAt: now, completedAt: completed ? now : undefined };
+  let next = items.map(item => (item.id === taskId ? updated : item));
+  if (completed) {
+    playCompletionSound();
+    await notificationManager.cancelAutoReminders(taskId).catch(() => undefined);
+    const nextTask = createNextRecurringTask(task);
+    if (nextTask) next = [{ ...nextTask, createdAt: now, modifiedAt: now }, ...next];
+  }
+  await saveTasks(next);
+  return updated;
+};
+
+// Add a task written in a note (an action item) to the task list
+export const createEmbeddedTask = async (text: string): Promise<TodoItem> => {
+  const now = new Date();
+  const task: TodoItem = {
+    id: Date.now().toString(),
+    text,
+    completed: false,
+    status: 'not_started',
+    createdAt: now,
+    modifiedAt: now,
+  };
+  await saveTasks([task, ...(await loadTodoItems())]);
+  return task;
+};
+
+registerSlashCommand({
+  id: 'task',
+  title: 'slashCommands.task',
+  keywords: ['todo', 'action item', 'embed'],
+  icon: ListTodo,
+  toolbarItem: 'bulletList',
+  isAvailable: context => !!context.pickTask,
+  run: async ({ apply, pickTask }) => {
+    const task = await pickTask?.();
+    if (task) apply(insertBlocks([taskEmbedBlock(task)]));
+  },
+});
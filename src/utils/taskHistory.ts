@@ -0,0 +1,282 @@
+/**
+ * Task History - a change journal for tasks and an undo/redo stack
+ *
+ * Every save through taskStorage is compared with the tasks stored before
+ * it, and each task that changed gets a journal entry holding the old and
+ * new values of the fields that changed. Entries are named with the task
+ * events of the activity log (task_complete, task_date_change, ...). All
+ * changes from one save form one undo step, so a bulk edit or a cleanup of
+ * completed tasks is undone in one go.
+ *
+ * The journal is kept in its own IndexedDB database; the undo and redo
+ * stacks only last for the session.
+ */
+
+import { TodoItem } from '@/types/note';
+import { ActivityType } from './activityLogger';
+
+// Who made a change: the user (undoable), a sync pull, or an undo/redo itself
+export type TaskChangeSource = 'user' | 'sync' | 'undo' | 'redo';
+
+export interface TaskChange {
+  id: string;
+  taskId: string;
+  taskTitle: string;
+  type: ActivityType;
+  source: TaskChangeSource;
+  timestamp: Date;
+  fields: (keyof TodoItem)[];
+  // Values of `fields` before and after; a created task has no before and a deleted one no after
+  before: Partial<TodoItem> | null;
+  after: Partial<TodoItem> | null;
+  // Where a deleted task was in the list, so undo puts it back there
+  position?: number;
+}
+
+export interface TaskUndoState {
+  undo: { type: ActivityType; count: number } | null;
+  redo: { type: ActivityType; count: number } | null;
+}
+
+// Fired when the undo/redo stacks change, and after an undo or redo rewrote the tasks
+export const TASK_HISTORY_EVENT = 'taskHistoryChanged';
+export const TASKS_REVERTED_EVENT = 'tasksReverted';
+
+const DB_NAME = 'nota-task-history-db';
+const DB_VERSION = 1;
+const STORE_NAME = 'changes';
+const TASK_INDEX = 'taskId';
+const TIME_INDEX = 'timestamp';
+const MAX_JOURNAL_ENTRIES = 5000;
+const MAX_UNDO_STEPS = 50;
+
+// Bookkeeping that changes on every save and means nothing to the user
+const IGNORED_FIELDS = new Set<string>(['modifiedAt', 'revision', 'notificationIds']);
+
+const FIELD_TYPES: Partial<Record<keyof TodoItem, ActivityType>> = {
+  priority: 'task_priority_change',
+  dueDate: 'task_date_change',
+  reminderTime: 'task_reminder_set',
+  multiReminder: 'task_reminder_set',
+  locationReminder: 'task_reminder_set',
+  sectionId: 'task_section_move',
+  folderId: 'task_move',
+  status: 'task_status_change',
+};
+
+// ============ Storage ============
+
+let db: IDBDatabase | null = null;
+
+const openDB = (): Promise<IDBDatabase> => {
+  if (db) return Promise.resolve(db);
+  return new Promise((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+    request.onerror = () => reject(request.error);
+    request.onsuccess = () => {
+      db = request.result;
+      resolve(db);
+    };
+    request.onupgradeneeded = (event) => {
+      const database = (event.target as IDBOpenDBRequest).result;
+      if (!database.objectStoreNames.contains(STORE_NAME)) {
+        const store = database.createObjectStore(STORE_NAME, { keyPath: 'id' });
+        store.createIndex(TASK_INDEX, 'taskId', { unique: false });
+        store.createIndex(TIME_INDEX, 'timestamp', { unique: false });
+      }
+    };
+  });
+};
+
+const requestToPromise = <T>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+// Add entries, then drop the oldest ones past MAX_JOURNAL_ENTRIES
+const writeJournal = async (changes: TaskChange[]): Promise<void> => {
+  const transaction = (await openDB()).transaction(STORE_NAME, 'readwrite');
+  const store = transaction.objectStore(STORE_NAME);
+  changes.forEach(change => store.put(change));
+  const excess = (await requestToPromise(store.count())) - MAX_JOURNAL_ENTRIES;
+  if (excess > 0) {
+    const oldest = await requestToPromise(store.index(TIME_INDEX).getAllKeys(null, excess));
+    oldest.forEach(id => store.delete(id));
+  }
+  await new Promise<void>((resolve, reject) => {
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+  });
+};
+
+let writeChain: Promise<void> = Promise.resolve();
+
+const enqueueJournal = (changes: TaskChange[]) => {
+  writeChain = writeChain
+    .then(() => writeJournal(changes))
+    .catch(error => console.warn('Task history update failed:', error));
+};
+
+// Changes to one task, newest first
+export const getTaskChanges = async (taskId: string): Promise<TaskChange[]> => {
+  await writeChain;
+  const store = (await openDB()).transaction(STORE_NAME, 'readonly').objectStore(STORE_NAME);
+  const changes = await requestToPromise<TaskChange[]>(store.index(TASK_INDEX).getAll(taskId));
+  return changes.sort((a, b) => b.timestamp.getTime() - a.timestamp.getTime());
+};
+
+// Every journal entry, for backups
+export const exportTaskChanges = async (): Promise<TaskChange[]> => {
+  await writeChain;
+  const store = (await openDB()).transaction(STORE_NAME, 'readonly').objectStore(STORE_NAME);
+  return requestToPromise<TaskChange[]>(store.getAll());
+};
+
+// Add journal entries from a backup; `replace` drops the journal on the device first
+export const importTaskChanges = (changes: TaskChange[], replace: boolean): Promise<void> => {
+  const job = writeChain.then(async () => {
+    if (replace) {
+      const store = (await openDB()).transaction(STORE_NAME, 'readwrite').objectStore(STORE_NAME);
+      await requestToPromise(store.clear());
+    }
+    await writeJournal(changes);
+  });
+  writeChain = job.catch(error => console.warn('Task history update failed:', error));
+  return job;
+};
+
+// ============ Diffing ============
+
+const sameValue = (a: unknown, b: unknown): boolean => a === b || JSON.stringify(a) === JSON.stringify(b);
+
+const changedFields = (before: TodoItem, after: TodoItem): (keyof TodoItem)[] => {
+  const keys = new Set([...Object.keys(before), ...Object.keys(after)]) as Set<keyof TodoItem>;
+  return [...keys].filter(key => !IGNORED_FIELDS.has(key) && !sameValue(before[key], after[key]));
+};
+
+const pickFields = (task: TodoItem, fields: (keyof TodoItem)[]): Partial<TodoItem> =>
+  Object.fromEntries(fields.map(field => [field, task[field]]));
+
+const tagCount = (task: Partial<TodoItem> | null): number =>
+  (task?.coloredTags?.length ?? 0) + (task?.tags?.length ?? 0);
+
+// The activity type that best names an edit: a specific one if all changed fields agree
+const editType = (fields: (keyof TodoItem)[], before: Partial<TodoItem>, after: Partial<TodoItem>): ActivityType => {
+  if (fields.includes('completed')) return after.completed ? 'task_complete' : 'task_uncomplete';
+  const types = new Set(fields.filter(field => field !== 'completedAt').map((field): ActivityType => {
+    if (field === 'tags' || field === 'coloredTags') {
+      const difference = tagCount(after) - tagCount(before);
+      if (difference !== 0) return difference > 0 ? 'task_tag_add' : 'task_tag_remove';
+    }
+    return FIELD_TYPES[field] ?? 'task_update';
+  }));
+  return types.size === 1 ? [...types][0] : 'task_update';
+};
+
+const changeId = () => `task-change-${Date.now()}-${Math.random().toString(36).substring(2, 9)}`;
+
+/**
+ * Journal the difference between the stored tasks and the ones about to be
+ * saved. Tasks that are the same object as before are skipped without a
+ * field comparison, so saving a large list with one edit stays cheap.
+ */
+export const recordTaskChanges = (previous: TodoItem[], next: TodoItem[], source: TaskChangeSource = 'user'): void => {
+  const timestamp = new Date();
+  const old = new Map(previous.map(task => [task.id, task]));
+  const seen = new Set<string>();
+  const changes: TaskChange[] = [];
+  const base = (task: TodoItem) => ({ id: changeId(), taskId: task.id, taskTitle: task.text, source, timestamp });
+
+  next.forEach(task => {
+    seen.add(task.id);
+    const before = old.get(task.id);
+    if (before === task) return;
+    if (!before) {
+      changes.push({ ...base(task), type: 'task_create', fields: [], before: null, after: task });
+      return;
+    }
+    const fields = changedFields(before, task);
+    if (fields.length === 0) return;
+    const beforeValues = pickFields(before, fields);
+    const afterValues = pickFields(task, fields);
+    changes.push({ ...base(task), type: editType(fields, beforeValues, afterValues), fields, before: beforeValues, after: afterValues });
+  });
+  previous.forEach((task, position) => {
+    if (!seen.has(task.id)) {
+      changes.push({ ...base(task), type: 'task_delete', fields: [], before: task, after: null, position });
+    }
+  });
+
+  if (changes.length === 0) return;
+  enqueueJournal(changes);
+  pushStep(changes, source);
+};
+
+// ============ Undo / redo ============
+
+const undoStack: TaskChange[][] = [];
+const redoStack: TaskChange[][] = [];
+
+const notifyStacks = () => window.dispatchEvent(new Event(TASK_HISTORY_EVENT));
+
+const pushStep = (changes: TaskChange[], source: TaskChangeSource) => {
+  if (source === 'sync') return;
+  const stack = source === 'undo' ? redoStack : undoStack;
+  stack.push(changes);
+  if (stack.length > MAX_UNDO_STEPS) stack.shift();
+  if (source === 'user') redoStack.length = 0;
+  notifyStacks();
+};
+
+// What a step did, for labels: the shared type of its changes and how many tasks it touched
+export const describeTaskChanges = (changes: TaskChange[]): { type: ActivityType; count: number } => {
+  const types = new Set(changes.map(change => change.type));
+  return { type: types.size === 1 ? changes[0].type : 'task_update', count: changes.length };
+};
+
+export const getTaskUndoState = (): TaskUndoState => ({
+  undo: undoStack.length > 0 ? describeTaskChanges(undoStack[undoStack.length - 1]) : null,
+  redo: redoStack.length > 0 ? describeTaskChanges(redoStack[redoStack.length - 1]) : null,
+});
+
+// Put back what `changes` changed; fields edited again since then are overwritten
+const revertChanges = (tasks: TodoItem[], changes: TaskChange[]): TodoItem[] => {
+  const result = [...tasks];
+  [...changes].reverse().forEach(change => {
+    const index = result.findIndex(task => task.id === change.taskId);
+    if (!change.before) {
+      if (index >= 0) result.splice(index, 1);
+      return;
+    }
+    if (!change.after) {
+      if (index < 0) result.splice(Math.min(change.position ?? 0, result.length), 0, change.before as TodoItem);
+      return;
+    }
+    if (index < 0) return;
+    const reverted: Record<string, unknown> = { ...result[index] };
+    change.fields.forEach(field => {
+      const value = change.before?.[field];
+      if (value === undefined) delete reverted[field];
+      else reverted[field] = value;
+    });
+    result[index] = reverted as unknown as TodoItem;
+  });
+  return result;
+};
+
+const replayStep = async (stack: TaskChange[][], source: 'undo' | 'redo'): Promise<TaskChange[] | null> => {
+  const step = stack.pop();
+  if (!step) return null;
+  const { loadTasksFromDB, saveTasksToDB } = await import('./taskStorage');
+  await saveTasksToDB(revertChanges(await loadTasksFromDB(), step), source);
+  notifyStacks();
+  window.dispatchEvent(new Event(TASKS_REVERTED_EVENT));
+  window.dispatchEvent(new Event('tasksUpdated'));
+  return step;
+};
+
+// Undo the last task change; resolves to the changes that were undone, or null if there were none
+export const undoTaskChange = (): Promise<TaskChange[] | null> => replayStep(undoStack, 'undo');
+
+export const redoTaskChange = (): Promise<TaskChange[] | null> => replayStep(redoStack, 'redo');
@@ -237,6 +237,24 @@ export const deleteTaskMedia = async (kind: TaskMediaKind, id: string): Promise<
   cache.delete(makeTaskMediaRef(kind, id));
 };
 
+// Every media record saved directly in the store (large media lives in unlimitedStorage)
+export const getAllTaskMedia = async (kind: TaskMediaKind): Promise<{ id: string; dataUrl: string }[]> => {
+  try {
+    const db = await openDB();
+    return new Promise((resolve, reject) => {
+      const transaction = db.transaction(STORES[kind], 'readonly');
+      const request = transaction.objectStore(STORES[kind]).getAll();
+      request.onerror = () => reject(request.error);
+      request.onsuccess = () => {
+        resolve((request.result as MediaRecord[]).map(({ id, dataUrl }) => ({ id, dataUrl })));
+      };
+    });
+  } catch (e) {
+    console.error('Failed to list task media:', e);
+    return [];
+  }
+};
+
 export const resolveTaskMediaUrl = async (refOrUrl: string): Promise<string> => {
   const parsed = parseTaskMediaRef(refOrUrl);
   if (!parsed) return refOrUrl;
@@ -0,0 +1,418 @@
+/**
+ * Task Query - a small filter language over TodoItem
+ *
+ *   priority:high due:<7d tag:work -status:completed folder:"Client A" has:location
+ *
+ * Words are ANDed together; `OR` (upper case) and parentheses combine
+ * alternatives, and `-term` or `NOT term` negates. A bare word or "quoted
+ * phrase" matches the task text and description. Fields:
+ *
+ *   text:      words in the text or description
+ *   priority:  high | medium | low | none, with < > <= >= comparisons
+ *   status:    not_started | in_progress | almost_done | completed
+ *   tag:       tag name
+ *   folder:    folder name or id, `none` for tasks outside folders
+ *   section:   section name or id
+ *   due: created: completed:
+ *              today | tomorrow | yesterday | week | overdue | none | any,
+ *              a day offset like 7d, -2w, 1m, 1y, or a date like 2024-05-31,
+ *              with < > <= >= comparisons (due:<7d = due before a week from today)
+ *   has:       location | reminder | due | subtasks | description | tags |
+ *              image | voice | recurrence | dependencies | time
+ *   is:        completed | open | overdue | recurring | blocked
+ */
+
+import {
+  addDays,
+  addMonths,
+  addWeeks,
+  addYears,
+  endOfWeek,
+  isValid,
+  parseISO,
+  startOfDay,
+  startOfWeek,
+} from 'date-fns';
+import { Priority, TaskStatus, TodoItem } from '@/types/note';
+
+export class TaskQueryError extends Error {
+  position: number;
+
+  constructor(message: string, position: number) {
+    super(message);
+    this.name = 'TaskQueryError';
+    this.position = position;
+  }
+}
+
+export type TaskQueryOperator = ':' | '<' | '>' | '<=' | '>=';
+
+export type TaskQueryNode =
+  | { type: 'and' | 'or'; children: TaskQueryNode[] }
+  | { type: 'not'; child: TaskQueryNode }
+  | { type: 'term'; field: string; op: TaskQueryOperator; value: string; position: number };
+
+export interface TaskQueryContext {
+  folders?: { id: string; name: string }[];
+  sections?: { id: string; name: string }[];
+  // All tasks, for relations such as is:blocked
+  items?: TodoItem[];
+  // Ids of the tasks with time tracked on them, for has:time
+  trackedTaskIds?: Set<string>;
+  now?: Date;
+}
+
+export type TaskPredicate = (item: TodoItem) => boolean;
+
+const FIELDS = ['text', 'priority', 'status', 'tag', 'folder', 'section', 'due', 'created', 'completed', 'has', 'is'];
+const PRIORITY_RANK: Record<Priority, number> = { none: 0, low: 1, medium: 2, high: 3 };
+const STATUSES: TaskStatus[] = ['not_started', 'in_progress', 'almost_done', 'completed'];
+
+// Simple repeat settings or an RRULE recurrence
+const isRecurring: TaskPredicate = (item) =>
+  (!!item.repeatType && item.repeatType !== 'none') || !!item.advancedRepeat || !!item.recurrence;
+
+// ============ Lexer ============
+
+type Token =
+  | { kind: '(' | ')' | 'OR' | 'NOT'; position: number }
+  | { kind: 'term'; field: string; op: TaskQueryOperator; value: string; position: number };
+
+const readQuoted = (query: string, start: number): { value: string; end: number } => {
+  const close = query.indexOf('"', start + 1);
+  if (close < 0) throw new TaskQueryError('Missing closing quote', start);
+  return { value: query.slice(start + 1, close), end: close + 1 };
+};
+
+const tokenize = (query: string): Token[] => {
+  const tokens: Token[] = [];
+  let i = 0;
+
+  while (i < query.length) {
+    const char = query[i];
+    if (/\s/.test(char)) {
+      i++;
+      continue;
+    }
+    if (char === '(' || char === ')') {
+      tokens.push({ kind: char, position: i });
+      i++;
+      continue;
+    }
+    if (char === '-' && i + 1 < query.length && !/[\s)]/.test(query[i + 1])) {
+      tokens.push({ kind: 'NOT', position: i });
+      i++;
+      continue;
+    }
+
+    const position = i;
+    if (char === '"') {
+      const { value, end } = readQuoted(query, i);
+      tokens.push({ kind: 'term', field: 'text', op: ':', value, position });
+      i = end;
+      continue;
+    }
+
+    const word = /^[^\s()":]+/.exec(query.slice(i))?.[0] || '';
+    i += word.length;
+
+    if (query[i] !== ':') {
+      if (word === 'OR' || word === 'NOT') tokens.push({ kind: word, position });
+      else if (word !== 'AND') tokens.push({ kind: 'term', field: 'text', op: ':', value: word, position });
+      continue;
+    }
+
+    const field = word.toLowerCase();
+    if (!FIELDS.includes(field)) throw new TaskQueryError(`Unknown field "${word}"`, position);
+    i++;
+
+    const op = (/^(<=|>=|<|>|=)/.exec(query.slice(i))?.[0] || ':') as TaskQueryOperator | '=';
+    if (op !== ':') i += op.length;
+
+    let value: string;
+    if (query[i] === '"') {
+      const quoted = readQuoted(query, i);
+      value = quoted.value;
+      i = quoted.end;
+    } else {
+      value = /^[^\s()]*/.exec(query.slice(i))?.[0] || '';
+      i += value.length;
+    }
+    if (!value) throw new TaskQueryError(`Missing value for "${field}"`, position);
+
+    tokens.push({ kind: 'term', field, op: op === '=' ? ':' : op, value, position });
+  }
+
+  return tokens;
+};
+
+// ============ Parser ============
+
+export const parseTaskQuery = (query: string): TaskQueryNode => {
+  const tokens = tokenize(query);
+  let index = 0;
+
+  const parseOr = (): TaskQueryNode => {
+    const children = [parseAnd()];
+    while (tokens[index]?.kind === 'OR') {
+      index++;
+      children.push(parseAnd());
+    }
+    return children.length === 1 ? children[0] : { type: 'or', children };
+  };
+
+  const parseAnd = (): TaskQueryNode => {
+    const children: TaskQueryNode[] = [];
+    while (index < tokens.length && tokens[index].kind !== 'OR' && tokens[index].kind !== ')') {
+      children.push(parseUnary());
+    }
+    if (children.length === 0) {
+      const position = tokens[index]?.position ?? query.length;
+      throw new TaskQueryError('Expected a filter', position);
+    }
+    return children.length === 1 ? children[0] : { type: 'and', children };
+  };
+
+  const parseUnary = (): TaskQueryNode => {
+    const token = tokens[index++];
+    if (token.kind === 'NOT') {
+      if (index >= tokens.length) throw new TaskQueryError('Expected a filter after NOT', token.position);
+      return { type: 'not', child: parseUnary() };
+    }
+    if (token.kind === '(') {
+      const inner = parseOr();
+      if (tokens[index]?.kind !== ')') throw new TaskQueryError('Missing closing parenthesis', token.position);
+      index++;
+      return inner;
+    }
+    if (token.kind === 'term') {
+      return { type: 'term', field: token.field, op: token.op, value: token.value, position: token.position };
+    }
+    throw new TaskQueryError(`Unexpected "${token.kind}"`, token.position);
+  };
+
+  if (tokens.length === 0) return { type: 'and', children: [] };
+  const root = parseOr();
+  if (index < tokens.length) {
+    throw new TaskQueryError(`Unexpected "${tokens[index].kind}"`, tokens[index].position);
+  }
+  return root;
+};
+
+// ============ Evaluator ============
+
+const compare = (a: number, op: TaskQueryOperator, b: number): boolean => {
+  switch (op) {
+    case '<': return a < b;
+    case '>': return a > b;
+    case '<=': return a <= b;
+    case '>=': return a >= b;
+    default: return a === b;
+  }
+};
+
+// A day (or week) the value refers to, as [start, end)
+const resolveDateRange = (value: string, now: Date, position: number): [Date, Date] => {
+  const today = startOfDay(now);
+  const lower = value.toLowerCase();
+  if (lower === 'today') return [today, addDays(today, 1)];
+  if (lower === 'tomorrow') return [addDays(today, 1), addDays(today, 2)];
+  if (lower === 'yesterday') return [addDays(today, -1), today];
+  if (lower === 'week') return [startOfWeek(today), addDays(startOfDay(endOfWeek(today)), 1)];
+
+  const relative = /^([+-]?\d+)([dwmy])$/.exec(lower);
+  if (relative) {
+    const amount = Number(relative[1]);
+    const shift = { d: addDays, w: addWeeks, m: addMonths, y: addYears }[relative[2] as 'd' | 'w' | 'm' | 'y'];
+    const day = shift(today, amount);
+    return [day, addDays(day, 1)];
+  }
+
+  const absolute = parseISO(value);
+  if (/^\d{4}-\d{2}-\d{2}$/.test(value) && isValid(absolute)) {
+    const day = startOfDay(absolute);
+    return [day, addDays(day, 1)];
+  }
+
+  throw new TaskQueryError(`Invalid date "${value}"`, position);
+};
+
+const compileDate = (
+  getDate: (item: TodoItem) => Date | undefined,
+  op: TaskQueryOperator,
+  value: string,
+  context: TaskQueryContext,
+  position: number
+): TaskPredicate => {
+  const lower = value.toLowerCase();
+  if (lower === 'none') return (item) => !getDate(item);
+  if (lower === 'any') return (item) => !!getDate(item);
+
+  const now = context.now || new Date();
+  if (lower === 'overdue') {
+    const today = startOfDay(now).getTime();
+    return (item) => {
+      const date = getDate(item);
+      return !!date && !item.completed && new Date(date).getTime() < today;
+    };
+  }
+
+  const [start, end] = resolveDateRange(value, now, position);
+  return (item) => {
+    const date = getDate(item);
+    if (!date) return false;
+    const time = new Date(date).getTime();
+    switch (op) {
+      case '<': return time < start.getTime();
+      case '<=': return time < end.getTime();
+      case '>': return time >= end.getTime();
+      case '>=': return time >= start.getTime();
+      default: return time >= start.getTime() && time < end.getTime();
+    }
+  };
+};
+
+const findByName = (
+  entries: { id: string; name: string }[] | undefined,
+  value: string
+): Set<string> => {
+  const lower = value.toLowerCase();
+  const ids = new Set<string>([value]);
+  entries?.forEach(entry => {
+    if (entry.name.toLowerCase() === lower) ids.add(entry.id);
+  });
+  return ids;
+};
+
+const isOverdue = (item: TodoItem, now: Date) =>
+  !item.completed && !!item.dueDate && new Date(item.dueDate).getTime() < startOfDay(now).getTime();
+
+const compileTerm = (
+  node: Extract<TaskQueryNode, { type: 'term' }>,
+  context: TaskQueryContext
+): TaskPredicate => {
+  const { field, op, value, position } = node;
+  const lower = value.toLowerCase();
+  const requireEquality = () => {
+    if (op !== ':') throw new TaskQueryError(`"${field}" does not support ${op}`, position);
+  };
+
+  switch (field) {
+    case 'text':
+      requireEquality();
+      return (item) =>
+        item.text.toLowerCase().includes(lower) || !!item.description?.toLowerCase().includes(lower);
+
+    case 'priority': {
+      if (!(lower in PRIORITY_RANK)) throw new TaskQueryError(`Unknown priority "${value}"`, position);
+      const rank = PRIORITY_RANK[lower as Priority];
+      return (item) => compare(PRIORITY_RANK[item.priority || 'none'], op, rank);
+    }
+
+    case 'status': {
+      requireEquality();
+      const status = lower.replace(/[-\s]/g, '_') as TaskStatus;
+      if (!STATUSES.includes(status)) throw new TaskQueryError(`Unknown status "${value}"`, position);
+      return (item) => (item.completed ? 'completed' : item.status || 'not_started') === status;
+    }
+
+    case 'tag':
+      requireEquality();
+      return (item) =>
+        !!item.tags?.some(tag => tag.toLowerCase() === lower) ||
+        !!item.coloredTags?.some(tag => tag.name.toLowerCase() === lower);
+
+    case 'folder': {
+      requireEquality();
+      if (lower === 'none') return (item) => !item.folderId;
+      const ids = findByName(context.folders, value);
+      return (item) => !!item.folderId && ids.has(item.folderId);
+    }
+
+    case 'section': {
+      requireEquality();
+      if (lower === 'none') return (item) => !item.sectionId;
+      const ids = findByName(context.sections, value);
+      return (item) => !!item.sectionId && ids.has(item.sectionId);
+    }
+
+    case 'due':
+      return compileDate(item => item.dueDate, op, value, context, position);
+    case 'created':
+      return compileDate(item => item.createdAt, op, value, context, position);
+    case 'completed':
+      return compileDate(item => item.completedAt, op, value, context, position);
+
+    case 'has': {
+      requireEquality();
+      const checks: Record<string, TaskPredicate> = {
+        location: (item) => !!item.locationReminder?.enabled || !!item.location,
+        reminder: (item) => !!item.reminderTime || !!item.multiReminder?.enabled,
+        due: (item) => !!item.dueDate,
+        subtasks: (item) => (item.subtasks?.length || 0) > 0,
+        description: (item) => !!item.description?.trim(),
+        tags: (item) => (item.tags?.length || 0) + (item.coloredTags?.length || 0) > 0,
+        image: (item) => !!item.imageUrl,
+        voice: (item) => !!item.voiceRecording,
+        recurrence: isRecurring,
+        dependencies: (item) => (item.dependsOn?.length || 0) > 0,
+        time: (item) => !!context.trackedTaskIds?.has(item.id) || !!item.timeTracking?.isRunning,
+      };
+      if (!checks[lower]) throw new TaskQueryError(`Unknown has: value "${value}"`, position);
+      return checks[lower];
+    }
+
+    case 'is': {
+      requireEquality();
+      const now = context.now || new Date();
+      const openIds = new Set((context.items || []).filter(i => !i.completed).map(i => i.id));
+      const checks: Record<string, TaskPredicate> = {
+        completed: (item) => item.completed,
+        open: (item) => !item.completed,
+        overdue: (item) => isOverdue(item, now),
+        recurring: isRecurring,
+        blocked: (item) => !item.completed && !!item.dependsOn?.some(id => openIds.has(id)),
+      };
+      if (!checks[lower]) throw new TaskQueryError(`Unknown is: value "${value}"`, position);
+      return checks[lower];
+    }
+
+    default:
+      throw new TaskQueryError(`Unknown field "${field}"`, position);
+  }
+};
+
+const compileNode = (node: TaskQueryNode, context: TaskQueryContext): TaskPredicate => {
+  switch (node.type) {
+    case 'and': {
+      const children = node.children.map(child => compileNode(child, context));
+      return (item) => children.every(predicate => predicate(item));
+    }
+    case 'or': {
+      const children = node.children.map(child => compileNode(child, context));
+      return (item) => children.some(predicate => predicate(item));
+    }
+    case 'not': {
+      const child = compileNode(node.child, context);
+      return (item) => !child(item);
+    }
+    case 'term':
+      return compileTerm(node, context);
+  }
+};
+
+// Parse and compile a query; throws TaskQueryError on invalid input
+export const compileTaskQuery = (query: string, context: TaskQueryContext = {}): TaskPredicate => {
+  return compileNode(parseTaskQuery(query), context);
+};
+
+// Error message for an invalid query, or null when it is valid
+export const validateTaskQuery = (query: string): string | null => {
+  try {
+    compileTaskQuery(query);
+    return null;
+  } catch (error) {
+    if (error instanceof TaskQueryError) return error.message;
+    throw error;
+  }
+};
@@ -4,7 +4,7 @@
  */
 
 import { TodoItem } from '@/types/note';
-import { getNextOccurrence } from './recurringTasks';
+import { anchorTaskRecurrence, getNextOccurrence, getNextTaskOccurrence, moveTimeBlock } from './recurringTasks';
 import { isBefore, startOfDay } from 'date-fns';
 
 /**
@@ -13,7 +13,7 @@ import { isBefore, startOfDay } from 'date-fns';
 export const shouldRolloverTask = (task: TodoItem): boolean => {
   if (task.completed) return false;
   if (!task.dueDate) return false;
-  if (!task.repeatType || task.repeatType === 'none') return false;
+  if ((!task.repeatType || task.repeatType === 'none') && !task.recurrence) return false;
 
   const now = new Date();
   const dueDate = new Date(task.dueDate);
@@ -29,6 +29,15 @@ export const rolloverTask = (task: TodoItem): TodoItem | null => {
   if (!shouldRolloverTask(task)) return null;
 
   const currentDueDate = new Date(task.dueDate!);
+  const now = new Date();
+
+  if (task.recurrence) {
+    // Rules can be evaluated from any point, so jump straight to the first future occurrence.
+    // The series stays anchored at the missed due date, keeping its time of day and COUNT.
+    const anchored = { ...task, recurrence: anchorTaskRecurrence(task) };
+    const next = getNextTaskOccurrence(anchored, now);
+    return next ? withDueDate(anchored, next) : null;
+  }
   
   // Get next occurrence with preserved time
   const nextDate = getNextOccurrence(
@@ -42,7 +51,6 @@ export const rolloverTask = (task: TodoItem): TodoItem | null => {
   if (!nextDate) return null;
 
   // Make sure next date is in the future
-  const now = new Date();
   let adjustedNextDate = nextDate;
   
   // Keep advancing until we get a future date
@@ -58,17 +66,22 @@ export const rolloverTask = (task: TodoItem): TodoItem | null => {
     adjustedNextDate = furtherNext;
   }
 
-  // Calculate new reminder time if exists
+  return withDueDate(task, adjustedNextDate);
+};
+
+// Move a task to a new due date, keeping its reminder and time block the same distance from it
+const withDueDate = (task: TodoItem, dueDate: Date): TodoItem => {
   let newReminderTime: Date | undefined;
   if (task.reminderTime && task.dueDate) {
     const reminderOffset = new Date(task.reminderTime).getTime() - new Date(task.dueDate).getTime();
-    newReminderTime = new Date(adjustedNextDate.getTime() + reminderOffset);
+    newReminderTime = new Date(dueDate.getTime() + reminderOffset);
   }
 
   return {
     ...task,
-    dueDate: adjustedNextDate,
+    dueDate,
     reminderTime: newReminderTime,
+    ...moveTimeBlock(task, dueDate),
   };
 };
 
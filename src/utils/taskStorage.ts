@@ -5,6 +5,8 @@
 import { TodoItem } from '@/types/note';
 import { requestUnlimitedStorage, LRUCache } from './unlimitedStorage';
 import { debounce, BatchProcessor } from './performanceOptimizer';
+import { queueTaskIndex, queueTaskRemoval, queueTasksSnapshot } from './searchIndex';
+import { recordTaskChanges, TaskChangeSource } from './taskHistory';
 
 const DB_NAME = 'nota-tasks-db';
 const DB_VERSION = 3;
@@ -25,17 +27,29 @@ let dbConnectionPromise: Promise<IDBDatabase> | null = null;
 // Initialize persistent storage silently
 requestUnlimitedStorage().catch(() => {});
 
-const hydrateItem = (raw: any): TodoItem => ({
+export const hydrateItem = (raw: any): TodoItem => ({
   ...raw,
   dueDate: raw?.dueDate ? new Date(raw.dueDate) : undefined,
   reminderTime: raw?.reminderTime ? new Date(raw.reminderTime) : undefined,
+  scheduledStart: raw?.scheduledStart ? new Date(raw.scheduledStart) : undefined,
+  scheduledEnd: raw?.scheduledEnd ? new Date(raw.scheduledEnd) : undefined,
   voiceRecording: raw?.voiceRecording
     ? {
         ...raw.voiceRecording,
         timestamp: raw.voiceRecording.timestamp ? new Date(raw.voiceRecording.timestamp) : new Date(),
       }
     : undefined,
+  recurrence: raw?.recurrence
+    ? {
+        ...raw.recurrence,
+        dtstart: raw.recurrence.dtstart ? new Date(raw.recurrence.dtstart) : undefined,
+        exdates: Array.isArray(raw.recurrence.exdates) ? raw.recurrence.exdates.map((d: string | Date) => new Date(d)) : undefined,
+      }
+    : undefined,
   subtasks: Array.isArray(raw?.subtasks) ? raw.subtasks.map(hydrateItem) : undefined,
+  createdAt: raw?.createdAt ? new Date(raw.createdAt) : undefined,
+  modifiedAt: raw?.modifiedAt ? new Date(raw.modifiedAt) : undefined,
+  completedAt: raw?.completedAt ? new Date(raw.completedAt) : undefined,
 });
 
 const openDB = (): Promise<IDBDatabase> => {
@@ -128,7 +142,15 @@ export const loadTasksFromDB = async (): Promise<TodoItem[]> => {
 };
 
 // Save tasks to IndexedDB (optimized batch operation for 100B+ items)
-export const saveTasksToDB = async (items: TodoItem[]): Promise<boolean> => {
+// `source` tells the task history whether the changes can be undone
+export const saveTasksToDB = async (items: TodoItem[], source: TaskChangeSource = 'user'): Promise<boolean> => {
+  // Journal against the cache and move it forward now, so a save that starts
+  // before this one finishes doesn't journal the same changes again
+  if (tasksCache !== null) {
+    recordTaskChanges(tasksCache, items, source);
+    tasksCache = items;
+  }
+
   // Throttle saves to prevent overwhelming the database
   const now = Date.now();
   if (now - lastSaveTime < MIN_SAVE_INTERVAL) {
@@ -141,6 +163,7 @@ export const saveTasksToDB = async (items: TodoItem[]): Promise<boolean> => {
     return true;
   }
   lastSaveTime = now;
+  queueTasksSnapshot(items);
 
   try {
     const db = await openDB();
@@ -258,7 +281,9 @@ export const updateTaskInDB = async (taskId: string, updates: Partial<TodoItem>)
   if (tasksCache) {
     const index = tasksCache.findIndex(t => t.id === taskId);
     if (index >= 0) {
-      tasksCache[index] = { ...tasksCache[index], ...updates };
+      const updatedTask = { ...tasksCache[index], ...updates };
+      recordTaskChanges([tasksCache[index]], [updatedTask]);
+      tasksCache[index] = updatedTask;
       cacheVersion++;
     }
   }
@@ -276,6 +301,7 @@ export const updateTaskInDB = async (taskId: string, updates: Partial<TodoItem>)
         if (existing) {
           const updated = { ...existing, ...updates };
           store.put(updated);
+          queueTaskIndex(updated);
         }
       };
       
@@ -290,9 +316,12 @@ export const updateTaskInDB = async (taskId: string, updates: Partial<TodoItem>)
 
 // Delete a task
 export const deleteTaskFromDB = async (taskId: string): Promise<boolean> => {
+  queueTaskRemoval(taskId);
   // Update cache immediately
   if (tasksCache) {
-    tasksCache = tasksCache.filter(t => t.id !== taskId);
+    const remaining = tasksCache.filter(t => t.id !== taskId);
+    recordTaskChanges(tasksCache, remaining);
+    tasksCache = remaining;
     cacheVersion++;
   }
   
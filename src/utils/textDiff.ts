@@ -0,0 +1,206 @@
+/**
+ * Text Diff - word-level diffs and compact patches between two texts
+ *
+ * Texts are split into words, runs of whitespace, HTML tags and single
+ * punctuation marks, and compared with Myers' algorithm on those tokens. The
+ * result is used two ways: as a patch (what version history stores instead
+ * of a full copy) and as a list of changes the user can look at and pick
+ * from.
+ */
+
+// Past this many inserted/deleted tokens the middle is treated as replaced outright
+const MAX_EDIT_DISTANCE = 2000;
+
+const TOKEN_PATTERN = /<[^>]*>|&[#\w]+;|[\p{L}\p{N}_]+|\s+|[^]/gu;
+
+type EditOp = '=' | '-' | '+';
+
+/**
+ * A patch from one text to another: a positive number keeps that many
+ * characters, a negative one skips (deletes) them and a string is inserted.
+ */
+export type Patch = (number | string)[];
+
+export type DiffChunk =
+  | { type: 'equal'; text: string }
+  | { type: 'change'; deleted: string; inserted: string };
+
+export const tokenizeText = (text: string): string[] => text.match(TOKEN_PATTERN) ?? [];
+
+/**
+ * Shortest edit script from `a` to `b`, or null if it needs more than
+ * MAX_EDIT_DISTANCE edits. Keeps only the part of each step's frontier that
+ * can be reached, so memory grows with the square of the edit distance.
+ */
+const shortestEdit = (a: number[], b: number[]): EditOp[] | null => {
+  const n = a.length;
+  const m = b.length;
+  const max = Math.min(n + m, MAX_EDIT_DISTANCE);
+  const trace: Int32Array[] = [];
+
+  for (let d = 0; d <= max; d++) {
+    const previous = trace[d - 1];
+    const frontier = new Int32Array(2 * d + 1);
+    for (let k = -d; k <= d; k += 2) {
+      let x: number;
+      if (d === 0) x = 0;
+      else if (k === -d || (k !== d && previous[k - 1 + d - 1] < previous[k + 1 + d - 1])) x = previous[k + 1 + d - 1];
+      else x = previous[k - 1 + d - 1] + 1;
+      let y = x - k;
+      while (x < n && y < m && a[x] === b[y]) {
+        x++;
+        y++;
+      }
+      frontier[k + d] = x;
+      if (x >= n && y >= m) {
+        trace.push(frontier);
+        return backtrack(trace, n, m);
+      }
+    }
+    trace.push(frontier);
+  }
+  return null;
+};
+
+const backtrack = (trace: Int32Array[], n: number, m: number): EditOp[] => {
+  const ops: EditOp[] = [];
+  let x = n;
+  let y = m;
+  for (let d = trace.length - 1; d > 0; d--) {
+    const previous = trace[d - 1];
+    const k = x - y;
+    const down = k === -d || (k !== d && previous[k - 1 + d - 1] < previous[k + 1 + d - 1]);
+    const previousK = down ? k + 1 : k - 1;
+    const previousX = previous[previousK + d - 1];
+    const previousY = previousX - previousK;
+    while (x > previousX + (down ? 0 : 1) && y > previousY + (down ? 1 : 0)) {
+      ops.push('=');
+      x--;
+      y--;
+    }
+    ops.push(down ? '+' : '-');
+    x = previousX;
+    y = previousY;
+  }
+  while (x > 0 && y > 0) {
+    ops.push('=');
+    x--;
+    y--;
+  }
+  return ops.reverse();
+};
+
+// Token-level edit script, with the common start and end trimmed before the search
+const diffTokens = (from: string[], to: string[]): EditOp[] => {
+  let start = 0;
+  while (start < from.length && start < to.length && from[start] === to[start]) start++;
+  let end = 0;
+  while (end < from.length - start && end < to.length - start && from[from.length - 1 - end] === to[to.length - 1 - end]) end++;
+
+  const ids = new Map<string, number>();
+  const idOf = (token: string) => {
+    let id = ids.get(token);
+    if (id === undefined) {
+      id = ids.size;
+      ids.set(token, id);
+    }
+    return id;
+  };
+  const a = from.slice(start, from.length - end).map(idOf);
+  const b = to.slice(start, to.length - end).map(idOf);
+  const middle = shortestEdit(a, b) ?? [...a.map((): EditOp => '-'), ...b.map((): EditOp => '+')];
+
+  return [...Array<EditOp>(start).fill('='), ...middle, ...Array<EditOp>(end).fill('=')];
+};
+
+/**
+ * The changes from `from` to `to` as alternating unchanged text and
+ * changes. Whitespace alone between two changes is folded into one change,
+ * so a rewritten phrase reads as one change rather than one per word.
+ */
+export const diffChunks = (from: string, to: string): DiffChunk[] => {
+  const a = tokenizeText(from);
+  const b = tokenizeText(to);
+  const raw: DiffChunk[] = [];
+  let i = 0;
+  let j = 0;
+  diffTokens(a, b).forEach(op => {
+    let last = raw[raw.length - 1];
+    if (op === '=') {
+      if (last?.type === 'equal') last.text += a[i];
+      else raw.push({ type: 'equal', text: a[i] });
+      i++;
+      j++;
+      return;
+    }
+    if (last?.type !== 'change') {
+      last = { type: 'change', deleted: '', inserted: '' };
+      raw.push(last);
+    }
+    if (op === '-') last.deleted += a[i++];
+    else last.inserted += b[j++];
+  });
+
+  const chunks: DiffChunk[] = [];
+  raw.forEach((chunk, index) => {
+    const previous = chunks[chunks.length - 1];
+    const next = raw[index + 1];
+    if (chunk.type === 'equal' && /^\s+$/.test(chunk.text) && previous?.type === 'change' && next?.type === 'change') {
+      previous.deleted += chunk.text;
+      previous.inserted += chunk.text;
+    } else if (chunk.type === 'change' && previous?.type === 'change') {
+      previous.deleted += chunk.deleted;
+      previous.inserted += chunk.inserted;
+    } else {
+      chunks.push({ ...chunk });
+    }
+  });
+  return chunks;
+};
+
+/**
+ * Put the text back together from chunks, taking the new side of every
+ * change except those listed in `revert`, which keep the old side.
+ */
+export const mergeChunks = (chunks: DiffChunk[], revert: Set<number>): string =>
+  chunks
+    .map((chunk, index) => {
+      if (chunk.type === 'equal') return chunk.text;
+      return revert.has(index) ? chunk.deleted : chunk.inserted;
+    })
+    .join('');
+
+export const createPatch = (from: string, to: string): Patch => {
+  const patch: Patch = [];
+  const push = (item: number | string) => {
+    const last = patch[patch.length - 1];
+    if (typeof item === 'string' && typeof last === 'string') patch[patch.length - 1] = last + item;
+    else if (typeof item === 'number' && typeof last === 'number' && Math.sign(item) === Math.sign(last)) patch[patch.length - 1] = last + item;
+    else patch.push(item);
+  };
+  diffChunks(from, to).forEach(chunk => {
+    if (chunk.type === 'equal') {
+      push(chunk.text.length);
+      return;
+    }
+    if (chunk.deleted) push(-chunk.deleted.length);
+    if (chunk.inserted) push(chunk.inserted);
+  });
+  return patch;
+};
+
+export const applyPatch = (from: string, patch: Patch): string => {
+  let position = 0;
+  let result = '';
+  patch.forEach(item => {
+    if (typeof item === 'string') {
+      result += item;
+    } else if (item > 0) {
+      result += from.slice(position, position + item);
+      position += item;
+    } else {
+      position -= item;
+    }
+  });
+  return result;
+};
@@ -0,0 +1,152 @@
+/**
+ * TickTick Import - reads the CSV from TickTick's "Generate backup"
+ *
+ * The file starts with a few preamble lines (date, version, status legend)
+ * before the header row. Lists become task folders, kanban columns become
+ * sections, checklist items become subtasks and NOTE items become notes.
+ * Repeats are stored by TickTick as RRULEs and kept as such.
+ */
+
+import { Note, Priority, TodoItem } from '@/types/note';
+import { escapeHtml } from '@/lib/sanitize';
+import { parseCsv, parseCsvRecords } from './csvParser';
+import { formatRRule, parseRRule } from './rrule';
+import { rruleToRepeatType } from './recurringTasks';
+import {
+  ImportFile,
+  ImportFileError,
+  ImportPreview,
+  createImportPreview,
+  getOrAddFolder,
+  getOrAddSection,
+  importFileText,
+  importId,
+  nestSubtasks,
+  parseImportDate,
+} from './externalImport';
+
+const PRIORITIES: Record<string, Priority> = { '0': 'none', '1': 'low', '3': 'medium', '5': 'high' };
+
+// Checklist lines in the content column: ▫ open, ▪ done
+const CHECKLIST_ITEM = /^\s*([▫▪])\s*(.*)$/;
+
+// TickTick adds its own parts (e.g. TT_SKIP) to otherwise standard rules
+const readRepeat = (task: TodoItem, value: string, errors: string[], label: string) => {
+  const body = value.replace(/^RRULE:/i, '').split(';').filter(part => /^[A-Z]+=/.test(part) && !/^(TT_|X-)/i.test(part)).join(';');
+  if (!body) return;
+  try {
+    const rule = parseRRule(body);
+    task.repeatType = rruleToRepeatType(rule);
+    task.recurrence = { rrule: formatRRule(rule), dtstart: task.dueDate };
+  } catch (error) {
+    errors.push(`${label}: repeat "${value}" was not imported (${(error as Error).message})`);
+  }
+};
+
+// First reminder, e.g. "TRIGGER:-PT30M", relative to the due date
+const readReminder = (value: string, due?: Date): Date | undefined => {
+  const match = /(-)?P(?:(\d+)D)?(?:T(?:(\d+)H)?(?:(\d+)M)?)?/.exec(value.split(',')[0]);
+  if (!match || !due) return undefined;
+  const minutes = (Number(match[2] || 0) * 24 + Number(match[3] || 0)) * 60 + Number(match[4] || 0);
+  return new Date(due.getTime() + (match[1] ? -1 : 1) * minutes * 60000);
+};
+
+const parseBackup = (file: ImportFile, preview: ImportPreview) => {
+  const text = importFileText(file);
+  const headerRow = parseCsv(text).findIndex(row => row.includes('Title') && row.includes('List Name'));
+  if (headerRow < 0) {
+    preview.errors.push(`${file.name}: not a TickTick backup`);
+    return;
+  }
+
+  const tasks: TodoItem[] = [];
+  const parentOf = new Map<string, string>();
+  const idMap = new Map<string, string>();
+
+  parseCsvRecords(text, headerRow).forEach((record, index) => {
+    // Older backups have fewer columns
+    const field = (name: string) => record[name] ?? '';
+    const label = `${file.name} row ${headerRow + index + 2}`;
+    const title = field('Title');
+    if (!title) {
+      preview.errors.push(`${label}: item without a title`);
+      return;
+    }
+    const created = parseImportDate(field('Created Time')) ?? new Date();
+    const listName = field('List Name');
+
+    if (field('Kind') === 'NOTE') {
+      const note: Note = {
+        id: importId('ticktick'),
+        type: 'regular',
+        title,
+        content: field('Content').split(/\r?\n/).map(line => `<p>${escapeHtml(line) || '<br>'}</p>`).join(''),
+        voiceRecordings: [],
+        folderId: listName ? getOrAddFolder(preview.noteFolders, listName).id : undefined,
+        createdAt: created,
+        updatedAt: created,
+      };
+      preview.notes.push(note);
+      return;
+    }
+
+    // Status: 0 normal, 1 completed, 2 archived (completed)
+    const completed = field('Status') === '1' || field('Status') === '2';
+    const allDay = field('Is All Day') === 'true';
+    const due = parseImportDate(field('Due Date')) ?? parseImportDate(field('Start Date'));
+    const tags = field('Tags').split(',').map(tag => tag.trim()).filter(Boolean);
+    const task: TodoItem = {
+      id: importId('ticktick'),
+      text: title,
+      completed,
+      priority: PRIORITIES[field('Priority')],
+      tags: tags.length ? tags : undefined,
+      folderId: listName ? getOrAddFolder(preview.taskFolders, listName).id : undefined,
+      sectionId: field('Column Name') ? getOrAddSection(preview.sections, field('Column Name')).id : undefined,
+      dueDate: due && allDay ? new Date(due.getFullYear(), due.getMonth(), due.getDate()) : due,
+      createdAt: created,
+      completedAt: completed ? parseImportDate(field('Completed Time')) ?? new Date() : undefined,
+    };
+    if (field('Reminder')) task.reminderTime = readReminder(field('Reminder'), task.dueDate);
+    if (field('Repeat')) readRepeat(task, field('Repeat'), preview.errors, label);
+
+    // Checklist items become subtasks; any other content is the description
+    const description: string[] = [];
+    const checklist: TodoItem[] = [];
+    field('Content').split(/\r?\n/).forEach(line => {
+      const item = field('Is Check list') === 'Y' ? CHECKLIST_ITEM.exec(line) : null;
+      if (item && item[2].trim()) {
+        checklist.push({
+          id: importId('ticktick'),
+          text: item[2].trim(),
+          completed: item[1] === '▪',
+          createdAt: created,
+        });
+      } else {
+        description.push(line);
+      }
+    });
+    task.description = description.join('\n').trim() || undefined;
+    if (checklist.length) task.subtasks = checklist;
+
+    if (field('taskId')) idMap.set(field('taskId'), task.id);
+    if (field('parentId')) parentOf.set(task.id, field('parentId'));
+    tasks.push(task);
+  });
+
+  // parentId refers to TickTick's ids until mapped to the new task ids
+  parentOf.forEach((tickTickParent, taskId) => {
+    const parentId = idMap.get(tickTickParent);
+    if (parentId) parentOf.set(taskId, parentId);
+    else parentOf.delete(taskId);
+  });
+  preview.tasks.push(...nestSubtasks(tasks, parentOf));
+};
+
+export const parseTickTickExport = (files: ImportFile[]): ImportPreview => {
+  const preview = createImportPreview('ticktick');
+  const csvFiles = files.filter(file => file.name.toLowerCase().endsWith('.csv'));
+  if (csvFiles.length === 0) throw new ImportFileError('No TickTick CSV backup found');
+  csvFiles.forEach(file => parseBackup(file, preview));
+  return preview;
+};
@@ -0,0 +1,172 @@
+/**
+ * Time Blocking - planning tasks into time slots on the calendar
+ *
+ * A task is time-blocked when it has a scheduled start and end. Blocks are
+ * checked against timed calendar events (all-day events don't take up
+ * time) and "plan my day" fills the free time of a day with unscheduled
+ * tasks, most important and soonest due first.
+ */
+
+import { addMinutes, differenceInMinutes, endOfDay, isBefore, max as latest, min as earliest, setHours, startOfDay } from 'date-fns';
+import { CalendarEvent, Priority, TodoItem } from '@/types/note';
+import { getEventOccurrences } from '@/utils/recurringTasks';
+import { getBlockingTasks } from '@/utils/taskDependencies';
+
+export interface BusyPeriod {
+  id: string;
+  title: string;
+  start: Date;
+  end: Date;
+  kind: 'event' | 'task';
+}
+
+export interface PlannedBlock {
+  taskId: string;
+  start: Date;
+  end: Date;
+}
+
+export interface WorkingHours {
+  // Hours of the day, 0-24
+  start: number;
+  end: number;
+}
+
+export const SLOT_MINUTES = 15;
+export const DEFAULT_BLOCK_MINUTES = 30;
+export const DEFAULT_WORKING_HOURS: WorkingHours = { start: 9, end: 18 };
+export const ESTIMATE_OPTIONS = [15, 30, 45, 60, 90, 120, 180, 240];
+
+const PRIORITY_RANK: Record<Priority, number> = { high: 0, medium: 1, low: 2, none: 3 };
+
+export const getTaskMinutes = (task: TodoItem): number =>
+  task.estimatedMinutes && task.estimatedMinutes > 0 ? task.estimatedMinutes : DEFAULT_BLOCK_MINUTES;
+
+export const formatMinutes = (minutes: number): string => {
+  const hours = Math.floor(minutes / 60);
+  const rest = minutes % 60;
+  if (hours === 0) return `${rest}m`;
+  return rest === 0 ? `${hours}h` : `${hours}h ${rest}m`;
+};
+
+export const isTimeBlocked = (task: TodoItem): boolean => !!task.scheduledStart && !!task.scheduledEnd;
+
+// Round to the nearest slot boundary
+export const snapToSlot = (date: Date): Date => {
+  const snapped = new Date(date);
+  const minutes = snapped.getHours() * 60 + snapped.getMinutes();
+  const rounded = Math.round(minutes / SLOT_MINUTES) * SLOT_MINUTES;
+  snapped.setHours(0, rounded, 0, 0);
+  return snapped;
+};
+
+const overlaps = (a: { start: Date; end: Date }, b: { start: Date; end: Date }): boolean =>
+  a.start < b.end && b.start < a.end;
+
+/** Timed calendar events between two dates, one period per occurrence */
+export const getEventPeriods = (events: CalendarEvent[], from: Date, to: Date): BusyPeriod[] =>
+  events
+    .filter(event => !event.allDay)
+    .flatMap(event => {
+      const length = new Date(event.endDate).getTime() - new Date(event.startDate).getTime();
+      // Occurrences that start before `from` can still run into it
+      return getEventOccurrences(event, new Date(from.getTime() - length), to).map((start, index) => ({
+        id: `${event.id}-${index}`,
+        title: event.title,
+        start,
+        end: new Date(start.getTime() + length),
+        kind: 'event' as const,
+      }));
+    })
+    .filter(period => overlaps(period, { start: from, end: to }));
+
+/** Time-blocked open tasks between two dates */
+export const getTaskPeriods = (tasks: TodoItem[], from: Date, to: Date): BusyPeriod[] =>
+  tasks
+    .filter(task => !task.completed && isTimeBlocked(task))
+    .map(task => ({
+      id: task.id,
+      title: task.text,
+      start: new Date(task.scheduledStart as Date),
+      end: new Date(task.scheduledEnd as Date),
+      kind: 'task' as const,
+    }))
+    .filter(period => overlaps(period, { start: from, end: to }));
+
+// Periods a block runs into, leaving out the task's own block
+export const findConflicts = (block: { start: Date; end: Date }, busy: BusyPeriod[], taskId?: string): BusyPeriod[] =>
+  busy.filter(period => period.id !== taskId && overlaps(block, period));
+
+/** Free stretches of a day's working hours, no earlier than `notBefore` */
+export const findFreeSlots = (
+  day: Date,
+  busy: BusyPeriod[],
+  hours: WorkingHours = DEFAULT_WORKING_HOURS,
+  notBefore?: Date
+): { start: Date; end: Date }[] => {
+  const dayStart = startOfDay(day);
+  let cursor = setHours(dayStart, hours.start);
+  const end = hours.end >= 24 ? endOfDay(day) : setHours(dayStart, hours.end);
+  if (notBefore && isBefore(cursor, notBefore)) {
+    // Start at the next slot boundary after `notBefore`
+    const rounded = snapToSlot(notBefore);
+    cursor = isBefore(rounded, notBefore) ? addMinutes(rounded, SLOT_MINUTES) : rounded;
+  }
+
+  const free: { start: Date; end: Date }[] = [];
+  [...busy]
+    .filter(period => overlaps(period, { start: cursor, end }))
+    .sort((a, b) => a.start.getTime() - b.start.getTime())
+    .forEach(period => {
+      if (isBefore(cursor, period.start)) free.push({ start: cursor, end: earliest([period.start, end]) });
+      cursor = latest([cursor, period.end]);
+    });
+  if (isBefore(cursor, end)) free.push({ start: cursor, end });
+  return free;
+};
+
+// Most important first, then soonest due; tasks without a due date go last
+const comparePlanOrder = (a: TodoItem, b: TodoItem): number => {
+  const rank = PRIORITY_RANK[a.priority ?? 'none'] - PRIORITY_RANK[b.priority ?? 'none'];
+  if (rank !== 0) return rank;
+  const dueA = a.dueDate ? new Date(a.dueDate).getTime() : Infinity;
+  const dueB = b.dueDate ? new Date(b.dueDate).getTime() : Infinity;
+  return dueA === dueB ? 0 : dueA < dueB ? -1 : 1;
+};
+
+/**
+ * Fill the free time of `day` with open tasks that have no block yet.
+ * Only tasks due by the end of that day or without a due date are
+ * considered, and tasks still waiting on other tasks are left out. A task
+ * that fits in no free stretch is skipped so a smaller one can take the
+ * time instead.
+ */
+export const planDay = (
+  tasks: TodoItem[],
+  day: Date,
+  busy: BusyPeriod[],
+  options: { hours?: WorkingHours; now?: Date } = {}
+): { blocks: PlannedBlock[]; unplaced: TodoItem[] } => {
+  const dayEnd = endOfDay(day);
+  const candidates = tasks
+    .filter(task => !task.completed && !isTimeBlocked(task))
+    .filter(task => !task.dueDate || !isBefore(dayEnd, new Date(task.dueDate)))
+    .filter(task => getBlockingTasks(task, tasks).length === 0)
+    .sort(comparePlanOrder);
+
+  const slots = findFreeSlots(day, busy, options.hours, options.now);
+  const blocks: PlannedBlock[] = [];
+  const unplaced: TodoItem[] = [];
+  candidates.forEach(task => {
+    const minutes = getTaskMinutes(task);
+    const slot = slots.find(free => differenceInMinutes(free.end, free.start) >= minutes);
+    if (!slot) {
+      unplaced.push(task);
+      return;
+    }
+    const end = addMinutes(slot.start, minutes);
+    blocks.push({ taskId: task.id, start: slot.start, end });
+    slot.start = end;
+  });
+  return { blocks, unplaced };
+};
@@ -0,0 +1,258 @@
+/**
+ * Time Entries - one store for time spent on tasks
+ *
+ * The task stopwatch (TaskTimeTracker) and the Pomodoro timer both add an
+ * entry here for every stretch of work on a task, so totals, estimate vs.
+ * actual reports and timesheets see the same numbers whichever was used.
+ * Time tracked before the store existed is copied in on first use, along
+ * with the goals the Pomodoro timer used to keep, which become estimates.
+ */
+
+import { format } from 'date-fns';
+import { Folder, TodoItem } from '@/types/note';
+import { getSetting, setSetting } from '@/utils/settingsStorage';
+
+export type TimeEntrySource = 'timer' | 'pomodoro';
+
+export interface TimeEntry {
+  id: string;
+  taskId: string;
+  taskText: string;
+  start: Date;
+  end: Date;
+  seconds: number;
+  source: TimeEntrySource;
+}
+
+export interface TaskTimeTotal {
+  seconds: number;
+  entries: number;
+}
+
+export type EstimateDimension = 'tag' | 'folder' | 'priority';
+
+export interface EstimateRow {
+  key: string;
+  // Set for names that come from the user's data; other rows are named by `key`
+  label?: string;
+  tasks: number;
+  estimatedMinutes: number;
+  actualMinutes: number;
+}
+
+export const TIME_ENTRIES_EVENT = 'timeEntriesUpdated';
+
+const STORAGE_KEY = 'timeEntries';
+const MIGRATED_KEY = 'timeEntriesMigrated';
+const LEGACY_POMODORO_KEY = 'pomodoroTaskTracking';
+export const NO_GROUP = '__none';
+
+interface LegacyPomodoroTracking {
+  taskId: string;
+  taskText: string;
+  totalMinutes: number;
+  lastSession: Date;
+  goalMinutes?: number;
+}
+
+const entryId = () => `time-${Date.now()}-${Math.random().toString(36).substring(2, 9)}`;
+
+const hydrate = (entry: TimeEntry): TimeEntry => ({ ...entry, start: new Date(entry.start), end: new Date(entry.end) });
+
+// Copy stopwatch sessions kept on tasks and Pomodoro totals into the store, once
+const migrate = async (): Promise<TimeEntry[]> => {
+  const { loadTasksFromDB, updateTaskInDB } = await import('./taskStorage');
+  const tasks = await loadTasksFromDB();
+  const flatten = (list: TodoItem[]): TodoItem[] => list.flatMap(task => [task, ...flatten(task.subtasks ?? [])]);
+
+  const entries: TimeEntry[] = flatten(tasks).flatMap(task =>
+    (task.timeTracking?.sessions ?? []).map(session => ({
+      id: entryId(),
+      taskId: task.id,
+      taskText: task.text,
+      start: new Date(session.start),
+      end: new Date(session.end),
+      seconds: session.duration,
+      source: 'timer' as const,
+    }))
+  );
+
+  // Pomodoro only kept a total per task, so it becomes one entry ending at the last session
+  const legacy = await getSetting<LegacyPomodoroTracking[]>(LEGACY_POMODORO_KEY, []);
+  legacy.filter(tracking => tracking.totalMinutes > 0).forEach(tracking => {
+    const end = new Date(tracking.lastSession);
+    entries.push({
+      id: entryId(),
+      taskId: tracking.taskId,
+      taskText: tracking.taskText,
+      start: new Date(end.getTime() - tracking.totalMinutes * 60000),
+      end,
+      seconds: tracking.totalMinutes * 60,
+      source: 'pomodoro',
+    });
+  });
+
+  // A Pomodoro goal is the task's estimate now, unless the task already has one
+  for (const tracking of legacy) {
+    const task = tasks.find(item => item.id === tracking.taskId);
+    if (task && !task.estimatedMinutes && tracking.goalMinutes && tracking.goalMinutes > 0) {
+      await updateTaskInDB(task.id, { estimatedMinutes: tracking.goalMinutes });
+    }
+  }
+
+  await setSetting(STORAGE_KEY, entries);
+  await setSetting(MIGRATED_KEY, true);
+  return entries;
+};
+
+let migration: Promise<TimeEntry[]> | null = null;
+
+export const getTimeEntries = async (): Promise<TimeEntry[]> => {
+  if (!(await getSetting<boolean>(MIGRATED_KEY, false))) {
+    migration = migration ?? migrate();
+    await migration;
+  }
+  const entries = await getSetting<TimeEntry[]>(STORAGE_KEY, []);
+  return entries.map(hydrate);
+};
+
+let writeChain: Promise<void> = Promise.resolve();
+
+// Changes run one after another, so two timers stopping at once don't drop each other's entry
+const updateEntries = (change: (entries: TimeEntry[]) => TimeEntry[]): Promise<void> => {
+  const job = writeChain.then(async () => {
+    await setSetting(STORAGE_KEY, change(await getTimeEntries()));
+    window.dispatchEvent(new Event(TIME_ENTRIES_EVENT));
+  });
+  writeChain = job.catch(() => undefined);
+  return job;
+};
+
+export const addTimeEntry = async (entry: Omit<TimeEntry, 'id'>): Promise<TimeEntry> => {
+  const saved: TimeEntry = { ...entry, id: entryId() };
+  if (saved.seconds <= 0) return saved;
+  await updateEntries(entries => [...entries, saved]);
+  return saved;
+};
+
+// Forget the time tracked on a task, or only what one source tracked
+export const removeTaskTimeEntries = (taskId: string, source?: TimeEntrySource): Promise<void> =>
+  updateEntries(entries => entries.filter(entry => entry.taskId !== taskId || (source && entry.source !== source)));
+
+export const getTaskTimeTotals = (entries: TimeEntry[]): Map<string, TaskTimeTotal> => {
+  const totals = new Map<string, TaskTimeTotal>();
+  entries.forEach(entry => {
+    const total = totals.get(entry.taskId) ?? { seconds: 0, entries: 0 };
+    totals.set(entry.taskId, { seconds: total.seconds + entry.seconds, entries: total.entries + 1 });
+  });
+  return totals;
+};
+
+// ============ Reports ============
+
+const groupKeys = (task: TodoItem, dimension: EstimateDimension): string[] => {
+  switch (dimension) {
+    case 'tag': {
+      const tags = [...new Set([...(task.coloredTags ?? []).map(tag => tag.name), ...(task.tags ?? [])])];
+      return tags.length > 0 ? tags : [NO_GROUP];
+    }
+    case 'folder':
+      return [task.folderId ?? NO_GROUP];
+    case 'priority':
+      return [task.priority ?? 'none'];
+  }
+};
+
+// A task's estimate and tracked time, including those of its subtasks
+const rollUp = (task: TodoItem, totals: Map<string, TaskTimeTotal>): { minutes: number; seconds: number } =>
+  (task.subtasks ?? []).reduce(
+    (sum, subtask) => {
+      const sub = rollUp(subtask, totals);
+      return { minutes: sum.minutes + sub.minutes, seconds: sum.seconds + sub.seconds };
+    },
+    { minutes: task.estimatedMinutes ?? 0, seconds: totals.get(task.id)?.seconds ?? 0 }
+  );
+
+/**
+ * Estimated vs. tracked time of top-level tasks, grouped by tag, folder or
+ * priority. Subtasks count toward their task. Only tasks with both an
+ * estimate and tracked time are compared; a task with several tags counts
+ * toward each of them.
+ */
+export const getEstimateReport = (
+  tasks: TodoItem[],
+  entries: TimeEntry[],
+  dimension: EstimateDimension,
+  folders: Folder[] = []
+): EstimateRow[] => {
+  const totals = getTaskTimeTotals(entries);
+  const folderNames = new Map(folders.map(folder => [folder.id, folder.name]));
+  const rows = new Map<string, EstimateRow>();
+
+  tasks.forEach(task => {
+    const { minutes, seconds } = rollUp(task, totals);
+    if (!minutes || !seconds) return;
+    groupKeys(task, dimension).forEach(key => {
+      const label = dimension === 'tag' && key !== NO_GROUP ? key : dimension === 'folder' ? folderNames.get(key) : undefined;
+      const row = rows.get(key) ?? { key, label, tasks: 0, estimatedMinutes: 0, actualMinutes: 0 };
+      row.tasks += 1;
+      row.estimatedMinutes += minutes;
+      row.actualMinutes += seconds / 60;
+      rows.set(key, row);
+    });
+  });
+  return [...rows.values()].sort((a, b) => b.actualMinutes - a.actualMinutes);
+};
+
+const csvCell = (value: string) => (/[",\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value);
+
+/**
+ * A CSV timesheet with one row per day and folder: the hours tracked and
+ * the tasks worked on. Entries count toward the day they started.
+ */
+export const buildTimesheetCsv = (
+  entries: TimeEntry[],
+  tasks: TodoItem[],
+  folders: Folder[],
+  range: { from?: Date; to?: Date } = {}
+): string => {
+  // Subtasks are billed to their parent's folder
+  const folderOf = new Map<string, string | undefined>();
+  const addFolders = (list: TodoItem[], folderId?: string) => list.forEach(task => {
+    folderOf.set(task.id, folderId ?? task.folderId);
+    addFolders(task.subtasks ?? [], folderId ?? task.folderId);
+  });
+  addFolders(tasks);
+  const folderNames = new Map(folders.map(folder => [folder.id, folder.name]));
+  const rows = new Map<string, { day: string; folder: string; seconds: number; tasks: Set<string> }>();
+
+  entries
+    .filter(entry => (!range.from || entry.start >= range.from) && (!range.to || entry.start <= range.to))
+    .sort((a, b) => a.start.getTime() - b.start.getTime())
+    .forEach(entry => {
+      const day = format(entry.start, 'yyyy-MM-dd');
+      const folderId = folderOf.get(entry.taskId);
+      const folder = (folderId && folderNames.get(folderId)) || 'No folder';
+      const key = `${day}\u0000${folder}`;
+      const row = rows.get(key) ?? { day, folder, seconds: 0, tasks: new Set<string>() };
+      row.seconds += entry.seconds;
+      row.tasks.add(entry.taskText);
+      rows.set(key, row);
+    });
+
+  const hours = (seconds: number) => (seconds / 3600).toFixed(2);
+  const lines = [...rows.values()]
+    .sort((a, b) => a.day.localeCompare(b.day) || a.folder.localeCompare(b.folder))
+    .map(row => [row.day, csvCell(row.folder), hours(row.seconds), csvCell([...row.tasks].join('; '))].join(','));
+  const total = [...rows.values()].reduce((sum, row) => sum + row.seconds, 0);
+  return [['Date', 'Folder', 'Hours', 'Tasks'].join(','), ...lines, ['Total', '', hours(total), ''].join(',')].join('\n');
+};
+
+export const downloadTimesheet = (csv: string, fileName = `timesheet_${format(new Date(), 'yyyy-MM-dd')}.csv`): void => {
+  const url = URL.createObjectURL(new Blob([csv], { type: 'text/csv;charset=utf-8;' }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+};
@@ -21,6 +21,8 @@ const hydrateItem = (raw: any): TodoItem => {
     ...raw,
     dueDate: raw?.dueDate ? new Date(raw.dueDate) : undefined,
     reminderTime: raw?.reminderTime ? new Date(raw.reminderTime) : undefined,
+    scheduledStart: raw?.scheduledStart ? new Date(raw.scheduledStart) : undefined,
+    scheduledEnd: raw?.scheduledEnd ? new Date(raw.scheduledEnd) : undefined,
     voiceRecording: raw?.voiceRecording
       ? {
           ...raw.voiceRecording,
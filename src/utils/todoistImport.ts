@@ -0,0 +1,226 @@
+/**
+ * Todoist Import - reads Todoist CSV project exports and JSON backups
+ *
+ * CSV: one file per project (a backup zip holds several), with TYPE rows
+ * for sections, tasks and comments and INDENT for subtasks. JSON: the Sync
+ * API backup ({ projects, sections, items }) or a REST task list.
+ */
+
+import { Priority, TodoItem } from '@/types/note';
+import { parseCsvRecords } from './csvParser';
+import { parseNaturalLanguageTask } from './naturalLanguageParser';
+import {
+  ImportFile,
+  ImportFileError,
+  ImportPreview,
+  createImportPreview,
+  getOrAddFolder,
+  getOrAddSection,
+  importFileBaseName,
+  importFileText,
+  importId,
+  nestSubtasks,
+  parseImportDate,
+} from './externalImport';
+
+// CSV PRIORITY: 1 is p1 (highest) and 4 is p4 (no priority)
+const CSV_PRIORITIES: Record<string, Priority> = { '1': 'high', '2': 'medium', '3': 'low', '4': 'none' };
+// API priority runs the other way: 4 is p1
+const API_PRIORITIES: Record<number, Priority> = { 4: 'high', 3: 'medium', 2: 'low', 1: 'none' };
+
+interface TodoistDue {
+  date?: string;
+  datetime?: string;
+  string?: string;
+  is_recurring?: boolean;
+}
+
+interface TodoistItem {
+  id: string | number;
+  content?: string;
+  description?: string;
+  project_id?: string | number;
+  section_id?: string | number | null;
+  parent_id?: string | number | null;
+  priority?: number;
+  due?: TodoistDue | null;
+  labels?: string[];
+  checked?: boolean | number;
+  is_completed?: boolean;
+  completed_at?: string | null;
+  added_at?: string;
+  created_at?: string;
+}
+
+interface TodoistNamed {
+  id: string | number;
+  name: string;
+}
+
+// Labels written inline in CSV content, e.g. "Buy milk @errands"
+const extractLabels = (content: string): { text: string; labels: string[] } => {
+  const labels: string[] = [];
+  const text = content.replace(/(^|\s)@([\w-]+)/g, (_, space: string, label: string) => {
+    labels.push(label);
+    return space;
+  }).replace(/\s+/g, ' ').trim();
+  return { text, labels };
+};
+
+/**
+ * Apply a Todoist date string. Plain dates are read directly; natural
+ * language and repeats ("every mon at 9am") go through the app's parser.
+ */
+const applyDate = (task: TodoItem, dateText?: string, recurring = false) => {
+  const text = dateText?.trim();
+  if (!text) return;
+  const direct = recurring || /\bevery\b/i.test(text) ? undefined : parseImportDate(text);
+  if (direct) {
+    task.dueDate = direct;
+    return;
+  }
+  const parsed = parseNaturalLanguageTask(text);
+  if (parsed.dueDate) task.dueDate = parsed.dueDate;
+  if (parsed.repeatType && parsed.repeatType !== 'none') {
+    task.repeatType = parsed.repeatType;
+    task.repeatDays = parsed.repeatDays;
+    task.advancedRepeat = parsed.advancedRepeat;
+    task.recurrence = parsed.recurrence;
+  }
+};
+
+const parseCsvProject = (file: ImportFile, preview: ImportPreview) => {
+  const records = parseCsvRecords(importFileText(file));
+  if (records.length > 0 && !('TYPE' in records[0] && 'CONTENT' in records[0])) {
+    preview.errors.push(`${file.name}: not a Todoist CSV export`);
+    return;
+  }
+
+  // Backup file names end with the project id, e.g. "Inbox [2203306141].csv"
+  const folder = getOrAddFolder(preview.taskFolders, importFileBaseName(file.name).replace(/\s*\[\d+\]$/, ''));
+  let sectionId: string | undefined;
+  const parentOf = new Map<string, string>();
+  // Last task seen at each indent level, to find subtask parents
+  const stack: TodoItem[] = [];
+  const tasks: TodoItem[] = [];
+
+  records.forEach((record, index) => {
+    const type = record.TYPE.toLowerCase();
+    if (type === 'section') {
+      sectionId = record.CONTENT ? getOrAddSection(preview.sections, record.CONTENT).id : undefined;
+      stack.length = 0;
+    } else if (type === 'note') {
+      const last = stack[stack.length - 1];
+      if (last && record.CONTENT) {
+        last.description = last.description ? `${last.description}\n\n${record.CONTENT}` : record.CONTENT;
+      }
+    } else if (type === 'task') {
+      const { text, labels } = extractLabels(record.CONTENT || '');
+      if (!text) {
+        preview.errors.push(`${file.name} row ${index + 2}: task without content`);
+        return;
+      }
+      const task: TodoItem = {
+        id: importId('todoist'),
+        text,
+        completed: false,
+        description: record.DESCRIPTION || undefined,
+        priority: CSV_PRIORITIES[record.PRIORITY] ?? undefined,
+        tags: labels.length ? labels : undefined,
+        folderId: folder.id,
+        sectionId,
+        createdAt: new Date(),
+      };
+      applyDate(task, record.DATE);
+
+      const indent = Math.max(1, parseInt(record.INDENT, 10) || 1);
+      stack.length = Math.min(stack.length, indent - 1);
+      const parent = stack[stack.length - 1];
+      if (parent) parentOf.set(task.id, parent.id);
+      stack.push(task);
+      tasks.push(task);
+    }
+  });
+
+  preview.tasks.push(...nestSubtasks(tasks, parentOf));
+};
+
+const parseJsonBackup = (file: ImportFile, preview: ImportPreview) => {
+  let data: unknown;
+  try {
+    data = JSON.parse(importFileText(file));
+  } catch {
+    preview.errors.push(`${file.name}: not valid JSON`);
+    return;
+  }
+
+  const backup = (Array.isArray(data) ? { items: data } : data) as {
+    projects?: TodoistNamed[];
+    sections?: TodoistNamed[];
+    items?: TodoistItem[];
+    tasks?: TodoistItem[];
+  };
+  const items = backup.items || backup.tasks;
+  if (!Array.isArray(items)) {
+    preview.errors.push(`${file.name}: no Todoist tasks found`);
+    return;
+  }
+
+  const projectNames = new Map((backup.projects || []).map(p => [String(p.id), p.name]));
+  const sectionNames = new Map((backup.sections || []).map(s => [String(s.id), s.name]));
+  const idMap = new Map<string, string>();
+  const parentOf = new Map<string, string>();
+  const tasks: TodoItem[] = [];
+
+  items.forEach(item => {
+    if (!item.content) return;
+    const completed = !!item.checked || !!item.is_completed || !!item.completed_at;
+    const projectName = projectNames.get(String(item.project_id));
+    const sectionName = item.section_id ? sectionNames.get(String(item.section_id)) : undefined;
+    const task: TodoItem = {
+      id: importId('todoist'),
+      text: item.content,
+      completed,
+      description: item.description || undefined,
+      priority: item.priority ? API_PRIORITIES[item.priority] : undefined,
+      tags: item.labels?.length ? item.labels : undefined,
+      folderId: projectName ? getOrAddFolder(preview.taskFolders, projectName).id : undefined,
+      sectionId: sectionName ? getOrAddSection(preview.sections, sectionName).id : undefined,
+      createdAt: parseImportDate(item.added_at || item.created_at) ?? new Date(),
+      completedAt: completed ? parseImportDate(item.completed_at || undefined) ?? new Date() : undefined,
+    };
+    if (item.due) {
+      if (item.due.is_recurring) applyDate(task, item.due.string, true);
+      const due = parseImportDate(item.due.datetime || item.due.date);
+      if (due) {
+        task.dueDate = due;
+        // The series continues from Todoist's next due date
+        if (task.recurrence) task.recurrence = { ...task.recurrence, dtstart: due };
+      }
+    }
+    idMap.set(String(item.id), task.id);
+    if (item.parent_id) parentOf.set(task.id, String(item.parent_id));
+    tasks.push(task);
+  });
+
+  // Parent ids refer to Todoist ids until mapped to the new task ids
+  parentOf.forEach((todoistParent, taskId) => {
+    const parentId = idMap.get(todoistParent);
+    if (parentId) parentOf.set(taskId, parentId);
+    else parentOf.delete(taskId);
+  });
+  preview.tasks.push(...nestSubtasks(tasks, parentOf));
+};
+
+export const parseTodoistExport = (files: ImportFile[]): ImportPreview => {
+  const preview = createImportPreview('todoist');
+  files.forEach(file => {
+    const name = file.name.toLowerCase();
+    if (name.endsWith('.csv')) parseCsvProject(file, preview);
+    else if (name.endsWith('.json')) parseJsonBackup(file, preview);
+  });
+  if (preview.tasks.length === 0 && preview.errors.length === 0) {
+    throw new ImportFileError('No Todoist CSV or JSON files found');
+  }
+  return preview;
+};
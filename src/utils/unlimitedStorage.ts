@@ -16,7 +16,7 @@ interface StorageChunk {
   createdAt: string;
 }
 
-interface StorageMetadata {
+export interface StorageMetadata {
   id: string;
   type: 'image' | 'audio' | 'note' | 'file';
   totalSize: number;
@@ -299,6 +299,22 @@ export const deleteLargeMedia = async (id: string): Promise<boolean> => {
   }
 };
 
+// Metadata of every stored item, e.g. to back them all up
+export const getAllLargeMediaMetadata = async (): Promise<StorageMetadata[]> => {
+  try {
+    const db = await openDB();
+    return new Promise((resolve, reject) => {
+      const transaction = db.transaction(['metadata'], 'readonly');
+      const request = transaction.objectStore('metadata').getAll();
+      request.onsuccess = () => resolve(request.result as StorageMetadata[]);
+      request.onerror = () => reject(request.error);
+    });
+  } catch (e) {
+    console.error('Failed to list large media:', e);
+    return [];
+  }
+};
+
 // Get storage statistics
 export const getStorageStats = async (): Promise<{
   used: number;
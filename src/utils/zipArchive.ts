@@ -0,0 +1,192 @@
+/**
+ * Zip Archive - reading and writing .zip files without extra dependencies
+ *
+ * Supports stored and deflated entries (the two methods every exporter
+ * uses), using the platform CompressionStream/DecompressionStream. Zip64 and
+ * encrypted archives are rejected.
+ */
+
+export interface ZipEntry {
+  name: string; // Path inside the archive, using forward slashes
+  data: Uint8Array;
+}
+
+export class ZipFormatError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ZipFormatError';
+  }
+}
+
+const END_OF_CENTRAL_DIRECTORY = 0x06054b50;
+const CENTRAL_FILE_HEADER = 0x02014b50;
+const LOCAL_FILE_HEADER = 0x04034b50;
+
+const utf8 = new TextDecoder('utf-8');
+const utf8Encoder = new TextEncoder();
+// Names without the UTF-8 flag are CP437; latin1 is close enough for file names
+const latin1 = new TextDecoder('latin1');
+
+const inflateRaw = async (data: Uint8Array): Promise<Uint8Array> => {
+  const stream = new Blob([data]).stream().pipeThrough(new DecompressionStream('deflate-raw'));
+  return new Uint8Array(await new Response(stream).arrayBuffer());
+};
+
+const deflateRaw = async (data: Uint8Array): Promise<Uint8Array> => {
+  const stream = new Blob([data]).stream().pipeThrough(new CompressionStream('deflate-raw'));
+  return new Uint8Array(await new Response(stream).arrayBuffer());
+};
+
+let crcTable: Uint32Array | null = null;
+
+export const crc32 = (data: Uint8Array): number => {
+  if (!crcTable) {
+    crcTable = new Uint32Array(256);
+    for (let n = 0; n < 256; n++) {
+      let c = n;
+      for (let k = 0; k < 8; k++) c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+      crcTable[n] = c >>> 0;
+    }
+  }
+  let crc = 0xffffffff;
+  for (let i = 0; i < data.length; i++) crc = crcTable[(crc ^ data[i]) & 0xff] ^ (crc >>> 8);
+  return (crc ^ 0xffffffff) >>> 0;
+};
+
+// Whether the data starts with a zip local file header ("PK\x03\x04")
+export const isZipData = (data: Uint8Array): boolean =>
+  data.length >= 4 && data[0] === 0x50 && data[1] === 0x4b && data[2] === 0x03 && data[3] === 0x04;
+
+// Read every file in a zip archive; directory entries are left out
+export const readZip = async (input: ArrayBuffer | Uint8Array): Promise<ZipEntry[]> => {
+  const bytes = input instanceof Uint8Array ? input : new Uint8Array(input);
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+
+  let eocd = -1;
+  for (let i = bytes.length - 22; i >= Math.max(0, bytes.length - 22 - 0xffff); i--) {
+    if (view.getUint32(i, true) === END_OF_CENTRAL_DIRECTORY) {
+      eocd = i;
+      break;
+    }
+  }
+  if (eocd < 0) throw new ZipFormatError('Not a zip archive');
+
+  const count = view.getUint16(eocd + 10, true);
+  let offset = view.getUint32(eocd + 16, true);
+  if (count === 0xffff || offset === 0xffffffff) throw new ZipFormatError('Zip64 archives are not supported');
+
+  const entries: ZipEntry[] = [];
+  for (let i = 0; i < count; i++) {
+    if (view.getUint32(offset, true) !== CENTRAL_FILE_HEADER) throw new ZipFormatError('Corrupt zip directory');
+    const flags = view.getUint16(offset + 8, true);
+    const method = view.getUint16(offset + 10, true);
+    const compressedSize = view.getUint32(offset + 20, true);
+    const nameLength = view.getUint16(offset + 28, true);
+    const extraLength = view.getUint16(offset + 30, true);
+    const commentLength = view.getUint16(offset + 32, true);
+    const localOffset = view.getUint32(offset + 42, true);
+    const rawName = bytes.subarray(offset + 46, offset + 46 + nameLength);
+    const name = ((flags & 0x800) ? utf8 : latin1).decode(rawName).replace(/\\/g, '/');
+    offset += 46 + nameLength + extraLength + commentLength;
+
+    if (name.endsWith('/')) continue;
+    if (flags & 0x1) throw new ZipFormatError(`"${name}" is encrypted`);
+    if (view.getUint32(localOffset, true) !== LOCAL_FILE_HEADER) throw new ZipFormatError(`Corrupt entry "${name}"`);
+
+    const dataStart = localOffset + 30 + view.getUint16(localOffset + 26, true) + view.getUint16(localOffset + 28, true);
+    const compressed = bytes.subarray(dataStart, dataStart + compressedSize);
+    if (method === 0) {
+      entries.push({ name, data: compressed });
+    } else if (method === 8) {
+      entries.push({ name, data: await inflateRaw(compressed) });
+    } else {
+      throw new ZipFormatError(`"${name}" uses unsupported compression method ${method}`);
+    }
+  }
+  return entries;
+};
+
+export const zipEntryText = (entry: ZipEntry): string => utf8.decode(entry.data);
+
+export const textZipEntry = (name: string, text: string): ZipEntry => ({ name, data: utf8Encoder.encode(text) });
+
+// MS-DOS date and time fields for the entry headers
+const dosDateTime = (date: Date): { time: number; date: number } => ({
+  time: (date.getHours() << 11) | (date.getMinutes() << 5) | Math.floor(date.getSeconds() / 2),
+  date: ((Math.max(date.getFullYear(), 1980) - 1980) << 9) | ((date.getMonth() + 1) << 5) | date.getDate(),
+});
+
+/**
+ * Build a zip archive. Entries are deflated when that makes them smaller
+ * (already compressed media is usually stored as is).
+ */
+export const writeZip = async (entries: ZipEntry[], modified: Date = new Date()): Promise<Uint8Array> => {
+  const stamp = dosDateTime(modified);
+  const locals: Uint8Array[] = [];
+  const centrals: Uint8Array[] = [];
+  let offset = 0;
+
+  for (const entry of entries) {
+    const name = utf8Encoder.encode(entry.name);
+    const crc = crc32(entry.data);
+    const deflated = entry.data.length > 0 ? await deflateRaw(entry.data) : entry.data;
+    const method = deflated.length < entry.data.length ? 8 : 0;
+    const data = method === 8 ? deflated : entry.data;
+    if (offset + 30 + name.length + data.length > 0xffffffff) {
+      throw new ZipFormatError('Archive is too large for a zip file without Zip64');
+    }
+
+    const local = new Uint8Array(30 + name.length);
+    const lv = new DataView(local.buffer);
+    lv.setUint32(0, LOCAL_FILE_HEADER, true);
+    lv.setUint16(4, 20, true); // Version needed: 2.0
+    lv.setUint16(6, 0x800, true); // UTF-8 names
+    lv.setUint16(8, method, true);
+    lv.setUint16(10, stamp.time, true);
+    lv.setUint16(12, stamp.date, true);
+    lv.setUint32(14, crc, true);
+    lv.setUint32(18, data.length, true);
+    lv.setUint32(22, entry.data.length, true);
+    lv.setUint16(26, name.length, true);
+    local.set(name, 30);
+
+    const central = new Uint8Array(46 + name.length);
+    const cv = new DataView(central.buffer);
+    cv.setUint32(0, CENTRAL_FILE_HEADER, true);
+    cv.setUint16(4, 20, true);
+    cv.setUint16(6, 20, true);
+    cv.setUint16(8, 0x800, true);
+    cv.setUint16(10, method, true);
+    cv.setUint16(12, stamp.time, true);
+    cv.setUint16(14, stamp.date, true);
+    cv.setUint32(16, crc, true);
+    cv.setUint32(20, data.length, true);
+    cv.setUint32(24, entry.data.length, true);
+    cv.setUint16(28, name.length, true);
+    cv.setUint32(42, offset, true);
+    central.set(name, 46);
+
+    locals.push(local, data);
+    centrals.push(central);
+    offset += local.length + data.length;
+  }
+
+  if (entries.length >= 0xffff) throw new ZipFormatError('Too many entries for a zip file without Zip64');
+  const centralSize = centrals.reduce((sum, c) => sum + c.length, 0);
+  const end = new Uint8Array(22);
+  const ev = new DataView(end.buffer);
+  ev.setUint32(0, END_OF_CENTRAL_DIRECTORY, true);
+  ev.setUint16(8, entries.length, true);
+  ev.setUint16(10, entries.length, true);
+  ev.setUint32(12, centralSize, true);
+  ev.setUint32(16, offset, true);
+
+  const parts = [...locals, ...centrals, end];
+  const out = new Uint8Array(offset + centralSize + end.length);
+  let position = 0;
+  parts.forEach(part => {
+    out.set(part, position);
+    position += part.length;
+  });
+  return out;
+};
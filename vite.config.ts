@@ -1,3 +1,4 @@
+/// <reference types="vitest" />
 import { defineConfig } from "vite";
 import react from "@vitejs/plugin-react-swc";
 import path from "path";
@@ -22,4 +23,9 @@ export default defineConfig(({ mode }) => ({
   optimizeDeps: {
     include: ["react", "react-dom"],
   },
+  test: {
+    include: ["src/**/*.test.ts"],
+    // Date tests assume a zone with daylight saving time
+    env: { TZ: "Europe/Berlin" },
+  },
 }));